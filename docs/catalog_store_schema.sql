@@ -0,0 +1,78 @@
+-- video_catalog / video_catalog_history
+--
+-- Persistent catalog store for the video editor (CATALOG_STORE=supabase).
+-- Replaces catalog-results.json on the Railway volume, which was lost on
+-- redeploy and could not be shared between replicas.
+--
+-- Writes are versioned: a replica only updates a row if `version` still
+-- matches what it read (optimistic concurrency — see catalog-store.ts).
+-- Changes to suspectedLocation, contentType, timestampScores and
+-- narrativeBeats are appended to video_catalog_history with who made them.
+--
+-- Run this in the Supabase SQL editor to create the tables, then run
+-- `bun scripts/migrate-catalog-seed.ts` to import catalog-seed.json.
+
+CREATE TABLE IF NOT EXISTS video_catalog (
+  file_id text PRIMARY KEY,           -- Google Drive file ID
+  entry jsonb NOT NULL,               -- full CatalogEntry
+  version integer NOT NULL DEFAULT 1, -- +1 per write that changed something
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by text NOT NULL            -- cataloger | rescore | manual | beat-finder | migration:seed | ...
+);
+
+CREATE TABLE IF NOT EXISTS video_catalog_history (
+  id bigserial PRIMARY KEY,
+  file_id text NOT NULL REFERENCES video_catalog(file_id) ON DELETE CASCADE,
+  field text NOT NULL,                -- suspectedLocation | contentType | timestampScores | narrativeBeats
+  version integer NOT NULL,           -- entry version this change produced
+  changed_by text NOT NULL,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  previous_value jsonb,
+  next_value jsonb
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE video_catalog ENABLE ROW LEVEL SECURITY;
+ALTER TABLE video_catalog_history ENABLE ROW LEVEL SECURITY;
+
+-- History is read per entry (optionally per field), newest first.
+CREATE INDEX IF NOT EXISTS idx_video_catalog_history_file_field
+  ON video_catalog_history(file_id, field, changed_at DESC);
+
+-- Useful review view: recent manual corrections.
+CREATE OR REPLACE VIEW video_catalog_recent_manual_edits AS
+SELECT
+  h.file_id,
+  c.entry->>'filename' AS filename,
+  h.field,
+  h.previous_value,
+  h.next_value,
+  h.changed_at
+FROM video_catalog_history h
+JOIN video_catalog c ON c.file_id = h.file_id
+WHERE h.changed_by = 'manual'
+ORDER BY h.changed_at DESC
+LIMIT 100;
+
+-- catalog_jobs
+--
+-- Durable background jobs for catalog work (catalog-jobs.ts): full catalog,
+-- rescore, analyze-scenes, analyze-visual, generate-segments.
+-- The full job record (checkpoints, lease, counters) lives in `job`;
+-- `type`/`state` are copied out for filtering. Workers claim jobs with the
+-- same version check as video_catalog, so two replicas never run one job.
+
+CREATE TABLE IF NOT EXISTS catalog_jobs (
+  id text PRIMARY KEY,                -- catjob_<timestamp>_<rand>
+  type text NOT NULL,                 -- full-catalog | rescore | analyze-scenes | analyze-visual | generate-segments
+  state text NOT NULL,                -- queued | running | paused | failed | done | cancelled
+  job jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE catalog_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_catalog_jobs_state ON catalog_jobs(state);
+CREATE INDEX IF NOT EXISTS idx_catalog_jobs_updated_at ON catalog_jobs(updated_at DESC);
@@ -0,0 +1,36 @@
+-- content_calendar
+--
+-- Scheduled posts for the content calendar
+-- (src/agent/content-creator/content-calendar.ts). Each row points at a
+-- generated_content or finished_videos row and is published through the
+-- Make.com webhook when due.
+--
+-- `item` holds the whole CalendarItem record (attempt log, last error,
+-- caption override). The scalar columns mirror it for filtering; `version`
+-- is the optimistic-lock counter the scheduler uses to claim an item so
+-- two replicas never post it twice.
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured the calendar uses content-calendar.json on the
+-- persistent volume instead.
+
+CREATE TABLE IF NOT EXISTS content_calendar (
+  id text PRIMARY KEY,                -- cal_<timestamp>_<rand>
+  source_type text NOT NULL,          -- generated_content | finished_videos
+  source_id text NOT NULL,
+  platform text NOT NULL,
+  publish_at timestamptz NOT NULL,
+  status text NOT NULL,               -- scheduled | publishing | retrying | published | failed | cancelled
+  next_attempt_at timestamptz NOT NULL,
+  item jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE content_calendar ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_content_calendar_publish_at ON content_calendar(publish_at);
+CREATE INDEX IF NOT EXISTS idx_content_calendar_status ON content_calendar(status, next_attempt_at);
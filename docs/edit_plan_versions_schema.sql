@@ -0,0 +1,35 @@
+-- edit_plan_versions
+--
+-- Edit plan history (src/agent/video-editor/edit-plan-versions.ts). One row
+-- per saved plan; `record` holds the whole EditPlanVersion — the plan, what
+-- produced it (v1 prompt, pipeline-v2, reviewer revision, human feedback,
+-- manual edit, rollback), the diff against its parent, and the renders and
+-- VideoReviews linked to it. All versions of one video share lineage_id
+-- (the id of its first version). Rollbacks add a row; nothing is rewritten.
+-- Linking a render or review rewrites `record` with a conditional update on
+-- `revision`, so concurrent links don't overwrite each other.
+--
+-- Run this in the Supabase SQL editor. Without Supabase configured, versions
+-- go to edit-plan-versions.json on the persistent volume.
+
+CREATE TABLE IF NOT EXISTS edit_plan_versions (
+  id text PRIMARY KEY,                 -- epv_<base36 time>_<random>
+  lineage_id text NOT NULL,
+  version integer NOT NULL,            -- 1-based within the lineage
+  parent_id text REFERENCES edit_plan_versions(id),
+  source text NOT NULL,
+  record jsonb NOT NULL,
+  revision integer NOT NULL DEFAULT 0, -- bumped on every render/review link
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (lineage_id, version)
+);
+
+-- Tables created before link revisions
+ALTER TABLE edit_plan_versions ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_edit_plan_versions_lineage ON edit_plan_versions(lineage_id, version);
+CREATE INDEX IF NOT EXISTS idx_edit_plan_versions_created_at ON edit_plan_versions(created_at DESC);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE edit_plan_versions ENABLE ROW LEVEL SECURITY;
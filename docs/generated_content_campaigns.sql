@@ -0,0 +1,14 @@
+-- generated_content campaign columns
+--
+-- Campaign mode in content-creator (src/agent/content-creator/campaign.ts)
+-- writes one generated_content row per piece — Instagram caption, LinkedIn
+-- post, X thread, newsletter section, blog outline — all sharing a
+-- campaign_id. campaign_role says which piece a row is.
+--
+-- Run this in the Supabase SQL editor. Until it runs, campaign pieces are
+-- still saved, just without the link between them.
+
+ALTER TABLE generated_content ADD COLUMN IF NOT EXISTS campaign_id text;     -- camp_<timestamp>_<rand>
+ALTER TABLE generated_content ADD COLUMN IF NOT EXISTS campaign_role text;   -- instagram-caption | linkedin-post | x-thread | newsletter-section | blog-outline
+
+CREATE INDEX IF NOT EXISTS idx_generated_content_campaign_id ON generated_content(campaign_id);
@@ -0,0 +1,33 @@
+-- grant_answers
+--
+-- The grant answer library (src/agent/grant-writer/answer-library.ts):
+-- approved boilerplate for recurring application sections (mission, DEI
+-- statement, evaluation plan, sustainability, organizational history) in
+-- 100 / 250 / 500-word variants. grant-writer reuses approved answers for
+-- matching `requiredSections` and only generates the rest.
+--
+-- `item` holds the whole LibraryAnswer record (variants, aliases, approval,
+-- usage). The scalar columns mirror it for filtering; `version` is the
+-- optimistic-lock counter so two concurrent edits don't overwrite each
+-- other.
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured the library uses grant-answers.json on the
+-- persistent volume instead.
+
+CREATE TABLE IF NOT EXISTS grant_answers (
+  id text PRIMARY KEY,                -- ans_<timestamp>_<rand>
+  section_key text NOT NULL,          -- normalized section title ("evaluation")
+  status text NOT NULL,               -- draft | approved | retired
+  tags text[] NOT NULL DEFAULT '{}',
+  item jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE grant_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_grant_answers_status ON grant_answers(status, section_key);
+CREATE INDEX IF NOT EXISTS idx_grant_answers_tags ON grant_answers USING gin(tags);
@@ -0,0 +1,35 @@
+-- grant_pipeline
+--
+-- Tracked grant opportunities for the grant pipeline
+-- (src/agent/grant-writer/grant-pipeline.ts). Each row is a grant-writer
+-- search result someone chose to pursue, with its stage, owner, deadline
+-- and the drafts written against it.
+--
+-- `item` holds the whole PipelineGrant record (original search result,
+-- milestones, drafts, stage history). The scalar columns mirror it for
+-- filtering and dedup; `version` is the optimistic-lock counter so two
+-- concurrent edits don't overwrite each other.
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured the pipeline uses grant-pipeline.json on the
+-- persistent volume instead.
+
+CREATE TABLE IF NOT EXISTS grant_pipeline (
+  id text PRIMARY KEY,                -- grant_<timestamp>_<rand>
+  funder_key text NOT NULL,           -- normalized funder name ("ford")
+  program_key text NOT NULL,          -- normalized program name
+  stage text NOT NULL,                -- prospect | researching | loi_drafted | submitted | awarded | declined
+  owner text,
+  deadline_date date,                 -- null for rolling / unparseable deadlines
+  item jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE grant_pipeline ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grant_pipeline_program ON grant_pipeline(funder_key, program_key);
+CREATE INDEX IF NOT EXISTS idx_grant_pipeline_stage ON grant_pipeline(stage, deadline_date);
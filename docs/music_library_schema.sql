@@ -0,0 +1,33 @@
+-- music_tracks + finished_videos.music_track_id
+--
+-- The music library (src/agent/video-editor/music-library.ts). One row per
+-- uploaded or edited track; `track` holds the whole MusicTrack — title,
+-- mood/mode tags, measured duration, BPM and loudness, and the license
+-- (type, attribution text, expiry). Rows whose id matches a built-in track
+-- override it. Archived tracks stay so past renders still resolve.
+--
+-- Uploaded audio goes to a public Storage bucket named `music` — create it
+-- in the Supabase dashboard (Storage → New bucket → Public).
+--
+-- finished_videos.music_track_id records which track each published video
+-- used; selectTrack() rotates away from tracks used in the last 30 days.
+--
+-- Run this in the Supabase SQL editor. Without Supabase configured, the
+-- library goes to music-library.json and music-files/ on the persistent
+-- volume and usage is not tracked.
+
+CREATE TABLE IF NOT EXISTS music_tracks (
+  id text PRIMARY KEY,                 -- built-in id, or mt_<slug>_<base36 time> for uploads
+  track jsonb NOT NULL,
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE finished_videos ADD COLUMN IF NOT EXISTS music_track_id text;
+
+CREATE INDEX IF NOT EXISTS idx_finished_videos_music_track_id ON finished_videos(music_track_id, created_at DESC);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE music_tracks ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- organization_profile
+--
+-- CLC's organization profile (src/lib/org-profile.ts): programs, sites,
+-- impact metrics with as-of dates, leadership, EIN and budget band. The
+-- grant-writer, donor-researcher, venue-prospector and content-creator
+-- agents render their prompt context from it.
+--
+-- One row (id = 'default'). `profile` holds the whole OrganizationProfile
+-- record; `version` is the optimistic-lock counter so two editors don't
+-- overwrite each other. Until the row exists the agents use the built-in
+-- defaults.
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured the profile lives in org-profile.json on the
+-- persistent volume instead.
+
+CREATE TABLE IF NOT EXISTS organization_profile (
+  id text PRIMARY KEY,                -- 'default'
+  profile jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE organization_profile ENABLE ROW LEVEL SECURITY;
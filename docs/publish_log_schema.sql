@@ -0,0 +1,25 @@
+-- publish_log
+--
+-- One row per publish attempt (src/agent/content-creator/publish-log.ts):
+-- the adapter and target used, success, HTTP status and the target's
+-- response. Content calendar retries each get their own row.
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured the log goes to publish-log.jsonl on the persistent
+-- volume instead.
+
+CREATE TABLE IF NOT EXISTS publish_log (
+  id text PRIMARY KEY,                -- pub_<timestamp>_<rand>
+  platform text NOT NULL,
+  adapter text NOT NULL,              -- make | signed-webhook | outbox | none
+  success boolean NOT NULL,
+  entry jsonb NOT NULL,               -- full PublishLogEntry
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE publish_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_publish_log_created_at ON publish_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_publish_log_platform ON publish_log(platform);
@@ -0,0 +1,24 @@
+-- publish_routing
+--
+-- Which publisher adapter handles each platform
+-- (src/agent/content-creator/publishers.ts): make, signed-webhook or
+-- outbox, per platform plus an optional default route. Edited through
+-- GET/PUT /api/publish/routing.
+--
+-- One row (id = 'default'). `config` holds the whole PublishRoutingConfig.
+-- Webhook secrets are not stored — signed-webhook routes name the env var
+-- holding theirs (secretEnv).
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured the routing lives in publish-routing.json on the
+-- persistent volume instead.
+
+CREATE TABLE IF NOT EXISTS publish_routing (
+  id text PRIMARY KEY,                -- 'default'
+  config jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE publish_routing ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,30 @@
+-- render_groups + finished_videos group columns
+--
+-- Multi-aspect renders (src/agent/video-editor/multi-render.ts) take one
+-- edit plan to several platforms in one job. The render group stores that
+-- edit plan once, plus the per-output render IDs and statuses
+-- (`render_group` holds the whole RenderGroup). Each finished output
+-- writes one finished_videos row per platform it serves, linked back by
+-- render_group_id; aspect_ratio says which frame it was rendered for.
+--
+-- Run this in the Supabase SQL editor. Without Supabase configured,
+-- groups go to render-groups.json on the persistent volume and no
+-- finished_videos rows are written.
+
+CREATE TABLE IF NOT EXISTS render_groups (
+  id text PRIMARY KEY,                 -- rgrp_<timestamp>_<rand>
+  mode text NOT NULL,
+  edit_plan jsonb NOT NULL,
+  render_group jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE finished_videos ADD COLUMN IF NOT EXISTS render_group_id text REFERENCES render_groups(id) ON DELETE SET NULL;
+ALTER TABLE finished_videos ADD COLUMN IF NOT EXISTS aspect_ratio text;   -- 9:16 | 1:1 | 4:5 | 16:9
+
+CREATE INDEX IF NOT EXISTS idx_finished_videos_render_group_id ON finished_videos(render_group_id);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE render_groups ENABLE ROW LEVEL SECURITY;
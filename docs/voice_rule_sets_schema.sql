@@ -0,0 +1,23 @@
+-- voice_rule_sets
+--
+-- Versioned voice rules learned from content_feedback
+-- (src/agent/content-creator/feedback-analysis.ts, voice-rules.ts).
+-- One row per version; the highest version is active. `rule_set` holds
+-- the whole VoiceRuleSet — scoped do/avoid rules with their evidence and
+-- the per-platform feedback counts they came from. Restoring an old
+-- version inserts a copy as a new version.
+--
+-- Run this in the Supabase SQL editor to create the table. Without
+-- Supabase configured, rules go to voice-rules.json on the persistent
+-- volume instead.
+
+CREATE TABLE IF NOT EXISTS voice_rule_sets (
+  version integer PRIMARY KEY,
+  rule_count integer NOT NULL,
+  rule_set jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE voice_rule_sets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+-- workflow_runs
+--
+-- Persisted Manager workflow runs (src/agent/manager/workflows.ts).
+-- One row per run; `run` holds the whole WorkflowRun record — per-step
+-- status, resolved inputs, outputs and errors — and is rewritten after
+-- every step so a failed run can be resumed from the failed step.
+-- `version` is bumped on every save; an executor claims a run with a
+-- conditional update on it, so one run never executes twice at once.
+--
+-- Run this in the Supabase SQL editor to create the table. Without it
+-- (or without Supabase configured) runs go to workflow-runs.json on the
+-- persistent volume instead.
+
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  run_id text PRIMARY KEY,            -- wf_<timestamp>_<rand>
+  workflow_id text NOT NULL,          -- e.g. grant-loi-announcement, video-with-caption
+  status text NOT NULL,               -- running | done | failed
+  run jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Tables created before run claims
+ALTER TABLE workflow_runs ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 0;
+
+-- Enable RLS (required by Supabase security policy).
+-- The backend uses supabaseAdmin (service role key) which bypasses RLS.
+ALTER TABLE workflow_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_created_at ON workflow_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_status ON workflow_runs(status);
@@ -0,0 +1,43 @@
+/**
+ * Run the Manager routing fixtures against the live intent router and print
+ * a pass/fail table. Exits non-zero if any fixture fails.
+ *
+ * --offline runs them through the keyword fallback instead — no OpenAI key
+ * or network needed. The fallback may ask for clarification where the
+ * model would route (ASK, allowed), but a plan it would execute must match
+ * the fixture, so only confident misroutes fail.
+ *
+ * Usage:
+ *   bun scripts/eval-manager-routing.ts
+ *   bun scripts/eval-manager-routing.ts "LinkedIn"   # only fixtures whose request contains this text
+ *   bun scripts/eval-manager-routing.ts --offline
+ */
+import 'dotenv/config';
+import { routeIntent, keywordRoute, needsClarification } from '../src/agent/manager/intent-router';
+import { ROUTING_FIXTURES, checkFixture, planTask } from '../src/agent/manager/routing-fixtures';
+
+const args = process.argv.slice(2);
+const offline = args.includes('--offline');
+const filter = args.find(a => a !== '--offline')?.toLowerCase();
+const fixtures = filter
+	? ROUTING_FIXTURES.filter(f => f.request.toLowerCase().includes(filter))
+	: ROUTING_FIXTURES;
+
+let failed = 0;
+let asked = 0;
+for (const fixture of fixtures) {
+	const plan = offline ? keywordRoute(fixture.request) : await routeIntent(fixture.request);
+	const clarifying = needsClarification(plan);
+	const problems = checkFixture(fixture, plan, clarifying);
+	const safeAsk = offline && problems.length > 0 && clarifying && !fixture.expectClarification;
+	if (safeAsk) asked++;
+	else if (problems.length > 0) failed++;
+
+	const routed = `${plan.agent}${planTask(plan) ? `/${planTask(plan)}` : ''} (${plan.confidence.toFixed(2)}, ${plan.source})`;
+	console.log(`${problems.length === 0 ? 'PASS' : safeAsk ? 'ASK ' : 'FAIL'}  ${fixture.request}`);
+	console.log(`      → ${routed}${problems.length > 0 ? `\n      ${problems.join('; ')}` : ''}`);
+}
+
+const passed = fixtures.length - failed - asked;
+console.log(`\n${passed}/${fixtures.length} routing fixtures passed${offline ? ` (keyword fallback; ${asked} asked for clarification)` : ''}`);
+process.exit(failed > 0 ? 1 : 0);
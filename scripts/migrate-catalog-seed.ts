@@ -0,0 +1,21 @@
+/**
+ * Import catalog-seed.json (and a legacy catalog-results.json, if present)
+ * into the catalog store selected by CATALOG_STORE.
+ *
+ * Safe to re-run: entries already in the store are skipped.
+ *
+ * Usage:
+ *   CATALOG_STORE=supabase bun scripts/migrate-catalog-seed.ts
+ *   bun scripts/migrate-catalog-seed.ts --seed-only   # ignore catalog-results.json
+ */
+import 'dotenv/config';
+import { getCatalogStore, migrateSeedCatalog } from '../src/agent/video-editor/catalog-store';
+
+const seedOnly = process.argv.includes('--seed-only');
+const store = getCatalogStore();
+
+console.log(`Migrating catalog into ${store.kind} store${seedOnly ? ' (seed only)' : ''}...`);
+const result = await migrateSeedCatalog(store, { includeLegacyResults: !seedOnly });
+console.log(`Sources: ${result.sources.join(', ') || 'none'}`);
+console.log(`Imported: ${result.imported}, already present: ${result.skipped}`);
+console.log(`Store now holds ${(await store.list()).length} entries`);
@@ -0,0 +1,105 @@
+/**
+ * Structured Brief — the `key: value` topic format the frontend sends
+ * ("topic: X. audience: Y. cta: Z.") and the prompt sections built from it
+ *
+ * Shared by single-post generation (buildGenerationPrompt in index.ts)
+ * and campaign mode (campaign.ts) so every piece works from the same
+ * material and the same anti-fabrication rules.
+ *
+ * File: src/agent/content-creator/brief.ts
+ */
+
+export interface StructuredBrief {
+	topic: string;
+	audience: string;
+	cta: string;
+	details: string;
+	feeling: string;
+	moment: string;
+	hook: string;
+	style: string;
+	conversation: string;
+}
+
+export function parseStructuredTopic(topic: string): StructuredBrief {
+	// Parse key-value pairs from "topic: X. audience: Y. cta: Z." format
+	const parsed: Record<string, string> = {};
+
+	// Split on ". " followed by a key: pattern (but not periods inside values)
+	const parts = topic.split(/\.\s*(?=[a-zA-Z_]+\s*:)/);
+	for (const part of parts) {
+		const match = part.match(/^([a-zA-Z_]+)\s*:\s*(.+)/s);
+		if (match) {
+			parsed[match[1]!.toLowerCase().trim()] = match[2]!.trim().replace(/\.$/, '');
+		}
+	}
+
+	return {
+		// If parsing failed (plain text topic), use the whole string
+		topic: parsed['topic'] || topic,
+		audience: parsed['audience'] || '',
+		cta: parsed['cta'] || '',
+		details: parsed['details'] || '',
+		feeling: parsed['feeling'] || '',
+		moment: parsed['moment'] || '',
+		hook: parsed['hook'] || '',
+		style: parsed['style'] || '',
+		conversation: parsed['conversation'] || '',
+	};
+}
+
+/**
+ * Prompt sections for a brief — only what we have — ending with the
+ * anti-fabrication rules. Output-format instructions are the caller's.
+ */
+export function buildBriefSections(topic: string): string[] {
+	const { topic: rawTopic, audience, cta, details, feeling, moment, hook, style, conversation: conversationNotes } = parseStructuredTopic(topic);
+
+	// Build sections — only include what we have
+	const sections: string[] = [];
+
+	sections.push(`## WHAT THIS IS ABOUT\n${rawTopic}`);
+
+	if (audience) {
+		sections.push(`## WHO YOU'RE TALKING TO\n${audience}. Write directly to them — not about them. They're already in the circle.`);
+	}
+
+	if (moment) {
+		sections.push(`## THE SPECIFIC MOMENT\nUse this real moment as the anchor:\n${moment}\nBuild the post around this — don't invent a different story.`);
+	}
+
+	if (hook) {
+		sections.push(`## THE HOOK\nOpen with something close to: ${hook}\nMake it impossible to scroll past.`);
+	}
+
+	if (feeling) {
+		sections.push(`## WHAT THE READER SHOULD FEEL\n${feeling}. But don't announce it — create it through specifics and rhythm.`);
+	}
+
+	if (details) {
+		sections.push(`## DETAILS TO INCLUDE\n${details}\nWeave these in naturally — don't list them.`);
+	}
+
+	if (cta) {
+		sections.push(`## WHAT THEY SHOULD DO\n${cta}. But the CTA should feel like an invitation, not a pitch.`);
+	}
+
+	if (style) {
+		sections.push(`## VIDEO STYLE\n${style}`);
+	}
+
+	if (conversationNotes) {
+		sections.push(`## ADDITIONAL CONTEXT FROM THE CONVERSATION\n${conversationNotes}`);
+	}
+
+	// ANTI-FABRICATION RULES — injected into every generation prompt
+	sections.push(`## ABSOLUTE RULES
+1. DO NOT invent any person, child, parent, coach, or specific individual. No "Jamal," no "Coach Keisha," no "Sarah's mom," no fake names. ZERO invented characters.
+2. DO NOT create specific anecdotes that didn't happen. You can describe TYPES of moments ("the kid who finally holds the racket right") but never invent a plot with named characters.
+3. If a real moment was provided above, use it. If not, write from program-level truth and Kimberly's lived perspective.
+4. Start mid-thought. Drop the reader into something specific. No warm-up paragraphs.
+5. Every sentence must earn its spot. If Kimberly would delete it, you delete it first.
+6. Write this so an AI detector scores it as HUMAN. That means: irregular sentence lengths, conversational fragments, specific details over general claims, imperfect rhythm that sounds like someone actually talking.`);
+
+	return sections;
+}
@@ -0,0 +1,364 @@
+/**
+ * Campaign Mode — one structured topic, a coordinated set of pieces
+ *
+ * Instead of one unrelated post per /content-creator call, a campaign:
+ *   1. Distills the brief (brief.ts) into shared messaging — one key
+ *      message, proof point, hook angle, CTA, phrases to echo, and one
+ *      image scene — so every piece says the same thing.
+ *   2. Picks ONE image style via getAgentStyleRecommendations and renders
+ *      the shared scene in it for every piece that carries an image.
+ *   3. Writes each piece in its platform's format (Instagram caption,
+ *      LinkedIn post, X thread, newsletter section, blog outline) and runs
+ *      it through the platform rules.
+ *   4. Saves every piece to generated_content with the same campaign_id
+ *      (see docs/generated_content_campaigns.sql).
+ *
+ * The image and cleanup helpers live in index.ts and are passed in, so
+ * this module doesn't import the agent.
+ *
+ * File: src/agent/content-creator/campaign.ts
+ */
+
+import { generateText } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import OpenAI from 'openai';
+import { buildBriefSections, parseStructuredTopic } from './brief';
+import { getAgentStyleRecommendations, getStyleById, type ImageStyle } from './style-library';
+import { getPlatformProfile } from './platform-profiles';
+import { adaptToPlatform, type PlatformAdaptResult } from './platform-rules';
+import { describeLeader, executiveDirector, type OrganizationProfile } from '../../lib/org-profile';
+
+// --- Types ---
+
+export type CampaignRole = 'instagram-caption' | 'linkedin-post' | 'x-thread' | 'newsletter-section' | 'blog-outline';
+
+interface CampaignPieceDefinition {
+	role: CampaignRole;
+	label: string;
+	platform: string;
+	/** Gets an image in the campaign style. */
+	withImage: boolean;
+	format: string;
+}
+
+export interface CampaignMessaging {
+	keyMessage: string;
+	proofPoint: string;
+	hookAngle: string;
+	callToAction: string;
+	sharedPhrases: string[];
+	imageScene: string;
+}
+
+export interface CampaignPiece {
+	role: CampaignRole;
+	label: string;
+	platform: string;
+	content: string;
+	/** X thread: the individual tweets, in order. */
+	posts?: string[];
+	contentId?: string;
+	imageUrl?: string;
+	platformCheck: Pick<PlatformAdaptResult, 'adapted' | 'warnings' | 'fixes'>;
+	/** Voice rule ids in this piece's system prompt (voice-rules.ts). */
+	appliedVoiceRules: string[];
+}
+
+export interface CampaignResult {
+	campaignId: string;
+	messaging: CampaignMessaging;
+	style?: { styleId: string; styleName: string; reason: string };
+	pieces: CampaignPiece[];
+}
+
+type Logger = {
+	info: (msg: string, ...args: unknown[]) => void;
+	warn: (msg: string, ...args: unknown[]) => void;
+	error: (msg: string, ...args: unknown[]) => void;
+};
+
+export interface CampaignDeps {
+	/** Organization the campaign is for — its name and leader go into the prompts. */
+	profile: OrganizationProfile;
+	/** Voice system prompt for a platform, with the voice rule ids it includes. Global rules only without a platform. */
+	voice: (platform?: string) => { system: string; appliedRules: string[] };
+	/** Strips leaked brainstorming from model output. */
+	cleanOutput: (raw: string) => string;
+	/** Render `scene` in `style` at the platform's size; null on failure. */
+	generateImage: (scene: string, style: ImageStyle, reason: string, platform: string) => Promise<{ imageUrl: string; imagePrompt: string } | null>;
+	/** Persist a data: URL image; null on failure (caller keeps the data URL). */
+	uploadImage: (dataUrl: string, styleId: string) => Promise<string | null>;
+	logger: Logger;
+}
+
+// --- Definitions ---
+
+const X_THREAD_SEPARATOR = '---';
+
+export const CAMPAIGN_PIECES: CampaignPieceDefinition[] = [
+	{
+		role: 'instagram-caption',
+		label: 'Instagram caption',
+		platform: 'Instagram',
+		withImage: true,
+		format: `An Instagram caption. Hook in the first line, short paragraphs with line breaks, 80-200 words, end with the call to action and 3-5 relevant hashtags on the last line.`,
+	},
+	{
+		role: 'linkedin-post',
+		label: 'LinkedIn post',
+		platform: 'LinkedIn',
+		withImage: true,
+		format: `A LinkedIn post for funders, partners and professionals. The first paragraph is a one- or two-line hook under 200 characters. Then 3-6 short paragraphs connecting the moment to outcomes and community impact, 150-300 words, end with the call to action. At most 3 hashtags.`,
+	},
+	{
+		role: 'x-thread',
+		label: 'X thread',
+		platform: 'Twitter',
+		withImage: false,
+		format: `An X (Twitter) thread of 4-6 posts. Each post is under 260 characters and stands on its own. The first post is the hook; the last carries the call to action. Put a line containing only ${X_THREAD_SEPARATOR} between posts. No numbering like "1/5". At most 2 hashtags in the whole thread.`,
+	},
+	{
+		role: 'newsletter-section',
+		label: 'Newsletter section',
+		platform: 'Newsletter',
+		withImage: true,
+		format: `One section of the monthly email newsletter for families and supporters. First line is a short section heading (no # symbols). Then 2-4 warm, conversational paragraphs, 150-250 words, ending with the call to action as its own line.`,
+	},
+	{
+		role: 'blog-outline',
+		label: 'Blog outline',
+		platform: 'Blog',
+		withImage: false,
+		format: `A blog post OUTLINE (not the full post) in markdown: a "# " title, then 4-5 "## " section headings, each followed by 2-3 "- " bullets saying what that section covers and which specifics to use, then one "> " line with a pull-quote candidate.`,
+	},
+];
+
+export const CAMPAIGN_ROLES: CampaignRole[] = CAMPAIGN_PIECES.map(p => p.role);
+
+// --- Messaging ---
+
+const MESSAGING_SCHEMA = {
+	type: 'object',
+	properties: {
+		keyMessage: { type: 'string', description: 'The one thing every piece must get across, one sentence' },
+		proofPoint: { type: 'string', description: 'The concrete detail or number from the brief that backs it up' },
+		hookAngle: { type: 'string', description: 'The shared angle each piece opens on' },
+		callToAction: { type: 'string', description: 'The single action every piece asks for' },
+		sharedPhrases: { type: 'array', items: { type: 'string' }, description: '2-3 short phrases every piece should echo' },
+		imageScene: {
+			type: 'string',
+			description: 'One structured scene description for the campaign image: Scene / Subject / Key details / Composition lines, photography language, no art style',
+		},
+	},
+	required: ['keyMessage', 'proofPoint', 'hookAngle', 'callToAction', 'sharedPhrases', 'imageScene'],
+	additionalProperties: false,
+} as const;
+
+async function planMessaging(topic: string, system: string, profile: OrganizationProfile): Promise<CampaignMessaging> {
+	const leader = executiveDirector(profile);
+	const client = new OpenAI();
+	const response = await client.chat.completions.create({
+		model: 'gpt-5-mini',
+		messages: [
+			{ role: 'system', content: system },
+			{
+				role: 'user',
+				content: `Plan the shared messaging for a multi-platform campaign (Instagram, LinkedIn, X, newsletter, blog) for ${profile.name}.
+
+${buildBriefSections(topic).join('\n\n')}
+
+For the image scene: show Black and brown children, teens and families in real community settings (community center gyms, parks, folding tables with chess boards) — not country clubs, not stock-photo setups. No text overlays.${leader ? ` When the brief is about leadership or vision, the leader is ${describeLeader(leader)}.` : ''}`,
+			},
+		],
+		response_format: {
+			type: 'json_schema',
+			json_schema: { name: 'campaign_messaging', strict: true, schema: MESSAGING_SCHEMA },
+		},
+	});
+
+	const raw = response.choices[0]?.message?.content;
+	if (!raw) throw new Error('Campaign messaging: empty model response');
+	return JSON.parse(raw) as CampaignMessaging;
+}
+
+function messagingSection(m: CampaignMessaging): string {
+	return `## CAMPAIGN MESSAGING — shared by every piece in this campaign
+Key message: ${m.keyMessage}
+Proof point: ${m.proofPoint}
+Hook angle: ${m.hookAngle}
+Call to action: ${m.callToAction}
+Echo these phrases where they fit naturally: ${m.sharedPhrases.map(p => `"${p}"`).join(', ')}
+Say the same thing as the other pieces — in this platform's own shape and rhythm. Don't copy sentences between pieces.`;
+}
+
+// --- Pieces ---
+
+async function writePiece(
+	definition: CampaignPieceDefinition,
+	topic: string,
+	messaging: CampaignMessaging,
+	deps: CampaignDeps,
+): Promise<Omit<CampaignPiece, 'contentId' | 'imageUrl'>> {
+	const { system, appliedRules } = deps.voice(definition.platform);
+	const prompt = `You are writing the ${definition.label} piece of a ${deps.profile.name} campaign.
+
+${[messagingSection(messaging), ...buildBriefSections(topic)].join('\n\n')}
+
+## OUTPUT FORMAT
+${definition.format}
+Respond with ONLY the ${definition.label.toLowerCase()}. No labels, no notes, no brainstorming. The first word you write is the first word of the piece.`;
+
+	const { text } = await generateText({
+		model: openai('gpt-5-mini'),
+		system,
+		prompt,
+	});
+	const isMarkdown = definition.role === 'blog-outline';
+	const raw = isMarkdown ? text.trim() : deps.cleanOutput(text);
+
+	const rewrite = async (instruction: string, content: string) => {
+		const { text: revised } = await generateText({
+			model: openai('gpt-5-mini'),
+			system,
+			prompt: `${instruction}\n\nPOST:\n${content}`,
+		});
+		return deps.cleanOutput(revised);
+	};
+
+	if (definition.role === 'x-thread') {
+		const posts = raw
+			.split(new RegExp(`^\\s*${X_THREAD_SEPARATOR}+\\s*$`, 'm'))
+			.map(p => p.trim())
+			.filter(Boolean);
+		const checked = await Promise.all(posts.map(p => adaptToPlatform(p, definition.platform, { rewrite })));
+		const fitted = checked.map(c => c.content);
+		return {
+			role: definition.role,
+			label: definition.label,
+			platform: definition.platform,
+			content: fitted.join(`\n\n${X_THREAD_SEPARATOR}\n\n`),
+			posts: fitted,
+			appliedVoiceRules: appliedRules,
+			platformCheck: {
+				adapted: checked.some(c => c.adapted),
+				warnings: checked.flatMap((c, i) => c.warnings.map(w => ({ ...w, message: `Post ${i + 1}: ${w.message}` }))),
+				fixes: checked.flatMap((c, i) => c.fixes.map(f => ({ ...f, description: `Post ${i + 1}: ${f.description}` }))),
+			},
+		};
+	}
+
+	const checked = await adaptToPlatform(raw, definition.platform, { rewrite });
+	return {
+		role: definition.role,
+		label: definition.label,
+		platform: definition.platform,
+		content: checked.content,
+		platformCheck: { adapted: checked.adapted, warnings: checked.warnings, fixes: checked.fixes },
+		appliedVoiceRules: appliedRules,
+	};
+}
+
+// --- Persistence ---
+
+async function savePiece(
+	piece: CampaignPiece,
+	campaignId: string,
+	topic: string,
+	style: ImageStyle | undefined,
+	imagePrompt: string | undefined,
+	logger: Logger,
+): Promise<string | undefined> {
+	try {
+		const { supabaseAdmin } = await import('../../lib/supabase');
+		const row = {
+			platform: piece.platform,
+			content: piece.content,
+			topic: topic.slice(0, 500),
+			image_urls: piece.imageUrl ? [piece.imageUrl] : [],
+			image_prompts: piece.imageUrl && imagePrompt ? [imagePrompt] : [],
+			image_styles: piece.imageUrl && style ? [style.name] : [],
+			content_type: getPlatformProfile(piece.platform).contentType,
+			word_count: piece.content.split(/\s+/).length,
+		};
+
+		let { data, error } = await supabaseAdmin
+			.from('generated_content')
+			.insert({ ...row, campaign_id: campaignId, campaign_role: piece.role })
+			.select('id')
+			.single();
+
+		// Campaign columns not migrated yet — keep the content, lose the link
+		if (error && /campaign_(id|role)/.test(error.message)) {
+			logger.warn('generated_content has no campaign columns (run docs/generated_content_campaigns.sql) — saving %s unlinked', piece.role);
+			({ data, error } = await supabaseAdmin.from('generated_content').insert(row).select('id').single());
+		}
+
+		if (error) {
+			logger.error('Supabase campaign save failed for %s: %s', piece.role, error.message);
+			return undefined;
+		}
+		return data?.id;
+	} catch (err) {
+		logger.warn('Failed to save campaign piece %s: %s', piece.role, err instanceof Error ? err.message : String(err));
+		return undefined;
+	}
+}
+
+// --- Entry Point ---
+
+export async function runCampaign(
+	topic: string,
+	options: { roles?: string[]; includeImage?: boolean },
+	deps: CampaignDeps,
+): Promise<CampaignResult> {
+	const definitions = options.roles?.length
+		? CAMPAIGN_PIECES.filter(p => options.roles!.includes(p.role))
+		: CAMPAIGN_PIECES;
+	if (definitions.length === 0) {
+		throw new Error(`No campaign pieces selected. Valid: ${CAMPAIGN_ROLES.join(', ')}`);
+	}
+
+	const campaignId = `camp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	deps.logger.info('Campaign %s: %d pieces for "%s"', campaignId, definitions.length, parseStructuredTopic(topic).topic.slice(0, 80));
+
+	// Step 1: Shared messaging
+	const messaging = await planMessaging(topic, deps.voice().system, deps.profile);
+	deps.logger.info('Campaign key message: %s', messaging.keyMessage);
+
+	// Step 2: One image style for the whole campaign
+	const recommendation = getAgentStyleRecommendations(topic, 'Instagram')[0];
+	const style = getStyleById(recommendation?.styleId || 'photorealism');
+
+	// Step 3: Pieces + images in parallel
+	const generated = await Promise.all(definitions.map(async (definition) => {
+		const [written, image] = await Promise.all([
+			writePiece(definition, topic, messaging, deps),
+			options.includeImage !== false && definition.withImage && style
+				? deps.generateImage(messaging.imageScene, style, `Campaign style — ${recommendation?.reason || 'default'}`, definition.platform)
+				: Promise.resolve(null),
+		]);
+
+		let imageUrl = image?.imageUrl;
+		if (imageUrl?.startsWith('data:') && style) {
+			imageUrl = (await deps.uploadImage(imageUrl, style.id)) || imageUrl;
+		}
+		const piece: CampaignPiece = { ...written, imageUrl };
+		return { piece, imagePrompt: image?.imagePrompt };
+	}));
+
+	// Step 4: Save as a linked group
+	for (const { piece, imagePrompt } of generated) {
+		piece.contentId = await savePiece(piece, campaignId, topic, style, imagePrompt, deps.logger);
+	}
+	const pieces = generated.map(g => g.piece);
+
+	deps.logger.info('Campaign %s complete: %s', campaignId,
+		pieces.map(p => `${p.role}${p.contentId ? '' : ' (unsaved)'}`).join(', '));
+
+	return {
+		campaignId,
+		messaging,
+		style: style && recommendation ? { styleId: style.id, styleName: style.name, reason: recommendation.reason } : undefined,
+		pieces,
+	};
+}
@@ -0,0 +1,439 @@
+/**
+ * Content Calendar — scheduled publishing through the publisher adapters
+ *
+ * A calendar item points at a generated_content row (text post) or a
+ * finished_videos row (rendered video), plus a target platform and a
+ * publish time. A scheduler tick on each replica dispatches due items
+ * through publishContent() (publishers.ts), so every attempt also lands
+ * in the publish log.
+ *
+ * Item lifecycle:
+ *   scheduled → publishing → published
+ *                          → retrying → publishing → ... (exponential backoff)
+ *                          → failed   (after MAX_ATTEMPTS; retry manually from the calendar)
+ *   scheduled | retrying | failed → cancelled
+ *
+ * Claiming an item is an optimistic version bump, so two replicas never
+ * post the same item. An item stuck in `publishing` (replica died
+ * mid-send) is treated as a failed attempt once its claim expires.
+ *
+ * Items live in the Supabase content_calendar table when Supabase is
+ * configured (see docs/content_calendar_schema.sql), else in a JSON file
+ * on the persistent volume.
+ *
+ * File: src/agent/content-creator/content-calendar.ts
+ */
+
+import { createVersionedFileStore, persistentPath } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import { publishContent } from './publishers';
+
+// --- Types ---
+
+export type CalendarSourceType = 'generated_content' | 'finished_videos';
+
+export type CalendarItemStatus = 'scheduled' | 'publishing' | 'retrying' | 'published' | 'failed' | 'cancelled';
+
+export interface CalendarAttempt {
+	at: string;
+	success: boolean;
+	message: string;
+}
+
+export interface CalendarItem {
+	id: string;
+	sourceType: CalendarSourceType;
+	sourceId: string;
+	platform: string;
+	/** When the item should go out (ISO). */
+	publishAt: string;
+	status: CalendarItemStatus;
+	/** Overrides the source text — e.g. a caption for a video. */
+	caption?: string;
+	/** Short preview for the calendar view, captured at schedule time. */
+	title: string;
+	attempts: number;
+	/** Earliest time the scheduler may (re)try this item. */
+	nextAttemptAt: string;
+	attemptLog: CalendarAttempt[];
+	lastError?: string;
+	claimedAt?: string;
+	publishedAt?: string;
+	createdAt: string;
+	updatedAt: string;
+	version: number;
+}
+
+export interface ScheduleCalendarItemInput {
+	sourceType: CalendarSourceType;
+	sourceId: string;
+	platform: string;
+	publishAt: string;
+	caption?: string;
+}
+
+// --- Config ---
+
+const TICK_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2 * 60 * 1000;      // 2m, 4m, 8m, 16m
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;    // publishing longer than this = replica died mid-send
+const MAX_ATTEMPT_LOG = 20;
+
+const CALENDAR_FILE_PATH = persistentPath('content-calendar.json');
+
+export const CALENDAR_SOURCE_TYPES: CalendarSourceType[] = ['generated_content', 'finished_videos'];
+
+// --- Storage ---
+
+interface CalendarBackend {
+	list(filter?: { from?: string; to?: string; statuses?: CalendarItemStatus[] }): Promise<CalendarItem[]>;
+	get(id: string): Promise<CalendarItem | null>;
+	/** Write `item` if the stored version still equals `expectedVersion` (0 = insert). */
+	write(item: CalendarItem, expectedVersion: number): Promise<boolean>;
+}
+
+function createFileCalendarBackend(): CalendarBackend {
+	const store = createVersionedFileStore<CalendarItem>(CALENDAR_FILE_PATH, 'content-calendar');
+
+	return {
+		async list(filter = {}) {
+			return store.read().filter(item =>
+				(!filter.from || item.publishAt >= filter.from)
+				&& (!filter.to || item.publishAt <= filter.to)
+				&& (!filter.statuses || filter.statuses.includes(item.status)));
+		},
+		async get(id) {
+			return store.get(id);
+		},
+		async write(item, expectedVersion) {
+			return store.write(item, expectedVersion);
+		},
+	};
+}
+
+function createSupabaseCalendarBackend(): CalendarBackend {
+	const toRow = (item: CalendarItem) => ({
+		id: item.id,
+		source_type: item.sourceType,
+		source_id: item.sourceId,
+		platform: item.platform,
+		publish_at: item.publishAt,
+		status: item.status,
+		next_attempt_at: item.nextAttemptAt,
+		item,
+		version: item.version,
+		updated_at: item.updatedAt,
+	});
+
+	return {
+		async list(filter = {}) {
+			let query = supabaseAdmin.from('content_calendar').select('item').order('publish_at', { ascending: true });
+			if (filter.from) query = query.gte('publish_at', filter.from);
+			if (filter.to) query = query.lte('publish_at', filter.to);
+			if (filter.statuses) query = query.in('status', filter.statuses);
+			const { data, error } = await query;
+			if (error) throw new Error(`content_calendar read failed: ${error.message}`);
+			return (data || []).map(row => row.item as CalendarItem);
+		},
+		async get(id) {
+			const { data, error } = await supabaseAdmin
+				.from('content_calendar')
+				.select('item')
+				.eq('id', id)
+				.maybeSingle();
+			if (error) throw new Error(`content_calendar read failed: ${error.message}`);
+			return (data?.item as CalendarItem | undefined) ?? null;
+		},
+		async write(item, expectedVersion) {
+			if (expectedVersion === 0) {
+				const { error } = await supabaseAdmin.from('content_calendar').insert(toRow(item));
+				if (error?.code === '23505') return false;
+				if (error) throw new Error(`content_calendar insert failed: ${error.message}`);
+				return true;
+			}
+			const { data, error } = await supabaseAdmin
+				.from('content_calendar')
+				.update(toRow(item))
+				.eq('id', item.id)
+				.eq('version', expectedVersion)
+				.select('id');
+			if (error) throw new Error(`content_calendar update failed: ${error.message}`);
+			return (data || []).length > 0;
+		},
+	};
+}
+
+let _backend: CalendarBackend | null = null;
+
+function getCalendarBackend(): CalendarBackend {
+	if (!_backend) {
+		_backend = supabaseAdmin ? createSupabaseCalendarBackend() : createFileCalendarBackend();
+	}
+	return _backend;
+}
+
+/**
+ * Read-modify-write with the version check. `mutate` returns null to
+ * leave the item alone. Retries a few times if another replica won.
+ */
+async function mutateItem(
+	id: string,
+	mutate: (item: CalendarItem) => CalendarItem | null,
+): Promise<CalendarItem | null> {
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const current = await getCalendarBackend().get(id);
+		if (!current) return null;
+		const next = mutate(structuredClone(current));
+		if (!next) return null;
+		next.version = current.version + 1;
+		next.updatedAt = new Date().toISOString();
+		if (await getCalendarBackend().write(next, current.version)) return next;
+	}
+	throw new Error(`Calendar item ${id} is being updated elsewhere — try again`);
+}
+
+// --- Sources ---
+
+interface ResolvedSource {
+	content: string;
+	mediaUrl?: string;
+	title: string;
+}
+
+/** Load the text and media URL to publish from the referenced row. */
+async function resolveSource(sourceType: CalendarSourceType, sourceId: string): Promise<ResolvedSource> {
+	if (!supabaseAdmin) {
+		throw new Error('Supabase is not configured — calendar items need generated_content / finished_videos');
+	}
+
+	if (sourceType === 'generated_content') {
+		const { data, error } = await supabaseAdmin
+			.from('generated_content')
+			.select('content, topic, image_urls')
+			.eq('id', sourceId)
+			.maybeSingle();
+		if (error) throw new Error(`generated_content read failed: ${error.message}`);
+		if (!data) throw new Error(`generated_content ${sourceId} not found`);
+		return {
+			content: data.content,
+			mediaUrl: data.image_urls?.[0],
+			title: data.topic || String(data.content).slice(0, 80),
+		};
+	}
+
+	const { data, error } = await supabaseAdmin
+		.from('finished_videos')
+		.select('title, public_url')
+		.eq('id', sourceId)
+		.maybeSingle();
+	if (error) throw new Error(`finished_videos read failed: ${error.message}`);
+	if (!data) throw new Error(`finished_videos ${sourceId} not found`);
+	return { content: data.title, mediaUrl: data.public_url || undefined, title: data.title };
+}
+
+// --- Public API ---
+
+export async function scheduleCalendarItem(input: ScheduleCalendarItemInput): Promise<CalendarItem> {
+	if (!CALENDAR_SOURCE_TYPES.includes(input.sourceType)) {
+		throw new Error(`sourceType must be one of: ${CALENDAR_SOURCE_TYPES.join(', ')}`);
+	}
+	const publishAt = new Date(input.publishAt);
+	if (Number.isNaN(publishAt.getTime())) {
+		throw new Error(`Invalid publishAt: ${input.publishAt}`);
+	}
+
+	// Fails fast if the referenced row doesn't exist
+	const source = await resolveSource(input.sourceType, input.sourceId);
+
+	const now = new Date().toISOString();
+	const item: CalendarItem = {
+		id: `cal_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		sourceType: input.sourceType,
+		sourceId: input.sourceId,
+		platform: input.platform,
+		publishAt: publishAt.toISOString(),
+		status: 'scheduled',
+		caption: input.caption || undefined,
+		title: source.title,
+		attempts: 0,
+		nextAttemptAt: publishAt.toISOString(),
+		attemptLog: [],
+		createdAt: now,
+		updatedAt: now,
+		version: 1,
+	};
+	await getCalendarBackend().write(item, 0);
+	console.log(`[content-calendar] Scheduled ${item.id} (${item.platform}) for ${item.publishAt}`);
+	return item;
+}
+
+/** Items in publish order, optionally limited to a publishAt range and status. */
+export async function listCalendarItems(
+	filter: { from?: string; to?: string; status?: CalendarItemStatus } = {},
+): Promise<CalendarItem[]> {
+	const items = await getCalendarBackend().list({
+		from: filter.from,
+		to: filter.to,
+		statuses: filter.status ? [filter.status] : undefined,
+	});
+	return items.sort((a, b) => a.publishAt.localeCompare(b.publishAt));
+}
+
+export async function getCalendarItem(id: string): Promise<CalendarItem | null> {
+	return getCalendarBackend().get(id);
+}
+
+/**
+ * Move or edit an item that hasn't gone out yet. Rescheduling a failed
+ * item puts it back in the queue with a fresh attempt count.
+ */
+export async function updateCalendarItem(
+	id: string,
+	changes: { publishAt?: string; platform?: string; caption?: string },
+): Promise<CalendarItem | null> {
+	if (changes.publishAt && Number.isNaN(new Date(changes.publishAt).getTime())) {
+		throw new Error(`Invalid publishAt: ${changes.publishAt}`);
+	}
+	return mutateItem(id, (item) => {
+		if (item.status === 'publishing' || item.status === 'published' || item.status === 'cancelled') return null;
+		if (changes.platform) item.platform = changes.platform;
+		if (changes.caption !== undefined) item.caption = changes.caption || undefined;
+		if (changes.publishAt) {
+			item.publishAt = new Date(changes.publishAt).toISOString();
+			item.nextAttemptAt = item.publishAt;
+			if (item.status === 'failed') {
+				item.status = 'scheduled';
+				item.attempts = 0;
+			}
+		}
+		return item;
+	});
+}
+
+/** Retry a failed (or backing-off) item now. */
+export async function retryCalendarItem(id: string): Promise<CalendarItem | null> {
+	const updated = await mutateItem(id, (item) => {
+		if (item.status !== 'failed' && item.status !== 'retrying') return null;
+		item.status = 'retrying';
+		if (item.attempts >= MAX_ATTEMPTS) item.attempts = MAX_ATTEMPTS - 1;
+		item.nextAttemptAt = new Date().toISOString();
+		return item;
+	});
+	if (updated) void schedulerTick();
+	return updated;
+}
+
+export async function cancelCalendarItem(id: string): Promise<CalendarItem | null> {
+	return mutateItem(id, (item) => {
+		if (item.status === 'publishing' || item.status === 'published' || item.status === 'cancelled') return null;
+		item.status = 'cancelled';
+		return item;
+	});
+}
+
+// --- Scheduler ---
+
+let _schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let _tickInFlight = false;
+
+function backoffMs(attempts: number): number {
+	return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+}
+
+function recordAttempt(item: CalendarItem, success: boolean, message: string): void {
+	const at = new Date().toISOString();
+	item.attemptLog = [...item.attemptLog, { at, success, message }].slice(-MAX_ATTEMPT_LOG);
+	item.claimedAt = undefined;
+	if (success) {
+		item.status = 'published';
+		item.publishedAt = at;
+		item.lastError = undefined;
+		return;
+	}
+	item.lastError = message;
+	if (item.attempts >= MAX_ATTEMPTS) {
+		item.status = 'failed';
+	} else {
+		item.status = 'retrying';
+		item.nextAttemptAt = new Date(Date.now() + backoffMs(item.attempts)).toISOString();
+	}
+}
+
+async function publishItem(claimed: CalendarItem): Promise<void> {
+	let success = false;
+	let message: string;
+	try {
+		const source = await resolveSource(claimed.sourceType, claimed.sourceId);
+		const result = await publishContent({
+			platform: claimed.platform,
+			content: claimed.caption || source.content,
+			imageUrl: source.mediaUrl,
+			scheduledTime: claimed.publishAt,
+			source: { type: 'calendar', id: claimed.id },
+		});
+		success = result.success;
+		message = result.message;
+	} catch (err) {
+		message = err instanceof Error ? err.message : String(err);
+	}
+
+	const final = await mutateItem(claimed.id, (item) => {
+		if (item.status !== 'publishing') return null;
+		recordAttempt(item, success, message);
+		return item;
+	});
+	console.log(`[content-calendar] ${claimed.id} attempt ${claimed.attempts}: ${final?.status ?? 'unchanged'} — ${message}`);
+}
+
+async function schedulerTick(): Promise<void> {
+	if (_tickInFlight) return;
+	_tickInFlight = true;
+	try {
+		const now = Date.now();
+		const items = await getCalendarBackend().list({ statuses: ['scheduled', 'retrying', 'publishing'] });
+
+		for (const candidate of items) {
+			const staleClaim = candidate.status === 'publishing'
+				&& now - new Date(candidate.claimedAt || candidate.updatedAt).getTime() > CLAIM_TIMEOUT_MS;
+			if (staleClaim) {
+				await mutateItem(candidate.id, (item) => {
+					if (item.status !== 'publishing') return null;
+					recordAttempt(item, false, 'Publish attempt did not finish (replica restarted?)');
+					return item;
+				}).catch(() => null);
+				continue;
+			}
+
+			const due = (candidate.status === 'scheduled' || candidate.status === 'retrying')
+				&& new Date(candidate.nextAttemptAt).getTime() <= now;
+			if (!due) continue;
+
+			const claimed = await mutateItem(candidate.id, (item) => {
+				if (item.status !== 'scheduled' && item.status !== 'retrying') return null;
+				item.status = 'publishing';
+				item.claimedAt = new Date().toISOString();
+				item.attempts++;
+				return item;
+			}).catch(() => null);
+			if (!claimed) continue;
+
+			await publishItem(claimed);
+		}
+	} catch (err) {
+		console.warn('[content-calendar] Scheduler tick failed:', err instanceof Error ? err.message : err);
+	} finally {
+		_tickInFlight = false;
+	}
+}
+
+/** Start this replica's scheduler. Idempotent. */
+export function startCalendarScheduler(): void {
+	if (_schedulerTimer) return;
+	_schedulerTimer = setInterval(() => { void schedulerTick(); }, TICK_MS);
+	// Don't keep scripts alive just for the scheduler
+	if (typeof _schedulerTimer === 'object' && 'unref' in _schedulerTimer) _schedulerTimer.unref();
+	console.log('[content-calendar] Scheduler started');
+	void schedulerTick();
+}
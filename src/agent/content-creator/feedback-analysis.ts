@@ -0,0 +1,262 @@
+/**
+ * Feedback Analysis — turn content_feedback into voice rules and trends
+ *
+ * analyzeFeedback():
+ *   1. Loads recent content_feedback rows (ratings, notes, snippets).
+ *   2. Groups them by platform and content_type.
+ *   3. Has the model cluster ALL feedback into global rules, then each
+ *      group with enough feedback into rules specific to it (told which
+ *      global rules exist so it doesn't repeat them).
+ *   4. Keeps rules backed by at least two rows or by one of Kimberly's
+ *      written notes, and saves them as the next voice rules version
+ *      (voice-rules.ts).
+ *
+ * getFeedbackTrends(): weekly positive/negative counts per platform and
+ * content type, for the Content Library.
+ *
+ * File: src/agent/content-creator/feedback-analysis.ts
+ */
+
+import * as crypto from 'crypto';
+import OpenAI from 'openai';
+import { supabaseAdmin } from '../../lib/supabase';
+import { getPlatformProfile } from './platform-profiles';
+import { saveVoiceRuleSet, type FeedbackGroupStats, type VoiceRule, type VoiceRuleScope, type VoiceRuleSet } from './voice-rules';
+
+// --- Types ---
+
+interface FeedbackRow {
+	id: string;
+	rating: 'positive' | 'negative';
+	notes: string | null;
+	platform: string | null;
+	content_type: string | null;
+	content_snippet: string | null;
+	created_at: string;
+}
+
+export interface FeedbackTrendGroup extends FeedbackGroupStats {
+	/** positive / (positive + negative); null with no feedback. */
+	approvalRate: number | null;
+	weekly: { weekStart: string; positive: number; negative: number }[];
+}
+
+export interface FeedbackTrends {
+	weeks: string[];
+	overall: FeedbackTrendGroup;
+	groups: FeedbackTrendGroup[];
+}
+
+const ANALYSIS_FEEDBACK_LIMIT = 500;
+const MIN_FEEDBACK_TO_ANALYZE = 3;
+const MIN_GROUP_FEEDBACK = 4;
+const MIN_EVIDENCE = 2;
+const MAX_RULES_PER_SCOPE = 8;
+const SNIPPET_CHARS = 200;
+
+// --- Loading ---
+
+async function loadFeedback(since?: string, limit = ANALYSIS_FEEDBACK_LIMIT): Promise<FeedbackRow[]> {
+	if (!supabaseAdmin) throw new Error('Feedback analysis needs Supabase (content_feedback lives there)');
+	let query = supabaseAdmin
+		.from('content_feedback')
+		.select('id, rating, notes, platform, content_type, content_snippet, created_at')
+		.order('created_at', { ascending: false })
+		.limit(limit);
+	if (since) query = query.gte('created_at', since);
+	const { data, error } = await query;
+	if (error) throw new Error(`content_feedback read failed: ${error.message}`);
+	return (data || []) as FeedbackRow[];
+}
+
+/** Normalize "instagram" / "IG" / "Instagram" to the profile label. */
+function platformLabel(platform: string | null): string | undefined {
+	if (!platform) return undefined;
+	const profile = getPlatformProfile(platform);
+	return profile.id === 'generic' ? platform : profile.label;
+}
+
+function groupFeedback(rows: FeedbackRow[]): Map<string, { scope: VoiceRuleScope; rows: FeedbackRow[] }> {
+	const groups = new Map<string, { scope: VoiceRuleScope; rows: FeedbackRow[] }>();
+	for (const row of rows) {
+		const scope: VoiceRuleScope = {
+			platform: platformLabel(row.platform),
+			contentType: row.content_type || undefined,
+		};
+		const key = `${scope.platform ?? '*'}|${scope.contentType ?? '*'}`;
+		if (!groups.has(key)) groups.set(key, { scope, rows: [] });
+		groups.get(key)!.rows.push(row);
+	}
+	return groups;
+}
+
+function countRatings(rows: FeedbackRow[]): { positive: number; negative: number } {
+	const positive = rows.filter(r => r.rating === 'positive').length;
+	return { positive, negative: rows.length - positive };
+}
+
+// --- Distillation ---
+
+const RULES_SCHEMA = {
+	type: 'object',
+	properties: {
+		rules: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: {
+					polarity: { type: 'string', enum: ['do', 'avoid'] },
+					rule: { type: 'string', description: 'One imperative editorial instruction, under 25 words' },
+					feedback: { type: 'array', items: { type: 'integer' }, description: 'Numbers of the feedback entries behind this rule' },
+				},
+				required: ['polarity', 'rule', 'feedback'],
+				additionalProperties: false,
+			},
+		},
+	},
+	required: ['rules'],
+	additionalProperties: false,
+} as const;
+
+function ruleId(scope: VoiceRuleScope, polarity: string, rule: string): string {
+	const key = [scope.platform ?? '*', scope.contentType ?? '*', polarity, rule.trim().toLowerCase()].join('|');
+	return `vr_${crypto.createHash('sha1').update(key).digest('hex').slice(0, 10)}`;
+}
+
+function describeScope(scope: VoiceRuleScope): string {
+	if (!scope.platform && !scope.contentType) return 'all platforms and content types';
+	return [scope.platform, scope.contentType].filter(Boolean).join(' ') + ' content';
+}
+
+async function distillRules(
+	client: OpenAI,
+	rows: FeedbackRow[],
+	scope: VoiceRuleScope,
+	existing: VoiceRule[],
+): Promise<VoiceRule[]> {
+	const entries = rows.map((r, i) => {
+		const parts = [`[${i + 1}] ${r.rating === 'positive' ? 'LIKED' : 'DISLIKED'}`];
+		if (r.platform || r.content_type) parts.push(`(${[r.platform, r.content_type].filter(Boolean).join(' ')})`);
+		if (r.notes) parts.push(`note: "${r.notes}"`);
+		if (r.content_snippet) parts.push(`excerpt: "${r.content_snippet.slice(0, SNIPPET_CHARS)}"`);
+		return parts.join(' ');
+	});
+
+	const response = await client.chat.completions.create({
+		model: 'gpt-5-mini',
+		messages: [
+			{
+				role: 'system',
+				content: `You turn a founder's ratings of ghostwritten social content into durable editorial rules for the ghostwriter.
+Cluster the feedback: a rule must reflect a pattern (several entries) or an explicit note. Notes outrank ratings alone.
+Write each rule as a concrete instruction about writing ("Open with the moment, not the mission statement"), never about a single post.
+"do" rules come from liked content; "avoid" rules from disliked content. Return at most ${MAX_RULES_PER_SCOPE} rules; return none if there is no clear pattern.`,
+			},
+			{
+				role: 'user',
+				content: `Feedback on ${describeScope(scope)}:
+
+${entries.join('\n')}${existing.length > 0 ? `
+
+These rules already apply everywhere — only add rules SPECIFIC to ${describeScope(scope)} that they don't cover:
+${existing.map(r => `- ${r.polarity.toUpperCase()}: ${r.rule}`).join('\n')}` : ''}`,
+			},
+		],
+		response_format: {
+			type: 'json_schema',
+			json_schema: { name: 'voice_rules', strict: true, schema: RULES_SCHEMA },
+		},
+	});
+
+	const raw = response.choices[0]?.message?.content;
+	if (!raw) throw new Error('Feedback analysis: empty model response');
+	const parsed = JSON.parse(raw) as { rules: { polarity: 'do' | 'avoid'; rule: string; feedback: number[] }[] };
+
+	const rules: VoiceRule[] = [];
+	for (const candidate of parsed.rules.slice(0, MAX_RULES_PER_SCOPE)) {
+		const support = [...new Set(candidate.feedback)]
+			.map(n => rows[n - 1])
+			.filter((r): r is FeedbackRow => !!r);
+		const notes = support.filter(r => r.notes);
+		if (support.length < MIN_EVIDENCE && notes.length === 0) continue;
+
+		rules.push({
+			id: ruleId(scope, candidate.polarity, candidate.rule),
+			scope,
+			polarity: candidate.polarity,
+			rule: candidate.rule.trim(),
+			evidence: { ...countRatings(support), notes: notes.length },
+			examples: notes.slice(0, 3).map(r => r.notes!),
+		});
+	}
+	return rules;
+}
+
+/** Analyse recent feedback and save the result as the next voice rules version. */
+export async function analyzeFeedback(options: { limit?: number } = {}): Promise<VoiceRuleSet> {
+	const rows = await loadFeedback(undefined, options.limit);
+	if (rows.length < MIN_FEEDBACK_TO_ANALYZE) {
+		throw new Error(`Need at least ${MIN_FEEDBACK_TO_ANALYZE} feedback entries to analyze; have ${rows.length}`);
+	}
+
+	const client = new OpenAI();
+	const groups = [...groupFeedback(rows).values()];
+
+	const globalRules = await distillRules(client, rows, {}, []);
+	const rules = [...globalRules];
+	for (const group of groups) {
+		if (group.rows.length < MIN_GROUP_FEEDBACK) continue;
+		if (!group.scope.platform && !group.scope.contentType) continue; // unlabelled feedback is covered by the global pass
+		const scoped = await distillRules(client, group.rows, group.scope, globalRules);
+		rules.push(...scoped.filter(r => !rules.some(existing => existing.id === r.id)));
+	}
+
+	return saveVoiceRuleSet({
+		feedbackCount: rows.length,
+		feedbackThrough: rows[0]?.created_at,
+		groups: groups.map(g => ({ ...g.scope, ...countRatings(g.rows) })),
+		rules,
+	});
+}
+
+// --- Trends ---
+
+/** Monday 00:00 UTC of the week containing `date`, as YYYY-MM-DD. */
+function weekStart(date: Date): string {
+	const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+	d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+	return d.toISOString().slice(0, 10);
+}
+
+function buildTrendGroup(stats: FeedbackGroupStats, rows: FeedbackRow[], weeks: string[]): FeedbackTrendGroup {
+	const byWeek = new Map(weeks.map(w => [w, { weekStart: w, positive: 0, negative: 0 }]));
+	for (const row of rows) {
+		const bucket = byWeek.get(weekStart(new Date(row.created_at)));
+		if (bucket) bucket[row.rating === 'positive' ? 'positive' : 'negative']++;
+	}
+	const total = stats.positive + stats.negative;
+	return {
+		...stats,
+		approvalRate: total > 0 ? stats.positive / total : null,
+		weekly: [...byWeek.values()],
+	};
+}
+
+export async function getFeedbackTrends(weekCount = 12): Promise<FeedbackTrends> {
+	const now = new Date();
+	const weeks: string[] = [];
+	for (let i = weekCount - 1; i >= 0; i--) {
+		weeks.push(weekStart(new Date(now.getTime() - i * 7 * 24 * 60 * 60 * 1000)));
+	}
+
+	const rows = await loadFeedback(`${weeks[0]}T00:00:00Z`, 5000);
+	const groups = [...groupFeedback(rows).values()]
+		.map(g => buildTrendGroup({ ...g.scope, ...countRatings(g.rows) }, g.rows, weeks))
+		.sort((a, b) => (b.positive + b.negative) - (a.positive + a.negative));
+
+	return {
+		weeks,
+		overall: buildTrendGroup(countRatings(rows), rows, weeks),
+		groups,
+	};
+}
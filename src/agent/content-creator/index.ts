@@ -3,22 +3,20 @@ import { s } from '@agentuity/schema';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import OpenAI from 'openai';
-import { systemPrompt } from './kimberly-voice';
+import { voiceSystemPrompt } from './kimberly-voice';
 import { getAgentStyleRecommendations, getStyleById } from './style-library';
+import { startCalendarScheduler } from './content-calendar';
+import { getPlatformProfile } from './platform-profiles';
+import { adaptToPlatform } from './platform-rules';
+import { buildBriefSections } from './brief';
+import { runCampaign } from './campaign';
+import { formatVoiceRules, getActiveVoiceRules, selectVoiceRules, type VoiceRule } from './voice-rules';
+import { describeLeader, executiveDirector, formatServiceArea, loadOrgProfile, type OrganizationProfile } from '../../lib/org-profile';
 
 const openaiClient = new OpenAI();
 
-// --- Platform-aware image size mappings (gpt-image-1.5 supported sizes) ---
-const PLATFORM_IMAGE_SIZE: Record<string, '1024x1024' | '1536x1024' | '1024x1536'> = {
-	Instagram: '1024x1024',     // Square posts
-	TikTok: '1024x1536',       // Vertical 2:3 (closest to 9:16)
-	YouTube: '1536x1024',      // Landscape 3:2
-	Facebook: '1024x1024',     // Square for feed
-	LinkedIn: '1536x1024',     // Landscape for professional posts
-	Twitter: '1536x1024',      // Landscape for timeline
-	Blog: '1536x1024',         // Landscape header images
-	Newsletter: '1536x1024',   // Landscape email headers
-};
+// Publish calendar items that came due while this process was down.
+startCalendarScheduler();
 
 // Quality settings per style type — photorealistic styles benefit from high quality
 const STYLE_QUALITY: Record<string, 'low' | 'high'> = {
@@ -35,6 +33,16 @@ const AgentInput = s.object({
 	imageMode: s.string().optional(), // 'agent-pick' | 'user-pick'
 	selectedStyles: s.array(s.string()).optional(), // style IDs for user-pick mode
 	variationCount: s.number().optional(), // 1-3 for user-pick mode
+	targetDurationSec: s.number().optional(), // target video length for TikTok scripts
+	adaptToPlatform: s.boolean().optional(), // default true; false = report platform issues without rewriting
+	campaign: s.boolean().optional(), // one topic → coordinated pieces for every platform (campaign.ts)
+	campaignPieces: s.array(s.string()).optional(), // subset of CAMPAIGN_ROLES; default all
+});
+
+const PlatformIssueSchema = s.object({
+	code: s.string(),
+	severity: s.enum(['error', 'warning']),
+	message: s.string(),
 });
 
 const AgentOutput = s.object({
@@ -55,6 +63,73 @@ const AgentOutput = s.object({
 		styleName: s.string(),
 		reason: s.string(),
 	})).optional(),
+	// Platform rules check (platform-rules.ts): what was fixed, what's left
+	platformCheck: s.object({
+		platform: s.string(),
+		adapted: s.boolean(),
+		warnings: s.array(PlatformIssueSchema),
+		fixes: s.array(s.object({
+			code: s.string(),
+			method: s.string(),
+			description: s.string(),
+		})),
+		stats: s.object({
+			chars: s.number(),
+			hashtags: s.number(),
+			estimatedSeconds: s.number().optional(),
+		}),
+		originalContent: s.string().optional(),
+	}).optional(),
+	// Campaign mode: every piece, linked by campaignId in generated_content
+	campaign: s.object({
+		campaignId: s.string(),
+		messaging: s.object({
+			keyMessage: s.string(),
+			proofPoint: s.string(),
+			hookAngle: s.string(),
+			callToAction: s.string(),
+			sharedPhrases: s.array(s.string()),
+			imageScene: s.string(),
+		}),
+		style: s.object({
+			styleId: s.string(),
+			styleName: s.string(),
+			reason: s.string(),
+		}).optional(),
+		pieces: s.array(s.object({
+			role: s.string(),
+			label: s.string(),
+			platform: s.string(),
+			content: s.string(),
+			posts: s.array(s.string()).optional(),
+			contentId: s.string().optional(),
+			imageUrl: s.string().optional(),
+			platformCheck: s.object({
+				adapted: s.boolean(),
+				warnings: s.array(PlatformIssueSchema),
+				fixes: s.array(s.object({
+					code: s.string(),
+					method: s.string(),
+					description: s.string(),
+				})),
+			}),
+			appliedVoiceRules: s.array(s.string()),
+		})),
+	}).optional(),
+	// Learned voice rules (voice-rules.ts) that were in the system prompt
+	voiceRules: s.object({
+		version: s.number().optional(),
+		source: s.enum(['voice-rules', 'recent-feedback', 'none']),
+		applied: s.array(s.object({
+			id: s.string(),
+			polarity: s.enum(['do', 'avoid']),
+			rule: s.string(),
+			scope: s.object({
+				platform: s.string().optional(),
+				contentType: s.string().optional(),
+			}),
+		})),
+	}).optional(),
 });
 
 // ---------------------------------------------------------------------------
@@ -65,75 +140,9 @@ const AgentOutput = s.object({
 // material to work with — instead of a one-liner that produces generic output.
 // ---------------------------------------------------------------------------
 
-function buildGenerationPrompt(topic: string, platform: string): string {
-	// Parse key-value pairs from "topic: X. audience: Y. cta: Z." format
-	const parsed: Record<string, string> = {};
-
-	// Split on ". " followed by a key: pattern (but not periods inside values)
-	const parts = topic.split(/\.\s*(?=[a-zA-Z_]+\s*:)/);
-	for (const part of parts) {
-		const match = part.match(/^([a-zA-Z_]+)\s*:\s*(.+)/s);
-		if (match) {
-			parsed[match[1]!.toLowerCase().trim()] = match[2]!.trim().replace(/\.$/, '');
-		}
-	}
-
-	// If parsing failed (plain text topic), use the whole string
-	const rawTopic = parsed['topic'] || topic;
-	const audience = parsed['audience'] || '';
-	const cta = parsed['cta'] || '';
-	const details = parsed['details'] || '';
-	const feeling = parsed['feeling'] || '';
-	const moment = parsed['moment'] || '';
-	const hook = parsed['hook'] || '';
-	const style = parsed['style'] || '';
-	const conversationNotes = parsed['conversation'] || '';
-
-	// Build sections — only include what we have
-	const sections: string[] = [];
-
-	sections.push(`## WHAT THIS IS ABOUT\n${rawTopic}`);
-
-	if (audience) {
-		sections.push(`## WHO YOU'RE TALKING TO\n${audience}. Write directly to them — not about them. They're already in the circle.`);
-	}
-
-	if (moment) {
-		sections.push(`## THE SPECIFIC MOMENT\nUse this real moment as the anchor:\n${moment}\nBuild the post around this — don't invent a different story.`);
-	}
-
-	if (hook) {
-		sections.push(`## THE HOOK\nOpen with something close to: ${hook}\nMake it impossible to scroll past.`);
-	}
-
-	if (feeling) {
-		sections.push(`## WHAT THE READER SHOULD FEEL\n${feeling}. But don't announce it — create it through specifics and rhythm.`);
-	}
-
-	if (details) {
-		sections.push(`## DETAILS TO INCLUDE\n${details}\nWeave these in naturally — don't list them.`);
-	}
-
-	if (cta) {
-		sections.push(`## WHAT THEY SHOULD DO\n${cta}. But the CTA should feel like an invitation, not a pitch.`);
-	}
-
-	if (style) {
-		sections.push(`## VIDEO STYLE\n${style}`);
-	}
-
-	if (conversationNotes) {
-		sections.push(`## ADDITIONAL CONTEXT FROM THE CONVERSATION\n${conversationNotes}`);
-	}
-
-	// ANTI-FABRICATION RULES — injected into every generation prompt
-	sections.push(`## ABSOLUTE RULES
-1. DO NOT invent any person, child, parent, coach, or specific individual. No "Jamal," no "Coach Keisha," no "Sarah's mom," no fake names. ZERO invented characters.
-2. DO NOT create specific anecdotes that didn't happen. You can describe TYPES of moments ("the kid who finally holds the racket right") but never invent a plot with named characters.
-3. If a real moment was provided above, use it. If not, write from program-level truth and Kimberly's lived perspective.
-4. Start mid-thought. Drop the reader into something specific. No warm-up paragraphs.
-5. Every sentence must earn its spot. If Kimberly would delete it, you delete it first.
-6. Write this so an AI detector scores it as HUMAN. That means: irregular sentence lengths, conversational fragments, specific details over general claims, imperfect rhythm that sounds like someone actually talking.`);
+function buildGenerationPrompt(topic: string, platform: string, orgName: string): string {
+	// Brief sections (brief.ts) — what we have, plus the anti-fabrication rules
+	const sections = buildBriefSections(topic);
 
 	const isBlog = platform.toLowerCase() === 'blog';
 
@@ -196,7 +205,7 @@ The FIRST word of your response must be the FIRST word of the actual post.`);
 		? 'RESPOND WITH ONLY THE STRUCTURED MARKDOWN BLOG. Line 1 must be # followed by the title. Include all three image markers [HEADER_IMAGE], [MID_IMAGE], [CLOSING_IMAGE].'
 		: 'RESPOND WITH ONLY THE POST. No brainstorming. No angle analysis. No "here\'s the post" labels. The first word you write IS the first word of the published content.';
 
-	return `You are writing a ${platform} post for Community Literacy Club.
+	return `You are writing a ${platform} post for ${orgName}.
 
 ${sections.join('\n\n')}
 
@@ -262,6 +271,20 @@ function stripBrainstorming(raw: string): string {
 	return text.trim();
 }
 
+/**
+ * Who the organization is and whose perspective the content is written
+ * from, for the image prompt writers — from the organization profile.
+ */
+function imagePromptContext(profile: OrganizationProfile): { organization: string; author: string } {
+	const leader = executiveDirector(profile);
+	return {
+		organization: `${profile.name} (a youth tennis, chess, and mentorship nonprofit serving predominantly Black and brown communities in ${formatServiceArea(profile)})`,
+		author: leader
+			? `Author context: This content is written from the perspective of ${describeLeader(leader)}, the ${leader.title.toLowerCase()} of ${profile.name}. When the post is written in first person or describes leadership, program direction, coaching, or organizational vision, the scene should reflect who they are${leader.identity ? ` — ${leader.identity} leading, teaching, coaching, or connecting with their community` : ''}. Do NOT default to male figures in leadership positions.`
+			: '',
+	};
+}
+
 /**
  * Generate a styled image using gpt-image-1.5 with best-practice structured prompting.
  */
@@ -287,7 +310,7 @@ async function generateStyledImage(
 	].join('\n');
 
 	const quality = STYLE_QUALITY[style.id] || 'low';
-	const size = PLATFORM_IMAGE_SIZE[platform] || '1024x1024';
+	const size = getPlatformProfile(platform).imageSize;
 
 	logger.info('Generating image with gpt-image-1.5 — style: "%s", quality: %s, size: %s',
 		style.name, quality, size);
@@ -426,6 +449,59 @@ async function loadFeedbackContext(
 	}
 }
 
+// ---------------------------------------------------------------------------
+// VOICE CONTEXT
+// ---------------------------------------------------------------------------
+// Once feedback has been analysed (feedback-analysis.ts), the active voice
+// rules for the platform go into the system prompt and are reported back as
+// `voiceRules.applied`. Before the first analysis — or if the rules can't be
+// read — the raw recent feedback above is used instead.
+// ---------------------------------------------------------------------------
+
+interface VoiceContext {
+	version?: number;
+	source: 'voice-rules' | 'recent-feedback' | 'none';
+	/** Prompt section + the rules it contains. No platform = global rules only. */
+	forPlatform: (platform?: string) => { prompt: string; applied: VoiceRule[] };
+}
+
+async function loadVoiceContext(
+	logger: { info: (msg: string, ...args: unknown[]) => void; warn: (msg: string, ...args: unknown[]) => void },
+): Promise<VoiceContext> {
+	try {
+		const ruleSet = await getActiveVoiceRules();
+		if (ruleSet && ruleSet.rules.length > 0) {
+			logger.info('Loaded voice rules v%d: %d rules', ruleSet.version, ruleSet.rules.length);
+			return {
+				version: ruleSet.version,
+				source: 'voice-rules',
+				forPlatform: (platform) => {
+					const applied = selectVoiceRules(ruleSet, platform
+						? { platform, contentType: getPlatformProfile(platform).contentType }
+						: {});
+					return { prompt: formatVoiceRules(applied, ruleSet.version), applied };
+				},
+			};
+		}
+	} catch (err) {
+		logger.warn('Voice rules unavailable, using recent feedback: %s', err instanceof Error ? err.message : String(err));
+	}
+
+	const feedbackContext = await loadFeedbackContext(logger);
+	return {
+		source: feedbackContext ? 'recent-feedback' : 'none',
+		forPlatform: () => ({ prompt: feedbackContext, applied: [] }),
+	};
+}
+
+function describeVoiceRules(voice: VoiceContext, applied: VoiceRule[]) {
+	return {
+		version: voice.version,
+		source: voice.source,
+		applied: applied.map(r => ({ id: r.id, polarity: r.polarity, rule: r.rule, scope: r.scope })),
+	};
+}
+
 const agent = createAgent('content-creator', {
 	description: 'Creates social media content with optional AI-generated images',
 	schema: {
@@ -439,20 +515,78 @@ const agent = createAgent('content-creator', {
 		imageMode = 'agent-pick',
 		selectedStyles = [],
 		variationCount = 2,
+		targetDurationSec,
+		adaptToPlatform: shouldAdapt = true,
+		campaign = false,
+		campaignPieces,
 	}) => {
-		ctx.logger.info('Creating content for: %s on %s', topic, platform);
+		// Step 0: Load voice rules (or recent editorial feedback) to inject into the system prompt,
+		// and the organization profile the voice's facts are rendered from
+		const voice = await loadVoiceContext(ctx.logger);
+		const profile = await loadOrgProfile(ctx.logger);
+		const systemPrompt = voiceSystemPrompt(profile);
+
+		// Campaign mode — one brief, every platform, one shared message and image style
+		if (campaign) {
+			ctx.logger.info('Creating campaign for: %s', topic);
+			const result = await runCampaign(topic, { roles: campaignPieces, includeImage }, {
+				voice: (piecePlatform) => {
+					const { prompt, applied } = voice.forPlatform(piecePlatform);
+					return { system: systemPrompt + prompt, appliedRules: applied.map(r => r.id) };
+				},
+				cleanOutput: stripBrainstorming,
+				generateImage: (scene, style, reason, piecePlatform) =>
+					generateStyledImage(scene, style, reason, piecePlatform, ctx.logger),
+				uploadImage: (dataUrl, styleId) => uploadImageToSupabase(dataUrl, styleId, ctx.logger),
+				logger: ctx.logger,
+				profile,
+			});
+
+			// Top-level fields carry the lead piece so single-post callers still get a post
+			const lead = result.pieces[0]!;
+			for (const piece of result.pieces) {
+				try {
+					await ctx.thread.state.push('content-library', {
+						id: piece.contentId || `cl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+						createdAt: new Date().toISOString(),
+						platform: piece.platform,
+						content: piece.content,
+						topic: topic.slice(0, 300),
+						campaignId: result.campaignId,
+						campaignRole: piece.role,
+					}, 100);
+				} catch (libErr) {
+					ctx.logger.warn('Thread state save failed: %s',
+						libErr instanceof Error ? libErr.message : String(libErr));
+				}
+			}
 
-		// Step 0: Load editorial feedback from Supabase to inject into system prompt
-		const feedbackContext = await loadFeedbackContext(ctx.logger);
+			return {
+				content: lead.content,
+				platform: lead.platform,
+				contentId: lead.contentId,
+				imageUrl: result.pieces.find(p => p.imageUrl)?.imageUrl,
+				campaign: result,
+				voiceRules: describeVoiceRules(voice, [
+					...new Map(result.pieces
+						.flatMap(p => voice.forPlatform(p.platform).applied)
+						.map(r => [r.id, r])).values(),
+				]),
+			};
+		}
+
+		ctx.logger.info('Creating content for: %s on %s', topic, platform);
 
 		// Step 1: Build a structured, context-rich prompt from the brief data
-		const generationPrompt = buildGenerationPrompt(topic, platform);
-		ctx.logger.info('Generation prompt length: %d, feedback context: %d chars', generationPrompt.length, feedbackContext.length);
+		const generationPrompt = buildGenerationPrompt(topic, platform, profile.name);
+		const { prompt: voicePrompt, applied: appliedVoiceRules } = voice.forPlatform(platform);
+		ctx.logger.info('Generation prompt length: %d, voice context: %d chars (%s, %d rules)',
+			generationPrompt.length, voicePrompt.length, voice.source, appliedVoiceRules.length);
 
-		// Step 2: Generate the text content with the structured prompt + feedback
+		// Step 2: Generate the text content with the structured prompt + voice rules
 		const { text: rawContent } = await generateText({
 			model: openai('gpt-5-mini'),
-			system: systemPrompt + feedbackContext,
+			system: systemPrompt + voicePrompt,
 			prompt: generationPrompt,
 		});
 
@@ -525,6 +659,28 @@ RULES:
 			}
 		}
 
+		// Step 2d: Check the post against the platform's limits (char limit,
+		// hashtag cap, "see more" fold, script length) and adapt it to fit.
+		const originalContent = content;
+		const platformCheck = await adaptToPlatform(content, platform, {
+			targetDurationSec,
+			fix: shouldAdapt,
+			rewrite: async (instruction, text) => {
+				const { text: revised } = await generateText({
+					model: openai('gpt-5-mini'),
+					system: systemPrompt,
+					prompt: `${instruction}\n\nPOST:\n${text}`,
+				});
+				return stripBrainstorming(revised);
+			},
+		});
+		content = platformCheck.content;
+		if (platformCheck.fixes.length > 0 || platformCheck.warnings.length > 0) {
+			ctx.logger.info('Platform check (%s): %d fixes, %d warnings — %s',
+				platformCheck.platform, platformCheck.fixes.length, platformCheck.warnings.length,
+				[...platformCheck.fixes.map(f => f.description), ...platformCheck.warnings.map(w => w.message)].join('; '));
+		}
+
 		let imageUrl: string | undefined;
 		let imagePrompt: string | undefined;
 		let images: { styleId: string; styleName: string; imageUrl: string; imagePrompt: string; reason: string }[] | undefined;
@@ -533,6 +689,7 @@ RULES:
 		// Step 3: Generate images if requested
 		if (includeImage) {
 			const isBlog = platform.toLowerCase() === 'blog';
+			const imageContext = imagePromptContext(profile);
 
 			if (isBlog) {
 				// ---------------------------------------------------------------
@@ -549,12 +706,12 @@ RULES:
 
 				const { text: blogImagePrompts } = await generateText({
 					model: openai('gpt-5-mini'),
-					prompt: `You are writing THREE image generation prompts for gpt-image-1.5, based on a blog post for Community Literacy Club (a youth tennis, chess, and mentorship nonprofit serving predominantly Black and brown communities in Hempstead, Long Beach, Brooklyn, Westchester, Newark NJ, and Connecticut).
+					prompt: `You are writing THREE image generation prompts for gpt-image-1.5, based on a blog post for ${imageContext.organization}.
 
 Blog post:
 ${cleanContent}
 
-Author context: This content is written from the perspective of Kimberly Gordon, a Black woman who is the founder and executive director of Community Literacy Club and UnitedSets Tennis & Learning. When the post is written in first person or describes leadership, program direction, coaching, or organizational vision, the scene should reflect her identity — a Black woman leading, teaching, coaching, or connecting with her community. Do NOT default to male figures in leadership positions.
+${imageContext.author}
 
 Write THREE separate scene descriptions, one for each position in the blog post. Each scene should be DIFFERENT and reflect the content near its placement:
 
@@ -640,13 +797,13 @@ Write the three scene descriptions using the exact labels HEADER:, MID:, CLOSING
 
 				const { text: generatedImagePrompt } = await generateText({
 					model: openai('gpt-5-mini'),
-					prompt: `You are writing an image generation prompt for gpt-image-1.5, based on a social media post for Community Literacy Club (a youth tennis, chess, and mentorship nonprofit serving predominantly Black and brown communities in Hempstead, Long Beach, Brooklyn, Westchester, Newark NJ, and Connecticut).
+					prompt: `You are writing an image generation prompt for gpt-image-1.5, based on a social media post for ${imageContext.organization}.
 
 Post: ${content}
 
 Platform: ${platform}
 
-Author context: This content is written from the perspective of Kimberly Gordon, a Black woman who is the founder and executive director of Community Literacy Club and UnitedSets Tennis & Learning. When the post is written in first person or describes leadership, program direction, coaching, or organizational vision, the scene should reflect her identity — a Black woman leading, teaching, coaching, or connecting with her community. Do NOT default to male figures in leadership positions.
+${imageContext.author}
 
 Write a structured scene description following this exact format:
 
@@ -755,10 +912,7 @@ Write only the structured scene description, nothing else:`,
 			const imagePrompts = (images || []).map(img => img.imagePrompt);
 			const imageStyles = (images || []).map(img => img.styleName);
 
-			const contentType = platform.toLowerCase() === 'blog' ? 'blog'
-				: ['tiktok', 'youtube'].includes(platform.toLowerCase()) ? 'script'
-				: platform.toLowerCase() === 'newsletter' ? 'newsletter'
-				: 'post';
+			const contentType = getPlatformProfile(platform).contentType;
 
 			const { data: row, error: dbError } = await supabaseAdmin
 				.from('generated_content')
@@ -818,6 +972,15 @@ Write only the structured scene description, nothing else:`,
 			imagePrompt,
 			images,
 			agentRecommendations,
+			platformCheck: {
+				platform: platformCheck.platform,
+				adapted: platformCheck.adapted,
+				warnings: platformCheck.warnings,
+				fixes: platformCheck.fixes,
+				stats: platformCheck.stats,
+				originalContent: platformCheck.adapted ? originalContent : undefined,
+			},
+			voiceRules: describeVoiceRules(voice, appliedVoiceRules),
 		};
 	}
 });
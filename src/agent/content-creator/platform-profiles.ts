@@ -0,0 +1,142 @@
+/**
+ * Platform Profiles — one registry of per-platform facts
+ *
+ * Image size for generated art, text limits, hashtag caps, the "see more"
+ * fold and script pacing. Used by image generation (index.ts), the rules
+ * that validate and adapt posts (platform-rules.ts) and the publish
+ * payload (webhooks.ts).
+ *
+ * File: src/agent/content-creator/platform-profiles.ts
+ */
+
+// gpt-image-1.5 supported sizes
+export type ImageSize = '1024x1024' | '1536x1024' | '1024x1536';
+
+export interface PlatformProfile {
+	id: string;
+	label: string;
+	/** Other names callers use for this platform (lowercase). */
+	aliases: string[];
+	imageSize: ImageSize;
+	/** generated_content.content_type for posts on this platform. */
+	contentType: 'post' | 'blog' | 'script' | 'newsletter';
+	/** Hard character limit for the post text. */
+	maxChars?: number;
+	/** How the platform counts characters — X counts every URL as 23. */
+	charCounting?: 'plain' | 'x-weighted';
+	/** Hard hashtag cap — the platform rejects or ignores posts above it. */
+	maxHashtags?: number;
+	/** Soft hashtag guidance — above this is a warning, not a fix. */
+	recommendedHashtags?: number;
+	/** Characters shown before the "see more" fold. */
+	foldChars?: number;
+	/** Spoken script pacing for video platforms. */
+	script?: {
+		wordsPerMinute: number;
+		defaultTargetSec: number;
+	};
+}
+
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+	{
+		id: 'instagram',
+		label: 'Instagram',
+		aliases: ['ig', 'ig_reels', 'ig-reels'],
+		imageSize: '1024x1024',       // Square posts
+		contentType: 'post',
+		maxChars: 2200,
+		maxHashtags: 30,
+		recommendedHashtags: 5,
+	},
+	{
+		id: 'tiktok',
+		label: 'TikTok',
+		aliases: [],
+		imageSize: '1024x1536',       // Vertical 2:3 (closest to 9:16)
+		contentType: 'script',
+		script: { wordsPerMinute: 150, defaultTargetSec: 45 },
+	},
+	{
+		id: 'youtube',
+		label: 'YouTube',
+		aliases: ['youtube_shorts', 'youtube-shorts'],
+		imageSize: '1536x1024',       // Landscape 3:2
+		contentType: 'script',
+		maxHashtags: 15,              // YouTube ignores every hashtag above 15
+		recommendedHashtags: 3,
+	},
+	{
+		id: 'facebook',
+		label: 'Facebook',
+		aliases: ['fb'],
+		imageSize: '1024x1024',       // Square for feed
+		contentType: 'post',
+		maxChars: 63206,
+		recommendedHashtags: 3,
+	},
+	{
+		id: 'linkedin',
+		label: 'LinkedIn',
+		aliases: [],
+		imageSize: '1536x1024',       // Landscape for professional posts
+		contentType: 'post',
+		maxChars: 3000,
+		recommendedHashtags: 5,
+		foldChars: 210,
+	},
+	{
+		id: 'twitter',
+		label: 'Twitter',
+		aliases: ['x', 'twitter/x', 'x/twitter'],
+		imageSize: '1536x1024',       // Landscape for timeline
+		contentType: 'post',
+		maxChars: 280,
+		charCounting: 'x-weighted',
+		recommendedHashtags: 2,
+	},
+	{
+		id: 'blog',
+		label: 'Blog',
+		aliases: [],
+		imageSize: '1536x1024',       // Landscape header images
+		contentType: 'blog',
+	},
+	{
+		id: 'newsletter',
+		label: 'Newsletter',
+		aliases: ['email'],
+		imageSize: '1536x1024',       // Landscape email headers
+		contentType: 'newsletter',
+	},
+];
+
+/** Fallback for platforms we have no profile for: no limits, square art. */
+const GENERIC_PROFILE: PlatformProfile = {
+	id: 'generic',
+	label: 'Generic',
+	aliases: [],
+	imageSize: '1024x1024',
+	contentType: 'post',
+};
+
+export function getPlatformProfile(platform: string): PlatformProfile {
+	const key = platform.trim().toLowerCase();
+	return PLATFORM_PROFILES.find(p => p.id === key || p.aliases.includes(key)) ?? GENERIC_PROFILE;
+}
+
+/**
+ * Extract hashtags from content
+ */
+export function extractHashtags(content: string): string[] {
+	const hashtagRegex = /#\w+/g;
+	const matches = content.match(hashtagRegex);
+	return matches || [];
+}
+
+/** Length as the platform counts it. */
+export function platformLength(content: string, profile: PlatformProfile): number {
+	if (profile.charCounting === 'x-weighted') {
+		return content.replace(/https?:\/\/\S+/g, 'x'.repeat(23)).length;
+	}
+	return content.length;
+}
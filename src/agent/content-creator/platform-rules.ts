@@ -0,0 +1,282 @@
+/**
+ * Platform Rules — validate a generated post against its platform profile
+ * and adapt it to fit
+ *
+ * Checks (limits come from platform-profiles.ts):
+ *   char-limit      — X 280, LinkedIn 3000, Instagram 2200 ...
+ *   hashtag-cap     — hard caps (Instagram 30, YouTube 15) and soft guidance
+ *   fold            — the hook must land before LinkedIn's / Instagram's "see more"
+ *   script-length   — spoken TikTok script vs the target video duration
+ *
+ * adaptToPlatform() fixes what it can: hashtag overflow is trimmed in
+ * code; length, fold and script problems get one rewrite through the
+ * caller's `rewrite` function (an LLM call in the agent), and a post still
+ * over a hard character limit after that is truncated at a sentence
+ * boundary. Whatever is left comes back as warnings.
+ *
+ * File: src/agent/content-creator/platform-rules.ts
+ */
+
+import { extractHashtags, getPlatformProfile, platformLength, type PlatformProfile } from './platform-profiles';
+
+// --- Types ---
+
+export type PlatformIssueCode = 'char-limit' | 'hashtag-cap' | 'hashtag-count' | 'fold' | 'script-too-long' | 'script-too-short';
+
+export interface PlatformIssue {
+	code: PlatformIssueCode;
+	/** error = breaks on the platform; warning = works, but off-guidance */
+	severity: 'error' | 'warning';
+	message: string;
+}
+
+export interface PlatformFix {
+	code: PlatformIssueCode;
+	method: 'trim-hashtags' | 'rewrite' | 'truncate';
+	description: string;
+}
+
+export interface PlatformCheckOptions {
+	/** Target video length for script platforms (seconds). */
+	targetDurationSec?: number;
+}
+
+export interface PlatformAdaptResult {
+	platform: string;
+	content: string;
+	adapted: boolean;
+	/** Issues still present after adaptation. */
+	warnings: PlatformIssue[];
+	fixes: PlatformFix[];
+	stats: {
+		chars: number;
+		hashtags: number;
+		estimatedSeconds?: number;
+	};
+}
+
+/** Rewrites `content` following `instruction`; returns the new text. */
+export type PlatformRewriter = (instruction: string, content: string) => Promise<string>;
+
+// Scripts may run this much past the target before we call them too long
+const SCRIPT_TOLERANCE = 1.15;
+const SCRIPT_MIN_RATIO = 0.5;
+
+// --- Validation ---
+
+function wordCount(content: string): number {
+	return content.split(/\s+/).filter(Boolean).length;
+}
+
+function estimateSeconds(content: string, profile: PlatformProfile): number | undefined {
+	if (!profile.script) return undefined;
+	// Stage directions like [B-ROLL: ...] or (beat) aren't spoken
+	const spoken = content.replace(/\[[^\]]*\]|\([^)]*\)/g, ' ');
+	return Math.round((wordCount(spoken) / profile.script.wordsPerMinute) * 60);
+}
+
+function firstParagraph(content: string): string {
+	return content.trim().split(/\n\s*\n/)[0] || '';
+}
+
+export function checkPlatformContent(
+	content: string,
+	platform: string,
+	options: PlatformCheckOptions = {},
+): PlatformIssue[] {
+	const profile = getPlatformProfile(platform);
+	const issues: PlatformIssue[] = [];
+
+	if (profile.maxChars) {
+		const length = platformLength(content, profile);
+		if (length > profile.maxChars) {
+			issues.push({
+				code: 'char-limit',
+				severity: 'error',
+				message: `${profile.label} allows ${profile.maxChars} characters; post is ${length}`,
+			});
+		}
+	}
+
+	const hashtags = extractHashtags(content).length;
+	if (profile.maxHashtags && hashtags > profile.maxHashtags) {
+		issues.push({
+			code: 'hashtag-cap',
+			severity: 'error',
+			message: `${profile.label} allows ${profile.maxHashtags} hashtags; post has ${hashtags}`,
+		});
+	} else if (profile.recommendedHashtags && hashtags > profile.recommendedHashtags) {
+		issues.push({
+			code: 'hashtag-count',
+			severity: 'warning',
+			message: `${hashtags} hashtags — ${profile.label} posts do best with ${profile.recommendedHashtags} or fewer`,
+		});
+	}
+
+	if (profile.foldChars) {
+		const opening = firstParagraph(content);
+		if (opening.length > profile.foldChars) {
+			issues.push({
+				code: 'fold',
+				severity: 'warning',
+				message: `Opening paragraph is ${opening.length} characters — ${profile.label} cuts to "see more" at ~${profile.foldChars}, so the hook is hidden`,
+			});
+		}
+	}
+
+	if (profile.script) {
+		const target = options.targetDurationSec ?? profile.script.defaultTargetSec;
+		const seconds = estimateSeconds(content, profile)!;
+		if (seconds > target * SCRIPT_TOLERANCE) {
+			issues.push({
+				code: 'script-too-long',
+				severity: 'error',
+				message: `Script reads in ~${seconds}s at ${profile.script.wordsPerMinute} wpm; target is ${target}s`,
+			});
+		} else if (seconds < target * SCRIPT_MIN_RATIO) {
+			issues.push({
+				code: 'script-too-short',
+				severity: 'warning',
+				message: `Script reads in ~${seconds}s; target is ${target}s — the video will need b-roll to fill it`,
+			});
+		}
+	}
+
+	return issues;
+}
+
+// --- Adaptation ---
+
+/** Drop hashtags past the cap, last ones first, and tidy the whitespace left behind. */
+function trimHashtags(content: string, cap: number): string {
+	let seen = 0;
+	return content
+		.replace(/#\w+/g, (tag) => (++seen <= cap ? tag : ''))
+		.replace(/[ \t]{2,}/g, ' ')
+		.replace(/[ \t]+$/gm, '')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/** Cut to `limit` at the last sentence (else word) boundary and add an ellipsis. */
+function truncateToLimit(content: string, limit: number, profile: PlatformProfile): string {
+	if (platformLength(content, profile) <= limit) return content;
+	let cut = content.slice(0, limit);
+	while (cut.length > 0 && platformLength(cut + '…', profile) > limit) {
+		cut = cut.slice(0, -1);
+	}
+	const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '), cut.lastIndexOf('\n'));
+	if (sentenceEnd > limit * 0.5) return cut.slice(0, sentenceEnd + 1).trim();
+	const wordEnd = cut.lastIndexOf(' ');
+	return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trim() + '…';
+}
+
+function rewriteInstruction(issues: PlatformIssue[], profile: PlatformProfile, options: PlatformCheckOptions): string {
+	const asks: string[] = [];
+	for (const issue of issues) {
+		if (issue.code === 'char-limit' && profile.maxChars) {
+			asks.push(`Cut it to under ${Math.floor(profile.maxChars * 0.95)} characters total (currently over ${profile.label}'s ${profile.maxChars} limit).`);
+		}
+		if (issue.code === 'fold' && profile.foldChars) {
+			asks.push(`Make the opening paragraph a hook of under ${profile.foldChars} characters, followed by a blank line, so it shows before "see more".`);
+		}
+		if (issue.code === 'script-too-long' && profile.script) {
+			const target = options.targetDurationSec ?? profile.script.defaultTargetSec;
+			const words = Math.floor((target / 60) * profile.script.wordsPerMinute);
+			asks.push(`Tighten the script to about ${words} spoken words so it reads in ${target} seconds. Keep the hook and the close.`);
+		}
+	}
+	return [
+		`This ${profile.label} post doesn't fit the platform:`,
+		...asks.map(a => `- ${a}`),
+		'Keep the voice, the specifics and the call to action. Do not add new facts, names or hashtags.',
+		'Respond with ONLY the revised post.',
+	].join('\n');
+}
+
+export async function adaptToPlatform(
+	content: string,
+	platform: string,
+	options: PlatformCheckOptions & { rewrite?: PlatformRewriter; fix?: boolean } = {},
+): Promise<PlatformAdaptResult> {
+	const profile = getPlatformProfile(platform);
+	const fixes: PlatformFix[] = [];
+	let current = content;
+	let issues = checkPlatformContent(current, platform, options);
+
+	// fix: false — report only
+	if (options.fix === false) {
+		return {
+			platform: profile.label,
+			content,
+			adapted: false,
+			warnings: issues,
+			fixes,
+			stats: {
+				chars: platformLength(content, profile),
+				hashtags: extractHashtags(content).length,
+				estimatedSeconds: estimateSeconds(content, profile),
+			},
+		};
+	}
+
+	// 1. Hashtag cap — mechanical, no model needed
+	if (profile.maxHashtags && issues.some(i => i.code === 'hashtag-cap')) {
+		const before = extractHashtags(current).length;
+		current = trimHashtags(current, profile.maxHashtags);
+		fixes.push({
+			code: 'hashtag-cap',
+			method: 'trim-hashtags',
+			description: `Removed ${before - profile.maxHashtags} hashtags past ${profile.label}'s cap of ${profile.maxHashtags}`,
+		});
+		issues = checkPlatformContent(current, platform, options);
+	}
+
+	// 2. Length / fold / script — one rewrite pass
+	const rewritable = issues.filter(i => i.code === 'char-limit' || i.code === 'fold' || i.code === 'script-too-long');
+	if (rewritable.length > 0 && options.rewrite) {
+		try {
+			const rewritten = (await options.rewrite(rewriteInstruction(rewritable, profile, options), current)).trim();
+			if (rewritten) {
+				const after = checkPlatformContent(rewritten, platform, options);
+				const resolved = rewritable.filter(i => !after.some(a => a.code === i.code));
+				// Keep the rewrite only if it fixed something and broke nothing new
+				const introduced = after.filter(a => a.severity === 'error' && !issues.some(i => i.code === a.code));
+				if (resolved.length > 0 && introduced.length === 0) {
+					current = rewritten;
+					for (const issue of resolved) {
+						fixes.push({ code: issue.code, method: 'rewrite', description: `Rewritten to fix: ${issue.message}` });
+					}
+					issues = after;
+				}
+			}
+		} catch (err) {
+			console.warn('[platform-rules] Rewrite failed:', err instanceof Error ? err.message : err);
+		}
+	}
+
+	// 3. Still over a hard character limit — truncate rather than let the post bounce
+	if (profile.maxChars && issues.some(i => i.code === 'char-limit')) {
+		const before = platformLength(current, profile);
+		current = truncateToLimit(current, profile.maxChars, profile);
+		fixes.push({
+			code: 'char-limit',
+			method: 'truncate',
+			description: `Truncated from ${before} to ${platformLength(current, profile)} characters`,
+		});
+		issues = checkPlatformContent(current, platform, options);
+	}
+
+	return {
+		platform: profile.label,
+		content: current,
+		adapted: current !== content,
+		warnings: issues,
+		fixes,
+		stats: {
+			chars: platformLength(current, profile),
+			hashtags: extractHashtags(current).length,
+			estimatedSeconds: estimateSeconds(current, profile),
+		},
+	};
+}
@@ -0,0 +1,109 @@
+/**
+ * Publish Log
+ *
+ * One record per publish attempt — which adapter and target it went to,
+ * whether it succeeded, and what the target answered. Written by
+ * publishContent() in publishers.ts for every attempt, including the
+ * content calendar's retries.
+ *
+ * Uses the Supabase publish_log table when Supabase is configured (see
+ * docs/publish_log_schema.sql), else a JSON-lines file on the persistent
+ * volume.
+ *
+ * File: src/agent/content-creator/publish-log.ts
+ */
+
+import * as fs from 'fs';
+import { persistentPath, writeFileAtomic } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+
+export interface PublishLogEntry {
+	id: string;
+	at: string;
+	platform: string;
+	adapter: string;
+	/** URL or outbox path the payload went to (no secrets). */
+	target: string;
+	success: boolean;
+	httpStatus?: number;
+	message: string;
+	/** Response body, truncated. */
+	response?: string;
+	/** What was published, e.g. a calendar item or generated_content row. */
+	source?: { type: string; id: string };
+}
+
+const LOG_FILE_PATH = persistentPath('publish-log.jsonl');
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const KEEP_LINES_ON_TRIM = 2000;
+const MAX_RESPONSE_CHARS = 2000;
+
+function trimLogFile(): void {
+	const lines = fs.readFileSync(LOG_FILE_PATH, 'utf-8').split('\n').filter(Boolean);
+	writeFileAtomic(LOG_FILE_PATH, lines.slice(-KEEP_LINES_ON_TRIM).join('\n') + '\n');
+}
+
+/**
+ * Append an attempt to the log. Never throws — a logging failure must not
+ * turn a successful post into a failed one (and trigger a duplicate retry).
+ */
+export async function recordPublishAttempt(entry: Omit<PublishLogEntry, 'id' | 'at'>): Promise<PublishLogEntry> {
+	const record: PublishLogEntry = {
+		id: `pub_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		at: new Date().toISOString(),
+		...entry,
+		response: entry.response?.slice(0, MAX_RESPONSE_CHARS),
+	};
+
+	try {
+		if (supabaseAdmin) {
+			const { error } = await supabaseAdmin.from('publish_log').insert({
+				id: record.id,
+				created_at: record.at,
+				platform: record.platform,
+				adapter: record.adapter,
+				success: record.success,
+				entry: record,
+			});
+			if (error) throw new Error(error.message);
+		} else {
+			fs.appendFileSync(LOG_FILE_PATH, JSON.stringify(record) + '\n', 'utf-8');
+			if (fs.statSync(LOG_FILE_PATH).size > MAX_FILE_BYTES) trimLogFile();
+		}
+	} catch (err) {
+		console.warn('[publish-log] Failed to record attempt:', err instanceof Error ? err.message : err);
+	}
+	return record;
+}
+
+/** Most recent attempts first. */
+export async function listPublishLog(
+	filter: { platform?: string; limit?: number } = {},
+): Promise<PublishLogEntry[]> {
+	const limit = filter.limit ?? 100;
+
+	if (supabaseAdmin) {
+		let query = supabaseAdmin
+			.from('publish_log')
+			.select('entry')
+			.order('created_at', { ascending: false })
+			.limit(limit);
+		if (filter.platform) query = query.ilike('platform', filter.platform);
+		const { data, error } = await query;
+		if (error) throw new Error(`publish_log read failed: ${error.message}`);
+		return (data || []).map(row => row.entry as PublishLogEntry);
+	}
+
+	if (!fs.existsSync(LOG_FILE_PATH)) return [];
+	const entries: PublishLogEntry[] = [];
+	for (const line of fs.readFileSync(LOG_FILE_PATH, 'utf-8').split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			entries.push(JSON.parse(line) as PublishLogEntry);
+		} catch { /* skip a torn line */ }
+	}
+	return entries
+		.filter(e => !filter.platform || e.platform.toLowerCase() === filter.platform.toLowerCase())
+		.reverse()
+		.slice(0, limit);
+}
@@ -0,0 +1,400 @@
+/**
+ * Publishers — pluggable delivery of finished posts
+ *
+ * A Publisher takes a WebhookPayload and delivers it somewhere. Adapters:
+ *   make           — POST to a Make.com scenario webhook (the original path)
+ *   signed-webhook — POST HMAC-SHA256-signed JSON to any URL
+ *   outbox         — write the payload to disk; nothing leaves the machine
+ *
+ * Which adapter handles a platform is data, not env: the Supabase
+ * publish_routing table when Supabase is configured (see
+ * docs/publish_routing_schema.sql), else publish-routing.json on the
+ * persistent volume, editable through GET/PUT /api/publish/routing.
+ * Routes name the env var holding a webhook secret (secretEnv) — secrets
+ * themselves never go in the store — and outbox dirs stay under
+ * publish-outbox/. Webhook URLs are bearer secrets too: the API only ever
+ * returns them redacted.
+ * Platforms without a route fall back to the route named `default`, then
+ * to the legacy MAKE_WEBHOOK_<PLATFORM> env vars. PUBLISH_DRY_RUN=true
+ * sends everything to the outbox regardless of routing.
+ *
+ * Every attempt is recorded in the publish log (publish-log.ts).
+ *
+ * File: src/agent/content-creator/publishers.ts
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import { buildWebhookPayload, getWebhookConfig, type WebhookConfig, type WebhookPayload } from './webhooks';
+import { recordPublishAttempt } from './publish-log';
+
+// --- Types ---
+
+export interface PublishResult {
+	success: boolean;
+	message: string;
+	httpStatus?: number;
+	response?: string;
+}
+
+export interface Publisher {
+	adapter: PublisherRoute['adapter'];
+	/** Where payloads go — shown in the publish log. Must not contain secrets. */
+	target: string;
+	publish(payload: WebhookPayload): Promise<PublishResult>;
+}
+
+export type PublisherRoute =
+	| { adapter: 'make'; url: string }
+	| { adapter: 'signed-webhook'; url: string; secretEnv: string }
+	/** dir is relative to the outbox root; anything resolving outside it is rejected. */
+	| { adapter: 'outbox'; dir?: string };
+
+export interface PublishRoutingConfig {
+	/** Keyed by lowercased platform name (instagram, linkedin, ...). */
+	platforms: Record<string, PublisherRoute>;
+	default?: PublisherRoute;
+	updatedAt?: string;
+}
+
+export interface PublishRequest {
+	platform: string;
+	content: string;
+	imageUrl?: string;
+	imageStyle?: string;
+	scheduledTime?: string | null;
+	/** Recorded in the publish log. */
+	source?: { type: string; id: string };
+}
+
+export const PUBLISHER_ADAPTERS: PublisherRoute['adapter'][] = ['make', 'signed-webhook', 'outbox'];
+
+const ROUTING_FILE_PATH = persistentPath('publish-routing.json');
+const ROUTING_ROW_ID = 'default';
+const DEFAULT_OUTBOX_DIR = persistentPath('publish-outbox');
+
+export const SIGNATURE_HEADER = 'X-CLC-Signature';
+export const TIMESTAMP_HEADER = 'X-CLC-Timestamp';
+
+// --- Adapters ---
+
+/** Make.com webhook URLs are bearer secrets — log only the host and the tail. */
+function redactUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		return `${parsed.host}/…${parsed.pathname.slice(-4)}`;
+	} catch {
+		return '(invalid url)';
+	}
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<PublishResult> {
+	try {
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...headers },
+			body,
+		});
+		const text = await response.text();
+		if (!response.ok) {
+			return { success: false, message: `Webhook failed: ${response.status} - ${text}`, httpStatus: response.status, response: text };
+		}
+		return { success: true, message: 'Delivered', httpStatus: response.status, response: text };
+	} catch (error) {
+		return { success: false, message: `Webhook error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+	}
+}
+
+export function createMakePublisher(url: string): Publisher {
+	return {
+		adapter: 'make',
+		target: redactUrl(url),
+		async publish(payload) {
+			const result = await postJson(url, JSON.stringify(payload));
+			return result.success
+				? { ...result, message: `Content sent to Make.com for ${payload.platform} publishing` }
+				: result;
+		},
+	};
+}
+
+/**
+ * Signed JSON webhook. The receiver verifies
+ *   X-CLC-Signature: sha256=<hex HMAC-SHA256(secret, `${X-CLC-Timestamp}.${rawBody}`)>
+ * and should reject stale timestamps to block replays.
+ */
+export function createSignedWebhookPublisher(url: string, secret: string): Publisher {
+	return {
+		adapter: 'signed-webhook',
+		target: url,
+		async publish(payload) {
+			const body = JSON.stringify(payload);
+			const timestamp = String(Math.floor(Date.now() / 1000));
+			const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+			const result = await postJson(url, body, {
+				[SIGNATURE_HEADER]: `sha256=${signature}`,
+				[TIMESTAMP_HEADER]: timestamp,
+			});
+			return result.success ? { ...result, message: `Content sent to ${new URL(url).host} for ${payload.platform}` } : result;
+		},
+	};
+}
+
+/** Resolve an outbox dir against the outbox root; throws if it escapes the root. */
+export function resolveOutboxDir(dir?: string): string {
+	if (!dir) return DEFAULT_OUTBOX_DIR;
+	const resolved = path.resolve(DEFAULT_OUTBOX_DIR, dir);
+	const relative = path.relative(DEFAULT_OUTBOX_DIR, resolved);
+	if (relative.startsWith('..') || path.isAbsolute(relative)) {
+		throw new Error(`Outbox dir must be inside ${DEFAULT_OUTBOX_DIR}`);
+	}
+	return resolved;
+}
+
+/** Writes each payload to <outbox>/<dir>/<timestamp>_<platform>_<rand>.json. */
+export function createOutboxPublisher(subdir?: string): Publisher {
+	const dir = resolveOutboxDir(subdir);
+	return {
+		adapter: 'outbox',
+		target: dir,
+		async publish(payload) {
+			try {
+				fs.mkdirSync(dir, { recursive: true });
+				const platformSlug = payload.platform.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+				const filePath = path.join(dir, `${Date.now()}_${platformSlug}_${Math.random().toString(36).slice(2, 8)}.json`);
+				fs.writeFileSync(filePath, JSON.stringify(payload, null, 2), 'utf-8');
+				return { success: true, message: `Written to outbox: ${filePath}` };
+			} catch (error) {
+				return { success: false, message: `Outbox write failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+			}
+		},
+	};
+}
+
+// --- Routing Store ---
+
+interface RoutingBackend {
+	read(): Promise<PublishRoutingConfig | null>;
+	write(config: PublishRoutingConfig): Promise<void>;
+}
+
+function createFileRoutingBackend(): RoutingBackend {
+	return {
+		async read() {
+			return readJsonFile<PublishRoutingConfig | null>(ROUTING_FILE_PATH, null, 'publishers');
+		},
+		async write(config) {
+			writeJsonFile(ROUTING_FILE_PATH, config, { pretty: true });
+		},
+	};
+}
+
+function createSupabaseRoutingBackend(): RoutingBackend {
+	return {
+		async read() {
+			const { data, error } = await supabaseAdmin
+				.from('publish_routing')
+				.select('config')
+				.eq('id', ROUTING_ROW_ID)
+				.maybeSingle();
+			if (error) throw new Error(`publish_routing read failed: ${error.message}`);
+			return (data?.config as PublishRoutingConfig | undefined) ?? null;
+		},
+		async write(config) {
+			const { error } = await supabaseAdmin.from('publish_routing').upsert({
+				id: ROUTING_ROW_ID,
+				config,
+				updated_at: config.updatedAt,
+			});
+			if (error) throw new Error(`publish_routing upsert failed: ${error.message}`);
+		},
+	};
+}
+
+let _routingBackend: RoutingBackend | null = null;
+
+function getRoutingBackend(): RoutingBackend {
+	if (!_routingBackend) {
+		_routingBackend = supabaseAdmin ? createSupabaseRoutingBackend() : createFileRoutingBackend();
+	}
+	return _routingBackend;
+}
+
+// --- Routing ---
+
+export async function loadPublishRouting(): Promise<PublishRoutingConfig> {
+	return (await getRoutingBackend().read()) ?? { platforms: {} };
+}
+
+function validateRoute(key: string, route: PublisherRoute): void {
+	if (!route || !PUBLISHER_ADAPTERS.includes(route.adapter)) {
+		throw new Error(`Route "${key}": adapter must be one of ${PUBLISHER_ADAPTERS.join(', ')}`);
+	}
+	if (route.adapter === 'make' || route.adapter === 'signed-webhook') {
+		try {
+			new URL(route.url);
+		} catch {
+			throw new Error(`Route "${key}": invalid url`);
+		}
+	}
+	if (route.adapter === 'signed-webhook') {
+		if ('secret' in route) {
+			throw new Error(`Route "${key}": inline secrets are not stored — put the secret in an env var and set secretEnv`);
+		}
+		if (typeof route.secretEnv !== 'string' || !/^[A-Z_][A-Z0-9_]*$/.test(route.secretEnv)) {
+			throw new Error(`Route "${key}": signed-webhook needs secretEnv (an env var name)`);
+		}
+	}
+	if (route.adapter === 'outbox') {
+		try {
+			resolveOutboxDir(route.dir);
+		} catch (err) {
+			throw new Error(`Route "${key}": ${err instanceof Error ? err.message : String(err)}`);
+		}
+	}
+}
+
+/**
+ * Replace the routing config. A route saved without a url (the API only
+ * shows redacted ones) keeps the previously stored url for the same
+ * adapter; a signed-webhook route saved without a secretEnv keeps the
+ * previously stored one.
+ */
+export async function savePublishRouting(config: PublishRoutingConfig): Promise<PublishRoutingConfig> {
+	const previous = await loadPublishRouting();
+	const keepSecret = (route: PublisherRoute, prev?: PublisherRoute): PublisherRoute => {
+		if ((route.adapter === 'make' || route.adapter === 'signed-webhook') && !route.url && prev?.adapter === route.adapter) {
+			route = { ...route, url: prev.url };
+		}
+		if (route.adapter === 'signed-webhook' && !route.secretEnv && prev?.adapter === 'signed-webhook') {
+			return { ...route, secretEnv: prev.secretEnv };
+		}
+		return route;
+	};
+
+	const platforms: Record<string, PublisherRoute> = {};
+	for (const [platform, route] of Object.entries(config.platforms || {})) {
+		const key = platform.toLowerCase();
+		platforms[key] = keepSecret(route, previous.platforms[key]);
+		validateRoute(key, platforms[key]!);
+	}
+	const next: PublishRoutingConfig = {
+		platforms,
+		default: config.default ? keepSecret(config.default, previous.default) : undefined,
+		updatedAt: new Date().toISOString(),
+	};
+	if (next.default) validateRoute('default', next.default);
+
+	await getRoutingBackend().write(next);
+	return next;
+}
+
+/**
+ * Routing config for the API — redacted webhook URLs, and whether each
+ * secretEnv is set, never its value.
+ */
+export async function describePublishRouting(config?: PublishRoutingConfig) {
+	config ??= await loadPublishRouting();
+	const redact = (route: PublisherRoute) => {
+		switch (route.adapter) {
+			case 'make':
+				return { adapter: route.adapter, url: redactUrl(route.url) };
+			case 'signed-webhook':
+				return { adapter: route.adapter, url: redactUrl(route.url), secretEnv: route.secretEnv, hasSecret: !!process.env[route.secretEnv] };
+			case 'outbox':
+				return route;
+		}
+	};
+	return {
+		platforms: Object.fromEntries(Object.entries(config.platforms).map(([k, r]) => [k, redact(r)])),
+		default: config.default ? redact(config.default) : undefined,
+		updatedAt: config.updatedAt,
+		envWebhooks: Object.entries(getWebhookConfig()).filter(([, url]) => !!url).map(([platform]) => platform),
+		dryRun: isDryRun(),
+	};
+}
+
+function isDryRun(): boolean {
+	return process.env.PUBLISH_DRY_RUN === 'true' || process.env.PUBLISH_DRY_RUN === '1';
+}
+
+function createPublisher(route: PublisherRoute): Publisher {
+	switch (route.adapter) {
+		case 'make':
+			return createMakePublisher(route.url);
+		case 'signed-webhook': {
+			const secret = route.secretEnv ? process.env[route.secretEnv] : undefined;
+			if (!secret) throw new Error(`Signed webhook secret not set${route.secretEnv ? ` (${route.secretEnv})` : ''}`);
+			return createSignedWebhookPublisher(route.url, secret);
+		}
+		case 'outbox':
+			return createOutboxPublisher(route.dir);
+	}
+}
+
+/** The publisher for a platform, or null if nothing is configured. */
+export async function resolvePublisher(platform: string): Promise<Publisher | null> {
+	if (isDryRun()) return createOutboxPublisher();
+
+	const routing = await loadPublishRouting();
+	const route = routing.platforms[platform.toLowerCase()] ?? routing.default;
+	if (route) return createPublisher(route);
+
+	const envUrl = getWebhookConfig()[platform.toLowerCase() as keyof WebhookConfig];
+	return envUrl ? createMakePublisher(envUrl) : null;
+}
+
+/** Platforms that will publish somewhere (routing, default route, or env). */
+export async function getConfiguredPlatforms(): Promise<string[]> {
+	const routing = await loadPublishRouting();
+	const platforms = new Set(Object.keys(routing.platforms));
+	for (const [platform, url] of Object.entries(getWebhookConfig())) {
+		if (url) platforms.add(platform);
+	}
+	if (routing.default || isDryRun()) platforms.add('*');
+	return [...platforms];
+}
+
+// --- Publish ---
+
+/** Publish through the platform's configured adapter and log the attempt. */
+export async function publishContent(request: PublishRequest): Promise<PublishResult> {
+	const payload = buildWebhookPayload(
+		request.platform,
+		request.content,
+		request.imageUrl,
+		request.imageStyle,
+		request.scheduledTime,
+	);
+
+	let publisher: Publisher | null;
+	try {
+		publisher = await resolvePublisher(request.platform);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		await recordPublishAttempt({ platform: request.platform, adapter: 'none', target: '', success: false, message, source: request.source });
+		return { success: false, message };
+	}
+
+	if (!publisher) {
+		const message = `No publisher configured for ${request.platform}. Add a route in publish routing or set MAKE_WEBHOOK_${request.platform.toUpperCase()}.`;
+		await recordPublishAttempt({ platform: request.platform, adapter: 'none', target: '', success: false, message, source: request.source });
+		return { success: false, message };
+	}
+
+	const result = await publisher.publish(payload);
+	await recordPublishAttempt({
+		platform: request.platform,
+		adapter: publisher.adapter,
+		target: publisher.target,
+		success: result.success,
+		httpStatus: result.httpStatus,
+		message: result.message,
+		response: result.response,
+		source: request.source,
+	});
+	return result;
+}
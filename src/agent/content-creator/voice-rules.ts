@@ -0,0 +1,212 @@
+/**
+ * Voice Rules — durable editorial rules learned from content_feedback
+ *
+ * kimberly-voice.ts is the hand-written voice. Voice rules are the learned
+ * layer on top of it: short "do" / "avoid" instructions distilled from
+ * Kimberly's likes, dislikes and notes by feedback-analysis.ts, scoped to
+ * a platform and/or content type (or global), with the feedback count
+ * behind each one.
+ *
+ * Every analysis writes a new numbered version; the newest is active.
+ * Restoring an old version copies it forward as a new version, so history
+ * is never rewritten. Uses the Supabase voice_rule_sets table when
+ * Supabase is configured (see docs/voice_rule_sets_schema.sql), else
+ * voice-rules.json on the persistent volume.
+ *
+ * File: src/agent/content-creator/voice-rules.ts
+ */
+
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import { getPlatformProfile } from './platform-profiles';
+
+// --- Types ---
+
+export interface VoiceRuleScope {
+	/** Platform label (Instagram, LinkedIn, ...); absent = every platform. */
+	platform?: string;
+	/** generated_content.content_type; absent = every type. */
+	contentType?: string;
+}
+
+export interface VoiceRule {
+	/** Stable across versions while scope, polarity and wording are unchanged. */
+	id: string;
+	scope: VoiceRuleScope;
+	polarity: 'do' | 'avoid';
+	rule: string;
+	/** Feedback rows behind the rule. */
+	evidence: { positive: number; negative: number; notes: number };
+	/** A few of Kimberly's own notes that produced it. */
+	examples: string[];
+}
+
+export interface FeedbackGroupStats {
+	platform?: string;
+	contentType?: string;
+	positive: number;
+	negative: number;
+}
+
+export interface VoiceRuleSet {
+	version: number;
+	createdAt: string;
+	/** Feedback rows analysed, and the newest one's created_at. */
+	feedbackCount: number;
+	feedbackThrough?: string;
+	groups: FeedbackGroupStats[];
+	rules: VoiceRule[];
+	/** Set when this version is a restored copy of an older one. */
+	restoredFrom?: number;
+}
+
+export interface VoiceRuleVersionSummary {
+	version: number;
+	createdAt: string;
+	ruleCount: number;
+	feedbackCount: number;
+	restoredFrom?: number;
+}
+
+const RULES_FILE_PATH = persistentPath('voice-rules.json');
+const MAX_FILE_VERSIONS = 50;
+
+// --- Store ---
+
+function readRulesFile(): VoiceRuleSet[] {
+	return readJsonFile<VoiceRuleSet[]>(RULES_FILE_PATH, [], 'voice-rules');
+}
+
+function summarize(set: VoiceRuleSet): VoiceRuleVersionSummary {
+	return {
+		version: set.version,
+		createdAt: set.createdAt,
+		ruleCount: set.rules.length,
+		feedbackCount: set.feedbackCount,
+		restoredFrom: set.restoredFrom,
+	};
+}
+
+/** The newest version, or null before the first analysis. */
+export async function getActiveVoiceRules(): Promise<VoiceRuleSet | null> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('voice_rule_sets')
+			.select('rule_set')
+			.order('version', { ascending: false })
+			.limit(1)
+			.maybeSingle();
+		if (error) throw new Error(`voice_rule_sets read failed: ${error.message}`);
+		return (data?.rule_set as VoiceRuleSet | undefined) ?? null;
+	}
+	return readRulesFile()[0] ?? null;
+}
+
+export async function getVoiceRuleVersion(version: number): Promise<VoiceRuleSet | null> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('voice_rule_sets')
+			.select('rule_set')
+			.eq('version', version)
+			.maybeSingle();
+		if (error) throw new Error(`voice_rule_sets read failed: ${error.message}`);
+		return (data?.rule_set as VoiceRuleSet | undefined) ?? null;
+	}
+	return readRulesFile().find(s => s.version === version) ?? null;
+}
+
+/** Newest first. */
+export async function listVoiceRuleVersions(limit = 20): Promise<VoiceRuleVersionSummary[]> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('voice_rule_sets')
+			.select('rule_set')
+			.order('version', { ascending: false })
+			.limit(limit);
+		if (error) throw new Error(`voice_rule_sets read failed: ${error.message}`);
+		return (data || []).map(row => summarize(row.rule_set as VoiceRuleSet));
+	}
+	return readRulesFile().slice(0, limit).map(summarize);
+}
+
+/**
+ * Save `draft` as the next version. Two analyses racing for the same
+ * number: the loser re-reads and takes the one after.
+ */
+export async function saveVoiceRuleSet(draft: Omit<VoiceRuleSet, 'version' | 'createdAt'>): Promise<VoiceRuleSet> {
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const latest = await getActiveVoiceRules();
+		const set: VoiceRuleSet = {
+			...draft,
+			version: (latest?.version ?? 0) + 1,
+			createdAt: new Date().toISOString(),
+		};
+
+		if (supabaseAdmin) {
+			const { error } = await supabaseAdmin.from('voice_rule_sets').insert({
+				version: set.version,
+				rule_count: set.rules.length,
+				rule_set: set,
+				created_at: set.createdAt,
+			});
+			if (error?.code === '23505') continue;
+			if (error) throw new Error(`voice_rule_sets insert failed: ${error.message}`);
+			return set;
+		}
+
+		const sets = readRulesFile();
+		sets.unshift(set);
+		writeJsonFile(RULES_FILE_PATH, sets.slice(0, MAX_FILE_VERSIONS), { pretty: true });
+		return set;
+	}
+	throw new Error('Voice rules changed concurrently — try again');
+}
+
+/** Make an old version active again by copying it forward. */
+export async function restoreVoiceRuleVersion(version: number): Promise<VoiceRuleSet | null> {
+	const old = await getVoiceRuleVersion(version);
+	if (!old) return null;
+	return saveVoiceRuleSet({
+		feedbackCount: old.feedbackCount,
+		feedbackThrough: old.feedbackThrough,
+		groups: old.groups,
+		rules: old.rules,
+		restoredFrom: old.version,
+	});
+}
+
+// --- Selection ---
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+	return (a || '').toLowerCase() === (b || '').toLowerCase();
+}
+
+/**
+ * Rules that apply to a generation: global rules, then platform or
+ * content-type rules, then rules scoped to both. Called without a platform
+ * (e.g. campaign messaging) it returns only the global rules.
+ */
+export function selectVoiceRules(set: VoiceRuleSet, target: VoiceRuleScope): VoiceRule[] {
+	const platform = target.platform ? getPlatformProfile(target.platform).label : undefined;
+	const specificity = (r: VoiceRule) => (r.scope.platform ? 1 : 0) + (r.scope.contentType ? 1 : 0);
+	return set.rules
+		.filter(r => !r.scope.platform || (platform && sameText(r.scope.platform, platform)))
+		.filter(r => !r.scope.contentType || (target.contentType && sameText(r.scope.contentType, target.contentType)))
+		.sort((a, b) => specificity(a) - specificity(b));
+}
+
+/** System prompt section for the selected rules ('' when there are none). */
+export function formatVoiceRules(rules: VoiceRule[], version: number): string {
+	if (rules.length === 0) return '';
+	const line = (r: VoiceRule) => `- ${r.rule}${r.scope.platform || r.scope.contentType
+		? ` (${[r.scope.platform, r.scope.contentType].filter(Boolean).join(' ')})`
+		: ''}`;
+	const dos = rules.filter(r => r.polarity === 'do').map(line);
+	const avoids = rules.filter(r => r.polarity === 'avoid').map(line);
+
+	const sections: string[] = [`\n\n---\n\nVOICE RULES v${version} (learned from Kimberly's feedback on past content):`];
+	if (avoids.length > 0) sections.push(`\nAVOID — she has rejected these patterns:\n${avoids.join('\n')}`);
+	if (dos.length > 0) sections.push(`\nDO — she has approved these patterns:\n${dos.join('\n')}`);
+	sections.push('\nTreat these rules as direct editorial instruction. They override general guidelines when they conflict.\n---');
+	return sections.join('\n');
+}
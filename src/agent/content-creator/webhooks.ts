@@ -1,8 +1,14 @@
 /**
  * Make.com Webhook Integration
- * Sends generated content to Make.com for automated social media posting
+ * Sends generated content to Make.com for automated social media posting.
+ *
+ * Delivery now goes through the Publisher adapters in publishers.ts; this
+ * file keeps the payload shape and the legacy MAKE_WEBHOOK_* env config,
+ * which publishers.ts falls back to for platforms without a route.
  */
 
+import { extractHashtags } from './platform-profiles';
+
 export interface WebhookPayload {
 	platform: string;
 	content: string;
@@ -27,8 +33,8 @@ export interface WebhookConfig {
 	email?: string; // For newsletter via Mailchimp etc.
 }
 
-// Default webhook URLs - these should be configured via environment variables
-const getWebhookConfig = (): WebhookConfig => ({
+// Legacy per-platform webhook URLs from env (see publishers.ts for routing)
+export const getWebhookConfig = (): WebhookConfig => ({
 	instagram: process.env.MAKE_WEBHOOK_INSTAGRAM,
 	facebook: process.env.MAKE_WEBHOOK_FACEBOOK,
 	twitter: process.env.MAKE_WEBHOOK_TWITTER,
@@ -39,36 +45,16 @@ const getWebhookConfig = (): WebhookConfig => ({
 });
 
 /**
- * Extract hashtags from content
- */
-function extractHashtags(content: string): string[] {
-	const hashtagRegex = /#\w+/g;
-	const matches = content.match(hashtagRegex);
-	return matches || [];
-}
-
-/**
- * Send content to Make.com webhook for publishing
+ * Build the JSON payload every publisher adapter sends
  */
-export async function sendToMakeWebhook(
+export function buildWebhookPayload(
 	platform: string,
 	content: string,
 	imageUrl?: string,
 	imageStyle?: string,
 	scheduledTime?: string | null,
-): Promise<{ success: boolean; message: string }> {
-	const config = getWebhookConfig();
-	const platformKey = platform.toLowerCase() as keyof WebhookConfig;
-	const webhookUrl = config[platformKey];
-
-	if (!webhookUrl) {
-		return {
-			success: false,
-			message: `No webhook configured for ${platform}. Please set MAKE_WEBHOOK_${platform.toUpperCase()} environment variable.`,
-		};
-	}
-
-	const payload: WebhookPayload = {
+): WebhookPayload {
+	return {
 		platform,
 		content,
 		imageUrl,
@@ -81,42 +67,30 @@ export async function sendToMakeWebhook(
 			agentVersion: '1.0',
 		},
 	};
+}
 
-	try {
-		const response = await fetch(webhookUrl, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify(payload),
-		});
-
-		if (!response.ok) {
-			const errorText = await response.text();
-			return {
-				success: false,
-				message: `Webhook failed: ${response.status} - ${errorText}`,
-			};
-		}
-
-		return {
-			success: true,
-			message: `Content sent to Make.com for ${platform} publishing`,
-		};
-	} catch (error) {
-		return {
-			success: false,
-			message: `Webhook error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-		};
-	}
+/**
+ * Send content for publishing through the platform's configured publisher
+ * (Make.com by default). Kept for existing callers — new code should call
+ * publishContent() in publishers.ts directly.
+ */
+export async function sendToMakeWebhook(
+	platform: string,
+	content: string,
+	imageUrl?: string,
+	imageStyle?: string,
+	scheduledTime?: string | null,
+): Promise<{ success: boolean; message: string }> {
+	const { publishContent } = await import('./publishers');
+	const { success, message } = await publishContent({ platform, content, imageUrl, imageStyle, scheduledTime });
+	return { success, message };
 }
 
 /**
- * Get list of configured webhooks
+ * Get list of platforms that have somewhere to publish to
+ * (publish routing or MAKE_WEBHOOK_* env)
  */
-export function getConfiguredWebhooks(): string[] {
-	const config = getWebhookConfig();
-	return Object.entries(config)
-		.filter(([_, url]) => !!url)
-		.map(([platform]) => platform);
+export async function getConfiguredWebhooks(): Promise<string[]> {
+	const { getConfiguredPlatforms } = await import('./publishers');
+	return getConfiguredPlatforms();
 }
@@ -16,34 +16,26 @@ import { createAgent } from '@agentuity/runtime';
 import { s } from '@agentuity/schema';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
+import { formatOrgFacts, loadOrgProfile, type OrganizationProfile } from '../../lib/org-profile';
 
 // ---------------------------------------------------------------------------
-// CLC donor profile context
+// CLC donor profile context — facts rendered from the organization profile
+// (src/lib/org-profile.ts), donor strategy below them
 // ---------------------------------------------------------------------------
 
-const CLC_DONOR_CONTEXT = `
-## Community Literacy Club — Donor Prospecting Profile
+function buildDonorContext(profile: OrganizationProfile): string {
+	return `
+## ${profile.name} — Donor Prospecting Profile
 
-**Organization:** Community Literacy Club (CLC)
-**Executive Director:** Kimberly Gordon
-**EIN:** [On file]
-**Location:** Hempstead, Long Island, NY (serving Nassau County, Westchester, Brooklyn, Newark NJ, Connecticut)
-**Annual Budget:** Under $500K (emerging nonprofit — ideal for donors wanting outsized impact per dollar)
-**Tax Status:** 501(c)(3) — all donations are tax-deductible
+${formatOrgFacts(profile)}
 
-### What CLC Does
-We bring tennis, chess, and life skills to underserved youth in unconventional spaces. We meet kids where they are — in gyms, community centers, libraries, and rec rooms — because our kids don't have access to traditional courts or clubs.
+All donations are tax-deductible.
 
-### Impact Numbers
-- 400+ youth served annually
-- 84% program retention rate
-- 3 age-based tracks (Youth 6-19, Teen Leadership 13-19, Young Adult 20-26)
-- SAT/ACT/PSAT prep programs
-- 5+ locations across NY, NJ, CT
-- Alumni become coaches → sustainable leadership pipeline
+### How CLC Works
+We meet kids where they are — in gyms, community centers, libraries, and rec rooms — because our kids don't have access to traditional courts or clubs. Alumni become coaches → sustainable leadership pipeline.
 
 ### Why Donors Should Care
-- **Tax efficiency:** 501(c)(3) status, clean financials, emerging-stage = high impact per dollar
+- **Tax efficiency:** ${profile.taxStatus} status, clean financials, emerging-stage = high impact per dollar
 - **Story-rich:** Every dollar connects to a real kid with a real name
 - **Visibility:** Donors get named recognition at events, in newsletters, on social media
 - **Community anchor:** Deep roots in Nassau County and Westchester — local impact, local pride
@@ -61,7 +53,7 @@ We bring tennis, chess, and life skills to underserved youth in unconventional s
 ### 1. ACCOUNTING FIRMS (Priority Target)
 **Why accounting firms?** Their high-net-worth clients need legitimate charitable deductions. CLC is a perfect recommendation — small enough for meaningful engagement, established enough to be credible, and located in the same affluent-adjacent markets (Nassau, Westchester) where these firms operate.
 
-**The pitch:** "Recommend CLC to your clients who need quality charitable write-offs. We're a 501(c)(3) youth nonprofit in their backyard — they get a tax deduction AND a feel-good story about kids in their community learning tennis and chess."
+**The pitch:** "Recommend CLC to your clients who need quality charitable write-offs. We're a ${profile.taxStatus} youth nonprofit in their backyard — they get a tax deduction AND a feel-good story about kids in their community learning tennis and chess."
 
 **Target accounting firms:**
 - Mid-size firms (50-500 employees) in Nassau County, Westchester, Manhattan
@@ -97,6 +89,7 @@ We bring tennis, chess, and life skills to underserved youth in unconventional s
 - Donor-advised funds (DAFs) at community foundations
 - Family offices managing wealth for UHNW families in the tri-state area
 `;
+}
 
 // ---------------------------------------------------------------------------
 // Prospect types
@@ -239,6 +232,7 @@ const agent = createAgent('donor-researcher', {
 		// Auto-set prospect type if accounting firm focus flag is set
 		const resolvedProspectType = (focusOnAccountingFirms && !prospectType) ? 'accounting-firm' : prospectType;
 		ctx.logger.info('Donor Researcher: %s (type: %s)', searchType, resolvedProspectType || 'all');
+		const donorContext = buildDonorContext(await loadOrgProfile(ctx.logger));
 
 		// =====================================================================
 		// PROSPECT SEARCH
@@ -302,7 +296,7 @@ For each, include a taxStrategyAngle explaining how supporting CLC fits their ta
 				model: openai('gpt-5-mini'),
 				prompt: `You are an expert fundraising researcher and donor prospecting specialist. Generate a list of ${limit} realistic potential donor prospects for Community Literacy Club.
 
-${CLC_DONOR_CONTEXT}
+${donorContext}
 
 ${typeSpecificInstructions}
 
@@ -388,7 +382,7 @@ Return ONLY valid JSON:`,
 				model: openai('gpt-5-mini'),
 				prompt: `You are an expert fundraising researcher. Provide a detailed research profile on "${prospectName}" for a nonprofit fundraiser at Community Literacy Club.
 
-${CLC_DONOR_CONTEXT}
+${donorContext}
 
 ${prospectWebsite ? `Known website: ${prospectWebsite}` : ''}
 
@@ -474,7 +468,7 @@ Return ONLY valid JSON:`,
 				model: openai('gpt-5-mini'),
 				prompt: `You are a fundraising research assistant helping map connections to a potential donor.
 
-${CLC_DONOR_CONTEXT}
+${donorContext}
 
 Target: ${targetProspect}
 Known connections in CLC's network: ${knownConnections.join(', ') || 'None specified'}
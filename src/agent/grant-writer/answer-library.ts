@@ -0,0 +1,370 @@
+/**
+ * Answer Library — approved boilerplate for grant application sections
+ *
+ * Applications keep asking for the same sections: mission, DEI statement,
+ * evaluation plan, sustainability, organizational history. Each library
+ * answer holds the approved text for one of them in up to three lengths
+ * (100 / 250 / 500 words), with tags and the other titles funders use for
+ * the same section.
+ *
+ * Approval: answers start as drafts; only `approved` answers are used by
+ * grant-writer. Editing an approved answer's text sends it back to draft
+ * unless the same edit re-approves it. `retired` answers stay for the
+ * record but are never matched.
+ *
+ * In write mode grant-writer matches each of `requiredSections` against
+ * the approved answers (matchLibraryAnswers), adapts the hits to the
+ * funder and only generates the sections nothing matched.
+ *
+ * Answers live in the Supabase grant_answers table when Supabase is
+ * configured (see docs/grant_answers_schema.sql), else in a JSON file on
+ * the persistent volume.
+ *
+ * File: src/agent/grant-writer/answer-library.ts
+ */
+
+import { createVersionedFileStore, persistentPath } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+
+// --- Types ---
+
+export type AnswerStatus = 'draft' | 'approved' | 'retired';
+
+export const ANSWER_LENGTHS = [100, 250, 500] as const;
+export type AnswerLength = typeof ANSWER_LENGTHS[number];
+
+export interface LibraryAnswer {
+	id: string;
+	/** Canonical section title, e.g. "Organizational History". */
+	section: string;
+	sectionKey: string;
+	/** Other titles funders use for this section ("Background", "About Us"). */
+	aliases: string[];
+	tags: string[];
+	/** Approved text by target word count. At least one is required. */
+	variants: Partial<Record<AnswerLength, string>>;
+	status: AnswerStatus;
+	approvedBy?: string;
+	approvedAt?: string;
+	notes?: string;
+	usageCount: number;
+	lastUsedAt?: string;
+	createdAt: string;
+	updatedAt: string;
+	version: number;
+}
+
+export interface AnswerInput {
+	section: string;
+	aliases?: string[];
+	tags?: string[];
+	variants: Partial<Record<AnswerLength, string>>;
+	status?: AnswerStatus;
+	approvedBy?: string;
+	notes?: string;
+}
+
+/** A required section covered by the library. */
+export interface AnswerMatch {
+	section: string;
+	answer: LibraryAnswer;
+	length: AnswerLength;
+	text: string;
+}
+
+// --- Config ---
+
+const ANSWER_STATUSES: AnswerStatus[] = ['draft', 'approved', 'retired'];
+
+const LIBRARY_FILE_PATH = persistentPath('grant-answers.json');
+
+// Words that don't tell sections apart ("Evaluation Plan" = "Evaluation")
+const TITLE_STOP_WORDS = new Set(['the', 'a', 'an', 'of', 'and', 'for', 'our', 'your', 'statement', 'plan', 'section', 'overview']);
+
+/** Token overlap needed for a fuzzy title match. */
+const MIN_MATCH_SCORE = 0.6;
+
+// --- Matching ---
+
+/** "Diversity, Equity & Inclusion Statement" → "diversity equity inclusion". */
+export function normalizeSectionTitle(title: string): string {
+	return title.toLowerCase()
+		.replace(/&/g, ' and ')
+		.replace(/[^a-z0-9 ]+/g, ' ')
+		.split(/\s+/)
+		.filter(w => w && !TITLE_STOP_WORDS.has(w))
+		.join(' ');
+}
+
+function titleScore(a: string, b: string): number {
+	if (!a || !b) return 0;
+	if (a === b) return 1;
+	const ta = new Set(a.split(' '));
+	const tb = new Set(b.split(' '));
+	const shared = [...ta].filter(t => tb.has(t)).length;
+	return shared / new Set([...ta, ...tb]).size;
+}
+
+function answerScore(answer: LibraryAnswer, key: string): number {
+	const titles = [answer.sectionKey, ...answer.aliases.map(normalizeSectionTitle), ...answer.tags.map(normalizeSectionTitle)];
+	return Math.max(0, ...titles.map(t => titleScore(t, key)));
+}
+
+/** The variant closest to `targetWords` (the shorter one on a tie). */
+export function pickVariant(answer: LibraryAnswer, targetWords: number): { length: AnswerLength; text: string } | null {
+	const available = ANSWER_LENGTHS.filter(len => answer.variants[len]?.trim());
+	if (available.length === 0) return null;
+	const length = available.reduce((best, len) =>
+		Math.abs(len - targetWords) < Math.abs(best - targetWords) ? len : best);
+	return { length, text: answer.variants[length]!.trim() };
+}
+
+// --- Storage ---
+
+interface LibraryBackend {
+	list(filter?: { status?: AnswerStatus; tag?: string }): Promise<LibraryAnswer[]>;
+	get(id: string): Promise<LibraryAnswer | null>;
+	/** Write `answer` if the stored version still equals `expectedVersion` (0 = insert). */
+	write(answer: LibraryAnswer, expectedVersion: number): Promise<boolean>;
+}
+
+function createFileLibraryBackend(): LibraryBackend {
+	const store = createVersionedFileStore<LibraryAnswer>(LIBRARY_FILE_PATH, 'answer-library');
+
+	return {
+		async list(filter = {}) {
+			return store.read().filter(answer =>
+				(!filter.status || answer.status === filter.status)
+				&& (!filter.tag || answer.tags.includes(filter.tag)));
+		},
+		async get(id) {
+			return store.get(id);
+		},
+		async write(answer, expectedVersion) {
+			return store.write(answer, expectedVersion);
+		},
+	};
+}
+
+function createSupabaseLibraryBackend(): LibraryBackend {
+	const toRow = (answer: LibraryAnswer) => ({
+		id: answer.id,
+		section_key: answer.sectionKey,
+		status: answer.status,
+		tags: answer.tags,
+		item: answer,
+		version: answer.version,
+		updated_at: answer.updatedAt,
+	});
+
+	return {
+		async list(filter = {}) {
+			let query = supabaseAdmin.from('grant_answers').select('item');
+			if (filter.status) query = query.eq('status', filter.status);
+			if (filter.tag) query = query.contains('tags', [filter.tag]);
+			const { data, error } = await query;
+			if (error) throw new Error(`grant_answers read failed: ${error.message}`);
+			return (data || []).map(row => row.item as LibraryAnswer);
+		},
+		async get(id) {
+			const { data, error } = await supabaseAdmin
+				.from('grant_answers')
+				.select('item')
+				.eq('id', id)
+				.maybeSingle();
+			if (error) throw new Error(`grant_answers read failed: ${error.message}`);
+			return (data?.item as LibraryAnswer | undefined) ?? null;
+		},
+		async write(answer, expectedVersion) {
+			if (expectedVersion === 0) {
+				const { error } = await supabaseAdmin.from('grant_answers').insert(toRow(answer));
+				if (error?.code === '23505') return false;
+				if (error) throw new Error(`grant_answers insert failed: ${error.message}`);
+				return true;
+			}
+			const { data, error } = await supabaseAdmin
+				.from('grant_answers')
+				.update(toRow(answer))
+				.eq('id', answer.id)
+				.eq('version', expectedVersion)
+				.select('id');
+			if (error) throw new Error(`grant_answers update failed: ${error.message}`);
+			return (data || []).length > 0;
+		},
+	};
+}
+
+let _backend: LibraryBackend | null = null;
+
+function getLibraryBackend(): LibraryBackend {
+	if (!_backend) {
+		_backend = supabaseAdmin ? createSupabaseLibraryBackend() : createFileLibraryBackend();
+	}
+	return _backend;
+}
+
+/**
+ * Read-modify-write with the version check. `mutate` returns null to
+ * leave the answer alone. Retries a few times if another writer won.
+ */
+async function mutateAnswer(
+	id: string,
+	mutate: (answer: LibraryAnswer) => LibraryAnswer | null,
+): Promise<LibraryAnswer | null> {
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const current = await getLibraryBackend().get(id);
+		if (!current) return null;
+		const next = mutate(structuredClone(current));
+		if (!next) return null;
+		next.version = current.version + 1;
+		next.updatedAt = new Date().toISOString();
+		if (await getLibraryBackend().write(next, current.version)) return next;
+	}
+	throw new Error(`Library answer ${id} is being updated elsewhere — try again`);
+}
+
+/** Keep only the known lengths with text; throws if none are left. */
+function cleanVariants(variants: Partial<Record<AnswerLength, string>> | undefined): Partial<Record<AnswerLength, string>> {
+	const cleaned: Partial<Record<AnswerLength, string>> = {};
+	for (const len of ANSWER_LENGTHS) {
+		const text = variants?.[len]?.trim();
+		if (text) cleaned[len] = text;
+	}
+	if (Object.keys(cleaned).length === 0) {
+		throw new Error(`At least one variant is required (${ANSWER_LENGTHS.join(' / ')} words)`);
+	}
+	return cleaned;
+}
+
+function cleanList(values: string[] | undefined): string[] {
+	return [...new Set((values || []).map(v => v.trim()).filter(Boolean))];
+}
+
+function setStatus(answer: LibraryAnswer, status: AnswerStatus, approvedBy?: string): void {
+	if (!ANSWER_STATUSES.includes(status)) throw new Error(`Unknown status "${status}"`);
+	if (status === 'approved' && answer.status !== 'approved') {
+		answer.approvedAt = new Date().toISOString();
+		answer.approvedBy = approvedBy;
+	}
+	answer.status = status;
+}
+
+// --- Public API ---
+
+/** Approved answers first, then by section title. `q` searches titles and text. */
+export async function listLibraryAnswers(
+	filter: { status?: AnswerStatus; tag?: string; q?: string } = {},
+): Promise<LibraryAnswer[]> {
+	const answers = await getLibraryBackend().list({ status: filter.status, tag: filter.tag });
+	const q = filter.q?.toLowerCase().trim();
+	const rank: Record<AnswerStatus, number> = { approved: 0, draft: 1, retired: 2 };
+	return answers
+		.filter(a => !q
+			|| [a.section, ...a.aliases, ...a.tags, ...Object.values(a.variants)].some(t => t?.toLowerCase().includes(q)))
+		.sort((a, b) => rank[a.status] - rank[b.status] || a.section.localeCompare(b.section));
+}
+
+export async function getLibraryAnswer(id: string): Promise<LibraryAnswer | null> {
+	return getLibraryBackend().get(id);
+}
+
+export async function createLibraryAnswer(input: AnswerInput): Promise<LibraryAnswer> {
+	const section = input.section?.trim();
+	if (!section) throw new Error('section is required');
+	const now = new Date().toISOString();
+	const answer: LibraryAnswer = {
+		id: `ans_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		section,
+		sectionKey: normalizeSectionTitle(section),
+		aliases: cleanList(input.aliases),
+		tags: cleanList(input.tags),
+		variants: cleanVariants(input.variants),
+		status: 'draft',
+		notes: input.notes,
+		usageCount: 0,
+		createdAt: now,
+		updatedAt: now,
+		version: 1,
+	};
+	if (input.status) setStatus(answer, input.status, input.approvedBy);
+	if (!(await getLibraryBackend().write(answer, 0))) {
+		throw new Error('Could not save the answer — try again');
+	}
+	return answer;
+}
+
+/**
+ * Edit an answer. Changing the text of an approved answer returns it to
+ * draft unless `changes.status` re-approves it in the same edit.
+ */
+export async function updateLibraryAnswer(
+	id: string,
+	changes: Partial<AnswerInput>,
+): Promise<LibraryAnswer | null> {
+	// Validate before the write loop so bad input is a clean 400
+	const variants = changes.variants !== undefined ? cleanVariants(changes.variants) : undefined;
+	const section = changes.section?.trim();
+	if (changes.section !== undefined && !section) throw new Error('section cannot be empty');
+
+	return mutateAnswer(id, (answer) => {
+		const textChanged = variants !== undefined
+			&& ANSWER_LENGTHS.some(len => (answer.variants[len] || '') !== (variants[len] || ''));
+		if (section) {
+			answer.section = section;
+			answer.sectionKey = normalizeSectionTitle(section);
+		}
+		if (changes.aliases !== undefined) answer.aliases = cleanList(changes.aliases);
+		if (changes.tags !== undefined) answer.tags = cleanList(changes.tags);
+		if (variants) answer.variants = variants;
+		if (changes.notes !== undefined) answer.notes = changes.notes || undefined;
+
+		if (changes.status) {
+			// Re-approving after a text change counts as a new approval
+			if (textChanged && changes.status === 'approved') answer.status = 'draft';
+			setStatus(answer, changes.status, changes.approvedBy);
+		} else if (textChanged && answer.status === 'approved') {
+			answer.status = 'draft';
+		}
+		return answer;
+	});
+}
+
+/**
+ * Best approved answer for each required section (null = nothing close
+ * enough), with the variant nearest `targetWords` — one target for all
+ * sections, or one per section. One answer is used for at most one section.
+ */
+export async function matchLibraryAnswers(
+	sections: string[],
+	targetWords: number | number[],
+): Promise<Array<AnswerMatch | null>> {
+	if (sections.length === 0) return [];
+	const approved = await getLibraryBackend().list({ status: 'approved' });
+	const used = new Set<string>();
+
+	return sections.map((section, i) => {
+		const key = normalizeSectionTitle(section);
+		let best: { answer: LibraryAnswer; score: number } | null = null;
+		for (const answer of approved) {
+			if (used.has(answer.id)) continue;
+			const score = answerScore(answer, key);
+			if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) best = { answer, score };
+		}
+		const variant = best && pickVariant(best.answer, Array.isArray(targetWords) ? targetWords[i]! : targetWords);
+		if (!best || !variant) return null;
+		used.add(best.answer.id);
+		return { section, answer: best.answer, ...variant };
+	});
+}
+
+/** Count a use of each answer in a generated document. */
+export async function recordAnswerUse(ids: string[]): Promise<void> {
+	const now = new Date().toISOString();
+	for (const id of new Set(ids)) {
+		await mutateAnswer(id, (answer) => {
+			answer.usageCount += 1;
+			answer.lastUsedAt = now;
+			return answer;
+		});
+	}
+}
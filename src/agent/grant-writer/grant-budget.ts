@@ -0,0 +1,398 @@
+/**
+ * Grant Budget — line-item budgets for grant applications
+ *
+ * A budget is a list of line items (personnel, coaches, equipment, venue
+ * rental, transportation, ...) priced as quantity × unit cost per year.
+ * buildBudget turns it into a budget table:
+ *
+ *   - Multi-year: recurring lines repeat each year with the escalation rate
+ *     applied from year 2; one-time lines (equipment by default) land in
+ *     year 1 only.
+ *   - Indirect costs: a rate on total direct costs, or on modified total
+ *     direct costs (direct minus equipment), capped at the funder's maximum.
+ *   - Program sites: a line is either charged to one site or shared across
+ *     sites by their allocation shares; indirect follows each site's
+ *     share of direct costs.
+ *
+ * Every amount is rounded to whole dollars once, per line and year, and
+ * all totals are sums of those — so the table always adds up.
+ *
+ * checkBudgetNarrative holds a narrative to the table: the total must be
+ * stated, every dollar figure must come from the table, and the total must
+ * fall within the funder's funding range.
+ *
+ * Budgets aren't stored — grant-writer takes one as `budget` in write mode
+ * and POST /api/grant-budget previews a table.
+ *
+ * File: src/agent/grant-writer/grant-budget.ts
+ */
+
+// --- Types ---
+
+export const BUDGET_CATEGORIES = ['personnel', 'coaches', 'equipment', 'venue', 'transportation', 'supplies', 'other'] as const;
+export type BudgetCategory = typeof BUDGET_CATEGORIES[number];
+
+export const CATEGORY_LABELS: Record<BudgetCategory, string> = {
+	personnel: 'Personnel',
+	coaches: 'Coaches & Instructors',
+	equipment: 'Equipment',
+	venue: 'Venue Rental',
+	transportation: 'Transportation',
+	supplies: 'Supplies & Materials',
+	other: 'Other Direct Costs',
+};
+
+export type IndirectBase = 'direct' | 'mtdc';
+
+export interface BudgetLineItemInput {
+	category: string;
+	description: string;
+	quantity: number;         // units per year
+	unit?: string;            // 'hours', 'sessions', 'months', 'each'
+	unitCost: number;
+	site?: string;            // charged to this site only; otherwise shared
+	oneTime?: boolean;        // year 1 only (default: true for equipment)
+}
+
+export interface SiteAllocation {
+	site: string;
+	share: number;            // relative weight; normalized across sites
+}
+
+export interface BudgetInput {
+	lineItems: BudgetLineItemInput[];
+	years?: number;           // 1-5 (default 1)
+	escalationRate?: number;  // yearly increase on recurring lines, 0.03 = 3% (default 0.03)
+	indirectRate?: number;    // 0.10 = 10% (default 0)
+	indirectBase?: IndirectBase;
+	indirectCap?: number;     // funder's maximum indirect rate
+	siteAllocations?: SiteAllocation[];
+}
+
+export interface BudgetLine {
+	category: BudgetCategory;
+	description: string;
+	quantity: number;
+	unit: string;
+	unitCost: number;
+	site?: string;
+	oneTime: boolean;
+	yearly: number[];
+	total: number;
+}
+
+export interface BudgetAmounts {
+	yearly: number[];
+	total: number;
+}
+
+export interface BudgetTable {
+	years: number;
+	escalationRate: number;
+	lines: BudgetLine[];
+	categories: Array<BudgetAmounts & { category: BudgetCategory }>;
+	direct: BudgetAmounts;
+	indirect: BudgetAmounts & { rate: number; base: IndirectBase; capped: boolean };
+	grandTotal: BudgetAmounts;
+	sites: Array<BudgetAmounts & { site: string; share: number }>;
+}
+
+export interface FundingRange {
+	min?: number;
+	max?: number;
+}
+
+export interface BudgetCheck {
+	fundingRange?: string;
+	withinRange?: boolean;
+	figuresMatch: boolean;    // the narrative states the total and cites only table figures
+	issues: string[];
+}
+
+// --- Config ---
+
+const MAX_YEARS = 5;
+const DEFAULT_ESCALATION_RATE = 0.03;
+
+// --- Formatting ---
+
+export function formatDollars(amount: number): string {
+	return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+function formatRate(rate: number): string {
+	return `${Math.round(rate * 1000) / 10}%`;
+}
+
+// --- Building ---
+
+function sumAmounts(rows: BudgetAmounts[], years: number): BudgetAmounts {
+	const yearly = Array.from({ length: years }, (_, y) => rows.reduce((sum, row) => sum + (row.yearly[y] ?? 0), 0));
+	return { yearly, total: yearly.reduce((a, b) => a + b, 0) };
+}
+
+/** Split a whole-dollar amount by weights; the largest share absorbs rounding. */
+function splitAmount(amount: number, weights: number[]): number[] {
+	const totalWeight = weights.reduce((a, b) => a + b, 0);
+	if (totalWeight <= 0) return weights.map(() => 0);
+	const parts = weights.map(w => Math.round(amount * w / totalWeight));
+	const largest = weights.indexOf(Math.max(...weights));
+	parts[largest]! += amount - parts.reduce((a, b) => a + b, 0);
+	return parts;
+}
+
+function validateBudget(input: BudgetInput): string[] {
+	const errors: string[] = [];
+	if (!Array.isArray(input.lineItems) || input.lineItems.length === 0) errors.push('a budget needs at least one line item');
+	(input.lineItems || []).forEach((item, i) => {
+		const label = item.description?.trim() ? `"${item.description.trim()}"` : `line ${i + 1}`;
+		if (!item.description?.trim()) errors.push(`line ${i + 1}: description is required`);
+		if (!BUDGET_CATEGORIES.includes(item.category as BudgetCategory)) {
+			errors.push(`${label}: category must be one of ${BUDGET_CATEGORIES.join(', ')}`);
+		}
+		if (!Number.isFinite(item.quantity) || item.quantity <= 0) errors.push(`${label}: quantity must be positive`);
+		if (!Number.isFinite(item.unitCost) || item.unitCost < 0) errors.push(`${label}: unit cost can't be negative`);
+	});
+	const years = input.years ?? 1;
+	if (!Number.isInteger(years) || years < 1 || years > MAX_YEARS) errors.push(`years must be a whole number from 1 to ${MAX_YEARS}`);
+	for (const [name, rate] of [['escalationRate', input.escalationRate], ['indirectRate', input.indirectRate], ['indirectCap', input.indirectCap]] as const) {
+		if (rate !== undefined && (!Number.isFinite(rate) || rate < 0 || rate >= 1)) errors.push(`${name} must be a fraction from 0 to 1 (0.10 = 10%)`);
+	}
+	if (input.indirectBase && !['direct', 'mtdc'].includes(input.indirectBase)) errors.push('indirectBase must be direct or mtdc');
+	for (const alloc of input.siteAllocations || []) {
+		if (!alloc.site?.trim() || !Number.isFinite(alloc.share) || alloc.share < 0) {
+			errors.push('each site allocation needs a site name and a non-negative share');
+			break;
+		}
+	}
+	return errors;
+}
+
+/** Equal shares across the given sites — the default when a budget has none. */
+export function equalSiteAllocations(sites: string[]): SiteAllocation[] {
+	return sites.map(site => ({ site, share: 1 }));
+}
+
+/** Price the line items into a budget table. Throws on invalid input. */
+export function buildBudget(input: BudgetInput): BudgetTable {
+	const errors = validateBudget(input);
+	if (errors.length > 0) throw new Error(`Invalid budget: ${errors.join('; ')}`);
+
+	const years = input.years ?? 1;
+	const escalationRate = input.escalationRate ?? DEFAULT_ESCALATION_RATE;
+
+	const lines: BudgetLine[] = input.lineItems.map((item) => {
+		const category = item.category as BudgetCategory;
+		const oneTime = item.oneTime ?? category === 'equipment';
+		const base = item.quantity * item.unitCost;
+		const yearly = Array.from({ length: years }, (_, y) => {
+			if (oneTime && y > 0) return 0;
+			return Math.round(base * Math.pow(1 + escalationRate, y));
+		});
+		return {
+			category,
+			description: item.description.trim(),
+			quantity: item.quantity,
+			unit: item.unit?.trim() || 'each',
+			unitCost: item.unitCost,
+			site: item.site?.trim() || undefined,
+			oneTime,
+			yearly,
+			total: yearly.reduce((a, b) => a + b, 0),
+		};
+	});
+
+	const categories = BUDGET_CATEGORIES
+		.map(category => ({ category, ...sumAmounts(lines.filter(l => l.category === category), years) }))
+		.filter(c => c.total > 0);
+	const direct = sumAmounts(lines, years);
+
+	// Indirect — MTDC leaves equipment out of the base
+	const requestedRate = input.indirectRate ?? 0;
+	const rate = input.indirectCap !== undefined ? Math.min(requestedRate, input.indirectCap) : requestedRate;
+	const base = input.indirectBase ?? 'direct';
+	const indirectBase = sumAmounts(base === 'mtdc' ? lines.filter(l => l.category !== 'equipment') : lines, years);
+	const indirectYearly = indirectBase.yearly.map(amount => Math.round(amount * rate));
+	const indirect = {
+		yearly: indirectYearly,
+		total: indirectYearly.reduce((a, b) => a + b, 0),
+		rate,
+		base,
+		capped: rate < requestedRate,
+	};
+
+	const grandTotal = sumAmounts([direct, indirect], years);
+
+	// Program sites — pinned lines go to their site, shared lines split by
+	// share (evenly when no site has a share, e.g. sites known only from pins)
+	const allocations = [...(input.siteAllocations || [])].map(a => ({ site: a.site.trim(), share: a.share }));
+	for (const line of lines) {
+		if (line.site && !allocations.some(a => a.site === line.site)) allocations.push({ site: line.site, share: 0 });
+	}
+	let sites: BudgetTable['sites'] = [];
+	if (allocations.length > 0) {
+		const shareTotal = allocations.reduce((sum, a) => sum + a.share, 0);
+		const weights = allocations.map(a => (shareTotal > 0 ? a.share : 1));
+		const siteDirect = allocations.map(() => Array.from({ length: years }, () => 0));
+		for (const line of lines) {
+			line.yearly.forEach((amount, y) => {
+				const parts = line.site
+					? allocations.map(a => (a.site === line.site ? amount : 0))
+					: splitAmount(amount, weights);
+				parts.forEach((part, s) => { siteDirect[s]![y]! += part; });
+			});
+		}
+		const siteIndirect = allocations.map(() => Array.from({ length: years }, () => 0));
+		indirect.yearly.forEach((amount, y) => {
+			splitAmount(amount, siteDirect.map(d => d[y]!)).forEach((part, s) => { siteIndirect[s]![y] = part; });
+		});
+		const totalWeight = weights.reduce((a, b) => a + b, 0);
+		sites = allocations.map((a, s) => {
+			const yearly = siteDirect[s]!.map((amount, y) => amount + siteIndirect[s]![y]!);
+			return {
+				site: a.site,
+				share: weights[s]! / totalWeight,
+				yearly,
+				total: yearly.reduce((x, v) => x + v, 0),
+			};
+		});
+
+		const siteSum = sites.reduce((sum, site) => sum + site.total, 0);
+		if (siteSum !== grandTotal.total) {
+			throw new Error(`Site breakdown (${formatDollars(siteSum)}) doesn't add up to the budget total (${formatDollars(grandTotal.total)})`);
+		}
+	}
+
+	return { years, escalationRate, lines, categories, direct, indirect, grandTotal, sites };
+}
+
+/** The budget as markdown tables: line items by category, then sites. */
+export function formatBudgetTable(table: BudgetTable): string {
+	const yearCols = table.years > 1 ? Array.from({ length: table.years }, (_, y) => `Year ${y + 1}`) : [];
+	const amountCells = (amounts: BudgetAmounts) =>
+		table.years > 1 ? [...amounts.yearly.map(formatDollars), formatDollars(amounts.total)] : [formatDollars(amounts.total)];
+	const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+	const header = ['Line item', 'Basis', ...yearCols, 'Total'];
+
+	const out: string[] = [row(header), row(header.map(() => '---'))];
+	for (const category of table.categories) {
+		for (const line of table.lines.filter(l => l.category === category.category)) {
+			const basis = `${line.quantity.toLocaleString('en-US')} ${line.unit} × ${formatDollars(line.unitCost)}${line.oneTime ? ' (one-time)' : ''}${line.site ? ` — ${line.site}` : ''}`;
+			out.push(row([line.description, basis, ...amountCells(line)]));
+		}
+		out.push(row([`**${CATEGORY_LABELS[category.category]} subtotal**`, '', ...amountCells(category).map(c => `**${c}**`)]));
+	}
+	out.push(row(['**Total direct costs**', '', ...amountCells(table.direct).map(c => `**${c}**`)]));
+	if (table.indirect.total > 0) {
+		const basis = `${formatRate(table.indirect.rate)} of ${table.indirect.base === 'mtdc' ? 'modified total direct costs' : 'total direct costs'}${table.indirect.capped ? ' (funder cap)' : ''}`;
+		out.push(row(['Indirect costs', basis, ...amountCells(table.indirect)]));
+	}
+	out.push(row(['**Total request**', '', ...amountCells(table.grandTotal).map(c => `**${c}**`)]));
+
+	if (table.sites.length > 0) {
+		const siteHeader = ['Program site', 'Share of shared costs', ...yearCols, 'Total'];
+		out.push('', row(siteHeader), row(siteHeader.map(() => '---')));
+		for (const site of table.sites) out.push(row([site.site, formatRate(site.share), ...amountCells(site)]));
+	}
+	if (table.years > 1 && table.escalationRate > 0) {
+		out.push('', `Recurring costs increase ${formatRate(table.escalationRate)} a year from year 2.`);
+	}
+	return out.join('\n');
+}
+
+// --- Checking ---
+
+/** Dollar amounts in text: "$12,500", "$45K", "$1.2 million". */
+function extractDollarAmounts(text: string): Array<{ raw: string; value: number; tolerance: number }> {
+	const amounts: Array<{ raw: string; value: number; tolerance: number }> = [];
+	for (const m of text.matchAll(/\$\s?(\d[\d,]*(?:\.\d+)?)\s?(k|K|thousand|m|M|million)?\b/g)) {
+		const n = parseFloat(m[1]!.replace(/,/g, ''));
+		if (!Number.isFinite(n)) continue;
+		const suffix = (m[2] || '').toLowerCase();
+		const scale = suffix.startsWith('m') ? 1_000_000 : suffix.startsWith('k') || suffix === 'thousand' ? 1_000 : 1;
+		// "$45K" may round any figure from $44,500 up to $45,499
+		const decimals = m[1]!.includes('.') ? m[1]!.split('.')[1]!.length : 0;
+		const tolerance = scale === 1 ? 1 : (scale / Math.pow(10, decimals)) / 2;
+		amounts.push({ raw: m[0].trim(), value: n * scale, tolerance });
+	}
+	return amounts;
+}
+
+/** "$10,000 - $25,000", "$5K-$25K", "Up to $50,000", "$100,000+" → bounds. */
+export function parseFundingRange(range: string): FundingRange | null {
+	const amounts = extractDollarAmounts(range).map(a => a.value);
+	if (amounts.length === 0) return null;
+	if (amounts.length >= 2) return { min: Math.min(...amounts), max: Math.max(...amounts) };
+	const value = amounts[0]!;
+	if (/up to|max|under|less than|no more than/i.test(range)) return { max: value };
+	if (/\+|min|at least|over|more than/i.test(range)) return { min: value };
+	return { min: value, max: value };
+}
+
+/**
+ * Whether the budget total falls within the funder's range (undefined
+ * when the range can't be read), with the problem spelled out when not.
+ */
+export function checkFundingRange(table: BudgetTable, fundingRange: string): { withinRange?: boolean; issue?: string } {
+	const range = parseFundingRange(fundingRange);
+	if (!range) return {};
+	const total = table.grandTotal.total;
+	const fits = (amount: number) => (range.min === undefined || amount >= range.min) && (range.max === undefined || amount <= range.max);
+	if (fits(total)) return { withinRange: true };
+
+	const annual = Math.round(total / table.years);
+	const side = range.max !== undefined && total > range.max ? 'above' : 'below';
+	return {
+		withinRange: false,
+		issue: `The total request (${formatDollars(total)}) is ${side} the funder's range (${fundingRange})`
+			+ (table.years > 1 && fits(annual) ? ` — the annual average (${formatDollars(annual)}) fits, so check whether the range is per year` : ''),
+	};
+}
+
+/**
+ * Hold a narrative to its budget table: it must state the total, every
+ * dollar figure in it must appear in the table, and the total must fall
+ * within the funder's range. `askAmount` is flagged when it disagrees
+ * with the table.
+ */
+export function checkBudgetNarrative(
+	table: BudgetTable,
+	narrative: string,
+	options: { fundingRange?: string; askAmount?: number } = {},
+): BudgetCheck {
+	const issues: string[] = [];
+	const total = table.grandTotal.total;
+
+	const known = new Set<number>([
+		total, table.direct.total, table.indirect.total,
+		...table.grandTotal.yearly, ...table.direct.yearly, ...table.indirect.yearly,
+		...table.categories.flatMap(c => [c.total, ...c.yearly]),
+		...table.lines.flatMap(l => [l.total, l.unitCost, ...l.yearly]),
+		...table.sites.flatMap(s => [s.total, ...s.yearly]),
+	]);
+	const matchesTable = (value: number, tolerance: number) => [...known].some(k => Math.abs(k - value) <= tolerance);
+
+	const amounts = extractDollarAmounts(narrative);
+	const statesTotal = amounts.some(a => Math.abs(a.value - total) <= a.tolerance);
+	if (!statesTotal) {
+		issues.push(`The narrative never states the total request (${formatDollars(total)})`);
+	}
+	const unmatched = [...new Set(amounts.filter(a => !matchesTable(a.value, a.tolerance)).map(a => a.raw))];
+	if (unmatched.length > 0) {
+		issues.push(`The narrative cites ${unmatched.join(', ')}, which ${unmatched.length === 1 ? "isn't" : "aren't"} in the budget table`);
+	}
+
+	if (options.askAmount !== undefined && Math.abs(options.askAmount - total) > 1) {
+		issues.push(`The ask amount (${formatDollars(options.askAmount)}) doesn't match the budget total (${formatDollars(total)})`);
+	}
+
+	const range = options.fundingRange ? checkFundingRange(table, options.fundingRange) : {};
+	if (range.issue) issues.push(range.issue);
+
+	return {
+		fundingRange: options.fundingRange,
+		withinRange: range.withinRange,
+		figuresMatch: statesTotal && unmatched.length === 0,
+		issues,
+	};
+}
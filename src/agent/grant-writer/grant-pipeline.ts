@@ -0,0 +1,416 @@
+/**
+ * Grant Pipeline — tracked grant opportunities, from prospect to decision
+ *
+ * grant-writer `search` returns opportunities the UI used to show once and
+ * discard. Tracking one saves it here with a stage, an owner, a parsed
+ * deadline, the search's calendar items for that grant as milestones, and
+ * every `write` draft generated against it (write mode takes a pipelineId).
+ *
+ * Stages:
+ *   prospect → researching → loi_drafted → submitted → awarded | declined
+ * Any stage can be set by hand; an LOI draft advances a prospect or
+ * researching grant to loi_drafted on its own.
+ *
+ * Dedup: grants are matched on a normalized funder name plus program name,
+ * so tracking the same grant twice returns the existing record, and search
+ * results are annotated as `tracked` (this program) or `known-funder` (a
+ * different program from a funder already in the pipeline) instead of
+ * surfacing as new.
+ *
+ * Grants live in the Supabase grant_pipeline table when Supabase is
+ * configured (see docs/grant_pipeline_schema.sql), else in a JSON file on
+ * the persistent volume.
+ *
+ * File: src/agent/grant-writer/grant-pipeline.ts
+ */
+
+import { createVersionedFileStore, persistentPath } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+
+// --- Types ---
+
+export type GrantStage = 'prospect' | 'researching' | 'loi_drafted' | 'submitted' | 'awarded' | 'declined';
+
+/** One result from grant-writer search mode. */
+export interface GrantOpportunity {
+	funderName: string;
+	grantProgramName: string;
+	description: string;
+	eligibility: string;
+	fundingRange: string;
+	deadline: string;
+	deadlineType: string;     // 'fixed' | 'rolling' | 'LOI-first' | 'by-invitation'
+	alignmentScore: number;
+	alignmentReason: string;
+	category: string;
+	website?: string;
+	applicationUrl?: string;
+	contactInfo?: string;
+	tips: string;
+	priority: string;
+}
+
+export interface GrantMilestone {
+	date: string;
+	action: string;
+}
+
+export interface GrantDraft {
+	id: string;
+	grantType: string;
+	content: string;
+	wordCount: number;
+	createdAt: string;
+}
+
+export interface GrantStageChange {
+	stage: GrantStage;
+	at: string;
+	note?: string;
+}
+
+export interface PipelineGrant {
+	id: string;
+	funderKey: string;
+	programKey: string;
+	opportunity: GrantOpportunity;
+	stage: GrantStage;
+	owner?: string;
+	deadline: string;
+	deadlineType: string;
+	/** YYYY-MM-DD when `deadline` names a date or month; absent for rolling/unknown. */
+	deadlineDate?: string;
+	milestones: GrantMilestone[];
+	drafts: GrantDraft[];
+	notes?: string;
+	stageHistory: GrantStageChange[];
+	createdAt: string;
+	updatedAt: string;
+	version: number;
+}
+
+/** How a search result relates to the pipeline. */
+export interface PipelineMatch {
+	id: string;
+	stage: GrantStage;
+	match: 'tracked' | 'known-funder';
+}
+
+// --- Config ---
+
+export const GRANT_STAGES: GrantStage[] = ['prospect', 'researching', 'loi_drafted', 'submitted', 'awarded', 'declined'];
+
+const MAX_DRAFTS = 20;
+
+const PIPELINE_FILE_PATH = persistentPath('grant-pipeline.json');
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Trailing words that vary between mentions of the same funder
+const FUNDER_SUFFIXES = new Set(['foundation', 'fund', 'inc', 'incorporated', 'corporation', 'corp', 'trust', 'org', 'the']);
+
+// --- Matching & parsing ---
+
+/** "The Ford Foundation, Inc." and "Ford Foundation" → "ford". */
+export function normalizeFunderName(name: string): string {
+	const words = name.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9 ]+/g, ' ').split(/\s+/).filter(Boolean);
+	if (words[0] === 'the') words.shift();
+	while (words.length > 1 && FUNDER_SUFFIXES.has(words[words.length - 1]!)) words.pop();
+	return words.join(' ');
+}
+
+function normalizeProgramName(name: string): string {
+	return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, '0');
+}
+
+/**
+ * Best-effort date from the model's deadline text: "2026-03-15",
+ * "March 15, 2026", "March 2026" (→ the 1st, the earliest it could be) or
+ * "Typically March — verify" (→ the next March). Month names match as
+ * whole words only, and "may" only with a day or year after it, so
+ * "Deadline may vary" has no date. Undefined for rolling and
+ * by-invitation grants or text without a month.
+ */
+export function parseGrantDeadline(deadline: string, deadlineType: string, now: Date = new Date()): string | undefined {
+	const type = deadlineType.toLowerCase();
+	if (type === 'rolling' || type === 'by-invitation') return undefined;
+
+	const text = deadline.toLowerCase();
+	const iso = /(\d{4})-(\d{2})-(\d{2})/.exec(text);
+	if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+	// Earliest month mention: "March", "Mar." or "Sept", then an optional day and year
+	let found: { monthIndex: number; at: number; day?: string } | undefined;
+	for (const [monthIndex, month] of MONTHS.entries()) {
+		const names = month === 'september' ? 'september|sept|sep' : `${month}|${month.slice(0, 3)}`;
+		const pattern = new RegExp(`\\b(?:${names})\\b\\.?(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b)?(,?\\s+20\\d{2}\\b)?`, 'g');
+		for (const match of text.matchAll(pattern)) {
+			if (month === 'may' && !match[1] && !match[2]) continue;
+			if (!found || match.index! < found.at) found = { monthIndex, at: match.index!, day: match[1] };
+			break;
+		}
+	}
+	if (!found) return undefined;
+	const { monthIndex } = found;
+
+	const year = /\b(20\d{2})\b/.exec(text);
+	let resolvedYear = year ? parseInt(year[1]!, 10) : now.getFullYear();
+	const dayOfMonth = found.day ? Math.min(31, parseInt(found.day, 10)) : 1;
+	// No year given: the next occurrence of that month
+	if (!year && (monthIndex < now.getMonth() || (monthIndex === now.getMonth() && dayOfMonth < now.getDate()))) {
+		resolvedYear += 1;
+	}
+	return `${resolvedYear}-${pad(monthIndex + 1)}-${pad(dayOfMonth)}`;
+}
+
+// --- Storage ---
+
+interface PipelineBackend {
+	list(filter?: { stage?: GrantStage; owner?: string }): Promise<PipelineGrant[]>;
+	get(id: string): Promise<PipelineGrant | null>;
+	/** Write `grant` if the stored version still equals `expectedVersion` (0 = insert). */
+	write(grant: PipelineGrant, expectedVersion: number): Promise<boolean>;
+}
+
+function createFilePipelineBackend(): PipelineBackend {
+	const store = createVersionedFileStore<PipelineGrant>(PIPELINE_FILE_PATH, 'grant-pipeline');
+
+	return {
+		async list(filter = {}) {
+			return store.read().filter(grant =>
+				(!filter.stage || grant.stage === filter.stage)
+				&& (!filter.owner || grant.owner === filter.owner));
+		},
+		async get(id) {
+			return store.get(id);
+		},
+		async write(grant, expectedVersion) {
+			return store.write(grant, expectedVersion);
+		},
+	};
+}
+
+function createSupabasePipelineBackend(): PipelineBackend {
+	const toRow = (grant: PipelineGrant) => ({
+		id: grant.id,
+		funder_key: grant.funderKey,
+		program_key: grant.programKey,
+		stage: grant.stage,
+		owner: grant.owner ?? null,
+		deadline_date: grant.deadlineDate ?? null,
+		item: grant,
+		version: grant.version,
+		updated_at: grant.updatedAt,
+	});
+
+	return {
+		async list(filter = {}) {
+			let query = supabaseAdmin.from('grant_pipeline').select('item');
+			if (filter.stage) query = query.eq('stage', filter.stage);
+			if (filter.owner) query = query.eq('owner', filter.owner);
+			const { data, error } = await query;
+			if (error) throw new Error(`grant_pipeline read failed: ${error.message}`);
+			return (data || []).map(row => row.item as PipelineGrant);
+		},
+		async get(id) {
+			const { data, error } = await supabaseAdmin
+				.from('grant_pipeline')
+				.select('item')
+				.eq('id', id)
+				.maybeSingle();
+			if (error) throw new Error(`grant_pipeline read failed: ${error.message}`);
+			return (data?.item as PipelineGrant | undefined) ?? null;
+		},
+		async write(grant, expectedVersion) {
+			if (expectedVersion === 0) {
+				const { error } = await supabaseAdmin.from('grant_pipeline').insert(toRow(grant));
+				if (error?.code === '23505') return false;
+				if (error) throw new Error(`grant_pipeline insert failed: ${error.message}`);
+				return true;
+			}
+			const { data, error } = await supabaseAdmin
+				.from('grant_pipeline')
+				.update(toRow(grant))
+				.eq('id', grant.id)
+				.eq('version', expectedVersion)
+				.select('id');
+			if (error) throw new Error(`grant_pipeline update failed: ${error.message}`);
+			return (data || []).length > 0;
+		},
+	};
+}
+
+let _backend: PipelineBackend | null = null;
+
+function getPipelineBackend(): PipelineBackend {
+	if (!_backend) {
+		_backend = supabaseAdmin ? createSupabasePipelineBackend() : createFilePipelineBackend();
+	}
+	return _backend;
+}
+
+/**
+ * Read-modify-write with the version check. `mutate` returns null to
+ * leave the grant alone. Retries a few times if another writer won.
+ */
+async function mutateGrant(
+	id: string,
+	mutate: (grant: PipelineGrant) => PipelineGrant | null,
+): Promise<PipelineGrant | null> {
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const current = await getPipelineBackend().get(id);
+		if (!current) return null;
+		const next = mutate(structuredClone(current));
+		if (!next) return null;
+		next.version = current.version + 1;
+		next.updatedAt = new Date().toISOString();
+		if (await getPipelineBackend().write(next, current.version)) return next;
+	}
+	throw new Error(`Pipeline grant ${id} is being updated elsewhere — try again`);
+}
+
+function setStage(grant: PipelineGrant, stage: GrantStage, note?: string): void {
+	if (grant.stage === stage) return;
+	grant.stage = stage;
+	grant.stageHistory = [...grant.stageHistory, { stage, at: new Date().toISOString(), note }];
+}
+
+// --- Public API ---
+
+/** Grants with a deadline first (soonest first), then the rest by last update. */
+export async function listPipelineGrants(
+	filter: { stage?: GrantStage; owner?: string } = {},
+): Promise<PipelineGrant[]> {
+	const grants = await getPipelineBackend().list(filter);
+	return grants.sort((a, b) => {
+		if (a.deadlineDate && b.deadlineDate) return a.deadlineDate.localeCompare(b.deadlineDate);
+		if (a.deadlineDate) return -1;
+		if (b.deadlineDate) return 1;
+		return b.updatedAt.localeCompare(a.updatedAt);
+	});
+}
+
+export async function getPipelineGrant(id: string): Promise<PipelineGrant | null> {
+	return getPipelineBackend().get(id);
+}
+
+/**
+ * Save a search result to the pipeline. When the same funder + program is
+ * already tracked, returns that grant (`existing: true`) untouched.
+ * `milestones` are the search's calendarItems for this grant.
+ */
+export async function trackGrantOpportunity(
+	opportunity: GrantOpportunity,
+	options: { owner?: string; stage?: GrantStage; milestones?: GrantMilestone[]; notes?: string } = {},
+): Promise<{ grant: PipelineGrant; existing: boolean }> {
+	if (!opportunity?.funderName || !opportunity.grantProgramName) {
+		throw new Error('opportunity.funderName and opportunity.grantProgramName are required');
+	}
+	if (options.stage && !GRANT_STAGES.includes(options.stage)) {
+		throw new Error(`stage must be one of: ${GRANT_STAGES.join(', ')}`);
+	}
+
+	const funderKey = normalizeFunderName(opportunity.funderName);
+	const programKey = normalizeProgramName(opportunity.grantProgramName);
+	const findTracked = async () => (await getPipelineBackend().list())
+		.find(g => g.funderKey === funderKey && g.programKey === programKey);
+	const existing = await findTracked();
+	if (existing) return { grant: existing, existing: true };
+
+	const now = new Date().toISOString();
+	const stage = options.stage || 'prospect';
+	const grant: PipelineGrant = {
+		id: `grant_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		funderKey,
+		programKey,
+		opportunity,
+		stage,
+		owner: options.owner || undefined,
+		deadline: opportunity.deadline || '',
+		deadlineType: opportunity.deadlineType || '',
+		deadlineDate: parseGrantDeadline(opportunity.deadline || '', opportunity.deadlineType || ''),
+		milestones: (options.milestones || []).filter(m => m.date && m.action),
+		drafts: [],
+		notes: options.notes || undefined,
+		stageHistory: [{ stage, at: now }],
+		createdAt: now,
+		updatedAt: now,
+		version: 1,
+	};
+	if (!(await getPipelineBackend().write(grant, 0))) {
+		// Someone tracked the same grant between our check and insert (unique funder + program)
+		const raced = await findTracked();
+		if (raced) return { grant: raced, existing: true };
+		throw new Error(`Could not save ${opportunity.funderName} — try again`);
+	}
+	console.log(`[grant-pipeline] Tracking ${grant.id}: ${opportunity.funderName} — ${opportunity.grantProgramName}`);
+	return { grant, existing: false };
+}
+
+/** Move a grant between stages, reassign it, or fix its deadline/notes. */
+export async function updatePipelineGrant(
+	id: string,
+	changes: { stage?: GrantStage; owner?: string; notes?: string; deadline?: string; deadlineType?: string; stageNote?: string },
+): Promise<PipelineGrant | null> {
+	if (changes.stage && !GRANT_STAGES.includes(changes.stage)) {
+		throw new Error(`stage must be one of: ${GRANT_STAGES.join(', ')}`);
+	}
+	return mutateGrant(id, (grant) => {
+		if (changes.stage) setStage(grant, changes.stage, changes.stageNote);
+		if (changes.owner !== undefined) grant.owner = changes.owner || undefined;
+		if (changes.notes !== undefined) grant.notes = changes.notes || undefined;
+		if (changes.deadline !== undefined || changes.deadlineType !== undefined) {
+			grant.deadline = changes.deadline ?? grant.deadline;
+			grant.deadlineType = changes.deadlineType ?? grant.deadlineType;
+			grant.deadlineDate = parseGrantDeadline(grant.deadline, grant.deadlineType);
+		}
+		return grant;
+	});
+}
+
+/**
+ * Attach a write-mode draft to a grant (newest last, capped at MAX_DRAFTS).
+ * An LOI moves a prospect or researching grant to loi_drafted.
+ */
+export async function linkGrantDraft(
+	id: string,
+	draft: { grantType: string; content: string; wordCount: number },
+): Promise<PipelineGrant | null> {
+	return mutateGrant(id, (grant) => {
+		const now = new Date().toISOString();
+		grant.drafts = [...grant.drafts, {
+			id: `draft_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+			grantType: draft.grantType,
+			content: draft.content,
+			wordCount: draft.wordCount,
+			createdAt: now,
+		}].slice(-MAX_DRAFTS);
+		if (draft.grantType === 'loi' && (grant.stage === 'prospect' || grant.stage === 'researching')) {
+			setStage(grant, 'loi_drafted', 'LOI drafted');
+		}
+		return grant;
+	});
+}
+
+/**
+ * Pipeline status for each search result, index-aligned: the tracked grant
+ * for that funder + program, else any tracked grant from the same funder,
+ * else null (new).
+ */
+export async function matchSearchResults(opportunities: GrantOpportunity[]): Promise<Array<PipelineMatch | null>> {
+	if (opportunities.length === 0) return [];
+	const grants = await getPipelineBackend().list();
+	return opportunities.map((opportunity) => {
+		const funderKey = normalizeFunderName(opportunity.funderName || '');
+		const programKey = normalizeProgramName(opportunity.grantProgramName || '');
+		const sameFunder = grants.filter(g => g.funderKey === funderKey);
+		const tracked = sameFunder.find(g => g.programKey === programKey);
+		if (tracked) return { id: tracked.id, stage: tracked.stage, match: 'tracked' as const };
+		const known = sameFunder[0];
+		return known ? { id: known.id, stage: known.stage, match: 'known-funder' as const } : null;
+	});
+}
@@ -3,55 +3,78 @@
  * Two modes:
  *   1. grant-search — Researches and finds grants with upcoming deadlines that fit CLC
  *   2. grant-write  — Generates grant proposals, LOIs, and funding narratives in Kimberly's voice
+ *
+ * Search results are checked against the grant pipeline (grant-pipeline.ts)
+ * so grants already being tracked come back marked, not as new; a write with
+ * a pipelineId is saved as a draft on that grant.
+ *
+ * CLC's facts come from the organization profile (src/lib/org-profile.ts);
+ * impact metrics past their max age are listed in a draft's missingInfo.
+ * Required sections with an approved answer in the answer library
+ * (answer-library.ts) are adapted from it rather than written from scratch.
+ * An `applicationTemplate` parsed from the funder's RFP (rfp-parser.ts)
+ * turns each question into a section held to its word or character limit.
+ * A line-item `budget` (grant-budget.ts) sets the ask; the draft's dollar
+ * figures are checked against its table and the funder's funding range.
  */
 
 import { createAgent } from '@agentuity/runtime';
 import { s } from '@agentuity/schema';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
-import { systemPrompt } from '../content-creator/kimberly-voice';
+import { voiceSystemPrompt } from '../content-creator/kimberly-voice';
+import {
+	describeStaleMetrics,
+	executiveDirector,
+	formatOrgFacts,
+	getMetric,
+	loadOrgProfile,
+	type OrganizationProfile,
+} from '../../lib/org-profile';
+import {
+	matchLibraryAnswers,
+	normalizeSectionTitle,
+	recordAnswerUse,
+	type AnswerMatch,
+} from './answer-library';
+import {
+	getPipelineGrant,
+	linkGrantDraft,
+	matchSearchResults,
+	type GrantOpportunity,
+	type PipelineMatch,
+} from './grant-pipeline';
+import {
+	buildBudget,
+	checkBudgetNarrative,
+	equalSiteAllocations,
+	formatBudgetTable,
+	formatDollars,
+	type BudgetCheck,
+	type BudgetTable,
+	type IndirectBase,
+} from './grant-budget';
+import {
+	formatLimit,
+	limitTargetWords,
+	measureText,
+	truncateToLimit,
+	type ResponseLimit,
+	type RfpQuestion,
+} from './rfp-parser';
 
 // ---------------------------------------------------------------------------
-// CLC profile — shared by search and write modes
+// CLC profile — shared by search and write modes, rendered from the
+// organization profile (src/lib/org-profile.ts)
 // ---------------------------------------------------------------------------
 
-const CLC_PROFILE = `
-Community Literacy Club (CLC) — Organization Profile for Grant Matching
-
-**EIN:** [On file]
-**Founded:** Hempstead, Long Island, NY
-**Executive Director:** Kimberly Gordon
-**Annual Budget:** Under $500K (emerging nonprofit)
-**Service Area:** Nassau County (Hempstead, Long Beach), Westchester County, Brooklyn NY, Newark NJ, Connecticut
-
-**Mission:** CLC meets kids where they are — bringing tennis, chess, and life skills to underserved youth in unconventional spaces (gyms, community centers, rec rooms, libraries). We prepare young people to handle difficult decisions, weigh consequences, and create real possibilities for themselves.
-
-**Programs:**
-• Youth Program (ages 6-19): Tennis instruction, chess, foundational life skills
-• Teen Leadership Track (ages 13-19): Leadership development, peer mentorship, alumni coaching pipeline
-• Young Adult Track (ages 20-26): Job readiness, career placement, workforce development
-• SAT/ACT/PSAT Prep: Test preparation access regardless of zip code
-• Summer enrichment programming
-
-**Impact Numbers:**
-• 400+ youth served annually
-• 84% program retention rate
-• 3 program tracks across 5+ locations in NY, NJ, CT
-• Alumni return as coaches — sustainable leadership pipeline
-
-**Key Differentiators:**
-• Unconventional spaces model (no facility overhead)
-• Dual-discipline approach: physical (tennis) + mental (chess) = whole-child development
-• Deeply community-embedded — Kimberly knows every kid by name
-• Alumni-to-coach pipeline = built-in sustainability
-• Serving communities with historically limited access to racquet sports
-
-**Alignment Keywords:**
-youth development, education equity, sports-based youth development, STEM (chess = strategic thinking),
-workforce development, community development, racial equity, afterschool programming,
-mentorship, leadership development, social-emotional learning, health & wellness,
-underserved communities, minority-serving, out-of-school time, college readiness
+function buildClcProfile(profile: OrganizationProfile): string {
+	return `
+${profile.name} (${profile.shortName}) — Organization Profile for Grant Matching
+
+${formatOrgFacts(profile, { differentiators: true, focusAreas: true })}
 `;
+}
 
 // ---------------------------------------------------------------------------
 // Grant categories CLC should target
@@ -116,26 +139,29 @@ const GRANT_CATEGORIES = `
 // Grant-specific writing prompt extension
 // ---------------------------------------------------------------------------
 
-const grantWriterPrompt = `
-${systemPrompt}
+function buildGrantWriterPrompt(profile: OrganizationProfile): string {
+	const served = getMetric(profile, 'youth_served');
+	const retention = getMetric(profile, 'retention_rate');
+	return `
+${voiceSystemPrompt(profile)}
 
 ---
 
 ## GRANT WRITING GUIDELINES
 
-You are now writing grant proposals and funding requests for Community Literacy Club. The voice should still be Kimberly's — authentic, grounded, and specific — but adapted for the formal requirements of grant writing.
+You are now writing grant proposals and funding requests for ${profile.name}. The voice should still be Kimberly's — authentic, grounded, and specific — but adapted for the formal requirements of grant writing.
 
 ### Key Principles for Grant Writing
 
 1. **Lead with Impact, Not Need**
    - Funders want to invest in solutions, not problems
    - Show what's working and why it should scale
-   - "We serve 400+ kids with 84% retention" not "Kids in underserved communities lack access"
+   - "${served && retention ? `We serve ${served.value} kids with ${retention.value} retention` : 'We serve [number] kids with [rate] retention'}" not "Kids in underserved communities lack access"
 
 2. **Be Specific**
    - Use real numbers: students served, retention rates, locations
    - Name specific programs: Tennis, Chess, SAT Prep, Teen Leadership Track
-   - Mention specific communities: Hempstead, Long Beach, Brooklyn, Westchester, Newark NJ, Connecticut
+   - Mention specific communities: ${profile.sites.filter(site => site.active).map(site => site.name).join(', ')}
 
 3. **Tell Stories That Prove the Model**
    - Brief case studies of real impact (anonymized if needed)
@@ -185,35 +211,122 @@ You are now writing grant proposals and funding requests for Community Literacy
 
 ## CLC FACTS FOR GRANT WRITING
 
-### Impact Numbers
-- 400+ kids served annually
-- 84% retention rate
-- 3 program tracks (Youth 6-19, Teen Leadership 13-19, Young Adult 20-26)
-- 5+ locations across NY, NJ, and CT
+${formatOrgFacts(profile, { differentiators: true })}
 
-### Programs
+### Program Approach
 - Tennis instruction (unconventional spaces — gyms, community centers, rec rooms)
 - Chess instruction (critical thinking, patience, decision-making)
-- SAT/ACT/PSAT prep
-- Teen leadership development
-- Young adult career readiness and job placement
-
-### Differentiators
-- Meet kids where they are — literally and figuratively
-- Alumni become coaches (we grow our own leaders)
 - Tennis teaches conflict resolution and competing with grace
 - Chess teaches stopping to think before acting
 - Combined approach builds both physical and mental discipline
 
-### Geographic Focus
-- Hempstead, Long Beach, Brooklyn, Westchester (NY)
-- Newark (NJ)
-- Connecticut
-
 ---
 
 When writing grants, always reference these real facts. Never invent statistics or programs. If you need information not provided here, note what would be needed and write around it.
 `;
+}
+
+// ---------------------------------------------------------------------------
+// Answer library — approved section texts reused in write mode
+// ---------------------------------------------------------------------------
+
+const DEFAULT_SECTION_WORDS = 250;
+
+// Heading for answers to the funder's questions when every required
+// section came from the library
+const FUNDER_QUESTIONS_SECTION = 'Responses to Funder Questions';
+
+/**
+ * Fit an approved library answer to this application: same facts, emphasis
+ * toward the funder, near the target length. Used as-is when there is no
+ * funder to tailor to and the variant is already about the right length.
+ */
+async function adaptLibraryAnswer(
+	match: AnswerMatch,
+	context: { funderName?: string; funderFocus?: string; targetWords: number; profile: OrganizationProfile },
+): Promise<{ text: string; adapted: boolean }> {
+	const lengthOff = Math.abs(match.length - context.targetWords) / context.targetWords > 0.2;
+	if (!context.funderName && !context.funderFocus && !lengthOff) {
+		return { text: match.text, adapted: false };
+	}
+
+	const { text } = await generateText({
+		model: openai('gpt-5-mini'),
+		system: buildGrantWriterPrompt(context.profile),
+		prompt: `Adapt CLC's approved "${match.section}" answer for this grant application.
+${context.funderName ? `\nFunder: ${context.funderName}` : ''}${context.funderFocus ? `\nFunder focus: ${context.funderFocus}` : ''}
+Target length: about ${context.targetWords} words.
+
+Rules:
+- Keep every fact, number, name and claim exactly as approved — add none
+- Shift emphasis toward what this funder cares about
+- If the answer is shorter than the target, leave it short rather than pad it
+- Return only the section text, no heading
+
+APPROVED ANSWER:
+${match.text}`,
+	});
+	return { text: text.trim(), adapted: true };
+}
+
+/**
+ * Split a multi-section generation into its sections by "## Title"
+ * headings, matched to the requested titles by normalized title, or by
+ * position when the model renamed them all.
+ */
+function splitGeneratedSections(text: string, titles: string[]): Map<string, string> {
+	const blocks: { heading: string; body: string[] }[] = [];
+	for (const line of text.split('\n')) {
+		const heading = /^#{1,3}\s+(.+?)\s*$/.exec(line);
+		if (heading) blocks.push({ heading: heading[1]!.replace(/\*/g, ''), body: [] });
+		else if (blocks.length > 0) blocks[blocks.length - 1]!.body.push(line);
+	}
+
+	const result = new Map<string, string>();
+	if (blocks.length === 0) {
+		if (titles.length === 1) result.set(titles[0]!, text.trim());
+		return result;
+	}
+	titles.forEach((title, i) => {
+		const key = normalizeSectionTitle(title);
+		const block = blocks.find(b => normalizeSectionTitle(b.heading) === key)
+			?? (blocks.length === titles.length ? blocks[i] : undefined);
+		const body = block?.body.join('\n').trim();
+		if (body) result.set(title, body);
+	});
+	return result;
+}
+
+// ---------------------------------------------------------------------------
+// RFP limits — per-question word / character limits from the funder's RFP
+// ---------------------------------------------------------------------------
+
+/**
+ * Hold a section to the funder's limit: one rewrite pass when it runs
+ * over, then a cut at the last sentence that fits if it still does.
+ */
+async function fitToLimit(
+	title: string,
+	text: string,
+	limit: ResponseLimit,
+	profile: OrganizationProfile,
+): Promise<{ text: string; rewritten: boolean; truncated: boolean }> {
+	const length = measureText(text, limit.unit);
+	if (length <= limit.value) return { text, rewritten: false, truncated: false };
+
+	const { text: shortened } = await generateText({
+		model: openai('gpt-5-mini'),
+		system: buildGrantWriterPrompt(profile),
+		prompt: `This answer to "${title}" is ${length.toLocaleString()} ${limit.unit}; the funder's limit is ${formatLimit(limit)}.
+Shorten it to safely under the limit. Keep the strongest facts and Kimberly's voice; cut repetition and secondary points. Add nothing new.
+Return only the answer text, no heading.
+
+${text}`,
+	});
+	const candidate = shortened.trim() || text;
+	if (measureText(candidate, limit.unit) <= limit.value) return { text: candidate, rewritten: true, truncated: false };
+	return { text: truncateToLimit(candidate, limit), rewritten: true, truncated: true };
+}
 
 // ---------------------------------------------------------------------------
 // Schema
@@ -228,13 +341,66 @@ const GRANT_TYPES = [
 	'thank-you-letter',
 ] as const;
 
+const ResponseLimitSchema = s.object({
+	value: s.number(),
+	unit: s.string(),             // 'words' | 'characters'
+});
+
+// Parsed from a funder's RFP by rfp-parser.ts (POST /api/grant-rfp)
+const ApplicationTemplateSchema = s.object({
+	funderName: s.string().optional(),
+	programName: s.string().optional(),
+	summary: s.string().optional(),
+	awardRange: s.string().optional(),
+	questions: s.array(s.object({
+		title: s.string(),
+		prompt: s.string(),
+		limit: ResponseLimitSchema.optional(),
+		required: s.boolean().optional(),
+	})),
+	eligibility: s.array(s.string()).optional(),
+	deadlines: s.array(s.object({
+		label: s.string(),
+		date: s.string(),
+		time: s.string().optional(),
+	})).optional(),
+	attachments: s.array(s.string()).optional(),
+	overallLimit: ResponseLimitSchema.optional(),
+	source: s.object({
+		kind: s.string(),
+		filename: s.string().optional(),
+	}).optional(),
+	parsedAt: s.string().optional(),
+});
+
+const BudgetSchema = s.object({
+	lineItems: s.array(s.object({
+		category: s.string(),     // personnel | coaches | equipment | venue | transportation | supplies | other
+		description: s.string(),
+		quantity: s.number(),     // units per year
+		unit: s.string().optional(),
+		unitCost: s.number(),
+		site: s.string().optional(),      // charged to one program site; otherwise shared
+		oneTime: s.boolean().optional(),  // year 1 only (default for equipment)
+	})),
+	years: s.number().optional(),
+	escalationRate: s.number().optional(), // 0.03 = 3% a year on recurring lines
+	indirectRate: s.number().optional(),   // 0.10 = 10%
+	indirectBase: s.string().optional(),   // 'direct' | 'mtdc'
+	indirectCap: s.number().optional(),    // funder's maximum indirect rate
+	siteAllocations: s.array(s.object({    // default: equal shares across active sites
+		site: s.string(),
+		share: s.number(),
+	})).optional(),
+});
+
 const AgentInput = s.object({
 	// Task type — 'search' finds grants, 'write' creates documents
 	task: s.string().optional(), // 'search' | 'write' (default: 'write' for backward compat)
 
 	// === SEARCH MODE FIELDS ===
 	searchFocus: s.string().optional(),          // e.g. 'youth development', 'education equity'
-	maxDeadlineYear: s.number().optional(),       // e.g. 2026
+	maxDeadlineYear: s.number().optional(),       // default: the current year
 	grantSizeMin: s.number().optional(),          // minimum grant amount
 	grantSizeMax: s.number().optional(),          // maximum grant amount
 	grantCategories: s.array(s.string()).optional(), // filter to specific categories
@@ -244,6 +410,7 @@ const AgentInput = s.object({
 	includeCorporate: s.boolean().optional(),     // include corporate giving
 
 	// === WRITE MODE FIELDS ===
+	pipelineId: s.string().optional(), // grant-pipeline id — fills funder fields and saves the draft there
 	grantType: s.string().optional(),  // From GRANT_TYPES
 	funderName: s.string().optional(),
 	funderFocus: s.string().optional(),
@@ -255,6 +422,9 @@ const AgentInput = s.object({
 	wordLimit: s.number().optional(),
 	specificQuestions: s.array(s.string()).optional(),
 	requiredSections: s.array(s.string()).optional(),
+	applicationTemplate: ApplicationTemplateSchema.optional(), // one section per RFP question, limits enforced
+	budget: BudgetSchema.optional(),   // line-item budget — its total is the ask
+	fundingRange: s.string().optional(), // e.g. '$10,000 - $25,000' (default: pipeline grant / RFP)
 });
 
 const GrantOpportunitySchema = s.object({
@@ -273,6 +443,11 @@ const GrantOpportunitySchema = s.object({
 	contactInfo: s.string().optional(),
 	tips: s.string(),             // specific tips for CLC's application
 	priority: s.string(),         // 'high', 'medium', 'low'
+	pipeline: s.object({          // set when the grant (or its funder) is already tracked
+		id: s.string(),
+		stage: s.string(),
+		match: s.string(),        // 'tracked' | 'known-funder'
+	}).optional(),
 });
 
 const AgentOutput = s.object({
@@ -282,6 +457,7 @@ const AgentOutput = s.object({
 	// === SEARCH RESULTS ===
 	opportunities: s.array(GrantOpportunitySchema).optional(),
 	searchSummary: s.string().optional(),
+	newCount: s.number().optional(),      // results not already in the pipeline
 	nextSteps: s.array(s.string()).optional(),
 	calendarItems: s.array(s.object({
 		date: s.string(),
@@ -294,12 +470,40 @@ const AgentOutput = s.object({
 	sections: s.array(s.object({
 		title: s.string(),
 		content: s.string(),
+		limit: ResponseLimitSchema.optional(), // the funder's limit for this question
+		length: s.number().optional(),         // content length in the limit's unit
 	})).optional(),
 	grantType: s.string().optional(),
 	wordCount: s.number().optional(),
 	estimatedReadTime: s.string().optional(),
 	suggestions: s.array(s.string()).optional(),
 	missingInfo: s.array(s.string()).optional(),
+	pipelineId: s.string().optional(),    // grant the draft was saved to
+	budget: s.object({                    // the budget table the draft was held to
+		table: s.string(),                // markdown
+		total: s.number(),
+		yearlyTotals: s.array(s.number()),
+		directTotal: s.number(),
+		indirectTotal: s.number(),
+		indirectRate: s.number(),
+		sites: s.array(s.object({
+			site: s.string(),
+			total: s.number(),
+		})),
+	}).optional(),
+	budgetCheck: s.object({
+		fundingRange: s.string().optional(),
+		withinRange: s.boolean().optional(),
+		figuresMatch: s.boolean(),        // narrative states the total and only cites table figures
+		issues: s.array(s.string()),
+	}).optional(),
+	sectionSources: s.array(s.object({   // where each required section came from
+		section: s.string(),
+		source: s.string(),               // 'library' | 'generated'
+		answerId: s.string().optional(),
+		variant: s.number().optional(),   // library variant used (100 / 250 / 500 words)
+		adapted: s.boolean().optional(),  // library text was tailored to the funder
+	})).optional(),
 
 	// Metadata
 	resultsCount: s.number(),
@@ -317,6 +521,7 @@ const agent = createAgent('grant-writer', {
 	},
 	handler: async (ctx, input) => {
 		const task = input.task || 'write';
+		const profile = await loadOrgProfile(ctx.logger);
 
 		// =====================================================================
 		// SEARCH MODE — Find grants that fit CLC with upcoming deadlines
@@ -325,7 +530,7 @@ const agent = createAgent('grant-writer', {
 			ctx.logger.info('Grant Writer: SEARCH mode — finding grants for CLC');
 
 			const searchFocus = input.searchFocus || 'youth development, education, sports';
-			const maxYear = input.maxDeadlineYear || 2026;
+			const maxYear = input.maxDeadlineYear || new Date().getFullYear();
 			const sizeMin = input.grantSizeMin;
 			const sizeMax = input.grantSizeMax;
 
@@ -336,9 +541,9 @@ const agent = createAgent('grant-writer', {
 			if (input.includeFoundation !== false) sources.push('Private Foundations');
 			if (input.includeCorporate !== false) sources.push('Corporate Giving / CSR Programs');
 
-			const searchPrompt = `You are an expert grant researcher for nonprofits. Your job is to find REAL grant opportunities that Community Literacy Club should apply for.
+			const searchPrompt = `You are an expert grant researcher for nonprofits. Your job is to find REAL grant opportunities that ${profile.name} should apply for.
 
-${CLC_PROFILE}
+${buildClcProfile(profile)}
 
 ${GRANT_CATEGORIES}
 
@@ -407,23 +612,7 @@ Return ONLY valid JSON. No markdown, no explanation outside the JSON.`;
 
 			// Parse results
 			let parsed: {
-				opportunities?: Array<{
-					funderName: string;
-					grantProgramName: string;
-					description: string;
-					eligibility: string;
-					fundingRange: string;
-					deadline: string;
-					deadlineType: string;
-					alignmentScore: number;
-					alignmentReason: string;
-					category: string;
-					website?: string;
-					applicationUrl?: string;
-					contactInfo?: string;
-					tips: string;
-					priority: string;
-				}>;
+				opportunities?: GrantOpportunity[];
 				searchSummary?: string;
 				nextSteps?: string[];
 				calendarItems?: Array<{ date: string; action: string; grant: string }>;
@@ -438,20 +627,34 @@ Return ONLY valid JSON. No markdown, no explanation outside the JSON.`;
 				ctx.logger.error('Failed to parse grant search JSON: %s', e);
 			}
 
-			const opportunities = parsed.opportunities || [];
+			// Mark grants the pipeline already tracks — a pipeline outage shouldn't fail the search
+			const found = parsed.opportunities || [];
+			let matches: Array<PipelineMatch | null> = [];
+			try {
+				matches = await matchSearchResults(found);
+			} catch (err) {
+				ctx.logger.warn('Grant pipeline lookup failed, results unmarked: %s', err instanceof Error ? err.message : String(err));
+			}
+			const opportunities = found.map((opportunity, i) => ({ ...opportunity, pipeline: matches[i] ?? undefined }));
 
-			// Sort by priority then alignment score
+			// New grants first, then by priority and alignment score
 			const priorityOrder: Record<string, number> = { high: 0, medium: 1, low: 2 };
 			opportunities.sort((a, b) => {
+				const trackedDiff = Number(a.pipeline?.match === 'tracked') - Number(b.pipeline?.match === 'tracked');
+				if (trackedDiff !== 0) return trackedDiff;
 				const pDiff = (priorityOrder[a.priority] ?? 1) - (priorityOrder[b.priority] ?? 1);
 				if (pDiff !== 0) return pDiff;
 				return b.alignmentScore - a.alignmentScore;
 			});
+			const newCount = opportunities.filter(o => !o.pipeline).length;
+			const trackedCount = opportunities.filter(o => o.pipeline?.match === 'tracked').length;
 
 			return {
 				task: 'search',
 				opportunities,
-				searchSummary: parsed.searchSummary || `Found ${opportunities.length} grant opportunities matching CLC's mission.`,
+				newCount,
+				searchSummary: (parsed.searchSummary || `Found ${opportunities.length} grant opportunities matching CLC's mission.`)
+					+ (trackedCount > 0 ? ` ${trackedCount} already in the grant pipeline.` : ''),
 				nextSteps: parsed.nextSteps || [
 					'Review high-priority grants first',
 					'Verify current deadlines on funder websites',
@@ -466,21 +669,67 @@ Return ONLY valid JSON. No markdown, no explanation outside the JSON.`;
 		// =====================================================================
 		// WRITE MODE — Generate grant documents (original behavior, enhanced)
 		// =====================================================================
-		ctx.logger.info('Grant Writer: WRITE mode — %s for %s', input.grantType || 'general', input.funderName || 'unknown');
+		// A pipeline grant fills in whatever funder details the caller left out.
+		// A pipeline outage shouldn't fail the draft — write without that context.
+		let pipelineGrant: Awaited<ReturnType<typeof getPipelineGrant>> = null;
+		if (input.pipelineId) {
+			try {
+				pipelineGrant = await getPipelineGrant(input.pipelineId);
+				if (!pipelineGrant) {
+					ctx.logger.warn('Grant Writer: pipeline grant %s not found — draft will not be saved', input.pipelineId);
+				}
+			} catch (err) {
+				ctx.logger.warn('Grant Writer: pipeline lookup for %s failed, writing without pipeline context — draft will not be saved: %s',
+					input.pipelineId, err instanceof Error ? err.message : String(err));
+			}
+		}
+		const template = input.applicationTemplate;
+		const funderName = input.funderName || pipelineGrant?.opportunity.funderName || template?.funderName;
+		const funderFocus = input.funderFocus || pipelineGrant?.opportunity.description || template?.summary;
+
+		ctx.logger.info('Grant Writer: WRITE mode — %s for %s', input.grantType || 'general', funderName || 'unknown');
 
 		const grantType = input.grantType || 'loi';
 		const {
-			funderName,
-			funderFocus,
-			askAmount,
 			projectName,
-			projectDescription = 'Community Literacy Club programs',
+			projectDescription = `${profile.name} programs`,
 			targetPopulation,
 			timeline,
-			wordLimit,
 			specificQuestions = [],
-			requiredSections = [],
 		} = input;
+		const wordLimit = input.wordLimit
+			?? (template?.overallLimit?.unit === 'words' ? template.overallLimit.value : undefined);
+
+		// An RFP template's questions become the required sections, in the
+		// funder's order, each briefed by its question and held to its limit.
+		// Questions the funder marks optional are answered only when CLC has
+		// something to say — an empty one is left out, not reported unwritten.
+		const templateQuestions = new Map<string, RfpQuestion>((template?.questions ?? []).map(q => [q.title, q]));
+		const optionalSections = new Set([...templateQuestions.values()].filter(q => q.required === false).map(q => q.title));
+		const requiredSections = [
+			...templateQuestions.keys(),
+			...(input.requiredSections ?? []).filter(sec => !templateQuestions.has(sec)),
+		];
+		const sectionLimits = new Map<string, ResponseLimit>();
+		for (const q of templateQuestions.values()) {
+			if (q.limit && q.limit.value > 0) {
+				sectionLimits.set(q.title, { value: q.limit.value, unit: q.limit.unit === 'characters' ? 'characters' : 'words' });
+			}
+		}
+
+		// A line-item budget fixes the money: its total is the ask and every
+		// dollar figure in the draft has to come from its table
+		let budgetTable: BudgetTable | undefined;
+		if (input.budget) {
+			budgetTable = buildBudget({
+				...input.budget,
+				indirectBase: input.budget.indirectBase as IndirectBase | undefined,
+				siteAllocations: input.budget.siteAllocations
+					?? equalSiteAllocations(profile.sites.filter(site => site.active).map(site => site.name)),
+			});
+		}
+		const askAmount = input.askAmount ?? budgetTable?.grandTotal.total;
+		const fundingRange = input.fundingRange || pipelineGrant?.opportunity.fundingRange || template?.awardRange;
 
 		// Build the generation prompt based on grant type
 		let typeInstructions = '';
@@ -489,7 +738,7 @@ Return ONLY valid JSON. No markdown, no explanation outside the JSON.`;
 		switch (grantType) {
 			case 'loi':
 				typeInstructions = `Write a Letter of Intent (LOI) that:
-- Opens with a compelling hook about Community Literacy Club's impact
+- Opens with a compelling hook about ${profile.name}'s impact
 - Briefly describes the organization and its track record
 - Explains the specific project or program seeking funding
 - States the funding request clearly
@@ -556,7 +805,7 @@ Format: Report style with headers, but narrative voice.`;
 - Offers to stay connected
 - Is warm but professional
 
-Format: Letter format, from Kimberly personally.`;
+Format: Letter format, from ${executiveDirector(profile)?.name ?? 'the executive director'} personally.`;
 				targetLength = wordLimit ? `Target: ${wordLimit} words` : 'Target: 200-300 words';
 				break;
 
@@ -565,6 +814,12 @@ Format: Letter format, from Kimberly personally.`;
 				targetLength = wordLimit ? `Target: ${wordLimit} words` : 'Target: appropriate length';
 		}
 
+		if (budgetTable && grantType === 'budget-narrative') {
+			typeInstructions += `
+
+Follow the project budget category by category, state the total request (${formatDollars(budgetTable.grandTotal.total)}), and explain the indirect rate${budgetTable.years > 1 ? ' and the year-to-year increases' : ''}. Don't reproduce the table — it is attached after the narrative.`;
+		}
+
 		// Build funder context
 		const funderContext = funderName || funderFocus
 			? `
@@ -585,35 +840,177 @@ ${timeline ? `Timeline: ${timeline}` : ''}`;
 			? `\nFunder's Specific Questions to Address:\n${specificQuestions.map((q: string, i: number) => `${i + 1}. ${q}`).join('\n')}`
 			: '';
 
+		const budgetContext = budgetTable
+			? `\nProject Budget (quote these figures exactly — never round, estimate or add amounts of your own):\n${formatBudgetTable(budgetTable)}`
+			: '';
+
+		const eligibilityContext = template?.eligibility && template.eligibility.length > 0
+			? `\nFunder's Eligibility Criteria (show where CLC meets them):\n${template.eligibility.map(e => `- ${e}`).join('\n')}`
+			: '';
+
 		const sectionsContext = requiredSections.length > 0
 			? `\nRequired Sections:\n${requiredSections.map((sec: string) => `- ${sec}`).join('\n')}`
 			: '';
 
-		const prompt = `Write a ${grantType.replace(/-/g, ' ')} for Community Literacy Club.
+		const reminders = `Remember:
+- Write in Kimberly's voice — authentic, specific, grounded
+- Lead with impact, not need
+- Use real CLC facts and numbers
+- Avoid generic nonprofit language
+- Be confident but not boastful`;
+
+		// Approved library answers cover whatever required sections they can;
+		// the model only writes the rest
+		const sectionTarget = wordLimit && requiredSections.length > 0
+			? Math.round(wordLimit / requiredSections.length)
+			: DEFAULT_SECTION_WORDS;
+		const targetFor = (title: string) => {
+			const limit = sectionLimits.get(title);
+			return limit ? limitTargetWords(limit) : sectionTarget;
+		};
+		const describeSection = (title: string) => {
+			const question = templateQuestions.get(title);
+			const limit = sectionLimits.get(title);
+			return `- ${title}${question ? ` — ${question.prompt}` : ''}${limit ? ` (limit: ${formatLimit(limit)})` : ''}${optionalSections.has(title) ? ' (optional)' : ''}`;
+		};
+		let libraryMatches: Array<AnswerMatch | null> = [];
+		if (requiredSections.length > 0) {
+			try {
+				libraryMatches = await matchLibraryAnswers(requiredSections, requiredSections.map(targetFor));
+			} catch (err) {
+				ctx.logger.warn('Grant Writer: answer library unavailable, generating every section: %s', err instanceof Error ? err.message : String(err));
+			}
+		}
+		const libraryHits = libraryMatches.filter((m): m is AnswerMatch => m !== null);
+
+		let content: string;
+		let sections: { title: string; content: string; limit?: ResponseLimit; length?: number }[] | undefined;
+		let sectionSources: { section: string; source: 'library' | 'generated'; answerId?: string; variant?: number; adapted?: boolean }[] | undefined;
+		const unwrittenSections: string[] = [];
+		const truncatedSections: string[] = [];
+
+		if (libraryHits.length > 0 || templateQuestions.size > 0) {
+			ctx.logger.info('Grant Writer: %d of %d required sections from the answer library', libraryHits.length, requiredSections.length);
+
+			const adapted = new Map<string, { text: string; adapted: boolean }>();
+			await Promise.all(libraryHits.map(async (match) => {
+				adapted.set(match.section, await adaptLibraryAnswer(match, { funderName, funderFocus, targetWords: targetFor(match.section), profile }));
+			}));
+
+			const missing = requiredSections.filter((_, i) => !libraryMatches[i]);
+			const toGenerate = missing.length > 0 || specificQuestions.length === 0 ? missing : [FUNDER_QUESTIONS_SECTION];
+			let generated = new Map<string, string>();
+			if (toGenerate.length > 0) {
+				const { text } = await generateText({
+					model: openai('gpt-5-mini'),
+					system: buildGrantWriterPrompt(profile),
+					prompt: `Write sections of a ${grantType.replace(/-/g, ' ')} for ${profile.name}.
+
+${funderContext}
+${projectContext}
+${questionsContext}
+${eligibilityContext}
+${budgetContext}
+
+Sections to write — use each title exactly as a "## " heading, in this order:
+${toGenerate.map(describeSection).join('\n')}
+${optionalSections.size > 0 ? `
+Sections marked (optional) are the funder's optional questions: answer one only when CLC has something specific and strong to say, otherwise leave out its heading entirely.
+` : ''}${libraryHits.length > 0 ? `
+These sections are already written from CLC's approved answer library. Don't repeat their content:
+${libraryHits.map(m => `- ${m.section}: ${adapted.get(m.section)!.text.slice(0, 200)}...`).join('\n')}
+` : ''}
+The finished document, once these sections are assembled with the rest:
+${typeInstructions}
+
+Use the "## " headings above rather than any other layout the document type suggests.
+
+${targetLength} overall — about ${sectionTarget} words per section without a limit. Stay under every stated limit.
+
+${reminders}
+
+Write the sections now:`,
+				});
+				generated = splitGeneratedSections(text, toGenerate);
+			}
+
+			const titles = toGenerate.includes(FUNDER_QUESTIONS_SECTION) ? [...requiredSections, FUNDER_QUESTIONS_SECTION] : requiredSections;
+			const rewritten = new Set<string>();
+			const written = await Promise.all(titles.map(async (title, i) => {
+				const content = (libraryMatches[i] ? adapted.get(title)?.text : generated.get(title)) || '';
+				const limit = sectionLimits.get(title);
+				if (!limit || !content) return { title, content, limit };
+				const fitted = await fitToLimit(title, content, limit, profile);
+				if (fitted.rewritten) rewritten.add(title);
+				if (fitted.truncated) truncatedSections.push(title);
+				return { title, content: fitted.text, limit, length: measureText(fitted.text, limit.unit) };
+			}));
+			sections = written.filter(sec => sec.content || !optionalSections.has(sec.title));
+			sectionSources = titles.flatMap((title, i) => {
+				if (!written[i]!.content && optionalSections.has(title)) return [];
+				const match = libraryMatches[i];
+				return match
+					? { section: title, source: 'library' as const, answerId: match.answer.id, variant: match.length, adapted: adapted.get(title)?.adapted || rewritten.has(title) }
+					: { section: title, source: 'generated' as const };
+			});
+			unwrittenSections.push(...sections.filter(sec => !sec.content).map(sec => sec.title));
+			content = sections.map(sec => `## ${sec.title}\n\n${sec.content}`).join('\n\n');
+
+			try {
+				await recordAnswerUse(libraryHits.map(m => m.answer.id));
+			} catch (err) {
+				ctx.logger.warn('Grant Writer: could not record answer library use: %s', err instanceof Error ? err.message : String(err));
+			}
+		} else {
+			const prompt = `Write a ${grantType.replace(/-/g, ' ')} for ${profile.name}.
 
 ${funderContext}
 ${projectContext}
 ${questionsContext}
 ${sectionsContext}
+${budgetContext}
 
 ${typeInstructions}
 
 ${targetLength}
 
-Remember:
-- Write in Kimberly's voice — authentic, specific, grounded
-- Lead with impact, not need
-- Use real CLC facts and numbers
-- Avoid generic nonprofit language
-- Be confident but not boastful
+${reminders}
 
 Write the ${grantType.replace(/-/g, ' ')} now:`;
 
-		const { text: content } = await generateText({
-			model: openai('gpt-5-mini'),
-			system: grantWriterPrompt,
-			prompt,
-		});
+			({ text: content } = await generateText({
+				model: openai('gpt-5-mini'),
+				system: buildGrantWriterPrompt(profile),
+				prompt,
+			}));
+			if (requiredSections.length > 0) {
+				sectionSources = requiredSections.map(section => ({ section, source: 'generated' as const }));
+			}
+		}
+
+		// Hold the draft to the budget: one revision when its figures stray
+		// from the table (not for assembled sections, which would drift apart)
+		let budgetCheck: BudgetCheck | undefined;
+		if (budgetTable) {
+			budgetCheck = checkBudgetNarrative(budgetTable, content, { fundingRange, askAmount: input.askAmount });
+			if (!budgetCheck.figuresMatch && !sections) {
+				ctx.logger.info('Grant Writer: revising draft to match the budget table — %s', budgetCheck.issues.join('; '));
+				({ text: content } = await generateText({
+					model: openai('gpt-5-mini'),
+					system: buildGrantWriterPrompt(profile),
+					prompt: `Revise this ${grantType.replace(/-/g, ' ')} so every dollar figure matches the project budget exactly.
+
+Problems found:
+${budgetCheck.issues.map(issue => `- ${issue}`).join('\n')}
+${budgetContext}
+
+Change only what the figures require and keep everything else as written. Return the full revised text.
+
+${content}`,
+				}));
+				budgetCheck = checkBudgetNarrative(budgetTable, content, { fundingRange, askAmount: input.askAmount });
+			}
+		}
 
 		// Calculate word count
 		const wordCount = content.split(/\s+/).length;
@@ -647,10 +1044,13 @@ Format as a simple bulleted list, each item 1-2 sentences:`,
 		if (!funderName) missingInfo.push('Funder name for personalization');
 		if (!timeline) missingInfo.push('Project timeline/duration');
 		if (!targetPopulation) missingInfo.push('Specific target population details');
+		missingInfo.push(...describeStaleMetrics(profile));
+		missingInfo.push(...unwrittenSections.map(title => `"${title}" section — generation came back without it`));
+		missingInfo.push(...truncatedSections.map(title => `"${title}" was cut to fit its ${formatLimit(sectionLimits.get(title)!)} limit — check the ending`));
+		missingInfo.push(...(template?.attachments ?? []).map(attachment => `Required attachment: ${attachment}`));
 
 		// Parse sections if full proposal
-		let sections: { title: string; content: string }[] | undefined;
-		if (grantType === 'full-proposal') {
+		if (!sections && grantType === 'full-proposal') {
 			const sectionMatches = content.matchAll(/##?\s*([^\n]+)\n([^#]+)/g);
 			sections = Array.from(sectionMatches).map((match) => ({
 				title: (match[1] ?? '').trim(),
@@ -658,6 +1058,19 @@ Format as a simple bulleted list, each item 1-2 sentences:`,
 			}));
 		}
 
+		// A budget narrative goes out with its table
+		if (budgetTable && grantType === 'budget-narrative') {
+			content = `${content.trim()}\n\n## Budget\n\n${formatBudgetTable(budgetTable)}`;
+		}
+
+		if (pipelineGrant) {
+			try {
+				await linkGrantDraft(pipelineGrant.id, { grantType, content, wordCount });
+			} catch (err) {
+				ctx.logger.warn('Grant Writer: could not save draft to pipeline grant %s: %s', pipelineGrant.id, err instanceof Error ? err.message : String(err));
+			}
+		}
+
 		return {
 			task: 'write',
 			content,
@@ -667,6 +1080,18 @@ Format as a simple bulleted list, each item 1-2 sentences:`,
 			estimatedReadTime,
 			suggestions: suggestions.length > 0 ? suggestions : undefined,
 			missingInfo: missingInfo.length > 0 ? missingInfo : undefined,
+			pipelineId: pipelineGrant?.id,
+			budget: budgetTable && {
+				table: formatBudgetTable(budgetTable),
+				total: budgetTable.grandTotal.total,
+				yearlyTotals: budgetTable.grandTotal.yearly,
+				directTotal: budgetTable.direct.total,
+				indirectTotal: budgetTable.indirect.total,
+				indirectRate: budgetTable.indirect.rate,
+				sites: budgetTable.sites.map(site => ({ site: site.site, total: site.total })),
+			},
+			budgetCheck,
+			sectionSources,
 			resultsCount: 1,
 		};
 	},
@@ -0,0 +1,389 @@
+/**
+ * RFP Parser — turns a funder's RFP into an application template
+ *
+ * Accepts pasted text, a PDF or a DOCX and extracts what the application
+ * asks for: the questions to answer with their word or character limits,
+ * eligibility criteria, deadlines and required attachments. grant-writer's
+ * write mode takes the template as `applicationTemplate`, writes one
+ * section per question and holds each answer to its limit.
+ *
+ * DOCX text is read straight out of the archive (word/document.xml). PDFs
+ * go to the model as a file part, so scanned RFPs work too.
+ *
+ * Templates aren't stored — the caller keeps the parsed template and
+ * passes it back with the write request, edited if need be.
+ *
+ * File: src/agent/grant-writer/rfp-parser.ts
+ */
+
+import { inflateRawSync } from 'zlib';
+import { generateText } from 'ai';
+import { openai } from '@ai-sdk/openai';
+
+// --- Types ---
+
+export type LimitUnit = 'words' | 'characters';
+
+export interface ResponseLimit {
+	value: number;
+	unit: LimitUnit;
+}
+
+export interface RfpQuestion {
+	title: string;            // short section heading ("Program Description")
+	prompt: string;           // the question as the funder wrote it
+	limit?: ResponseLimit;
+	required: boolean;
+}
+
+export interface RfpDeadline {
+	label: string;            // "LOI due", "Full application due"
+	date: string;             // YYYY-MM-DD when the RFP gives a date, else its wording
+	time?: string;            // "5:00 PM ET"
+}
+
+export interface ApplicationTemplate {
+	funderName?: string;
+	programName?: string;
+	summary?: string;
+	awardRange?: string;
+	questions: RfpQuestion[];
+	eligibility: string[];
+	deadlines: RfpDeadline[];
+	attachments: string[];
+	overallLimit?: ResponseLimit;
+	source: { kind: RfpSourceKind; filename?: string };
+	parsedAt: string;
+}
+
+export type RfpSourceKind = 'text' | 'pdf' | 'docx';
+
+export interface RfpSource {
+	text?: string;
+	file?: { buffer: Buffer; filename: string; contentType?: string };
+}
+
+// --- Config ---
+
+// Long RFPs are cut here before prompting; question lists come early
+const MAX_RFP_CHARS = 80_000;
+
+// Page limits are converted to words at this rate (single-spaced)
+const WORDS_PER_PAGE = 500;
+
+// Average characters per word, for sizing answers to a character limit
+const CHARS_PER_WORD = 6;
+
+// Uploaded RFP files are refused above this size
+export const MAX_RFP_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+// A docx's document.xml is never legitimately bigger than this once inflated
+const MAX_DOCX_XML_BYTES = 50 * 1024 * 1024;
+
+// --- File text extraction ---
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** 'pdf' / 'docx' / 'text' from the file name or content type; null when unsupported. */
+export function rfpFileKind(filename: string, contentType?: string): RfpSourceKind | null {
+	const ext = filename.toLowerCase().split('.').pop() || '';
+	if (ext === 'pdf' || contentType === 'application/pdf') return 'pdf';
+	if (ext === 'docx' || contentType === DOCX_TYPE) return 'docx';
+	if (['txt', 'md'].includes(ext) || contentType?.startsWith('text/')) return 'text';
+	return null;
+}
+
+/**
+ * Read one entry out of a zip archive via its central directory. Every
+ * offset is bounds-checked and inflation stops at `maxOutputLength`, so a
+ * truncated or crafted upload fails instead of exhausting memory.
+ */
+function readZipEntry(buffer: Buffer, name: string, maxOutputLength: number): Buffer | null {
+	const fits = (start: number, length: number) => start >= 0 && start + length <= buffer.length;
+
+	// End of central directory record: last 22 bytes plus up to 64KB of comment
+	let eocd = -1;
+	for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+		if (buffer.readUInt32LE(i) === 0x06054b50) { eocd = i; break; }
+	}
+	if (eocd < 0) return null;
+
+	const entries = buffer.readUInt16LE(eocd + 10);
+	let offset = buffer.readUInt32LE(eocd + 16);
+	for (let i = 0; i < entries; i++) {
+		if (!fits(offset, 46) || buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+		const method = buffer.readUInt16LE(offset + 10);
+		const compressedSize = buffer.readUInt32LE(offset + 20);
+		const nameLength = buffer.readUInt16LE(offset + 28);
+		const extraLength = buffer.readUInt16LE(offset + 30);
+		const commentLength = buffer.readUInt16LE(offset + 32);
+		const localOffset = buffer.readUInt32LE(offset + 42);
+		if (!fits(offset + 46, nameLength)) return null;
+		const entryName = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+		if (entryName === name) {
+			if (!fits(localOffset, 30)) throw new Error('Corrupt zip: entry header out of range');
+			const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+			if (!fits(dataStart, compressedSize)) throw new Error('Corrupt zip: entry data out of range');
+			const data = buffer.subarray(dataStart, dataStart + compressedSize);
+			if (method === 0) return data;
+			if (method === 8) {
+				try {
+					return inflateRawSync(data, { maxOutputLength });
+				} catch (err) {
+					if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+						throw new Error(`${name} is larger than ${Math.round(maxOutputLength / 1024 / 1024)}MB uncompressed`);
+					}
+					throw err;
+				}
+			}
+			throw new Error(`Unsupported zip compression method ${method}`);
+		}
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+	return null;
+}
+
+function decodeXmlEntities(text: string): string {
+	return text
+		.replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+		.replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&amp;/g, '&');
+}
+
+/** Plain text of a .docx: one line per paragraph, table cells tab-separated. */
+export function extractDocxText(buffer: Buffer): string {
+	const xml = readZipEntry(buffer, 'word/document.xml', MAX_DOCX_XML_BYTES);
+	if (!xml) throw new Error('Not a Word document (no word/document.xml)');
+	const text = xml.toString('utf8')
+		.replace(/<w:tab\/>/g, '\t')
+		.replace(/<w:br[^>]*\/>/g, '\n')
+		.replace(/<\/w:p>\s*<\/w:tc>/g, '\t')
+		.replace(/<\/w:tr>/g, '\n')
+		.replace(/<\/w:p>/g, '\n')
+		.replace(/<[^>]+>/g, '');
+	return decodeXmlEntities(text)
+		.split('\n')
+		.map(line => line.replace(/[ \t]+$/, ''))
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+// --- Limits ---
+
+/** Length of `text` in the limit's unit. */
+export function measureText(text: string, unit: LimitUnit): number {
+	return unit === 'characters' ? text.trim().length : text.split(/\s+/).filter(Boolean).length;
+}
+
+export function formatLimit(limit: ResponseLimit): string {
+	return `${limit.value.toLocaleString()} ${limit.unit}`;
+}
+
+/** Word count to aim for so an answer lands under the limit. */
+export function limitTargetWords(limit: ResponseLimit): number {
+	const words = limit.unit === 'words' ? limit.value : limit.value / CHARS_PER_WORD;
+	return Math.max(20, Math.round(words * 0.9));
+}
+
+/**
+ * Cut `text` to fit the limit, at the last sentence end that fits (or the
+ * last whole word when no sentence does). Returns the text unchanged when
+ * it already fits.
+ */
+export function truncateToLimit(text: string, limit: ResponseLimit): string {
+	const trimmed = text.trim();
+	if (measureText(trimmed, limit.unit) <= limit.value) return trimmed;
+
+	let cut: string;
+	if (limit.unit === 'characters') {
+		cut = trimmed.slice(0, limit.value);
+		const lastSpace = cut.search(/\s\S*$/);
+		if (lastSpace > 0 && trimmed[limit.value] && /\S/.test(trimmed[limit.value]!)) cut = cut.slice(0, lastSpace);
+	} else {
+		const words = trimmed.split(/(\s+)/);
+		let count = 0;
+		let end = 0;
+		for (let i = 0; i < words.length; i++) {
+			if (/\S/.test(words[i]!)) {
+				if (++count > limit.value) break;
+				end = i + 1;
+			}
+		}
+		cut = words.slice(0, end).join('');
+	}
+
+	const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('.\n'), cut.lastIndexOf('? '), cut.lastIndexOf('! '));
+	if (/[.!?]["')\]]?$/.test(cut.trim())) return cut.trim();
+	return (sentenceEnd > cut.length / 2 ? cut.slice(0, sentenceEnd + 1) : cut).trim();
+}
+
+// --- Normalization ---
+
+function cleanLimit(raw: unknown): ResponseLimit | undefined {
+	if (!raw || typeof raw !== 'object') return undefined;
+	const { value, unit } = raw as { value?: unknown; unit?: unknown };
+	const n = typeof value === 'number' ? value : Number(value);
+	if (!Number.isFinite(n) || n <= 0) return undefined;
+	const u = String(unit || '').toLowerCase();
+	if (u.startsWith('char')) return { value: Math.round(n), unit: 'characters' };
+	if (u.startsWith('page')) return { value: Math.round(n * WORDS_PER_PAGE), unit: 'words' };
+	return { value: Math.round(n), unit: 'words' };
+}
+
+function cleanStrings(raw: unknown): string[] {
+	if (!Array.isArray(raw)) return [];
+	const seen = new Set<string>();
+	return raw
+		.map(v => (typeof v === 'string' ? v.trim() : ''))
+		.filter((v) => {
+			if (!v || seen.has(v.toLowerCase())) return false;
+			seen.add(v.toLowerCase());
+			return true;
+		});
+}
+
+function optionalString(raw: unknown): string | undefined {
+	return typeof raw === 'string' && raw.trim() ? raw.trim() : undefined;
+}
+
+/** Shape the model's JSON into a template, dropping anything malformed. */
+function normalizeTemplate(raw: Record<string, unknown>, source: ApplicationTemplate['source']): ApplicationTemplate {
+	const titles = new Set<string>();
+	const questions: RfpQuestion[] = [];
+	for (const q of Array.isArray(raw.questions) ? raw.questions : []) {
+		if (!q || typeof q !== 'object') continue;
+		const entry = q as Record<string, unknown>;
+		const prompt = optionalString(entry.prompt);
+		let title = optionalString(entry.title) || prompt?.slice(0, 60);
+		if (!title || !prompt) continue;
+		// Section headings double as keys in the write output, so keep them unique
+		for (let n = 2; titles.has(title.toLowerCase()); n++) title = `${optionalString(entry.title) || title} (${n})`;
+		titles.add(title.toLowerCase());
+		questions.push({ title, prompt, limit: cleanLimit(entry.limit), required: entry.required !== false });
+	}
+
+	const deadlines: RfpDeadline[] = [];
+	for (const d of Array.isArray(raw.deadlines) ? raw.deadlines : []) {
+		if (!d || typeof d !== 'object') continue;
+		const entry = d as Record<string, unknown>;
+		const date = optionalString(entry.date);
+		if (!date) continue;
+		deadlines.push({ label: optionalString(entry.label) || 'Deadline', date, time: optionalString(entry.time) });
+	}
+	deadlines.sort((a, b) => a.date.localeCompare(b.date));
+
+	return {
+		funderName: optionalString(raw.funderName),
+		programName: optionalString(raw.programName),
+		summary: optionalString(raw.summary),
+		awardRange: optionalString(raw.awardRange),
+		questions,
+		eligibility: cleanStrings(raw.eligibility),
+		deadlines,
+		attachments: cleanStrings(raw.attachments),
+		overallLimit: cleanLimit(raw.overallLimit),
+		source,
+		parsedAt: new Date().toISOString(),
+	};
+}
+
+// --- Parsing ---
+
+const RFP_PARSE_PROMPT = `You read grant RFPs (requests for proposals) and application guidelines and extract the application template.
+
+Return a JSON object:
+{
+  "funderName": "Foundation name",
+  "programName": "Grant program name",
+  "summary": "One or two sentences on what the program funds",
+  "awardRange": "$10,000 - $25,000",
+  "questions": [
+    {
+      "title": "Short section heading, 2-5 words (e.g. Program Description)",
+      "prompt": "The question or instruction exactly as the RFP words it",
+      "limit": { "value": 250, "unit": "words | characters | pages" },
+      "required": true
+    }
+  ],
+  "eligibility": ["Each eligibility criterion as its own item"],
+  "deadlines": [{ "label": "Full application due", "date": "2026-03-15", "time": "5:00 PM ET" }],
+  "attachments": ["IRS 501(c)(3) determination letter", "Board list"],
+  "overallLimit": { "value": 10, "unit": "pages" }
+}
+
+Rules:
+- One question per narrative item the applicant must write, in the RFP's order. Sub-parts of a numbered question stay in that question's prompt.
+- Don't turn form fields (address, EIN, contact name) or attachments into questions.
+- Give a limit only when the RFP states one for that item; omit it otherwise.
+- Dates as YYYY-MM-DD when the RFP gives a full date; otherwise keep its wording ("Rolling", "Early March").
+- Omit anything the RFP doesn't say. Never invent questions, limits or dates.
+
+Return ONLY valid JSON. No markdown, no explanation outside the JSON.`;
+
+/**
+ * Extract an application template from an RFP. Throws when the input is
+ * empty, the file type is unsupported, or the model finds no questions.
+ */
+export async function parseRfp(
+	source: RfpSource,
+	logger?: { info: (msg: string, ...args: unknown[]) => void; warn: (msg: string, ...args: unknown[]) => void },
+): Promise<ApplicationTemplate> {
+	const file = source.file;
+	let kind: RfpSourceKind = 'text';
+	if (file) {
+		const fileKind = rfpFileKind(file.filename, file.contentType);
+		if (!fileKind) throw new Error('Unsupported RFP file — upload a PDF, DOCX or text file');
+		kind = fileKind;
+	}
+
+	let text = source.text?.trim() || '';
+	if (file && kind === 'docx') text = extractDocxText(file.buffer);
+	else if (file && kind === 'text') text = file.buffer.toString('utf8').trim();
+	if (kind !== 'pdf' && !text) throw new Error('RFP text is empty');
+
+	if (text.length > MAX_RFP_CHARS) {
+		logger?.warn('RFP is %d characters, parsing the first %d', text.length, MAX_RFP_CHARS);
+		text = text.slice(0, MAX_RFP_CHARS);
+	}
+
+	const content: Array<{ type: 'text'; text: string } | { type: 'file'; data: Uint8Array; mediaType: string; filename?: string }> = [];
+	if (file && kind === 'pdf') {
+		content.push({ type: 'file', data: new Uint8Array(file.buffer), mediaType: 'application/pdf', filename: file.filename });
+		content.push({ type: 'text', text: 'Extract the application template from this RFP.' });
+	} else {
+		content.push({ type: 'text', text: `Extract the application template from this RFP:\n\n${text}` });
+	}
+
+	const result = await generateText({
+		model: openai('gpt-5-mini'),
+		system: RFP_PARSE_PROMPT,
+		messages: [{ role: 'user', content }],
+	});
+
+	let parsed: Record<string, unknown> = {};
+	const jsonMatch = result.text.match(/\{[\s\S]*\}/);
+	if (jsonMatch) {
+		try {
+			parsed = JSON.parse(jsonMatch[0]);
+		} catch (err) {
+			logger?.warn('Failed to parse RFP template JSON: %s', err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	const template = normalizeTemplate(parsed, { kind, filename: file?.filename });
+	if (template.questions.length === 0) {
+		throw new Error('No application questions found in the RFP');
+	}
+	logger?.info('RFP parsed: %d questions, %d with limits, %d deadlines, %d attachments',
+		template.questions.length,
+		template.questions.filter(q => q.limit).length,
+		template.deadlines.length,
+		template.attachments.length);
+	return template;
+}
@@ -0,0 +1,44 @@
+/**
+ * Manager dispatch — runs a typed RoutePlan (or a workflow step's resolved
+ * input) against the target agent.
+ *
+ * File: src/agent/manager/dispatch.ts
+ */
+
+import contentCreator from '../content-creator';
+import videoEditor from '../video-editor';
+import grantWriter from '../grant-writer';
+import donorResearcher from '../donor-researcher';
+import venueProspector from '../venue-prospector';
+import type { RoutePlan, RoutedAgent } from './intent-router';
+
+/**
+ * Run the plan's agent with the plan's params. Returns the agent's raw
+ * output, or null for a plan with no agent.
+ */
+export async function dispatchPlan(plan: RoutePlan): Promise<unknown> {
+	if (plan.agent === 'none') return null;
+	return dispatchAgent(plan.agent, plan.params as unknown as Record<string, unknown>);
+}
+
+/**
+ * Run an agent with an untyped input object. Workflow step inputs are built
+ * from templates at runtime, so they're validated by the agent's own
+ * schema rather than at compile time.
+ */
+export async function dispatchAgent(agent: RoutedAgent, input: Record<string, unknown>): Promise<unknown> {
+	switch (agent) {
+		case 'content-creator':
+			return contentCreator.run(input as any);
+		case 'video-editor':
+			return videoEditor.run(input as any);
+		case 'grant-writer':
+			return grantWriter.run(input as any);
+		case 'donor-researcher':
+			return donorResearcher.run(input as any);
+		case 'venue-prospector':
+			return venueProspector.run(input as any);
+		default:
+			throw new Error(`Unknown agent: ${agent}`);
+	}
+}
@@ -0,0 +1,120 @@
+/**
+ * Evals for the manager agent.
+ * - routing-fixture (binary, pass/fail): For requests in the fixture set, did the
+ *   router pick the pinned agent, task and parameters (or ask for clarification)?
+ * - routing-consistency (binary, pass/fail): Does an independent judge agree the
+ *   request was sent to the right agent?
+ */
+
+import { s } from '@agentuity/schema';
+import OpenAI from 'openai';
+import agent from './index';
+import type { RoutePlan } from './intent-router';
+import { checkFixture, findFixture } from './routing-fixtures';
+
+const client = new OpenAI();
+
+/**
+ * Custom Eval (binary type): Routing Fixture
+ * Pins routing for the requests in routing-fixtures.ts. Requests outside the
+ * fixture set pass with a "not a fixture" reason.
+ */
+export const routingFixtureEval = agent.createEval('routing-fixture', {
+	description: 'Checks agent, task and extracted params against the pinned routing fixtures',
+	handler: async (ctx, input, output) => {
+		const fixture = input.topic ? findFixture(input.topic) : undefined;
+		if (!fixture) {
+			return { passed: true, reason: 'Not a fixture request' };
+		}
+
+		const plan = output.plan as RoutePlan | undefined;
+		if (!plan) {
+			return { passed: false, reason: 'Manager returned no plan' };
+		}
+
+		const problems = checkFixture(fixture, plan, !!output.needs_clarification);
+		ctx.logger.info('[EVAL] routing-fixture: %s', problems.length === 0 ? 'pass' : problems.join('; '));
+
+		return {
+			passed: problems.length === 0,
+			reason: problems.length === 0 ? `Routed to ${plan.agent} as pinned` : problems.join('; '),
+			metadata: {
+				expectedAgent: fixture.expectAgent,
+				actualAgent: plan.agent,
+				confidence: plan.confidence,
+				source: plan.source,
+			},
+		};
+	},
+});
+
+/**
+ * Custom Eval (binary type): Routing Consistency
+ * An independent model judges whether the chosen agent fits the request.
+ * Skips clarification turns — nothing was routed.
+ */
+const RoutingJudgeSchema = s.object({
+	isCorrectAgent: s.boolean().describe('Whether the chosen agent is the right one for the request'),
+	betterAgent: s.string().describe('The agent that should have handled it, or empty string if the choice was right'),
+	reason: s.string().describe('Brief explanation'),
+});
+
+type RoutingJudge = s.infer<typeof RoutingJudgeSchema>;
+
+export const routingConsistencyEval = agent.createEval('routing-consistency', {
+	description: 'Independent judge checks the Manager sent the request to the right agent',
+	handler: async (ctx, input, output) => {
+		if (output.needs_clarification) {
+			return { passed: true, reason: 'Clarification requested — nothing routed' };
+		}
+		if (!input.topic) {
+			return { passed: true, reason: 'Workflow run — no free-text request to judge' };
+		}
+
+		// OpenAI strict mode requires additionalProperties: false on all objects
+		const jsonSchema = {
+			...s.toJSONSchema(RoutingJudgeSchema),
+			additionalProperties: false,
+		};
+
+		const completion = await client.chat.completions.create({
+			model: 'gpt-4o-mini',
+			response_format: {
+				type: 'json_schema',
+				json_schema: {
+					name: 'routing_judge',
+					schema: jsonSchema as Record<string, unknown>,
+					strict: true,
+				},
+			},
+			messages: [
+				{
+					role: 'user',
+					content: `A nonprofit's assistant routes requests to one of: content-creator (written posts/captions/newsletters), video-editor (making or managing videos), grant-writer (finding or writing grants), donor-researcher (individual/corporate donors and sponsors), venue-prospector (physical program locations).
+
+Request: "${input.topic}${input.description ? ` — ${input.description}` : ''}"
+Chosen agent: ${output.routed_to}
+
+Is the chosen agent the right one for the deliverable being asked for?`,
+				},
+			],
+		});
+
+		const result = JSON.parse(completion.choices[0]?.message?.content ?? '{}') as RoutingJudge;
+
+		ctx.logger.info('[EVAL] routing-consistency: Completed', {
+			passed: result.isCorrectAgent,
+			routedTo: output.routed_to,
+			betterAgent: result.betterAgent,
+		});
+
+		return {
+			passed: result.isCorrectAgent,
+			reason: result.reason,
+			metadata: {
+				routedTo: output.routed_to,
+				betterAgent: result.betterAgent || undefined,
+			},
+		};
+	},
+});
@@ -0,0 +1,501 @@
+/**
+ * Manager Intent Router
+ *
+ * Turns a free-text request into a typed RoutePlan: which agent, which
+ * task, and the parameters that agent needs (editMode, platform, videoIds,
+ * grantType, ...). Replaces the `text.includes('video')` chain, which sent
+ * "write a grant-funded video recap" to the grant writer and never pulled
+ * out any structured fields.
+ *
+ * Classification is one structured-output call to gpt-4o-mini. If the model
+ * is unsure (confidence < CLARIFY_THRESHOLD) the plan carries a
+ * clarification question instead of being executed. If the call fails, the
+ * old keyword rules produce the plan so the Manager still works without
+ * OpenAI.
+ *
+ * File: src/agent/manager/intent-router.ts
+ */
+
+import { s } from '@agentuity/schema';
+import OpenAI from 'openai';
+
+// --- Types ---
+
+export type RoutedAgent =
+	| 'content-creator'
+	| 'video-editor'
+	| 'grant-writer'
+	| 'donor-researcher'
+	| 'venue-prospector';
+
+export interface ContentCreatorParams {
+	topic: string;
+	platform: string;
+	includeImage?: boolean;
+}
+
+export interface VideoEditorParams {
+	task: 'edit' | 'list-videos' | 'folder-summary' | 'catalog' | 'test-connection';
+	topic?: string;
+	purpose?: string;
+	editMode?: 'game_day' | 'our_story' | 'quick_hit' | 'showcase' | 'auto';
+	platform?: string;
+	videoIds?: string[];
+	catalogAction?: string;
+}
+
+export interface GrantWriterParams {
+	task: 'search' | 'write';
+	searchFocus?: string;
+	maxDeadlineYear?: number;
+	grantType?: typeof GRANT_TYPES[number];
+	funderName?: string;
+	askAmount?: number;
+	projectName?: string;
+	projectDescription?: string;
+}
+
+export interface DonorResearcherParams {
+	searchType: 'prospect-search' | 'deep-dive' | 'connection-map';
+	prospectType?: string;
+	givingArea?: string;
+	location?: string;
+	focusOnAccountingFirms?: boolean;
+	prospectName?: string;
+	targetProspect?: string;
+}
+
+export interface VenueProspectorParams {
+	searchType: 'venue-search' | 'venue-profile' | 'outreach-plan';
+	location: string;
+	programType?: string;
+	tournamentCapable?: boolean;
+	venueName?: string;
+	targetVenues?: string[];
+}
+
+interface PlanMeta {
+	confidence: number;              // 0-1
+	reasoning: string;
+	source: 'llm' | 'keyword';
+	/** Set when the router wants the user to clarify before anything runs. */
+	clarificationQuestion?: string;
+}
+
+export type RoutePlan = PlanMeta & (
+	| { agent: 'content-creator'; params: ContentCreatorParams }
+	| { agent: 'video-editor'; params: VideoEditorParams }
+	| { agent: 'grant-writer'; params: GrantWriterParams }
+	| { agent: 'donor-researcher'; params: DonorResearcherParams }
+	| { agent: 'venue-prospector'; params: VenueProspectorParams }
+	| { agent: 'none'; params: Record<string, never> }
+);
+
+// --- Constants ---
+
+/** Plans below this confidence are not executed — the Manager asks instead. */
+export const CLARIFY_THRESHOLD = 0.6;
+
+const ROUTER_MODEL = 'gpt-4o-mini';
+
+const GRANT_TYPES = ['loi', 'executive-summary', 'full-proposal', 'budget-narrative', 'impact-report', 'thank-you-letter'] as const;
+const EDIT_MODES = ['game_day', 'our_story', 'quick_hit', 'showcase', 'auto'] as const;
+const VIDEO_TASKS = ['edit', 'list-videos', 'folder-summary', 'catalog', 'test-connection'] as const;
+
+const DEFAULT_VENUE_LOCATION = 'Nassau County and Westchester County, NY';
+
+/** Map the router's agent choice to the Manager's legacy `intent` label. */
+export const INTENT_LABELS: Record<RoutePlan['agent'], string> = {
+	'content-creator': 'content',
+	'video-editor': 'video',
+	'grant-writer': 'grant',
+	'donor-researcher': 'donor',
+	'venue-prospector': 'venue',
+	'none': 'unknown',
+};
+
+// --- LLM Classification ---
+
+const RouterResponseSchema = s.object({
+	agent: s.enum(['content-creator', 'video-editor', 'grant-writer', 'donor-researcher', 'venue-prospector', 'none'])
+		.describe('Agent that should handle the request'),
+	task: s.string().describe('Task for that agent (see system prompt)'),
+	confidence: s.number().describe('0-1 confidence that agent + task are right'),
+	reasoning: s.string().describe('One sentence on why'),
+	clarificationQuestion: s.string().describe('Question to ask the user if confidence < 0.6, else empty string'),
+	params: s.object({
+		topic: s.string().optional(),
+		platform: s.string().optional(),
+		includeImage: s.boolean().optional(),
+		purpose: s.string().optional(),
+		editMode: s.string().optional(),
+		videoIds: s.array(s.string()).optional(),
+		searchFocus: s.string().optional(),
+		grantType: s.string().optional(),
+		funderName: s.string().optional(),
+		askAmount: s.number().optional(),
+		projectName: s.string().optional(),
+		projectDescription: s.string().optional(),
+		prospectType: s.string().optional(),
+		givingArea: s.string().optional(),
+		location: s.string().optional(),
+		focusOnAccountingFirms: s.boolean().optional(),
+		prospectName: s.string().optional(),
+		programType: s.string().optional(),
+		tournamentCapable: s.boolean().optional(),
+		venueName: s.string().optional(),
+	}).describe('Extracted parameters — only include what the request actually states or clearly implies'),
+});
+
+type RouterResponse = s.infer<typeof RouterResponseSchema>;
+
+const ROUTER_PROMPT = `You route requests for CLC, a youth tennis & chess nonprofit in the NYC metro area, to one of these agents.
+
+content-creator — written social posts, captions, newsletters, blogs. task: "create".
+  params: topic, platform (Instagram | LinkedIn | Facebook | Twitter | TikTok | YouTube | Newsletter | Blog), includeImage.
+video-editor — anything that produces or manages VIDEO from the Drive footage library.
+  task: "edit" (make/cut/render a video), "list-videos", "folder-summary", "catalog" (organize/tag footage), "test-connection".
+  params for edit: topic, purpose, editMode (game_day = match/tournament action, our_story = mission/interview/emotional, quick_hit = short punchy clip, showcase = program overview, auto), platform (tiktok | ig_reels | youtube_shorts | youtube | linkedin), videoIds (only Drive file IDs given literally).
+grant-writer — grants. task: "search" (find opportunities/deadlines) or "write" (draft a document).
+  params: searchFocus; grantType (${GRANT_TYPES.join(' | ')}), funderName, askAmount (number, USD), projectName, projectDescription.
+donor-researcher — individual/corporate/foundation donors and sponsors (NOT grants).
+  task: "prospect-search", "deep-dive" (research one named prospect), "connection-map" (how to reach a prospect).
+  params: prospectType (accounting-firm | corporation | individual | family-office | foundation | government), givingArea, location, focusOnAccountingFirms, prospectName.
+venue-prospector — physical places to run programs. task: "venue-search", "venue-profile", "outreach-plan".
+  params: location, programType (tennis | chess | both | tournament), tournamentCapable, venueName.
+
+Rules:
+- Route on the DELIVERABLE, not on incidental words. "grant-funded video recap" is a video (video-editor edit); "LinkedIn post about our new grant" is content-creator.
+- A request for a caption or post ABOUT a video is content-creator; a request to MAKE the video is video-editor.
+- If the request is ambiguous between agents or too vague to act on, use confidence below 0.6 and write a short clarificationQuestion. Use agent "none" if nothing fits.
+- Never invent IDs, amounts or names that are not in the request.`;
+
+let _client: OpenAI | null = null;
+
+async function classifyWithLLM(request: string): Promise<RouterResponse> {
+	if (!_client) _client = new OpenAI();
+
+	// Not strict: params has optional fields, which strict mode disallows
+	const jsonSchema = {
+		...s.toJSONSchema(RouterResponseSchema),
+		additionalProperties: false,
+	};
+
+	const completion = await _client.chat.completions.create({
+		model: ROUTER_MODEL,
+		temperature: 0,
+		response_format: {
+			type: 'json_schema',
+			json_schema: {
+				name: 'route_plan',
+				schema: jsonSchema as Record<string, unknown>,
+				strict: false,
+			},
+		},
+		messages: [
+			{ role: 'system', content: ROUTER_PROMPT },
+			{ role: 'user', content: request },
+		],
+	});
+
+	return JSON.parse(completion.choices[0]?.message?.content ?? '{}') as RouterResponse;
+}
+
+// --- Normalization ---
+
+function pick<T extends string>(value: string | undefined, allowed: readonly T[]): T | undefined {
+	return value && (allowed as readonly string[]).includes(value) ? value as T : undefined;
+}
+
+function clampConfidence(value: unknown): number {
+	const n = typeof value === 'number' ? value : 0;
+	return Math.max(0, Math.min(1, n));
+}
+
+/**
+ * Turn the model's loose response into a typed plan. Unknown tasks and
+ * enum values are dropped to their defaults rather than passed through.
+ */
+function toPlan(raw: RouterResponse, request: string): RoutePlan {
+	const p = raw.params || {};
+	const meta: PlanMeta = {
+		confidence: clampConfidence(raw.confidence),
+		reasoning: raw.reasoning || '',
+		source: 'llm',
+		clarificationQuestion: raw.clarificationQuestion?.trim() || undefined,
+	};
+
+	switch (raw.agent) {
+		case 'content-creator':
+			return {
+				...meta,
+				agent: 'content-creator',
+				params: { topic: p.topic || request, platform: p.platform || 'Instagram', includeImage: p.includeImage },
+			};
+		case 'video-editor': {
+			const task = pick(raw.task, VIDEO_TASKS) || 'edit';
+			return {
+				...meta,
+				agent: 'video-editor',
+				params: task === 'edit'
+					? {
+						task,
+						topic: p.topic || request,
+						purpose: p.purpose,
+						editMode: pick(p.editMode, EDIT_MODES) || 'auto',
+						platform: p.platform,
+						videoIds: p.videoIds?.length ? p.videoIds : undefined,
+					}
+					: task === 'catalog'
+						? { task, catalogAction: 'generate' }
+						: { task },
+			};
+		}
+		case 'grant-writer':
+			return {
+				...meta,
+				agent: 'grant-writer',
+				params: raw.task === 'search'
+					? { task: 'search', searchFocus: p.searchFocus || request, maxDeadlineYear: new Date().getFullYear() }
+					: {
+						task: 'write',
+						grantType: pick(p.grantType, GRANT_TYPES) || 'loi',
+						funderName: p.funderName,
+						askAmount: p.askAmount,
+						projectName: p.projectName,
+						projectDescription: p.projectDescription || request,
+					},
+			};
+		case 'donor-researcher': {
+			const searchType = pick(raw.task, ['prospect-search', 'deep-dive', 'connection-map'] as const) || 'prospect-search';
+			return {
+				...meta,
+				agent: 'donor-researcher',
+				params: {
+					searchType,
+					prospectType: p.prospectType,
+					givingArea: p.givingArea || (searchType === 'prospect-search' ? 'youth-development' : undefined),
+					location: p.location || (searchType === 'prospect-search' ? 'Nassau County, Westchester County, New York metro' : undefined),
+					focusOnAccountingFirms: p.focusOnAccountingFirms,
+					prospectName: searchType === 'deep-dive' ? p.prospectName || request : undefined,
+					targetProspect: searchType === 'connection-map' ? p.prospectName || request : undefined,
+				},
+			};
+		}
+		case 'venue-prospector': {
+			const searchType = pick(raw.task, ['venue-search', 'venue-profile', 'outreach-plan'] as const) || 'venue-search';
+			return {
+				...meta,
+				agent: 'venue-prospector',
+				params: {
+					searchType,
+					location: p.location || DEFAULT_VENUE_LOCATION,
+					programType: p.programType || 'both',
+					tournamentCapable: p.tournamentCapable,
+					venueName: searchType === 'venue-profile' ? p.venueName || request : undefined,
+					targetVenues: searchType === 'outreach-plan' ? [p.venueName || request] : undefined,
+				},
+			};
+		}
+		default:
+			return {
+				...meta,
+				agent: 'none',
+				params: {},
+				confidence: Math.min(meta.confidence, CLARIFY_THRESHOLD - 0.01),
+				clarificationQuestion: meta.clarificationQuestion
+					|| 'Is this a social post, a video, a grant, donor research, or a venue search?',
+			};
+	}
+}
+
+// --- Keyword Fallback ---
+
+const has = (text: string, words: string[]) => words.some(w => text.includes(w));
+const countHits = (text: string, words: string[]) => words.filter(w => text.includes(w)).length;
+
+const VIDEO_TERMS = ['video', 'tiktok', 'reel', 'youtube', 'clip', 'footage', 'catalog', 'render', 'highlight reel', 'game day', 'our story', 'quick hit', 'showcase'];
+const GRANT_TERMS = ['grant', 'proposal', 'loi', 'letter of intent', 'funding', 'application'];
+const DONOR_TERMS = ['donor', 'sponsor', 'funder', 'foundation', 'prospect', 'family office', 'accounting firm', 'cpa', 'tax write', 'write-off', 'charitable deduction'];
+const VENUE_TERMS = ['venue', 'location', 'space', 'court', 'gym', 'community center', 'where to', 'tournament', 'underutilized', 'nassau', 'westchester'];
+const CONTENT_TERMS = ['platform:', 'social', 'post', 'content', 'tennis', 'chess', 'program', 'student', 'kid', 'mentor', 'story', 'share', 'success', 'instagram', 'facebook', 'linkedin', 'twitter', 'newsletter', 'blog', 'email'];
+
+/**
+ * Keyword-plan confidence from match strength: the rule's own hits (plus
+ * two for a task-specific phrase like "letter of intent" or "outreach
+ * plan"), less when another rule's terms match as strongly. A single keyword, or a tie with another agent's terms,
+ * stays under CLARIFY_THRESHOLD, so the Manager asks instead of guessing.
+ */
+function keywordConfidence(hits: number, competingHits: number): number {
+	const base = hits >= 3 ? 0.8 : hits === 2 ? 0.65 : 0.45;
+	if (competingHits >= hits) return Math.min(base, CLARIFY_THRESHOLD - 0.05);
+	return competingHits > 0 ? base - 0.05 : base;
+}
+
+/**
+ * The pre-router keyword rules, kept as an offline fallback. Rules are
+ * tried in order as before; confidence is graded by keywordConfidence(),
+ * with source 'keyword' marking the plan as a guess.
+ */
+export function keywordRoute(request: string): RoutePlan {
+	const text = request.toLowerCase();
+	const hits = {
+		video: countHits(text, VIDEO_TERMS),
+		grant: countHits(text, GRANT_TERMS),
+		donor: countHits(text, DONOR_TERMS),
+		venue: countHits(text, VENUE_TERMS),
+		content: countHits(text, CONTENT_TERMS),
+	};
+	const meta = (reasoning: string, rule: keyof typeof hits, taskPhrase = false): PlanMeta => {
+		const competing = Math.max(...Object.entries(hits).filter(([key]) => key !== rule).map(([, n]) => n));
+		return {
+			confidence: keywordConfidence(hits[rule] + (taskPhrase ? 2 : 0), competing),
+			reasoning: `${reasoning} (${hits[rule]} term${hits[rule] === 1 ? '' : 's'}${competing > 0 ? `, ${competing} for another agent` : ''})`,
+			source: 'keyword',
+		};
+	};
+
+	if (hits.video > 0) {
+		let params: VideoEditorParams;
+		if (has(text, ['list video', 'what video', 'show video'])) params = { task: 'list-videos' };
+		else if (has(text, ['folder summary', 'how many video', 'drive summary'])) params = { task: 'folder-summary' };
+		else if (has(text, ['catalog', 'organize', 'sort footage'])) params = { task: 'catalog', catalogAction: 'generate' };
+		else if (has(text, ['test connection', 'check drive'])) params = { task: 'test-connection' };
+		else {
+			const editMode: VideoEditorParams['editMode'] =
+				has(text, ['game day', 'tournament', 'match']) ? 'game_day'
+				: has(text, ['our story', 'story', 'interview', 'testimonial']) ? 'our_story'
+				: has(text, ['quick hit']) ? 'quick_hit'
+				: has(text, ['showcase']) ? 'showcase'
+				: 'auto';
+			const platform =
+				text.includes('tiktok') ? 'tiktok'
+				: text.includes('youtube') ? 'youtube_shorts'
+				: text.includes('reel') ? 'ig_reels'
+				: undefined;
+			params = { task: 'edit', topic: request, editMode, platform };
+		}
+		return { ...meta('keyword: video terms', 'video', params.task !== 'edit'), agent: 'video-editor', params };
+	}
+
+	if (hits.grant > 0) {
+		const isSearch = has(text, ['find grant', 'search grant', 'research grant', 'look for grant', 'grant opportunit', 'available grant', 'grant deadline', 'what grants', 'which grants', 'grants for', 'grant search'])
+			|| /\b(find|search|look for|research)\b.*\bgrants\b/.test(text);
+		if (isSearch) {
+			return { ...meta('keyword: grant search', 'grant', true), agent: 'grant-writer', params: { task: 'search', searchFocus: request, maxDeadlineYear: new Date().getFullYear() } };
+		}
+		const grantType: GrantWriterParams['grantType'] =
+			has(text, ['full proposal', 'complete proposal']) ? 'full-proposal'
+			: has(text, ['executive summary', 'summary']) ? 'executive-summary'
+			: text.includes('budget') ? 'budget-narrative'
+			: has(text, ['impact', 'report']) ? 'impact-report'
+			: has(text, ['thank you', 'thank-you', 'thanks']) ? 'thank-you-letter'
+			: 'loi';
+		const namedType = grantType !== 'loi' || has(text, ['loi', 'letter of intent']);
+		// Original casing — funder names are proper nouns
+		const funderMatch = request.match(/\b(?:to|from)\s+(?:the\s+)?((?:[A-Z][\w&'.-]*\s+)+(?:Foundation|Fund|Trust))\b/);
+		const amountMatch = request.match(/\$\s?(\d[\d,]*)(\s?k\b)?/i);
+		const askAmount = amountMatch ? Number(amountMatch[1]!.replace(/,/g, '')) * (amountMatch[2] ? 1000 : 1) : undefined;
+		return {
+			...meta('keyword: grant writing', 'grant', namedType),
+			agent: 'grant-writer',
+			params: { task: 'write', grantType, funderName: funderMatch?.[1], askAmount, projectDescription: request },
+		};
+	}
+
+	if (hits.donor > 0) {
+		const isAccounting = has(text, ['accounting', 'cpa', 'tax write', 'write-off', 'deduction']);
+		const searchType: DonorResearcherParams['searchType'] =
+			has(text, ['research', 'profile', 'deep dive']) ? 'deep-dive'
+			: has(text, ['connect', 'introduction', 'pathway']) ? 'connection-map'
+			: 'prospect-search';
+		const prospectMatch = text.match(/(?:research|profile|about)\s+([^,.]+)/i);
+		return {
+			...meta('keyword: donor terms', 'donor', searchType !== 'prospect-search'),
+			agent: 'donor-researcher',
+			params: searchType === 'prospect-search'
+				? {
+					searchType,
+					location: 'Nassau County, Westchester County, New York metro',
+					givingArea: 'youth-development',
+					focusOnAccountingFirms: isAccounting,
+					prospectType: isAccounting ? 'accounting-firm' : undefined,
+				}
+				: searchType === 'deep-dive'
+					? { searchType, prospectName: prospectMatch?.[1]?.trim() ?? request }
+					: { searchType, targetProspect: request },
+		};
+	}
+
+	if (hits.venue > 0) {
+		let location = DEFAULT_VENUE_LOCATION;
+		if (text.includes('nassau') && !text.includes('westchester')) location = 'Nassau County, NY';
+		else if (text.includes('westchester') && !text.includes('nassau')) location = 'Westchester County, NY';
+		const locationMatch = text.match(/(?:in|near|around)\s+([^,.]+)/i);
+		const extracted = locationMatch?.[1]?.trim();
+		if (extracted && !['a', 'the', 'our', 'my', 'this'].includes(extracted.split(' ')[0] || '')) {
+			location = extracted;
+		}
+		const isTournament = has(text, ['tournament', 'competition', 'match']);
+		const searchType: VenueProspectorParams['searchType'] =
+			has(text, ['profile', 'research']) ? 'venue-profile'
+			: has(text, ['outreach', 'email', 'contact']) ? 'outreach-plan'
+			: 'venue-search';
+		return {
+			...meta('keyword: venue terms', 'venue', searchType !== 'venue-search'),
+			agent: 'venue-prospector',
+			params: {
+				searchType,
+				location,
+				programType: isTournament ? 'tournament' : 'both',
+				tournamentCapable: isTournament,
+				venueName: searchType === 'venue-profile' ? request : undefined,
+				targetVenues: searchType === 'outreach-plan' ? [request] : undefined,
+			},
+		};
+	}
+
+	if (hits.content > 0) {
+		const platformMatch = text.match(/platform:\s*(\w+)/i);
+		const platform =
+			platformMatch?.[1] ? platformMatch[1]
+			: text.includes('linkedin') ? 'LinkedIn'
+			: text.includes('facebook') ? 'Facebook'
+			: text.includes('twitter') || text.includes(' x ') ? 'Twitter'
+			: text.includes('newsletter') || text.includes('email') ? 'Newsletter'
+			: text.includes('blog') ? 'Blog'
+			: 'Instagram';
+		const includeImage = has(text, ['image', 'photo', 'picture']) || undefined;
+		return { ...meta('keyword: content terms', 'content'), agent: 'content-creator', params: { topic: request, platform, includeImage } };
+	}
+
+	return {
+		confidence: 0,
+		reasoning: 'keyword: no rule matched',
+		source: 'keyword',
+		clarificationQuestion: 'Is this a social post, a video, a grant, donor research, or a venue search?',
+		agent: 'none',
+		params: {},
+	};
+}
+
+// --- Public API ---
+
+/**
+ * Classify a request into a RoutePlan. Never throws — falls back to the
+ * keyword rules if the model call fails.
+ */
+export async function routeIntent(request: string): Promise<RoutePlan> {
+	try {
+		const raw = await classifyWithLLM(request);
+		return toPlan(raw, request);
+	} catch (err) {
+		console.warn('[intent-router] LLM routing failed, using keyword fallback:', err instanceof Error ? err.message : err);
+		return keywordRoute(request);
+	}
+}
+
+/** True when the plan should be confirmed with the user instead of executed. */
+export function needsClarification(plan: RoutePlan): boolean {
+	return plan.agent === 'none' || plan.confidence < CLARIFY_THRESHOLD;
+}
@@ -0,0 +1,199 @@
+/**
+ * Routing fixtures for the Manager intent router.
+ *
+ * Each fixture pins the agent, task and the parameters that must be
+ * extracted for one representative request. `expectParams` is a subset
+ * match — extra params on the plan are fine. Add a fixture whenever a
+ * misroute is reported, so it stays fixed.
+ *
+ * Used by manager/eval.ts (live evals) and scripts/eval-manager-routing.ts.
+ *
+ * File: src/agent/manager/routing-fixtures.ts
+ */
+
+import type { RoutePlan } from './intent-router';
+
+export interface RoutingFixture {
+	request: string;
+	expectAgent: RoutePlan['agent'];
+	/** Task for video-editor/grant-writer, searchType for donor/venue. */
+	expectTask?: string;
+	expectParams?: Record<string, unknown>;
+	/** Expect the router to ask instead of act. */
+	expectClarification?: boolean;
+}
+
+export const ROUTING_FIXTURES: RoutingFixture[] = [
+	// --- Cross-domain requests the keyword chain used to misroute ---
+	{
+		request: 'Write a grant-funded video recap of the summer tennis camp for TikTok',
+		expectAgent: 'video-editor',
+		expectTask: 'edit',
+		expectParams: { platform: 'tiktok' },
+	},
+	{
+		request: 'LinkedIn post announcing the new grant we received from the Long Island Community Foundation',
+		expectAgent: 'content-creator',
+		expectParams: { platform: 'LinkedIn' },
+	},
+	{
+		request: 'Write an Instagram caption for the video of the kids at the US Open',
+		expectAgent: 'content-creator',
+		expectParams: { platform: 'Instagram' },
+	},
+	{
+		request: 'Find a sponsor for our tournament at a local accounting firm',
+		expectAgent: 'donor-researcher',
+		expectTask: 'prospect-search',
+		expectParams: { focusOnAccountingFirms: true },
+	},
+
+	// --- Video editor ---
+	{
+		request: 'Make a game day highlight reel from last weekend\'s match for Instagram Reels',
+		expectAgent: 'video-editor',
+		expectTask: 'edit',
+		expectParams: { editMode: 'game_day', platform: 'ig_reels' },
+	},
+	{
+		request: 'Cut an our-story video with the interview clips for YouTube Shorts',
+		expectAgent: 'video-editor',
+		expectTask: 'edit',
+		expectParams: { editMode: 'our_story', platform: 'youtube_shorts' },
+	},
+	{
+		request: 'What videos do we have in the Drive folder?',
+		expectAgent: 'video-editor',
+		expectTask: 'list-videos',
+	},
+	{
+		request: 'Organize and catalog the new footage',
+		expectAgent: 'video-editor',
+		expectTask: 'catalog',
+	},
+
+	// --- Grant writer ---
+	{
+		request: 'Find youth development grants with deadlines this year',
+		expectAgent: 'grant-writer',
+		expectTask: 'search',
+	},
+	{
+		request: 'Draft a letter of intent to the Hagedorn Foundation asking for $25,000 for our chess program',
+		expectAgent: 'grant-writer',
+		expectTask: 'write',
+		expectParams: { grantType: 'loi', funderName: 'Hagedorn Foundation', askAmount: 25000 },
+	},
+	{
+		request: 'Write the budget narrative for the Westchester tennis expansion proposal',
+		expectAgent: 'grant-writer',
+		expectTask: 'write',
+		expectParams: { grantType: 'budget-narrative' },
+	},
+	{
+		request: 'Thank-you letter to the Rauch Foundation for last year\'s grant',
+		expectAgent: 'grant-writer',
+		expectTask: 'write',
+		expectParams: { grantType: 'thank-you-letter' },
+	},
+
+	// --- Donor researcher ---
+	{
+		request: 'Do a deep dive on the Nassau County CPA firm Marks Paneth as a prospect',
+		expectAgent: 'donor-researcher',
+		expectTask: 'deep-dive',
+	},
+	{
+		request: 'How can we get an introduction to the Wilpon family office?',
+		expectAgent: 'donor-researcher',
+		expectTask: 'connection-map',
+	},
+
+	// --- Venue prospector ---
+	{
+		request: 'Find underutilized tennis courts in Hempstead we could use for a tournament',
+		expectAgent: 'venue-prospector',
+		expectTask: 'venue-search',
+		expectParams: { tournamentCapable: true },
+	},
+	{
+		request: 'Build an outreach plan for the Yonkers YMCA gym',
+		expectAgent: 'venue-prospector',
+		expectTask: 'outreach-plan',
+	},
+
+	// --- Content creator ---
+	{
+		request: 'Newsletter section about our chess students winning the state championship',
+		expectAgent: 'content-creator',
+		expectParams: { platform: 'Newsletter' },
+	},
+	{
+		request: 'Facebook post sharing a mentor success story with an image',
+		expectAgent: 'content-creator',
+		expectParams: { platform: 'Facebook', includeImage: true },
+	},
+
+	// --- Too vague: should ask, not act ---
+	{
+		request: 'Can you help with the thing for next week?',
+		expectAgent: 'none',
+		expectClarification: true,
+	},
+	{
+		request: 'Something for the Long Beach program',
+		expectAgent: 'none',
+		expectClarification: true,
+	},
+];
+
+/** Task-like field of a plan, for comparing against `expectTask`. */
+export function planTask(plan: RoutePlan): string | undefined {
+	switch (plan.agent) {
+		case 'video-editor':
+		case 'grant-writer':
+			return plan.params.task;
+		case 'donor-researcher':
+		case 'venue-prospector':
+			return plan.params.searchType;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Compare a plan against a fixture. Returns the list of mismatches
+ * (empty = pass). For clarification fixtures only the clarification
+ * decision is checked — the agent guess doesn't matter if we ask first.
+ */
+export function checkFixture(
+	fixture: RoutingFixture,
+	plan: RoutePlan,
+	askedForClarification: boolean,
+): string[] {
+	if (fixture.expectClarification) {
+		return askedForClarification ? [] : [`expected clarification, got ${plan.agent} (${plan.confidence.toFixed(2)})`];
+	}
+
+	const problems: string[] = [];
+	if (askedForClarification) problems.push(`unexpected clarification (${plan.confidence.toFixed(2)})`);
+	if (plan.agent !== fixture.expectAgent) problems.push(`agent ${plan.agent} ≠ ${fixture.expectAgent}`);
+
+	const task = planTask(plan);
+	if (fixture.expectTask && task !== fixture.expectTask) problems.push(`task ${task} ≠ ${fixture.expectTask}`);
+
+	const params = plan.params as Record<string, unknown>;
+	for (const [key, expected] of Object.entries(fixture.expectParams || {})) {
+		const actual = params[key];
+		const matches = typeof expected === 'string' && typeof actual === 'string'
+			? actual.toLowerCase() === expected.toLowerCase()
+			: actual === expected;
+		if (!matches) problems.push(`${key}=${JSON.stringify(actual)} ≠ ${JSON.stringify(expected)}`);
+	}
+	return problems;
+}
+
+export function findFixture(request: string): RoutingFixture | undefined {
+	const normalized = request.trim().toLowerCase();
+	return ROUTING_FIXTURES.find(f => f.request.toLowerCase() === normalized);
+}
@@ -0,0 +1,125 @@
+/**
+ * Workflow Run Store
+ *
+ * Persists Manager workflow runs so they survive restarts and can be
+ * resumed. Uses the Supabase workflow_runs table when Supabase is
+ * configured (see docs/workflow_runs_schema.sql), else a JSON file on the
+ * persistent volume.
+ *
+ * Every save bumps the run's version. claimWorkflowRun() writes only if
+ * the version is unchanged since it read the run and no other executor
+ * holds a live claim, so one run never executes twice at once.
+ *
+ * File: src/agent/manager/workflow-store.ts
+ */
+
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import type { WorkflowRun } from './workflows';
+
+const RUNS_FILE_PATH = persistentPath('workflow-runs.json');
+const MAX_FILE_RUNS = 100;
+
+function readRunsFile(): WorkflowRun[] {
+	return readJsonFile<WorkflowRun[]>(RUNS_FILE_PATH, [], 'workflow-store');
+}
+
+function toRow(run: WorkflowRun) {
+	return {
+		run_id: run.runId,
+		workflow_id: run.workflowId,
+		status: run.status,
+		run,
+		version: run.version ?? 0,
+		created_at: run.createdAt,
+		updated_at: run.updatedAt,
+	};
+}
+
+function writeRunsFile(run: WorkflowRun): void {
+	const runs = readRunsFile().filter(r => r.runId !== run.runId);
+	runs.unshift(run);
+	writeJsonFile(RUNS_FILE_PATH, runs.slice(0, MAX_FILE_RUNS));
+}
+
+/** Save the run as its executor — the claim holder — and bump its version. */
+export async function saveWorkflowRun(run: WorkflowRun): Promise<void> {
+	run.version = (run.version ?? 0) + 1;
+	if (supabaseAdmin) {
+		const { error } = await supabaseAdmin.from('workflow_runs').upsert(toRow(run), { onConflict: 'run_id' });
+		if (error) throw new Error(`workflow_runs upsert failed: ${error.message}`);
+		return;
+	}
+	writeRunsFile(run);
+}
+
+/**
+ * Claim a run for execution as `claimId`: the stored run (or `run` itself
+ * when it was never saved) with the claim set. Null when another executor
+ * holds a claim younger than `staleAfterMs`, or the run was saved between
+ * the read and the write.
+ */
+export async function claimWorkflowRun(run: WorkflowRun, claimId: string, staleAfterMs: number): Promise<WorkflowRun | null> {
+	const stored = await getWorkflowRun(run.runId);
+	const claim = stored?.claim;
+	if (claim && claim.id !== claimId && Date.now() - Date.parse(claim.at) < staleAfterMs) return null;
+
+	const expectedVersion = stored?.version ?? 0;
+	const claimed: WorkflowRun = {
+		...(stored ?? run),
+		claim: { id: claimId, at: new Date().toISOString() },
+		version: expectedVersion + 1,
+	};
+
+	if (supabaseAdmin) {
+		if (!stored) {
+			const { error } = await supabaseAdmin.from('workflow_runs').insert(toRow(claimed));
+			if (error?.code === '23505') return null;
+			if (error) throw new Error(`workflow_runs insert failed: ${error.message}`);
+			return claimed;
+		}
+		const { data, error } = await supabaseAdmin
+			.from('workflow_runs')
+			.update(toRow(claimed))
+			.eq('run_id', run.runId)
+			.eq('version', expectedVersion)
+			.select('run_id');
+		if (error) throw new Error(`workflow_runs update failed: ${error.message}`);
+		return (data || []).length > 0 ? claimed : null;
+	}
+
+	// Synchronous read-check-write — can't interleave within the process
+	const current = readRunsFile().find(r => r.runId === run.runId);
+	if ((current?.version ?? 0) !== expectedVersion || (!current && stored)) return null;
+	writeRunsFile(claimed);
+	return claimed;
+}
+
+export async function getWorkflowRun(runId: string): Promise<WorkflowRun | null> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('workflow_runs')
+			.select('run')
+			.eq('run_id', runId)
+			.maybeSingle();
+		if (error) throw new Error(`workflow_runs read failed: ${error.message}`);
+		return (data?.run as WorkflowRun | undefined) ?? null;
+	}
+	return readRunsFile().find(r => r.runId === runId) ?? null;
+}
+
+/** Most recent runs first. */
+export async function listWorkflowRuns(limit = 20): Promise<WorkflowRun[]> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('workflow_runs')
+			.select('run')
+			.order('created_at', { ascending: false })
+			.limit(limit);
+		if (error) throw new Error(`workflow_runs read failed: ${error.message}`);
+		return (data || []).map(row => row.run as WorkflowRun);
+	}
+	return readRunsFile()
+		.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+		.slice(0, limit);
+}
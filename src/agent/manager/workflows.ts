@@ -0,0 +1,342 @@
+/**
+ * Manager Workflows
+ *
+ * Declarative multi-step workflows that chain agents: each step names an
+ * agent and an input object whose string values may reference the
+ * workflow input or earlier step outputs:
+ *
+ *   '{{input.topic}}'                                   — workflow input
+ *   '{{steps.search.opportunities.0.funderName}}'       — earlier step output
+ *   '{{steps.search.opportunities.0.funderName ?? a local funder}}'  — with fallback
+ *
+ * A string that is exactly one reference keeps the referenced value's type
+ * (arrays, numbers); otherwise references are interpolated as text.
+ *
+ * Every run is persisted after each step change (workflow-store.ts), so a
+ * failed run can be resumed from the failed step, or re-run from any step,
+ * without repeating the steps before it. An executor claims the run first,
+ * so a second request for the same workflowRunId is refused while the
+ * first is still running.
+ *
+ * File: src/agent/manager/workflows.ts
+ */
+
+import type { RoutedAgent } from './intent-router';
+import { dispatchAgent } from './dispatch';
+import { claimWorkflowRun, saveWorkflowRun } from './workflow-store';
+
+// --- Types ---
+
+export interface WorkflowStepDefinition {
+	id: string;
+	label: string;
+	agent: RoutedAgent;
+	input: Record<string, unknown>;
+}
+
+export interface WorkflowDefinition {
+	id: string;
+	name: string;
+	description: string;
+	/** Workflow input keys the caller must provide. */
+	requiredInput: string[];
+	steps: WorkflowStepDefinition[];
+}
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'done' | 'failed';
+export type WorkflowRunStatus = 'running' | 'done' | 'failed';
+
+export interface WorkflowStepRun {
+	id: string;
+	label: string;
+	agent: RoutedAgent;
+	status: WorkflowStepStatus;
+	resolvedInput?: Record<string, unknown>;
+	output?: unknown;
+	error?: string;
+	startedAt?: string;
+	finishedAt?: string;
+	attempts: number;
+}
+
+export interface WorkflowRun {
+	runId: string;
+	workflowId: string;
+	status: WorkflowRunStatus;
+	input: Record<string, unknown>;
+	steps: WorkflowStepRun[];
+	createdAt: string;
+	updatedAt: string;
+	finishedAt?: string;
+	error?: string;
+	/** Bumped on every save — the claim's optimistic check. */
+	version?: number;
+	/** Set while an executor runs the run; refreshed on every save. */
+	claim?: { id: string; at: string };
+}
+
+// --- Constants ---
+
+/** A claim not refreshed for this long is from an executor that died mid-run. */
+const CLAIM_TIMEOUT_MS = 30 * 60 * 1000;
+
+// --- Definitions ---
+
+export const WORKFLOWS: WorkflowDefinition[] = [
+	{
+		id: 'grant-loi-announcement',
+		name: 'Grant → LOI → LinkedIn announcement',
+		description: 'Find the best-fit grant, draft a letter of intent to that funder, then write a LinkedIn post announcing the application.',
+		requiredInput: ['topic'],
+		steps: [
+			{
+				id: 'search',
+				label: 'Find grant',
+				agent: 'grant-writer',
+				input: {
+					task: 'search',
+					searchFocus: '{{input.topic}}',
+					// Optional — grant-writer defaults to the current year
+					maxDeadlineYear: '{{input.maxDeadlineYear ?? }}',
+				},
+			},
+			{
+				id: 'loi',
+				label: 'Draft LOI',
+				agent: 'grant-writer',
+				input: {
+					task: 'write',
+					grantType: 'loi',
+					funderName: '{{steps.search.opportunities.0.funderName}}',
+					funderFocus: '{{steps.search.opportunities.0.description}}',
+					projectDescription: '{{input.topic}}',
+					askAmount: '{{input.askAmount ?? }}',
+				},
+			},
+			{
+				id: 'announce',
+				label: 'LinkedIn announcement',
+				agent: 'content-creator',
+				input: {
+					topic: 'We just applied to the {{steps.search.opportunities.0.grantProgramName}} from {{steps.search.opportunities.0.funderName}} to support {{input.topic}}. Share why this matters for our kids — do not state that the grant was awarded.',
+					platform: 'LinkedIn',
+				},
+			},
+		],
+	},
+	{
+		id: 'video-with-caption',
+		name: 'Render video → caption',
+		description: 'Run the autonomous edit/render/review pipeline on the given footage, then write a caption for the finished video.',
+		requiredInput: ['videoIds', 'topic'],
+		steps: [
+			{
+				id: 'render',
+				label: 'Render video',
+				agent: 'video-editor',
+				input: {
+					task: 'auto-process',
+					videoIds: '{{input.videoIds}}',
+					topic: '{{input.topic}}',
+					platform: '{{input.platform ?? tiktok}}',
+					editMode: '{{input.editMode ?? game_day}}',
+					appUrl: '{{input.appUrl}}',
+				},
+			},
+			{
+				id: 'caption',
+				label: 'Write caption',
+				agent: 'content-creator',
+				input: {
+					topic: 'Caption for our new {{input.platform ?? tiktok}} video about {{input.topic}}. Video: {{steps.render.publicUrl ?? }}',
+					platform: '{{input.captionPlatform ?? Instagram}}',
+				},
+			},
+		],
+	},
+];
+
+export function getWorkflow(id: string): WorkflowDefinition | undefined {
+	return WORKFLOWS.find(w => w.id === id);
+}
+
+// --- Template Resolution ---
+
+const REF_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const WHOLE_REF_PATTERN = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+interface TemplateScope {
+	input: Record<string, unknown>;
+	steps: Record<string, unknown>;
+}
+
+function lookup(scope: TemplateScope, expression: string): unknown {
+	const [pathPart, fallback] = expression.split('??').map(p => p.trim());
+	const segments = (pathPart || '').split('.');
+	let value: unknown = scope;
+	for (const segment of segments) {
+		if (value === null || value === undefined) break;
+		value = (value as Record<string, unknown>)[segment];
+	}
+
+	if (value === undefined || value === null || value === '') {
+		if (fallback !== undefined) {
+			// "?? " with nothing after it means "optional — leave it out"
+			if (fallback === '') return undefined;
+			const asNumber = Number(fallback);
+			return Number.isFinite(asNumber) ? asNumber : fallback;
+		}
+		throw new Error(`Template reference {{${pathPart}}} has no value`);
+	}
+	return value;
+}
+
+function resolveValue(value: unknown, scope: TemplateScope): unknown {
+	if (typeof value === 'string') {
+		const whole = value.match(WHOLE_REF_PATTERN);
+		if (whole) return lookup(scope, whole[1]!);
+		return value.replace(REF_PATTERN, (_m, expr: string) => {
+			const resolved = lookup(scope, expr);
+			return resolved === undefined ? '' : typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+		});
+	}
+	if (Array.isArray(value)) return value.map(v => resolveValue(v, scope));
+	if (value && typeof value === 'object') {
+		const out: Record<string, unknown> = {};
+		for (const [key, v] of Object.entries(value)) {
+			const resolved = resolveValue(v, scope);
+			if (resolved !== undefined) out[key] = resolved;
+		}
+		return out;
+	}
+	return value;
+}
+
+// --- Engine ---
+
+/**
+ * Agents report failure in their output rather than by throwing
+ * (`success: false`, `error: '...'`). Treat those as step failures.
+ */
+function outputFailure(output: unknown): string | null {
+	if (!output || typeof output !== 'object') return null;
+	const o = output as { success?: boolean; error?: string; message?: string };
+	if (o.success === false) return o.error || o.message || 'Agent reported failure';
+	return null;
+}
+
+export function createWorkflowRun(definition: WorkflowDefinition, input: Record<string, unknown>): WorkflowRun {
+	const missing = definition.requiredInput.filter(key => input[key] === undefined || input[key] === '');
+	if (missing.length > 0) {
+		throw new Error(`Workflow ${definition.id} needs input: ${missing.join(', ')}`);
+	}
+
+	const now = new Date().toISOString();
+	return {
+		runId: `wf_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		workflowId: definition.id,
+		status: 'running',
+		input,
+		steps: definition.steps.map(step => ({
+			id: step.id,
+			label: step.label,
+			agent: step.agent,
+			status: 'pending',
+			attempts: 0,
+		})),
+		createdAt: now,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Execute a run's pending steps in order, persisting after every change.
+ *
+ * `fromStep` re-runs that step and everything after it, even if they were
+ * done. Without it, done steps are kept and execution resumes at the
+ * first step that isn't done — i.e. the failed one.
+ */
+export async function executeWorkflowRun(
+	run: WorkflowRun,
+	options: { fromStep?: string; logger?: { info: (msg: string, ...args: unknown[]) => void } } = {},
+): Promise<WorkflowRun> {
+	const definition = getWorkflow(run.workflowId);
+	if (!definition) throw new Error(`Unknown workflow: ${run.workflowId}`);
+
+	const log = options.logger?.info ?? ((msg: string, ...args: unknown[]) => console.log(`[workflows] ${msg}`, ...args));
+
+	const claimId = `exec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	const claimed = await claimWorkflowRun(run, claimId, CLAIM_TIMEOUT_MS);
+	if (!claimed) {
+		throw new Error(`Workflow run ${run.runId} is already running — wait for it to finish before resuming it`);
+	}
+	run = claimed;
+
+	if (options.fromStep) {
+		const startIdx = run.steps.findIndex(s => s.id === options.fromStep);
+		if (startIdx === -1) throw new Error(`Workflow ${run.workflowId} has no step "${options.fromStep}"`);
+		for (const step of run.steps.slice(startIdx)) {
+			step.status = 'pending';
+			step.output = undefined;
+			step.error = undefined;
+		}
+	}
+
+	const touch = async () => {
+		run.updatedAt = new Date().toISOString();
+		if (run.claim) run.claim.at = run.updatedAt;
+		await saveWorkflowRun(run);
+	};
+
+	run.status = 'running';
+	run.error = undefined;
+	run.finishedAt = undefined;
+	await touch();
+
+	for (const stepDef of definition.steps) {
+		const step = run.steps.find(s => s.id === stepDef.id)!;
+		if (step.status === 'done') continue;
+
+		const scope: TemplateScope = {
+			input: run.input,
+			steps: Object.fromEntries(run.steps.filter(s => s.status === 'done').map(s => [s.id, s.output])),
+		};
+
+		step.status = 'running';
+		step.startedAt = new Date().toISOString();
+		step.finishedAt = undefined;
+		step.error = undefined;
+		step.attempts++;
+		await touch();
+		log('Workflow %s step %s → %s', run.runId, step.id, step.agent);
+
+		try {
+			step.resolvedInput = resolveValue(stepDef.input, scope) as Record<string, unknown>;
+			const output = await dispatchAgent(stepDef.agent, step.resolvedInput);
+			const failure = outputFailure(output);
+			step.output = output;
+			if (failure) throw new Error(failure);
+			step.status = 'done';
+			step.finishedAt = new Date().toISOString();
+			await touch();
+		} catch (err) {
+			step.status = 'failed';
+			step.error = err instanceof Error ? err.message : String(err);
+			step.finishedAt = new Date().toISOString();
+			run.status = 'failed';
+			run.error = `Step "${step.label}" failed: ${step.error}`;
+			run.finishedAt = step.finishedAt;
+			run.claim = undefined;
+			await touch();
+			log('Workflow %s failed at %s: %s', run.runId, step.id, step.error);
+			return run;
+		}
+	}
+
+	run.status = 'done';
+	run.finishedAt = new Date().toISOString();
+	run.claim = undefined;
+	await touch();
+	log('Workflow %s done (%d steps)', run.runId, run.steps.length);
+	return run;
+}
@@ -15,17 +15,29 @@ import { createAgent } from '@agentuity/runtime';
 import { s } from '@agentuity/schema';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
+import {
+	executiveDirector,
+	formatServiceArea,
+	formatStates,
+	getMetric,
+	loadOrgProfile,
+	type OrganizationProfile,
+} from '../../lib/org-profile';
 
 // ---------------------------------------------------------------------------
-// CLC venue context — focused on Nassau & Westchester
+// CLC venue context — focused on Nassau & Westchester. Who CLC is comes
+// from the organization profile (src/lib/org-profile.ts).
 // ---------------------------------------------------------------------------
 
-const CLC_VENUE_CONTEXT = `
-## Community Literacy Club — Venue Prospecting Profile
+function buildVenueContext(profile: OrganizationProfile): string {
+	const ed = executiveDirector(profile);
+	return `
+## ${profile.name} — Venue Prospecting Profile
 
-**Organization:** Community Literacy Club (CLC)
-**Executive Director:** Kimberly Gordon
-**Mission:** Bring tennis, chess, and life skills to underserved youth in unconventional spaces
+**Organization:** ${profile.name} (${profile.shortName})
+${ed ? `**${ed.title}:** ${ed.name}\n` : ''}**Mission:** ${profile.mission}
+**Current Sites:** ${formatServiceArea(profile)}
+**Impact:** ${profile.metrics.map(m => `${m.value} ${m.label}`).join(' · ')}
 
 ### What CLC Needs from Venues
 
@@ -129,6 +141,7 @@ Rate each venue on these factors (each 1-10, combined for fitScore):
 
 A venue with a fitScore of 7+ is a strong prospect. 5-6 is worth exploring. Below 5 may not be worth the effort.
 `;
+}
 
 // ---------------------------------------------------------------------------
 // Venue types
@@ -274,6 +287,8 @@ const agent = createAgent('venue-prospector', {
 		targetVenues = [],
 	}) => {
 		ctx.logger.info('Venue Prospector: %s in %s', searchType, location);
+		const profile = await loadOrgProfile(ctx.logger);
+		const venueContext = buildVenueContext(profile);
 
 		// =====================================================================
 		// VENUE SEARCH
@@ -329,7 +344,7 @@ For each venue, rate tournament potential specifically.
 				model: openai('gpt-5-mini'),
 				prompt: `You are a venue research specialist for a youth nonprofit. Generate a list of 10-12 potential venues for Community Literacy Club in the specified area.
 
-${CLC_VENUE_CONTEXT}
+${venueContext}
 
 ${tournamentInstructions}
 
@@ -429,7 +444,7 @@ Return as a JSON array. Return ONLY valid JSON:`,
 				model: openai('gpt-5-mini'),
 				prompt: `You are a venue research specialist. Provide a detailed profile of "${venueName}" for a youth nonprofit seeking to run programs and tournaments there.
 
-${CLC_VENUE_CONTEXT}
+${venueContext}
 
 ${venueAddress ? `Address: ${venueAddress}` : ''}
 
@@ -517,7 +532,7 @@ Return ONLY valid JSON:`,
 				model: openai('gpt-5-mini'),
 				prompt: `You are helping a youth nonprofit create an outreach plan to approach potential venue partners in ${location}.
 
-${CLC_VENUE_CONTEXT}
+${venueContext}
 
 Target Venues: ${targetVenues.join(', ')}
 
@@ -594,7 +609,9 @@ Return ONLY valid JSON:`,
 						priority: 'medium',
 						approach: 'Direct contact recommended',
 						talkingPoints: [
-							'CLC serves 400+ kids across NY, NJ, CT',
+							getMetric(profile, 'youth_served')
+								? `CLC serves ${getMetric(profile, 'youth_served')!.value} kids across ${formatStates(profile)}`
+								: `CLC runs programs across ${formatStates(profile)}`,
 							'We provide all equipment and coaches',
 							'Flexible scheduling around your existing programs',
 							'Our programs are grant-funded — no cost to your venue',
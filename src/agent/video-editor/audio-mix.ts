@@ -0,0 +1,403 @@
+/**
+ * Audio Mix Stage — duck music under speech, normalize to platform loudness
+ *
+ * CLCVideo used to play the soundtrack at a flat musicVolume, so music sat
+ * on top of interview answers and kids' voices. This stage:
+ *
+ *   1. Analyzes each clip's trim window locally — an energy VAD finds the
+ *      speech regions, ffmpeg's loudnorm pass measures integrated loudness.
+ *   2. resolveAudioMix() lays the speech out on a render timeline and turns
+ *      it into a music volume envelope (ramp down just before speech, hold
+ *      ducked, release after) plus per-clip gains that bring each clip to
+ *      the platform loudness target (-14 LUFS for the social feeds).
+ *
+ * Speech regions are kept relative to each clip's first OUTPUT frame (speed
+ * applied), like ClipCaptions, so one analysis lays out on the Remotion
+ * timeline (applyAudioMix) or on Shotstack's (timelineClipStarts).
+ *
+ * Remotion and Shotstack can't measure their own output, so there the mix
+ * is normalized by gains computed from measured levels. The local engine
+ * also runs a final loudnorm on the mix (props.loudnessTarget).
+ *
+ * Per-clip failures are logged and skipped — a clip without analysis just
+ * keeps its original level. The mix must never fail a render.
+ *
+ * NOTE: Uses execFile (not execSync) for FFmpeg — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/audio-mix.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import type { CLCVideoProps, MusicVolumeKeyframe } from './remotion/types';
+import { computeClipStartFrames, extractClipAudio } from './transcription';
+import { findMusicTrackByUrl } from './music-library';
+
+// --- Types ---
+
+/** Speech within one clip, ms from the clip's first output frame. */
+export interface SpeechRegion {
+	fromMs: number;
+	toMs: number;
+}
+
+export interface ClipAudioAnalysis {
+	clipIndex: number;
+	speech: SpeechRegion[];
+	/** Integrated loudness of the trim window; null when the clip is silent. */
+	loudnessLufs: number | null;
+}
+
+/** Output of the mix stage — platform-independent, resolved per render. */
+export interface AudioMix {
+	clips: ClipAudioAnalysis[];
+	/** Measured loudness of the soundtrack (music library ingest), when known. */
+	musicLoudnessLufs?: number;
+}
+
+/** Music volume at a timeline second; linear between points. */
+export interface MusicVolumePoint {
+	at: number;
+	volume: number;
+}
+
+export interface ResolvedAudioMix {
+	targetLufs: number;
+	/** Music level when nobody is speaking. */
+	musicVolume: number;
+	/** Empty when the render has no music or no speech. */
+	musicEnvelope: MusicVolumePoint[];
+	/** Gain per clip (undefined = not analyzed, leave as is). */
+	clipVolumes: Array<number | undefined>;
+}
+
+/** Edit plan clip fields the mix stage reads. */
+export interface AudioMixClipInput {
+	fileId: string;
+	filename?: string;
+	trimStart?: number;
+	duration?: number;
+	speed?: number;
+}
+
+interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+// --- Constants ---
+
+/** Integrated loudness targets (LUFS) — what each platform normalizes playback to. */
+export const PLATFORM_LOUDNESS_TARGETS: Record<string, number> = {
+	tiktok: -14,
+	ig_reels: -14,
+	ig_feed: -14,
+	youtube: -14,
+	facebook: -16,
+	linkedin: -16,
+	linkedin_square: -16,
+};
+const DEFAULT_LOUDNESS_TARGET = -14;
+
+/** Music bed under non-speech footage, relative to the target. */
+const MUSIC_BED_DB = -6;
+/** How far music drops under speech. */
+const DUCK_DEPTH_DB = 12;
+/** Clip audio without speech (crowd, squeaks) sits under the music bed. */
+const AMBIENT_OFFSET_DB = -6;
+/** Flat music level when its loudness was never measured — the old fixed value. */
+const DEFAULT_MUSIC_VOLUME = 0.3;
+const MAX_CLIP_GAIN = 2;          // +6 dB — beyond that we only amplify noise
+const MIN_CLIP_GAIN = 0.1;
+
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.5;
+/** Pauses shorter than this stay ducked instead of pumping the music back up. */
+const DUCK_HOLD_GAP_SECONDS = 0.6;
+
+// VAD
+const VAD_SAMPLE_RATE = 16000;
+const VAD_FRAME = 480;            // 30 ms
+const VAD_HOP = 160;              // 10 ms
+const VAD_THRESHOLD_DB = 9;       // above the clip's noise floor
+const VAD_MIN_DB = -50;           // never call anything quieter speech
+const VAD_MERGE_GAP_MS = 300;
+const VAD_MIN_REGION_MS = 250;
+const VAD_PAD_MS = 100;
+
+const TEMP_DIR = path.join(process.cwd(), '.temp-cataloger');
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+const clamp = (n: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, n));
+
+// --- Helpers ---
+
+function run(file: string, args: string[], timeoutMs = 120_000): Promise<{ stdout: Buffer; stderr: string }> {
+	return new Promise((resolve, reject) => {
+		execFile(file, args, { timeout: timeoutMs, maxBuffer: 256 * 1024 * 1024, encoding: 'buffer' }, (error, stdout, stderr) => {
+			if (error) reject(new Error(stderr.toString() || error.message));
+			else resolve({ stdout, stderr: stderr.toString() });
+		});
+	});
+}
+
+/** Mono 16 kHz float PCM of a clip's audio. */
+async function decodeMono(source: string): Promise<Float32Array> {
+	const { stdout } = await run('ffmpeg', [
+		'-hide_banner', '-nostats', '-i', source,
+		'-vn', '-ac', '1', '-ar', String(VAD_SAMPLE_RATE), '-f', 'f32le', 'pipe:1',
+	]);
+	// Copy out — the Buffer's byteOffset need not be 4-aligned
+	const bytes = stdout.byteLength - (stdout.byteLength % 4);
+	const copy = new ArrayBuffer(bytes);
+	new Uint8Array(copy).set(stdout.subarray(0, bytes));
+	return new Float32Array(copy);
+}
+
+/** Integrated loudness (LUFS) from ffmpeg's loudnorm analysis pass; null for silence. */
+async function measureLoudness(source: string): Promise<number | null> {
+	const { stderr } = await run('ffmpeg', ['-hide_banner', '-nostats', '-i', source, '-vn', '-af', 'loudnorm=print_format=json', '-f', 'null', '-']);
+	const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+	try {
+		const value = Number((JSON.parse(json) as { input_i?: string }).input_i);
+		return Number.isFinite(value) && value > -70 ? round3(value) : null;
+	} catch {
+		return null;
+	}
+}
+
+// --- Speech Detection ---
+
+/**
+ * Energy VAD: 30 ms frames, after a 200 Hz high-pass to drop wind and HVAC
+ * rumble. A frame is speech when it is 9 dB above the clip's noise floor
+ * (10th percentile frame level) — relative, so a loud gym still works.
+ * Regions are merged across short pauses, padded, and tiny blips dropped.
+ * Returns ms from the start of `samples`.
+ */
+export function detectSpeech(samples: Float32Array, sampleRate = VAD_SAMPLE_RATE): SpeechRegion[] {
+	if (samples.length < VAD_FRAME) return [];
+
+	// One-pole high-pass
+	const rc = 1 / (2 * Math.PI * 200);
+	const alpha = rc / (rc + 1 / sampleRate);
+	const filtered = new Float32Array(samples.length);
+	for (let i = 1; i < samples.length; i++) {
+		filtered[i] = alpha * (filtered[i - 1]! + samples[i]! - samples[i - 1]!);
+	}
+
+	const levels: number[] = [];
+	for (let start = 0; start + VAD_FRAME <= filtered.length; start += VAD_HOP) {
+		let sum = 0;
+		for (let i = start; i < start + VAD_FRAME; i++) sum += filtered[i]! * filtered[i]!;
+		levels.push(10 * Math.log10(sum / VAD_FRAME + 1e-12));
+	}
+
+	const sorted = [...levels].sort((a, b) => a - b);
+	const floor = sorted[Math.floor(sorted.length * 0.1)]!;
+	const threshold = Math.max(floor + VAD_THRESHOLD_DB, VAD_MIN_DB);
+
+	const hopMs = (VAD_HOP / sampleRate) * 1000;
+	const frameMs = (VAD_FRAME / sampleRate) * 1000;
+	const raw: SpeechRegion[] = [];
+	levels.forEach((level, frame) => {
+		if (level < threshold) return;
+		const fromMs = frame * hopMs;
+		const toMs = fromMs + frameMs;
+		const last = raw[raw.length - 1];
+		if (last && fromMs - last.toMs <= VAD_MERGE_GAP_MS) last.toMs = toMs;
+		else raw.push({ fromMs, toMs });
+	});
+
+	const totalMs = (samples.length / sampleRate) * 1000;
+	return raw
+		.filter(r => r.toMs - r.fromMs >= VAD_MIN_REGION_MS)
+		.map(r => ({
+			fromMs: Math.round(Math.max(0, r.fromMs - VAD_PAD_MS)),
+			toMs: Math.round(Math.min(totalMs, r.toMs + VAD_PAD_MS)),
+		}));
+}
+
+// --- Mix Stage ---
+
+/**
+ * Analyze the clips of an edit plan for the mix.
+ *
+ * `sources` (optional, same order as clips) are local files already trimmed
+ * and speed-changed — the Shotstack path's preprocessed clips — and are
+ * analyzed whole. Otherwise each trim window is pulled from Drive like the
+ * caption stage does, and speech is re-timed for the clip's speed.
+ */
+export async function analyzeEditPlanAudio(
+	clips: AudioMixClipInput[],
+	options: {
+		musicUrl?: string | null;
+		sources?: string[];
+		logger?: Logger;
+	} = {},
+): Promise<AudioMix> {
+	const logger = options.logger;
+	const results: ClipAudioAnalysis[] = [];
+
+	for (let clipIndex = 0; clipIndex < clips.length; clipIndex++) {
+		const clip = clips[clipIndex]!;
+		const source = options.sources?.[clipIndex];
+		const trimStart = clip.trimStart || 0;
+		const duration = clip.duration || 5;
+		const speed = source ? 1 : (clip.speed && clip.speed > 0 ? clip.speed : 1);
+		let audioPath: string | undefined;
+
+		try {
+			if (!source) {
+				if (!fs.existsSync(TEMP_DIR)) fs.mkdirSync(TEMP_DIR, { recursive: true });
+				audioPath = await extractClipAudio(
+					clip.fileId,
+					trimStart,
+					duration,
+					path.join(TEMP_DIR, `mix_${clipIndex}_${Date.now()}.wav`),
+					logger,
+				);
+			}
+			const input = source ?? audioPath!;
+			const [samples, loudnessLufs] = await Promise.all([decodeMono(input), measureLoudness(input)]);
+			const speech = loudnessLufs === null ? [] : detectSpeech(samples).map(r => ({
+				fromMs: Math.round(r.fromMs / speed),
+				toMs: Math.round(r.toMs / speed),
+			}));
+
+			logger?.info('[audio-mix] Clip %d (%s): %s LUFS, %d speech regions',
+				clipIndex, clip.filename || clip.fileId, loudnessLufs ?? 'silent', speech.length);
+			results.push({ clipIndex, speech, loudnessLufs });
+		} catch (err) {
+			logger?.warn?.('[audio-mix] Clip %d (%s) failed, leaving its level alone: %s',
+				clipIndex, clip.filename || clip.fileId, err instanceof Error ? err.message : String(err));
+		} finally {
+			try { if (audioPath && fs.existsSync(audioPath)) fs.unlinkSync(audioPath); } catch { /* best effort */ }
+		}
+	}
+
+	const musicTrack = options.musicUrl ? await findMusicTrackByUrl(options.musicUrl).catch(() => null) : null;
+	return { clips: results, musicLoudnessLufs: musicTrack?.loudnessLufs };
+}
+
+// --- Envelope ---
+
+/**
+ * Music volume envelope for speech regions on the timeline (seconds).
+ * Ramps down over the attack before each region, holds `ducked`, and
+ * releases back to `base`; pauses under DUCK_HOLD_GAP_SECONDS stay ducked.
+ * Returns [] when there is nothing to duck.
+ */
+export function buildDuckingEnvelope(
+	speech: Array<{ start: number; end: number }>,
+	duration: number,
+	base: number,
+	ducked: number,
+): MusicVolumePoint[] {
+	const regions: Array<{ start: number; end: number }> = [];
+	for (const region of [...speech].sort((a, b) => a.start - b.start)) {
+		const start = Math.max(0, region.start);
+		const end = Math.min(duration, region.end);
+		if (end <= start) continue;
+		const last = regions[regions.length - 1];
+		if (last && start - last.end < DUCK_HOLD_GAP_SECONDS) last.end = Math.max(last.end, end);
+		else regions.push({ start, end });
+	}
+	if (regions.length === 0) return [];
+
+	const points: MusicVolumePoint[] = [{ at: 0, volume: base }];
+	const add = (at: number, volume: number) => {
+		const last = points[points.length - 1]!;
+		const t = round3(Math.max(at, last.at));
+		if (t === last.at) last.volume = volume;
+		else points.push({ at: t, volume });
+	};
+	for (const region of regions) {
+		add(region.start - DUCK_ATTACK_SECONDS, base);
+		add(region.start, ducked);
+		add(region.end, ducked);
+		add(Math.min(duration, region.end + DUCK_RELEASE_SECONDS), base);
+	}
+	add(duration, points[points.length - 1]!.volume);
+	return points.map(p => ({ at: p.at, volume: round3(p.volume) }));
+}
+
+/**
+ * Lay an AudioMix out on a timeline: clip gains toward the platform target,
+ * the music level, and the ducking envelope. `clipStarts` are seconds from
+ * the start of the render, same order as the edit plan clips.
+ */
+export function resolveAudioMix(
+	mix: AudioMix,
+	layout: { clipStarts: number[]; duration: number },
+	options: { platform: string; hasMusic: boolean },
+): ResolvedAudioMix {
+	const targetLufs = PLATFORM_LOUDNESS_TARGETS[options.platform] ?? DEFAULT_LOUDNESS_TARGET;
+
+	const clipVolumes: Array<number | undefined> = layout.clipStarts.map(() => undefined);
+	const speech: Array<{ start: number; end: number }> = [];
+	for (const clip of mix.clips) {
+		const start = layout.clipStarts[clip.clipIndex];
+		if (start === undefined) continue;
+		if (clip.loudnessLufs !== null) {
+			const clipTarget = clip.speech.length > 0 || !options.hasMusic ? targetLufs : targetLufs + AMBIENT_OFFSET_DB;
+			clipVolumes[clip.clipIndex] = round3(clamp(dbToGain(clipTarget - clip.loudnessLufs), MIN_CLIP_GAIN, MAX_CLIP_GAIN));
+		}
+		for (const region of clip.speech) {
+			speech.push({ start: start + region.fromMs / 1000, end: start + region.toMs / 1000 });
+		}
+	}
+
+	const musicVolume = mix.musicLoudnessLufs !== undefined
+		? round3(clamp(dbToGain(targetLufs + MUSIC_BED_DB - mix.musicLoudnessLufs), 0.05, 1))
+		: DEFAULT_MUSIC_VOLUME;
+	const musicEnvelope = options.hasMusic
+		? buildDuckingEnvelope(speech, layout.duration, musicVolume, musicVolume * dbToGain(-DUCK_DEPTH_DB))
+		: [];
+
+	return { targetLufs, musicVolume, musicEnvelope, clipVolumes };
+}
+
+/**
+ * Apply an AudioMix to CLCVideoProps — clip volumes, musicVolume, the
+ * envelope as frame keyframes, and loudnessTarget. Clip starts come from
+ * the same TransitionSeries layout the captions use. No-op without a mix.
+ */
+export function applyAudioMix(props: CLCVideoProps, mix: AudioMix | undefined, platform: string): CLCVideoProps {
+	if (!mix || props.clips.length === 0) return props;
+
+	const { fps, transitionDurationFrames } = props;
+	const startFrames = computeClipStartFrames(props.clips, fps, transitionDurationFrames);
+	const lastClip = props.clips[props.clips.length - 1]!;
+	const totalFrames = startFrames[startFrames.length - 1]!
+		+ Math.max(Math.ceil(lastClip.length * fps), transitionDurationFrames * 2 + fps);
+
+	const resolved = resolveAudioMix(
+		mix,
+		{ clipStarts: startFrames.map(f => f / fps), duration: totalFrames / fps },
+		{ platform, hasMusic: !!props.musicSrc },
+	);
+
+	// interpolate() needs strictly increasing frames
+	const musicEnvelope: MusicVolumeKeyframe[] = [];
+	for (const point of resolved.musicEnvelope) {
+		const frame = Math.round(point.at * fps);
+		const last = musicEnvelope[musicEnvelope.length - 1];
+		if (last && frame <= last.frame) last.volume = point.volume;
+		else musicEnvelope.push({ frame, volume: point.volume });
+	}
+
+	return {
+		...props,
+		clips: props.clips.map((clip, i) => {
+			const volume = resolved.clipVolumes[i];
+			return volume === undefined ? clip : { ...clip, volume };
+		}),
+		musicVolume: resolved.musicVolume,
+		musicEnvelope: musicEnvelope.length >= 2 ? musicEnvelope : undefined,
+		loudnessTarget: resolved.targetLufs,
+	};
+}
@@ -14,6 +14,8 @@ import { formatSegmentTimelineForPrompt } from './scene-analyzer';
 import { reviewRenderedVideo, generateRevisedEditPlan, type VideoReview } from './video-reviewer';
 import type { VideoUsageSummary } from './usage-tracker';
 import { selectTrack, shouldAddMusic } from './music';
+import { musicTrackIdForUrl } from './music-library';
+import { analyzeEditPlanAudio } from './audio-mix';
 import { supabaseAdmin } from '../../lib/supabase';
 
 // --- Types ---
@@ -63,7 +65,7 @@ async function generateEditPlan(
 	logger: PipelineLogger,
 	usageSummary?: VideoUsageSummary[],
 ): Promise<Record<string, unknown>> {
-	const catalog = loadExistingCatalog();
+	const catalog = await loadExistingCatalog();
 	const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
 
 	// Gather metadata for selected videos
@@ -251,12 +253,20 @@ async function submitAndPollRender(
 	const musicTier = (editPlan.musicTier as number) || undefined;
 	let musicUrl: string | null = (editPlan.musicUrl as string) || null;
 	if (!musicUrl && shouldAddMusic(platform, musicTier)) {
-		const selection = selectTrack(editMode, musicDirection);
+		const selection = await selectTrack(editMode, musicDirection);
 		if (selection) {
 			musicUrl = selection.track.url;
 			logger.info('[auto-pipeline] Auto-selected music: "%s"', selection.track.title);
 		}
 	}
+	// Pin the track on the plan so the finished_videos row records what was used
+	if (musicUrl) editPlan.musicUrl = musicUrl;
+
+	// Duck music under speech and normalize loudness — a failure only costs the mix
+	const audioMix = await analyzeEditPlanAudio(clips, { musicUrl, logger }).catch((err) => {
+		logger.warn('[auto-pipeline] Audio mix stage failed: %s', err instanceof Error ? err.message : String(err));
+		return undefined;
+	});
 
 	const renderId = `remotion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 	preRegisterRender(renderId);
@@ -265,7 +275,7 @@ async function submitAndPollRender(
 
 	// Fire the async render pipeline
 	await submitRemotionRenderWithPreprocessing(
-		{ clips, textOverlays: overlays, musicUrl, mode: editMode, platform },
+		{ clips, textOverlays: overlays, musicUrl, mode: editMode, platform, audioMix },
 		renderId,
 		appUrl,
 		logger as any,
@@ -297,8 +307,8 @@ async function submitAndPollRender(
 
 // --- Build Footage Context for Revisions ---
 
-function buildFootageContext(editPlan: Record<string, unknown>): string {
-	const catalog = loadExistingCatalog();
+async function buildFootageContext(editPlan: Record<string, unknown>): Promise<string> {
+	const catalog = await loadExistingCatalog();
 	const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
 	const clips = Array.isArray(editPlan.clips)
 		? editPlan.clips as Array<{ fileId: string; filename?: string; trimStart?: number; duration?: number; purpose?: string }>
@@ -375,26 +385,33 @@ async function saveToSupabase(
 	const tags = topic.split(/[\s,]+/).filter(t => t.length > 2).map(t => t.toLowerCase());
 
 	// Insert into finished_videos table
-	const { data: row, error: insertError } = await supabaseAdmin
+	const videoRow = {
+		title: `${topic} — ${platform} ${editMode}`,
+		platform,
+		edit_mode: editMode,
+		storage_path: storagePath,
+		public_url: publicUrl,
+		duration_sec: durationSec,
+		score: review.overallScore,
+		review_notes: review.summary,
+		revision_count: revisionCount,
+		tags,
+		source_video_ids: videoIds,
+		render_id: renderId,
+	};
+	let { data: row, error: insertError } = await supabaseAdmin
 		.from('finished_videos')
-		.insert({
-			title: `${topic} — ${platform} ${editMode}`,
-			platform,
-			edit_mode: editMode,
-			storage_path: storagePath,
-			public_url: publicUrl,
-			duration_sec: durationSec,
-			score: review.overallScore,
-			review_notes: review.summary,
-			revision_count: revisionCount,
-			tags,
-			source_video_ids: videoIds,
-			render_id: renderId,
-		})
+		.insert({ ...videoRow, music_track_id: await musicTrackIdForUrl(editPlan.musicUrl as string | undefined) })
 		.select('id')
 		.single();
 
-	if (insertError) throw new Error(`DB insert failed: ${insertError.message}`);
+	// music_track_id not migrated yet — keep the video, lose the track link
+	if (insertError && /music_track_id/.test(insertError.message)) {
+		logger.warn('[auto-pipeline] finished_videos has no music_track_id (run docs/music_library_schema.sql) — saving without it');
+		({ data: row, error: insertError } = await supabaseAdmin.from('finished_videos').insert(videoRow).select('id').single());
+	}
+
+	if (insertError || !row) throw new Error(`DB insert failed: ${insertError?.message ?? 'no row returned'}`);
 
 	logger.info('[auto-pipeline] Saved to Supabase: id=%s, url=%s', row.id, publicUrl);
 
@@ -433,7 +450,7 @@ export async function runAutoPipeline(
 				currentPlan = await generateEditPlan(videoIds, platform, editMode, topic, purpose, logger, usageSummary);
 			} else if (lastReview) {
 				logger.info('[auto-pipeline] Generating revised edit plan (score was %d/%d)...', lastReview.overallScore, 10);
-				const footageContext = buildFootageContext(currentPlan!);
+				const footageContext = await buildFootageContext(currentPlan!);
 				const revised = await generateRevisedEditPlan(lastReview, currentPlan!, footageContext, editMode, platform);
 				if (!revised) {
 					logger.warn('[auto-pipeline] Revision failed — using previous plan');
@@ -0,0 +1,191 @@
+/**
+ * Beat Sync — snap clip boundaries and slow-mo peaks to the soundtrack
+ *
+ * Works on any clip list shaped like { trimStart, duration, speed? } where
+ * duration is SOURCE seconds and a clip's timeline length is
+ * duration / speed (the pipeline-v2 convention). Two adjustments:
+ *
+ *   - Cuts: a clip's end on the timeline moves to the nearest beat within
+ *     the tolerance — a downbeat is preferred when one is in range. Only
+ *     the clip's duration changes, so later clips slide with it.
+ *   - Peaks: a slow-mo clip (speed < 1) reads as peaking ~40% through;
+ *     trimStart shifts so that source moment lands on a beat, as long as
+ *     the peak stays in the 30-50% band of the clip.
+ *
+ * Used by the pipeline-v2 composers while they build the timeline and by
+ * edit-plan-validator.ts as a final pass.
+ *
+ * File: src/agent/video-editor/beat-sync.ts
+ */
+
+import type { MusicAnalysis } from './music-analysis';
+import { createCustomMusicSelection, selectTrack, shouldAddMusic, type MusicTrack } from './music';
+import { findMusicTrackByUrl } from './music-library';
+
+// --- Types ---
+
+export interface SyncableClip {
+	trimStart: number;
+	duration: number;
+	speed?: number;
+}
+
+export interface BeatSnapOptions {
+	/** Timeline second where the first clip starts (clips before it already placed). */
+	startAt?: number;
+	/** Max distance (seconds) a cut or peak may move. */
+	tolerance?: number;
+	/** Clips are never shortened below this (source seconds). */
+	minDuration?: number;
+	/** Upper bound for trimStart + duration per clip (source length). */
+	maxSourceEnd?: (clipIndex: number) => number | undefined;
+	/** Leave the last clip's end alone (the video's end, not a cut). */
+	skipFinalCut?: boolean;
+}
+
+export interface BeatAdjustment {
+	clipIndex: number;
+	kind: 'cut' | 'peak';
+	before: number;           // timeline seconds of the cut / peak before snapping
+	after: number;
+}
+
+export interface OffBeatCut {
+	clipIndex: number;
+	at: number;               // timeline seconds
+	offBy: number;            // seconds to the nearest beat
+}
+
+// --- Constants ---
+
+export const BEAT_SNAP_TOLERANCE = 0.25;
+const PEAK_FRACTION = 0.4;
+const PEAK_BAND: [number, number] = [0.3, 0.5];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// --- Beat Lookup ---
+
+/** Nearest beat to `t` within `tolerance`, preferring a downbeat in range. */
+export function nearestBeat(analysis: MusicAnalysis, t: number, tolerance = BEAT_SNAP_TOLERANCE): number | null {
+	const closest = (list: number[]) => {
+		let best: number | null = null;
+		for (const beat of list) {
+			if (Math.abs(beat - t) <= tolerance && (best === null || Math.abs(beat - t) < Math.abs(best - t))) best = beat;
+			if (beat > t + tolerance) break;
+		}
+		return best;
+	};
+	return closest(analysis.downbeats) ?? closest(analysis.beats);
+}
+
+/** Distance from `t` to the nearest beat (Infinity when there are none). */
+export function distanceToBeat(analysis: MusicAnalysis, t: number): number {
+	let best = Infinity;
+	for (const beat of analysis.beats) {
+		best = Math.min(best, Math.abs(beat - t));
+		if (beat > t) break;
+	}
+	return best;
+}
+
+// --- Snapping ---
+
+/**
+ * Snap cuts and slow-mo peaks to beats. Returns new clip objects (inputs
+ * are not mutated) plus what moved, for logging and validator warnings.
+ */
+export function snapClipsToBeats<T extends SyncableClip>(
+	clips: T[],
+	analysis: MusicAnalysis,
+	options: BeatSnapOptions = {},
+): { clips: T[]; adjustments: BeatAdjustment[] } {
+	const tolerance = options.tolerance ?? BEAT_SNAP_TOLERANCE;
+	const minDuration = options.minDuration ?? 1;
+	const adjustments: BeatAdjustment[] = [];
+	const out: T[] = [];
+	let cursor = options.startAt ?? 0;
+
+	for (let i = 0; i < clips.length; i++) {
+		const clip = { ...clips[i]! };
+		const speed = clip.speed || 1;
+		const sourceEnd = options.maxSourceEnd?.(i);
+
+		// Peak: land the slow-mo moment on a beat by sliding the trim window
+		if (speed < 1) {
+			const peakSource = clip.trimStart + clip.duration * PEAK_FRACTION;
+			const peakAt = cursor + (clip.duration * PEAK_FRACTION) / speed;
+			const beat = nearestBeat(analysis, peakAt, tolerance);
+			if (beat !== null && Math.abs(beat - peakAt) > 0.01) {
+				const newTrim = peakSource - (beat - cursor) * speed;
+				const fraction = (peakSource - newTrim) / clip.duration;
+				const fitsSource = sourceEnd === undefined || newTrim + clip.duration <= sourceEnd;
+				if (newTrim >= 0 && fitsSource && fraction >= PEAK_BAND[0] && fraction <= PEAK_BAND[1]) {
+					clip.trimStart = round2(newTrim);
+					adjustments.push({ clipIndex: i, kind: 'peak', before: round2(peakAt), after: round2(beat) });
+				}
+			}
+		}
+
+		// Cut: move the clip's end onto a beat
+		const endAt = cursor + clip.duration / speed;
+		const isFinal = i === clips.length - 1;
+		if (!(isFinal && options.skipFinalCut)) {
+			const beat = nearestBeat(analysis, endAt, tolerance);
+			if (beat !== null && Math.abs(beat - endAt) > 0.01) {
+				const newDuration = round2((beat - cursor) * speed);
+				const fitsSource = sourceEnd === undefined || clip.trimStart + newDuration <= sourceEnd;
+				if (newDuration >= minDuration && fitsSource) {
+					clip.duration = newDuration;
+					adjustments.push({ clipIndex: i, kind: 'cut', before: round2(endAt), after: round2(beat) });
+				}
+			}
+		}
+
+		cursor += clip.duration / speed;
+		out.push(clip);
+	}
+
+	return { clips: out, adjustments };
+}
+
+/** Cuts (clip ends, excluding the video's end) further than `tolerance` from any beat. */
+export function findOffBeatCuts(
+	clips: SyncableClip[],
+	analysis: MusicAnalysis,
+	tolerance = BEAT_SNAP_TOLERANCE,
+	startAt = 0,
+): OffBeatCut[] {
+	const offBeat: OffBeatCut[] = [];
+	let cursor = startAt;
+	for (let i = 0; i < clips.length; i++) {
+		const clip = clips[i]!;
+		cursor += clip.duration / (clip.speed || 1);
+		if (i === clips.length - 1) break;
+		// Past the end of the track there's no beat to land on
+		if (cursor > analysis.durationSeconds) break;
+		const offBy = distanceToBeat(analysis, cursor);
+		if (offBy > tolerance) offBeat.push({ clipIndex: i, at: round2(cursor), offBy: round2(offBy) });
+	}
+	return offBeat;
+}
+
+// --- Track Resolution ---
+
+/**
+ * The track a plan will render with — same priority as the render task:
+ * explicit musicUrl (library entry or custom) > auto-selected library track
+ * when the platform/tier carries music. Null when the video has no music.
+ */
+export async function trackForPlan(
+	plan: { musicUrl?: string | null; musicTier?: number; musicDirection?: string },
+	mode: string,
+	platform: string,
+): Promise<MusicTrack | null> {
+	if (plan.musicUrl) {
+		return (await findMusicTrackByUrl(plan.musicUrl))
+			?? createCustomMusicSelection(plan.musicUrl, mode).track;
+	}
+	if (!shouldAddMusic(platform, plan.musicTier)) return null;
+	return (await selectTrack(mode, plan.musicDirection))?.track ?? null;
+}
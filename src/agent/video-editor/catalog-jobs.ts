@@ -0,0 +1,686 @@
+/**
+ * Catalog Job Queue
+ *
+ * Durable, resumable background jobs for catalog work: full cataloging,
+ * timestamp re-scoring, scene analysis, visual timelines, named segments.
+ *
+ * Replaces the single module-global `_catalogJob` in cataloger.ts, which
+ * lost all progress on restart and could only run one job at a time.
+ *
+ * How it works:
+ *   - Every job is a record in a job store (file or Supabase, chosen by
+ *     CATALOG_STORE like the catalog itself). State machine:
+ *       queued → running → done | failed | cancelled
+ *       running → paused → queued (resume)
+ *       failed  → queued (resume — retries failed files only)
+ *     A run that leaves any file failed after its retries ends `failed`,
+ *     not `done`, so its failures stay resumable.
+ *   - A job works through a list of fileIds. After each file it writes a
+ *     checkpoint, so a restarted job skips files already done.
+ *   - Each replica runs a worker that claims queued jobs with a lease.
+ *     The lease is renewed on a timer while the job runs (one file can
+ *     take longer than the lease); a job whose lease expired (replica
+ *     died mid-run) is reclaimed by the next worker tick.
+ *   - Pause/cancel are requests written to the job record. The running
+ *     worker sees them between files, so they work across replicas.
+ *   - Jobs of different types run side by side (e.g. a rescore during a
+ *     full catalog). Submitting a job identical to a queued or running one
+ *     (same type, fileIds and force) returns that job instead.
+ *
+ * File: src/agent/video-editor/catalog-jobs.ts
+ */
+
+import * as os from 'os';
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import type { CatalogEntry } from './google-drive';
+import { getCatalogStore } from './catalog-store';
+
+// --- Types ---
+
+export type CatalogJobType =
+	| 'full-catalog'
+	| 'rescore'
+	| 'analyze-scenes'
+	| 'analyze-visual'
+	| 'generate-segments';
+
+export type CatalogJobState = 'queued' | 'running' | 'paused' | 'failed' | 'done' | 'cancelled';
+
+export interface CatalogJobParams {
+	fileIds?: string[];      // restrict to these videos (default: every video that needs the work)
+	force?: boolean;         // redo videos that already have the result
+	batchSize?: number;      // pause DELAY_BETWEEN_BATCHES_MS after every batchSize files
+}
+
+export interface CatalogJobCheckpoint {
+	status: 'done' | 'skipped' | 'failed';
+	at: string;
+	attempts: number;
+	error?: string;
+}
+
+export interface CatalogJob {
+	id: string;
+	type: CatalogJobType;
+	state: CatalogJobState;
+	params: CatalogJobParams;
+	/** Planned work list — fixed when the job first starts. */
+	fileIds?: string[];
+	checkpoints: Record<string, CatalogJobCheckpoint>;
+	total: number;
+	completed: number;
+	failed: number;
+	skipped: number;
+	currentFile?: string;
+	/** Pause/cancel request from the API, honored by the worker between files. */
+	requestedAction?: 'pause' | 'cancel';
+	leaseOwner?: string;
+	leaseExpiresAt?: string;
+	errorMessage?: string;
+	createdAt: string;
+	startedAt?: string;
+	updatedAt: string;
+	finishedAt?: string;
+	version: number;
+}
+
+/**
+ * Per-type work definition. `plan` picks the files, `processFile` does one
+ * file and persists its result to the catalog store itself.
+ */
+interface CatalogJobHandler {
+	plan(params: CatalogJobParams, catalog: CatalogEntry[]): Promise<string[]>;
+	processFile(fileId: string, catalog: Map<string, CatalogEntry>, params: CatalogJobParams): Promise<'done' | 'skipped'>;
+	/** Pause between files (rate limiting for vision-API heavy work). */
+	delayMs: number;
+}
+
+interface CatalogJobBackend {
+	list(): Promise<CatalogJob[]>;
+	get(id: string): Promise<CatalogJob | null>;
+	/** Write `job` only if the stored version is still `expectedVersion` (0 = must not exist). */
+	write(job: CatalogJob, expectedVersion: number): Promise<boolean>;
+}
+
+// --- Constants ---
+
+const JOBS_FILE_PATH = persistentPath('catalog-jobs.json');
+
+const LEASE_MS = 5 * 60 * 1000;          // a single video can take minutes to download + analyze
+const LEASE_RENEW_MS = 60 * 1000;        // renew well inside LEASE_MS while a job runs
+const DELAY_BETWEEN_BATCHES_MS = 5000;
+const WORKER_POLL_MS = 15 * 1000;
+const MAX_CONCURRENT_JOBS = 2;           // per replica — each job downloads full videos
+const MAX_FILE_ATTEMPTS = 2;
+const FINISHED_JOBS_KEPT = 50;           // file backend only
+
+const LIVE_STATES: CatalogJobState[] = ['queued', 'running', 'paused'];
+/** States a new submission is deduplicated against — a paused job doesn't block new work. */
+const ACTIVE_STATES: CatalogJobState[] = ['queued', 'running'];
+
+const WORKER_ID = `${process.env.RAILWAY_REPLICA_ID || os.hostname()}:${process.pid}`;
+
+// --- Job Handlers ---
+
+function hasTimeline(entry: CatalogEntry | undefined): boolean {
+	return !!entry?.visualTimeline && entry.visualTimeline.frames.length > 0;
+}
+
+function targetEntries(params: CatalogJobParams, catalog: CatalogEntry[]): CatalogEntry[] {
+	if (!params.fileIds || params.fileIds.length === 0) return catalog;
+	const ids = new Set(params.fileIds);
+	return catalog.filter(e => ids.has(e.fileId));
+}
+
+const JOB_HANDLERS: Record<CatalogJobType, CatalogJobHandler> = {
+	'full-catalog': {
+		delayMs: 2000,
+		async plan(params, catalog) {
+			const { listVideoFiles } = await import('./google-drive');
+			const processed = new Set(catalog.map(e => e.fileId));
+			const videos = await listVideoFiles();
+			return videos
+				.filter(v => params.force || !processed.has(v.id))
+				.filter(v => !params.fileIds?.length || params.fileIds.includes(v.id))
+				.map(v => v.id);
+		},
+		async processFile(fileId) {
+			const { catalogSingleVideo } = await import('./cataloger');
+			const entry = await catalogSingleVideo(fileId);
+			await getCatalogStore().put(entry, { changedBy: 'cataloger' });
+			console.log(`[catalog-jobs] Cataloged ${entry.filename} -> ${entry.suspectedLocation} / ${entry.contentType} (${entry.locationConfidence})`);
+			return 'done';
+		},
+	},
+
+	'rescore': {
+		delayMs: 2000,
+		async plan(params, catalog) {
+			return targetEntries(params, catalog)
+				.filter(e => params.force || !e.timestampScores || e.timestampScores.length === 0)
+				.map(e => e.fileId);
+		},
+		async processFile(fileId, catalog) {
+			const entry = catalog.get(fileId);
+			const duration = entry?.duration ? parseInt(entry.duration) : 0;
+			if (!entry || duration < 15) return 'skipped';
+
+			const { scoreCatalogEntryTimestamps } = await import('./cataloger');
+			const scores = await scoreCatalogEntryTimestamps(entry);
+			if (!scores) return 'skipped';
+			await getCatalogStore().update(fileId, { timestampScores: scores }, { changedBy: 'rescore' });
+			return 'done';
+		},
+	},
+
+	'analyze-scenes': {
+		delayMs: 1000,
+		async plan(params, catalog) {
+			return targetEntries(params, catalog)
+				.filter(e => params.force || !e.sceneAnalysis || e.sceneAnalysis.sceneChanges.length === 0)
+				.map(e => e.fileId);
+		},
+		async processFile(fileId, catalog) {
+			const entry = catalog.get(fileId);
+			if (!entry) return 'skipped';
+
+			const { analyzeVideoScenes, generateNamedSegments } = await import('./scene-analyzer');
+			const analysis = await analyzeVideoScenes(fileId, fileId);
+			const segments = generateNamedSegments(analysis, entry.activity || '', entry.contentType || 'unknown');
+			if (segments.length > 0) {
+				analysis.namedSegments = segments;
+			}
+			await getCatalogStore().update(fileId, { sceneAnalysis: analysis }, { changedBy: 'analyze-scenes' });
+			return 'done';
+		},
+	},
+
+	'analyze-visual': {
+		delayMs: 1000,
+		async plan(params, catalog) {
+			return targetEntries(params, catalog)
+				.filter(e => params.force || !hasTimeline(e))
+				.map(e => e.fileId);
+		},
+		async processFile(fileId, catalog) {
+			const entry = catalog.get(fileId);
+			if (!entry) return 'skipped';
+
+			const { generateVisualTimelineForVideo } = await import('./visual-timeline');
+			const timeline = await generateVisualTimelineForVideo(fileId, entry.activity || '');
+			await getCatalogStore().update(fileId, { visualTimeline: timeline }, { changedBy: 'analyze-visual' });
+			return 'done';
+		},
+	},
+
+	'generate-segments': {
+		delayMs: 0,
+		async plan(params, catalog) {
+			return targetEntries(params, catalog)
+				.filter(e => !!e.sceneAnalysis?.duration && e.sceneAnalysis.duration > 0)
+				.filter(e => params.force || !e.sceneAnalysis?.namedSegments || e.sceneAnalysis.namedSegments.length === 0)
+				.map(e => e.fileId);
+		},
+		async processFile(fileId, catalog) {
+			const entry = catalog.get(fileId);
+			if (!entry?.sceneAnalysis) return 'skipped';
+
+			const { generateNamedSegments } = await import('./scene-analyzer');
+			const segments = generateNamedSegments(entry.sceneAnalysis, entry.activity || '', entry.contentType || 'unknown');
+			if (segments.length === 0) return 'skipped';
+			await getCatalogStore().update(
+				fileId,
+				{ sceneAnalysis: { ...entry.sceneAnalysis, namedSegments: segments } },
+				{ changedBy: 'generate-segments' },
+			);
+			return 'done';
+		},
+	},
+};
+
+export const CATALOG_JOB_TYPES = Object.keys(JOB_HANDLERS) as CatalogJobType[];
+
+// --- File Backend ---
+
+function createFileJobBackend(filePath: string): CatalogJobBackend {
+	// Serialize read-modify-write cycles within this process.
+	let queue: Promise<unknown> = Promise.resolve();
+	const serialized = <T>(fn: () => T): Promise<T> => {
+		const run = queue.then(fn);
+		queue = run.catch(() => undefined);
+		return run;
+	};
+
+	const load = () => readJsonFile<Record<string, CatalogJob>>(filePath, {}, 'catalog-jobs');
+
+	const save = (jobs: Record<string, CatalogJob>): void => {
+		// Drop the oldest finished jobs so the file doesn't grow forever
+		const finished = Object.values(jobs)
+			.filter(j => !LIVE_STATES.includes(j.state))
+			.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+		for (const old of finished.slice(FINISHED_JOBS_KEPT)) delete jobs[old.id];
+
+		writeJsonFile(filePath, jobs);
+	};
+
+	return {
+		list: () => serialized(() => Object.values(load())),
+		get: (id) => serialized(() => load()[id] ?? null),
+		write: (job, expectedVersion) => serialized(() => {
+			const jobs = load();
+			if ((jobs[job.id]?.version ?? 0) !== expectedVersion) return false;
+			jobs[job.id] = job;
+			save(jobs);
+			return true;
+		}),
+	};
+}
+
+// --- Supabase Backend ---
+
+interface CatalogJobRow {
+	id: string;
+	type: CatalogJobType;
+	state: CatalogJobState;
+	job: CatalogJob;
+	version: number;
+	updated_at: string;
+}
+
+function createSupabaseJobBackend(): CatalogJobBackend {
+	const db = async () => {
+		const { supabaseAdmin } = await import('../../lib/supabase');
+		if (!supabaseAdmin) throw new Error('CATALOG_STORE=supabase but Supabase is not configured');
+		return supabaseAdmin;
+	};
+
+	return {
+		async list() {
+			const client = await db();
+			const { data, error } = await client
+				.from('catalog_jobs')
+				.select('*')
+				.order('updated_at', { ascending: false })
+				.limit(200);
+			if (error) throw new Error(`catalog_jobs read failed: ${error.message}`);
+			return (data as CatalogJobRow[] || []).map(r => r.job);
+		},
+
+		async get(id) {
+			const client = await db();
+			const { data, error } = await client.from('catalog_jobs').select('*').eq('id', id).maybeSingle();
+			if (error) throw new Error(`catalog_jobs read failed: ${error.message}`);
+			return data ? (data as CatalogJobRow).job : null;
+		},
+
+		async write(job, expectedVersion) {
+			const client = await db();
+			const row = { id: job.id, type: job.type, state: job.state, job, version: job.version, updated_at: job.updatedAt };
+
+			if (expectedVersion === 0) {
+				const { error } = await client.from('catalog_jobs').insert(row);
+				if (!error) return true;
+				if (error.code === '23505') return false;
+				throw new Error(`catalog_jobs insert failed: ${error.message}`);
+			}
+
+			// Optimistic concurrency — this is what makes lease claims safe across replicas
+			const { data, error } = await client
+				.from('catalog_jobs')
+				.update(row)
+				.eq('id', job.id)
+				.eq('version', expectedVersion)
+				.select('id');
+			if (error) throw new Error(`catalog_jobs update failed: ${error.message}`);
+			return !!data && data.length > 0;
+		},
+	};
+}
+
+let _backend: CatalogJobBackend | null = null;
+
+function getJobBackend(): CatalogJobBackend {
+	if (!_backend) {
+		_backend = process.env.CATALOG_STORE === 'supabase'
+			? createSupabaseJobBackend()
+			: createFileJobBackend(JOBS_FILE_PATH);
+	}
+	return _backend;
+}
+
+// --- Job Record Helpers ---
+
+/**
+ * Read-modify-write a job with optimistic concurrency. `mutate` returns the
+ * changed job, or null to leave it alone. Retries on version conflicts.
+ */
+async function mutateJob(id: string, mutate: (job: CatalogJob) => CatalogJob | null): Promise<CatalogJob | null> {
+	const backend = getJobBackend();
+	for (let attempt = 0; attempt < 5; attempt++) {
+		const current = await backend.get(id);
+		if (!current) return null;
+		const next = mutate(structuredClone(current));
+		if (!next) return current;
+		next.version = current.version + 1;
+		next.updatedAt = new Date().toISOString();
+		if (await backend.write(next, current.version)) return next;
+	}
+	throw new Error(`Catalog job ${id} kept changing underneath us — giving up`);
+}
+
+function leaseExpired(job: CatalogJob): boolean {
+	return !job.leaseExpiresAt || Date.parse(job.leaseExpiresAt) < Date.now();
+}
+
+function isClaimable(job: CatalogJob): boolean {
+	if (job.state === 'queued') return true;
+	// A running job whose lease lapsed belongs to a dead replica — take it over
+	return job.state === 'running' && leaseExpired(job);
+}
+
+/** Same work: fileIds compared as a set, force as a flag. batchSize only paces the run. */
+function sameParams(a: CatalogJobParams, b: CatalogJobParams): boolean {
+	const ids = (p: CatalogJobParams) => [...new Set(p.fileIds ?? [])].sort().join(',');
+	return ids(a) === ids(b) && !!a.force === !!b.force;
+}
+
+function tallyCheckpoints(job: CatalogJob): void {
+	const marks = Object.values(job.checkpoints);
+	job.completed = marks.filter(c => c.status === 'done').length;
+	job.skipped = marks.filter(c => c.status === 'skipped').length;
+	job.failed = marks.filter(c => c.status === 'failed').length;
+}
+
+// --- Public API ---
+
+/**
+ * Queue a catalog job. If a queued or running job of the same type with the
+ * same fileIds and force flag exists, returns that job instead with
+ * `existing: true`.
+ */
+export async function submitCatalogJob(
+	type: CatalogJobType,
+	params: CatalogJobParams = {},
+): Promise<{ job: CatalogJob; existing: boolean }> {
+	if (!JOB_HANDLERS[type]) {
+		throw new Error(`Unknown catalog job type: ${type}`);
+	}
+
+	const active = (await getJobBackend().list())
+		.find(j => j.type === type && ACTIVE_STATES.includes(j.state) && sameParams(j.params, params));
+	if (active) {
+		return { job: active, existing: true };
+	}
+
+	const now = new Date().toISOString();
+	const job: CatalogJob = {
+		id: `catjob_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		type,
+		state: 'queued',
+		params,
+		checkpoints: {},
+		total: 0,
+		completed: 0,
+		failed: 0,
+		skipped: 0,
+		createdAt: now,
+		updatedAt: now,
+		version: 1,
+	};
+	await getJobBackend().write(job, 0);
+	console.log(`[catalog-jobs] Queued ${type} job ${job.id}`);
+
+	startCatalogJobWorker();
+	// Don't wait for the next poll — try to pick it up right away
+	void workerTick();
+	return { job, existing: false };
+}
+
+export async function getCatalogJob(id: string): Promise<CatalogJob | null> {
+	return getJobBackend().get(id);
+}
+
+/** Jobs newest first, optionally filtered by type. */
+export async function listCatalogJobs(type?: CatalogJobType): Promise<CatalogJob[]> {
+	const jobs = await getJobBackend().list();
+	return jobs
+		.filter(j => !type || j.type === type)
+		.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Pause, resume or cancel a job.
+ *   pause  — running: asks the worker to stop after the current file; queued: paused immediately
+ *   resume — paused/failed: back to queued; checkpoints are kept, failed files are retried
+ *   cancel — running: asks the worker to stop; queued/paused/failed: cancelled immediately
+ */
+export async function controlCatalogJob(
+	id: string,
+	action: 'pause' | 'resume' | 'cancel',
+): Promise<CatalogJob | null> {
+	const updated = await mutateJob(id, (job) => {
+		if (action === 'pause') {
+			if (job.state === 'queued') { job.state = 'paused'; return job; }
+			if (job.state === 'running') { job.requestedAction = 'pause'; return job; }
+			return null;
+		}
+		if (action === 'resume') {
+			if (job.state !== 'paused' && job.state !== 'failed') return null;
+			job.state = 'queued';
+			job.requestedAction = undefined;
+			job.errorMessage = undefined;
+			// Failed files get another go; done/skipped ones stay checkpointed
+			for (const [fileId, mark] of Object.entries(job.checkpoints)) {
+				if (mark.status === 'failed') delete job.checkpoints[fileId];
+			}
+			tallyCheckpoints(job);
+			return job;
+		}
+		// cancel
+		if (job.state === 'running') { job.requestedAction = 'cancel'; return job; }
+		if (job.state === 'queued' || job.state === 'paused' || job.state === 'failed') {
+			job.state = 'cancelled';
+			job.finishedAt = new Date().toISOString();
+			return job;
+		}
+		return null;
+	});
+
+	if (updated && action === 'resume') {
+		startCatalogJobWorker();
+		void workerTick();
+	}
+	return updated;
+}
+
+// --- Worker ---
+
+const _runningHere = new Set<string>();
+let _workerTimer: ReturnType<typeof setInterval> | null = null;
+let _tickInFlight = false;
+
+/**
+ * Start this replica's job worker. Idempotent. The worker polls for
+ * claimable jobs and runs up to MAX_CONCURRENT_JOBS at once.
+ */
+export function startCatalogJobWorker(): void {
+	if (_workerTimer) return;
+	_workerTimer = setInterval(() => { void workerTick(); }, WORKER_POLL_MS);
+	// Don't keep scripts alive just for the worker
+	if (typeof _workerTimer === 'object' && 'unref' in _workerTimer) _workerTimer.unref();
+	console.log(`[catalog-jobs] Worker ${WORKER_ID} started`);
+	void workerTick();
+}
+
+async function workerTick(): Promise<void> {
+	if (_tickInFlight || _runningHere.size >= MAX_CONCURRENT_JOBS) return;
+	_tickInFlight = true;
+	try {
+		const jobs = (await getJobBackend().list())
+			.filter(j => isClaimable(j) && !_runningHere.has(j.id))
+			.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+		for (const candidate of jobs) {
+			if (_runningHere.size >= MAX_CONCURRENT_JOBS) break;
+			const claimed = await mutateJob(candidate.id, (job) => {
+				if (!isClaimable(job)) return null;
+				job.state = 'running';
+				job.leaseOwner = WORKER_ID;
+				job.leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+				job.startedAt = job.startedAt || new Date().toISOString();
+				return job;
+			});
+			// Someone else won the claim race
+			if (!claimed || claimed.leaseOwner !== WORKER_ID || claimed.state !== 'running') continue;
+
+			_runningHere.add(claimed.id);
+			runJob(claimed)
+				.catch(err => console.error(`[catalog-jobs] Job ${claimed.id} crashed:`, err))
+				.finally(() => {
+					_runningHere.delete(claimed.id);
+					void workerTick();
+				});
+		}
+	} catch (err) {
+		console.warn('[catalog-jobs] Worker tick failed:', err);
+	} finally {
+		_tickInFlight = false;
+	}
+}
+
+async function runJob(claimed: CatalogJob): Promise<void> {
+	const handler = JOB_HANDLERS[claimed.type];
+	console.log(`[catalog-jobs] ${WORKER_ID} running ${claimed.type} job ${claimed.id}`);
+
+	// Release the job into a new state, but only while we still hold the lease
+	const finish = (state: CatalogJobState, errorMessage?: string) =>
+		mutateJob(claimed.id, (job) => {
+			if (job.leaseOwner !== WORKER_ID) return null;
+			job.state = state;
+			job.currentFile = undefined;
+			job.requestedAction = undefined;
+			job.leaseOwner = undefined;
+			job.leaseExpiresAt = undefined;
+			if (errorMessage) job.errorMessage = errorMessage;
+			if (state === 'done' || state === 'failed' || state === 'cancelled') job.finishedAt = new Date().toISOString();
+			return job;
+		});
+
+	// Keep the lease alive while a file is in progress — a single file can
+	// outlast LEASE_MS, and an expired lease lets another replica take over.
+	const renewTimer = setInterval(() => {
+		void mutateJob(claimed.id, (job) => {
+			if (job.leaseOwner !== WORKER_ID || job.state !== 'running') return null;
+			job.leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+			return job;
+		}).catch(err => console.warn(`[catalog-jobs] Lease renewal failed for ${claimed.id}:`, err));
+	}, LEASE_RENEW_MS);
+	if (typeof renewTimer === 'object' && 'unref' in renewTimer) renewTimer.unref();
+
+	try {
+		let catalog = await getCatalogStore().list();
+
+		// Plan once — the work list is then fixed for the life of the job
+		let fileIds = claimed.fileIds;
+		if (!fileIds) {
+			fileIds = await handler.plan(claimed.params, catalog);
+			const planned = fileIds;
+			await mutateJob(claimed.id, (job) => {
+				job.fileIds = planned;
+				job.total = planned.length;
+				return job;
+			});
+			console.log(`[catalog-jobs] Job ${claimed.id} planned ${planned.length} files`);
+		}
+
+		const batchSize = claimed.params.batchSize && claimed.params.batchSize > 0 ? claimed.params.batchSize : 0;
+		let processedThisRun = 0;
+
+		for (const fileId of fileIds) {
+			const current = await getJobBackend().get(claimed.id);
+			if (!current || current.leaseOwner !== WORKER_ID) {
+				console.warn(`[catalog-jobs] Lost lease on ${claimed.id} — stopping`);
+				return;
+			}
+			if (current.requestedAction === 'cancel') {
+				await finish('cancelled');
+				console.log(`[catalog-jobs] Job ${claimed.id} cancelled`);
+				return;
+			}
+			if (current.requestedAction === 'pause') {
+				await finish('paused');
+				console.log(`[catalog-jobs] Job ${claimed.id} paused`);
+				return;
+			}
+
+			// Skip finished files, and failed ones that used up their attempts
+			const mark = current.checkpoints[fileId];
+			if (mark && (mark.status !== 'failed' || mark.attempts >= MAX_FILE_ATTEMPTS)) continue;
+
+			await mutateJob(claimed.id, (job) => {
+				job.currentFile = catalog.find(e => e.fileId === fileId)?.filename || fileId;
+				job.leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+				return job;
+			});
+
+			// Re-read the catalog so each file sees results written by earlier files/jobs
+			catalog = await getCatalogStore().list();
+			const catalogMap = new Map(catalog.map(e => [e.fileId, e]));
+
+			let checkpoint: CatalogJobCheckpoint;
+			const attempts = (mark?.attempts ?? 0) + 1;
+			try {
+				const status = await handler.processFile(fileId, catalogMap, claimed.params);
+				checkpoint = { status, at: new Date().toISOString(), attempts };
+			} catch (err) {
+				const errorMsg = err instanceof Error ? err.message : String(err);
+				console.error(`[catalog-jobs] ${claimed.type} failed for ${fileId} (attempt ${attempts}): ${errorMsg}`);
+				checkpoint = { status: 'failed', at: new Date().toISOString(), attempts, error: errorMsg };
+			}
+
+			await mutateJob(claimed.id, (job) => {
+				job.checkpoints[fileId] = checkpoint;
+				job.leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+				tallyCheckpoints(job);
+				return job;
+			});
+
+			processedThisRun++;
+			if (batchSize && processedThisRun % batchSize === 0) {
+				console.log(`[catalog-jobs] Job ${claimed.id}: batch of ${batchSize} done, pausing ${DELAY_BETWEEN_BATCHES_MS / 1000}s`);
+				await sleep(DELAY_BETWEEN_BATCHES_MS);
+			} else if (handler.delayMs > 0) {
+				await sleep(handler.delayMs);
+			}
+		}
+
+		// Second pass: retry files that failed on this run, up to MAX_FILE_ATTEMPTS
+		const afterRun = await getJobBackend().get(claimed.id);
+		const retryable = Object.entries(afterRun?.checkpoints || {})
+			.filter(([, c]) => c.status === 'failed' && c.attempts < MAX_FILE_ATTEMPTS);
+		if (retryable.length > 0 && afterRun?.leaseOwner === WORKER_ID && !afterRun.requestedAction) {
+			console.log(`[catalog-jobs] Job ${claimed.id}: retrying ${retryable.length} failed files`);
+			return runJob(afterRun);
+		}
+
+		// Files that used up their attempts fail the job, so resume can retry them
+		const permanentlyFailed = Object.values(afterRun?.checkpoints || {}).filter(c => c.status === 'failed').length;
+		if (permanentlyFailed > 0) {
+			await finish('failed', `${permanentlyFailed} file${permanentlyFailed === 1 ? '' : 's'} failed after ${MAX_FILE_ATTEMPTS} attempts — resume to retry them`);
+		} else {
+			await finish('done');
+		}
+		const final = await getJobBackend().get(claimed.id);
+		console.log(`[catalog-jobs] Job ${claimed.id} ${final?.state}: ${final?.completed} done, ${final?.skipped} skipped, ${final?.failed} failed`);
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error(`[catalog-jobs] Job ${claimed.id} failed: ${msg}`);
+		await finish('failed', msg).catch(() => undefined);
+	} finally {
+		clearInterval(renewTimer);
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
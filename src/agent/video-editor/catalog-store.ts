@@ -0,0 +1,527 @@
+/**
+ * Catalog Store
+ *
+ * Persistent home for CatalogEntry records. Replaces the old
+ * "catalog-results.json on local disk, else bundled catalog-seed.json" model,
+ * which lost every edit on redeploy and let two replicas disagree.
+ *
+ * Two backends share one interface:
+ *   - file:     single JSON document on the persistent volume (/data on
+ *               Railway, cwd locally). Fine for one replica and local dev.
+ *   - supabase: video_catalog + video_catalog_history tables
+ *               (see docs/catalog_store_schema.sql). Safe across replicas.
+ *
+ * Every write is versioned. Writes are field-level merges: a caller that read
+ * version N and changed `timestampScores` only writes `timestampScores`, so a
+ * concurrent manual `suspectedLocation` fix on another replica is not
+ * clobbered by a stale copy of the whole entry. Changes to TRACKED_FIELDS are
+ * recorded in a per-field history with who/what made them.
+ *
+ * Select the backend with CATALOG_STORE=file|supabase (default: file).
+ *
+ * File: src/agent/video-editor/catalog-store.ts
+ */
+
+import * as fs from 'fs';
+import { persistentPath, readJsonFile, writeFileAtomic } from '../../lib/json-file-store';
+import type { CatalogEntry } from './google-drive';
+import catalogSeedData from './catalog-seed.json';
+
+// --- Types ---
+
+/** A catalog entry plus its version metadata. */
+export interface StoredCatalogEntry {
+	entry: CatalogEntry;
+	version: number;          // starts at 1, +1 per write that changed something
+	updatedAt: string;
+	updatedBy: string;        // e.g. 'cataloger', 'rescore', 'manual', 'beat-finder'
+}
+
+/** One recorded change to a tracked field. */
+export interface CatalogFieldChange {
+	fileId: string;
+	field: TrackedCatalogField;
+	version: number;          // entry version this change produced
+	changedBy: string;
+	changedAt: string;
+	previous: unknown;
+	next: unknown;
+}
+
+export interface CatalogWriteMeta {
+	/** Who or what made the change: 'cataloger', 'rescore', 'manual', 'beat-finder', 'migration:seed', ... */
+	changedBy: string;
+}
+
+export interface CatalogStore {
+	readonly kind: 'file' | 'supabase';
+	/** All entries, latest version. */
+	list(): Promise<CatalogEntry[]>;
+	get(fileId: string): Promise<StoredCatalogEntry | null>;
+	/** Write one entry (field-level merge onto the latest version). Returns the stored result. */
+	put(entry: CatalogEntry, meta: CatalogWriteMeta): Promise<StoredCatalogEntry>;
+	/** Write many entries — only entries that actually changed produce a new version. */
+	putMany(entries: CatalogEntry[], meta: CatalogWriteMeta): Promise<{ written: number; unchanged: number }>;
+	/** Patch specific fields of one entry. Returns null if the entry doesn't exist. */
+	update(fileId: string, patch: Partial<CatalogEntry>, meta: CatalogWriteMeta): Promise<StoredCatalogEntry | null>;
+	/** Field history, newest first. */
+	history(fileId: string, field?: TrackedCatalogField): Promise<CatalogFieldChange[]>;
+}
+
+/**
+ * Minimal persistence adapter each backend implements. The versioning and
+ * merge logic lives once in createCatalogStore(), not per backend.
+ */
+interface CatalogBackend {
+	kind: CatalogStore['kind'];
+	readAll(): Promise<StoredCatalogEntry[]>;
+	read(fileId: string): Promise<StoredCatalogEntry | null>;
+	/** Write `record` only if the stored version is still `expectedVersion` (0 = must not exist). Returns false on conflict. */
+	write(record: StoredCatalogEntry, expectedVersion: number): Promise<boolean>;
+	appendHistory(changes: CatalogFieldChange[]): Promise<void>;
+	readHistory(fileId: string, field?: TrackedCatalogField): Promise<CatalogFieldChange[]>;
+}
+
+// --- Constants ---
+
+/** Fields whose changes are recorded in history. */
+export const TRACKED_FIELDS = [
+	'suspectedLocation',
+	'contentType',
+	'timestampScores',
+	'narrativeBeats',
+] as const;
+
+export type TrackedCatalogField = typeof TRACKED_FIELDS[number];
+
+const CATALOG_STORE_PATH = persistentPath('catalog-store.json');
+/** Pre-store runtime catalog written by saveCatalog(). Imported once by migrateSeedCatalog(). */
+const LEGACY_RESULTS_PATH = persistentPath('catalog-results.json');
+
+const MAX_WRITE_RETRIES = 3;
+const MAX_HISTORY_PER_ENTRY = 50;    // file backend only — Supabase keeps everything
+
+// --- Merge Helpers ---
+
+function sameValue(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way field merge. `base` is the version the caller read (if known);
+ * only fields the caller changed relative to base are applied on top of
+ * `latest`. Without a base, every field the caller sent wins.
+ */
+function mergeEntry(
+	latest: CatalogEntry,
+	incoming: CatalogEntry,
+	base: CatalogEntry | undefined,
+): CatalogEntry {
+	const merged: Record<string, unknown> = { ...latest };
+	const keys = new Set([...Object.keys(incoming), ...(base ? Object.keys(base) : [])]);
+	for (const key of keys) {
+		const incomingValue = (incoming as unknown as Record<string, unknown>)[key];
+		const baseValue = base ? (base as unknown as Record<string, unknown>)[key] : undefined;
+		if (base && sameValue(incomingValue, baseValue)) continue;
+		if (incomingValue === undefined && !base) continue;
+		if (incomingValue === undefined) {
+			delete merged[key];
+		} else {
+			merged[key] = incomingValue;
+		}
+	}
+	return merged as unknown as CatalogEntry;
+}
+
+function diffTrackedFields(
+	previous: CatalogEntry | undefined,
+	next: CatalogEntry,
+	version: number,
+	meta: CatalogWriteMeta,
+	changedAt: string,
+): CatalogFieldChange[] {
+	const changes: CatalogFieldChange[] = [];
+	for (const field of TRACKED_FIELDS) {
+		const prevValue = previous?.[field];
+		const nextValue = next[field];
+		if (sameValue(prevValue, nextValue)) continue;
+		changes.push({
+			fileId: next.fileId,
+			field,
+			version,
+			changedBy: meta.changedBy,
+			changedAt,
+			previous: prevValue ?? null,
+			next: nextValue ?? null,
+		});
+	}
+	return changes;
+}
+
+// --- Store Factory ---
+
+function createCatalogStore(backend: CatalogBackend): CatalogStore {
+	// Snapshot of what this process last read, per fileId. Used as the merge
+	// base so callers that mutate a list() result only write what they changed.
+	const observed = new Map<string, StoredCatalogEntry>();
+
+	const writeOne = async (entry: CatalogEntry, meta: CatalogWriteMeta, patchOnly = false): Promise<{ stored: StoredCatalogEntry; changed: boolean } | null> => {
+		for (let attempt = 0; attempt < MAX_WRITE_RETRIES; attempt++) {
+			const latest = await backend.read(entry.fileId);
+			if (!latest && patchOnly) return null;
+
+			const base = observed.get(entry.fileId);
+			const next = latest
+				? mergeEntry(latest.entry, entry, base && base.version <= latest.version ? base.entry : undefined)
+				: entry;
+
+			if (latest && sameValue(latest.entry, next)) {
+				observed.set(entry.fileId, latest);
+				return { stored: latest, changed: false };
+			}
+
+			const now = new Date().toISOString();
+			const record: StoredCatalogEntry = {
+				entry: next,
+				version: (latest?.version ?? 0) + 1,
+				updatedAt: now,
+				updatedBy: meta.changedBy,
+			};
+
+			if (await backend.write(record, latest?.version ?? 0)) {
+				const changes = diffTrackedFields(latest?.entry, next, record.version, meta, now);
+				if (changes.length > 0) await backend.appendHistory(changes);
+				observed.set(entry.fileId, record);
+				return { stored: record, changed: true };
+			}
+			console.warn(`[catalog-store] Version conflict on ${entry.fileId} (attempt ${attempt + 1}) — re-reading`);
+		}
+		throw new Error(`Catalog write for ${entry.fileId} lost ${MAX_WRITE_RETRIES} version races in a row`);
+	};
+
+	return {
+		kind: backend.kind,
+
+		async list() {
+			const records = await backend.readAll();
+			for (const r of records) observed.set(r.entry.fileId, r);
+			return records.map(r => structuredClone(r.entry));
+		},
+
+		async get(fileId) {
+			const record = await backend.read(fileId);
+			if (record) observed.set(fileId, record);
+			return record ? structuredClone(record) : null;
+		},
+
+		async put(entry, meta) {
+			const result = await writeOne(entry, meta);
+			return result!.stored;
+		},
+
+		async putMany(entries, meta) {
+			let written = 0;
+			let unchanged = 0;
+			for (const entry of entries) {
+				const result = await writeOne(entry, meta);
+				if (result?.changed) written++;
+				else unchanged++;
+			}
+			return { written, unchanged };
+		},
+
+		async update(fileId, patch, meta) {
+			const latest = await backend.read(fileId);
+			if (!latest) return null;
+			// Patch against the latest version itself, so only patched fields can differ
+			observed.set(fileId, latest);
+			const result = await writeOne({ ...latest.entry, ...patch, fileId }, meta, true);
+			return result?.stored ?? null;
+		},
+
+		history(fileId, field) {
+			return backend.readHistory(fileId, field);
+		},
+	};
+}
+
+// --- File Backend ---
+
+interface CatalogFileDocument {
+	entries: Record<string, StoredCatalogEntry>;
+	history: CatalogFieldChange[];
+}
+
+function createFileBackend(filePath: string): CatalogBackend {
+	// Serialize read-modify-write cycles within this process.
+	let queue: Promise<unknown> = Promise.resolve();
+	const serialized = <T>(fn: () => T): Promise<T> => {
+		const run = queue.then(fn);
+		queue = run.catch(() => undefined);
+		return run;
+	};
+
+	// Parsed document cached by mtime — putMany() reads once per entry and the
+	// catalog file runs to several MB once visual timelines are attached.
+	let cache: { doc: CatalogFileDocument; mtimeMs: number } | null = null;
+
+	const load = (): CatalogFileDocument => {
+		if (!fs.existsSync(filePath)) return { entries: {}, history: [] };
+		const mtimeMs = fs.statSync(filePath).mtimeMs;
+		if (cache && cache.mtimeMs === mtimeMs) return cache.doc;
+		try {
+			const doc = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CatalogFileDocument;
+			cache = { doc, mtimeMs };
+			return doc;
+		} catch (err) {
+			throw new Error(`Catalog store at ${filePath} is unreadable: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	};
+
+	// Atomic write so a crash mid-write never leaves a truncated catalog.
+	const save = (doc: CatalogFileDocument): void => {
+		try {
+			writeFileAtomic(filePath, JSON.stringify(doc));
+			cache = { doc, mtimeMs: fs.statSync(filePath).mtimeMs };
+		} catch (err) {
+			cache = null;   // in-memory doc was mutated but not persisted — force a re-read
+			throw err;
+		}
+	};
+
+	return {
+		kind: 'file',
+		readAll: () => serialized(() => Object.values(load().entries)),
+		read: (fileId) => serialized(() => load().entries[fileId] ?? null),
+		write: (record, expectedVersion) => serialized(() => {
+			const doc = load();
+			const current = doc.entries[record.entry.fileId];
+			if ((current?.version ?? 0) !== expectedVersion) return false;
+			doc.entries[record.entry.fileId] = record;
+			save(doc);
+			return true;
+		}),
+		appendHistory: (changes) => serialized(() => {
+			const doc = load();
+			doc.history.push(...changes);
+			// Cap per entry — timestampScores snapshots are large
+			const fileIds = new Set(changes.map(c => c.fileId));
+			for (const fileId of fileIds) {
+				const forEntry = doc.history.filter(h => h.fileId === fileId);
+				if (forEntry.length > MAX_HISTORY_PER_ENTRY) {
+					const drop = new Set(forEntry.slice(0, forEntry.length - MAX_HISTORY_PER_ENTRY));
+					doc.history = doc.history.filter(h => !drop.has(h));
+				}
+			}
+			save(doc);
+		}),
+		readHistory: (fileId, field) => serialized(() =>
+			load().history
+				.filter(h => h.fileId === fileId && (!field || h.field === field))
+				.reverse(),
+		),
+	};
+}
+
+// --- Supabase Backend ---
+
+interface CatalogRow {
+	file_id: string;
+	entry: CatalogEntry;
+	version: number;
+	updated_at: string;
+	updated_by: string;
+}
+
+interface CatalogHistoryRow {
+	file_id: string;
+	field: TrackedCatalogField;
+	version: number;
+	changed_by: string;
+	changed_at: string;
+	previous_value: unknown;
+	next_value: unknown;
+}
+
+function rowToRecord(row: CatalogRow): StoredCatalogEntry {
+	return { entry: row.entry, version: row.version, updatedAt: row.updated_at, updatedBy: row.updated_by };
+}
+
+function createSupabaseBackend(): CatalogBackend {
+	const db = async () => {
+		const { supabaseAdmin } = await import('../../lib/supabase');
+		if (!supabaseAdmin) throw new Error('CATALOG_STORE=supabase but Supabase is not configured');
+		return supabaseAdmin;
+	};
+
+	return {
+		kind: 'supabase',
+
+		async readAll() {
+			const client = await db();
+			const records: StoredCatalogEntry[] = [];
+			// PostgREST caps responses at 1000 rows — page through.
+			for (let from = 0; ; from += 1000) {
+				const { data, error } = await client
+					.from('video_catalog')
+					.select('*')
+					.order('file_id')
+					.range(from, from + 999);
+				if (error) throw new Error(`video_catalog read failed: ${error.message}`);
+				records.push(...(data as CatalogRow[]).map(rowToRecord));
+				if (!data || data.length < 1000) break;
+			}
+			return records;
+		},
+
+		async read(fileId) {
+			const client = await db();
+			const { data, error } = await client
+				.from('video_catalog')
+				.select('*')
+				.eq('file_id', fileId)
+				.maybeSingle();
+			if (error) throw new Error(`video_catalog read failed: ${error.message}`);
+			return data ? rowToRecord(data as CatalogRow) : null;
+		},
+
+		async write(record, expectedVersion) {
+			const client = await db();
+			const row = {
+				file_id: record.entry.fileId,
+				entry: record.entry,
+				version: record.version,
+				updated_at: record.updatedAt,
+				updated_by: record.updatedBy,
+			};
+
+			if (expectedVersion === 0) {
+				const { error } = await client.from('video_catalog').insert(row);
+				if (!error) return true;
+				if (error.code === '23505') return false;   // unique_violation — another replica inserted first
+				throw new Error(`video_catalog insert failed: ${error.message}`);
+			}
+
+			// Optimistic concurrency: only update if nobody bumped the version since we read it
+			const { data, error } = await client
+				.from('video_catalog')
+				.update(row)
+				.eq('file_id', row.file_id)
+				.eq('version', expectedVersion)
+				.select('file_id');
+			if (error) throw new Error(`video_catalog update failed: ${error.message}`);
+			return !!data && data.length > 0;
+		},
+
+		async appendHistory(changes) {
+			const client = await db();
+			const rows: CatalogHistoryRow[] = changes.map(c => ({
+				file_id: c.fileId,
+				field: c.field,
+				version: c.version,
+				changed_by: c.changedBy,
+				changed_at: c.changedAt,
+				previous_value: c.previous,
+				next_value: c.next,
+			}));
+			const { error } = await client.from('video_catalog_history').insert(rows);
+			// History is diagnostic — a failed insert must not fail the catalog write itself
+			if (error) console.warn(`[catalog-store] History insert failed (non-fatal): ${error.message}`);
+		},
+
+		async readHistory(fileId, field) {
+			const client = await db();
+			let query = client
+				.from('video_catalog_history')
+				.select('*')
+				.eq('file_id', fileId)
+				.order('changed_at', { ascending: false })
+				.limit(200);
+			if (field) query = query.eq('field', field);
+			const { data, error } = await query;
+			if (error) throw new Error(`video_catalog_history read failed: ${error.message}`);
+			return (data as CatalogHistoryRow[] || []).map(r => ({
+				fileId: r.file_id,
+				field: r.field,
+				version: r.version,
+				changedBy: r.changed_by,
+				changedAt: r.changed_at,
+				previous: r.previous_value,
+				next: r.next_value,
+			}));
+		},
+	};
+}
+
+// --- Public Accessors ---
+
+export function createFileCatalogStore(filePath: string = CATALOG_STORE_PATH): CatalogStore {
+	return createCatalogStore(createFileBackend(filePath));
+}
+
+export function createSupabaseCatalogStore(): CatalogStore {
+	return createCatalogStore(createSupabaseBackend());
+}
+
+let _store: CatalogStore | null = null;
+
+/** The process-wide catalog store, chosen by CATALOG_STORE (default: file). */
+export function getCatalogStore(): CatalogStore {
+	if (!_store) {
+		_store = process.env.CATALOG_STORE === 'supabase'
+			? createSupabaseCatalogStore()
+			: createFileCatalogStore();
+		console.log(`[catalog-store] Using ${_store.kind} catalog store`);
+	}
+	return _store;
+}
+
+// --- Migration ---
+
+/**
+ * Import the bundled catalog-seed.json (and a legacy catalog-results.json,
+ * if the persistent volume still has one) into the store.
+ *
+ * Idempotent: entries already in the store are left alone, so re-running
+ * after a partial import only fills the gaps. The legacy runtime file wins
+ * over the seed when both have the same fileId — it is the newer data.
+ */
+export async function migrateSeedCatalog(
+	store: CatalogStore = getCatalogStore(),
+	options: { includeLegacyResults?: boolean } = {},
+): Promise<{ imported: number; skipped: number; sources: string[] }> {
+	const byFileId = new Map<string, { entry: CatalogEntry; source: string }>();
+	const sources: string[] = [];
+
+	if (Array.isArray(catalogSeedData) && catalogSeedData.length > 0) {
+		for (const entry of catalogSeedData as CatalogEntry[]) {
+			byFileId.set(entry.fileId, { entry, source: 'migration:seed' });
+		}
+		sources.push(`catalog-seed.json (${catalogSeedData.length})`);
+	}
+
+	const legacy = options.includeLegacyResults !== false
+		? readJsonFile<CatalogEntry[] | null>(LEGACY_RESULTS_PATH, null, 'catalog-store')
+		: null;
+	if (legacy) {
+		for (const entry of legacy) {
+			byFileId.set(entry.fileId, { entry, source: 'migration:catalog-results' });
+		}
+		sources.push(`${LEGACY_RESULTS_PATH} (${legacy.length})`);
+	}
+
+	const existing = new Set((await store.list()).map(e => e.fileId));
+	let imported = 0;
+	let skipped = 0;
+	for (const { entry, source } of byFileId.values()) {
+		if (existing.has(entry.fileId)) {
+			skipped++;
+			continue;
+		}
+		await store.put(entry, { changedBy: source });
+		imported++;
+	}
+
+	console.log(`[catalog-store] Migration: ${imported} imported, ${skipped} already present (${sources.join(', ') || 'no sources'})`);
+	return { imported, skipped, sources };
+}
@@ -1,8 +1,10 @@
 /**
  * Auto-Cataloging Engine for CLC Video Footage
  *
- * Downloads videos from Google Drive, extracts 4 keyframes using FFmpeg,
- * sends all frames to GPT-4o vision for analysis, and builds a structured
+ * Pulls videos from Google Drive through the media cache (media-cache.ts —
+ * one download per file, plus the 480p proxy, keyframe index and audio
+ * extract that previews and later analyses reuse), extracts 4 keyframes
+ * using FFmpeg, sends all frames to GPT-4o vision for analysis, and builds a structured
  * catalog with descriptions, locations, content types, quality ratings,
  * and suggested edit modes.
  *
@@ -19,21 +21,20 @@ import { execSync } from 'child_process';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import {
-	getAuth,
 	listVideoFiles,
 	getVideoMetadata,
 	saveCatalog,
 	type VideoFile,
 	type CatalogEntry,
 } from './google-drive';
+import { getCatalogStore, migrateSeedCatalog } from './catalog-store';
+import { warmMediaCache, getCachedMedia } from './media-cache';
+import { submitCatalogJob, listCatalogJobs, type CatalogJob, type CatalogJobState } from './catalog-jobs';
 import catalogSeedData from './catalog-seed.json';
 
 // --- Constants ---
 
 const TEMP_DIR = path.join(process.cwd(), '.temp-cataloger');
-// Use persistent volume (/data) on Railway, fall back to cwd for local dev
-const PERSISTENT_DIR = fs.existsSync('/data') ? '/data' : process.cwd();
-const CATALOG_RESULTS_PATH = path.join(PERSISTENT_DIR, 'catalog-results.json');
 
 const BATCH_SIZE = 5;               // Smaller batches -- each video is heavier now
 const DELAY_BETWEEN_BATCHES = 5000; // 5 seconds between batches
@@ -141,17 +142,12 @@ function cleanupAllTempFiles(): void {
 }
 
 /**
- * Clean up downloaded video and extracted frames for a specific file
+ * Clean up extracted frames for a specific file. The video itself lives in
+ * the media cache, which evicts on its own size budget.
  */
 function cleanupTempFiles(fileId: string): void {
 	const tempDir = ensureTempDir();
 
-	// Remove the downloaded video
-	const videoPath = path.join(tempDir, fileId + '.mp4');
-	if (fs.existsSync(videoPath)) {
-		try { fs.unlinkSync(videoPath); } catch { /* ignore */ }
-	}
-
 	// Remove extracted frames
 	for (let i = 0; i < 4; i++) {
 		const framePath = path.join(tempDir, `${fileId}_frame_${i}.jpg`);
@@ -180,81 +176,6 @@ function getAvailableDiskSpace(): number {
 	}
 }
 
-// --- Video Download ---
-
-/**
- * Download a video from Google Drive to the temp directory.
- * Uses streaming write to handle large files without memory issues.
- * Skips download if file already exists (from a previous failed run).
- */
-async function downloadVideoToTemp(video: VideoFile): Promise<string> {
-	const tempDir = ensureTempDir();
-	const localPath = path.join(tempDir, video.id + '.mp4');
-
-	// Skip if already downloaded (from a previous failed run)
-	if (fs.existsSync(localPath)) {
-		const stat = fs.statSync(localPath);
-		if (stat.size > 0) {
-			return localPath;
-		}
-		// Remove empty/corrupt file
-		fs.unlinkSync(localPath);
-	}
-
-	// Get auth token
-	const auth = getAuth();
-	const tokenResponse = await auth.authorize();
-	const accessToken = tokenResponse.access_token || '';
-
-	const downloadUrl = `https://www.googleapis.com/drive/v3/files/${video.id}?alt=media`;
-
-	// Download with timeout (2 minutes for large files)
-	const controller = new AbortController();
-	const timeoutId = setTimeout(() => controller.abort(), 120000);
-
-	try {
-		const response = await fetch(downloadUrl, {
-			headers: { 'Authorization': `Bearer ${accessToken}` },
-			signal: controller.signal,
-		});
-
-		clearTimeout(timeoutId);
-
-		if (!response.ok) {
-			throw new Error(`Download failed: ${response.status} ${response.statusText}`);
-		}
-
-		// Stream to file to avoid memory issues with large videos
-		const fileStream = fs.createWriteStream(localPath);
-		const reader = (response.body as ReadableStream<Uint8Array>).getReader();
-
-		try {
-			while (true) {
-				const { done, value } = await reader.read();
-				if (done) break;
-				fileStream.write(Buffer.from(value));
-			}
-		} finally {
-			fileStream.end();
-		}
-
-		// Wait for file to be fully written
-		await new Promise<void>((resolve, reject) => {
-			fileStream.on('finish', resolve);
-			fileStream.on('error', reject);
-		});
-
-		return localPath;
-	} catch (err) {
-		clearTimeout(timeoutId);
-		// Clean up partial download
-		if (fs.existsSync(localPath)) {
-			try { fs.unlinkSync(localPath); } catch { /* ignore */ }
-		}
-		throw err;
-	}
-}
-
 // --- FFmpeg Frame Extraction ---
 
 /**
@@ -335,9 +256,9 @@ async function analyzeVideoFrames(
 	retryCount: number = 0,
 ): Promise<CatalogEntry> {
 	try {
-		// Step 1: Download the video
+		// Step 1: Download the video (media cache — a no-op when it's already there)
 		console.log(`[cataloger] Downloading: ${video.name} (${(parseInt(video.size) / (1024 * 1024)).toFixed(0)} MB)`);
-		const videoPath = await downloadVideoToTemp(video);
+		const { original: videoPath } = await getCachedMedia(video.id, { modifiedTime: video.modifiedTime });
 
 		// Step 2: Get duration
 		const duration = getVideoDuration(videoPath);
@@ -398,11 +319,22 @@ async function analyzeVideoFrames(
 
 		const analysis = JSON.parse(jsonStr);
 
+		// Step 6b: Proxy, keyframe index and audio extract — later previews and
+		// analyses read these instead of re-downloading. Scene detection and the
+		// contact sheet don't need full resolution, so they run on the proxy.
+		let analysisPath = videoPath;
+		try {
+			const media = await warmMediaCache(video.id, video.modifiedTime);
+			if (media.proxy) analysisPath = media.proxy;
+		} catch (err) {
+			console.warn(`[cataloger] Proxy generation skipped for ${video.name}: ${err}`);
+		}
+
 		// Step 7: Run scene analysis (optional — don't fail cataloging if this fails)
 		let sceneAnalysisResult: CatalogEntry['sceneAnalysis'] | undefined;
 		try {
-			// Run scene detection on the already-downloaded video (avoids re-downloading)
-			sceneAnalysisResult = await analyzeVideoScenesFromPath(videoPath, duration);
+			// Run scene detection on the cached proxy (avoids re-downloading)
+			sceneAnalysisResult = await analyzeVideoScenesFromPath(analysisPath, duration);
 			console.log(`[cataloger] Scene analysis: ${sceneAnalysisResult?.sceneChanges.length || 0} scene changes detected`);
 		} catch (err) {
 			console.warn(`[cataloger] Scene analysis skipped for ${video.name}: ${err}`);
@@ -461,7 +393,7 @@ async function analyzeVideoFrames(
 			const { generateContactSheet, cleanupContactSheet } = await import('./contact-sheet');
 			const { analyzeContactSheet } = await import('./visual-timeline');
 
-			const contactSheet = await generateContactSheet(videoPath, video.id, duration);
+			const contactSheet = await generateContactSheet(analysisPath, video.id, duration);
 			console.log(`[cataloger] Contact sheet: ${contactSheet.totalFrames} frames, ${contactSheet.gridCols}x${contactSheet.gridRows} grid, interval=${contactSheet.frameInterval}s`);
 
 			const timeline = await analyzeContactSheet(contactSheet, analysis.activity || '');
@@ -868,23 +800,25 @@ async function scoreVideoTimestamps(
 // --- Resume/Skip Logic ---
 
 /**
- * Load existing catalog from local file if it exists,
- * falling back to the bundled seed data from catalog-seed.json
+ * Load the catalog from the persistent catalog store.
+ * On first run against an empty store, imports the bundled catalog-seed.json
+ * (and any legacy catalog-results.json) so nothing is lost in the switch.
  */
-export function loadExistingCatalog(): CatalogEntry[] {
-	// Try runtime file first (written by saveCatalog during live cataloging)
-	if (fs.existsSync(CATALOG_RESULTS_PATH)) {
-		try {
-			const catalogJson = fs.readFileSync(CATALOG_RESULTS_PATH, 'utf-8');
-			const catalog = JSON.parse(catalogJson) as CatalogEntry[];
-			console.log(`[cataloger] Loaded ${catalog.length} existing entries from ${CATALOG_RESULTS_PATH}`);
-			return catalog;
-		} catch (err) {
-			console.warn('[cataloger] Failed to load runtime catalog:', err);
+export async function loadExistingCatalog(): Promise<CatalogEntry[]> {
+	const store = getCatalogStore();
+	try {
+		let catalog = await store.list();
+		if (catalog.length === 0) {
+			const { imported } = await migrateSeedCatalog(store);
+			if (imported > 0) catalog = await store.list();
 		}
+		console.log(`[cataloger] Loaded ${catalog.length} entries from ${store.kind} catalog store`);
+		return catalog;
+	} catch (err) {
+		console.warn('[cataloger] Failed to load catalog store:', err);
 	}
 
-	// Fall back to bundled seed data (embedded at build time)
+	// Store unavailable — fall back to bundled seed data (read-only)
 	if (catalogSeedData && Array.isArray(catalogSeedData) && catalogSeedData.length > 0) {
 		console.log(`[cataloger] Loaded ${catalogSeedData.length} entries from bundled catalog seed`);
 		return catalogSeedData as CatalogEntry[];
@@ -937,8 +871,8 @@ export async function catalogSingleVideo(videoOrId: VideoFile | string): Promise
  * then cleans up temp files. Processes in batches with rate limiting
  * and incremental saves.
  * 
- * Resume support: If catalog-results.json exists, loads it and skips
- * videos that have already been processed.
+ * Resume support: Loads the catalog store and skips videos that
+ * have already been processed.
  */
 export async function runFullCatalog(
 	config: Partial<CatalogConfig> = {},
@@ -956,7 +890,7 @@ export async function runFullCatalog(
 	console.log(`[cataloger] Config: batch=${cfg.batchSize}, fileDelay=${cfg.delayBetweenFiles}ms, batchDelay=${cfg.delayBetweenBatches}ms`);
 
 	// Load existing catalog for resume support
-	const existingCatalog = loadExistingCatalog();
+	const existingCatalog = await loadExistingCatalog();
 	const processedFileIds = buildProcessedFileSet(existingCatalog);
 
 	// Clean up any leftover temp files from previous runs
@@ -1063,7 +997,7 @@ export async function runFullCatalog(
 			if (progress.completed > 0 && progress.completed % cfg.saveInterval === 0) {
 				console.log(`[cataloger] Saving incremental progress (${progress.completed} files)...`);
 				try {
-					await saveCatalog(progress.catalog);
+					await saveCatalog(progress.catalog, { changedBy: 'cataloger' });
 					console.log('[cataloger] Incremental save complete');
 				} catch (err) {
 					console.warn('[cataloger] Incremental save failed:', err);
@@ -1084,7 +1018,7 @@ export async function runFullCatalog(
 
 	console.log('[cataloger] Saving final catalog...');
 	try {
-		const link = await saveCatalog(progress.catalog);
+		const link = await saveCatalog(progress.catalog, { changedBy: 'cataloger' });
 		console.log(`[cataloger] Final catalog saved: ${link}`);
 	} catch (err) {
 		console.error('[cataloger] Final save failed:', err);
@@ -1147,59 +1081,60 @@ export function getCatalogSummary(catalog: CatalogEntry[]): {
 
 /**
  * Update a single catalog entry's location or content type.
- * Loads the existing catalog, finds the entry by fileId,
- * applies the updates, and persists the result.
+ * Writes only the changed fields to the catalog store, so the manual
+ * correction survives concurrent cataloger/rescore writes and shows up
+ * in the entry's field history as 'manual'.
  *
  * Returns the updated entry, or null if not found.
  */
-export function updateCatalogEntry(
+export async function updateCatalogEntry(
 	fileId: string,
 	updates: {
 		suspectedLocation?: string;
 		contentType?: string;
 	},
-): CatalogEntry | null {
-	const catalog = loadExistingCatalog();
-	const index = catalog.findIndex((entry) => entry.fileId === fileId);
-
-	if (index === -1) {
-		console.warn(`[cataloger] updateCatalogEntry: fileId ${fileId} not found in catalog`);
-		return null;
-	}
-
-	const entry = catalog[index]!;
+): Promise<CatalogEntry | null> {
+	const patch: Partial<CatalogEntry> = {};
 
 	if (updates.suspectedLocation !== undefined) {
-		entry.suspectedLocation = updates.suspectedLocation;
-		entry.locationConfidence = 'high';
+		patch.suspectedLocation = updates.suspectedLocation;
+		patch.locationConfidence = 'high';
 	}
 
 	if (updates.contentType !== undefined) {
-		entry.contentType = updates.contentType as CatalogEntry['contentType'];
+		patch.contentType = updates.contentType as CatalogEntry['contentType'];
 	}
 
 	// Mark as manually reviewed
-	entry.needsManualReview = false;
-	entry.reviewNotes = `Manually updated: ${[
+	patch.needsManualReview = false;
+	patch.reviewNotes = `Manually updated: ${[
 		updates.suspectedLocation ? `location → ${updates.suspectedLocation}` : '',
 		updates.contentType ? `type → ${updates.contentType}` : '',
 	].filter(Boolean).join(', ')}`;
 
-	// Persist changes
-	try {
-		fs.writeFileSync(CATALOG_RESULTS_PATH, JSON.stringify(catalog, null, 2), 'utf-8');
-		console.log(`[cataloger] Updated entry ${fileId}: ${entry.reviewNotes}`);
-	} catch (err) {
-		console.error('[cataloger] Failed to persist catalog update:', err);
+	// Make sure a fresh store has been seeded before patching
+	await loadExistingCatalog();
+
+	const stored = await getCatalogStore().update(fileId, patch, { changedBy: 'manual' });
+	if (!stored) {
+		console.warn(`[cataloger] updateCatalogEntry: fileId ${fileId} not found in catalog`);
+		return null;
 	}
 
-	return entry;
+	console.log(`[cataloger] Updated entry ${fileId} (v${stored.version}): ${patch.reviewNotes}`);
+	return stored.entry;
 }
 
 // --- Background Catalog Job ---
 
+/**
+ * Legacy status shape for the "Run Full Catalog" banner. Backed by the
+ * durable job queue in catalog-jobs.ts — see getCatalogJobStatus().
+ */
 export interface CatalogJobStatus {
 	state: 'idle' | 'running' | 'completed' | 'error';
+	jobId?: string;
+	jobState?: CatalogJobState;
 	total: number;
 	completed: number;
 	failed: number;
@@ -1210,60 +1145,45 @@ export interface CatalogJobStatus {
 	errorMessage?: string;
 }
 
-let _catalogJob: CatalogJobStatus = { state: 'idle', total: 0, completed: 0, failed: 0, skipped: 0 };
+function toLegacyStatus(job: CatalogJob | undefined): CatalogJobStatus {
+	if (!job) return { state: 'idle', total: 0, completed: 0, failed: 0, skipped: 0 };
+	const state: CatalogJobStatus['state'] =
+		job.state === 'done' ? 'completed'
+		: job.state === 'failed' || job.state === 'cancelled' ? 'error'
+		: 'running';
+	return {
+		state,
+		jobId: job.id,
+		jobState: job.state,
+		total: job.total,
+		completed: job.completed,
+		failed: job.failed,
+		skipped: job.skipped,
+		currentFile: job.currentFile,
+		startedAt: job.startedAt,
+		updatedAt: job.updatedAt,
+		errorMessage: job.errorMessage || (job.state === 'cancelled' ? 'Catalog job cancelled' : undefined),
+	};
+}
 
 /**
- * Get the current background catalog job status.
+ * Get the status of the most recent full-catalog job.
  */
-export function getCatalogJobStatus(): CatalogJobStatus {
-	return { ..._catalogJob };
+export async function getCatalogJobStatus(): Promise<CatalogJobStatus> {
+	const [latest] = await listCatalogJobs('full-catalog');
+	return toLegacyStatus(latest);
 }
 
 /**
- * Start a background catalog run. Returns immediately with the job status.
- * The catalog processes asynchronously — poll getCatalogJobStatus() for updates.
- * If a job is already running, returns false.
+ * Queue a full-catalog job. Returns immediately — poll getCatalogJobStatus().
+ * If a full-catalog job is already queued or running, returns false.
  */
-export function startBackgroundCatalog(config: Partial<CatalogConfig> = {}): boolean {
-	if (_catalogJob.state === 'running') {
-		console.log('[cataloger] Background job already running, ignoring start request');
+export async function startBackgroundCatalog(config: Partial<Pick<CatalogConfig, 'batchSize'>> = {}): Promise<boolean> {
+	const { job, existing } = await submitCatalogJob('full-catalog', { batchSize: config.batchSize || BATCH_SIZE });
+	if (existing) {
+		console.log(`[cataloger] Full-catalog job ${job.id} already ${job.state}, ignoring start request`);
 		return false;
 	}
-
-	_catalogJob = {
-		state: 'running',
-		total: 0,
-		completed: 0,
-		failed: 0,
-		skipped: 0,
-		startedAt: new Date().toISOString(),
-		updatedAt: new Date().toISOString(),
-	};
-
-	// Fire and forget — the promise runs in the background
-	runFullCatalog(config, (progress) => {
-		_catalogJob.total = progress.total;
-		_catalogJob.completed = progress.completed;
-		_catalogJob.failed = progress.failed;
-		_catalogJob.skipped = progress.skipped;
-		_catalogJob.currentFile = progress.currentFile;
-		_catalogJob.updatedAt = new Date().toISOString();
-	}).then((finalProgress) => {
-		_catalogJob.state = 'completed';
-		_catalogJob.total = finalProgress.total;
-		_catalogJob.completed = finalProgress.completed;
-		_catalogJob.failed = finalProgress.failed;
-		_catalogJob.skipped = finalProgress.skipped;
-		_catalogJob.currentFile = undefined;
-		_catalogJob.updatedAt = new Date().toISOString();
-		console.log(`[cataloger] Background job completed: ${finalProgress.completed}/${finalProgress.total}`);
-	}).catch((err) => {
-		_catalogJob.state = 'error';
-		_catalogJob.errorMessage = err instanceof Error ? err.message : String(err);
-		_catalogJob.updatedAt = new Date().toISOString();
-		console.error('[cataloger] Background job failed:', err);
-	});
-
 	return true;
 }
 
@@ -1271,11 +1191,26 @@ export function startBackgroundCatalog(config: Partial<CatalogConfig> = {}): boo
  * Get the set of fileIds that have already been cataloged.
  * Used by the frontend to distinguish "never analyzed" from "analyzed but unknown".
  */
-export function getProcessedFileIds(): string[] {
-	const catalog = loadExistingCatalog();
+export async function getProcessedFileIds(): Promise<string[]> {
+	const catalog = await loadExistingCatalog();
 	return catalog.map(entry => entry.fileId);
 }
 
+/**
+ * Download one catalog entry's video and run timestamp scoring on it.
+ * Temp files are always cleaned up. Used by rescoreExistingCatalog and
+ * the rescore job handler in catalog-jobs.ts.
+ */
+export async function scoreCatalogEntryTimestamps(entry: CatalogEntry): Promise<CatalogEntry['timestampScores']> {
+	try {
+		const { original: videoPath } = await getCachedMedia(entry.fileId);
+		const actualDuration = getVideoDuration(videoPath);
+		return await scoreVideoTimestamps(videoPath, entry.fileId, actualDuration);
+	} finally {
+		cleanupTempFiles(entry.fileId);
+	}
+}
+
 /**
  * Re-score existing catalog entries with timestamp-aware action scoring.
  * Downloads each video, runs scoreVideoTimestamps, saves scores to catalog.
@@ -1285,7 +1220,7 @@ export async function rescoreExistingCatalog(
 	options: { force?: boolean; fileIds?: string[] } = {},
 	onProgress?: (completed: number, total: number, currentFile: string) => void,
 ): Promise<{ scored: number; skipped: number; failed: number }> {
-	const catalog = loadExistingCatalog();
+	const catalog = await loadExistingCatalog();
 	let toScore = catalog;
 
 	if (options.fileIds && options.fileIds.length > 0) {
@@ -1313,23 +1248,7 @@ export async function rescoreExistingCatalog(
 		if (onProgress) onProgress(scored + failed + skipped, toScore.length, entry.filename);
 
 		try {
-			// Download video to temp
-			const video = await getVideoMetadata(entry.fileId);
-			const videoFile: VideoFile = {
-				id: entry.fileId,
-				name: entry.filename,
-				mimeType: video.mimeType || 'video/mp4',
-				size: video.size || '0',
-				createdTime: video.createdTime || '',
-				modifiedTime: video.modifiedTime || '',
-				parentFolderId: (video.parents && video.parents[0]) || '',
-			};
-
-			const videoPath = await downloadVideoToTemp(videoFile);
-			const actualDuration = getVideoDuration(videoPath);
-
-			// Run timestamp scoring
-			const scores = await scoreVideoTimestamps(videoPath, entry.fileId, actualDuration);
+			const scores = await scoreCatalogEntryTimestamps(entry);
 
 			// Update the entry in the catalog
 			const catalogIndex = catalog.findIndex(e => e.fileId === entry.fileId);
@@ -1341,21 +1260,17 @@ export async function rescoreExistingCatalog(
 				skipped++;
 			}
 
-			// Clean up
-			cleanupTempFiles(entry.fileId);
-
 			// Rate limit
 			await sleep(2000);
 		} catch (err) {
 			failed++;
 			console.error(`[cataloger] Re-score failed for ${entry.filename}: ${err}`);
-			cleanupTempFiles(entry.fileId);
 		}
 
 		// Incremental save every 5
 		if ((scored + failed) % 5 === 0 && scored > 0) {
 			try {
-				await saveCatalog(catalog);
+				await saveCatalog(catalog, { changedBy: 'rescore' });
 				console.log(`[cataloger] Incremental re-score save (${scored} scored)`);
 			} catch { /* continue */ }
 		}
@@ -1364,7 +1279,7 @@ export async function rescoreExistingCatalog(
 	// Final save
 	if (scored > 0) {
 		try {
-			await saveCatalog(catalog);
+			await saveCatalog(catalog, { changedBy: 'rescore' });
 		} catch (err) {
 			console.error('[cataloger] Failed to save re-scored catalog:', err);
 		}
@@ -10,6 +10,9 @@
  *   Individual frames: ~16 images across 3+ API calls → ~$0.02-0.05
  *   Contact sheet: 1 image, 1 API call → ~$0.002-0.005
  *
+ * Drive videos come from the media cache's 480p proxy — thumbnails are
+ * 192px wide, so decoding the original would only cost time.
+ *
  * NOTE: Uses async exec (not execSync) because Bun's execSync can trigger
  * process.exit(0) on child process completion, which crashes Agentuity's runtime.
  *
@@ -19,6 +22,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { exec } from 'child_process';
+import { getCachedMedia } from './media-cache';
 
 // --- Types ---
 
@@ -254,6 +258,18 @@ export async function generateContactSheetAtTimestamps(
 	};
 }
 
+/**
+ * Contact sheet for a Drive video, read from the media cache (downloaded and
+ * proxied on first use). Duration comes from the cached keyframe index.
+ */
+export async function generateContactSheetForDriveFile(
+	fileId: string,
+	options?: ContactSheetOptions,
+): Promise<ContactSheet> {
+	const media = await getCachedMedia(fileId, { include: ['proxy', 'keyframes'] });
+	return generateContactSheet(media.proxy || media.original, fileId, media.keyframes?.duration || 0, options);
+}
+
 /**
  * Clean up a contact sheet file after it's been used.
  */
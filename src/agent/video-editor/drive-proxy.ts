@@ -66,3 +66,23 @@ export function buildProcessedFileProxyUrl(appUrl: string, processedId: string):
 	const base = appUrl.endsWith('/') ? appUrl.slice(0, -1) : appUrl;
 	return `${base}/api/processed-file/${encodeURIComponent(processedId)}?token=${token}`;
 }
+
+/**
+ * Build a signed URL for an uploaded music file kept on the persistent
+ * volume (music-library.ts file backend — without Supabase Storage).
+ */
+export function buildMusicFileProxyUrl(appUrl: string, fileName: string): string {
+	const token = createDriveProxyToken(fileName);
+	const base = appUrl.endsWith('/') ? appUrl.slice(0, -1) : appUrl;
+	return `${base}/api/music-file/${encodeURIComponent(fileName)}?token=${token}`;
+}
+
+/**
+ * Build a signed URL for a file's cached 480p proxy (media-cache.ts).
+ * In-browser previews stream this instead of the full Drive original.
+ */
+export function buildMediaProxyUrl(appUrl: string, fileId: string): string {
+	const token = createDriveProxyToken(fileId);
+	const base = appUrl.endsWith('/') ? appUrl.slice(0, -1) : appUrl;
+	return `${base}/api/media-proxy/${encodeURIComponent(fileId)}?token=${token}`;
+}
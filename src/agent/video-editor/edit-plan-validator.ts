@@ -9,16 +9,21 @@
  * trivial issues (duration overflow, clamping) while flagging
  * unfixable issues as warnings.
  *
+ * Given the soundtrack's beat grid, also snaps cuts and slow-mo peaks to
+ * beats and flags cuts that still land off the beat in high-energy modes.
+ *
  * File: src/agent/video-editor/edit-plan-validator.ts
  */
 
 import type { CatalogEntry } from './google-drive';
+import type { MusicAnalysis } from './music-analysis';
+import { BEAT_SNAP_TOLERANCE, findOffBeatCuts, snapClipsToBeats } from './beat-sync';
 
 // --- Types ---
 
 export interface ValidationIssue {
 	severity: 'error' | 'warning';
-	category: 'duration' | 'overlap' | 'cut-safety' | 'action-alignment' | 'file-id' | 'overlay' | 'gap';
+	category: 'duration' | 'overlap' | 'cut-safety' | 'action-alignment' | 'file-id' | 'overlay' | 'gap' | 'beat-sync';
 	clipIndex?: number;
 	message: string;
 	autoFixed?: boolean;
@@ -58,8 +63,19 @@ interface EditPlanData {
 	transitions?: string;
 	musicTier?: number;
 	musicDirection?: string;
+	musicUrl?: string;
+}
+
+export interface ValidateEditPlanOptions {
+	/** Beat grid of the soundtrack — enables the beat-sync rule */
+	music?: MusicAnalysis;
+	/** Max seconds a cut may sit from a beat (default BEAT_SNAP_TOLERANCE) */
+	beatTolerance?: number;
 }
 
+/** Modes where an off-beat cut is visible enough to warn about. */
+const BEAT_SYNC_MODES = ['game_day', 'quick_hit'];
+
 // --- Validation ---
 
 /**
@@ -69,6 +85,7 @@ interface EditPlanData {
 export function validateEditPlan(
 	editPlan: EditPlanData,
 	catalogMap: Map<string, CatalogEntry>,
+	options: ValidateEditPlanOptions = {},
 ): ValidationResult {
 	const errors: ValidationIssue[] = [];
 	const warnings: ValidationIssue[] = [];
@@ -304,6 +321,49 @@ export function validateEditPlan(
 		}
 	}
 
+	// --- Rule 7: Beat sync ---
+	if (options.music) {
+		const tolerance = options.beatTolerance ?? BEAT_SNAP_TOLERANCE;
+		const snapped = snapClipsToBeats(editPlan.clips, options.music, {
+			tolerance,
+			skipFinalCut: true,
+			maxSourceEnd: (i) => {
+				const entry = catalogMap.get(editPlan.clips[i]!.fileId);
+				const sourceDuration = entry?.duration ? parseFloat(entry.duration.replace(/s$/, '')) || 0 : 0;
+				return sourceDuration > 0 ? sourceDuration : undefined;
+			},
+		});
+		for (const adj of snapped.adjustments) {
+			const clip = editPlan.clips[adj.clipIndex]!;
+			const fixed = snapped.clips[adj.clipIndex]!;
+			const fixDescription = adj.kind === 'cut'
+				? `Duration ${clip.duration}s -> ${fixed.duration}s`
+				: `trimStart ${clip.trimStart}s -> ${fixed.trimStart}s`;
+			clip.trimStart = fixed.trimStart;
+			clip.duration = fixed.duration;
+			warnings.push({
+				severity: 'warning',
+				category: 'beat-sync',
+				clipIndex: adj.clipIndex,
+				message: `Clip ${adj.clipIndex + 1}: ${adj.kind === 'cut' ? 'cut' : 'slow-mo peak'} at ${adj.before}s snapped to beat at ${adj.after}s`,
+				autoFixed: true,
+				fixDescription,
+			});
+			autoFixCount++;
+		}
+
+		if (editPlan.mode && BEAT_SYNC_MODES.includes(editPlan.mode)) {
+			for (const cut of findOffBeatCuts(editPlan.clips, options.music, tolerance)) {
+				warnings.push({
+					severity: 'warning',
+					category: 'beat-sync',
+					clipIndex: cut.clipIndex,
+					message: `Clip ${cut.clipIndex + 1}: cut at ${cut.at}s is ${cut.offBy}s off the beat (${options.music.bpm} bpm) — ${editPlan.mode} cuts should land on the beat`,
+				});
+			}
+		}
+	}
+
 	return {
 		valid: errors.length === 0,
 		errors,
@@ -0,0 +1,532 @@
+/**
+ * Edit Plan Versions — persisted history of every edit plan a video went through
+ *
+ * Edit plans travel as opaque blobs between `edit`, `render`, `review-render`
+ * and `generate-revision`; before this, a revision simply replaced the plan
+ * it came from. Now every plan is saved as a version:
+ *
+ *   - lineage: all versions of one video share the first version's id
+ *   - parent:  the version it was derived from, with a structured diff of
+ *              clips / overlays / music against it
+ *   - source:  what produced it — the v1 director prompt, pipeline-v2, a
+ *              reviewer revision, human feedback, a hand edit, a rollback
+ *   - links:   renders submitted from it and VideoReviews of those renders
+ *
+ * The version id rides inside the plan as `_versionId`, so existing callers
+ * carry it through untouched. A plan that comes back changed (edited in the
+ * UI) becomes a new 'manual' child of the version it claims. Rolling back
+ * copies an old plan forward as a new version — history is never rewritten.
+ * Render and review links are added to a version in place, guarded by its
+ * `revision` so two links written at once don't drop each other.
+ *
+ * Uses the Supabase edit_plan_versions table when Supabase is configured
+ * (see docs/edit_plan_versions_schema.sql), else edit-plan-versions.json on
+ * the persistent volume.
+ *
+ * File: src/agent/video-editor/edit-plan-versions.ts
+ */
+
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import type { VideoReview } from './video-reviewer';
+
+// --- Types ---
+
+export type EditPlanSource =
+	| 'v1-prompt'          // video-director-prompt.ts monolith
+	| 'pipeline-v2'        // pipeline-v2 multi-step planner
+	| 'reviewer-revision'  // generateRevisedEditPlan() from a VideoReview
+	| 'human-feedback'     // generate-revision with an editor's notes
+	| 'manual'             // plan edited by hand, or arrived without a version
+	| 'rollback';          // an older version copied forward
+
+export interface EditPlanRenderLink {
+	renderId: string;
+	platform?: string;
+	engine?: string;
+	renderGroupId?: string;
+	createdAt: string;
+}
+
+export interface EditPlanReviewLink {
+	renderId?: string;
+	reviewUrl?: string;
+	overallScore: number;
+	review: VideoReview;
+	reviewedAt: string;
+}
+
+export interface FieldChange {
+	from: unknown;
+	to: unknown;
+}
+
+export interface ClipDiff {
+	added: Array<{ index: number; fileId: string; filename?: string }>;
+	removed: Array<{ index: number; fileId: string; filename?: string }>;
+	/** Same source clip in both plans with different trim/speed/styling. `index` is in the newer plan. */
+	changed: Array<{ index: number; fromIndex: number; fileId: string; fields: Record<string, FieldChange> }>;
+	/** Clips present in both plans appear in a different order. */
+	reordered: boolean;
+}
+
+export interface OverlayDiff {
+	added: Array<{ index: number; text: string }>;
+	removed: Array<{ index: number; text: string }>;
+	changed: Array<{ index: number; fromIndex: number; fields: Record<string, FieldChange> }>;
+}
+
+export interface EditPlanDiff {
+	clips: ClipDiff;
+	overlays: OverlayDiff;
+	/** Only the music fields that changed; empty when the soundtrack is the same. */
+	music: Record<string, FieldChange>;
+	/** Other top-level plan fields (mode, totalDuration, ...) that changed. */
+	other: Record<string, FieldChange>;
+	/** One line per change, for logs and the UI. */
+	summary: string[];
+}
+
+export interface EditPlanVersion {
+	id: string;
+	lineageId: string;
+	/** 1-based within the lineage. */
+	version: number;
+	parentId: string | null;
+	source: EditPlanSource;
+	plan: Record<string, unknown>;
+	/** Against the parent; null for the first version. */
+	diff: EditPlanDiff | null;
+	renders: EditPlanRenderLink[];
+	reviews: EditPlanReviewLink[];
+	/** Editor feedback behind a revision, or why a rollback happened. */
+	note?: string;
+	/** Set on rollbacks — the version whose plan was copied forward. */
+	restoredFrom?: string;
+	createdAt: string;
+	/** Bumped each time a render or review is linked. Absent = 0. */
+	revision?: number;
+}
+
+export interface EditPlanVersionSummary {
+	id: string;
+	lineageId: string;
+	version: number;
+	parentId: string | null;
+	source: EditPlanSource;
+	mode?: string;
+	clipCount: number;
+	changeCount: number;
+	renderCount: number;
+	bestReviewScore: number | null;
+	note?: string;
+	restoredFrom?: string;
+	createdAt: string;
+}
+
+interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+// --- Constants ---
+
+const VERSIONS_FILE_PATH = persistentPath('edit-plan-versions.json');
+const MAX_FILE_VERSIONS = 1000;
+
+const CLIP_FIELDS = [
+	'trimStart', 'duration', 'speed', 'purpose', 'effect', 'filter',
+	'transitionType', 'transitionDirection', 'extraZoom',
+] as const;
+const OVERLAY_FIELDS = ['text', 'start', 'duration', 'position', 'animation'] as const;
+const MUSIC_FIELDS = ['musicUrl', 'musicTrackId', 'musicTier', 'musicDirection'] as const;
+const OTHER_FIELDS = ['mode', 'totalDuration', 'transitions'] as const;
+
+// --- Diff ---
+
+type PlanClip = { fileId: string; filename?: string } & Record<string, unknown>;
+type PlanOverlay = { text: string } & Record<string, unknown>;
+
+function clipsOf(plan: Record<string, unknown>): PlanClip[] {
+	return Array.isArray(plan.clips) ? (plan.clips as PlanClip[]).filter(c => c && typeof c.fileId === 'string') : [];
+}
+
+function overlaysOf(plan: Record<string, unknown>): PlanOverlay[] {
+	return Array.isArray(plan.textOverlays) ? (plan.textOverlays as PlanOverlay[]).filter(o => o && typeof o.text === 'string') : [];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 0.005;
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldChanges(a: Record<string, unknown>, b: Record<string, unknown>, fields: readonly string[]): Record<string, FieldChange> {
+	const changes: Record<string, FieldChange> = {};
+	for (const field of fields) {
+		if (!sameValue(a[field], b[field])) changes[field] = { from: a[field] ?? null, to: b[field] ?? null };
+	}
+	return changes;
+}
+
+/**
+ * Pair items of `next` with items of `prev` by key. With duplicates (the
+ * same source file used twice) the nearest unmatched position wins.
+ */
+function matchByKey<T>(prev: T[], next: T[], key: (item: T) => string): Array<number | null> {
+	const used = new Set<number>();
+	return next.map((item, index) => {
+		let best: number | null = null;
+		prev.forEach((candidate, prevIndex) => {
+			if (used.has(prevIndex) || key(candidate) !== key(item)) return;
+			if (best === null || Math.abs(prevIndex - index) < Math.abs(best - index)) best = prevIndex;
+		});
+		if (best !== null) used.add(best);
+		return best;
+	});
+}
+
+/** Structured diff of `to` against `from`: clips by source file, overlays by text then position. */
+export function diffEditPlans(from: Record<string, unknown>, to: Record<string, unknown>): EditPlanDiff {
+	const summary: string[] = [];
+
+	// Clips
+	const prevClips = clipsOf(from);
+	const nextClips = clipsOf(to);
+	const clipMatch = matchByKey(prevClips, nextClips, c => c.fileId);
+	const clips: ClipDiff = { added: [], removed: [], changed: [], reordered: false };
+	clipMatch.forEach((prevIndex, index) => {
+		const clip = nextClips[index]!;
+		if (prevIndex === null) {
+			clips.added.push({ index, fileId: clip.fileId, filename: clip.filename });
+			summary.push(`Added clip ${index + 1} (${clip.filename || clip.fileId})`);
+			return;
+		}
+		const fields = fieldChanges(prevClips[prevIndex]!, clip, CLIP_FIELDS);
+		if (Object.keys(fields).length > 0) {
+			clips.changed.push({ index, fromIndex: prevIndex, fileId: clip.fileId, fields });
+			summary.push(`Clip ${index + 1} (${clip.filename || clip.fileId}): ${Object.entries(fields)
+				.map(([field, change]) => `${field} ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`).join(', ')}`);
+		}
+	});
+	const matchedPrev = new Set(clipMatch.filter((i): i is number => i !== null));
+	prevClips.forEach((clip, index) => {
+		if (matchedPrev.has(index)) return;
+		clips.removed.push({ index, fileId: clip.fileId, filename: clip.filename });
+		summary.push(`Removed clip ${index + 1} (${clip.filename || clip.fileId})`);
+	});
+	const order = clipMatch.filter((i): i is number => i !== null);
+	clips.reordered = order.some((prevIndex, i) => i > 0 && prevIndex < order[i - 1]!);
+	if (clips.reordered) summary.push('Clips reordered');
+
+	// Overlays — exact text first, then leftovers paired by position as text edits
+	const prevOverlays = overlaysOf(from);
+	const nextOverlays = overlaysOf(to);
+	const overlayMatch = matchByKey(prevOverlays, nextOverlays, o => o.text.trim().toLowerCase());
+	const leftoverPrev = prevOverlays.map((_, i) => i).filter(i => !overlayMatch.includes(i));
+	overlayMatch.forEach((prevIndex, index) => {
+		if (prevIndex === null && leftoverPrev.length > 0) overlayMatch[index] = leftoverPrev.shift()!;
+	});
+	const overlays: OverlayDiff = { added: [], removed: [], changed: [] };
+	overlayMatch.forEach((prevIndex, index) => {
+		const overlay = nextOverlays[index]!;
+		if (prevIndex === null) {
+			overlays.added.push({ index, text: overlay.text });
+			summary.push(`Added overlay "${overlay.text}"`);
+			return;
+		}
+		const fields = fieldChanges(prevOverlays[prevIndex]!, overlay, OVERLAY_FIELDS);
+		if (Object.keys(fields).length > 0) {
+			overlays.changed.push({ index, fromIndex: prevIndex, fields });
+			summary.push(fields.text
+				? `Overlay "${String(fields.text.from)}" → "${overlay.text}"`
+				: `Overlay "${overlay.text}": ${Object.keys(fields).join(', ')} changed`);
+		}
+	});
+	prevOverlays.forEach((overlay, index) => {
+		if (overlayMatch.includes(index)) return;
+		overlays.removed.push({ index, text: overlay.text });
+		summary.push(`Removed overlay "${overlay.text}"`);
+	});
+
+	// Music + other top-level fields
+	const music = fieldChanges(from, to, MUSIC_FIELDS);
+	if (Object.keys(music).length > 0) summary.push(`Music: ${Object.keys(music).join(', ')} changed`);
+	const other = fieldChanges(from, to, OTHER_FIELDS);
+	for (const [field, change] of Object.entries(other)) {
+		summary.push(`${field}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`);
+	}
+
+	return { clips, overlays, music, other, summary };
+}
+
+/** Plan content without bookkeeping fields (`_versionId`, `_v2Meta`, `_dedupWarnings`, ...). */
+function planContent(plan: Record<string, unknown>): Record<string, unknown> {
+	const content: Record<string, unknown> = {};
+	for (const key of Object.keys(plan).sort()) {
+		if (!key.startsWith('_')) content[key] = plan[key];
+	}
+	return content;
+}
+
+function samePlan(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+	return JSON.stringify(planContent(a)) === JSON.stringify(planContent(b));
+}
+
+// --- Store ---
+
+function readVersionsFile(): EditPlanVersion[] {
+	return readJsonFile<EditPlanVersion[]>(VERSIONS_FILE_PATH, [], 'edit-plan-versions');
+}
+
+function writeVersionsFile(versions: EditPlanVersion[]): void {
+	writeJsonFile(VERSIONS_FILE_PATH, versions.slice(-MAX_FILE_VERSIONS), { pretty: true });
+}
+
+async function insertVersion(version: EditPlanVersion): Promise<void> {
+	if (supabaseAdmin) {
+		const { error } = await supabaseAdmin.from('edit_plan_versions').insert({
+			id: version.id,
+			lineage_id: version.lineageId,
+			version: version.version,
+			parent_id: version.parentId,
+			source: version.source,
+			record: version,
+			revision: version.revision ?? 0,
+			created_at: version.createdAt,
+		});
+		if (error?.code === '23505') throw Object.assign(new Error('version taken'), { code: '23505' });
+		if (error) throw new Error(`edit_plan_versions write failed: ${error.message}`);
+		return;
+	}
+	const versions = readVersionsFile();
+	versions.push(version);
+	writeVersionsFile(versions);
+}
+
+/** Rewrite a version's record if its revision is still `expectedRevision`. False = someone else wrote it first. */
+async function updateVersion(version: EditPlanVersion, expectedRevision: number): Promise<boolean> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('edit_plan_versions')
+			.update({ record: version, revision: version.revision ?? 0 })
+			.eq('id', version.id)
+			.eq('revision', expectedRevision)
+			.select('id');
+		if (error) throw new Error(`edit_plan_versions write failed: ${error.message}`);
+		return (data || []).length > 0;
+	}
+	const versions = readVersionsFile();
+	const index = versions.findIndex(v => v.id === version.id);
+	if (index === -1 || (versions[index]!.revision ?? 0) !== expectedRevision) return false;
+	versions[index] = version;
+	writeVersionsFile(versions);
+	return true;
+}
+
+/**
+ * Read-modify-write a version's links with the revision check, re-reading
+ * on a conflict. `mutate` returns false when there is nothing to change.
+ */
+async function mutateVersion(versionId: string, mutate: (version: EditPlanVersion) => boolean): Promise<void> {
+	for (let attempt = 0; attempt < 5; attempt++) {
+		const version = await getEditPlanVersion(versionId);
+		if (!version) return;
+		const expectedRevision = version.revision ?? 0;
+		if (!mutate(version)) return;
+		version.revision = expectedRevision + 1;
+		if (await updateVersion(version, expectedRevision)) return;
+	}
+	throw new Error(`Edit plan version ${versionId} changed concurrently — try again`);
+}
+
+export async function getEditPlanVersion(id: string): Promise<EditPlanVersion | null> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('edit_plan_versions')
+			.select('record')
+			.eq('id', id)
+			.maybeSingle();
+		if (error) throw new Error(`edit_plan_versions read failed: ${error.message}`);
+		return (data?.record as EditPlanVersion | undefined) ?? null;
+	}
+	return readVersionsFile().find(v => v.id === id) ?? null;
+}
+
+/** Every version of one video, oldest first. */
+export async function listEditPlanVersions(lineageId: string): Promise<EditPlanVersion[]> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('edit_plan_versions')
+			.select('record')
+			.eq('lineage_id', lineageId)
+			.order('version', { ascending: true });
+		if (error) throw new Error(`edit_plan_versions read failed: ${error.message}`);
+		return (data || []).map(row => row.record as EditPlanVersion);
+	}
+	return readVersionsFile().filter(v => v.lineageId === lineageId).sort((a, b) => a.version - b.version);
+}
+
+export function summarizeEditPlanVersion(version: EditPlanVersion): EditPlanVersionSummary {
+	const scores = version.reviews.map(r => r.overallScore);
+	return {
+		id: version.id,
+		lineageId: version.lineageId,
+		version: version.version,
+		parentId: version.parentId,
+		source: version.source,
+		mode: typeof version.plan.mode === 'string' ? version.plan.mode : undefined,
+		clipCount: clipsOf(version.plan).length,
+		changeCount: version.diff?.summary.length ?? 0,
+		renderCount: version.renders.length,
+		bestReviewScore: scores.length > 0 ? Math.max(...scores) : null,
+		note: version.note,
+		restoredFrom: version.restoredFrom,
+		createdAt: version.createdAt,
+	};
+}
+
+/** The newest version of each recent lineage, newest first. */
+export async function listRecentEditPlanLineages(limit = 20): Promise<EditPlanVersionSummary[]> {
+	let versions: EditPlanVersion[];
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('edit_plan_versions')
+			.select('record')
+			.order('created_at', { ascending: false })
+			.limit(limit * 10);
+		if (error) throw new Error(`edit_plan_versions read failed: ${error.message}`);
+		versions = (data || []).map(row => row.record as EditPlanVersion);
+	} else {
+		versions = readVersionsFile().reverse();
+	}
+	const newest = new Map<string, EditPlanVersion>();
+	for (const version of versions) {
+		const seen = newest.get(version.lineageId);
+		if (!seen || version.version > seen.version) newest.set(version.lineageId, version);
+	}
+	return [...newest.values()]
+		.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+		.slice(0, limit)
+		.map(summarizeEditPlanVersion);
+}
+
+/**
+ * Save `plan` as a new version. With a parent it joins the parent's lineage
+ * as the next number and records the diff; without one it starts a lineage.
+ * Sets `plan._versionId` so the id travels with the plan.
+ */
+export async function saveEditPlanVersion(input: {
+	plan: Record<string, unknown>;
+	source: EditPlanSource;
+	parentId?: string | null;
+	note?: string;
+	restoredFrom?: string;
+}): Promise<EditPlanVersion> {
+	const parent = input.parentId ? await getEditPlanVersion(input.parentId) : null;
+	const plan = planContent(input.plan);
+
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const siblings = parent ? await listEditPlanVersions(parent.lineageId) : [];
+		const id = `epv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+		const version: EditPlanVersion = {
+			id,
+			lineageId: parent?.lineageId ?? id,
+			version: siblings.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+			parentId: parent?.id ?? null,
+			source: input.source,
+			plan: { ...plan, _versionId: id },
+			diff: parent ? diffEditPlans(parent.plan, plan) : null,
+			renders: [],
+			reviews: [],
+			note: input.note,
+			restoredFrom: input.restoredFrom,
+			createdAt: new Date().toISOString(),
+		};
+		try {
+			await insertVersion(version);
+		} catch (err) {
+			if ((err as { code?: string }).code === '23505') continue;
+			throw err;
+		}
+		input.plan._versionId = id;
+		return version;
+	}
+	throw new Error('Edit plan versions changed concurrently — try again');
+}
+
+/**
+ * The version a plan blob belongs to. A plan whose `_versionId` is known and
+ * unchanged maps to that version; a plan edited since becomes a new child
+ * of it; a plan with no version starts a lineage as `source`.
+ */
+export async function ensureEditPlanVersion(
+	plan: Record<string, unknown>,
+	source: EditPlanSource = 'manual',
+): Promise<EditPlanVersion> {
+	const claimed = typeof plan._versionId === 'string' ? await getEditPlanVersion(plan._versionId) : null;
+	if (claimed && samePlan(claimed.plan, plan)) return claimed;
+	return saveEditPlanVersion({ plan, source: claimed ? 'manual' : source, parentId: claimed?.id });
+}
+
+/**
+ * Save `revised` as a child of the version `original` belongs to. The
+ * original is versioned first if it never was (plans from before versioning).
+ */
+export async function saveEditPlanRevision(
+	original: Record<string, unknown>,
+	revised: Record<string, unknown>,
+	source: 'reviewer-revision' | 'human-feedback',
+	note?: string,
+): Promise<EditPlanVersion> {
+	const parent = await ensureEditPlanVersion(original);
+	return saveEditPlanVersion({ plan: revised, source, parentId: parent.id, note });
+}
+
+/** Record a render submitted from a version. */
+export async function linkRenderToVersion(versionId: string, render: Omit<EditPlanRenderLink, 'createdAt'>): Promise<void> {
+	await mutateVersion(versionId, (version) => {
+		if (version.renders.some(r => r.renderId === render.renderId)) return false;
+		version.renders.push({ ...render, createdAt: new Date().toISOString() });
+		return true;
+	});
+}
+
+/** Record a VideoReview of a render from a version. */
+export async function linkReviewToVersion(
+	versionId: string,
+	review: VideoReview,
+	meta: { renderId?: string; reviewUrl?: string } = {},
+): Promise<void> {
+	const reviewedAt = new Date().toISOString();
+	await mutateVersion(versionId, (version) => {
+		version.reviews.push({
+			renderId: meta.renderId,
+			reviewUrl: meta.reviewUrl,
+			overallScore: review.overallScore,
+			review,
+			reviewedAt,
+		});
+		return true;
+	});
+}
+
+/**
+ * Roll back: copy an older version's plan forward as the newest version of
+ * its lineage (parent = the current newest), ready to render again.
+ */
+export async function restoreEditPlanVersion(id: string, note?: string, logger?: Logger): Promise<EditPlanVersion | null> {
+	const old = await getEditPlanVersion(id);
+	if (!old) return null;
+	const lineage = await listEditPlanVersions(old.lineageId);
+	const latest = lineage[lineage.length - 1]!;
+	const restored = await saveEditPlanVersion({
+		plan: { ...old.plan },
+		source: 'rollback',
+		parentId: latest.id,
+		note,
+		restoredFrom: old.id,
+	});
+	logger?.info('[edit-plan-versions] Restored v%d of %s as v%d', old.version, old.lineageId, restored.version);
+	return restored;
+}
@@ -317,9 +317,11 @@ export async function downloadVideo(fileId: string, outputPath: string): Promise
   const dest = fs.createWriteStream(destPath);
 
   return new Promise((resolve, reject) => {
+    // Resolve on 'finish', not the source's 'end' — the file must be fully
+    // flushed before FFmpeg (or the media cache's rename) touches it
     dest.on('error', (err: Error) => reject(err));
+    dest.on('finish', () => resolve(destPath));
     (response.data as NodeJS.ReadableStream)
-      .on('end', () => resolve(destPath))
       .on('error', (err: Error) => reject(err))
       .pipe(dest);
   });
@@ -452,27 +454,26 @@ export async function generateBlankCatalog(folderId?: string): Promise<CatalogEn
 }
 
 /**
- * Save catalog to Google Drive as a JSON file for review
- * Falls back to local file (catalog-results.json) if Drive save fails
+ * Persist the catalog to the catalog store, then export a JSON copy to
+ * Google Drive for review. The store is the source of truth; the Drive
+ * export is best-effort.
+ *
+ * `changedBy` is recorded in the store's field history
+ * (e.g. 'cataloger', 'rescore', 'analyze-scenes').
  */
-export async function saveCatalog(catalog: CatalogEntry[], parentFolderId?: string): Promise<string> {
-  const catalogJson = JSON.stringify(catalog, null, 2);
-  // Use persistent volume (/data) on Railway, fall back to cwd for local dev
-  const persistDir = fs.existsSync('/data') ? '/data' : process.cwd();
-  const localPath = path.join(persistDir, 'catalog-results.json');
-  
-  // Always save locally first as a fallback
-  try {
-    fs.writeFileSync(localPath, catalogJson, 'utf-8');
-    console.log(`[google-drive] Local catalog saved: ${localPath}`);
-  } catch (localErr) {
-    console.warn('[google-drive] Failed to save local catalog:', localErr);
-  }
-
-  // Try to save to Google Drive
+export async function saveCatalog(
+  catalog: CatalogEntry[],
+  options: { changedBy?: string; parentFolderId?: string } = {},
+): Promise<string> {
+  const { getCatalogStore } = await import('./catalog-store');
+  const store = getCatalogStore();
+  const { written, unchanged } = await store.putMany(catalog, { changedBy: options.changedBy || 'catalog-save' });
+  console.log(`[google-drive] Catalog store (${store.kind}): ${written} written, ${unchanged} unchanged`);
+
+  // Try to export to Google Drive
   try {
     const drive = getDrive();
-    const root = parentFolderId || process.env.GOOGLE_DRIVE_FOLDER_ID;
+    const root = options.parentFolderId || process.env.GOOGLE_DRIVE_FOLDER_ID;
 
     if (!root) {
       throw new Error('GOOGLE_DRIVE_FOLDER_ID not set in environment');
@@ -486,7 +487,7 @@ export async function saveCatalog(catalog: CatalogEntry[], parentFolderId?: stri
       },
       media: {
         mimeType: 'application/json',
-        body: catalogJson,
+        body: JSON.stringify(catalog, null, 2),
       },
       fields: 'id, webViewLink',
     });
@@ -496,9 +497,8 @@ export async function saveCatalog(catalog: CatalogEntry[], parentFolderId?: stri
     return driveLink;
   } catch (driveErr) {
     const errorMsg = driveErr instanceof Error ? driveErr.message : String(driveErr);
-    console.warn(`[google-drive] Drive save failed: ${errorMsg}`);
-    console.log(`[google-drive] Using local fallback: ${localPath}`);
-    return `Local file: ${localPath}`;
+    console.warn(`[google-drive] Drive export failed: ${errorMsg}`);
+    return `Catalog store: ${store.kind}`;
   }
 }
 
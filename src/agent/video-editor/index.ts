@@ -45,21 +45,25 @@ import {
 	startBackgroundCatalog,
 	getCatalogJobStatus,
 	getProcessedFileIds,
-	rescoreExistingCatalog,
 	type CatalogProgress,
 } from './cataloger';
+import {
+	submitCatalogJob,
+	getCatalogJob,
+	listCatalogJobs,
+	controlCatalogJob,
+	startCatalogJobWorker,
+	CATALOG_JOB_TYPES,
+	type CatalogJobType,
+} from './catalog-jobs';
 import {
 	testShotstackConnection,
-	submitRenderTimeline,
-	checkStatus,
-	buildRenderTimeline,
 	getTemporaryPublicUrl,
 	revokePublicUrl,
 	PLATFORM_SETTINGS,
 	MODE_RENDER_SETTINGS,
-	type RenderConfig,
 } from './shotstack';
-import { buildDriveProxyUrl, buildProcessedFileProxyUrl } from './drive-proxy';
+import { createDriveProxyToken } from './drive-proxy';
 import { preprocessAllClips, cleanupProcessedFiles, type PreprocessClipConfig, type PreprocessedClip } from './preprocess';
 // Remotion imports are dynamic to prevent Vite from bundling @remotion/renderer
 // (which transitively imports @remotion/studio → @remotion/web-renderer)
@@ -67,15 +71,18 @@ import { preprocessAllClips, cleanupProcessedFiles, type PreprocessClipConfig, t
 import {
 	selectTrack,
 	shouldAddMusic,
-	getAllTracks,
-	getTracksForMode,
 	createCustomMusicSelection,
 	type MusicTrack,
 } from './music';
+import { listMusicTracks, getRecentMusicUsage, musicTrackIdForUrl, updateMusicTrack, removeMusicTrack } from './music-library';
 import { formatSceneAnalysisForPrompt, formatSegmentTimelineForPrompt, generateNamedSegments } from './scene-analyzer';
 import { formatVisualTimelineForPrompt } from './visual-timeline';
 import { getSkillsForPrompt } from './remotion/skills';
+import { transcribeEditPlanClips } from './transcription';
+import { analyzeEditPlanAudio, type AudioMix } from './audio-mix';
+import { trackFromTimestampScores } from './smart-crop';
 import { reviewRenderedVideo, generateRevisedEditPlan, type VideoReview } from './video-reviewer';
+import { ensureEditPlanVersion, saveEditPlanVersion, saveEditPlanRevision, linkRenderToVersion, linkReviewToVersion } from './edit-plan-versions';
 import {
 	type VideoUsageSummary,
 	type ClipUsageRecord,
@@ -109,9 +116,49 @@ function makeAsyncLogger(prefix: string) {
 	};
 }
 
+/**
+ * Validate a hand-edited plan for the timeline editor (validate-edit-plan /
+ * save-edit-plan). Same rules as the edit task, including beat sync against
+ * the plan's soundtrack, but run on a copy: the validator auto-fixes in
+ * place, and the editor offers those fixes instead of moving clips under
+ * the user's cursor.
+ */
+async function validateEditorPlan(
+	plan: Record<string, unknown>,
+	options: { platform: string; editMode: string; musicDisabled?: boolean },
+	logger: { warn: (...args: any[]) => void },
+) {
+	const { validateEditPlan } = await import('./edit-plan-validator');
+	const { trackForPlan } = await import('./beat-sync');
+	const catalog = await loadExistingCatalog();
+	const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
+	const fixedPlan = structuredClone(plan);
+
+	const musicTrack = options.musicDisabled ? null : await trackForPlan(
+		fixedPlan as { musicUrl?: string | null; musicTier?: number; musicDirection?: string },
+		typeof fixedPlan.mode === 'string' ? fixedPlan.mode : options.editMode,
+		options.platform,
+	);
+	let musicAnalysis;
+	if (musicTrack) {
+		try {
+			const { analyzeMusic } = await import('./music-analysis');
+			musicAnalysis = await analyzeMusic(musicTrack, logger as Parameters<typeof analyzeMusic>[1]);
+		} catch (err) {
+			logger.warn('[video-editor] Music analysis failed for %s (%s) — skipping beat sync', musicTrack.id, String(err));
+		}
+	}
+
+	const result = validateEditPlan(fixedPlan as unknown as Parameters<typeof validateEditPlan>[0], catalogMap, { music: musicAnalysis });
+	return { result, fixedPlan, catalogMap, musicTrack, musicAnalysis };
+}
+
+// Resume any catalog jobs left queued or running by a previous process.
+startCatalogJobWorker();
+
 const AgentInput = s.object({
 	// Task type: determines which workflow to run
-	task: s.string().optional(), // 'list-videos' | 'folder-summary' | 'catalog' | 'edit' | 'render' | 'render-status' | 'save-render-to-drive' | 'instant-edit' | 'auto-process' | 'render-local' | 'download-render' | 'test-connection' | 'test-shotstack' | 'legacy'
+	task: s.string().optional(), // 'list-videos' | 'folder-summary' | 'catalog' | 'edit' | 'render' | 'render-multi' | 'render-status' | 'render-cancel' | 'render-group-status' | 'save-render-to-drive' | 'instant-edit' | 'auto-process' | 'render-local' | 'download-render' | 'validate-edit-plan' | 'save-edit-plan' | 'list-music' | 'update-music-track' | 'remove-music-track' | 'test-connection' | 'test-shotstack' | 'legacy'
 
 	// Legacy fields (original video-editor interface)
 	videoType: s.string().optional(), // 'highlight', 'intro', 'recap', 'testimonial', 'promo', 'story'
@@ -146,7 +193,8 @@ const AgentInput = s.object({
 	// Render task fields
 	editPlan: s.any().optional(), // The AI-generated edit plan with clip info
 	renderId: s.string().optional(), // For render-status polling
-	renderEngine: s.string().optional(), // 'shotstack' | 'remotion' — which render engine to use
+	renderEngine: s.string().optional(), // 'shotstack' | 'remotion' | 'local' — which render engine to use (render-engine/)
+	renderGroupId: s.string().optional(), // For render-group-status polling (render-multi)
 
 	// Catalog task fields
 	catalogAction: s.string().optional(), // 'generate' | 'save' | 'organize' | 'run-full' | 'analyze-single' | 'update-entry'
@@ -166,6 +214,12 @@ const AgentInput = s.object({
 	// Catalog config overrides
 	batchSize: s.number().optional(),
 
+	// Catalog job queue fields (catalog-job-submit / -status / -control)
+	jobType: s.string().optional(), // 'full-catalog' | 'rescore' | 'analyze-scenes' | 'analyze-visual' | 'generate-segments'
+	jobId: s.string().optional(),
+	jobAction: s.string().optional(), // 'pause' | 'resume' | 'cancel'
+	asJob: s.boolean().optional(), // analyze-scenes / analyze-visual / generate-segments: queue a durable job instead of running inline
+
 	// Review task fields
 	reviewUrl: s.string().optional(), // Shotstack download URL of rendered video
 	originalEditPlan: s.any().optional(), // The edit plan that produced this render
@@ -190,6 +244,20 @@ const AgentInput = s.object({
 	musicUrl: s.string().optional(),
 	musicDisabled: s.boolean().optional(),
 
+	// Music library management (list-music / update-music-track / remove-music-track)
+	musicTrackId: s.string().optional(),
+	musicTrackPatch: s.any().optional(), // title, artist, mood[], modes[], bpm, license, archived
+	includeArchived: s.boolean().optional(),
+
+	// Caption fields (Remotion only — our_story + interview clips get burned-in captions)
+	captionsDisabled: s.boolean().optional(),
+
+	// Audio mix: music ducks under detected speech, clips normalized to the platform's loudness target
+	audioMixDisabled: s.boolean().optional(),
+
+	// Smart crop: 'tracking' (default) follows the subject through each clip; 'static' holds one crop per clip
+	cropMode: s.string().optional(),
+
 	// Save-render-to-drive fields
 	downloadUrl: s.string().optional(),
 });
@@ -212,16 +280,33 @@ const AgentOutput = s.object({
 	progress: s.any().optional(),
 	catalogSummary: s.any().optional(),
 
+	// Catalog job fields. status/alreadyRunning feed the "Run Full Catalog" banner.
+	status: s.any().optional(),
+	alreadyRunning: s.boolean().optional(),
+	jobId: s.string().optional(),
+	job: s.any().optional(),
+	jobs: s.array(s.any()).optional(),
+
 	// Render output fields
 	renderId: s.string().optional(),
 	downloadUrl: s.string().optional(),
 	renderStatus: s.string().optional(),
 	renderPlatform: s.string().optional(),
 	renderMode: s.string().optional(),
+	renderEngine: s.string().optional(), // Engine that took the render — differs from the request after a quota fallback
 	ffmpegAvailable: s.boolean().optional(),
 	shotstackConnected: s.boolean().optional(),
 	remotionAvailable: s.boolean().optional(),
 	localOutputPath: s.string().optional(),
+	renderProgress: s.number().optional(), // 0-1, local engine only
+	cancelled: s.boolean().optional(),
+	renderGroupId: s.string().optional(),
+	renderGroup: s.any().optional(), // multi-render.ts RenderGroup (outputs, statuses, finished_videos ids)
+	musicTrackId: s.string().optional(), // library track the render uses — recorded on finished_videos
+
+	// Music library fields
+	musicTrack: s.any().optional(),
+	musicUsage: s.any().optional(), // { [trackId]: { uses, lastUsedAt } } over the last 30 days
 
 	// Download render fields
 	filename: s.string().optional(),
@@ -233,6 +318,14 @@ const AgentOutput = s.object({
 	review: s.any().optional(),
 	revisedEditPlanData: s.any().optional(),
 
+	// Edit plan version the plan/render/revision belongs to (edit-plan-versions.ts)
+	editPlanVersionId: s.string().optional(),
+
+	// Edit plan validation (edit / validate-edit-plan / save-edit-plan) and the
+	// per-source catalog data the timeline editor draws clips over
+	validation: s.any().optional(),
+	timelineSources: s.any().optional(),
+
 	// Auto-process output fields. editPlanClips MUST be declared here — the
 	// output schema strips undeclared fields, and the API layer reads it to
 	// record clip usage (freshness) after headless renders.
@@ -394,12 +487,14 @@ const agent = createAgent('video-editor', {
 
 		// --- Render tasks ---
 
-		if (task === 'render') {
+		// render-multi: same plan to several platforms in one job (multi-render.ts).
+		// Always Remotion — it shares the Remotion path's clip validation below.
+		if (task === 'render' || task === 'render-multi') {
 			const rawEditPlan = input.editPlan;
 			const platform = input.platform || 'tiktok';
 			const editMode = input.editMode || 'game_day';
 			const appUrl = input.appUrl;
-			const renderEngine = (input as any).renderEngine as string | undefined;
+			const renderEngine = input.renderEngine;
 
 			// Diagnostic: log the actual appUrl we received. A prior crash surfaced as
 			// `Y.replace is not a function` in the minified bundle because appUrl was
@@ -437,8 +532,23 @@ const agent = createAgent('video-editor', {
 				};
 			}
 
+			// Tie this render to a saved edit plan version — an unchanged plan
+			// reuses its version, a hand-edited one becomes a new child version.
+			// Versioning is bookkeeping: failures never block the render.
+			const editPlanVersionId = await ensureEditPlanVersion(editPlanObj)
+				.then(version => version.id)
+				.catch((err) => {
+					ctx.logger.warn('[render] Could not save edit plan version: %s', err instanceof Error ? err.message : String(err));
+					return undefined;
+				});
+			const linkRender = async (renderId: string, engine: string, renderPlatform = platform, renderGroupId?: string) => {
+				if (!editPlanVersionId) return;
+				await linkRenderToVersion(editPlanVersionId, { renderId, platform: renderPlatform, engine, renderGroupId })
+					.catch(err => ctx.logger.warn('[render] Could not link render %s to edit plan version: %s', renderId, String(err)));
+			};
+
 			// --- Remotion Lambda render path ---
-			if (renderEngine === 'remotion') {
+			if (renderEngine === 'remotion' || task === 'render-multi') {
 				// Type-strict check (not just truthy): catches objects, numbers, etc. that
 				// would otherwise slip past `!appUrl` and crash later with `Y.replace is
 				// not a function` inside the minified bundle. The tight check here lets
@@ -464,10 +574,11 @@ const agent = createAgent('video-editor', {
 					purpose?: string;
 					speed?: number;
 				}>;
+				const trackSubject = input.cropMode !== 'static';
 
 				// Validate and fix file IDs against catalog — Claude can hallucinate
 				// characters in long Google Drive IDs. Match by filename or fuzzy ID.
-				const catalogForValidation = loadExistingCatalog();
+				const catalogForValidation = await loadExistingCatalog();
 				const catalogByFile = new Map(catalogForValidation.map(e => [e.filename, e.fileId]));
 				const catalogIds = new Set(catalogForValidation.map(e => e.fileId));
 
@@ -505,6 +616,7 @@ const agent = createAgent('video-editor', {
 					// Enrich with catalog-derived hints:
 					//   - contentType: for smart framing heuristics
 					//   - subjectPosition: closest-timestamp lookup, drives Lambda smart crop
+					//   - cropPath: subject positions across the trim window, for tracking crop
 					const catEntry = catalogForValidation.find(e => e.fileId === clip.fileId);
 					const scores = catEntry?.timestampScores;
 					let subjectPosition: string | undefined;
@@ -534,10 +646,17 @@ const agent = createAgent('video-editor', {
 							clip.fileId.slice(0, 8),
 						);
 					}
+					const cropPath = trackSubject
+						? trackFromTimestampScores(scores, clip.trimStart || 0, clip.duration || 5)
+						: undefined;
+					if (cropPath && cropPath.length >= 2) {
+						ctx.logger.info('[render] Clip %s tracking crop: %d keyframes', clip.fileId.slice(0, 8), cropPath.length);
+					}
 					return {
 						...clip,
 						contentType: catEntry?.contentType || 'unknown',
 						subjectPosition,
+						cropPath,
 					};
 				});
 
@@ -549,148 +668,152 @@ const agent = createAgent('video-editor', {
 				}>;
 
 				// Music selection (same logic as Shotstack path)
-				const musicDisabled = (input as any).musicDisabled === true;
+				const musicDisabled = input.musicDisabled === true;
 				const editPlanMusicUrl = (editPlanObj.musicUrl as string) || null;
 				const editPlanMusicTier = (editPlanObj.musicTier as number) || undefined;
 				const editPlanMusicDirection = (editPlanObj.musicDirection as string) || undefined;
-				const customMusicUrl = (input as any).musicUrl as string | undefined;
+				const customMusicUrl = input.musicUrl;
 
 				let musicUrl: string | null = musicDisabled ? null : editPlanMusicUrl;
 				if (!musicDisabled && !musicUrl && customMusicUrl) {
 					musicUrl = customMusicUrl;
 				}
 				if (!musicDisabled && !musicUrl && shouldAddMusic(platform, editPlanMusicTier)) {
-					const selection = selectTrack(editMode, editPlanMusicDirection);
+					const selection = await selectTrack(editMode, editPlanMusicDirection);
 					if (selection) {
 						musicUrl = selection.track.url;
 						ctx.logger.info('[render-remotion] Auto-selected music: "%s" by %s',
 							selection.track.title, selection.track.artist);
 					}
 				}
+				const musicTrackId = (await musicTrackIdForUrl(musicUrl)) ?? undefined;
 
 				const totalEditDuration = clips.reduce((sum, c) => sum + (c.duration || 0), 0);
 				ctx.logger.info('[render-remotion] Starting Remotion Lambda render: %d clips, platform: %s, mode: %s, total: %ds',
 					clips.length, platform, editMode, totalEditDuration);
 
-				// --- Render Pipeline Selection ---
-				// Use preprocessor if available (FFmpeg deshake + sharpen + trim on Lambda).
-				// Falls back to direct pipeline (raw clips → S3 → Remotion Lambda) if not deployed.
-				const { isPreprocessorAvailable } = await import('./remotion/preprocessor-invoke');
-				const usePreprocessor = isPreprocessorAvailable();
-
-				if (usePreprocessor) {
-					// --- Preprocessed Pipeline (Drive → S3 → FFmpeg Lambda → S3 → Remotion Lambda) ---
-					// Pre-register render ID immediately so frontend polling works during the
-					// multi-minute pipeline (upload → preprocess → render). The async block runs
-					// independently of the Agentuity 60s session timeout.
-					const {
-						preRegisterRender,
-						submitRemotionRenderWithPreprocessing,
-					} = await import('./remotion/render');
-
-					const renderId = `remotion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-					preRegisterRender(renderId);
-
-					ctx.logger.info('[render-remotion] Pre-registered render %s. Starting preprocessed pipeline (async)...', renderId);
-
-					// Detached logger for fire-and-forget async: see makeAsyncLogger above.
-					// ctx.logger is request-scoped — its underlying context has cycles, so once
-					// the HTTP handler returns and the context is torn down, any further
-					// ctx.logger.*(...) call from this async block throws
-					// "JSON.stringify cannot serialize cyclic structures".
-					const asyncLogger = makeAsyncLogger(`render:${renderId}`);
-
-					// Fire-and-forget: runs asynchronously beyond the session timeout.
-					// The render registry tracks progress; frontend polls via render-status.
-					//
-					// NOTE on arg order: signature is (config, renderId, appUrl, logger?).
-					// Until 2026-04-22 this call was missing `appUrl`, causing ctx.logger
-					// to be bound to the appUrl parameter — which crashed inside the
-					// guard when the guard tried to JSON.stringify it to report the bad value.
-					// (A redundant `if (!appUrl)` guard was considered here but removed —
-					// the outer `typeof appUrl !== 'string'` check at ~line 436 is stricter
-					// and already guarantees appUrl is a valid non-empty string at this point.)
-					submitRemotionRenderWithPreprocessing(
-						{
-							clips,
-							textOverlays: overlays,
-							musicUrl,
+				// --- Caption + Audio Mix Stages ---
+				// Transcribe our_story / interview clips for burned-in captions, and
+				// find speech + loudness in every clip so music ducks under voices.
+				// Both run at the head of the fire-and-forget chain (audio extraction
+				// + Whisper can outlast the session timeout) and never fail the
+				// render — on any error the video goes out without captions / at the
+				// flat music level.
+				const captionsDisabled = input.captionsDisabled === true;
+				const audioMixDisabled = input.audioMixDisabled === true;
+				const buildCaptionedConfig = async (logger: ReturnType<typeof makeAsyncLogger>, mixMusicUrl = musicUrl) => ({
+					clips,
+					textOverlays: overlays,
+					musicUrl,
+					mode: editMode,
+					platform,
+					clipCaptions: captionsDisabled
+						? []
+						: await transcribeEditPlanClips(clips, editMode, { logger }).catch((err) => {
+							logger.warn('[render-remotion] Caption stage failed, rendering without captions: %s',
+								err instanceof Error ? err.message : String(err));
+							return [];
+						}),
+					audioMix: audioMixDisabled
+						? undefined
+						: await analyzeEditPlanAudio(clips, { musicUrl: mixMusicUrl, logger }).catch((err): AudioMix | undefined => {
+							logger.warn('[render-remotion] Audio mix stage failed, rendering with flat music: %s',
+								err instanceof Error ? err.message : String(err));
+							return undefined;
+						}),
+				});
+
+				// --- Multi-Aspect Render Group ---
+				// One upload, then per output: smart crop for its aspect, safe-area
+				// text layout, and its own Lambda render. Platforms sharing a frame
+				// size and music policy (TikTok + IG Reels) share one output.
+				if (task === 'render-multi') {
+					const { createRenderGroup } = await import('./multi-render');
+					const { preRegisterRender, submitRemotionRenderMultiAspect, failRender } = await import('./remotion/render');
+
+					const platforms = input.platforms && input.platforms.length > 0 ? input.platforms : [platform];
+
+					// One track for every output that carries music — musicUrl above
+					// was decided for the primary platform only.
+					const groupMusicUrl = musicDisabled
+						? null
+						: editPlanMusicUrl || customMusicUrl || (await selectTrack(editMode, editPlanMusicDirection))?.track.url || null;
+
+					let group: Awaited<ReturnType<typeof createRenderGroup>>;
+					try {
+						group = await createRenderGroup({
+							editPlan: editPlanObj,
+							platforms,
 							mode: editMode,
-							platform,
-						},
-						renderId,
+							topic: input.topic,
+							musicTrackId: (await musicTrackIdForUrl(groupMusicUrl)) ?? undefined,
+						});
+					} catch (err) {
+						return { success: false, error: err instanceof Error ? err.message : String(err) };
+					}
+					for (const output of group.outputs) preRegisterRender(output.renderId);
+
+					const asyncLogger = makeAsyncLogger(`render-group:${group.id}`);
+					buildCaptionedConfig(asyncLogger, groupMusicUrl).then((config) => submitRemotionRenderMultiAspect(
+						{ clips: config.clips, textOverlays: config.textOverlays, mode: config.mode, clipCaptions: config.clipCaptions, audioMix: config.audioMix },
+						group.outputs.map(output => ({
+							renderId: output.renderId,
+							platform: output.platforms[0]!,
+							musicUrl: output.withMusic ? groupMusicUrl : null,
+						})),
 						appUrl,
 						asyncLogger,
-					).catch(async (err) => {
+					)).catch((err) => {
 						const msg = err instanceof Error ? err.message : String(err);
-						asyncLogger.error('[render-remotion] Preprocessed pipeline error: %s', msg);
-						const { failRender } = await import('./remotion/render');
-						failRender(renderId, msg);
+						asyncLogger.error('[render-multi] Group pipeline error: %s', msg);
+						for (const output of group.outputs) failRender(output.renderId, msg);
 					});
 
+					ctx.logger.info('[render-multi] Group %s: %d platforms → %d outputs (%s)', group.id, platforms.length,
+						group.outputs.length, group.outputs.map(o => `${o.aspectRatio}:${o.platforms.join('+')}`).join(', '));
+					for (const output of group.outputs) await linkRender(output.renderId, 'remotion', output.platforms[0], group.id);
 					return {
 						success: true,
-						renderId,
-						renderPlatform: platform,
+						editPlanVersionId,
+						renderGroupId: group.id,
+						renderGroup: group,
 						renderMode: editMode,
-						message: `Remotion Lambda render submitted: ${clips.length} clips (stabilized + sharpened via preprocessor Lambda)`,
+						message: `Render group submitted: ${group.outputs.length} outputs for ${platforms.length} platforms`,
 					};
+				}
 
-				} else {
-					// --- Direct Pipeline (Drive → S3 → Remotion Lambda) ---
-					// Fire-and-forget: S3 upload + Lambda submission runs async
-					// because it takes 40-60s which exceeds Agentuity's 60s timeout.
-					ctx.logger.info('[render-remotion] Using direct S3 upload (no stabilization).');
-					const { submitRemotionRenderDirect, preRegisterRender } = await import('./remotion/render');
-
-					const renderId = `remotion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-					preRegisterRender(renderId);
-
-					ctx.logger.info('[render-remotion] Pre-registered render %s. Starting direct pipeline (async)...', renderId);
-
-					// Detached logger (same reasoning as preprocessed path above —
-					// ctx.logger is request-scoped and cannot survive the async tail).
-					const asyncLogger = makeAsyncLogger(`render:${renderId}`);
-
-					// Fire-and-forget: runs beyond the session timeout.
-					// Frontend polls render-status for progress.
-					submitRemotionRenderDirect(
-						{
-							clips,
-							textOverlays: overlays,
-							musicUrl,
-							mode: editMode,
-							platform,
-						},
-						appUrl,
-						asyncLogger,
-						renderId,
-					).catch(async (err) => {
-						const msg = err instanceof Error ? err.message : String(err);
-						asyncLogger.error('[render-remotion] Direct pipeline error: %s', msg);
-						const { failRender } = await import('./remotion/render');
-						failRender(renderId, msg);
-					});
+				// --- Render Pipeline Selection ---
+				// The Remotion engine uses the preprocessor Lambda when it is deployed
+				// (FFmpeg deshake + sharpen + trim), else raw clips → S3 → Remotion
+				// Lambda. Both run after this returns — upload + preprocess + render
+				// outlast the 60s session timeout — and a render that runs out of
+				// Lambda quota moves to the next engine (render-engine/index.ts).
+				const { getRenderEngine } = await import('./render-engine');
+				try {
+					const renderId = await getRenderEngine('remotion').submitPlan!({
+						buildConfig: logger => buildCaptionedConfig(logger as ReturnType<typeof makeAsyncLogger>),
+						asyncLogger: id => makeAsyncLogger(`render:${id}`),
+					}, { platform, appUrl, logger: ctx.logger });
 
+					await linkRender(renderId, 'remotion');
 					return {
 						success: true,
 						renderId,
+						editPlanVersionId,
 						renderPlatform: platform,
 						renderMode: editMode,
+						musicTrackId,
 						message: `Remotion Lambda render submitted: ${clips.length} clips (async: S3 upload + Lambda)`,
 					};
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					ctx.logger.error('[render-remotion] Submission failed: %s', msg);
+					return { success: false, error: 'Remotion render submission failed: ' + msg };
 				}
 			}
 
 			// --- Shotstack render path (default) ---
 
-			if (!appUrl) {
-				return {
-					success: false,
-					error: 'App URL not available. Cannot build proxy URLs for Shotstack.',
-				};
-			}
-
 			const clips = editPlanObj.clips as Array<{
 				fileId: string;
 				filename?: string;
@@ -710,11 +833,11 @@ const agent = createAgent('video-editor', {
 			// --- Music selection ---
 			// Priority: explicit musicUrl from edit plan > custom URL from input > auto-select from library
 			// If user disabled music in UI, skip entirely
-			const musicDisabled = (input as any).musicDisabled === true;
+			const musicDisabled = input.musicDisabled === true;
 			const editPlanMusicUrl = (editPlanObj.musicUrl as string) || null;
 			const editPlanMusicTier = (editPlanObj.musicTier as number) || undefined;
 			const editPlanMusicDirection = (editPlanObj.musicDirection as string) || undefined;
-			const customMusicUrl = (input as any).musicUrl as string | undefined;
+			const customMusicUrl = input.musicUrl;
 
 			let musicUrl: string | null = musicDisabled ? null : editPlanMusicUrl;
 			let musicSource = musicDisabled ? 'disabled' : 'edit-plan';
@@ -727,7 +850,7 @@ const agent = createAgent('video-editor', {
 
 			if (!musicDisabled && !musicUrl && shouldAddMusic(platform, editPlanMusicTier)) {
 				// Auto-select from curated library based on mode and mood
-				const selection = selectTrack(editMode, editPlanMusicDirection);
+				const selection = await selectTrack(editMode, editPlanMusicDirection);
 				if (selection) {
 					musicUrl = selection.track.url;
 					musicSource = `auto:${selection.track.id}`;
@@ -739,6 +862,77 @@ const agent = createAgent('video-editor', {
 			} else if (!musicUrl) {
 				ctx.logger.info('[render] Music skipped: tier=%s, platform=%s', editPlanMusicTier, platform);
 			}
+			const musicTrackId = (await musicTrackIdForUrl(musicUrl)) ?? undefined;
+
+			// --- Tracking crop + raw clip props ---
+			// The local engine downloads raw clips from Drive and applies trims,
+			// speed and the tracked subject crop itself. It is also where a
+			// Shotstack render lands when the cloud quotas run out.
+			const { buildRemotionProps, processedClipProps } = await import('./remotion/render');
+			const { getRenderEngine, planClipProps, renderEngineOrder, submitWithFallback } = await import('./render-engine');
+			const trackSubject = input.cropMode !== 'static';
+			const catalogForCrop = trackSubject ? await loadExistingCatalog() : [];
+			const catalogMapForCrop = new Map(catalogForCrop.map(entry => [entry.fileId, entry]));
+			const defaultClipLength = MODE_RENDER_SETTINGS[editMode]?.defaultClipLength || 5;
+			const driveClipProps = () => planClipProps(clips.map((clip) => {
+				const trimStart = clip.trimStart || 0;
+				const duration = clip.duration || defaultClipLength;
+				return {
+					...clip,  // effect, filter, transition fields pass through from the plan
+					trimStart,
+					duration,
+					cropPath: trackSubject
+						? trackFromTimestampScores(catalogMapForCrop.get(clip.fileId)?.timestampScores, trimStart, duration)
+						: undefined,
+				};
+			}), { platform, clipSrc: clip => `drive:${clip.fileId}` });
+
+			// --- Local FFmpeg render path (render-engine/local-engine.ts) ---
+			// Same CLCVideoProps the Remotion composition gets, rendered on this
+			// machine. Clips download straight from Drive; poll render-status.
+			if (renderEngine === 'local') {
+				const audioMix = input.audioMixDisabled === true
+					? undefined
+					: await analyzeEditPlanAudio(clips, { musicUrl, logger: ctx.logger }).catch((err): AudioMix | undefined => {
+						ctx.logger.warn('[render] Audio mix stage failed, rendering with flat music: %s',
+							err instanceof Error ? err.message : String(err));
+						return undefined;
+					});
+
+				const props = buildRemotionProps({
+					mode: editMode,
+					platform,
+					textOverlays: overlays,
+					musicUrl,
+					audioMix,
+				}, driveClipProps());
+
+				try {
+					const renderId = await getRenderEngine('local').submit(props, { platform, logger: ctx.logger });
+					await linkRender(renderId, 'local');
+					return {
+						success: true,
+						renderId,
+						editPlanVersionId,
+						renderStatus: 'queued',
+						renderPlatform: platform,
+						renderMode: editMode,
+						musicTrackId,
+						message: `Local render queued: ${clips.length} clips, ${overlays.length} overlays`,
+					};
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					ctx.logger.error('[render] Local submission failed: %s', msg);
+					return { success: false, error: 'Local render submission failed: ' + msg };
+				}
+			}
+
+			if (!appUrl) {
+				return {
+					success: false,
+					error: 'App URL not available. Cannot build proxy URLs for Shotstack.',
+				};
+			}
 
 			const totalEditDuration = clips.reduce((sum, c) => sum + (c.duration || 0), 0);
 			ctx.logger.info('[render] Starting cloud render: %d clips, platform: %s, mode: %s, total planned duration: %ds, music: %s',
@@ -753,7 +947,7 @@ const agent = createAgent('video-editor', {
 				fileId: clip.fileId,
 				filename: clip.filename,
 				trimStart: clip.trimStart || 0,
-				duration: clip.duration || MODE_RENDER_SETTINGS[editMode]?.defaultClipLength || 5,
+				duration: clip.duration || defaultClipLength,
 				speed: clip.speed,     // undefined = 1.0 (default)
 				sharpen: true,         // always sharpen phone footage
 				stabilize: false,      // disabled: deshake too slow on 500m CPU
@@ -773,61 +967,77 @@ const agent = createAgent('video-editor', {
 				};
 			}
 
-			// Build proxy URLs for processed files — Shotstack fetches from our API,
-			// which streams the pre-processed (sharpened + speed-ramped) files from disk.
+			// Cloud engines fetch the processed files from our API, which streams
+			// the pre-processed (sharpened + speed-ramped) files from disk.
 			// trim=0 because pre-processing already applied trimStart/duration.
-			const renderClips: Array<{ src: string; trim: number; length: number }> = [];
-
 			for (let i = 0; i < processedClips.length; i++) {
 				const processed = processedClips[i]!;
 				const originalClip = clips[i]!;
-
-				const proxyUrl = buildProcessedFileProxyUrl(appUrl, processed.processedId);
 				ctx.logger.info('[render] Clip %d/%d: %s (%s) processed=%s effectiveDur=%ds speed=%sx purpose="%s"',
 					i + 1, processedClips.length, processed.originalFileId, originalClip.filename || 'unknown',
 					processed.processedId, processed.effectiveDuration.toFixed(1), processed.speed,
 					originalClip.purpose || 'unspecified');
-
-				renderClips.push({
-					src: proxyUrl,
-					trim: 0,  // already trimmed during pre-processing
-					length: processed.effectiveDuration,
-				});
 			}
 
-			// Build the Shotstack timeline
-			const timeline = buildRenderTimeline({
-				clips: renderClips,
-				mode: editMode,
-				platform,
-				textOverlays: overlays,
-				musicUrl,
-			});
+			// --- Audio Mix Stage ---
+			// Speech + loudness from the processed files (already trimmed and
+			// speed-changed). Each engine lays the mix out on its own timeline.
+			let audioMix: AudioMix | undefined;
+			if (input.audioMixDisabled !== true) {
+				try {
+					audioMix = await analyzeEditPlanAudio(clips, {
+						musicUrl,
+						sources: processedClips.map(p => p.localPath),
+						logger: ctx.logger,
+					});
+				} catch (err) {
+					ctx.logger.warn('[render] Audio mix stage failed, rendering with flat music: %s',
+						err instanceof Error ? err.message : String(err));
+				}
+			}
 
-			ctx.logger.info('[render] Timeline built with %d clips, %d overlays, music: %s',
-				renderClips.length, overlays.length, musicUrl ? 'yes' : 'none');
+			const renderConfig = { mode: editMode, platform, textOverlays: overlays, musicUrl, audioMix };
 
-			// Submit to Shotstack
+			// Submit to Shotstack — or, when its credits run out, the next engine
 			try {
-				const renderId = await submitRenderTimeline(timeline);
-				ctx.logger.info('[render] Submitted. Render ID: %s', renderId);
-
-				// Schedule background cleanup of processed files after Shotstack fetches them.
-				// Shotstack typically fetches within 30-60s of submission, so we wait 10 minutes
-				// to be safe, then delete the processed files from disk.
-				setTimeout(async () => {
-					ctx.logger.info('[render] Cleaning up %d pre-processed files...', processedClips.length);
+				const result = await submitWithFallback(
+					renderEngineOrder('shotstack'),
+					engine => buildRemotionProps(renderConfig, engine === 'local'
+						? driveClipProps()
+						: processedClipProps(processedClips, appUrl)),
+					{ platform, appUrl, logger: ctx.logger },
+				);
+				const renderId = result.renderId;
+				ctx.logger.info('[render] Submitted to %s. Render ID: %s', result.engine, renderId);
+
+				if (result.engine === 'local') {
+					// The local engine reads Drive itself — nothing will fetch the processed files
 					await cleanupProcessedFiles(processedClips);
-					ctx.logger.info('[render] Cleanup complete');
-				}, 10 * 60 * 1000);
+				} else {
+					// Schedule background cleanup of processed files after the engine fetches them.
+					// Cloud engines typically fetch within 30-60s of submission, so we wait 10 minutes
+					// to be safe, then delete the processed files from disk.
+					setTimeout(async () => {
+						ctx.logger.info('[render] Cleaning up %d pre-processed files...', processedClips.length);
+						await cleanupProcessedFiles(processedClips);
+						ctx.logger.info('[render] Cleanup complete');
+					}, 10 * 60 * 1000);
+				}
 
+				await linkRender(renderId, result.engine);
+				const fallbackNote = result.fallbackFrom.length > 0
+					? ` — ${result.fallbackFrom.join(', ')} out of quota, rendering on ${result.engine}`
+					: '';
 				return {
 					success: true,
 					renderId,
+					editPlanVersionId,
 					renderStatus: 'queued',
+					renderEngine: result.engine,
 					renderPlatform: platform,
 					renderMode: editMode,
-					message: `Render submitted: ${clips.length} clips (pre-processed with sharpening${clips.some(c => c.speed && c.speed !== 1.0) ? ' + speed ramping' : ''}), ${overlays.length} overlays`,
+					musicTrackId,
+					message: `Render submitted: ${clips.length} clips (pre-processed with sharpening${clips.some(c => c.speed && c.speed !== 1.0) ? ' + speed ramping' : ''}), ${overlays.length} overlays${fallbackNote}`,
 				};
 			} catch (err) {
 				// Clean up processed files on submission failure
@@ -847,34 +1057,69 @@ const agent = createAgent('video-editor', {
 				return { success: false, error: 'renderId is required for render-status' };
 			}
 
-			// Auto-detect engine by render ID prefix
-			if (renderId.startsWith('remotion_')) {
-				const { checkRemotionStatus } = await import('./remotion/render');
-				const status = await checkRemotionStatus(renderId, ctx.logger);
+			// Engine is auto-detected by render ID prefix (remotion_, local_, else Shotstack).
+			// A render resubmitted after a quota failure reports its replacement's status.
+			try {
+				const { engineForRenderId, resolveRenderId } = await import('./render-engine');
+				const currentId = resolveRenderId(renderId);
+				const status = await engineForRenderId(currentId).status(currentId, ctx.logger);
 				return {
 					success: true,
-					renderId: status.id,
+					renderId,
+					renderEngine: status.engine,
 					renderStatus: status.status,
+					renderProgress: status.progress,
 					downloadUrl: status.url,
+					localOutputPath: status.localPath,
 					error: status.error,
 				};
+			} catch (err) {
+				return {
+					success: false,
+					error: 'Status check failed: ' + (err instanceof Error ? err.message : String(err)),
+				};
 			}
+		}
 
-			// Shotstack render (default)
+		if (task === 'render-cancel') {
+			const renderId = input.renderId;
+			if (!renderId) {
+				return { success: false, error: 'renderId is required for render-cancel' };
+			}
+			const { engineForRenderId, resolveRenderId } = await import('./render-engine');
+			const currentId = resolveRenderId(renderId);
+			const engine = engineForRenderId(currentId);
+			const cancelled = await engine.cancel(currentId, ctx.logger);
+			return {
+				success: true,
+				renderId,
+				cancelled,
+				message: cancelled
+					? `Render ${renderId} cancelled`
+					: `The ${engine.id} engine can't cancel render ${renderId} (already finished, or cloud renders run to completion)`,
+			};
+		}
+
+		if (task === 'render-group-status') {
+			const renderGroupId = input.renderGroupId;
+			if (!renderGroupId) {
+				return { success: false, error: 'renderGroupId is required for render-group-status' };
+			}
+			const { refreshRenderGroup } = await import('./multi-render');
 			try {
-				const status = await checkStatus(renderId);
+				const group = await refreshRenderGroup(renderGroupId, ctx.logger);
+				if (!group) return { success: false, error: `Render group ${renderGroupId} not found` };
+				const statuses = group.outputs.map(o => o.status);
 				return {
 					success: true,
-					renderId: status.id,
-					renderStatus: status.status,
-					downloadUrl: status.url,
-					error: status.error,
+					renderGroupId: group.id,
+					renderGroup: group,
+					renderStatus: statuses.every(s => s === 'done') ? 'done'
+						: statuses.every(s => s === 'done' || s === 'failed') ? (statuses.includes('done') ? 'partial' : 'failed')
+						: 'rendering',
 				};
 			} catch (err) {
-				return {
-					success: false,
-					error: 'Status check failed: ' + (err instanceof Error ? err.message : String(err)),
-				};
+				return { success: false, error: 'Group status check failed: ' + (err instanceof Error ? err.message : String(err)) };
 			}
 		}
 
@@ -951,7 +1196,7 @@ const agent = createAgent('video-editor', {
 
 				// Step 3: Save to catalog
 				ctx.logger.info('[instant-edit] Step 3/4: Saving to catalog...');
-				const catalog = loadExistingCatalog();
+				const catalog = await loadExistingCatalog();
 				let entry = catalog.find(e => e.fileId === videoId);
 				if (!entry) {
 					// Create a minimal catalog entry for this video
@@ -981,7 +1226,7 @@ const agent = createAgent('video-editor', {
 					entry.sceneAnalysis = analysis as any;
 					entry.sceneAnalysis!.namedSegments = segments as any;
 				}
-				await saveCatalog(catalog);
+				await saveCatalog(catalog, { changedBy: 'instant-edit' });
 				ctx.logger.info('[instant-edit] Catalog saved with %d entries', catalog.length);
 
 				// Step 4: Return the analyzed video info so the frontend can generate an edit plan
@@ -1101,7 +1346,7 @@ const agent = createAgent('video-editor', {
 							review.overallScore, review.issues.length, hasSignificantIssues);
 
 						// Build footage context from catalog for the original clips
-						const catalog = loadExistingCatalog();
+						const catalog = await loadExistingCatalog();
 						const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
 						const originalClips = Array.isArray(originalPlan.clips) ? originalPlan.clips as Array<{ fileId: string; filename?: string; trimStart?: number; duration?: number; purpose?: string }> : [];
 
@@ -1165,10 +1410,27 @@ const agent = createAgent('video-editor', {
 					}
 				}
 
+				// Link the review to the reviewed plan's version; an auto-revision
+				// becomes its child. Failures only cost history, never the review.
+				let editPlanVersionId: string | undefined;
+				if (originalPlan) {
+					try {
+						const reviewed = await ensureEditPlanVersion(originalPlan);
+						await linkReviewToVersion(reviewed.id, review, { renderId: input.renderId, reviewUrl });
+						editPlanVersionId = reviewed.id;
+						if (revisedPlan) {
+							editPlanVersionId = (await saveEditPlanRevision(originalPlan, revisedPlan, 'reviewer-revision')).id;
+						}
+					} catch (err) {
+						ctx.logger.warn('[video-editor] Could not record review in edit plan versions: %s', err instanceof Error ? err.message : String(err));
+					}
+				}
+
 				return {
 					success: true,
 					review,
 					revisedEditPlanData: revisedPlan,
+					editPlanVersionId,
 					message: `Review complete: ${review.overallScore}/10 overall. ${review.issues.length} issues found.${revisedPlan ? ' Revised edit plan generated.' : ''}`,
 				};
 			} catch (err) {
@@ -1198,7 +1460,7 @@ const agent = createAgent('video-editor', {
 
 			try {
 				// Build footage context from catalog for the original clips
-				const catalog = loadExistingCatalog();
+				const catalog = await loadExistingCatalog();
 				const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
 				const originalClips = Array.isArray(originalPlan.clips) ? originalPlan.clips as Array<{ fileId: string; filename?: string; trimStart?: number; duration?: number; purpose?: string }> : [];
 
@@ -1247,9 +1509,19 @@ const agent = createAgent('video-editor', {
 				if (revisedPlan) {
 					ctx.logger.info('[video-editor] On-demand revision generated with %d clips',
 						Array.isArray(revisedPlan.clips) ? revisedPlan.clips.length : 0);
+					const editPlanVersionId = await saveEditPlanRevision(
+						originalPlan,
+						revisedPlan,
+						humanFeedback?.trim() ? 'human-feedback' : 'reviewer-revision',
+						humanFeedback?.trim() || undefined,
+					).then(version => version.id).catch((err) => {
+						ctx.logger.warn('[video-editor] Could not save revision as edit plan version: %s', err instanceof Error ? err.message : String(err));
+						return undefined;
+					});
 					return {
 						success: true,
 						revisedEditPlanData: revisedPlan,
+						editPlanVersionId,
 						message: `Revision generated: ${Array.isArray(revisedPlan.clips) ? revisedPlan.clips.length : 0} clips`,
 					};
 				} else {
@@ -1263,6 +1535,111 @@ const agent = createAgent('video-editor', {
 			}
 		}
 
+		// --- Timeline editor: live validation of a hand-edited plan ---
+		if (task === 'validate-edit-plan') {
+			const plan = (input.editPlan && typeof input.editPlan === 'object') ? input.editPlan as Record<string, unknown> : null;
+			if (!plan || !Array.isArray(plan.clips)) {
+				return { success: false, error: 'editPlan with clips is required for validate-edit-plan' };
+			}
+
+			try {
+				const { result, fixedPlan, catalogMap, musicTrack, musicAnalysis } = await validateEditorPlan(plan, {
+					platform: input.platform || 'tiktok',
+					editMode: input.editMode || 'game_day',
+					musicDisabled: input.musicDisabled,
+				}, ctx.logger);
+
+				// Source length + visualTimeline frames for every clip's file, so
+				// the timeline can bound trims and draw thumbnails under each block
+				const fileIds = [...new Set((plan.clips as Array<{ fileId?: string }>).map(c => c.fileId).filter((id): id is string => !!id))];
+				const timelineSources = Object.fromEntries(fileIds.map((fileId) => {
+					const entry = catalogMap.get(fileId);
+					return [fileId, {
+						filename: entry?.filename,
+						frameToken: createDriveProxyToken(fileId), // signs /api/timeline-frame requests
+						durationSeconds: entry?.duration ? parseFloat(entry.duration.replace(/s$/, '')) || null : null,
+						frames: entry?.visualTimeline?.frames.map(f => ({
+							timestamp: f.timestamp, description: f.description, energy: f.energy, isAction: f.isAction,
+						})) ?? [],
+						actionWindows: entry?.visualTimeline?.actionWindows ?? [],
+					}];
+				}));
+
+				return {
+					success: true,
+					validation: {
+						valid: result.valid,
+						errorCount: result.errors.length,
+						warningCount: result.warnings.length,
+						autoFixCount: result.autoFixCount,
+						errors: result.errors,
+						warnings: result.warnings,
+					},
+					editPlanData: fixedPlan, // the plan with the validator's auto-fixes applied
+					timelineSources,
+					musicTrack: musicTrack ? {
+						id: musicTrack.id,
+						title: musicTrack.title,
+						url: musicTrack.url,
+						durationSeconds: musicAnalysis?.durationSeconds ?? musicTrack.durationSeconds,
+						bpm: musicAnalysis?.bpm ?? musicTrack.bpm,
+						downbeats: musicAnalysis?.downbeats ?? [],
+					} : null,
+					message: result.valid
+						? `Plan valid: ${result.warnings.length} warnings`
+						: `Plan has ${result.errors.length} errors`,
+				};
+			} catch (err) {
+				const msg = err instanceof Error ? err.message : String(err);
+				ctx.logger.error('[video-editor] validate-edit-plan failed: %s', msg);
+				return { success: false, error: 'Validation failed: ' + msg };
+			}
+		}
+
+		// --- Timeline editor: save a hand-edited plan as a new version ---
+		if (task === 'save-edit-plan') {
+			const plan = (input.editPlan && typeof input.editPlan === 'object') ? input.editPlan as Record<string, unknown> : null;
+			if (!plan || !Array.isArray(plan.clips) || plan.clips.length === 0) {
+				return { success: false, error: 'editPlan with at least one clip is required for save-edit-plan' };
+			}
+
+			try {
+				const { result } = await validateEditorPlan(plan, {
+					platform: input.platform || 'tiktok',
+					editMode: input.editMode || 'game_day',
+					musicDisabled: input.musicDisabled,
+				}, ctx.logger);
+				const validation = {
+					valid: result.valid,
+					errorCount: result.errors.length,
+					warningCount: result.warnings.length,
+					autoFixCount: result.autoFixCount,
+					errors: result.errors,
+					warnings: result.warnings,
+				};
+				// Errors would fail or waste a render — the editor must fix them first
+				if (!result.valid) {
+					return { success: false, validation, error: `Fix ${result.errors.length} error(s) before saving` };
+				}
+
+				// A changed plan becomes a 'manual' child of the version it was opened from
+				const version = await ensureEditPlanVersion(plan, 'manual');
+				ctx.logger.info('[video-editor] Saved hand-edited plan as %s (v%d, %d changes)',
+					version.id, version.version, version.diff?.summary.length ?? 0);
+				return {
+					success: true,
+					editPlanData: version.plan,
+					editPlanVersionId: version.id,
+					validation,
+					message: version.diff ? `Saved as version ${version.version}: ${version.diff.summary.length} changes` : `Saved as version ${version.version}`,
+				};
+			} catch (err) {
+				const msg = err instanceof Error ? err.message : String(err);
+				ctx.logger.error('[video-editor] save-edit-plan failed: %s', msg);
+				return { success: false, error: 'Save failed: ' + msg };
+			}
+		}
+
 		if (task === 'render-local') {
 			const videoIds = input.videoIds || [];
 			const rawEditPlan = input.editPlan;
@@ -1307,9 +1684,15 @@ const agent = createAgent('video-editor', {
 			const editPlanClips = editPlanObj?.clips as Array<{ fileId?: string; trimStart?: number; duration?: number; speed?: number }> | undefined;
 
 			// Load catalog so we can look up subjectPosition per clip for smart cropping.
-			const catalogForCrop = loadExistingCatalog();
+			const catalogForCrop = await loadExistingCatalog();
 			const catalogMapForCrop = new Map(catalogForCrop.map(entry => [entry.fileId, entry]));
 
+			// Tracking mode: follow the subject through the trim window using the catalog's
+			// scored positions, else preprocess derives a path from on-clip motion.
+			const trackSubject = input.cropMode !== 'static';
+			const trackCrop = (fileId: string, trimStart: number, duration: number) =>
+				trackSubject ? trackFromTimestampScores(catalogMapForCrop.get(fileId)?.timestampScores, trimStart, duration) : undefined;
+
 			// Pick the subjectPosition closest to the clip's trimStart from timestampScores.
 			// Falls back to 'center' when no scored timestamps exist for that source.
 			const pickSubjectPosition = (fileId: string, trimStart: number): string => {
@@ -1338,14 +1721,17 @@ const agent = createAgent('video-editor', {
 				for (const clip of editPlanClips) {
 					const fileId = clip.fileId || videoIds[0]!;
 					const trimStart = clip.trimStart || 0;
+					const duration = clip.duration || modeConfig.defaultClipLength;
 					preprocessConfigs.push({
 						fileId,
 						trimStart,
-						duration: clip.duration || modeConfig.defaultClipLength,
+						duration,
 						speed: clip.speed,
 						sharpen: true,
 						targetAspect,
 						subjectPosition: pickSubjectPosition(fileId, trimStart),
+						cropPath: trackCrop(fileId, trimStart, duration),
+						trackSubject,
 					});
 				}
 			} else {
@@ -1358,6 +1744,8 @@ const agent = createAgent('video-editor', {
 						sharpen: true,
 						targetAspect,
 						subjectPosition: pickSubjectPosition(fileId, 0),
+						cropPath: trackCrop(fileId, 0, modeConfig.defaultClipLength),
+						trackSubject,
 					});
 				}
 			}
@@ -1451,6 +1839,20 @@ const agent = createAgent('video-editor', {
 
 		// --- Scene analysis task ---
 		if (task === 'analyze-scenes') {
+			if (input.asJob) {
+				const { job, existing } = await submitCatalogJob('analyze-scenes', {
+					fileIds: input.videoIds?.length ? input.videoIds : input.videoId ? [input.videoId] : undefined,
+					force: input.force === true,
+				});
+				return {
+					success: true,
+					message: existing ? `A scene analysis job is already ${job.state}` : `Queued scene analysis job`,
+					jobId: job.id,
+					job,
+					alreadyRunning: existing,
+				};
+			}
+
 			const videoId = input.videoId;
 			if (!videoId) {
 				return { success: false, error: 'videoId is required for scene analysis' };
@@ -1463,7 +1865,7 @@ const agent = createAgent('video-editor', {
 				const analysis = await analyzeVideoScenes(videoId, videoId);
 
 				// Update catalog entry with scene data and persist to Google Drive
-				const catalog = loadExistingCatalog();
+				const catalog = await loadExistingCatalog();
 				const idx = catalog.findIndex(e => e.fileId === videoId);
 				let updatedEntry = idx !== -1 ? catalog[idx] : undefined;
 				if (updatedEntry && idx !== -1) {
@@ -1484,7 +1886,7 @@ const agent = createAgent('video-editor', {
 
 					// Save to Google Drive (persistent storage)
 					const { saveCatalog: saveCat } = await import('./google-drive');
-					await saveCat(catalog);
+					await saveCat(catalog, { changedBy: 'analyze-scenes' });
 					ctx.logger.info('[video-editor] Scene analysis saved to Google Drive for: %s', videoId);
 				}
 
@@ -1504,9 +1906,23 @@ const agent = createAgent('video-editor', {
 		// Generates a dense visual timeline for existing catalog entries using
 		// contact sheet images analyzed by GPT-4o-mini (10x cheaper, 3-5x denser than individual frames)
 		if (task === 'analyze-visual') {
+			if (input.asJob) {
+				const { job, existing } = await submitCatalogJob('analyze-visual', {
+					fileIds: input.videoIds?.length ? input.videoIds : input.videoId ? [input.videoId] : undefined,
+					force: input.force === true,
+				});
+				return {
+					success: true,
+					message: existing ? `A visual timeline job is already ${job.state}` : `Queued visual timeline job`,
+					jobId: job.id,
+					job,
+					alreadyRunning: existing,
+				};
+			}
+
 			const videoId = input.videoId as string | undefined;
 			const videoIds = input.videoIds as string[] | undefined;
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 
 			if (videoId) {
 				// Single video mode
@@ -1525,43 +1941,16 @@ const agent = createAgent('video-editor', {
 				ctx.logger.info('[video-editor] Generating visual timeline for: %s (%s)', entry.filename, videoId);
 
 				try {
-					const { generateContactSheet, cleanupContactSheet } = await import('./contact-sheet');
-					const { analyzeContactSheet } = await import('./visual-timeline');
-					const { downloadVideo } = await import('./google-drive');
-					const fs = await import('fs');
-					const pathMod = await import('path');
-					const { exec: execAsync } = await import('child_process');
-
-					const tempDir = pathMod.join(process.cwd(), '.temp-cataloger');
-					if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-					const videoPath = pathMod.join(tempDir, `vt_${videoId}.mp4`);
-
-					await downloadVideo(videoId, videoPath);
-
-					// Get duration (async exec to avoid Bun process.exit issue)
-					const duration = await new Promise<number>((resolve) => {
-						execAsync(
-							`ffprobe -v error -show_entries format=duration -of csv=p=0 "${videoPath}"`,
-							{ timeout: 15000 },
-							(_err, stdout) => resolve(parseFloat(stdout?.trim() || '0') || 0),
-						);
-					});
-
-					const contactSheet = await generateContactSheet(videoPath, videoId, duration);
-					const timeline = await analyzeContactSheet(contactSheet, entry.activity || '');
-
+					const { generateVisualTimelineForVideo } = await import('./visual-timeline');
+					const timeline = await generateVisualTimelineForVideo(videoId, entry.activity || '');
 					entry.visualTimeline = timeline;
-					cleanupContactSheet(contactSheet);
-
-					// Clean up video
-					try { if (fs.existsSync(videoPath)) fs.unlinkSync(videoPath); } catch { /* best effort */ }
 
 					// Save to catalog
 					const idx = catalog.findIndex(e => e.fileId === videoId);
 					if (idx !== -1) {
 						catalog[idx] = entry;
 						const { saveCatalog: saveCat } = await import('./google-drive');
-						await saveCat(catalog);
+						await saveCat(catalog, { changedBy: 'analyze-visual' });
 					}
 
 					const actionFrames = timeline.frames.filter(f => f.isAction).length;
@@ -1593,33 +1982,9 @@ const agent = createAgent('video-editor', {
 				let failed = 0;
 				for (const entry of needsAnalysis) {
 					try {
-						const { generateContactSheet, cleanupContactSheet } = await import('./contact-sheet');
-						const { analyzeContactSheet } = await import('./visual-timeline');
-						const { downloadVideo } = await import('./google-drive');
-						const fs = await import('fs');
-						const pathMod = await import('path');
-						const { exec: execAsync } = await import('child_process');
-
-						const tempDir = pathMod.join(process.cwd(), '.temp-cataloger');
-						if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-						const videoPath = pathMod.join(tempDir, `vt_${entry.fileId}.mp4`);
-
-						await downloadVideo(entry.fileId, videoPath);
-
-						const duration = await new Promise<number>((resolve) => {
-							execAsync(
-								`ffprobe -v error -show_entries format=duration -of csv=p=0 "${videoPath}"`,
-								{ timeout: 15000 },
-								(_err, stdout) => resolve(parseFloat(stdout?.trim() || '0') || 0),
-							);
-						});
-
-						const contactSheet = await generateContactSheet(videoPath, entry.fileId, duration);
-						const timeline = await analyzeContactSheet(contactSheet, entry.activity || '');
-
+						const { generateVisualTimelineForVideo } = await import('./visual-timeline');
+						const timeline = await generateVisualTimelineForVideo(entry.fileId, entry.activity || '');
 						entry.visualTimeline = timeline;
-						cleanupContactSheet(contactSheet);
-						try { if (fs.existsSync(videoPath)) fs.unlinkSync(videoPath); } catch { /* best effort */ }
 
 						analyzed++;
 						ctx.logger.info('[video-editor] Visual timeline [%d/%d]: %s — %d frames, %d action windows',
@@ -1629,7 +1994,7 @@ const agent = createAgent('video-editor', {
 						// Save progress periodically
 						if (analyzed % 5 === 0) {
 							const { saveCatalog: saveCat } = await import('./google-drive');
-							await saveCat(catalog);
+							await saveCat(catalog, { changedBy: 'analyze-visual' });
 						}
 					} catch (err) {
 						failed++;
@@ -1640,7 +2005,7 @@ const agent = createAgent('video-editor', {
 
 				// Final save
 				const { saveCatalog: saveCat } = await import('./google-drive');
-				await saveCat(catalog);
+				await saveCat(catalog, { changedBy: 'analyze-visual' });
 
 				return {
 					success: true,
@@ -1651,16 +2016,50 @@ const agent = createAgent('video-editor', {
 			}
 		}
 
-		// List available music tracks for the UI
+		// List available music tracks for the UI (with 30-day usage from finished_videos)
 		if (task === 'list-music') {
 			const mode = input.editMode || undefined;
-			const tracks = mode ? getTracksForMode(mode) : getAllTracks();
-			return {
-				success: true,
-				count: tracks.length,
-				videos: tracks, // reuse 'videos' field for simplicity
-				message: `${tracks.length} music tracks available${mode ? ` for ${mode}` : ''}`,
-			};
+			try {
+				const [tracks, usage] = await Promise.all([
+					listMusicTracks({ mode, includeArchived: input.includeArchived === true }),
+					getRecentMusicUsage(30).catch(() => new Map()),
+				]);
+				return {
+					success: true,
+					count: tracks.length,
+					videos: tracks, // reuse 'videos' field for simplicity
+					musicUsage: Object.fromEntries(usage),
+					message: `${tracks.length} music tracks available${mode ? ` for ${mode}` : ''}`,
+				};
+			} catch (err) {
+				return { success: false, error: err instanceof Error ? err.message : String(err) };
+			}
+		}
+
+		// Edit a library track's tags, credits or license (uploads go through /api/music-library/upload)
+		if (task === 'update-music-track') {
+			if (!input.musicTrackId || !input.musicTrackPatch) {
+				return { success: false, error: 'musicTrackId and musicTrackPatch are required' };
+			}
+			try {
+				const track = await updateMusicTrack(input.musicTrackId, input.musicTrackPatch);
+				if (!track) return { success: false, error: `Music track ${input.musicTrackId} not found` };
+				return { success: true, musicTrack: track, message: `Updated "${track.title}"` };
+			} catch (err) {
+				return { success: false, error: err instanceof Error ? err.message : String(err) };
+			}
+		}
+
+		// Delete an unused upload, or archive anything finished videos still reference
+		if (task === 'remove-music-track') {
+			if (!input.musicTrackId) return { success: false, error: 'musicTrackId is required' };
+			try {
+				const result = await removeMusicTrack(input.musicTrackId);
+				if (!result) return { success: false, error: `Music track ${input.musicTrackId} not found` };
+				return { success: true, status: result, message: `Music track ${result}` };
+			} catch (err) {
+				return { success: false, error: err instanceof Error ? err.message : String(err) };
+			}
 		}
 
 		// Fetch thumbnail for a single video on-demand (for videos missing previews)
@@ -1746,7 +2145,7 @@ const agent = createAgent('video-editor', {
 			const videos = await listVideoFiles();
 
 			// Load catalog data and merge with video list
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
 			// Send the set of processed fileIds so frontend can distinguish
 			// "never analyzed" from "analyzed but location unknown"
@@ -1806,70 +2205,90 @@ const agent = createAgent('video-editor', {
 
 		if (task === 'catalog-start') {
 			ctx.logger.info('[video-editor] Starting background catalog job...');
-			const batchSize = input.batchSize || 5;
-			const started = startBackgroundCatalog({ batchSize });
-			if (!started) {
-				const status = getCatalogJobStatus();
-				return {
-					success: true,
-					message: 'Catalog job already running',
-					alreadyRunning: true,
-					status,
-				};
-			}
+			const started = await startBackgroundCatalog({ batchSize: input.batchSize });
+			const status = await getCatalogJobStatus();
 			return {
 				success: true,
-				message: 'Background catalog job started',
-				alreadyRunning: false,
-				status: getCatalogJobStatus(),
+				message: started ? 'Background catalog job started' : 'Catalog job already running',
+				alreadyRunning: !started,
+				status,
 			};
 		}
 
 		if (task === 'catalog-status') {
-			const status = getCatalogJobStatus();
+			const status = await getCatalogJobStatus();
 			return {
 				success: true,
 				status,
 			};
 		}
 
+		// --- Durable catalog job queue (see catalog-jobs.ts) ---
+
+		if (task === 'catalog-job-submit') {
+			const jobType = input.jobType as CatalogJobType | undefined;
+			if (!jobType || !CATALOG_JOB_TYPES.includes(jobType)) {
+				return { success: false, error: `jobType must be one of: ${CATALOG_JOB_TYPES.join(', ')}` };
+			}
+			const { job, existing } = await submitCatalogJob(jobType, {
+				fileIds: input.videoIds?.length ? input.videoIds : input.videoId ? [input.videoId] : undefined,
+				force: input.force === true,
+			});
+			return {
+				success: true,
+				message: existing ? `A ${jobType} job is already ${job.state}` : `Queued ${jobType} job`,
+				jobId: job.id,
+				job,
+				alreadyRunning: existing,
+			};
+		}
+
+		if (task === 'catalog-job-status') {
+			if (input.jobId) {
+				const job = await getCatalogJob(input.jobId);
+				return job ? { success: true, job } : { success: false, error: `Catalog job not found: ${input.jobId}` };
+			}
+			const jobs = await listCatalogJobs(input.jobType as CatalogJobType | undefined);
+			return { success: true, jobs, count: jobs.length };
+		}
+
+		if (task === 'catalog-job-control') {
+			const action = input.jobAction;
+			if (!input.jobId || (action !== 'pause' && action !== 'resume' && action !== 'cancel')) {
+				return { success: false, error: 'jobId and jobAction (pause | resume | cancel) are required' };
+			}
+			const job = await controlCatalogJob(input.jobId, action);
+			if (!job) {
+				return { success: false, error: `Catalog job not found: ${input.jobId}` };
+			}
+			return { success: true, message: `Job ${job.id} is ${job.state}${job.requestedAction ? ` (${job.requestedAction} requested)` : ''}`, job };
+		}
+
 		if (task === 'rescore-timestamps') {
 			const fileIds = input.videoIds as string[] | undefined;
-			const force = !!(input as any).force;
-
-			// Fire-and-forget — this takes minutes and outlives the HTTP request.
-			// Using ctx.logger here would crash with "cannot serialize cyclic structures"
-			// the moment the request context is torn down — same bug we fixed on the
-			// render paths (commit 70a3862). The progress callback is especially exposed
-			// because rescoreExistingCatalog calls it hundreds of times from deep inside
-			// a loop, so one is guaranteed to fire post-teardown.
-			const jobId = `rescore_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-			const asyncLogger = makeAsyncLogger(`rescore:${jobId}`);
-			ctx.logger.info('[video-editor] Starting timestamp re-scoring (jobId=%s)...', jobId);
-
-			rescoreExistingCatalog(
-				{ force, fileIds: fileIds?.length ? fileIds : undefined },
-				(completed, total, currentFile) => {
-					asyncLogger.info('Re-score progress: %d/%d (%s)', completed, total, currentFile);
-				},
-			).then(result => {
-				asyncLogger.info('Re-score done: %d scored, %d skipped, %d failed',
-					result.scored, result.skipped, result.failed);
-			}).catch(err => {
-				const msg = err instanceof Error ? err.message : String(err);
-				asyncLogger.error('Re-score error: %s', msg);
+			const force = input.force === true;
+
+			// Runs as a durable catalog job so it survives restarts and can run
+			// alongside a full catalog. Poll with catalog-job-status.
+			const { job, existing } = await submitCatalogJob('rescore', {
+				fileIds: fileIds?.length ? fileIds : undefined,
+				force,
 			});
+			ctx.logger.info('[video-editor] Timestamp re-scoring job %s (%s)', job.id, existing ? 'already live' : 'queued');
 
 			return {
 				success: true,
-				jobId,
-				message: `Timestamp re-scoring started${fileIds?.length ? ` for ${fileIds.length} videos` : ' for all unscored videos'}`,
+				jobId: job.id,
+				alreadyRunning: existing,
+				message: existing
+					? `A re-scoring job is already ${job.state}`
+					: `Timestamp re-scoring started${fileIds?.length ? ` for ${fileIds.length} videos` : ' for all unscored videos'}`,
 			};
 		}
 
 		if (task === 'get-catalog') {
 			ctx.logger.info('[video-editor] Returning full catalog data...');
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			const summary = getCatalogSummary(catalog);
 			return {
 				success: true,
@@ -1902,7 +2321,7 @@ const agent = createAgent('video-editor', {
 			}
 
 			if (action === 'save' && input.catalogData) {
-				const link = await saveCatalog(input.catalogData as unknown as CatalogEntry[]);
+				const link = await saveCatalog(input.catalogData as unknown as CatalogEntry[], { changedBy: 'manual' });
 				return {
 					success: true,
 					message: 'Catalog saved to Google Drive',
@@ -1993,7 +2412,7 @@ const agent = createAgent('video-editor', {
 
 				ctx.logger.info('[video-editor] Updating catalog entry: %s', videoId);
 
-				const updatedEntry = updateCatalogEntry(videoId, {
+				const updatedEntry = await updateCatalogEntry(videoId, {
 					suspectedLocation: updateData.suspectedLocation || undefined,
 					contentType: updateData.contentType || undefined,
 				});
@@ -2022,7 +2441,7 @@ const agent = createAgent('video-editor', {
 			const editMode = input.editMode || 'auto';
 
 			// Load catalog data for context
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			const catalogMap = new Map(catalog.map(entry => [entry.fileId, entry]));
 
 			// Auto-select: when no videos are explicitly selected, search the catalog
@@ -2457,15 +2876,23 @@ IMPORTANT JSON RULES:
 							platform,
 							editMode: editMode as 'auto' | 'game_day' | 'our_story' | 'quick_hit' | 'showcase',
 							usageSummaries: Array.from(usageSummaryMap.values()),
+							musicUrl: input.musicDisabled ? undefined : input.musicUrl,
 						},
 						ctx.logger,
 					);
 					ctx.logger.info('[video-editor:edit] PLAN-X-FORK: ✓ v2 plan ready — %d clips, %ds total, mode=%s',
 						v2Plan.clips.length, v2Plan.totalDuration, v2Plan.mode);
+					const editPlanVersionId = await saveEditPlanVersion({ plan: v2Plan as unknown as Record<string, unknown>, source: 'pipeline-v2' })
+						.then(version => version.id)
+						.catch((err) => {
+							ctx.logger.warn('[video-editor:edit] Could not save edit plan version: %s', String(err));
+							return undefined;
+						});
 					return {
 						success: true,
 						editPlan: '```json\n' + JSON.stringify(v2Plan, null, 2) + '\n```',
 						editPlanData: v2Plan,
+						editPlanVersionId,
 						videoCount: videoDetails.length,
 						videos: videoDetails,
 						_pipelineVersion: 'v2',
@@ -2519,7 +2946,28 @@ IMPORTANT JSON RULES:
 			let validationResult = null;
 			if (structuredPlan?.clips && Array.isArray(structuredPlan.clips)) {
 				const { validateEditPlan, formatValidationResult } = await import('./edit-plan-validator');
-				validationResult = validateEditPlan(structuredPlan, catalogMap);
+
+				// Beat grid of the track this plan will render with, so the validator
+				// can snap cuts to it. Analysis failure just skips the beat-sync rule.
+				const { trackForPlan } = await import('./beat-sync');
+				const musicTrack = input.musicDisabled ? null : await trackForPlan(
+					{ ...structuredPlan, musicUrl: structuredPlan.musicUrl || input.musicUrl },
+					structuredPlan.mode || editMode,
+					(input.platform || 'tiktok') as string,
+				);
+				let musicAnalysis;
+				if (musicTrack) {
+					try {
+						const { analyzeMusic } = await import('./music-analysis');
+						musicAnalysis = await analyzeMusic(musicTrack, ctx.logger);
+						// Pin the synced track so the render uses the same beats
+						structuredPlan.musicUrl = musicTrack.url;
+					} catch (err) {
+						ctx.logger.warn('[video-editor] Music analysis failed for %s (%s) — skipping beat sync', musicTrack.id, String(err));
+					}
+				}
+
+				validationResult = validateEditPlan(structuredPlan, catalogMap, { music: musicAnalysis });
 
 				if (validationResult.autoFixCount > 0) {
 					ctx.logger.info('[video-editor] Edit plan validation: auto-fixed %d issues', validationResult.autoFixCount);
@@ -2531,9 +2979,20 @@ IMPORTANT JSON RULES:
 				}
 			}
 
+			// Start the plan's version history (render/review/revision link onto it)
+			const editPlanVersionId = structuredPlan
+				? await saveEditPlanVersion({ plan: structuredPlan, source: 'v1-prompt' })
+					.then(version => version.id)
+					.catch((err) => {
+						ctx.logger.warn('[video-editor] Could not save edit plan version: %s', String(err));
+						return undefined;
+					})
+				: undefined;
+
 			return {
 				success: true,
 				editPlan: result.text,           // human-readable markdown for UI display
+				editPlanVersionId,
 				editPlanData: structuredPlan,    // structured JSON for render engine
 				videoCount: videoDetails.length,
 				videos: videoDetails,
@@ -2554,7 +3013,7 @@ IMPORTANT JSON RULES:
 		if (task === 'generate-tags') {
 			ctx.logger.info('[video-editor] Generating semantic tags for catalog entries');
 
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			if (catalog.length === 0) {
 				return { success: false, message: 'No catalog entries found' };
 			}
@@ -2568,7 +3027,7 @@ IMPORTANT JSON RULES:
 
 			// Save updated catalog
 			const { saveCatalog: saveCat } = await import('./google-drive');
-			const saveResult = await saveCat(catalog);
+			const saveResult = await saveCat(catalog, { changedBy: 'generate-tags' });
 			ctx.logger.info('[video-editor] Tagged %d entries, saved to: %s', tagged, saveResult);
 
 			return {
@@ -2585,7 +3044,7 @@ IMPORTANT JSON RULES:
 		// --- Describe scene timestamps with GPT-4o vision ---
 		if (task === 'describe-scenes') {
 			const videoId = input.videoId;
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 
 			if (videoId) {
 				// Single video mode
@@ -2604,24 +3063,15 @@ IMPORTANT JSON RULES:
 
 				try {
 					const { describeSceneTimestamps } = await import('./scene-analyzer');
-					const { downloadVideo } = await import('./google-drive');
-					const fs = await import('fs');
-					const path = await import('path');
-
-					const tempDir = path.join(process.cwd(), '.temp-cataloger');
-					if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-					const videoPath = path.join(tempDir, `describe_${videoId}.mp4`);
+					const { getCachedMedia } = await import('./media-cache');
 
-					await downloadVideo(videoId, videoPath);
+					const { original: videoPath } = await getCachedMedia(videoId);
 					const descriptions = await describeSceneTimestamps(videoPath, entry.sceneAnalysis as any, 6);
 
-					// Clean up
-					try { if (fs.existsSync(videoPath)) fs.unlinkSync(videoPath); } catch { /* best effort */ }
-
 					if (descriptions.length > 0) {
 						(entry.sceneAnalysis as any).sceneDescriptions = descriptions;
 						const { saveCatalog: saveCat } = await import('./google-drive');
-						await saveCat(catalog);
+						await saveCat(catalog, { changedBy: 'describe-scenes' });
 
 						const actionCount = descriptions.filter(d => d.isAction).length;
 						ctx.logger.info('[video-editor] Scene descriptions for %s: %d total, %d action, %d non-action',
@@ -2660,19 +3110,11 @@ IMPORTANT JSON RULES:
 				for (const entry of needsDescription) {
 					try {
 						const { describeSceneTimestamps } = await import('./scene-analyzer');
-						const { downloadVideo } = await import('./google-drive');
-						const fs = await import('fs');
-						const path = await import('path');
-
-						const tempDir = path.join(process.cwd(), '.temp-cataloger');
-						if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-						const videoPath = path.join(tempDir, `describe_${entry.fileId}.mp4`);
+						const { getCachedMedia } = await import('./media-cache');
 
-						await downloadVideo(entry.fileId, videoPath);
+						const { original: videoPath } = await getCachedMedia(entry.fileId);
 						const descriptions = await describeSceneTimestamps(videoPath, entry.sceneAnalysis as any, 6);
 
-						try { if (fs.existsSync(videoPath)) fs.unlinkSync(videoPath); } catch { /* best effort */ }
-
 						if (descriptions.length > 0) {
 							(entry.sceneAnalysis as any).sceneDescriptions = descriptions;
 							described++;
@@ -2690,7 +3132,7 @@ IMPORTANT JSON RULES:
 				// Save all at once
 				if (described > 0) {
 					const { saveCatalog: saveCat } = await import('./google-drive');
-					await saveCat(catalog);
+					await saveCat(catalog, { changedBy: 'describe-scenes' });
 				}
 
 				return {
@@ -2706,9 +3148,23 @@ IMPORTANT JSON RULES:
 		// --- Generate named segments for catalog entries ---
 
 		if (task === 'generate-segments') {
+			if (input.asJob) {
+				const { job, existing } = await submitCatalogJob('generate-segments', {
+					fileIds: input.videoIds?.length ? input.videoIds : input.videoId ? [input.videoId] : undefined,
+					force: input.force === true,
+				});
+				return {
+					success: true,
+					message: existing ? `A named segment job is already ${job.state}` : `Queued named segment job`,
+					jobId: job.id,
+					job,
+					alreadyRunning: existing,
+				};
+			}
+
 			ctx.logger.info('[video-editor] Generating named segments for catalog entries');
 
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			if (catalog.length === 0) {
 				return { success: false, message: 'No catalog entries found' };
 			}
@@ -2742,7 +3198,7 @@ IMPORTANT JSON RULES:
 			// Save updated catalog
 			if (segmented > 0) {
 				const { saveCatalog: saveCat } = await import('./google-drive');
-				await saveCat(catalog);
+				await saveCat(catalog, { changedBy: 'generate-segments' });
 			}
 
 			ctx.logger.info('[video-editor] Named segments: %d generated, %d skipped', segmented, skipped);
@@ -2773,7 +3229,7 @@ IMPORTANT JSON RULES:
 
 			ctx.logger.info('[video-editor] Searching catalog for: %s', query);
 
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			const queryTokens = query.toLowerCase().split(/[\s,]+/).filter((t: string) => t.length > 1);
 
 			const scored = catalog
@@ -2811,7 +3267,7 @@ IMPORTANT JSON RULES:
 
 			ctx.logger.info('[video-editor] Smart select: "%s" (top %d)', query, count);
 
-			const catalog = loadExistingCatalog();
+			const catalog = await loadExistingCatalog();
 			const queryTokens = query.toLowerCase().split(/[\s,]+/).filter((t: string) => t.length > 1);
 
 			const scored = catalog
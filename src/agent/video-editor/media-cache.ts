@@ -0,0 +1,363 @@
+/**
+ * Media Cache — one download per Drive file, plus derived proxies
+ *
+ * The cataloger, scene analysis, contact sheets and timeline thumbnails all
+ * used to pull the full Drive original into .temp-cataloger/ and delete it
+ * afterwards, so the same multi-hundred-MB file was downloaded once per
+ * analysis. This keeps each file on the persistent volume under
+ * media-cache/<fileId>_<version>/, keyed by Drive fileId + modifiedTime
+ * (an edited file gets a fresh entry; the stale one is dropped), with
+ * artifacts generated on first request:
+ *   original.mp4   — the Drive original, byte for byte
+ *   proxy.mp4      — 480p (short side) H.264, keyframe every second; for
+ *                    in-browser previews and any analysis that doesn't need
+ *                    full resolution
+ *   keyframes.json — duration, dimensions, fps, audio presence and the
+ *                    keyframe timestamps of the original
+ *   audio.m4a      — audio-only extract (absent when the video is silent)
+ *
+ * The index (media-cache/index.json) tracks size and last access per entry.
+ * After every write the least-recently-used entries are evicted until the
+ * cache fits MEDIA_CACHE_MAX_GB (default 20). Entries used in the last
+ * EVICTION_GRACE_MS are never evicted, so a path handed to a caller stays
+ * valid while it runs FFmpeg on it. The same grace holds for the entries of
+ * a file's older Drive versions, which are otherwise dropped as soon as a
+ * newer version is cached.
+ *
+ * NOTE: Uses async execFile (not execSync) — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/media-cache.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFile } from 'child_process';
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { downloadVideo, getVideoMetadata } from './google-drive';
+
+// --- Types ---
+
+export type DerivedArtifact = 'proxy' | 'keyframes' | 'audio';
+
+export interface KeyframeIndex {
+	duration: number;          // seconds
+	width: number;
+	height: number;
+	fps: number;
+	hasAudio: boolean;
+	keyframes: number[];       // seconds, ascending
+}
+
+export interface CachedMedia {
+	fileId: string;
+	modifiedTime: string;
+	original: string;          // absolute paths
+	proxy?: string;
+	keyframes?: KeyframeIndex;
+	audio?: string | null;     // null when the video has no audio stream
+}
+
+interface MediaCacheEntry {
+	key: string;
+	fileId: string;
+	modifiedTime: string;
+	bytes: number;
+	createdAt: string;
+	lastAccessedAt: string;
+	artifacts: Partial<Record<'original' | DerivedArtifact, string>>;  // file names inside the entry dir
+}
+
+interface MediaCacheIndex {
+	entries: Record<string, MediaCacheEntry>;
+}
+
+// --- Constants ---
+
+const CACHE_DIR = persistentPath('media-cache');
+const INDEX_PATH = path.join(CACHE_DIR, 'index.json');
+
+const MAX_BYTES = (parseFloat(process.env.MEDIA_CACHE_MAX_GB || '') || 20) * 1024 ** 3;
+const EVICTION_GRACE_MS = 30 * 60 * 1000;
+const PROXY_SHORT_SIDE = 480;
+
+const ARTIFACT_FILES: Record<'original' | DerivedArtifact, string> = {
+	original: 'original.mp4',
+	proxy: 'proxy.mp4',
+	keyframes: 'keyframes.json',
+	audio: 'audio.m4a',
+};
+
+/** One download / derivation per entry+artifact at a time — concurrent callers share it. */
+const inFlight = new Map<string, Promise<void>>();
+/** Transcodes run one at a time — they're CPU-bound and would starve the server. */
+let transcodeQueue: Promise<unknown> = Promise.resolve();
+
+// --- Index ---
+
+function loadIndex(): MediaCacheIndex {
+	const parsed = readJsonFile<MediaCacheIndex | null>(INDEX_PATH, null, 'media-cache');
+	return parsed && parsed.entries ? parsed : { entries: {} };
+}
+
+function saveIndex(index: MediaCacheIndex): void {
+	writeJsonFile(INDEX_PATH, index, { pretty: true });
+}
+
+function entryKey(fileId: string, modifiedTime: string): string {
+	const safeId = fileId.replace(/[^a-zA-Z0-9_-]/g, '_');
+	return `${safeId}_${crypto.createHash('sha1').update(modifiedTime).digest('hex').slice(0, 10)}`;
+}
+
+function entryDir(key: string): string {
+	return path.join(CACHE_DIR, key);
+}
+
+function dirBytes(dir: string): number {
+	if (!fs.existsSync(dir)) return 0;
+	return fs.readdirSync(dir).reduce((sum, name) => {
+		try { return sum + fs.statSync(path.join(dir, name)).size; } catch { return sum; }
+	}, 0);
+}
+
+/** The entry's artifact path when it exists on disk. */
+function artifactPath(entry: MediaCacheEntry | undefined, artifact: 'original' | DerivedArtifact): string | null {
+	const name = entry?.artifacts[artifact];
+	if (!entry || !name) return null;
+	const filePath = path.join(entryDir(entry.key), name);
+	return fs.existsSync(filePath) ? filePath : null;
+}
+
+/**
+ * Record an artifact (or just an access) on an entry, drop older versions of
+ * the same file that are past EVICTION_GRACE_MS, and evict down to the size
+ * budget.
+ */
+function recordEntry(fileId: string, modifiedTime: string, artifact?: 'original' | DerivedArtifact): void {
+	const index = loadIndex();
+	const key = entryKey(fileId, modifiedTime);
+	const now = new Date().toISOString();
+	const entry: MediaCacheEntry = index.entries[key] ?? {
+		key, fileId, modifiedTime, bytes: 0, createdAt: now, lastAccessedAt: now, artifacts: {},
+	};
+	if (artifact) entry.artifacts[artifact] = ARTIFACT_FILES[artifact];
+	entry.bytes = dirBytes(entryDir(key));
+	entry.lastAccessedAt = now;
+	index.entries[key] = entry;
+
+	const cutoff = Date.now() - EVICTION_GRACE_MS;
+	for (const other of Object.values(index.entries)) {
+		if (other.fileId === fileId && other.key !== key && Date.parse(other.lastAccessedAt) < cutoff) {
+			removeEntry(index, other.key);
+		}
+	}
+	evict(index, key);
+	saveIndex(index);
+}
+
+function removeEntry(index: MediaCacheIndex, key: string): void {
+	try { fs.rmSync(entryDir(key), { recursive: true, force: true }); } catch { /* best effort */ }
+	delete index.entries[key];
+}
+
+function evict(index: MediaCacheIndex, keepKey: string): void {
+	let total = Object.values(index.entries).reduce((sum, e) => sum + e.bytes, 0);
+	if (total <= MAX_BYTES) return;
+
+	const cutoff = Date.now() - EVICTION_GRACE_MS;
+	const candidates = Object.values(index.entries)
+		.filter(e => e.key !== keepKey && Date.parse(e.lastAccessedAt) < cutoff)
+		.sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+
+	for (const entry of candidates) {
+		if (total <= MAX_BYTES) break;
+		total -= entry.bytes;
+		removeEntry(index, entry.key);
+		console.log('[media-cache] Evicted %s (%d MB)', entry.key, Math.round(entry.bytes / (1024 * 1024)));
+	}
+	if (total > MAX_BYTES) {
+		console.warn('[media-cache] Over budget: %d MB in use, every remaining entry was used in the last %d min',
+			Math.round(total / (1024 * 1024)), EVICTION_GRACE_MS / 60000);
+	}
+}
+
+// --- FFmpeg ---
+
+function run(cmd: string, args: string[], timeoutMs: number): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(cmd, args, { timeout: timeoutMs, maxBuffer: 50 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) reject(new Error(`${cmd} failed: ${stderr || error.message}`));
+			else resolve(stdout);
+		});
+	});
+}
+
+function runTranscode(args: string[], timeoutMs: number): Promise<string> {
+	const job = transcodeQueue.then(() => run('ffmpeg', args, timeoutMs));
+	transcodeQueue = job.catch(() => undefined);
+	return job;
+}
+
+function parseRate(rate: string | undefined): number {
+	const [num, den] = (rate || '').split('/').map(Number);
+	if (!num || !den) return 0;
+	return Math.round((num / den) * 100) / 100;
+}
+
+async function probeKeyframes(videoPath: string): Promise<KeyframeIndex> {
+	const info = JSON.parse(await run('ffprobe', [
+		'-v', 'error',
+		'-show_entries', 'format=duration:stream=codec_type,width,height,avg_frame_rate',
+		'-of', 'json', videoPath,
+	], 30000)) as {
+		format?: { duration?: string };
+		streams?: Array<{ codec_type?: string; width?: number; height?: number; avg_frame_rate?: string }>;
+	};
+	const video = info.streams?.find(s => s.codec_type === 'video');
+
+	// Packet flags only — no decoding, so this is fast even on long files
+	const packets = await run('ffprobe', [
+		'-v', 'error', '-select_streams', 'v:0',
+		'-show_entries', 'packet=pts_time,flags', '-of', 'csv=p=0', videoPath,
+	], 60000);
+	const keyframes = packets.split('\n')
+		.map(line => line.split(','))
+		.filter(([pts, flags]) => flags?.includes('K') && pts && pts !== 'N/A')
+		.map(([pts]) => Math.round(parseFloat(pts!) * 1000) / 1000)
+		.filter(t => Number.isFinite(t))
+		.sort((a, b) => a - b);
+
+	return {
+		duration: parseFloat(info.format?.duration || '0') || 0,
+		width: video?.width || 0,
+		height: video?.height || 0,
+		fps: parseRate(video?.avg_frame_rate),
+		hasAudio: !!info.streams?.some(s => s.codec_type === 'audio'),
+		keyframes,
+	};
+}
+
+// --- Artifact builders ---
+
+async function buildArtifact(
+	artifact: 'original' | DerivedArtifact,
+	fileId: string,
+	dir: string,
+	original: string,
+): Promise<void> {
+	const target = path.join(dir, ARTIFACT_FILES[artifact]);
+	// Write beside the target and rename, so a crash never leaves a truncated artifact
+	const partial = `${target}.part${path.extname(target)}`;
+	try {
+		switch (artifact) {
+			case 'original':
+				await downloadVideo(fileId, partial);
+				break;
+			case 'keyframes':
+				fs.writeFileSync(partial, JSON.stringify(await probeKeyframes(original)), 'utf-8');
+				break;
+			case 'proxy':
+				// Short side to 480 (never upscaled); iw/ih are post-autorotate so portrait stays portrait
+				await runTranscode([
+					'-y', '-v', 'error', '-i', original,
+					'-vf', `scale='trunc(min(1,${PROXY_SHORT_SIDE}/min(iw,ih))*iw/2)*2':'trunc(min(1,${PROXY_SHORT_SIDE}/min(iw,ih))*ih/2)*2'`,
+					'-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28', '-pix_fmt', 'yuv420p',
+					'-force_key_frames', 'expr:gte(t,n_forced*1)',  // 1s keyframes — cheap scrubbing
+					'-c:a', 'aac', '-b:a', '96k', '-ac', '2',
+					'-movflags', '+faststart', partial,
+				], 15 * 60 * 1000);
+				break;
+			case 'audio':
+				await runTranscode(['-y', '-v', 'error', '-i', original, '-vn', '-c:a', 'aac', '-b:a', '128k', partial], 5 * 60 * 1000);
+				break;
+		}
+		if (!fs.existsSync(partial) || fs.statSync(partial).size === 0) {
+			throw new Error(`${artifact} was not created for ${fileId}`);
+		}
+		fs.renameSync(partial, target);
+	} finally {
+		try { if (fs.existsSync(partial)) fs.unlinkSync(partial); } catch { /* best effort */ }
+	}
+}
+
+/** Path of an artifact, building it (and the original it derives from) when missing. */
+async function ensureArtifact(
+	fileId: string,
+	modifiedTime: string,
+	artifact: 'original' | DerivedArtifact,
+): Promise<string> {
+	const key = entryKey(fileId, modifiedTime);
+	const existing = artifactPath(loadIndex().entries[key], artifact);
+	if (existing) return existing;
+
+	const flightKey = `${key}:${artifact}`;
+	let pending = inFlight.get(flightKey);
+	if (!pending) {
+		pending = (async () => {
+			const dir = entryDir(key);
+			fs.mkdirSync(dir, { recursive: true });
+			const original = artifact === 'original' ? '' : await ensureArtifact(fileId, modifiedTime, 'original');
+			const started = Date.now();
+			await buildArtifact(artifact, fileId, dir, original);
+			recordEntry(fileId, modifiedTime, artifact);
+			console.log('[media-cache] %s %s ready (%dms)', key, artifact, Date.now() - started);
+		})().finally(() => inFlight.delete(flightKey));
+		inFlight.set(flightKey, pending);
+	}
+	await pending;
+	return path.join(entryDir(key), ARTIFACT_FILES[artifact]);
+}
+
+// --- Public API ---
+
+/**
+ * Local copies of a Drive file: always the original, plus whichever derived
+ * artifacts `include` asks for, each downloaded or generated at most once.
+ * Pass `modifiedTime` when the caller already has it (a VideoFile listing)
+ * to skip the Drive metadata lookup. Throws when the download or FFmpeg fails.
+ */
+export async function getCachedMedia(
+	fileId: string,
+	options: { modifiedTime?: string; include?: DerivedArtifact[] } = {},
+): Promise<CachedMedia> {
+	const modifiedTime = options.modifiedTime || (await getVideoMetadata(fileId)).modifiedTime || 'unknown';
+	const include = new Set(options.include || []);
+
+	const media: CachedMedia = {
+		fileId,
+		modifiedTime,
+		original: await ensureArtifact(fileId, modifiedTime, 'original'),
+	};
+	// The keyframe index also says whether there is audio to extract
+	if (include.has('keyframes') || include.has('audio')) {
+		const keyframesPath = await ensureArtifact(fileId, modifiedTime, 'keyframes');
+		media.keyframes = JSON.parse(fs.readFileSync(keyframesPath, 'utf-8')) as KeyframeIndex;
+	}
+	if (include.has('proxy')) {
+		media.proxy = await ensureArtifact(fileId, modifiedTime, 'proxy');
+	}
+	if (include.has('audio')) {
+		media.audio = media.keyframes?.hasAudio ? await ensureArtifact(fileId, modifiedTime, 'audio') : null;
+	}
+
+	recordEntry(fileId, modifiedTime);
+	return media;
+}
+
+/** Download a file and generate every derived artifact — the cataloger calls this per video. */
+export async function warmMediaCache(fileId: string, modifiedTime?: string): Promise<CachedMedia> {
+	return getCachedMedia(fileId, { modifiedTime, include: ['proxy', 'keyframes', 'audio'] });
+}
+
+/**
+ * Path of an already-generated 480p proxy for `fileId`, or null. Never
+ * downloads and never calls Drive, so it can't tell whether the file changed
+ * since it was cached — good enough for previews, not for renders.
+ */
+export function findCachedProxy(fileId: string): string | null {
+	const index = loadIndex();
+	const newest = Object.values(index.entries)
+		.filter(e => e.fileId === fileId)
+		.sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime))[0];
+	return artifactPath(newest, 'proxy');
+}
@@ -0,0 +1,323 @@
+/**
+ * Multi-Aspect Render — one edit plan, several platform outputs, one job
+ *
+ * A render normally targets one platform. A render group takes one edit
+ * plan and a list of platforms (TikTok, IG Reels, YouTube, LinkedIn
+ * square...) and:
+ *   1. Groups platforms that share an output frame and music policy —
+ *      TikTok and IG Reels are both 1080x1920 without music, so they share
+ *      one render.
+ *   2. Submits every output over a single S3 upload; each output
+ *      preprocesses the clips once with smart crop for its aspect
+ *      (remotion/render.ts submitRemotionRenderMultiAspect) and lays text
+ *      out inside that platform's safe area (remotion/overlay-layout.ts).
+ *   3. As outputs finish, writes one finished_videos row per platform, all
+ *      carrying the group's render_group_id. The edit plan is stored once,
+ *      on the render group.
+ *
+ * Groups persist to the Supabase render_groups table when configured (see
+ * docs/render_groups_schema.sql), else render-groups.json.
+ *
+ * File: src/agent/video-editor/multi-render.ts
+ */
+
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import { PLATFORM_SETTINGS } from './shotstack';
+import { shouldAddMusic } from './music';
+import type { RemotionRenderLocation } from './remotion/render';
+
+// --- Types ---
+
+export interface RenderGroupOutput {
+	renderId: string;
+	/** Platforms served by this render (same frame size and music policy). */
+	platforms: string[];
+	aspectRatio: string;
+	width: number;
+	height: number;
+	withMusic: boolean;
+	status: 'queued' | 'rendering' | 'done' | 'failed';
+	downloadUrl?: string;
+	error?: string;
+	/** Platforms whose maxDuration the plan runs past — rendered anyway, flagged for review. */
+	overLength: string[];
+	/** finished_videos ids, one per platform, once the render is done. */
+	finishedVideoIds: string[];
+	/**
+	 * Where the Lambda render reports completion, saved once it is submitted.
+	 * Status polls after a restart (or on another replica) check this
+	 * instead of the in-memory render registry.
+	 */
+	lambda?: RemotionRenderLocation;
+}
+
+export interface RenderGroup {
+	id: string;
+	createdAt: string;
+	mode: string;
+	topic?: string;
+	editPlan: Record<string, unknown>;
+	sourceVideoIds: string[];
+	/** Library track on the outputs that carry music (finished_videos.music_track_id). */
+	musicTrackId?: string;
+	outputs: RenderGroupOutput[];
+}
+
+interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+const GROUPS_FILE_PATH = persistentPath('render-groups.json');
+const MAX_FILE_GROUPS = 200;
+/**
+ * An output this process can't see — no registry entry, no result at its
+ * saved location — stays 'rendering' until this long after the group was
+ * created. Covers upload + per-output preprocessing + Lambda render.
+ */
+const LOST_RENDER_TIMEOUT_MS = 45 * 60 * 1000;
+
+// --- Planning ---
+
+function planDuration(editPlan: Record<string, unknown>): number {
+	const clips = Array.isArray(editPlan.clips) ? editPlan.clips as Array<{ duration?: number }> : [];
+	return clips.reduce((sum, c) => sum + (c.duration || 0), 0);
+}
+
+/**
+ * One output per distinct (frame size, music) among the platforms, in the
+ * order the platforms were given. Throws on an unknown platform.
+ */
+export function planRenderOutputs(
+	platforms: string[],
+	editPlan: Record<string, unknown>,
+): Array<Omit<RenderGroupOutput, 'renderId' | 'status' | 'finishedVideoIds'>> {
+	const musicTier = (editPlan.musicTier as number) || undefined;
+	const duration = planDuration(editPlan);
+	const outputs = new Map<string, Omit<RenderGroupOutput, 'renderId' | 'status' | 'finishedVideoIds'>>();
+
+	for (const platform of [...new Set(platforms)]) {
+		const settings = PLATFORM_SETTINGS[platform];
+		if (!settings) throw new Error(`Unknown platform: ${platform}`);
+		const withMusic = shouldAddMusic(platform, musicTier);
+		const key = `${settings.width}x${settings.height}|${withMusic ? 'music' : 'silent'}`;
+
+		if (!outputs.has(key)) {
+			outputs.set(key, {
+				platforms: [],
+				aspectRatio: settings.aspectRatio,
+				width: settings.width,
+				height: settings.height,
+				withMusic,
+				overLength: [],
+			});
+		}
+		const output = outputs.get(key)!;
+		output.platforms.push(platform);
+		if (duration > settings.maxDuration) output.overLength.push(platform);
+	}
+	return [...outputs.values()];
+}
+
+// --- Store ---
+
+function readGroupsFile(): RenderGroup[] {
+	return readJsonFile<RenderGroup[]>(GROUPS_FILE_PATH, [], 'multi-render');
+}
+
+async function saveRenderGroup(group: RenderGroup): Promise<void> {
+	if (supabaseAdmin) {
+		const { error } = await supabaseAdmin.from('render_groups').upsert({
+			id: group.id,
+			mode: group.mode,
+			edit_plan: group.editPlan,
+			render_group: group,
+			created_at: group.createdAt,
+			updated_at: new Date().toISOString(),
+		});
+		if (error) throw new Error(`render_groups upsert failed: ${error.message}`);
+		return;
+	}
+
+	const groups = readGroupsFile().filter(g => g.id !== group.id);
+	groups.unshift(group);
+	writeJsonFile(GROUPS_FILE_PATH, groups.slice(0, MAX_FILE_GROUPS), { pretty: true });
+}
+
+export async function getRenderGroup(id: string): Promise<RenderGroup | null> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin
+			.from('render_groups')
+			.select('render_group')
+			.eq('id', id)
+			.maybeSingle();
+		if (error) throw new Error(`render_groups read failed: ${error.message}`);
+		return (data?.render_group as RenderGroup | undefined) ?? null;
+	}
+	return readGroupsFile().find(g => g.id === id) ?? null;
+}
+
+// --- Lifecycle ---
+
+/**
+ * Plan and save a render group. Each output gets a `remotion_` render ID
+ * so the ordinary render-status task can poll it too; the caller
+ * pre-registers those IDs and submits the render.
+ */
+export async function createRenderGroup(input: {
+	editPlan: Record<string, unknown>;
+	platforms: string[];
+	mode: string;
+	topic?: string;
+	musicTrackId?: string;
+}): Promise<RenderGroup> {
+	if (input.platforms.length === 0) throw new Error('At least one platform is required');
+	const clips = Array.isArray(input.editPlan.clips) ? input.editPlan.clips as Array<{ fileId?: string }> : [];
+
+	const group: RenderGroup = {
+		id: `rgrp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		createdAt: new Date().toISOString(),
+		mode: input.mode,
+		topic: input.topic,
+		editPlan: input.editPlan,
+		sourceVideoIds: [...new Set(clips.map(c => c.fileId).filter((id): id is string => !!id))],
+		musicTrackId: input.musicTrackId,
+		outputs: planRenderOutputs(input.platforms, input.editPlan).map(output => ({
+			...output,
+			renderId: `remotion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+			status: 'queued' as const,
+			finishedVideoIds: [],
+		})),
+	};
+	await saveRenderGroup(group);
+	return group;
+}
+
+/**
+ * One finished_videos row per platform the output serves. Rows already
+ * saved for this render (by another replica's poll) are returned as-is.
+ */
+async function saveFinishedVideos(group: RenderGroup, output: RenderGroupOutput): Promise<string[]> {
+	if (!supabaseAdmin) return [];
+
+	const { data: existing, error: readError } = await supabaseAdmin
+		.from('finished_videos')
+		.select('id')
+		.eq('render_group_id', group.id)
+		.eq('render_id', output.renderId);
+	if (readError) throw new Error(`finished_videos read failed: ${readError.message}`);
+	if (existing && existing.length > 0) return existing.map(row => row.id as string);
+
+	const topic = group.topic || 'Untitled';
+	const tags = topic.split(/[\s,]+/).filter(t => t.length > 2).map(t => t.toLowerCase());
+
+	const rows = output.platforms.map(platform => ({
+		title: `${topic} — ${platform} ${group.mode}`,
+		platform,
+		edit_mode: group.mode,
+		storage_path: '',
+		public_url: output.downloadUrl,
+		duration_sec: planDuration(group.editPlan),
+		tags,
+		source_video_ids: group.sourceVideoIds,
+		render_id: output.renderId,
+		render_group_id: group.id,
+		aspect_ratio: output.aspectRatio,
+	}));
+	const musicTrackId = output.withMusic ? group.musicTrackId ?? null : null;
+	let { data, error } = await supabaseAdmin
+		.from('finished_videos')
+		.insert(rows.map(row => ({ ...row, music_track_id: musicTrackId })))
+		.select('id');
+
+	// music_track_id not migrated yet (docs/music_library_schema.sql) — keep the videos, lose the track link
+	if (error && /music_track_id/.test(error.message)) {
+		({ data, error } = await supabaseAdmin.from('finished_videos').insert(rows).select('id'));
+	}
+	if (error) throw new Error(`finished_videos insert failed: ${error.message}`);
+	return (data || []).map(row => row.id as string);
+}
+
+// Refreshes in flight per group — overlapping status polls share one
+const _refreshing = new Map<string, Promise<RenderGroup | null>>();
+
+/**
+ * Poll every unfinished output, save finished_videos rows for outputs that
+ * just completed, and persist the group. Safe to call repeatedly and
+ * concurrently: overlapping calls for a group wait on the one in flight.
+ */
+export function refreshRenderGroup(id: string, logger?: Logger): Promise<RenderGroup | null> {
+	const inFlight = _refreshing.get(id);
+	if (inFlight) return inFlight;
+	const run = doRefreshRenderGroup(id, logger).finally(() => _refreshing.delete(id));
+	_refreshing.set(id, run);
+	return run;
+}
+
+async function doRefreshRenderGroup(id: string, logger?: Logger): Promise<RenderGroup | null> {
+	const group = await getRenderGroup(id);
+	if (!group) return null;
+	const { checkRemotionStatus, checkRemotionOutput, getRenderLocation, isRenderTracked } = await import('./remotion/render');
+	const groupAgeMs = Date.now() - new Date(group.createdAt).getTime();
+
+	let changed = false;
+	for (const output of group.outputs) {
+		if (output.status === 'failed') continue;
+
+		if (output.status !== 'done') {
+			const location = getRenderLocation(output.renderId);
+			if (location && !output.lambda) {
+				output.lambda = location;
+				changed = true;
+			}
+
+			let status: Awaited<ReturnType<typeof checkRemotionStatus>>;
+			if (isRenderTracked(output.renderId)) {
+				status = await checkRemotionStatus(output.renderId, logger);
+			} else if (output.lambda) {
+				// Submitted before a restart or by another replica — the registry
+				// entry is gone, the webhook store and S3 output are not
+				status = await checkRemotionOutput(output.renderId, output.lambda, logger);
+			} else {
+				// Never reached Lambda as far as we can tell — possibly still
+				// preprocessing on another replica. "Not found" isn't a result.
+				status = { id: output.renderId, status: output.status };
+			}
+
+			if (status.status !== 'done' && status.status !== 'failed' && !isRenderTracked(output.renderId)
+				&& groupAgeMs > LOST_RENDER_TIMEOUT_MS) {
+				status = {
+					id: output.renderId,
+					status: 'failed',
+					error: `No render output after ${Math.round(groupAgeMs / 60000)} min — the render was lost`,
+				};
+			}
+
+			const next = status.status === 'done' || status.status === 'failed'
+				? status.status
+				: status.status === 'queued' ? 'queued' : 'rendering';
+			if (next !== output.status || status.url !== output.downloadUrl) {
+				output.status = next;
+				output.downloadUrl = status.url;
+				output.error = status.error;
+				changed = true;
+			}
+		}
+
+		if (output.status === 'done' && output.downloadUrl && output.finishedVideoIds.length === 0) {
+			try {
+				output.finishedVideoIds = await saveFinishedVideos(group, output);
+				changed = true;
+				logger?.info('[multi-render] Group %s: saved %d finished_videos rows for %s',
+					group.id, output.finishedVideoIds.length, output.platforms.join(', '));
+			} catch (err) {
+				logger?.warn?.('[multi-render] Group %s: %s', group.id, err instanceof Error ? err.message : String(err));
+			}
+		}
+	}
+
+	if (changed) await saveRenderGroup(group);
+	return group;
+}
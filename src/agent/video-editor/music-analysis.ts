@@ -0,0 +1,370 @@
+/**
+ * Music Analysis — beats, downbeats and energy sections for a soundtrack
+ *
+ * Runs locally: FFmpeg decodes the track to mono PCM, then
+ *   1. Onset envelope — frame-to-frame rise in pre-emphasized log energy,
+ *      minus its local mean (drum hits and note attacks stand out).
+ *   2. Tempo — autocorrelation of the envelope over 60-200 BPM, weighted
+ *      toward the track's tagged bpm (MusicTrack.bpm) when there is one,
+ *      else toward 120.
+ *   3. Beats — dynamic-programming beat tracker (Ellis 2007): pick onsets
+ *      that are strong AND spaced close to the tempo period.
+ *   4. Downbeats — assumes 4/4; the beat phase (0-3) whose beats carry the
+ *      most onset energy starts each bar.
+ *   5. Energy sections — bar-level RMS, smoothed, split into low/mid/high
+ *      by thirds of the track's own energy range and merged into runs of
+ *      2+ bars.
+ *
+ * Results are cached per track id in music-analysis/<id>.json on the
+ * persistent volume; a changed URL re-analyses. beat-sync.ts uses them to
+ * snap cuts.
+ *
+ * NOTE: Uses async execFile (not execSync) — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/music-analysis.ts
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFile } from 'child_process';
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import type { MusicTrack } from './music';
+
+// --- Types ---
+
+export interface EnergySection {
+	start: number;            // seconds
+	end: number;
+	energy: number;           // mean bar RMS, 0-1 relative to the loudest bar
+	level: 'low' | 'mid' | 'high';
+}
+
+export interface MusicAnalysis {
+	trackId: string;
+	sourceUrl: string;
+	analyzedAt: string;
+	durationSeconds: number;
+	bpm: number;
+	beats: number[];          // seconds
+	downbeats: number[];      // seconds, subset of beats
+	sections: EnergySection[];
+}
+
+interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+// --- Constants ---
+
+const CACHE_DIR = persistentPath('music-analysis');
+
+const SAMPLE_RATE = 11025;
+const HOP = 256;                   // ~23ms frames
+const MAX_SECONDS = 600;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const TIGHTNESS = 100;             // beat tracker: penalty for straying from the period
+const BEATS_PER_BAR = 4;
+const MIN_SECTION_BARS = 2;
+const FLAT_ENERGY_SPREAD = 0.15;   // relative bar energy range below which a track has one level
+
+// --- Cache ---
+
+/** Cache key: the library id, or a URL hash for user-provided ('custom') tracks. */
+export function musicCacheKey(track: Pick<MusicTrack, 'id' | 'url'>): string {
+	if (track.id && track.id !== 'custom') return track.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+	return `custom_${crypto.createHash('sha1').update(track.url).digest('hex').slice(0, 12)}`;
+}
+
+function cachePath(key: string): string {
+	return path.join(CACHE_DIR, `${key}.json`);
+}
+
+/** Cached analysis for a track, or null. Never analyses. */
+export function getCachedMusicAnalysis(track: Pick<MusicTrack, 'id' | 'url'>): MusicAnalysis | null {
+	const cached = readJsonFile<MusicAnalysis | null>(cachePath(musicCacheKey(track)), null, 'music-analysis');
+	return cached?.sourceUrl === track.url ? cached : null;
+}
+
+function saveMusicAnalysis(key: string, analysis: MusicAnalysis): void {
+	writeJsonFile(cachePath(key), analysis);
+}
+
+// --- Decoding ---
+
+function decodeToPcm(source: string): Promise<Float32Array> {
+	return new Promise((resolve, reject) => {
+		execFile(
+			'ffmpeg',
+			['-v', 'error', '-t', String(MAX_SECONDS), '-i', source, '-ac', '1', '-ar', String(SAMPLE_RATE), '-f', 'f32le', '-'],
+			{ encoding: 'buffer', timeout: 120_000, maxBuffer: SAMPLE_RATE * MAX_SECONDS * 4 + 1024 },
+			(error, stdout, stderr) => {
+				if (error) return reject(new Error(`Audio decode failed: ${stderr.toString() || error.message}`));
+				const bytes = stdout.byteLength - (stdout.byteLength % 4);
+				const copy = new ArrayBuffer(bytes);
+				new Uint8Array(copy).set(stdout.subarray(0, bytes));
+				resolve(new Float32Array(copy));
+			},
+		);
+	});
+}
+
+// --- Analysis ---
+
+/** Per-frame RMS and onset strength. */
+function onsetEnvelope(samples: Float32Array): { rms: Float64Array; onset: Float64Array } {
+	const frames = Math.max(0, Math.floor((samples.length - HOP) / HOP));
+	const rms = new Float64Array(frames);
+	const logEnergy = new Float64Array(frames);
+	for (let f = 0; f < frames; f++) {
+		let raw = 0;
+		let emphasized = 0;
+		const start = f * HOP;
+		for (let i = start; i < start + HOP * 2 && i < samples.length; i++) {
+			const s = samples[i]!;
+			const e = s - 0.97 * (i > 0 ? samples[i - 1]! : 0);
+			raw += s * s;
+			emphasized += e * e;
+		}
+		rms[f] = Math.sqrt(raw / (HOP * 2));
+		logEnergy[f] = Math.log(1e-10 + emphasized);
+	}
+
+	const rise = new Float64Array(frames);
+	for (let f = 1; f < frames; f++) rise[f] = Math.max(0, logEnergy[f]! - logEnergy[f - 1]!);
+
+	// Subtract a ~0.5s moving average so sustained loud passages don't read as onsets
+	const half = Math.round((0.25 * SAMPLE_RATE) / HOP);
+	const onset = new Float64Array(frames);
+	let sum = 0;
+	let count = 0;
+	for (let f = 0; f < Math.min(frames, half); f++) { sum += rise[f]!; count++; }
+	for (let f = 0; f < frames; f++) {
+		if (f + half < frames) { sum += rise[f + half]!; count++; }
+		if (f - half - 1 >= 0) { sum -= rise[f - half - 1]!; count--; }
+		onset[f] = Math.max(0, rise[f]! - sum / Math.max(1, count));
+	}
+	return { rms, onset };
+}
+
+/** Light [1 2 1] smoothing — onsets are 1-2 frames wide, so without it a non-integer period misses every other peak. */
+function smooth(values: Float64Array, passes = 2): Float64Array {
+	let out = values;
+	for (let p = 0; p < passes; p++) {
+		const next = new Float64Array(out.length);
+		for (let i = 0; i < out.length; i++) {
+			next[i] = 0.25 * (out[i - 1] ?? out[i]!) + 0.5 * out[i]! + 0.25 * (out[i + 1] ?? out[i]!);
+		}
+		out = next;
+	}
+	return out;
+}
+
+/** Beat period in frames from the envelope's autocorrelation. */
+function estimatePeriod(rawOnset: Float64Array, bpmHint?: number): number {
+	const onset = smooth(rawOnset);
+	const framesPerSecond = SAMPLE_RATE / HOP;
+	const minLag = Math.floor((60 / MAX_BPM) * framesPerSecond);
+	const maxLag = Math.ceil((60 / MIN_BPM) * framesPerSecond);
+	const center = bpmHint && bpmHint >= MIN_BPM && bpmHint <= MAX_BPM ? bpmHint : 120;
+	const sigma = bpmHint ? 0.25 : 1.0;  // octaves — a tagged bpm is trusted more
+
+	let bestLag = Math.round((60 / center) * framesPerSecond);
+	let bestScore = -Infinity;
+	const scores = new Map<number, number>();
+	for (let lag = minLag; lag <= maxLag; lag++) {
+		let acf = 0;
+		for (let f = lag; f < onset.length; f++) acf += onset[f]! * onset[f - lag]!;
+		const bpm = (60 * framesPerSecond) / lag;
+		const weight = Math.exp(-0.5 * (Math.log2(bpm / center) / sigma) ** 2);
+		const score = acf * weight;
+		scores.set(lag, score);
+		if (score > bestScore) {
+			bestScore = score;
+			bestLag = lag;
+		}
+	}
+
+	// Parabolic refinement around the peak
+	const a = scores.get(bestLag - 1);
+	const b = scores.get(bestLag)!;
+	const c = scores.get(bestLag + 1);
+	if (a !== undefined && c !== undefined && a - 2 * b + c !== 0) {
+		const shift = 0.5 * (a - c) / (a - 2 * b + c);
+		if (Math.abs(shift) < 1) return bestLag + shift;
+	}
+	return bestLag;
+}
+
+/** Dynamic-programming beat tracker: returns beat frame indices. */
+function trackBeats(onset: Float64Array, period: number): number[] {
+	const n = onset.length;
+	if (n === 0) return [];
+	let peak = 0;
+	for (const v of onset) peak = Math.max(peak, v);
+	const norm = peak > 0 ? peak : 1;
+
+	const score = new Float64Array(n);
+	const backlink = new Int32Array(n).fill(-1);
+	const lo = Math.round(period / 2);
+	const hi = Math.round(period * 2);
+	for (let i = 0; i < n; i++) {
+		let best = 0;
+		let bestPrev = -1;
+		for (let prev = i - hi; prev <= i - lo; prev++) {
+			if (prev < 0) continue;
+			const penalty = TIGHTNESS * Math.log((i - prev) / period) ** 2;
+			const candidate = score[prev]! - penalty;
+			if (bestPrev === -1 || candidate > best) {
+				best = candidate;
+				bestPrev = prev;
+			}
+		}
+		score[i] = onset[i]! / norm + (bestPrev >= 0 ? Math.max(0, best) : 0);
+		backlink[i] = bestPrev >= 0 && best > 0 ? bestPrev : -1;
+	}
+
+	// Start from the best-scoring frame within the last period
+	let end = n - 1;
+	for (let i = Math.max(0, n - Math.ceil(period)); i < n; i++) {
+		if (score[i]! > score[end]!) end = i;
+	}
+	const beats: number[] = [];
+	for (let i = end; i >= 0; i = backlink[i]!) {
+		beats.push(i);
+		if (backlink[i] === -1) break;
+	}
+	return beats.reverse();
+}
+
+function energySections(downbeats: number[], rmsAt: (from: number, to: number) => number, duration: number): EnergySection[] {
+	if (downbeats.length < 2) return [{ start: 0, end: duration, energy: 1, level: 'mid' }];
+
+	const bounds = [...downbeats, duration];
+	const bars = bounds.slice(0, -1).map((start, i) => ({ start, end: bounds[i + 1]!, energy: rmsAt(start, bounds[i + 1]!) }));
+	const peak = Math.max(...bars.map(b => b.energy), 1e-9);
+	const smoothed = bars.map((bar, i) => {
+		const window = bars.slice(Math.max(0, i - 1), i + 2);
+		return { ...bar, energy: window.reduce((s, b) => s + b.energy, 0) / window.length / peak };
+	});
+
+	const energies = smoothed.map(b => b.energy);
+	const min = Math.min(...energies);
+	const range = Math.max(...energies) - min;
+	const lowCut = min + range / 3;
+	const highCut = min + (range * 2) / 3;
+	// A track with no real dynamics is one 'mid' section, not noise split into thirds
+	const flat = range < FLAT_ENERGY_SPREAD;
+	const levelOf = (e: number): EnergySection['level'] =>
+		flat ? 'mid' : e >= highCut ? 'high' : e < lowCut ? 'low' : 'mid';
+
+	const sections: Array<EnergySection & { bars: number }> = [];
+	for (const bar of smoothed) {
+		const level = levelOf(bar.energy);
+		const last = sections[sections.length - 1];
+		if (last && last.level === level) {
+			last.energy = (last.energy * last.bars + bar.energy) / (last.bars + 1);
+			last.end = bar.end;
+			last.bars++;
+		} else {
+			sections.push({ start: bar.start, end: bar.end, energy: bar.energy, level, bars: 1 });
+		}
+	}
+
+	// Fold sections shorter than MIN_SECTION_BARS into their predecessor
+	const merged: Array<EnergySection & { bars: number }> = [];
+	for (const section of sections) {
+		const prev = merged[merged.length - 1];
+		if (prev && section.bars < MIN_SECTION_BARS) {
+			prev.energy = (prev.energy * prev.bars + section.energy * section.bars) / (prev.bars + section.bars);
+			prev.end = section.end;
+			prev.bars += section.bars;
+		} else {
+			merged.push({ ...section });
+		}
+	}
+	if (merged[0]) merged[0].start = 0;
+	return merged.map(({ bars: _bars, ...s }) => ({ ...s, energy: Math.round(s.energy * 100) / 100 }));
+}
+
+/** Analyse decoded mono PCM at SAMPLE_RATE. Pure — exported for the cache-less path. */
+export function analyzePcm(samples: Float32Array, bpmHint?: number): Omit<MusicAnalysis, 'trackId' | 'sourceUrl' | 'analyzedAt'> {
+	const durationSeconds = samples.length / SAMPLE_RATE;
+	const { rms, onset } = onsetEnvelope(samples);
+	// Frames span two hops; stamp each at its center
+	const toSeconds = (frame: number) => Math.round((((frame + 1) * HOP) / SAMPLE_RATE) * 1000) / 1000;
+
+	const period = estimatePeriod(onset, bpmHint);
+	const beatFrames = trackBeats(onset, period);
+	const beats = beatFrames.map(toSeconds);
+
+	// Downbeat phase: the beat offset whose beats carry the most onset energy
+	let bestPhase = 0;
+	let bestStrength = -1;
+	for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+		let strength = 0;
+		let count = 0;
+		for (let i = phase; i < beatFrames.length; i += BEATS_PER_BAR) {
+			strength += onset[beatFrames[i]!]! + rms[beatFrames[i]!]!;
+			count++;
+		}
+		if (count > 0 && strength / count > bestStrength) {
+			bestStrength = strength / count;
+			bestPhase = phase;
+		}
+	}
+	const downbeats = beats.filter((_, i) => i >= bestPhase && (i - bestPhase) % BEATS_PER_BAR === 0);
+
+	const intervals = beats.slice(1).map((t, i) => t - beats[i]!).sort((a, b) => a - b);
+	const medianInterval = intervals[Math.floor(intervals.length / 2)];
+	const bpm = medianInterval ? Math.round(600 / medianInterval) / 10 : Math.round((60 * SAMPLE_RATE) / HOP / period);
+
+	const rmsAt = (from: number, to: number) => {
+		const a = Math.floor((from * SAMPLE_RATE) / HOP);
+		const b = Math.max(a + 1, Math.floor((to * SAMPLE_RATE) / HOP));
+		let sum = 0;
+		for (let f = a; f < b && f < rms.length; f++) sum += rms[f]!;
+		return sum / (b - a);
+	};
+
+	return {
+		durationSeconds: Math.round(durationSeconds * 100) / 100,
+		bpm,
+		beats,
+		downbeats,
+		sections: energySections(downbeats, rmsAt, durationSeconds),
+	};
+}
+
+/**
+ * Beat grid + energy sections for a track, from cache when possible.
+ * `sourcePath` decodes a local copy instead of fetching track.url (ingest
+ * already has the file on disk); the cache is still keyed to track.url.
+ * Throws when the audio can't be fetched or decoded (no FFmpeg, bad URL).
+ */
+export async function analyzeMusic(
+	track: Pick<MusicTrack, 'id' | 'url' | 'bpm'>,
+	logger?: Logger,
+	sourcePath?: string,
+): Promise<MusicAnalysis> {
+	const cached = getCachedMusicAnalysis(track);
+	if (cached) return cached;
+
+	const key = musicCacheKey(track);
+	const started = Date.now();
+	const samples = await decodeToPcm(sourcePath || track.url);
+	if (samples.length < SAMPLE_RATE * 2) throw new Error(`Track ${key} is too short to analyse`);
+
+	const analysis: MusicAnalysis = {
+		trackId: key,
+		sourceUrl: track.url,
+		analyzedAt: new Date().toISOString(),
+		...analyzePcm(samples, track.bpm),
+	};
+	saveMusicAnalysis(key, analysis);
+	logger?.info('[music-analysis] %s: %s bpm, %d beats, %d sections (%dms)',
+		key, analysis.bpm, analysis.beats.length, analysis.sections.length, Date.now() - started);
+	return analysis;
+}
@@ -0,0 +1,398 @@
+/**
+ * Music Library Store — persistent tracks with measurements, tags and licenses
+ *
+ * Every track the editor can score a video with. The curated Shotstack /
+ * Unminus tracks are built in; uploads and edits persist:
+ *   - supabase: music_tracks table + the `music` Storage bucket for uploaded
+ *               audio (see docs/music_library_schema.sql)
+ *   - file:     music-library.json + music-files/ on the persistent volume,
+ *               served through the signed /api/music-file proxy
+ *
+ * A stored record with a built-in's id overrides it, so re-tagging or
+ * archiving a built-in works like any other track.
+ *
+ * Ingest measures each upload locally: duration (ffprobe), integrated
+ * loudness (ffmpeg loudnorm, LUFS) and BPM + beat grid (music-analysis.ts,
+ * which also primes the beat cache for beat-sync).
+ *
+ * Usage comes from finished_videos.music_track_id; music.ts selectTrack()
+ * uses it to rotate away from recently published tracks.
+ *
+ * NOTE: Uses async execFile (not execSync) — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/music-library.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { persistentPath, readJsonFile, writeJsonFile } from '../../lib/json-file-store';
+import { supabaseAdmin } from '../../lib/supabase';
+import type { MusicLicense, MusicTrack } from './music';
+import { analyzeMusic } from './music-analysis';
+import { buildMusicFileProxyUrl } from './drive-proxy';
+
+// --- Types ---
+
+export interface MusicTrackUsage {
+	trackId: string;
+	uses: number;
+	lastUsedAt: string;
+}
+
+export interface MusicIngestInput {
+	buffer: Buffer;
+	filename: string;
+	contentType?: string;
+	title?: string;
+	artist?: string;
+	mood?: string[];
+	modes?: string[];
+	license: MusicLicense;
+	/** Public origin for file-backend proxy URLs (unused with Supabase Storage). */
+	appUrl: string;
+}
+
+interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+// --- Constants ---
+
+const LIBRARY_FILE_PATH = persistentPath('music-library.json');
+export const MUSIC_FILES_DIR = persistentPath('music-files');
+const STORAGE_BUCKET = 'music';
+
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.flac'];
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+/** Built-ins are CC0 / royalty-free with no attribution required. */
+const BUILT_IN_LICENSE: MusicLicense = { type: 'royalty-free' };
+
+// --- Built-in Tracks ---
+// These are hosted on reliable CDNs with direct download URLs.
+// Shotstack can fetch these directly during render.
+
+const BUILT_IN_TRACKS: MusicTrack[] = [
+	// === UPBEAT / ENERGETIC (Game Day, Quick Hit) ===
+	{
+		id: 'berlin',
+		title: 'Berlin',
+		artist: 'Unminus',
+		url: 'https://shotstack-assets.s3-ap-southeast-2.amazonaws.com/music/unminus/berlin.mp3',
+		durationSeconds: 120,
+		bpm: 128,
+		mood: ['upbeat', 'energetic', 'electronic'],
+		modes: ['game_day', 'quick_hit'],
+		source: 'shotstack-unminus',
+	},
+	{
+		id: 'ambisax',
+		title: 'Ambisax',
+		artist: 'Unminus',
+		url: 'https://shotstack-assets.s3.ap-southeast-2.amazonaws.com/music/unminus/ambisax.mp3',
+		durationSeconds: 90,
+		bpm: 110,
+		mood: ['smooth', 'chill', 'saxophone'],
+		modes: ['our_story', 'showcase'],
+		source: 'shotstack-unminus',
+	},
+
+	// === Shotstack demo assets (known working URLs) ===
+	{
+		id: 'motions',
+		title: 'Motions',
+		artist: 'Shotstack',
+		url: 'https://shotstack-assets.s3-ap-southeast-2.amazonaws.com/music/motions.mp3',
+		durationSeconds: 150,
+		bpm: 120,
+		mood: ['upbeat', 'motivational', 'modern'],
+		modes: ['game_day', 'quick_hit', 'showcase'],
+		source: 'shotstack',
+	},
+	{
+		id: 'dreams',
+		title: 'Dreams',
+		artist: 'Shotstack',
+		url: 'https://shotstack-assets.s3-ap-southeast-2.amazonaws.com/music/dreams.mp3',
+		durationSeconds: 180,
+		bpm: 85,
+		mood: ['warm', 'emotional', 'cinematic'],
+		modes: ['our_story', 'showcase'],
+		source: 'shotstack',
+	},
+];
+
+
+// --- Store ---
+
+function readLibraryFile(): MusicTrack[] {
+	return readJsonFile<MusicTrack[]>(LIBRARY_FILE_PATH, [], 'music-library');
+}
+
+function writeLibraryFile(tracks: MusicTrack[]): void {
+	writeJsonFile(LIBRARY_FILE_PATH, tracks, { pretty: true });
+}
+
+async function readStoredTracks(): Promise<MusicTrack[]> {
+	if (supabaseAdmin) {
+		const { data, error } = await supabaseAdmin.from('music_tracks').select('track');
+		if (error) throw new Error(`music_tracks read failed: ${error.message}`);
+		return (data || []).map(row => row.track as MusicTrack);
+	}
+	return readLibraryFile();
+}
+
+/** Upsert one track record (full replace). */
+export async function saveMusicTrack(track: MusicTrack): Promise<MusicTrack> {
+	const now = new Date().toISOString();
+	const record: MusicTrack = { ...track, createdAt: track.createdAt || now, updatedAt: now };
+
+	if (supabaseAdmin) {
+		const { error } = await supabaseAdmin.from('music_tracks').upsert({
+			id: record.id,
+			track: record,
+			archived: record.archived === true,
+			created_at: record.createdAt,
+			updated_at: record.updatedAt,
+		});
+		if (error) throw new Error(`music_tracks upsert failed: ${error.message}`);
+		return record;
+	}
+
+	const tracks = readLibraryFile().filter(t => t.id !== record.id);
+	tracks.push(record);
+	writeLibraryFile(tracks);
+	return record;
+}
+
+/**
+ * Every track: built-ins overlaid with stored records by id. Archived
+ * tracks are left out unless asked for.
+ */
+export async function listMusicTracks(options: { mode?: string; includeArchived?: boolean } = {}): Promise<MusicTrack[]> {
+	const byId = new Map<string, MusicTrack>();
+	for (const track of BUILT_IN_TRACKS) byId.set(track.id, { ...track, license: BUILT_IN_LICENSE });
+	for (const track of await readStoredTracks()) byId.set(track.id, track);
+
+	return [...byId.values()].filter(t =>
+		(options.includeArchived || !t.archived) && (!options.mode || t.modes.includes(options.mode)));
+}
+
+export async function getMusicTrack(id: string): Promise<MusicTrack | null> {
+	return (await listMusicTracks({ includeArchived: true })).find(t => t.id === id) ?? null;
+}
+
+/** Library track whose URL is `url` — resolves a plan's musicUrl to a track id. */
+export async function findMusicTrackByUrl(url: string): Promise<MusicTrack | null> {
+	return (await listMusicTracks({ includeArchived: true })).find(t => t.url === url) ?? null;
+}
+
+/** Edit tags, titles or license. id, url and measurements are not editable. */
+export async function updateMusicTrack(
+	id: string,
+	patch: Partial<Pick<MusicTrack, 'title' | 'artist' | 'mood' | 'modes' | 'bpm' | 'license' | 'archived'>>,
+): Promise<MusicTrack | null> {
+	const existing = await getMusicTrack(id);
+	if (!existing) return null;
+	return saveMusicTrack({
+		...existing,
+		...patch,
+		mood: patch.mood ? normalizeTags(patch.mood) : existing.mood,
+		modes: patch.modes ? normalizeTags(patch.modes) : existing.modes,
+	});
+}
+
+/** A license is usable until its expiry date passes (no expiry = perpetual). */
+export function isLicenseActive(track: MusicTrack, at = new Date()): boolean {
+	if (!track.license?.expiresAt) return true;
+	return new Date(track.license.expiresAt).getTime() > at.getTime();
+}
+
+// --- Usage ---
+
+/**
+ * Per-track use counts from finished_videos in the last `days` days. Empty
+ * without Supabase — no finished_videos rows exist in file mode.
+ */
+export async function getRecentMusicUsage(days = 30): Promise<Map<string, MusicTrackUsage>> {
+	const usage = new Map<string, MusicTrackUsage>();
+	if (!supabaseAdmin) return usage;
+
+	const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+	const { data, error } = await supabaseAdmin
+		.from('finished_videos')
+		.select('music_track_id, created_at')
+		.not('music_track_id', 'is', null)
+		.gte('created_at', since);
+	if (error) throw new Error(`finished_videos read failed: ${error.message}`);
+
+	for (const row of data || []) {
+		const trackId = row.music_track_id as string;
+		const createdAt = row.created_at as string;
+		const entry = usage.get(trackId);
+		if (!entry) {
+			usage.set(trackId, { trackId, uses: 1, lastUsedAt: createdAt });
+		} else {
+			entry.uses++;
+			if (createdAt > entry.lastUsedAt) entry.lastUsedAt = createdAt;
+		}
+	}
+	return usage;
+}
+
+/** finished_videos.music_track_id for a rendered musicUrl (null for no music / unknown URLs). */
+export async function musicTrackIdForUrl(url: string | null | undefined): Promise<string | null> {
+	if (!url) return null;
+	try {
+		return (await findMusicTrackByUrl(url))?.id ?? null;
+	} catch {
+		return null;
+	}
+}
+
+// --- Measurement ---
+
+function run(file: string, args: string[], timeoutMs = 120_000): Promise<{ stdout: string; stderr: string }> {
+	return new Promise((resolve, reject) => {
+		execFile(file, args, { timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) reject(new Error(stderr || error.message));
+			else resolve({ stdout, stderr });
+		});
+	});
+}
+
+async function probeDuration(filePath: string): Promise<number> {
+	const { stdout } = await run('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', filePath]);
+	const seconds = parseFloat(stdout.trim());
+	if (!Number.isFinite(seconds) || seconds <= 0) throw new Error('Not a readable audio file');
+	return Math.round(seconds * 10) / 10;
+}
+
+/** Integrated loudness (LUFS) from ffmpeg's loudnorm analysis pass. */
+async function measureLoudness(filePath: string): Promise<number | undefined> {
+	const { stderr } = await run('ffmpeg', ['-hide_banner', '-nostats', '-i', filePath, '-af', 'loudnorm=print_format=json', '-f', 'null', '-']);
+	const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+	try {
+		const value = parseFloat(JSON.parse(json).input_i);
+		return Number.isFinite(value) ? Math.round(value * 10) / 10 : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// --- Ingest ---
+
+function normalizeTags(tags: string[]): string[] {
+	return [...new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+function slugify(text: string): string {
+	return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'track';
+}
+
+/**
+ * Store an uploaded audio file, measure it and add it to the library.
+ * Duration is required (an unreadable file is rejected); loudness and BPM
+ * are best-effort.
+ */
+export async function ingestMusicFile(input: MusicIngestInput, logger?: Logger): Promise<MusicTrack> {
+	const ext = path.extname(input.filename).toLowerCase();
+	if (!AUDIO_EXTENSIONS.includes(ext)) {
+		throw new Error(`Unsupported audio type "${ext || 'none'}" — use ${AUDIO_EXTENSIONS.join(', ')}`);
+	}
+	if (input.buffer.byteLength > MAX_UPLOAD_BYTES) {
+		throw new Error(`File is ${(input.buffer.byteLength / 1024 / 1024).toFixed(1)}MB — the limit is ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`);
+	}
+	if (!input.license?.type) throw new Error('license.type is required');
+
+	const title = input.title?.trim() || path.basename(input.filename, ext);
+	const id = `mt_${slugify(title)}_${Date.now().toString(36)}`;
+	const fileName = `${id}${ext}`;
+	const tmpPath = path.join(os.tmpdir(), fileName);
+	fs.writeFileSync(tmpPath, input.buffer);
+
+	try {
+		const durationSeconds = await probeDuration(tmpPath);
+		const loudnessLufs = await measureLoudness(tmpPath).catch((err) => {
+			logger?.warn?.('[music-library] Loudness measurement failed for %s: %s', fileName, String(err));
+			return undefined;
+		});
+
+		// Store the audio where renderers can fetch it
+		let url: string;
+		let storagePath: string;
+		if (supabaseAdmin) {
+			storagePath = `tracks/${fileName}`;
+			const { error } = await supabaseAdmin.storage.from(STORAGE_BUCKET).upload(storagePath, input.buffer, {
+				contentType: input.contentType || 'audio/mpeg',
+				upsert: true,
+			});
+			if (error) throw new Error(`Storage upload failed: ${error.message}`);
+			url = supabaseAdmin.storage.from(STORAGE_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+		} else {
+			fs.mkdirSync(MUSIC_FILES_DIR, { recursive: true });
+			storagePath = path.join(MUSIC_FILES_DIR, fileName);
+			fs.copyFileSync(tmpPath, storagePath);
+			url = buildMusicFileProxyUrl(input.appUrl, fileName);
+		}
+
+		let track: MusicTrack = {
+			id,
+			title,
+			artist: input.artist?.trim() || 'Unknown',
+			url,
+			durationSeconds,
+			loudnessLufs,
+			mood: normalizeTags(input.mood || []),
+			modes: normalizeTags(input.modes || []),
+			source: 'upload',
+			storagePath,
+			license: input.license,
+		};
+
+		// BPM comes from the beat grid — analysing now also caches it for beat-sync
+		try {
+			const analysis = await analyzeMusic(track, logger, tmpPath);
+			track = { ...track, bpm: Math.round(analysis.bpm) };
+		} catch (err) {
+			logger?.warn?.('[music-library] Beat analysis failed for %s: %s', fileName, String(err));
+		}
+
+		const saved = await saveMusicTrack(track);
+		logger?.info('[music-library] Ingested %s: %ss, %s bpm, %s LUFS, license=%s',
+			id, durationSeconds, saved.bpm ?? '?', loudnessLufs ?? '?', input.license.type);
+		return saved;
+	} finally {
+		fs.rmSync(tmpPath, { force: true });
+	}
+}
+
+/**
+ * Remove a track. Uploaded tracks that no finished video has used are
+ * deleted with their audio; anything else (built-ins, used uploads) is
+ * archived so past renders keep a resolvable track id.
+ */
+export async function removeMusicTrack(id: string): Promise<'deleted' | 'archived' | null> {
+	const track = await getMusicTrack(id);
+	if (!track) return null;
+
+	const used = (await getRecentMusicUsage(3650)).has(id);
+	if (track.source !== 'upload' || used) {
+		await saveMusicTrack({ ...track, archived: true });
+		return 'archived';
+	}
+
+	if (supabaseAdmin) {
+		if (track.storagePath) await supabaseAdmin.storage.from(STORAGE_BUCKET).remove([track.storagePath]);
+		const { error } = await supabaseAdmin.from('music_tracks').delete().eq('id', id);
+		if (error) throw new Error(`music_tracks delete failed: ${error.message}`);
+	} else {
+		if (track.storagePath) fs.rmSync(track.storagePath, { force: true });
+		writeLibraryFile(readLibraryFile().filter(t => t.id !== id));
+	}
+	return 'deleted';
+}
@@ -1,11 +1,12 @@
 /**
  * Music Library for Video Editor
  *
- * Provides curated royalty-free music tracks organized by mood/mode,
- * with direct URLs that Shotstack can fetch during rendering.
- *
- * All tracks are CC0 / royalty-free / no-attribution-required.
- * Sources: Shotstack sample library, Unminus, public domain archives.
+ * Picks the soundtrack for an edit from the music library store
+ * (music-library.ts): built-in royalty-free tracks plus uploads, each
+ * tagged by mood/mode with direct URLs that Shotstack can fetch during
+ * rendering. Tracks whose license has expired are never selected, and
+ * tracks recently published in finished_videos are rotated out in favour
+ * of fresher ones.
  *
  * NOTE: Pixabay has royalty-free music but NO public API for music search.
  * Their API only covers images and videos. Music must be manually curated.
@@ -13,8 +14,19 @@
  * File: src/agent/video-editor/music.ts
  */
 
+import { getRecentMusicUsage, isLicenseActive, listMusicTracks, type MusicTrackUsage } from './music-library';
+
 // --- Types ---
 
+export interface MusicLicense {
+	type: 'cc0' | 'royalty-free' | 'licensed' | 'custom';
+	/** Credit line to publish with the video, when the license requires one */
+	attribution?: string;
+	/** ISO date after which the track must not be used in new renders */
+	expiresAt?: string;
+	notes?: string;
+}
+
 export interface MusicTrack {
 	id: string;
 	title: string;
@@ -24,7 +36,13 @@ export interface MusicTrack {
 	bpm?: number;
 	mood: string[];          // e.g., ['upbeat', 'energetic']
 	modes: string[];         // Which editing modes this fits: game_day, our_story, etc.
-	source: string;          // Where it came from: 'shotstack', 'unminus', 'custom', etc.
+	source: string;          // Where it came from: 'shotstack', 'unminus', 'upload', 'custom', etc.
+	loudnessLufs?: number;   // Integrated loudness, measured at ingest
+	license?: MusicLicense;
+	storagePath?: string;    // Uploaded audio: Storage object path or file on the persistent volume
+	archived?: boolean;      // Hidden from selection; kept so past renders still resolve
+	createdAt?: string;
+	updatedAt?: string;
 }
 
 export interface MusicSelection {
@@ -33,60 +51,6 @@ export interface MusicSelection {
 	effect: 'fadeIn' | 'fadeOut' | 'fadeInFadeOut';
 }
 
-// --- Curated Track Library ---
-// These are hosted on reliable CDNs with direct download URLs.
-// Shotstack can fetch these directly during render.
-
-const MUSIC_LIBRARY: MusicTrack[] = [
-	// === UPBEAT / ENERGETIC (Game Day, Quick Hit) ===
-	{
-		id: 'berlin',
-		title: 'Berlin',
-		artist: 'Unminus',
-		url: 'https://shotstack-assets.s3-ap-southeast-2.amazonaws.com/music/unminus/berlin.mp3',
-		durationSeconds: 120,
-		bpm: 128,
-		mood: ['upbeat', 'energetic', 'electronic'],
-		modes: ['game_day', 'quick_hit'],
-		source: 'shotstack-unminus',
-	},
-	{
-		id: 'ambisax',
-		title: 'Ambisax',
-		artist: 'Unminus',
-		url: 'https://shotstack-assets.s3.ap-southeast-2.amazonaws.com/music/unminus/ambisax.mp3',
-		durationSeconds: 90,
-		bpm: 110,
-		mood: ['smooth', 'chill', 'saxophone'],
-		modes: ['our_story', 'showcase'],
-		source: 'shotstack-unminus',
-	},
-
-	// === Shotstack demo assets (known working URLs) ===
-	{
-		id: 'motions',
-		title: 'Motions',
-		artist: 'Shotstack',
-		url: 'https://shotstack-assets.s3-ap-southeast-2.amazonaws.com/music/motions.mp3',
-		durationSeconds: 150,
-		bpm: 120,
-		mood: ['upbeat', 'motivational', 'modern'],
-		modes: ['game_day', 'quick_hit', 'showcase'],
-		source: 'shotstack',
-	},
-	{
-		id: 'dreams',
-		title: 'Dreams',
-		artist: 'Shotstack',
-		url: 'https://shotstack-assets.s3-ap-southeast-2.amazonaws.com/music/dreams.mp3',
-		durationSeconds: 180,
-		bpm: 85,
-		mood: ['warm', 'emotional', 'cinematic'],
-		modes: ['our_story', 'showcase'],
-		source: 'shotstack',
-	},
-];
-
 // --- Mode-to-mood mapping ---
 // Defines which moods work best for each editing mode
 
@@ -97,6 +61,9 @@ const MODE_MOOD_PREFERENCES: Record<string, string[]> = {
 	showcase:  ['cinematic', 'motivational', 'warm', 'emotional', 'smooth'],
 };
 
+// Tracks published within this window are rotated to the back of the queue
+const RECENT_USE_DAYS = 30;
+
 // --- Mode-to-volume mapping ---
 // How loud music should be relative to video audio per mode
 
@@ -109,62 +76,52 @@ const MODE_VOLUME: Record<string, number> = {
 
 // --- Public API ---
 
-/**
- * Get all available music tracks
- */
-export function getAllTracks(): MusicTrack[] {
-	return [...MUSIC_LIBRARY];
-}
-
-/**
- * Get tracks suitable for a specific editing mode
- */
-export function getTracksForMode(mode: string): MusicTrack[] {
-	return MUSIC_LIBRARY.filter(t => t.modes.includes(mode));
-}
-
 /**
  * Select the best track for a given mode and optional mood hint.
+ * Only tracks with an active license are eligible. Among them, a mood-hint
+ * match narrows the field; then tracks not used in the last
+ * RECENT_USE_DAYS win, then the mode's mood preferences, then whichever
+ * was used longest ago.
  * Returns null if no tracks match (caller should skip music).
  */
-export function selectTrack(
+export async function selectTrack(
 	mode: string,
 	moodHint?: string,
-): MusicSelection | null {
-	const candidates = getTracksForMode(mode);
+): Promise<MusicSelection | null> {
+	let candidates = (await listMusicTracks({ mode })).filter(t => isLicenseActive(t));
 	if (candidates.length === 0) return null;
 
 	// If mood hint provided, prefer tracks matching that mood
 	if (moodHint) {
 		const moodLower = moodHint.toLowerCase();
-		const moodMatch = candidates.find(t =>
+		const moodMatches = candidates.filter(t =>
 			t.mood.some(m => moodLower.includes(m))
 		);
-		if (moodMatch) {
-			return {
-				track: moodMatch,
-				volume: MODE_VOLUME[mode] ?? 0.3,
-				effect: 'fadeInFadeOut',
-			};
-		}
+		if (moodMatches.length > 0) candidates = moodMatches;
 	}
 
-	// Otherwise prefer tracks whose mood matches the mode's preferences
+	// Usage is a preference, not a requirement — selection still works if it can't be read
+	const usage = await getRecentMusicUsage(RECENT_USE_DAYS).catch((err) => {
+		console.warn('[music] Recent music usage unavailable:', err);
+		return new Map<string, MusicTrackUsage>();
+	});
+
+	// Fresh tracks first, then the mode's mood preferences, then least recently used
 	const preferredMoods = MODE_MOOD_PREFERENCES[mode] || [];
-	let bestTrack = candidates[0]!;
-	let bestScore = 0;
-
-	for (const track of candidates) {
-		const score = track.mood.reduce((s, m) =>
-			s + (preferredMoods.includes(m) ? 1 : 0), 0);
-		if (score > bestScore) {
-			bestScore = score;
-			bestTrack = track;
-		}
-	}
+	const moodScore = (track: MusicTrack) => track.mood.reduce((s, m) =>
+		s + (preferredMoods.includes(m) ? 1 : 0), 0);
+
+	const ranked = [...candidates].sort((a, b) => {
+		const aUsed = usage.get(a.id);
+		const bUsed = usage.get(b.id);
+		if (!aUsed !== !bUsed) return aUsed ? 1 : -1;
+		const byMood = moodScore(b) - moodScore(a);
+		if (byMood !== 0) return byMood;
+		return (aUsed?.lastUsedAt || '').localeCompare(bUsed?.lastUsedAt || '');
+	});
 
 	return {
-		track: bestTrack,
+		track: ranked[0]!,
 		volume: MODE_VOLUME[mode] ?? 0.3,
 		effect: 'fadeInFadeOut',
 	};
@@ -195,14 +152,6 @@ export function createCustomMusicSelection(
 	};
 }
 
-/**
- * Add a custom track to the in-memory library (for the session).
- * Useful for uploading tracks to Google Drive and using their proxy URLs.
- */
-export function addCustomTrack(track: MusicTrack): void {
-	MUSIC_LIBRARY.push(track);
-}
-
 /**
  * Get the recommended volume for a mode
  */
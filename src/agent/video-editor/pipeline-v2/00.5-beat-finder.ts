@@ -28,6 +28,7 @@
 import { generateText } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
 import type { CatalogEntry } from '../google-drive';
+import { getCatalogStore } from '../catalog-store';
 import type { PipelineInput, StepLogger } from './types';
 import { EDITOR_PERSONA } from './editor-persona';
 
@@ -208,6 +209,8 @@ Tag the narrative beats in THIS video that serve THIS BRIEF. Return JSON only.`;
  * Orchestrator helper — run Beat Finder for every selected video in parallel.
  * Mutates `input.catalog` in place, attaching `narrativeBeats` to each entry
  * that successfully produced beats. Downstream steps read those mutated entries.
+ * Beats are also written back to the catalog store (best-effort) so the
+ * latest set and its history survive the render.
  */
 export async function findBeatsForAll(
 	input: PipelineInput,
@@ -224,6 +227,11 @@ export async function findBeatsForAll(
 		const beats = await findBeats(v.name, entry, refinedBrief, logger);
 		if (beats) {
 			entry.narrativeBeats = beats;
+			try {
+				await getCatalogStore().update(v.id, { narrativeBeats: beats }, { changedBy: 'beat-finder' });
+			} catch (err) {
+				logger.warn('[beat-finder] Failed to persist beats for %s: %s', v.name, String(err));
+			}
 			const count =
 				beats.setup.length + beats.action.length + beats.resolution.length +
 				beats.quiet.length + beats.community.length;
@@ -10,6 +10,9 @@
  *   - trimStart ≈ peakTime − 3 (captures setup BEFORE the moment)
  *   - Never slow-mo on a hook (save slow-mo for the climax)
  *
+ * When the soundtrack has a beat grid (input.musicAnalysis), the hook's
+ * end — the first cut of the video — is snapped to a beat.
+ *
  * File: src/agent/video-editor/pipeline-v2/02-hook-selector.ts
  */
 
@@ -19,6 +22,7 @@ import { formatSegmentTimelineForPrompt } from '../scene-analyzer';
 import type { PipelineInput, StoryArc, HookClip, StepLogger } from './types';
 import { EDITOR_PERSONA } from './editor-persona';
 import { priorUsedRegions, isTimestampUsed, formatPriorUsage } from './usage-context';
+import { snapClipsToBeats } from '../beat-sync';
 
 const HOOK_SELECTOR_SYSTEM_PROMPT = `
 ${EDITOR_PERSONA}
@@ -240,5 +244,18 @@ Pick the hook clip. Apply the STORY HOOK ARC RULE. If timestamp scores are provi
 	hook.fileId = arc.setupSourceId;
 	hook.filename = setupVideo.name;
 
+	// Land the first cut on the beat. Never shrinks the hook below 7s.
+	if (input.musicAnalysis) {
+		const snapped = snapClipsToBeats([hook], input.musicAnalysis, {
+			startAt: 0,
+			minDuration: 7,
+			maxSourceEnd: () => (totalDurSec > 0 ? totalDurSec : undefined),
+		});
+		for (const adj of snapped.adjustments) {
+			logger.info('[hook-selector] Beat sync: hook %s %ss -> %ss', adj.kind, adj.before, adj.after);
+		}
+		hook = snapped.clips[0]!;
+	}
+
 	return hook;
 }
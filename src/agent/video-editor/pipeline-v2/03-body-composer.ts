@@ -13,6 +13,9 @@
  * Also enforces clip deduplication: no two clips from the same source
  * can have overlapping time regions (must have ≥3s separation).
  *
+ * With a soundtrack beat grid (input.musicAnalysis), body cuts and slow-mo
+ * peaks are snapped to beats as the last enforcement pass.
+ *
  * File: src/agent/video-editor/pipeline-v2/03-body-composer.ts
  */
 
@@ -22,6 +25,7 @@ import { formatSegmentTimelineForPrompt } from '../scene-analyzer';
 import type { PipelineInput, StoryArc, HookClip, BodyClips, ClipPick, StepLogger } from './types';
 import { EDITOR_PERSONA } from './editor-persona';
 import { priorUsedRegions, isTimestampUsed, formatPriorUsage } from './usage-context';
+import { snapClipsToBeats } from '../beat-sync';
 
 const BODY_COMPOSER_SYSTEM_PROMPT = `
 ${EDITOR_PERSONA}
@@ -298,5 +302,21 @@ Compose the body clips. Return JSON only.`;
 		}
 	}
 
+	// 5. Beat sync: body starts where the hook ends on the timeline. Runs
+	//    after the trim shifts above so it sees final positions.
+	if (input.musicAnalysis) {
+		const snapped = snapClipsToBeats(body.clips, input.musicAnalysis, {
+			startAt: hook.duration / (hook.speed || 1),
+			maxSourceEnd: (i) => {
+				const meta = input.videoMetadata.find(v => v.id === body.clips[i]!.fileId);
+				return meta?.duration ? parseInt(meta.duration) / 1000 : undefined;
+			},
+		});
+		for (const adj of snapped.adjustments) {
+			logger.info('[body-composer] Beat sync: clip %d %s %ss -> %ss', adj.clipIndex, adj.kind, adj.before, adj.after);
+		}
+		body.clips = snapped.clips;
+	}
+
 	return body;
 }
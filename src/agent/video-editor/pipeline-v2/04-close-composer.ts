@@ -8,6 +8,9 @@
  * This step has full timeline context (knows exact seconds each clip
  * lives at) so it can place overlays precisely without guessing.
  *
+ * With a soundtrack beat grid (input.musicAnalysis), the cut between close
+ * clips is snapped to a beat; the video's final frame is left alone.
+ *
  * File: src/agent/video-editor/pipeline-v2/04-close-composer.ts
  */
 
@@ -16,6 +19,7 @@ import { anthropic } from '@ai-sdk/anthropic';
 import type { PipelineInput, StoryArc, HookClip, BodyClips, ClosePlan, StepLogger } from './types';
 import { EDITOR_PERSONA } from './editor-persona';
 import { priorUsedRegions } from './usage-context';
+import { snapClipsToBeats } from '../beat-sync';
 
 const CLOSE_COMPOSER_SYSTEM_PROMPT = `
 ${EDITOR_PERSONA}
@@ -251,5 +255,21 @@ Return JSON only.`;
 		return o;
 	});
 
+	// Beat sync: close clips pick up where hook + body leave off.
+	if (input.musicAnalysis) {
+		const snapped = snapClipsToBeats(close.closeClips, input.musicAnalysis, {
+			startAt: currentDuration,
+			skipFinalCut: true,
+			maxSourceEnd: (i) => {
+				const meta = input.videoMetadata.find(v => v.id === close.closeClips[i]!.fileId);
+				return meta?.duration ? parseInt(meta.duration) / 1000 : undefined;
+			},
+		});
+		for (const adj of snapped.adjustments) {
+			logger.info('[close-composer] Beat sync: close clip %d %s %ss -> %ss', adj.clipIndex, adj.kind, adj.before, adj.after);
+		}
+		close.closeClips = snapped.clips;
+	}
+
 	return close;
 }
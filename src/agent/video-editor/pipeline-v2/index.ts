@@ -65,6 +65,8 @@ import { planStoryArc } from './01-story-planner';
 import { selectHook } from './02-hook-selector';
 import { composeBody } from './03-body-composer';
 import { composeClose } from './04-close-composer';
+import { trackForPlan } from '../beat-sync';
+import { analyzeMusic } from '../music-analysis';
 
 export type { PipelineInput, EditPlanV2, StepLogger } from './types';
 
@@ -140,6 +142,34 @@ Avoid: ${brief.avoid.join('; ')}`;
 		arc.responseSourceId,
 	);
 
+	// ── Soundtrack beat grid ───────────────────────────────────────────
+	// The mode (and so the music tier) is fixed once the arc exists. If the
+	// video will carry music, analyse that track now so hook/body/close can
+	// snap cuts to its beats. Analysis failure (no FFmpeg, dead URL) only
+	// costs the sync — the plan is built unsynced.
+	const musicTier = arc.mode === 'our_story' || arc.mode === 'showcase' ? 2 : 1;
+	const musicTrack = await trackForPlan(
+		{ musicUrl: input.musicUrl, musicTier, musicDirection: arc.musicDirection },
+		arc.mode,
+		input.platform,
+	);
+	if (musicTrack) {
+		const musicStart = Date.now();
+		try {
+			input.musicAnalysis = await analyzeMusic(musicTrack, logger);
+			logger.info(
+				'[pipeline-v2] Beat grid (%dms): %s — %s bpm, %d beats',
+				Date.now() - musicStart,
+				musicTrack.id,
+				input.musicAnalysis.bpm,
+				input.musicAnalysis.beats.length,
+			);
+		} catch (err) {
+			logger.warn('[pipeline-v2] Music analysis failed for %s (%s) — cuts will not be beat-synced', musicTrack.id, String(err));
+		}
+		stepDurationsMs.musicAnalysis = Date.now() - musicStart;
+	}
+
 	// ── Step 2: Hook Selector ──────────────────────────────────────────
 	logger.info('[pipeline-v2] Step 2/4: Selecting narrative hook');
 	const step2Start = Date.now();
@@ -282,7 +312,6 @@ Avoid: ${brief.avoid.join('; ')}`;
 		arc.mode === 'our_story' ? 'crossfade' :
 		arc.mode === 'quick_hit' ? 'fast_cuts' :
 		'minimal';
-	const musicTier = arc.mode === 'our_story' || arc.mode === 'showcase' ? 2 : 1;
 
 	return {
 		mode: arc.mode,
@@ -292,6 +321,8 @@ Avoid: ${brief.avoid.join('; ')}`;
 		transitions,
 		musicTier,
 		musicDirection: arc.musicDirection,
+		// Pin the synced track so the render doesn't pick a different one
+		...(input.musicAnalysis && musicTrack ? { musicUrl: musicTrack.url, musicTrackId: musicTrack.id } : {}),
 		_v2Meta: {
 			storyArc: arc,
 			generatedAt: new Date().toISOString(),
@@ -33,6 +33,7 @@
 
 import type { CatalogEntry } from '../google-drive';
 import type { VideoUsageSummary } from '../usage-tracker';
+import type { MusicAnalysis } from '../music-analysis';
 
 // --- Pipeline input (shared by all steps) ---
 
@@ -53,6 +54,14 @@ export interface PipelineInput {
 	 * of "every video has the same edit cuts."
 	 */
 	usageSummaries?: VideoUsageSummary[];
+	/** User-provided soundtrack URL — takes precedence over library selection */
+	musicUrl?: string;
+	/**
+	 * Beat grid of the soundtrack the plan will render with. Set by the
+	 * orchestrator after the story arc fixes the mode; when present the
+	 * hook/body/close steps snap cuts and slow-mo peaks to beats.
+	 */
+	musicAnalysis?: MusicAnalysis;
 }
 
 export interface VideoMeta {
@@ -159,6 +168,9 @@ export interface EditPlanV2 {
 	transitions: string;
 	musicTier?: number;
 	musicDirection: string;
+	/** Track the cuts were beat-synced to — the render uses the same one */
+	musicUrl?: string;
+	musicTrackId?: string;
 	/** Provenance metadata — which step produced what, for debugging */
 	_v2Meta?: {
 		storyArc: StoryArc;
@@ -10,7 +10,14 @@
  */
 
 import { downloadVideo } from './google-drive';
-import { buildCropFilter, type TargetAspect } from './smart-crop';
+import {
+	buildCropFilter,
+	buildTrackedCropFilter,
+	samplesFromFrameDifference,
+	smoothCropPath,
+	type CropPathKeyframe,
+	type TargetAspect,
+} from './smart-crop';
 
 // --- Types ---
 
@@ -26,6 +33,8 @@ export interface PreprocessClipConfig {
 	subjectPosition?: string;           // Where subject sits in frame — from GPT-4o catalog (e.g., 'bottom-center').
 	sourceWidth?: number;               // Source dimensions if already known (skips ffprobe).
 	sourceHeight?: number;
+	cropPath?: CropPathKeyframe[];      // Tracked subject path (from catalog timestampScores) — moves the crop over the clip.
+	trackSubject?: boolean;             // No cropPath? Derive one from frame-difference motion on the downloaded clip.
 }
 
 export interface PreprocessedClip {
@@ -52,8 +61,18 @@ function buildVideoFilter(config: PreprocessClipConfig): string {
 	const filters: string[] = [];
 
 	// Smart crop — uses GPT-4o subjectPosition to keep players in frame when
-	// reframing from 16:9 source to vertical/square targets.
-	if (config.targetAspect && config.sourceWidth && config.sourceHeight) {
+	// reframing from 16:9 source to vertical/square targets. A tracked crop
+	// path, when present, slides the window to follow the subject instead.
+	if (config.targetAspect && config.sourceWidth && config.sourceHeight && config.cropPath && config.cropPath.length >= 2) {
+		filters.push(
+			buildTrackedCropFilter(
+				config.sourceWidth,
+				config.sourceHeight,
+				config.targetAspect,
+				config.cropPath,
+			),
+		);
+	} else if (config.targetAspect && config.sourceWidth && config.sourceHeight) {
 		filters.push(
 			buildCropFilter(
 				config.sourceWidth,
@@ -201,6 +220,16 @@ export async function preprocessClip(
 		}
 	}
 
+	// 1c. Subject tracking fallback — the catalog didn't give us a path, so
+	// follow whatever is moving in the trim window.
+	if (effectiveConfig.targetAspect && effectiveConfig.trackSubject && !effectiveConfig.cropPath) {
+		const samples = await samplesFromFrameDifference(rawPath, config.trimStart, config.duration);
+		const cropPath = smoothCropPath(samples, config.duration);
+		if (cropPath.length > 0) effectiveConfig = { ...effectiveConfig, cropPath };
+		logger?.info('[preprocess] Clip %s: motion tracking → %d samples, %d keyframes',
+			config.filename || config.fileId, samples.length, cropPath.length);
+	}
+
 	// 2. Build FFmpeg command
 	const videoFilter = buildVideoFilter(effectiveConfig);
 	const audioFilter = buildAudioFilter(speed);
@@ -7,8 +7,9 @@
  * Layers (back to front):
  *   1. Background color fill (prevents black frames)
  *   2. Video clips with transitions + Ken Burns effects
- *   3. Text overlays with mode-specific styling
- *   4. Audio soundtrack with volume interpolation
+ *   3. Burned-in word captions (our_story + interview clips)
+ *   4. Text overlays with mode-specific styling
+ *   5. Audio soundtrack with fades and the ducking envelope
  */
 
 import React from 'react';
@@ -24,6 +25,7 @@ import { TransitionSeries, springTiming } from '@remotion/transitions';
 import type { CLCVideoProps } from './types';
 import { VideoClip, getEffectForClip } from './VideoClip';
 import { TextOverlay } from './TextOverlay';
+import { TikTokCaptions } from './TikTokCaptions';
 import { getRemotionTransition } from './transitions';
 
 export const CLCVideo: React.FC<CLCVideoProps> = ({
@@ -35,8 +37,12 @@ export const CLCVideo: React.FC<CLCVideoProps> = ({
 	textOverlays,
 	musicSrc,
 	musicVolume = 0.3,
+	musicEnvelope,
 	bgColor,
 	transitionDurationFrames,
+	captions,
+	safeArea,
+	textScale,
 }) => {
 	const { durationInFrames, width: compWidth, height: compHeight } = useVideoConfig();
 
@@ -99,6 +105,8 @@ export const CLCVideo: React.FC<CLCVideoProps> = ({
 							cropX={clip.cropX}
 							cropY={clip.cropY}
 							zoom={clip.zoom}
+							cropKeyframes={clip.cropKeyframes}
+							volume={clip.volume}
 							clipLengthFrames={clipFrames}
 						/>
 					</TransitionSeries.Sequence>,
@@ -127,7 +135,16 @@ export const CLCVideo: React.FC<CLCVideoProps> = ({
 			{/* Layer 2: Video clips with transitions */}
 			<TransitionSeries>{clipTimeline}</TransitionSeries>
 
-			{/* Layer 3: Text overlays */}
+			{/* Layer 3: Word captions — scaled off 1080p so square/landscape stay proportional */}
+			{captions && captions.length > 0 && (
+				<TikTokCaptions
+					captions={captions}
+					fontSize={Math.round(64 * Math.min(compWidth, compHeight) / 1080)}
+					bottomOffset={Math.round(compHeight * (safeArea ? safeArea.bottom / 100 : 0.1))}
+				/>
+			)}
+
+			{/* Layer 4: Text overlays */}
 			{textOverlays.map((overlay, index) => (
 				<Sequence
 					key={`text-${index}`}
@@ -144,15 +161,26 @@ export const CLCVideo: React.FC<CLCVideoProps> = ({
 						isFirst={overlay.isFirst}
 						isLast={overlay.isLast}
 						animation={overlay.animation}
+						safeArea={safeArea}
+						textScale={textScale}
 					/>
 				</Sequence>
 			))}
 
-			{/* Layer 4: Music soundtrack with fade in/out */}
+			{/* Layer 5: Music soundtrack with fade in/out, ducked under speech */}
 			{musicSrc && (
 				<Audio
 					src={musicSrc}
 					volume={(f) => {
+						// Level: the ducking envelope when there is one, else flat musicVolume
+						const level = musicEnvelope && musicEnvelope.length >= 2
+							? interpolate(
+								f,
+								musicEnvelope.map(k => k.frame),
+								musicEnvelope.map(k => k.volume),
+								{ extrapolateLeft: 'clamp', extrapolateRight: 'clamp' },
+							)
+							: musicVolume;
 						// Fade in over 1 second, fade out over 2 seconds
 						const fadeInFrames = fps;
 						const fadeOutFrames = fps * 2;
@@ -160,18 +188,18 @@ export const CLCVideo: React.FC<CLCVideoProps> = ({
 						// If durationInFrames is too short, skip the hold phase
 						if (durationInFrames <= fadeInFrames + fadeOutFrames + 2) {
 							const mid = Math.floor(durationInFrames / 2);
-							if (mid <= 0 || durationInFrames <= 1) return musicVolume;
-							return interpolate(
+							if (mid <= 0 || durationInFrames <= 1) return level;
+							return level * interpolate(
 								f,
 								[0, mid, durationInFrames],
-								[0, musicVolume, 0],
+								[0, 1, 0],
 								{ extrapolateLeft: 'clamp', extrapolateRight: 'clamp' },
 							);
 						}
-						return interpolate(
+						return level * interpolate(
 							f,
 							[0, fadeInFrames, durationInFrames - fadeOutFrames, durationInFrames],
-							[0, musicVolume, musicVolume, 0],
+							[0, 1, 1, 0],
 							{ extrapolateLeft: 'clamp', extrapolateRight: 'clamp' },
 						);
 					}}
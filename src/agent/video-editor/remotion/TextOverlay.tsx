@@ -12,7 +12,7 @@
 
 import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, interpolate, spring } from 'remotion';
-import type { TextAnimation } from './types';
+import type { OverlaySafeArea, TextAnimation } from './types';
 
 interface TextOverlayProps {
 	text: string;
@@ -21,8 +21,14 @@ interface TextOverlayProps {
 	isFirst: boolean;
 	isLast: boolean;
 	animation?: TextAnimation;
+	/** Platform UI insets (percent). Default keeps the original 8% top/bottom margins. */
+	safeArea?: OverlaySafeArea;
+	/** Font size multiplier for the output frame width. */
+	textScale?: number;
 }
 
+const DEFAULT_SAFE_AREA: OverlaySafeArea = { top: 8, right: 0, bottom: 8, left: 0 };
+
 const BRAND_GREEN = '#1B4D3E';
 const BRAND_GOLD = '#C9A84C';
 
@@ -34,7 +40,7 @@ const MODE_DEFAULT_ANIMATION: Record<string, TextAnimation> = {
 	showcase: 'slideUp',
 };
 
-export const TextOverlay: React.FC<TextOverlayProps> = ({ text, mode, position, isFirst, isLast, animation }) => {
+export const TextOverlay: React.FC<TextOverlayProps> = ({ text, mode, position, isFirst, isLast, animation, safeArea = DEFAULT_SAFE_AREA, textScale = 1 }) => {
 	const frame = useCurrentFrame();
 	const { durationInFrames, fps } = useVideoConfig();
 
@@ -43,20 +49,23 @@ export const TextOverlay: React.FC<TextOverlayProps> = ({ text, mode, position,
 	// Compute entry/exit animation values
 	const { opacity, transform: animTransform } = computeAnimation(anim, frame, durationInFrames, fps);
 
-	// Position styles
+	// Position styles — inside the platform's safe area, centered between its left/right insets
 	const positionStyle: React.CSSProperties = {
 		position: 'absolute',
-		left: 0,
-		right: 0,
+		left: `${safeArea.left}%`,
+		right: `${safeArea.right}%`,
 		display: 'flex',
 		justifyContent: 'center',
-		...(position === 'top' ? { top: '8%' } : {}),
-		...(position === 'center' ? { top: '50%', transform: 'translateY(-50%)' } : {}),
-		...(position === 'bottom' ? { bottom: '8%' } : {}),
+		...(position === 'top' ? { top: `${safeArea.top}%` } : {}),
+		...(position === 'center' ? { top: `${(safeArea.top + 100 - safeArea.bottom) / 2}%`, transform: 'translateY(-50%)' } : {}),
+		...(position === 'bottom' ? { bottom: `${safeArea.bottom}%` } : {}),
 	};
 
-	// Mode-specific text styling
-	const textStyle = getTextStyle(mode, isFirst, isLast);
+	// Mode-specific text styling, scaled for the frame width
+	const baseTextStyle = getTextStyle(mode, isFirst, isLast);
+	const textStyle = textScale !== 1 && typeof baseTextStyle.fontSize === 'number'
+		? { ...baseTextStyle, fontSize: Math.round(baseTextStyle.fontSize * textScale) }
+		: baseTextStyle;
 
 	// For typewriter, render partial text
 	const displayText = anim === 'typewriter'
@@ -9,7 +9,7 @@
 
 import React from 'react';
 import { AbsoluteFill, OffthreadVideo, useCurrentFrame, useVideoConfig, interpolate } from 'remotion';
-import type { SpeedKeyframe } from './types';
+import type { CropKeyframe, SpeedKeyframe } from './types';
 
 interface VideoClipProps {
 	src: string;
@@ -24,6 +24,10 @@ interface VideoClipProps {
 	cropX?: number;
 	/** Zoom level override. Default 1.0 = no zoom (fit to frame). Higher = more cropped in. */
 	zoom?: number;
+	/** Tracked crop path. With 2+ keyframes the focus point moves with the subject instead of using cropX/cropY. */
+	cropKeyframes?: CropKeyframe[];
+	/** Clip audio gain from the loudness pass (audio-mix.ts). Default 1.0. */
+	volume?: number;
 	/**
 	 * Frame count of the clip's own sequence (TransitionSeries.Sequence durationInFrames).
 	 *
@@ -155,7 +159,7 @@ function getPlaybackRate(progress: number, keyframes?: SpeedKeyframe[]): number
 	}));
 }
 
-export const VideoClip: React.FC<VideoClipProps> = ({ src, effect, filter, speedKeyframes, trimStart = 0, cropY = 50, cropX = 50, zoom = 1.0, clipLengthFrames }) => {
+export const VideoClip: React.FC<VideoClipProps> = ({ src, effect, filter, speedKeyframes, trimStart = 0, cropY = 50, cropX = 50, zoom = 1.0, cropKeyframes, volume = 1, clipLengthFrames }) => {
 	const frame = useCurrentFrame();
 	const { durationInFrames: compositionDurationInFrames } = useVideoConfig();
 	// Use the local sequence length if provided (correct), else fall back to
@@ -170,7 +174,15 @@ export const VideoClip: React.FC<VideoClipProps> = ({ src, effect, filter, speed
 	// Interviews: zoom=1.0, cropY=50 (center on face)
 	// Chess: zoom=1.2, cropY=50 (slight zoom, centered)
 	const BASE_SCALE = Math.max(1.0, zoom);
-	const originStr = `${cropX}% ${cropY}%`;
+	let focusX = cropX;
+	let focusY = cropY;
+	if (cropKeyframes && cropKeyframes.length >= 2) {
+		const frames = cropKeyframes.map(k => k.frame);
+		const clamp = { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' } as const;
+		focusX = interpolate(frame, frames, cropKeyframes.map(k => k.cropX), clamp);
+		focusY = interpolate(frame, frames, cropKeyframes.map(k => k.cropY), clamp);
+	}
+	const originStr = `${focusX}% ${focusY}%`;
 	let transform = '';
 	switch (effect) {
 		case 'zoomIn': {
@@ -246,6 +258,7 @@ export const VideoClip: React.FC<VideoClipProps> = ({ src, effect, filter, speed
 				src={src}
 				startFrom={trimBeforeFrames}
 				playbackRate={playbackRate}
+				volume={volume}
 				delayRenderTimeoutInMilliseconds={120_000}
 				style={{
 					width: '100%',
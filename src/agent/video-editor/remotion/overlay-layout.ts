@@ -0,0 +1,59 @@
+/**
+ * Overlay Layout — where text can safely sit in each platform's frame
+ *
+ * The same edit plan renders to 9:16, 1:1 and 16:9 outputs. Title cards
+ * placed at a fixed 8% from the edge land under TikTok's caption block and
+ * action rail in vertical video, and look undersized on a 1920px-wide
+ * landscape frame. This maps each platform to the insets its UI covers
+ * and a font multiplier for the frame width; render.ts puts both on
+ * CLCVideoProps for TextOverlay and the burned-in captions.
+ *
+ * File: src/agent/video-editor/remotion/overlay-layout.ts
+ */
+
+import type { OverlaySafeArea } from './types';
+
+// --- Safe Areas ---
+
+/** Percent insets per platform. Right/left differ on vertical apps (action rail on the right). */
+export const PLATFORM_SAFE_AREAS: Record<string, OverlaySafeArea> = {
+	tiktok:            { top: 12, right: 14, bottom: 24, left: 6 },
+	ig_reels:          { top: 12, right: 14, bottom: 22, left: 6 },
+	'ig-reels':        { top: 12, right: 14, bottom: 22, left: 6 },
+	ig_feed:           { top: 6, right: 6, bottom: 8, left: 6 },
+	'ig-feed':         { top: 6, right: 6, bottom: 8, left: 6 },
+	linkedin_square:   { top: 6, right: 6, bottom: 8, left: 6 },
+	'linkedin-square': { top: 6, right: 6, bottom: 8, left: 6 },
+	youtube:           { top: 8, right: 5, bottom: 12, left: 5 },   // progress bar + controls
+	facebook:          { top: 8, right: 5, bottom: 12, left: 5 },
+	linkedin:          { top: 8, right: 5, bottom: 10, left: 5 },
+};
+
+/** Fallback by shape when the platform has no entry. */
+const ASPECT_SAFE_AREAS: Record<'vertical' | 'square' | 'landscape', OverlaySafeArea> = {
+	vertical:  { top: 12, right: 12, bottom: 22, left: 6 },
+	square:    { top: 6, right: 6, bottom: 8, left: 6 },
+	landscape: { top: 8, right: 5, bottom: 10, left: 5 },
+};
+
+// Overlay styles are sized for a 1080px-wide frame; wider frames scale up to this cap.
+const MAX_TEXT_SCALE = 1.4;
+
+// --- Layout ---
+
+/**
+ * Safe area + text scale for a platform's output frame. Spread into
+ * CLCVideoProps.
+ */
+export function overlayLayoutForPlatform(
+	platform: string,
+	width: number,
+	height: number,
+): { safeArea: OverlaySafeArea; textScale: number } {
+	const ratio = width / height;
+	const shape = ratio < 0.9 ? 'vertical' : ratio > 1.1 ? 'landscape' : 'square';
+	return {
+		safeArea: PLATFORM_SAFE_AREAS[platform] || ASPECT_SAFE_AREAS[shape],
+		textScale: Math.round(Math.min(MAX_TEXT_SCALE, Math.max(1, width / 1080)) * 100) / 100,
+	};
+}
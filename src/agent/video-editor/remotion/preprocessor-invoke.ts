@@ -19,6 +19,7 @@
 
 import type { PreprocessRequest, PreprocessResult } from './preprocessor-lambda';
 import type { S3UploadedClip } from './s3-upload';
+import { buildTrackedCropFilter, type CropPathKeyframe } from '../smart-crop';
 
 // --- Types ---
 
@@ -43,6 +44,7 @@ export interface PreprocessorClipConfig {
 	sourceWidth?: number;        // Display width (after rotation)
 	sourceHeight?: number;       // Display height (after rotation)
 	extraZoom?: number;          // >1.0 tightens framing on subject (content-type driven)
+	cropPath?: CropPathKeyframe[]; // Tracked subject path — replaces subjectPosition when 2+ keyframes
 	// Remotion-only metadata — not used by the Lambda; forwarded on the result
 	// so render.ts can feed VideoClip without re-correlating clips from the edit plan.
 	effect?: string;
@@ -201,6 +203,10 @@ async function invokePreprocessorForClip(
 		sourceWidth: clip.sourceWidth,
 		sourceHeight: clip.sourceHeight,
 		extraZoom: clip.extraZoom,
+		// The Lambda is self-contained, so the time-varying crop is built here.
+		cropFilter: clip.cropPath && clip.cropPath.length >= 2 && clip.targetAspect && clip.sourceWidth && clip.sourceHeight
+			? buildTrackedCropFilter(clip.sourceWidth, clip.sourceHeight, clip.targetAspect, clip.cropPath, clip.extraZoom)
+			: undefined,
 	};
 
 	logger?.info('[preprocessor] Firing async Lambda for %s (trim=%ds, dur=%ds, speed=%sx, stabilize=%s, aspect=%s, subject=%s)...',
@@ -209,7 +215,8 @@ async function invokePreprocessorForClip(
 		clip.targetAspect || 'source',
 		// Show explicitly when subjectPosition is unset vs explicitly 'center'
 		// so we can distinguish "lookup failed" from "catalog says center."
-		clip.subjectPosition === undefined ? 'UNSET→center' : clip.subjectPosition);
+		payload.cropFilter ? `tracked(${clip.cropPath!.length} keyframes)`
+			: clip.subjectPosition === undefined ? 'UNSET→center' : clip.subjectPosition);
 
 	const lambda = await getLambdaClient(region);
 	const startTime = Date.now();
@@ -381,6 +388,7 @@ export function buildPreprocessorConfigs(
 		transitionDirection?: string;
 		speedKeyframes?: Array<{ at: number; speed: number }>;
 		extraZoom?: number;  // Per-clip override from director; falls back to mode default.
+		cropPath?: CropPathKeyframe[];
 	}>,
 	s3Clips: Map<string, S3UploadedClip>,
 	defaultDuration: number = 5,
@@ -409,6 +417,7 @@ export function buildPreprocessorConfigs(
 			sourceHeight: s3Info.height,
 			// Tighten framing — per-clip override wins, else mode default.
 			extraZoom: typeof clip.extraZoom === 'number' ? clip.extraZoom : modeExtraZoom,
+			cropPath: clip.cropPath,
 			// Remotion-only metadata forwarded on the preprocess result:
 			effect: clip.effect,
 			filter: clip.filter,
@@ -45,6 +45,10 @@ export interface PreprocessRequest {
 	// values: 1.25-1.4 for wide tennis action, 1.0 for interview / chess /
 	// establishing shots where context matters. Driven per-clip by content type.
 	extraZoom?: number;
+	// Tracked crop: a complete scale+crop filter with time-varying x/y, built
+	// server-side by smart-crop.ts buildTrackedCropFilter(). Takes precedence
+	// over the static smart crop inputs above.
+	cropFilter?: string;
 }
 
 export interface PreprocessResult {
@@ -163,11 +167,14 @@ function buildVideoFilter(config: {
 	sourceWidth?: number;
 	sourceHeight?: number;
 	extraZoom?: number;
+	cropFilter?: string;
 }): string {
 	const filters: string[] = [];
 
-	// Framing: smart crop to target aspect, or fallback scale cap.
-	const cropFilter = (config.targetAspect && config.sourceWidth && config.sourceHeight)
+	// Framing: tracked crop, smart crop to target aspect, or fallback scale cap.
+	const cropFilter = config.cropFilter
+		? config.cropFilter
+		: (config.targetAspect && config.sourceWidth && config.sourceHeight)
 		? buildSmartCropFilter(config.sourceWidth, config.sourceHeight, config.targetAspect, config.subjectPosition, config.extraZoom)
 		: '';
 	if (cropFilter) {
@@ -285,6 +292,7 @@ export async function handler(event: PreprocessRequest): Promise<PreprocessResul
 			sourceWidth: event.sourceWidth,
 			sourceHeight: event.sourceHeight,
 			extraZoom: event.extraZoom,
+			cropFilter: event.cropFilter,
 		});
 		const audioFilter = buildAudioFilter(speed);
 
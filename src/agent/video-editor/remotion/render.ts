@@ -18,8 +18,13 @@
 
 import type { CLCVideoProps } from './types';
 import type { PreprocessedClip } from '../preprocess';
+import type { S3UploadedClip } from './s3-upload';
 import { PLATFORM_SETTINGS } from '../shotstack';
 import { buildProcessedFileProxyUrl } from '../drive-proxy';
+import { placeCaptionsOnTimeline, type ClipCaptions } from '../transcription';
+import { applyAudioMix, type AudioMix } from '../audio-mix';
+import { toObjectPositionKeyframes, type CropPathKeyframe } from '../smart-crop';
+import { overlayLayoutForPlatform } from './overlay-layout';
 import {
 	logRenderStart,
 	logClipDiagnostics,
@@ -495,22 +500,34 @@ async function getInfra(logger?: Logger): Promise<LambdaInfrastructure> {
 
 // --- Props Builder ---
 
+/** Per-mode transition length and background fill, shared by every props builder. */
+export const REMOTION_MODE_SETTINGS: Record<string, { transitionDuration: number; bgColor: string }> = {
+	game_day:  { transitionDuration: 0.5, bgColor: '#000000' },
+	our_story: { transitionDuration: 1.0, bgColor: '#0a0a0a' },
+	quick_hit: { transitionDuration: 0.3, bgColor: '#000000' },
+	showcase:  { transitionDuration: 0.8, bgColor: '#0a0a0a' },
+};
+
 /**
- * Convert a RenderConfig + PreprocessedClips to Remotion CLCVideoProps.
- *
- * Uses proxy URLs (not local file paths) so Lambda workers can fetch
- * the preprocessed clips over HTTP from our server.
+ * Clip props for FFmpeg-preprocessed local clips (preprocess.ts), served
+ * through our processed-file proxy so a cloud renderer can fetch them.
+ * trimStart stays 0 — preprocessing already trimmed and speed-ramped.
+ */
+export function processedClipProps(processedClips: PreprocessedClip[], appUrl: string): CLCVideoProps['clips'] {
+	return processedClips.map((pc) => ({
+		src: buildProcessedFileProxyUrl(appUrl, pc.processedId),
+		length: pc.effectiveDuration,
+	}));
+}
+
+/**
+ * Assemble Remotion CLCVideoProps around already-built clip props: text
+ * overlays in frames, music, per-mode transitions, captions, safe-area
+ * layout and the audio mix. Every engine renders these props — see
+ * render-engine/index.ts for the clip builders.
  */
 export function buildRemotionProps(
 	config: {
-		clips: Array<{
-			fileId: string;
-			filename?: string;
-			trimStart?: number;
-			duration?: number;
-			purpose?: string;
-			speed?: number;
-		}>;
 		textOverlays?: Array<{
 			text: string;
 			start: number;
@@ -521,31 +538,19 @@ export function buildRemotionProps(
 		musicUrl?: string | null;
 		mode: string;
 		platform: string;
+		clipCaptions?: ClipCaptions[];  // per-clip captions from transcription.ts
+		audioMix?: AudioMix;            // speech + loudness analysis from audio-mix.ts
 	},
-	processedClips: PreprocessedClip[],
-	appUrl: string,
+	clipProps: CLCVideoProps['clips'],
 ): CLCVideoProps {
 	const platformSettings = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
 
 	// FPS: standard 30fps
 	const fps = 30;
 
-	// Mode-specific settings
-	const REMOTION_MODE_SETTINGS: Record<string, { transitionDuration: number; bgColor: string }> = {
-		game_day:  { transitionDuration: 0.5, bgColor: '#000000' },
-		our_story: { transitionDuration: 1.0, bgColor: '#0a0a0a' },
-		quick_hit: { transitionDuration: 0.3, bgColor: '#000000' },
-		showcase:  { transitionDuration: 0.8, bgColor: '#0a0a0a' },
-	};
 	const remotionMode = REMOTION_MODE_SETTINGS[config.mode] || REMOTION_MODE_SETTINGS['game_day']!;
 	const transitionDurationFrames = Math.round(remotionMode.transitionDuration * fps);
 
-	// Build clip props using proxy URLs (Lambda fetches these over HTTP)
-	const clipProps: CLCVideoProps['clips'] = processedClips.map((pc) => ({
-		src: buildProcessedFileProxyUrl(appUrl, pc.processedId),
-		length: pc.effectiveDuration,
-	}));
-
 	// Build text overlay props — convert seconds to frames
 	const textOverlays: CLCVideoProps['textOverlays'] = (config.textOverlays || []).map((overlay, index, arr) => {
 		const startFrame = Math.round(overlay.start * fps);
@@ -561,7 +566,7 @@ export function buildRemotionProps(
 		};
 	});
 
-	return {
+	return applyAudioMix({
 		clips: clipProps,
 		mode: config.mode,
 		width: platformSettings.width,
@@ -572,7 +577,9 @@ export function buildRemotionProps(
 		musicVolume: 0.3,
 		bgColor: remotionMode.bgColor,
 		transitionDurationFrames,
-	};
+		captions: placeCaptionsOnTimeline(config.clipCaptions, clipProps, fps, transitionDurationFrames),
+		...overlayLayoutForPlatform(config.platform, platformSettings.width, platformSettings.height),
+	}, config.audioMix, config.platform);
 }
 
 // --- Render Submission ---
@@ -607,10 +614,29 @@ export async function submitRemotionRender(
 		musicUrl?: string | null;
 		mode: string;
 		platform: string;
+		clipCaptions?: ClipCaptions[];  // per-clip captions from transcription.ts
+		audioMix?: AudioMix;            // speech + loudness analysis from audio-mix.ts
 	},
 	processedClips: PreprocessedClip[],
 	appUrl: string,
 	logger?: Logger,
+): Promise<string> {
+	// Build props with proxy URLs, then submit
+	const props = buildRemotionProps(config, processedClipProps(processedClips, appUrl));
+	logger?.info('[remotion-lambda] Submitting render: %d clips, %dx%d, mode=%s, platform=%s',
+		props.clips.length, props.width, props.height, config.mode, config.platform);
+	return submitRemotionRenderProps(props, appUrl, logger);
+}
+
+/**
+ * Submit already-built CLCVideoProps to Lambda and register the render.
+ * Clip srcs must be URLs the Lambda workers can fetch. Used by
+ * submitRemotionRender() and the Remotion RenderEngine.
+ */
+export async function submitRemotionRenderProps(
+	props: CLCVideoProps,
+	appUrl: string,
+	logger?: Logger,
 ): Promise<string> {
 	const renderId = `remotion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
@@ -619,13 +645,7 @@ export async function submitRemotionRender(
 	// Step 1: Get Lambda infrastructure config
 	const infra = await getInfra(logger);
 
-	// Step 2: Build props with proxy URLs
-	const props = buildRemotionProps(config, processedClips, appUrl);
-
-	logger?.info('[remotion-lambda] Submitting render: %d clips, %dx%d, mode=%s, platform=%s',
-		props.clips.length, props.width, props.height, config.mode, config.platform);
-
-	// Step 3: Submit to Lambda (via wrapper that handles hung calls on Railway).
+	// Step 2: Submit to Lambda (via wrapper that handles hung calls on Railway).
 
 	// Limit concurrent Lambda invocations for low-concurrency AWS accounts.
 	// Default limit is 10 for new accounts. Target max 4 renderers + 1 orchestrator = 5.
@@ -649,7 +669,7 @@ export async function submitRemotionRender(
 		forceBucketName: infra.bucketName,
 	}, appUrl, logger);
 
-	// Step 4: Store mapping in registry
+	// Step 3: Store mapping in registry
 	renderRegistry.set(renderId, {
 		localId: renderId,
 		lambdaRenderId: result.lambdaRenderId || '',
@@ -692,6 +712,7 @@ export async function submitRemotionRenderDirect(
 			duration?: number;
 			purpose?: string;
 			speed?: number;
+			cropPath?: CropPathKeyframe[];  // Tracked subject path — animates cropX/cropY
 		}>;
 		textOverlays?: Array<{
 			text: string;
@@ -703,6 +724,8 @@ export async function submitRemotionRenderDirect(
 		musicUrl?: string | null;
 		mode: string;
 		platform: string;
+		clipCaptions?: ClipCaptions[];  // per-clip captions from transcription.ts
+		audioMix?: AudioMix;            // speech + loudness analysis from audio-mix.ts
 	},
 	appUrl: string,
 	logger?: Logger,
@@ -755,12 +778,6 @@ export async function submitRemotionRenderDirect(
 	const platformSettings = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
 	const fps = 30;
 
-	const REMOTION_MODE_SETTINGS: Record<string, { transitionDuration: number; bgColor: string }> = {
-		game_day:  { transitionDuration: 0.5, bgColor: '#000000' },
-		our_story: { transitionDuration: 1.0, bgColor: '#0a0a0a' },
-		quick_hit: { transitionDuration: 0.3, bgColor: '#000000' },
-		showcase:  { transitionDuration: 0.8, bgColor: '#0a0a0a' },
-	};
 	const remotionMode = REMOTION_MODE_SETTINGS[config.mode] || REMOTION_MODE_SETTINGS['game_day']!;
 	const transitionDurationFrames = Math.round(remotionMode.transitionDuration * fps);
 
@@ -795,6 +812,12 @@ export async function submitRemotionRenderDirect(
 			zoom: (clip as any).zoom || framing.zoom,
 			cropX: (clip as any).cropX || framing.cropX,
 			cropY: (clip as any).cropY || framing.cropY,
+			cropKeyframes: clip.cropPath && clip.cropPath.length >= 2
+				? toObjectPositionKeyframes(clip.cropPath, {
+					sourceW: s3Info.width, sourceH: s3Info.height,
+					targetW: platformSettings.width, targetH: platformSettings.height, fps,
+				})
+				: undefined,
 		};
 	});
 
@@ -813,7 +836,7 @@ export async function submitRemotionRenderDirect(
 		};
 	});
 
-	const props: CLCVideoProps = {
+	const props: CLCVideoProps = applyAudioMix({
 		clips: clipProps,
 		mode: config.mode,
 		width: platformSettings.width,
@@ -824,7 +847,9 @@ export async function submitRemotionRenderDirect(
 		musicVolume: 0.3,
 		bgColor: remotionMode.bgColor,
 		transitionDurationFrames,
-	};
+		captions: placeCaptionsOnTimeline(config.clipCaptions, clipProps, fps, transitionDurationFrames),
+		...overlayLayoutForPlatform(config.platform, platformSettings.width, platformSettings.height),
+	}, config.audioMix, config.platform);
 
 	logger?.info('[remotion-lambda] Submitting render (S3-backed): %d clips, %dx%d, mode=%s, platform=%s',
 		props.clips.length, props.width, props.height, config.mode, config.platform);
@@ -936,6 +961,8 @@ export async function submitRemotionRenderPreprocessed(
 		musicUrl?: string | null;
 		mode: string;
 		platform: string;
+		clipCaptions?: ClipCaptions[];  // per-clip captions from transcription.ts
+		audioMix?: AudioMix;            // speech + loudness analysis from audio-mix.ts
 	},
 	processedClips: PreprocessedClip[],
 	appUrl: string,
@@ -971,12 +998,6 @@ export async function submitRemotionRenderPreprocessed(
 	const platformSettings = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
 	const fps = 30;
 
-	const REMOTION_MODE_SETTINGS: Record<string, { transitionDuration: number; bgColor: string }> = {
-		game_day:  { transitionDuration: 0.5, bgColor: '#000000' },
-		our_story: { transitionDuration: 1.0, bgColor: '#0a0a0a' },
-		quick_hit: { transitionDuration: 0.3, bgColor: '#000000' },
-		showcase:  { transitionDuration: 0.8, bgColor: '#0a0a0a' },
-	};
 	const remotionMode = REMOTION_MODE_SETTINGS[config.mode] || REMOTION_MODE_SETTINGS['game_day']!;
 	const transitionDurationFrames = Math.round(remotionMode.transitionDuration * fps);
 
@@ -1009,7 +1030,7 @@ export async function submitRemotionRenderPreprocessed(
 		};
 	});
 
-	const props: CLCVideoProps = {
+	const props: CLCVideoProps = applyAudioMix({
 		clips: clipProps,
 		mode: config.mode,
 		width: platformSettings.width,
@@ -1020,7 +1041,9 @@ export async function submitRemotionRenderPreprocessed(
 		musicVolume: 0.3,
 		bgColor: remotionMode.bgColor,
 		transitionDurationFrames,
-	};
+		captions: placeCaptionsOnTimeline(config.clipCaptions, clipProps, fps, transitionDurationFrames),
+		...overlayLayoutForPlatform(config.platform, platformSettings.width, platformSettings.height),
+	}, config.audioMix, config.platform);
 
 	logger?.info('[remotion-lambda] Submitting render (preprocessed): %d clips, %dx%d, mode=%s, platform=%s',
 		props.clips.length, props.width, props.height, config.mode, config.platform);
@@ -1078,6 +1101,227 @@ export async function submitRemotionRenderPreprocessed(
 
 // --- Preprocessor Lambda Render (Drive → S3 → FFmpeg Lambda → S3 → Remotion Lambda) ---
 
+export interface PreprocessedRenderConfig {
+	clips: Array<{
+		fileId: string;
+		filename?: string;
+		trimStart?: number;
+		duration?: number;
+		purpose?: string;
+		speed?: number;
+		subjectPosition?: string;  // From catalog — drives Lambda smart crop
+		cropPath?: CropPathKeyframe[];  // Tracked subject path — drives a moving Lambda crop
+	}>;
+	textOverlays?: Array<{
+		text: string;
+		start: number;
+		duration: number;
+		position?: string;
+		animation?: string;  // 'fade' | 'slideUp' | 'slideDown' | 'scaleUp' | 'bounce' | 'typewriter'
+	}>;
+	musicUrl?: string | null;
+	mode: string;
+	platform: string;
+	clipCaptions?: ClipCaptions[];  // per-clip captions from transcription.ts
+	audioMix?: AudioMix;            // speech + loudness analysis from audio-mix.ts
+}
+
+/** Process memory snapshot for pipeline logs. */
+function memLog(): string {
+	const m = process.memoryUsage();
+	return `rss=${(m.rss / 1024 / 1024).toFixed(0)}MB heap=${(m.heapUsed / 1024 / 1024).toFixed(0)}/${(m.heapTotal / 1024 / 1024).toFixed(0)}MB`;
+}
+
+/**
+ * Steps 3-5 of the preprocessed pipeline for one output: preprocess the
+ * already-uploaded raw clips for the platform's aspect (falling back to
+ * raw clips), build props, submit to Remotion Lambda and record the
+ * submission in the render registry. Multi-aspect renders call this once
+ * per output over a single S3 upload.
+ *
+ * Returns the processed S3 clips so the caller can schedule their cleanup.
+ * Throws on submission failure — the caller owns failRender().
+ */
+async function preprocessAndSubmitRender(
+	config: PreprocessedRenderConfig,
+	renderId: string,
+	appUrl: string,
+	infra: LambdaInfrastructure,
+	s3Clips: Map<string, S3UploadedClip>,
+	logger?: Logger,
+): Promise<S3UploadedClip[]> {
+	const {
+		invokePreprocessorForClips,
+		buildPreprocessorConfigs,
+	} = await import('./preprocessor-invoke');
+
+	// Update status: raw upload complete, starting preprocessing
+	updateRenderEntry(renderId, { status: 'rendering' });
+
+	// Step 3: Try preprocessing, fall back to raw clips if it fails.
+	// Preprocessing adds deshake + sharpen via Lambda, but "socket hang up"
+	// errors on Bun/Railway have made it unreliable. Raw clips still render
+	// fine — just without stabilization/sharpening.
+	let useProcessedClips = false;
+	let processedClipResults: Awaited<ReturnType<typeof invokePreprocessorForClips>> | null = null;
+
+	try {
+		const platformSettingsForAspect = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
+		const targetAspect = platformSettingsForAspect.aspectRatio as '9:16' | '1:1' | '4:5' | '16:9';
+		const preprocessorConfigs = buildPreprocessorConfigs(config.clips, s3Clips, 5, targetAspect, config.mode);
+		logger?.info('[remotion-lambda] Attempting preprocessor Lambda for %d clips (aspect=%s)... [mem: %s]',
+			preprocessorConfigs.length, targetAspect, memLog());
+
+		processedClipResults = await invokePreprocessorForClips(
+			preprocessorConfigs,
+			infra.bucketName,
+			infra.region,
+			logger,
+		);
+		useProcessedClips = true;
+		logger?.info('[remotion-lambda] Preprocessing succeeded for all %d clips', processedClipResults.length);
+	} catch (preprocessErr) {
+		const msg = preprocessErr instanceof Error ? preprocessErr.message : String(preprocessErr);
+		logger?.warn?.('[remotion-lambda] Preprocessing failed, falling back to raw clips: %s', msg);
+		// Continue with raw S3 clips — video will render without deshake/sharpen
+	}
+
+	// Step 4: Build Remotion props
+	const platformSettings = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
+	const fps = 30;
+
+	const remotionMode = REMOTION_MODE_SETTINGS[config.mode] || REMOTION_MODE_SETTINGS['game_day']!;
+	const transitionDurationFrames = Math.round(remotionMode.transitionDuration * fps);
+
+	// Build clip props — use processed S3 URLs if preprocessing succeeded,
+	// otherwise fall back to raw S3 URLs with original trim points
+	let clipProps: CLCVideoProps['clips'];
+
+	if (useProcessedClips && processedClipResults) {
+		// Preprocessed: trimStart=0 because FFmpeg already trimmed.
+		// Per-clip Remotion metadata (effect/filter/transitions) flows through
+		// the preprocessor result as passthrough fields — no re-correlation needed.
+		clipProps = processedClipResults.map((pc) => ({
+			src: pc.outputS3Url,
+			length: pc.effectiveDuration,
+			trimStart: 0,
+			effect: pc.effect,
+			filter: pc.filter,
+			transitionType: pc.transitionType,
+			transitionDirection: pc.transitionDirection,
+			speedKeyframes: pc.speedKeyframes,
+		}));
+		logger?.info('[remotion-lambda] Using %d preprocessed clips (stabilized + sharpened)', clipProps.length);
+	} else {
+		// Fallback: use raw S3 clips with original trim/duration from edit plan.
+		clipProps = config.clips.map((clip: any) => {
+			const s3Info = s3Clips.get(clip.fileId);
+			if (!s3Info) throw new Error(`S3 upload missing for clip ${clip.fileId}`);
+			return {
+				src: s3Info.s3Url,
+				length: clip.duration || 5,
+				trimStart: clip.trimStart || 0,
+				effect: clip.effect,
+				filter: clip.filter,
+				transitionType: clip.transitionType,
+				transitionDirection: clip.transitionDirection,
+				speedKeyframes: clip.speedKeyframes,
+				cropKeyframes: clip.cropPath && clip.cropPath.length >= 2
+					? toObjectPositionKeyframes(clip.cropPath, {
+						sourceW: s3Info.width, sourceH: s3Info.height,
+						targetW: platformSettings.width, targetH: platformSettings.height, fps,
+					})
+					: undefined,
+			};
+		});
+		logger?.info('[remotion-lambda] Using %d raw clips (no preprocessing — fallback mode)', clipProps.length);
+	}
+
+	// Build text overlay props.
+	// IMPORTANT: forward `animation` so TextOverlay.tsx can run entry/exit
+	// styles (slideUp, bounce, typewriter, etc.) — without this, every title
+	// card is a static box regardless of what the director picked.
+	const textOverlays: CLCVideoProps['textOverlays'] = (config.textOverlays || []).map((overlay, index, arr) => {
+		const startFrame = Math.round(overlay.start * fps);
+		const durationFrames = Math.round(overlay.duration * fps);
+		return {
+			text: overlay.text,
+			startFrame,
+			durationFrames,
+			position: (overlay.position as 'top' | 'center' | 'bottom') || 'bottom',
+			isFirst: index === 0,
+			isLast: index === arr.length - 1,
+			animation: (overlay as { animation?: string }).animation as CLCVideoProps['textOverlays'][number]['animation'],
+		};
+	});
+
+	const props: CLCVideoProps = applyAudioMix({
+		clips: clipProps,
+		mode: config.mode,
+		width: platformSettings.width,
+		height: platformSettings.height,
+		fps,
+		textOverlays,
+		musicSrc: config.musicUrl || undefined,
+		musicVolume: 0.3,
+		bgColor: remotionMode.bgColor,
+		transitionDurationFrames,
+		captions: placeCaptionsOnTimeline(config.clipCaptions, clipProps, fps, transitionDurationFrames),
+		...overlayLayoutForPlatform(config.platform, platformSettings.width, platformSettings.height),
+	}, config.audioMix, config.platform);
+
+	logger?.info('[remotion-lambda] Submitting render (preprocessed via Lambda): %d clips, %dx%d, mode=%s',
+		props.clips.length, props.width, props.height, config.mode);
+
+	// Step 5: Submit to Remotion Lambda (via wrapper that handles hung calls on Railway).
+
+	const totalDuration = clipProps.reduce((sum, c) => sum + c.length, 0);
+	const totalFrames = Math.ceil(totalDuration * fps);
+	const maxRendererLambdas = 4;
+	const framesPerLambda = Math.max(200, Math.ceil(totalFrames / maxRendererLambdas));
+
+	logger?.info('[remotion-lambda] totalFrames=%d, framesPerLambda=%d',
+		totalFrames, framesPerLambda);
+
+	const result = await submitRenderWithRetry({
+		region: infra.region as any,
+		functionName: infra.functionName,
+		serveUrl: infra.serveUrl,
+		composition: 'CLCVideo',
+		codec: 'h264',
+		inputProps: props as unknown as Record<string, unknown>,
+		privacy: 'public',
+		framesPerLambda,
+		timeoutInMilliseconds: 240_000,
+		forceBucketName: infra.bucketName,
+	}, appUrl, logger);
+
+	// Step 6: Update render registry with correlation ID + output location.
+	// lambdaRenderId may come from the streaming-invoke's first message; if
+	// not present, webhook will fill it in when it fires.
+	updateRenderEntry(renderId, {
+		correlationId: result.correlationId,
+		outputS3Key: result.outputS3Key,
+		bucketName: result.bucketName,
+		lambdaRenderId: result.lambdaRenderId || '',
+		functionName: infra.functionName,
+		region: infra.region,
+		status: 'rendering',
+	});
+
+	logger?.info('[remotion-lambda] Submitted (preprocessed via Lambda). correlationId=%s → our renderId=%s',
+		result.correlationId, renderId);
+
+	return (useProcessedClips && processedClipResults)
+		? processedClipResults.map(pc => ({
+			fileId: pc.fileId,
+			s3Key: pc.outputS3Key,
+			s3Url: pc.outputS3Url,
+			sizeBytes: pc.outputSizeBytes,
+		}))
+		: [];
+}
+
 /**
  * Submit a Remotion render with FFmpeg preprocessing via a dedicated Lambda.
  *
@@ -1097,27 +1341,7 @@ export async function submitRemotionRenderPreprocessed(
  * Instead: pre-register, fire async, return render ID immediately.
  */
 export async function submitRemotionRenderWithPreprocessing(
-	config: {
-		clips: Array<{
-			fileId: string;
-			filename?: string;
-			trimStart?: number;
-			duration?: number;
-			purpose?: string;
-			speed?: number;
-			subjectPosition?: string;  // From catalog — drives Lambda smart crop
-		}>;
-		textOverlays?: Array<{
-			text: string;
-			start: number;
-			duration: number;
-			position?: string;
-			animation?: string;  // 'fade' | 'slideUp' | 'slideDown' | 'scaleUp' | 'bounce' | 'typewriter'
-		}>;
-		musicUrl?: string | null;
-		mode: string;
-		platform: string;
-	},
+	config: PreprocessedRenderConfig,
 	renderId: string,
 	appUrl: string,
 	logger?: Logger,
@@ -1137,11 +1361,6 @@ export async function submitRemotionRenderWithPreprocessing(
 			);
 		}
 
-		const memLog = () => {
-			const m = process.memoryUsage();
-			return `rss=${(m.rss / 1024 / 1024).toFixed(0)}MB heap=${(m.heapUsed / 1024 / 1024).toFixed(0)}/${(m.heapTotal / 1024 / 1024).toFixed(0)}MB`;
-		};
-
 		logger?.info('[remotion-lambda] Render %s: starting preprocessed pipeline (appUrl=%s)... [mem: %s]', renderId, appUrl, memLog());
 
 		// Step 1: Get Lambda infrastructure config
@@ -1149,10 +1368,6 @@ export async function submitRemotionRenderWithPreprocessing(
 
 		// Step 2: Upload raw clips from Google Drive to S3
 		const { uploadClipsToS3, cleanupS3Clips } = await import('./s3-upload');
-		const {
-			invokePreprocessorForClips,
-			buildPreprocessorConfigs,
-		} = await import('./preprocessor-invoke');
 
 		logger?.info('[remotion-lambda] After imports [mem: %s]', memLog());
 
@@ -1169,169 +1384,10 @@ export async function submitRemotionRenderWithPreprocessing(
 
 		logger?.info('[remotion-lambda] S3 upload complete [mem: %s]', memLog());
 
-		// Update status: raw upload complete, starting preprocessing
-		updateRenderEntry(renderId, { status: 'rendering' });
-
-		// Step 3: Try preprocessing, fall back to raw clips if it fails.
-		// Preprocessing adds deshake + sharpen via Lambda, but "socket hang up"
-		// errors on Bun/Railway have made it unreliable. Raw clips still render
-		// fine — just without stabilization/sharpening.
-		let useProcessedClips = false;
-		let processedClipResults: Awaited<ReturnType<typeof invokePreprocessorForClips>> | null = null;
-
-		try {
-			const platformSettingsForAspect = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
-			const targetAspect = platformSettingsForAspect.aspectRatio as '9:16' | '1:1' | '4:5' | '16:9';
-			const preprocessorConfigs = buildPreprocessorConfigs(config.clips, s3Clips, 5, targetAspect, config.mode);
-			logger?.info('[remotion-lambda] Attempting preprocessor Lambda for %d clips (aspect=%s)... [mem: %s]',
-				preprocessorConfigs.length, targetAspect, memLog());
-
-			processedClipResults = await invokePreprocessorForClips(
-				preprocessorConfigs,
-				infra.bucketName,
-				infra.region,
-				logger,
-			);
-			useProcessedClips = true;
-			logger?.info('[remotion-lambda] Preprocessing succeeded for all %d clips', processedClipResults.length);
-		} catch (preprocessErr) {
-			const msg = preprocessErr instanceof Error ? preprocessErr.message : String(preprocessErr);
-			logger?.warn?.('[remotion-lambda] Preprocessing failed, falling back to raw clips: %s', msg);
-			// Continue with raw S3 clips — video will render without deshake/sharpen
-		}
-
-		// Step 4: Build Remotion props
-		const platformSettings = PLATFORM_SETTINGS[config.platform] || PLATFORM_SETTINGS['youtube']!;
-		const fps = 30;
-
-		const REMOTION_MODE_SETTINGS: Record<string, { transitionDuration: number; bgColor: string }> = {
-			game_day:  { transitionDuration: 0.5, bgColor: '#000000' },
-			our_story: { transitionDuration: 1.0, bgColor: '#0a0a0a' },
-			quick_hit: { transitionDuration: 0.3, bgColor: '#000000' },
-			showcase:  { transitionDuration: 0.8, bgColor: '#0a0a0a' },
-		};
-		const remotionMode = REMOTION_MODE_SETTINGS[config.mode] || REMOTION_MODE_SETTINGS['game_day']!;
-		const transitionDurationFrames = Math.round(remotionMode.transitionDuration * fps);
-
-		// Build clip props — use processed S3 URLs if preprocessing succeeded,
-		// otherwise fall back to raw S3 URLs with original trim points
-		let clipProps: CLCVideoProps['clips'];
-
-		if (useProcessedClips && processedClipResults) {
-			// Preprocessed: trimStart=0 because FFmpeg already trimmed.
-			// Per-clip Remotion metadata (effect/filter/transitions) flows through
-			// the preprocessor result as passthrough fields — no re-correlation needed.
-			clipProps = processedClipResults.map((pc) => ({
-				src: pc.outputS3Url,
-				length: pc.effectiveDuration,
-				trimStart: 0,
-				effect: pc.effect,
-				filter: pc.filter,
-				transitionType: pc.transitionType,
-				transitionDirection: pc.transitionDirection,
-				speedKeyframes: pc.speedKeyframes,
-			}));
-			logger?.info('[remotion-lambda] Using %d preprocessed clips (stabilized + sharpened)', clipProps.length);
-		} else {
-			// Fallback: use raw S3 clips with original trim/duration from edit plan.
-			clipProps = config.clips.map((clip: any) => {
-				const s3Info = s3Clips.get(clip.fileId);
-				if (!s3Info) throw new Error(`S3 upload missing for clip ${clip.fileId}`);
-				return {
-					src: s3Info.s3Url,
-					length: clip.duration || 5,
-					trimStart: clip.trimStart || 0,
-					effect: clip.effect,
-					filter: clip.filter,
-					transitionType: clip.transitionType,
-					transitionDirection: clip.transitionDirection,
-					speedKeyframes: clip.speedKeyframes,
-				};
-			});
-			logger?.info('[remotion-lambda] Using %d raw clips (no preprocessing — fallback mode)', clipProps.length);
-		}
-
-		// Build text overlay props.
-		// IMPORTANT: forward `animation` so TextOverlay.tsx can run entry/exit
-		// styles (slideUp, bounce, typewriter, etc.) — without this, every title
-		// card is a static box regardless of what the director picked.
-		const textOverlays: CLCVideoProps['textOverlays'] = (config.textOverlays || []).map((overlay, index, arr) => {
-			const startFrame = Math.round(overlay.start * fps);
-			const durationFrames = Math.round(overlay.duration * fps);
-			return {
-				text: overlay.text,
-				startFrame,
-				durationFrames,
-				position: (overlay.position as 'top' | 'center' | 'bottom') || 'bottom',
-				isFirst: index === 0,
-				isLast: index === arr.length - 1,
-				animation: (overlay as { animation?: string }).animation as CLCVideoProps['textOverlays'][number]['animation'],
-			};
-		});
-
-		const props: CLCVideoProps = {
-			clips: clipProps,
-			mode: config.mode,
-			width: platformSettings.width,
-			height: platformSettings.height,
-			fps,
-			textOverlays,
-			musicSrc: config.musicUrl || undefined,
-			musicVolume: 0.3,
-			bgColor: remotionMode.bgColor,
-			transitionDurationFrames,
-		};
-
-		logger?.info('[remotion-lambda] Submitting render (preprocessed via Lambda): %d clips, %dx%d, mode=%s',
-			props.clips.length, props.width, props.height, config.mode);
-
-		// Step 5: Submit to Remotion Lambda (via wrapper that handles hung calls on Railway).
-
-		const totalDuration = clipProps.reduce((sum, c) => sum + c.length, 0);
-		const totalFrames = Math.ceil(totalDuration * fps);
-		const maxRendererLambdas = 4;
-		const framesPerLambda = Math.max(200, Math.ceil(totalFrames / maxRendererLambdas));
-
-		logger?.info('[remotion-lambda] totalFrames=%d, framesPerLambda=%d',
-			totalFrames, framesPerLambda);
-
-		const result = await submitRenderWithRetry({
-			region: infra.region as any,
-			functionName: infra.functionName,
-			serveUrl: infra.serveUrl,
-			composition: 'CLCVideo',
-			codec: 'h264',
-			inputProps: props as unknown as Record<string, unknown>,
-			privacy: 'public',
-			framesPerLambda,
-			timeoutInMilliseconds: 240_000,
-			forceBucketName: infra.bucketName,
-		}, appUrl, logger);
-
-		// Step 6: Update render registry with correlation ID + output location.
-		// lambdaRenderId may come from the streaming-invoke's first message; if
-		// not present, webhook will fill it in when it fires.
-		updateRenderEntry(renderId, {
-			correlationId: result.correlationId,
-			outputS3Key: result.outputS3Key,
-			bucketName: result.bucketName,
-			lambdaRenderId: result.lambdaRenderId || '',
-			functionName: infra.functionName,
-			region: infra.region,
-			status: 'rendering',
-		});
+		const processedS3Keys = await preprocessAndSubmitRender(config, renderId, appUrl, infra, s3Clips, logger);
 
 		// Schedule cleanup of S3 clips after 30 minutes
-		const rawClipsList = [...s3Clips.values()];
-		const processedS3Keys = (useProcessedClips && processedClipResults)
-			? processedClipResults.map(pc => ({
-				fileId: pc.fileId,
-				s3Key: pc.outputS3Key,
-				s3Url: pc.outputS3Url,
-				sizeBytes: pc.outputSizeBytes,
-			}))
-			: [];
-		const allClips = [...rawClipsList, ...processedS3Keys];
+		const allClips = [...s3Clips.values(), ...processedS3Keys];
 
 		setTimeout(async () => {
 			logger?.info('[remotion-lambda] Cleaning up %d S3 clips (raw + processed) for render %s...',
@@ -1339,9 +1395,6 @@ export async function submitRemotionRenderWithPreprocessing(
 			await cleanupS3Clips(allClips, infra.bucketName, infra.region, logger);
 		}, 30 * 60 * 1000);
 
-		logger?.info('[remotion-lambda] Submitted (preprocessed via Lambda). correlationId=%s → our renderId=%s',
-			result.correlationId, renderId);
-
 	} catch (err) {
 		const msg = err instanceof Error ? err.message : String(err);
 		logger?.error?.('[remotion-lambda] Preprocessed render pipeline failed for %s: %s', renderId, msg);
@@ -1349,81 +1402,139 @@ export async function submitRemotionRenderWithPreprocessing(
 	}
 }
 
-// --- Status Check ---
+// --- Multi-Aspect Render (one upload, one preprocess + render per output) ---
 
 /**
- * Check the status of a Remotion Lambda render.
+ * Render one edit plan to several output frames (see multi-render.ts).
  *
- * Event+webhook architecture: Lambda was fire-and-forget invoked, so we can't
- * call getRenderProgress (we don't have Remotion's server-generated renderId).
- * Instead we check two completion signals in this order:
+ * Raw clips are uploaded to S3 once; each output then gets its own
+ * preprocessor pass — smart crop for that aspect — and its own Lambda
+ * render, registered under the output's pre-registered render ID. Outputs
+ * run one after another so a 3-output job doesn't fire 3x the preprocessor
+ * Lambdas at once. One output failing doesn't stop the rest.
  *
- *   1. Webhook store lookup by correlationId — fast path, fires within seconds
- *      of success or error. Delivers outputUrl (success) or errors[] (failure).
- *   2. S3 HeadObject on our known outputS3Key — fallback in case webhook fails
- *      (network drop, Railway restart losing in-memory map, etc.). Object
- *      existence = success.
- *
- * Returns the same RenderResult shape as Shotstack's checkStatus()
- * so the frontend polling code works transparently.
+ * Same fire-and-forget contract as submitRemotionRenderWithPreprocessing().
  */
-export async function checkRemotionStatus(renderId: string, logger?: Logger): Promise<RenderResult> {
-	const entry = renderRegistry.get(renderId);
+export async function submitRemotionRenderMultiAspect(
+	config: Omit<PreprocessedRenderConfig, 'platform' | 'musicUrl'>,
+	outputs: Array<{ renderId: string; platform: string; musicUrl?: string | null }>,
+	appUrl: string,
+	logger?: Logger,
+): Promise<void> {
+	const failAll = (msg: string) => outputs.forEach(o => failRender(o.renderId, msg));
 
-	if (!entry) {
-		return {
-			id: renderId,
-			status: 'failed',
-			error: 'Render not found — it may have expired from memory',
-		};
+	if (typeof appUrl !== 'string' || appUrl.length === 0) {
+		failAll(`submitRemotionRenderMultiAspect: appUrl must be a non-empty string (got type=${typeof appUrl})`);
+		return;
 	}
 
-	// Return cached terminal states
-	if (entry.status === 'done') {
-		return { id: renderId, status: 'done', url: entry.outputUrl };
-	}
-	if (entry.status === 'failed') {
-		return { id: renderId, status: 'failed', error: entry.error };
+	let infra: LambdaInfrastructure;
+	let s3Clips: Map<string, S3UploadedClip>;
+	const { uploadClipsToS3, cleanupS3Clips } = await import('./s3-upload');
+	try {
+		infra = await getInfra(logger);
+		const fileIds = config.clips.map(c => c.fileId);
+		logger?.info('[remotion-lambda] Multi-aspect: uploading %d raw clips once for %d outputs... [mem: %s]',
+			fileIds.length, outputs.length, memLog());
+		s3Clips = await uploadClipsToS3(fileIds, infra.bucketName, infra.region, logger);
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		logger?.error?.('[remotion-lambda] Multi-aspect upload failed: %s', msg);
+		failAll(msg);
+		return;
 	}
 
-	// If Lambda hasn't been submitted yet (still preprocessing), return queued.
-	// Submit sets correlationId + outputS3Key, so their absence means we're pre-submit.
-	if (!entry.correlationId || !entry.outputS3Key || !entry.bucketName || !entry.region) {
-		logger?.info('[remotion-lambda] Render %s still preprocessing (awaiting Lambda submission)', renderId);
-		return { id: renderId, status: 'rendering' };
+	const processedClips: S3UploadedClip[] = [];
+	for (const output of outputs) {
+		try {
+			logger?.info('[remotion-lambda] Multi-aspect: output %s (%s)', output.renderId, output.platform);
+			processedClips.push(...await preprocessAndSubmitRender(
+				{ ...config, platform: output.platform, musicUrl: output.musicUrl },
+				output.renderId,
+				appUrl,
+				infra,
+				s3Clips,
+				logger,
+			));
+		} catch (err) {
+			const msg = err instanceof Error ? err.message : String(err);
+			logger?.error?.('[remotion-lambda] Multi-aspect output %s failed: %s', output.renderId, msg);
+			failRender(output.renderId, msg);
+		}
 	}
 
+	const allClips = [...s3Clips.values(), ...processedClips];
+	setTimeout(async () => {
+		logger?.info('[remotion-lambda] Cleaning up %d S3 clips (raw + processed) for %d outputs...',
+			allClips.length, outputs.length);
+		await cleanupS3Clips(allClips, infra.bucketName, infra.region, logger);
+	}, 30 * 60 * 1000);
+}
+
+// --- Status Check ---
+
+/**
+ * Where a submitted Lambda render reports completion — enough to check it
+ * without the in-memory registry. Multi-render groups persist this on each
+ * output so status survives a restart (multi-render.ts).
+ */
+export interface RemotionRenderLocation {
+	correlationId: string;
+	outputS3Key: string;
+	bucketName: string;
+	region: string;
+}
+
+type RenderOutputResult =
+	| { status: 'done'; url: string; lambdaRenderId?: string; via: 'webhook' | 'S3 fallback' }
+	| { status: 'failed'; error: string; lambdaRenderId?: string };
+
+/**
+ * The completion location of a render this process submitted, or null when
+ * it is unknown here or hasn't reached Lambda yet.
+ */
+export function getRenderLocation(renderId: string): RemotionRenderLocation | null {
+	const entry = renderRegistry.get(renderId);
+	if (!entry?.correlationId || !entry.outputS3Key || !entry.bucketName || !entry.region) return null;
+	return {
+		correlationId: entry.correlationId,
+		outputS3Key: entry.outputS3Key,
+		bucketName: entry.bucketName,
+		region: entry.region,
+	};
+}
+
+/** Whether this process's registry knows the render. */
+export function isRenderTracked(renderId: string): boolean {
+	return renderRegistry.has(renderId);
+}
+
+/**
+ * Look for a finished render at its location, in two steps:
+ *
+ *   1. Webhook store lookup by correlationId — fast path, fires within seconds
+ *      of success or error. Delivers outputUrl (success) or errors[] (failure).
+ *   2. S3 HeadObject on our known outputS3Key — fallback in case webhook fails
+ *      (network drop, Railway restart losing in-memory map, etc.). Object
+ *      existence = success.
+ *
+ * Null when neither signal has fired yet.
+ */
+async function lookupRenderOutput(location: RemotionRenderLocation, logger?: Logger): Promise<RenderOutputResult | null> {
 	// Step 1: Check webhook store first — this is the fast-and-rich path that
 	// gives us error details immediately if the render fails.
 	try {
 		const { getWebhookResult } = await import('./webhook-store');
-		const webhookResult = getWebhookResult(entry.correlationId);
-		if (webhookResult) {
-			if (webhookResult.type === 'success') {
-				entry.status = 'done';
-				entry.outputUrl = webhookResult.outputUrl;
-				entry.lambdaRenderId = webhookResult.renderId;
-				logger?.info('[remotion-lambda] Render %s complete via webhook: %s', renderId, webhookResult.outputUrl);
-				void logRenderDone(renderId, webhookResult.outputUrl);
-				return { id: renderId, status: 'done', url: webhookResult.outputUrl };
-			}
-			if (webhookResult.type === 'error') {
-				const errorMsg = webhookResult.errors?.[0]?.message || 'Lambda render failed';
-				entry.status = 'failed';
-				entry.error = errorMsg;
-				entry.lambdaRenderId = webhookResult.renderId;
-				logger?.error?.('[remotion-lambda] Render %s failed via webhook: %s', renderId, errorMsg);
-				void logRenderFailed(renderId, errorMsg);
-				return { id: renderId, status: 'failed', error: errorMsg };
-			}
-			if (webhookResult.type === 'timeout') {
-				const errorMsg = 'Lambda render timed out';
-				entry.status = 'failed';
-				entry.error = errorMsg;
-				entry.lambdaRenderId = webhookResult.renderId;
-				void logRenderFailed(renderId, errorMsg);
-				return { id: renderId, status: 'failed', error: errorMsg };
-			}
+		const webhookResult = getWebhookResult(location.correlationId);
+		if (webhookResult?.type === 'success') {
+			return { status: 'done', url: webhookResult.outputUrl, lambdaRenderId: webhookResult.renderId, via: 'webhook' };
+		}
+		if (webhookResult?.type === 'error') {
+			const error = webhookResult.errors?.[0]?.message || 'Lambda render failed';
+			return { status: 'failed', error, lambdaRenderId: webhookResult.renderId };
+		}
+		if (webhookResult?.type === 'timeout') {
+			return { status: 'failed', error: 'Lambda render timed out', lambdaRenderId: webhookResult.renderId };
 		}
 	} catch (err) {
 		logger?.warn?.('[remotion-lambda] Webhook store check failed: %s',
@@ -1436,7 +1547,7 @@ export async function checkRemotionStatus(renderId: string, logger?: Logger): Pr
 	try {
 		const { S3Client, HeadObjectCommand } = await import('@aws-sdk/client-s3');
 		const s3 = new S3Client({
-			region: entry.region,
+			region: location.region,
 			credentials: {
 				accessKeyId: process.env.REMOTION_AWS_ACCESS_KEY_ID!,
 				secretAccessKey: process.env.REMOTION_AWS_SECRET_ACCESS_KEY!,
@@ -1444,8 +1555,8 @@ export async function checkRemotionStatus(renderId: string, logger?: Logger): Pr
 		});
 		try {
 			const head = await s3.send(new HeadObjectCommand({
-				Bucket: entry.bucketName,
-				Key: entry.outputS3Key,
+				Bucket: location.bucketName,
+				Key: location.outputS3Key,
 			}));
 			// Reject 0-byte or tiny files — Lambda occasionally creates the key
 			// before writing bytes, and a 0-byte "mp4" would break the frontend
@@ -1454,12 +1565,8 @@ export async function checkRemotionStatus(renderId: string, logger?: Logger): Pr
 			if (sizeBytes < 1024) {
 				logger?.warn?.('[remotion-lambda] S3 object exists but too small (%d bytes), treating as in-progress', sizeBytes);
 			} else {
-				const outputUrl = `https://${entry.bucketName}.s3.${entry.region}.amazonaws.com/${entry.outputS3Key}`;
-				entry.status = 'done';
-				entry.outputUrl = outputUrl;
-				logger?.info('[remotion-lambda] Render %s complete via S3 fallback: %s (%d bytes)', renderId, outputUrl, sizeBytes);
-				void logRenderDone(renderId, outputUrl);
-				return { id: renderId, status: 'done', url: outputUrl };
+				const url = `https://${location.bucketName}.s3.${location.region}.amazonaws.com/${location.outputS3Key}`;
+				return { status: 'done', url, via: 'S3 fallback' };
 			}
 		} catch (err: any) {
 			if (err.name !== 'NotFound' && err.$metadata?.httpStatusCode !== 404) {
@@ -1472,6 +1579,77 @@ export async function checkRemotionStatus(renderId: string, logger?: Logger): Pr
 			err instanceof Error ? err.message : String(err));
 	}
 
+	return null;
+}
+
+/**
+ * Check a render by its location alone — for renders submitted before a
+ * restart or by another replica. 'rendering' until the webhook store or
+ * S3 has a result; the caller decides when that has taken too long.
+ */
+export async function checkRemotionOutput(renderId: string, location: RemotionRenderLocation, logger?: Logger): Promise<RenderResult> {
+	const result = await lookupRenderOutput(location, logger);
+	if (!result) return { id: renderId, status: 'rendering' };
+	return result.status === 'done'
+		? { id: renderId, status: 'done', url: result.url }
+		: { id: renderId, status: 'failed', error: result.error };
+}
+
+/**
+ * Check the status of a Remotion Lambda render.
+ *
+ * Event+webhook architecture: Lambda was fire-and-forget invoked, so we can't
+ * call getRenderProgress (we don't have Remotion's server-generated renderId).
+ * Instead we check the webhook store, then S3 (lookupRenderOutput).
+ *
+ * Returns the same RenderResult shape as Shotstack's checkStatus()
+ * so the frontend polling code works transparently.
+ */
+export async function checkRemotionStatus(renderId: string, logger?: Logger): Promise<RenderResult> {
+	const entry = renderRegistry.get(renderId);
+
+	if (!entry) {
+		return {
+			id: renderId,
+			status: 'failed',
+			error: 'Render not found — it may have expired from memory',
+		};
+	}
+
+	// Return cached terminal states
+	if (entry.status === 'done') {
+		return { id: renderId, status: 'done', url: entry.outputUrl };
+	}
+	if (entry.status === 'failed') {
+		return { id: renderId, status: 'failed', error: entry.error };
+	}
+
+	// If Lambda hasn't been submitted yet (still preprocessing), return queued.
+	// Submit sets correlationId + outputS3Key, so their absence means we're pre-submit.
+	const location = getRenderLocation(renderId);
+	if (!location) {
+		logger?.info('[remotion-lambda] Render %s still preprocessing (awaiting Lambda submission)', renderId);
+		return { id: renderId, status: 'rendering' };
+	}
+
+	const result = await lookupRenderOutput(location, logger);
+	if (result?.status === 'done') {
+		entry.status = 'done';
+		entry.outputUrl = result.url;
+		if (result.lambdaRenderId) entry.lambdaRenderId = result.lambdaRenderId;
+		logger?.info('[remotion-lambda] Render %s complete via %s: %s', renderId, result.via, result.url);
+		void logRenderDone(renderId, result.url);
+		return { id: renderId, status: 'done', url: result.url };
+	}
+	if (result?.status === 'failed') {
+		entry.status = 'failed';
+		entry.error = result.error;
+		if (result.lambdaRenderId) entry.lambdaRenderId = result.lambdaRenderId;
+		logger?.error?.('[remotion-lambda] Render %s failed via webhook: %s', renderId, result.error);
+		void logRenderFailed(renderId, result.error);
+		return { id: renderId, status: 'failed', error: result.error };
+	}
+
 	// Neither signal has fired yet — still rendering.
 	// Safety net: if we've been waiting > 15 min, declare timeout. Local tests
 	// show 12-clip renders take ~5-8 min (preprocessing + 4 chunks + stitching),
@@ -5,6 +5,8 @@
  * and Remotion's frame-based rendering system.
  */
 
+import type { CaptionWord } from './TikTokCaptions';
+
 /** Color grading profiles — CSS filter presets keyed by name */
 export type ColorGrade = 'boost' | 'cinematic' | 'warm' | 'dramatic' | 'documentary' | 'vintage' | 'cool';
 
@@ -16,6 +18,43 @@ export interface SpeedKeyframe {
 	speed: number;
 }
 
+/**
+ * Crop focus keyframe — the cropX/cropY object-position at an output frame
+ * within the clip. Between keyframes VideoClip interpolates linearly, so a
+ * tracked crop follows the subject (see smart-crop.ts tracking mode).
+ */
+export interface CropKeyframe {
+	/** Frame within the clip's own sequence (0 = clip start) */
+	frame: number;
+	/** Horizontal focus point 0-100 */
+	cropX: number;
+	/** Vertical focus point 0-100 */
+	cropY: number;
+}
+
+/**
+ * Music volume at an output frame. CLCVideo interpolates linearly between
+ * keyframes, so music ducks under speech and comes back up after it (see
+ * audio-mix.ts). Frames are strictly increasing.
+ */
+export interface MusicVolumeKeyframe {
+	frame: number;
+	/** Linear gain, same scale as musicVolume */
+	volume: number;
+}
+
+/**
+ * Percent insets from each frame edge that platform UI covers (TikTok's
+ * caption block and action rail, YouTube's progress bar). Text overlays
+ * and captions stay inside them — see overlay-layout.ts.
+ */
+export interface OverlaySafeArea {
+	top: number;
+	right: number;
+	bottom: number;
+	left: number;
+}
+
 /** Text animation style */
 export type TextAnimation = 'fade' | 'slideUp' | 'slideDown' | 'scaleUp' | 'bounce' | 'typewriter';
 
@@ -32,6 +71,8 @@ export interface CLCVideoProps {
 		cropX?: number;   // horizontal focus point 0-100 (default 50 = center)
 		cropY?: number;   // vertical focus point 0-100 (default 75 = court level)
 		zoom?: number;    // zoom level: 1.0 = no zoom, 2.0 = 2x crop in
+		cropKeyframes?: CropKeyframe[]; // tracked crop path — overrides cropX/cropY when 2+ keyframes
+		volume?: number;  // clip audio gain from the loudness pass (default 1.0)
 	}>;
 	mode: string;              // 'game_day' | 'our_story' | 'quick_hit' | 'showcase'
 	width: number;
@@ -48,6 +89,11 @@ export interface CLCVideoProps {
 	}>;
 	musicSrc?: string | null;
 	musicVolume?: number;
+	musicEnvelope?: MusicVolumeKeyframe[]; // ducking under speech — overrides musicVolume when 2+ keyframes
+	loudnessTarget?: number;   // integrated LUFS the mix is normalized to (local engine runs loudnorm)
 	bgColor: string;
 	transitionDurationFrames: number;
+	captions?: CaptionWord[];  // word-level captions on the final timeline (ms) — see transcription.ts
+	safeArea?: OverlaySafeArea; // platform UI insets for overlays + captions (default 8% top/bottom)
+	textScale?: number;        // overlay font multiplier for the frame width (default 1.0)
 }
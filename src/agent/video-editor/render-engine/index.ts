@@ -0,0 +1,234 @@
+/**
+ * Render Engines — one interface over Shotstack, Remotion Lambda and local FFmpeg
+ *
+ * Every engine takes the same CLCVideoProps (what the Remotion composition
+ * renders), assembled by buildRemotionProps() (remotion/render.ts) around
+ * clip props from planClipProps() or processedClipProps(), so an edit plan
+ * can go to whichever engine is available:
+ *
+ *   shotstack — cloud, timeline API (clip effects/grades are Shotstack's own)
+ *   remotion  — AWS Lambda, the CLCVideo composition
+ *   local     — FFmpeg on this machine, no cloud account needed
+ *
+ * Render IDs carry their engine as a prefix (`remotion_`, `local_`; bare IDs
+ * are Shotstack), so render-status and render-cancel find the engine from
+ * the ID alone via engineForRenderId().
+ *
+ * When a cloud engine's quota or credits run out, submitWithFallback()
+ * moves on to the next configured engine (renderEngineOrder). A Remotion
+ * render that hits its quota after submit returned is resubmitted the same
+ * way and its ID forwards to the replacement (resolveRenderId).
+ *
+ * File: src/agent/video-editor/render-engine/index.ts
+ */
+
+import type { CLCVideoProps, SpeedKeyframe } from '../remotion/types';
+import type { ClipPick } from '../pipeline-v2/types';
+import type { PreprocessedRenderConfig } from '../remotion/render';
+import { PLATFORM_SETTINGS } from '../shotstack';
+import { toObjectPositionKeyframes, type CropPathKeyframe } from '../smart-crop';
+import { shotstackEngine } from './shotstack-engine';
+import { remotionEngine } from './remotion-engine';
+import { localEngine } from './local-engine';
+
+// --- Types ---
+
+export type RenderEngineId = 'shotstack' | 'remotion' | 'local';
+
+export interface RenderJobStatus {
+	id: string;
+	engine: RenderEngineId;
+	status: 'queued' | 'fetching' | 'rendering' | 'saving' | 'done' | 'failed' | 'cancelled';
+	/** 0-1 when the engine reports it. */
+	progress?: number;
+	url?: string;
+	localPath?: string;
+	error?: string;
+}
+
+/** Where a finished render can be fetched from: a URL (cloud) or a file on this server (local). */
+export interface RenderOutput {
+	url?: string;
+	localPath?: string;
+}
+
+export interface RenderSubmitOptions {
+	/** PLATFORM_SETTINGS key — Shotstack builds its own timeline per platform. */
+	platform: string;
+	/** Public base URL of this server — needed by the cloud engines' proxy URLs. */
+	appUrl?: string;
+	logger?: Logger;
+}
+
+/**
+ * A render started from the edit plan, for pipelines that need more than
+ * props up front (Remotion: S3 upload and the preprocessor Lambda). The
+ * config — captions, audio mix — is built after the response, since those
+ * stages can outlast the request.
+ */
+export interface RenderPlanRequest {
+	buildConfig: (logger: Logger) => Promise<PreprocessedRenderConfig>;
+	/** Detached logger for work that continues after the request returns. */
+	asyncLogger: (renderId: string) => Logger;
+}
+
+export interface RenderEngine {
+	id: RenderEngineId;
+	/** Start a render and return its ID immediately; poll status() for progress. */
+	submit(props: CLCVideoProps, options: RenderSubmitOptions): Promise<string>;
+	/** Engines with a plan-level pipeline implement this; the render task prefers it. */
+	submitPlan?(request: RenderPlanRequest, options: RenderSubmitOptions): Promise<string>;
+	status(renderId: string, logger?: Logger): Promise<RenderJobStatus>;
+	/** Stop a render. Resolves false when the engine can't stop a submitted render. */
+	cancel(renderId: string, logger?: Logger): Promise<boolean>;
+	/** The finished file, or null while the render isn't done. */
+	output(renderId: string, logger?: Logger): Promise<RenderOutput | null>;
+}
+
+export interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+// --- Registry ---
+
+const ENGINES: Record<RenderEngineId, RenderEngine> = {
+	shotstack: shotstackEngine,
+	remotion: remotionEngine,
+	local: localEngine,
+};
+
+export function getRenderEngine(id: string): RenderEngine {
+	const engine = ENGINES[id as RenderEngineId];
+	if (!engine) throw new Error(`Unknown render engine: ${id}`);
+	return engine;
+}
+
+/** The engine that issued a render ID, by its prefix. */
+export function engineForRenderId(renderId: string): RenderEngine {
+	if (renderId.startsWith('remotion_')) return remotionEngine;
+	if (renderId.startsWith('local_')) return localEngine;
+	return shotstackEngine;
+}
+
+// --- Fallback ---
+
+/** Next engines to try, in order, when an engine's quota runs out. */
+const FALLBACK_ENGINES: Record<RenderEngineId, RenderEngineId[]> = {
+	shotstack: ['remotion', 'local'],
+	remotion: ['shotstack', 'local'],
+	local: [],
+};
+
+/** Renders resubmitted elsewhere after their quota ran out: original ID → replacement. In memory, like the render registries. */
+const replacedRenders = new Map<string, string>();
+
+/** Whether an engine has the credentials it needs. Local needs none. */
+export function isEngineConfigured(id: RenderEngineId): boolean {
+	switch (id) {
+		case 'shotstack':
+			return !!process.env.SHOTSTACK_API_KEY;
+		case 'remotion':
+			return !!(process.env.REMOTION_AWS_ACCESS_KEY_ID && process.env.REMOTION_AWS_SECRET_ACCESS_KEY);
+		case 'local':
+			return true;
+	}
+}
+
+/** `primary`, then its configured fallbacks. */
+export function renderEngineOrder(primary: RenderEngineId): RenderEngineId[] {
+	return [primary, ...FALLBACK_ENGINES[primary].filter(isEngineConfigured)];
+}
+
+/**
+ * Out of render credits, over the plan's quota, or rate/concurrency limited —
+ * another engine may still take the render. Anything else is a real failure.
+ */
+export function isQuotaError(err: unknown): boolean {
+	const message = err instanceof Error ? err.message : String(err ?? '');
+	return /\((402|429)\)|payment required|quota|credits?\b|rate exceeded|too ?many ?requests|concurrency limit|concurrentinvocationlimit/i.test(message);
+}
+
+/**
+ * Submit to the first engine in `engines` that accepts the render, moving
+ * on only when an engine's quota runs out. `buildProps` gets each engine's
+ * ID — clip sources differ (local reads Drive, cloud engines fetch URLs).
+ */
+export async function submitWithFallback(
+	engines: RenderEngineId[],
+	buildProps: (engine: RenderEngineId) => CLCVideoProps | Promise<CLCVideoProps>,
+	options: RenderSubmitOptions,
+): Promise<{ renderId: string; engine: RenderEngineId; fallbackFrom: RenderEngineId[] }> {
+	const fallbackFrom: RenderEngineId[] = [];
+	for (const [index, id] of engines.entries()) {
+		try {
+			const renderId = await getRenderEngine(id).submit(await buildProps(id), options);
+			return { renderId, engine: id, fallbackFrom };
+		} catch (err) {
+			if (!isQuotaError(err) || index === engines.length - 1) throw err;
+			options.logger?.warn?.('[render-engine] %s quota exhausted (%s) — falling back to %s',
+				id, err instanceof Error ? err.message : String(err), engines[index + 1]);
+			fallbackFrom.push(id);
+		}
+	}
+	throw new Error('No render engine available');
+}
+
+/** Forward `renderId`'s status, cancel and output to the render that replaced it. */
+export function replaceRender(renderId: string, replacementId: string): void {
+	replacedRenders.set(renderId, replacementId);
+}
+
+/** The render now standing in for `renderId` (itself when it wasn't replaced). */
+export function resolveRenderId(renderId: string): string {
+	let current = renderId;
+	while (replacedRenders.has(current)) current = replacedRenders.get(current)!;
+	return current;
+}
+
+// --- Clip props from an edit plan ---
+
+/**
+ * Clip props straight from edit plan clips (or the loosely-typed plan
+ * object the render task receives) — trims, speed, grades, transitions and
+ * tracking crop, for buildRemotionProps(). clipSrc() decides where each
+ * clip's media comes from: a Drive proxy or S3 URL for the cloud engines,
+ * `drive:<fileId>` for the local engine, which downloads it itself.
+ */
+export function planClipProps(
+	clips: Array<Pick<ClipPick, 'fileId'> & Partial<ClipPick> & { trimStart?: number; duration?: number; cropPath?: CropPathKeyframe[] }>,
+	options: {
+		platform: string;
+		clipSrc: (clip: { fileId: string }, index: number) => string;
+		/** Used for clips without a duration. */
+		defaultDuration?: number;
+	},
+): CLCVideoProps['clips'] {
+	const platformSettings = PLATFORM_SETTINGS[options.platform] || PLATFORM_SETTINGS['youtube']!;
+	const fps = 30;
+
+	return clips.map((clip, index) => {
+		const speed = clip.speed && clip.speed > 0 ? clip.speed : 1;
+		const speedKeyframes: SpeedKeyframe[] | undefined = speed !== 1 ? [{ at: 0, speed }] : undefined;
+		return {
+			src: options.clipSrc(clip, index),
+			length: clip.duration || options.defaultDuration || 5,
+			trimStart: clip.trimStart || 0,
+			effect: clip.effect,
+			filter: clip.filter,
+			transitionType: clip.transitionType,
+			transitionDirection: clip.transitionDirection,
+			speedKeyframes,
+			zoom: clip.extraZoom,
+			cropKeyframes: clip.cropPath && clip.cropPath.length >= 2
+				? toObjectPositionKeyframes(clip.cropPath, {
+					targetW: platformSettings.width,
+					targetH: platformSettings.height,
+					fps,
+					speed,
+				})
+				: undefined,
+		};
+	});
+}
@@ -0,0 +1,291 @@
+/**
+ * Local FFmpeg RenderEngine — renders CLCVideoProps on this machine
+ *
+ * For working without AWS or Shotstack credentials, and for previewing a
+ * plan before spending cloud render minutes. Jobs run one at a time (an
+ * FFmpeg encode saturates a small instance) in submission order:
+ *
+ *   1. Resolve clip sources — `drive:<fileId>` downloads from Drive,
+ *      http(s) URLs are fetched, anything else is a local path.
+ *   2. Probe each clip for an audio stream.
+ *   3. Build the filter graph (local-graph.ts) and run ffmpeg
+ *      asynchronously, reading progress from its stderr.
+ *
+ * Output lands in .temp-cataloger/ so the download-render task can serve
+ * it. Jobs live in memory like the Remotion render registry — a restart
+ * forgets them — and after JOB_TTL_MS a job is dropped along with its
+ * output file. cancel() kills the running ffmpeg process.
+ *
+ * NOTE: Uses spawn/execFile (not execSync) because Bun's execSync can
+ * trigger process.exit(0) on child completion — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/render-engine/local-engine.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, execFile, type ChildProcess } from 'child_process';
+import type { CLCVideoProps } from '../remotion/types';
+import type { Logger, RenderEngine, RenderJobStatus } from './index';
+import { buildLocalRenderGraph } from './local-graph';
+
+// --- Types ---
+
+interface LocalRenderJob {
+	id: string;
+	status: RenderJobStatus['status'];
+	createdAt: number;
+	props: CLCVideoProps;
+	platform: string;
+	progress: number;
+	outputPath?: string;
+	error?: string;
+	process?: ChildProcess;
+	cancelRequested: boolean;
+	logger?: Logger;
+}
+
+// --- Constants ---
+
+const RENDER_DIR = path.join(process.cwd(), '.temp-cataloger');
+const RENDER_TIMEOUT_MS = 30 * 60 * 1000;
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+const STDERR_TAIL_CHARS = 2000;
+
+// --- Job Registry ---
+
+const jobs = new Map<string, LocalRenderJob>();
+const queue: string[] = [];
+let runningJobId: string | null = null;
+
+function pruneJobs(): void {
+	const cutoff = Date.now() - JOB_TTL_MS;
+	for (const [id, job] of jobs) {
+		if (job.createdAt < cutoff && id !== runningJobId) {
+			if (job.outputPath) fs.rmSync(job.outputPath, { force: true });
+			jobs.delete(id);
+		}
+	}
+}
+
+function pump(): void {
+	if (runningJobId) return;
+	const nextId = queue.shift();
+	if (!nextId) return;
+	const job = jobs.get(nextId);
+	if (!job) return pump();
+
+	runningJobId = nextId;
+	runJob(job)
+		.catch((err) => {
+			job.status = job.cancelRequested ? 'cancelled' : 'failed';
+			job.error = job.cancelRequested ? undefined : (err instanceof Error ? err.message : String(err));
+			job.logger?.error?.('[render-local] %s failed: %s', job.id, job.error || 'cancelled');
+		})
+		.finally(() => {
+			job.process = undefined;
+			runningJobId = null;
+			pump();
+		});
+}
+
+// --- Helpers ---
+
+function run(file: string, args: string[], timeoutMs = 60_000): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(file, args, { timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) reject(new Error(stderr || error.message));
+			else resolve(stdout);
+		});
+	});
+}
+
+async function hasAudioStream(filePath: string): Promise<boolean> {
+	try {
+		const out = await run('ffprobe', ['-v', 'error', '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', filePath]);
+		return out.trim().length > 0;
+	} catch {
+		return false;
+	}
+}
+
+async function fetchToFile(url: string, filePath: string): Promise<string> {
+	const response = await fetch(url);
+	if (!response.ok) throw new Error(`Fetch failed (${response.status}): ${url}`);
+	fs.writeFileSync(filePath, Buffer.from(await response.arrayBuffer()));
+	return filePath;
+}
+
+/** `drive:<fileId>` → Drive download, URL → fetch, else a local path. Sources are fetched once per job. */
+async function resolveSource(src: string, workDir: string, name: string, cache: Map<string, string>): Promise<string> {
+	const cached = cache.get(src);
+	if (cached) return cached;
+
+	let resolved: string;
+	if (src.startsWith('drive:')) {
+		const { downloadVideo } = await import('../google-drive');
+		resolved = await downloadVideo(src.slice('drive:'.length), path.join(workDir, `${name}.mp4`));
+	} else if (/^https?:\/\//.test(src)) {
+		const ext = path.extname(new URL(src).pathname) || '.mp4';
+		resolved = await fetchToFile(src, path.join(workDir, `${name}${ext}`));
+	} else {
+		if (!fs.existsSync(src)) throw new Error(`Source not found: ${src}`);
+		resolved = src;
+	}
+	cache.set(src, resolved);
+	return resolved;
+}
+
+function checkCancelled(job: LocalRenderJob): void {
+	if (job.cancelRequested) throw new Error('cancelled');
+}
+
+// --- Render ---
+
+async function runJob(job: LocalRenderJob): Promise<void> {
+	const { props } = job;
+	const workDir = path.join(RENDER_DIR, job.id);
+	fs.mkdirSync(workDir, { recursive: true });
+	job.status = 'fetching';
+
+	try {
+		const cache = new Map<string, string>();
+		const clipPaths: string[] = [];
+		for (let i = 0; i < props.clips.length; i++) {
+			checkCancelled(job);
+			clipPaths.push(await resolveSource(props.clips[i]!.src, workDir, `clip_${i}`, cache));
+		}
+		const musicPath = props.musicSrc ? await resolveSource(props.musicSrc, workDir, 'music', cache) : undefined;
+		const clipHasAudio = await Promise.all(clipPaths.map(hasAudioStream));
+		checkCancelled(job);
+
+		let textCount = 0;
+		const graph = buildLocalRenderGraph({
+			props,
+			clipPaths,
+			clipHasAudio,
+			musicPath,
+			fontFile: process.env.LOCAL_RENDER_FONT_FILE,
+			writeTextFile: (text) => {
+				const filePath = path.join(workDir, `text_${textCount++}.txt`);
+				fs.writeFileSync(filePath, text, 'utf-8');
+				return filePath;
+			},
+		});
+		const scriptPath = path.join(workDir, 'graph.txt');
+		fs.writeFileSync(scriptPath, graph.filterGraph, 'utf-8');
+
+		const outputPath = path.join(RENDER_DIR, `render_${job.platform}_${props.mode}_${Date.now()}.mp4`);
+		const args = [
+			'-y', '-hide_banner',
+			...graph.inputArgs,
+			'-filter_complex_script', scriptPath,
+			'-map', '[vout]', '-map', '[aout]',
+			'-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p', '-r', String(props.fps),
+			'-c:a', 'aac', '-b:a', '160k',
+			'-t', graph.duration.toFixed(3),
+			'-movflags', '+faststart',
+			outputPath,
+		];
+
+		job.status = 'rendering';
+		job.logger?.info('[render-local] %s: ffmpeg %d clips, %dx%d, %ss', job.id, props.clips.length, props.width, props.height, graph.duration.toFixed(1));
+
+		await new Promise<void>((resolve, reject) => {
+			const child = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+			job.process = child;
+			let stderrTail = '';
+			const timer = setTimeout(() => child.kill('SIGKILL'), RENDER_TIMEOUT_MS);
+
+			child.stderr?.on('data', (chunk: Buffer) => {
+				stderrTail = (stderrTail + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+				const match = /time=(\d+):(\d+):([\d.]+)/.exec(chunk.toString());
+				if (match) {
+					const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+					job.progress = Math.min(1, seconds / Math.max(0.1, graph.duration));
+				}
+			});
+			child.on('error', (err) => {
+				clearTimeout(timer);
+				reject(new Error(`ffmpeg not available: ${err.message}`));
+			});
+			child.on('close', (code, signal) => {
+				clearTimeout(timer);
+				if (code === 0) return resolve();
+				if (job.cancelRequested) return reject(new Error('cancelled'));
+				reject(new Error(signal === 'SIGKILL'
+					? `ffmpeg timed out after ${RENDER_TIMEOUT_MS / 60000} minutes`
+					: `ffmpeg exited ${code}: ${stderrTail.split('\n').slice(-6).join(' ').trim()}`));
+			});
+		});
+
+		job.status = 'done';
+		job.progress = 1;
+		job.outputPath = outputPath;
+		job.logger?.info('[render-local] %s done: %s', job.id, outputPath);
+	} finally {
+		fs.rmSync(workDir, { recursive: true, force: true });
+	}
+}
+
+// --- Engine ---
+
+export const localEngine: RenderEngine = {
+	id: 'local',
+
+	async submit(props, { platform, logger }) {
+		if (props.clips.length === 0) throw new Error('No clips to render');
+		pruneJobs();
+		const id = `local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+		jobs.set(id, {
+			id,
+			status: 'queued',
+			createdAt: Date.now(),
+			props,
+			platform,
+			progress: 0,
+			cancelRequested: false,
+			logger,
+		});
+		queue.push(id);
+		logger?.info('[render-local] Queued %s (%d ahead)', id, queue.length - 1 + (runningJobId ? 1 : 0));
+		pump();
+		return id;
+	},
+
+	async status(renderId) {
+		const job = jobs.get(renderId);
+		if (!job) {
+			return { id: renderId, engine: 'local', status: 'failed', error: 'Render not found — it may have expired from memory' };
+		}
+		return {
+			id: job.id,
+			engine: 'local',
+			status: job.status,
+			progress: job.progress,
+			localPath: job.outputPath,
+			error: job.error,
+		};
+	},
+
+	async cancel(renderId, logger) {
+		const job = jobs.get(renderId);
+		if (!job || job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') return false;
+
+		job.cancelRequested = true;
+		const queued = queue.indexOf(renderId);
+		if (queued >= 0) {
+			queue.splice(queued, 1);
+			job.status = 'cancelled';
+		} else {
+			job.process?.kill('SIGTERM');
+		}
+		logger?.info('[render-local] Cancel requested for %s', renderId);
+		return true;
+	},
+
+	async output(renderId) {
+		const job = jobs.get(renderId);
+		return job?.status === 'done' && job.outputPath ? { localPath: job.outputPath } : null;
+	},
+};
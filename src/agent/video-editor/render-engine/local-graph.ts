@@ -0,0 +1,521 @@
+/**
+ * Local FFmpeg Graph — CLCVideoProps → one ffmpeg filter graph
+ *
+ * Mirrors what the CLCVideo composition draws, so a plan rendered locally
+ * matches the Lambda render closely enough to review and publish:
+ *
+ *   clip      trim (-ss/-t) → speed ramp (per-keyframe segments, atempo for
+ *             audio) → cover crop at cropX/cropY or the tracked crop path →
+ *             Ken Burns (VideoClip's effect curves via zoompan) → color grade
+ *   timeline  hard cut (concat) unless the clip sets transitionType, then an
+ *             xfade/acrossfade of transitionDurationFrames — same overlap
+ *             math as TransitionSeries
+ *   overlays  drawtext inside the platform safe area, per-mode styling from
+ *             TextOverlay.tsx, textScale applied; caption pages from
+ *             props.captions
+ *   audio     clip audio at its mix gain, plus music faded in 1s / out 2s
+ *             at musicVolume or along the ducking envelope, then loudnorm
+ *             to loudnessTarget when the plan went through the mix stage
+ *
+ * Known differences from Remotion: every text animation renders as a fade,
+ * caption pages have no active-word highlight, and grades are eq/hue/
+ * colorchannelmixer approximations of the CSS filter chains.
+ *
+ * Pure string building — local-engine.ts resolves sources and runs ffmpeg.
+ *
+ * File: src/agent/video-editor/render-engine/local-graph.ts
+ */
+
+import type { CLCVideoProps, MusicVolumeKeyframe, OverlaySafeArea, SpeedKeyframe } from '../remotion/types';
+
+// --- Types ---
+
+export interface LocalGraphInput {
+	props: CLCVideoProps;
+	/** Local media file per clip, same order as props.clips. */
+	clipPaths: string[];
+	/** Whether each clip file has an audio stream (silence is generated otherwise). */
+	clipHasAudio: boolean[];
+	musicPath?: string;
+	/** Writes drawtext content to a file and returns its path — avoids filtergraph text escaping. */
+	writeTextFile: (text: string) => string;
+	/** TTF/OTF for drawtext; falls back to fontconfig's Montserrat. */
+	fontFile?: string;
+}
+
+export interface LocalGraph {
+	/** Input arguments (-ss/-t/-i per clip, then music). */
+	inputArgs: string[];
+	/** Contents for -filter_complex_script; produces [vout] and [aout]. */
+	filterGraph: string;
+	/** Output duration in seconds. */
+	duration: number;
+}
+
+interface SpeedSegment {
+	/** Output-time fraction of the clip where the segment starts/ends. */
+	from: number;
+	to: number;
+	speed: number;
+}
+
+// --- Constants ---
+
+const DEFAULT_SAFE_AREA: OverlaySafeArea = { top: 8, right: 0, bottom: 8, left: 0 };
+const AUDIO_FORMAT = 'aformat=sample_rates=48000:channel_layouts=stereo';
+const CAPTION_PAGE_MS = 1200;
+
+/**
+ * CSS filter values from VideoClip's COLOR_GRADES. sepia and brightness
+ * fold into one colorchannelmixer matrix; contrast/saturation go to eq,
+ * hue-rotate to hue.
+ */
+const GRADE_PARAMS: Record<string, { saturate?: number; contrast?: number; brightness?: number; hue?: number; sepia?: number }> = {
+	boost:       { saturate: 1.3, contrast: 1.2, brightness: 1.02 },
+	cinematic:   { saturate: 0.78, contrast: 1.4, brightness: 0.92, hue: 8 },
+	warm:        { saturate: 1.18, sepia: 0.18, brightness: 1.06, contrast: 1.12, hue: -4 },
+	dramatic:    { contrast: 1.5, brightness: 0.88, saturate: 1.4, hue: -3 },
+	documentary: { saturate: 0.78, contrast: 1.32, brightness: 0.97 },
+	vintage:     { sepia: 0.28, saturate: 0.75, contrast: 1.18, brightness: 1.04 },
+	cool:        { saturate: 0.85, brightness: 1.02, contrast: 1.18, hue: 14 },
+};
+
+// Effect pool (mirrors VideoClip's EFFECT_POOLS — server code doesn't import the .tsx)
+const EFFECT_POOLS: Record<string, string[]> = {
+	game_day: ['zoomIn', 'slideRight', 'slideLeft', 'zoomOut'],
+	our_story: ['zoomIn', 'zoomOut'],
+	quick_hit: ['slideRight', 'slideLeft'],
+	showcase: ['zoomIn', 'zoomOut', 'slideRight'],
+};
+
+/** Ken Burns curves from VideoClip: zoom added over the clip, horizontal drift in % of width. */
+const EFFECT_CURVES: Record<string, { zoom: number; eased?: boolean; driftFrom?: number; driftTo?: number; reverse?: boolean }> = {
+	zoomIn:     { zoom: 0.15 },
+	zoomOut:    { zoom: 0.15, reverse: true },
+	pushIn:     { zoom: 0.3 },
+	punchIn:    { zoom: 0.5, eased: true },
+	slideRight: { zoom: 0.1, driftFrom: -3, driftTo: 3 },
+	slideLeft:  { zoom: 0.1, driftFrom: 3, driftTo: -3 },
+};
+
+/** Remotion transition name → xfade transition. */
+const XFADE_TRANSITIONS: Record<string, string | Record<string, string>> = {
+	fade: 'fade',
+	slide: { 'from-left': 'slideright', 'from-right': 'slideleft', 'from-top': 'slidedown', 'from-bottom': 'slideup' },
+	wipe: { 'from-left': 'wiperight', 'from-right': 'wipeleft', 'from-top': 'wipedown', 'from-bottom': 'wipeup' },
+	cube: { 'from-left': 'smoothright', 'from-right': 'smoothleft', 'from-top': 'smoothdown', 'from-bottom': 'smoothup' },
+	flip: 'smoothleft',
+	circleWipe: 'circleopen',
+	clockWipe: 'radial',
+	wheelspin: 'radial',
+	zoomPunch: 'zoomin',
+	glitchSlam: 'pixelize',
+	stripedSlam: 'hlslice',
+	diagonalReveal: 'diagtl',
+	brandBurst: 'circleopen',
+	emeraldBurst: 'circleopen',
+	verticalShutter: 'vertopen',
+};
+
+/** Overlay styling per mode, from TextOverlay.tsx getTextStyle(). */
+function overlayStyle(mode: string, isLast: boolean): {
+	fontSize: number; color: string; box?: string; padY: number; border?: string; uppercase: boolean;
+} {
+	switch (mode) {
+		case 'game_day':
+			return { fontSize: 38, color: 'white', box: '0x1B4D3E@0.85', padY: 12, uppercase: true };
+		case 'our_story':
+			return { fontSize: 30, color: 'white', box: 'black@0.55', padY: 14, uppercase: false };
+		case 'quick_hit':
+			return { fontSize: 44, color: 'white', padY: 8, border: 'black@0.6', uppercase: true };
+		case 'showcase':
+			return isLast
+				? { fontSize: 32, color: '0xC9A84C', box: '0x1B4D3E@0.9', padY: 16, uppercase: false }
+				: { fontSize: 34, color: 'white', box: 'black@0.45', padY: 14, uppercase: false };
+		default:
+			return { fontSize: 32, color: 'white', box: 'black@0.6', padY: 12, uppercase: false };
+	}
+}
+
+// --- Helpers ---
+
+const num = (n: number) => Number(n.toFixed(4)).toString();
+
+/** Same length rule as CLCVideo: at least two transitions plus one second. */
+export function clipFrameCount(length: number, fps: number, transitionDurationFrames: number): number {
+	return Math.max(Math.ceil(length * fps), transitionDurationFrames * 2 + fps);
+}
+
+/**
+ * Speed keyframes → constant-speed segments over the clip's output time.
+ * Between two keyframes the segment plays at their average speed; before
+ * the first / after the last, at that keyframe's speed.
+ */
+export function speedSegments(keyframes: SpeedKeyframe[] | undefined): SpeedSegment[] {
+	const sorted = [...(keyframes || [])]
+		.map(k => ({ at: Math.max(0, Math.min(1, k.at)), speed: Math.max(0.1, k.speed) }))
+		.sort((a, b) => a.at - b.at)
+		.filter((k, i, arr) => i === 0 || k.at > arr[i - 1]!.at);
+	if (sorted.length === 0) return [{ from: 0, to: 1, speed: 1 }];
+	if (sorted.length === 1) return [{ from: 0, to: 1, speed: sorted[0]!.speed }];
+
+	const segments: SpeedSegment[] = [];
+	const first = sorted[0]!;
+	const last = sorted[sorted.length - 1]!;
+	if (first.at > 0) segments.push({ from: 0, to: first.at, speed: first.speed });
+	for (let i = 0; i < sorted.length - 1; i++) {
+		const a = sorted[i]!;
+		const b = sorted[i + 1]!;
+		segments.push({ from: a.at, to: b.at, speed: (a.speed + b.speed) / 2 });
+	}
+	if (last.at < 1) segments.push({ from: last.at, to: 1, speed: last.speed });
+	return segments;
+}
+
+/** atempo only accepts 0.5-2.0 per instance; chain for anything outside. */
+function atempoChain(speed: number): string[] {
+	const filters: string[] = [];
+	let remaining = speed;
+	while (remaining > 2) { filters.push('atempo=2'); remaining /= 2; }
+	while (remaining < 0.5) { filters.push('atempo=0.5'); remaining /= 0.5; }
+	if (Math.abs(remaining - 1) > 0.001) filters.push(`atempo=${num(remaining)}`);
+	return filters;
+}
+
+/** Piecewise-linear expression of `variable` through (x, value) points. */
+function lerpExpression(points: Array<{ x: number; value: number }>, variable: string): string {
+	if (points.length === 0) return '0';
+	if (points.every(p => p.value === points[0]!.value)) return num(points[0]!.value);
+	let expr = num(points[points.length - 1]!.value);
+	for (let i = points.length - 2; i >= 0; i--) {
+		const a = points[i]!;
+		const b = points[i + 1]!;
+		const span = b.x - a.x;
+		const segment = span <= 0 || a.value === b.value
+			? num(a.value)
+			: `${num(a.value)}+${num(b.value - a.value)}*(${variable}-${num(a.x)})/${num(span)}`;
+		expr = `if(lt(${variable},${num(b.x)}),${segment},${expr})`;
+	}
+	return expr;
+}
+
+function gradeFilters(filter: string | undefined): string[] {
+	if (!filter) return [];
+	const grade = GRADE_PARAMS[filter] || GRADE_PARAMS['boost']!;
+	const filters: string[] = [];
+
+	const b = grade.brightness ?? 1;
+	const s = grade.sepia ?? 0;
+	if (b !== 1 || s > 0) {
+		// CSS sepia matrix blended with identity, scaled by brightness
+		const sepia = [
+			[0.393, 0.769, 0.189],
+			[0.349, 0.686, 0.168],
+			[0.272, 0.534, 0.131],
+		];
+		const m = sepia.map((row, r) => row.map((v, c) => b * ((r === c ? 1 - s : 0) + s * v)));
+		filters.push(`colorchannelmixer=rr=${num(m[0]![0]!)}:rg=${num(m[0]![1]!)}:rb=${num(m[0]![2]!)}`
+			+ `:gr=${num(m[1]![0]!)}:gg=${num(m[1]![1]!)}:gb=${num(m[1]![2]!)}`
+			+ `:br=${num(m[2]![0]!)}:bg=${num(m[2]![1]!)}:bb=${num(m[2]![2]!)}`);
+	}
+	if (grade.contrast !== undefined || grade.saturate !== undefined) {
+		filters.push(`eq=contrast=${num(grade.contrast ?? 1)}:saturation=${num(grade.saturate ?? 1)}`);
+	}
+	if (grade.hue) filters.push(`hue=h=${grade.hue}`);
+	return filters;
+}
+
+function xfadeTransition(type: string, direction: string | undefined): string {
+	const mapped = XFADE_TRANSITIONS[type];
+	if (!mapped) return 'fade';
+	if (typeof mapped === 'string') return mapped;
+	return mapped[direction || 'from-right'] || Object.values(mapped)[0]!;
+}
+
+/** Greedy word wrap by estimated glyph width — drawtext doesn't wrap. */
+function wrapText(text: string, fontSize: number, maxWidth: number): string[] {
+	const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * 0.62)));
+	const lines: string[] = [];
+	let line = '';
+	for (const word of text.split(/\s+/).filter(Boolean)) {
+		if (line && (line.length + 1 + word.length) > maxChars) {
+			lines.push(line);
+			line = word;
+		} else {
+			line = line ? `${line} ${word}` : word;
+		}
+	}
+	if (line) lines.push(line);
+	return lines;
+}
+
+// --- Per-clip chains ---
+
+function clipVideoChain(props: CLCVideoProps, index: number, segments: SpeedSegment[], clipSeconds: number, frames: number): string[] {
+	const clip = props.clips[index]!;
+	const { width: W, height: H, fps } = props;
+	const lines: string[] = [];
+	const speedLabel = `vs${index}`;
+
+	// Speed ramp: each segment trims its slice of source time and retimes it
+	if (segments.length === 1) {
+		lines.push(`[${index}:v]setpts=(PTS-STARTPTS)/${num(segments[0]!.speed)}[${speedLabel}]`);
+	} else {
+		const splitLabels = segments.map((_, k) => `[vsp${index}_${k}]`).join('');
+		lines.push(`[${index}:v]split=${segments.length}${splitLabels}`);
+		let sourceAt = 0;
+		segments.forEach((seg, k) => {
+			const sourceLen = (seg.to - seg.from) * clipSeconds * seg.speed;
+			lines.push(`[vsp${index}_${k}]trim=start=${num(sourceAt)}:end=${num(sourceAt + sourceLen)},setpts=(PTS-STARTPTS)/${num(seg.speed)}[vseg${index}_${k}]`);
+			sourceAt += sourceLen;
+		});
+		lines.push(`${segments.map((_, k) => `[vseg${index}_${k}]`).join('')}concat=n=${segments.length}:v=1:a=0[${speedLabel}]`);
+	}
+
+	// Cover crop at the focus point (tracked path when present)
+	const keyframes = clip.cropKeyframes && clip.cropKeyframes.length >= 2 ? clip.cropKeyframes : undefined;
+	const focusX = keyframes
+		? lerpExpression(keyframes.map(k => ({ x: k.frame / fps, value: k.cropX })), 't')
+		: num(clip.cropX ?? 50);
+	const focusY = keyframes
+		? lerpExpression(keyframes.map(k => ({ x: k.frame / fps, value: k.cropY })), 't')
+		: num(clip.cropY ?? 50);
+
+	// Ken Burns: zoom about the focus point over the clip's own frame count
+	const pool = EFFECT_POOLS[props.mode] || EFFECT_POOLS['game_day']!;
+	const effect = clip.effect || pool[index % pool.length]!;
+	const curve = EFFECT_CURVES[effect] || { zoom: 0.05 };
+	const base = Math.max(1, clip.zoom ?? 1);
+	const progress = `(on/${frames})`;
+	const eased = curve.eased ? `${progress}*${progress}` : progress;
+	const zoomExpr = curve.reverse
+		? `${num(base + curve.zoom)}-${num(curve.zoom)}*${eased}`
+		: `${num(base)}+${num(curve.zoom)}*${eased}`;
+	const focusXAt = keyframes
+		? lerpExpression(keyframes.map(k => ({ x: k.frame, value: k.cropX })), 'on')
+		: num(clip.cropX ?? 50);
+	const focusYAt = keyframes
+		? lerpExpression(keyframes.map(k => ({ x: k.frame, value: k.cropY })), 'on')
+		: num(clip.cropY ?? 50);
+	const drift = curve.driftFrom !== undefined
+		? `-(${num(curve.driftFrom)}+${num((curve.driftTo ?? 0) - curve.driftFrom)}*${progress})/100*iw/zoom`
+		: '';
+	const zx = `max(0,min(iw-iw/zoom,(iw-iw/zoom)*(${focusXAt})/100${drift}))`;
+	const zy = `max(0,min(ih-ih/zoom,(ih-ih/zoom)*(${focusYAt})/100))`;
+
+	const chain = [
+		`fps=${fps}`,
+		`tpad=stop_mode=clone:stop_duration=${num(clipSeconds)}`,
+		`trim=duration=${num(clipSeconds)}`,
+		'setpts=PTS-STARTPTS',
+		`scale=${W}:${H}:force_original_aspect_ratio=increase`,
+		`crop=${W}:${H}:'(iw-ow)*(${focusX})/100':'(ih-oh)*(${focusY})/100'`,
+		`zoompan=z='${zoomExpr}':x='${zx}':y='${zy}':d=1:s=${W}x${H}:fps=${fps}`,
+		...gradeFilters(clip.filter),
+		'setsar=1',
+		'format=yuv420p',
+	];
+	lines.push(`[${speedLabel}]${chain.join(',')}[v${index}]`);
+	return lines;
+}
+
+function clipAudioChain(index: number, hasAudio: boolean, segments: SpeedSegment[], clipSeconds: number, volume = 1): string[] {
+	const gain = volume !== 1 ? `volume=${num(volume)},` : '';
+	const finish = `${gain}${AUDIO_FORMAT},apad,atrim=duration=${num(clipSeconds)},asetpts=PTS-STARTPTS[a${index}]`;
+	if (!hasAudio) return [`anullsrc=r=48000:cl=stereo,atrim=duration=${num(clipSeconds)}[a${index}]`];
+
+	if (segments.length === 1) {
+		const tempo = atempoChain(segments[0]!.speed);
+		return [`[${index}:a]${['asetpts=PTS-STARTPTS', ...tempo].join(',')},${finish}`];
+	}
+
+	const lines: string[] = [];
+	lines.push(`[${index}:a]asplit=${segments.length}${segments.map((_, k) => `[asp${index}_${k}]`).join('')}`);
+	let sourceAt = 0;
+	segments.forEach((seg, k) => {
+		const sourceLen = (seg.to - seg.from) * clipSeconds * seg.speed;
+		const filters = [`atrim=start=${num(sourceAt)}:end=${num(sourceAt + sourceLen)}`, 'asetpts=PTS-STARTPTS', ...atempoChain(seg.speed)];
+		lines.push(`[asp${index}_${k}]${filters.join(',')}[aseg${index}_${k}]`);
+		sourceAt += sourceLen;
+	});
+	lines.push(`${segments.map((_, k) => `[aseg${index}_${k}]`).join('')}concat=n=${segments.length}:v=0:a=1,${finish}`);
+	return lines;
+}
+
+/** Piecewise-linear ffmpeg expression in t for a music volume envelope (CLCVideo's interpolate). */
+function envelopeExpression(envelope: MusicVolumeKeyframe[], fps: number): string {
+	const points = envelope.map(k => ({ t: k.frame / fps, v: k.volume }));
+	let expr = num(points[points.length - 1]!.v);
+	for (let i = points.length - 2; i >= 0; i--) {
+		const a = points[i]!;
+		const b = points[i + 1]!;
+		const ramp = a.v === b.v ? num(a.v) : `${num(a.v)}+${num(b.v - a.v)}*(t-${num(a.t)})/${num(b.t - a.t)}`;
+		expr = `if(lt(t,${num(b.t)}),${ramp},${expr})`;
+	}
+	return `if(lt(t,${num(points[0]!.t)}),${num(points[0]!.v)},${expr})`;
+}
+
+// --- Text ---
+
+function overlayDrawtexts(input: LocalGraphInput): string[] {
+	const { props } = input;
+	const { width: W, height: H, fps } = props;
+	const safe = props.safeArea || DEFAULT_SAFE_AREA;
+	const scale = props.textScale ?? 1;
+	const font = input.fontFile ? `fontfile='${input.fontFile}'` : `font='Montserrat'`;
+	const regionLeft = W * safe.left / 100;
+	const regionWidth = W * (100 - safe.left - safe.right) / 100;
+	const filters: string[] = [];
+
+	for (const overlay of props.textOverlays) {
+		const style = overlayStyle(props.mode, overlay.isLast);
+		const fontSize = Math.round(style.fontSize * scale);
+		const lineHeight = Math.round(fontSize * 1.4) + style.padY;
+		const text = style.uppercase ? overlay.text.toUpperCase() : overlay.text;
+		const lines = wrapText(text, fontSize, regionWidth * 0.85);
+		const blockHeight = lines.length * lineHeight;
+
+		const start = overlay.startFrame / fps;
+		const end = (overlay.startFrame + overlay.durationFrames) / fps;
+		const top = overlay.position === 'top'
+			? H * safe.top / 100 + style.padY
+			: overlay.position === 'center'
+				? H * (safe.top + 100 - safe.bottom) / 200 - blockHeight / 2
+				: H - H * safe.bottom / 100 - blockHeight + style.padY;
+
+		lines.forEach((line, i) => {
+			const options = [
+				font,
+				`textfile='${input.writeTextFile(line)}'`,
+				`fontsize=${fontSize}`,
+				`fontcolor=${style.color}`,
+				`x='${num(regionLeft)}+(${num(regionWidth)}-text_w)/2'`,
+				`y=${Math.round(top + i * lineHeight)}`,
+				`enable='between(t,${num(start)},${num(end)})'`,
+				`alpha='max(0,min(min(1,(t-${num(start)})/0.4),(${num(end)}-t)/0.3))'`,
+			];
+			if (style.box) options.push('box=1', `boxcolor=${style.box}`, `boxborderw=${Math.round(style.padY * scale)}`);
+			if (style.border) options.push('borderw=2', `bordercolor=${style.border}`, 'shadowx=3', 'shadowy=3', 'shadowcolor=black@0.8');
+			filters.push(`drawtext=${options.join(':')}`);
+		});
+	}
+	return filters;
+}
+
+/** Caption pages: words grouped into ~1.2s pages, like createTikTokStyleCaptions. */
+function captionDrawtexts(input: LocalGraphInput): string[] {
+	const { props } = input;
+	const words = props.captions || [];
+	if (words.length === 0) return [];
+	const { width: W, height: H } = props;
+	const font = input.fontFile ? `fontfile='${input.fontFile}'` : `font='Montserrat'`;
+	const fontSize = Math.round(64 * Math.min(W, H) / 1080);
+	const bottomOffset = Math.round(H * (props.safeArea ? props.safeArea.bottom / 100 : 0.1));
+
+	const pages: Array<{ startMs: number; endMs: number; text: string[] }> = [];
+	for (const word of words) {
+		const page = pages[pages.length - 1];
+		if (!page || word.fromMs - page.startMs >= CAPTION_PAGE_MS) {
+			pages.push({ startMs: word.fromMs, endMs: word.toMs, text: [word.text.trim()] });
+		} else {
+			page.endMs = word.toMs;
+			page.text.push(word.text.trim());
+		}
+	}
+
+	const filters: string[] = [];
+	pages.forEach((page, p) => {
+		const next = pages[p + 1];
+		const start = page.startMs / 1000;
+		const end = (next ? next.startMs : page.endMs) / 1000;
+		const lines = wrapText(page.text.join(' ').toUpperCase(), fontSize, W * 0.85);
+		const lineHeight = Math.round(fontSize * 1.2);
+		lines.forEach((line, i) => {
+			const y = H - bottomOffset * 2 - (lines.length - i) * lineHeight;
+			filters.push(`drawtext=${[
+				font,
+				`textfile='${input.writeTextFile(line)}'`,
+				`fontsize=${fontSize}`,
+				'fontcolor=white',
+				'borderw=3',
+				'bordercolor=black',
+				`x='(w-text_w)/2'`,
+				`y=${Math.round(y)}`,
+				`enable='between(t,${num(start)},${num(end)})'`,
+			].join(':')}`);
+		});
+	});
+	return filters;
+}
+
+// --- Graph ---
+
+export function buildLocalRenderGraph(input: LocalGraphInput): LocalGraph {
+	const { props } = input;
+	if (props.clips.length === 0) throw new Error('No clips to render');
+	if (input.clipPaths.length !== props.clips.length) throw new Error('Need one source file per clip');
+
+	const fps = props.fps;
+	const transitionSeconds = props.transitionDurationFrames / fps;
+	const inputArgs: string[] = [];
+	const lines: string[] = [];
+
+	let videoLabel = '';
+	let audioLabel = '';
+	let duration = 0;
+
+	props.clips.forEach((clip, index) => {
+		const frames = clipFrameCount(clip.length, fps, props.transitionDurationFrames);
+		const clipSeconds = frames / fps;
+		const segments = speedSegments(clip.speedKeyframes);
+		const sourceSeconds = segments.reduce((sum, seg) => sum + (seg.to - seg.from) * clipSeconds * seg.speed, 0);
+
+		inputArgs.push('-ss', num(clip.trimStart || 0), '-t', num(sourceSeconds + 0.5), '-i', input.clipPaths[index]!);
+		lines.push(...clipVideoChain(props, index, segments, clipSeconds, frames));
+		lines.push(...clipAudioChain(index, input.clipHasAudio[index] ?? false, segments, clipSeconds, clip.volume));
+
+		if (index === 0) {
+			videoLabel = `[v0]`;
+			audioLabel = `[a0]`;
+			duration = clipSeconds;
+			return;
+		}
+
+		if (props.transitionDurationFrames > 0 && clip.transitionType) {
+			const transition = xfadeTransition(clip.transitionType, clip.transitionDirection);
+			lines.push(`${videoLabel}[v${index}]xfade=transition=${transition}:duration=${num(transitionSeconds)}:offset=${num(duration - transitionSeconds)}[vj${index}]`);
+			lines.push(`${audioLabel}[a${index}]acrossfade=d=${num(transitionSeconds)}[aj${index}]`);
+			duration += clipSeconds - transitionSeconds;
+		} else {
+			lines.push(`${videoLabel}[v${index}]concat=n=2:v=1:a=0[vj${index}]`);
+			lines.push(`${audioLabel}[a${index}]concat=n=2:v=0:a=1[aj${index}]`);
+			duration += clipSeconds;
+		}
+		videoLabel = `[vj${index}]`;
+		audioLabel = `[aj${index}]`;
+	});
+
+	// Text overlays + captions
+	const text = [...overlayDrawtexts(input), ...captionDrawtexts(input)];
+	lines.push(text.length > 0 ? `${videoLabel}${text.join(',')}[vout]` : `${videoLabel}null[vout]`);
+
+	// Music under the clip audio, then loudness normalization of the mix
+	const normalize = props.loudnessTarget !== undefined
+		? `,loudnorm=I=${num(props.loudnessTarget)}:TP=-1.5:LRA=11,${AUDIO_FORMAT}`
+		: '';
+	if (input.musicPath) {
+		const musicIndex = props.clips.length;
+		const volume = props.musicEnvelope && props.musicEnvelope.length >= 2
+			? `volume='${envelopeExpression(props.musicEnvelope, fps)}':eval=frame`
+			: `volume=${num(props.musicVolume ?? 0.3)}`;
+		inputArgs.push('-stream_loop', '-1', '-i', input.musicPath);
+		lines.push(`[${musicIndex}:a]${AUDIO_FORMAT},${volume},atrim=duration=${num(duration)},`
+			+ `afade=t=in:st=0:d=1,afade=t=out:st=${num(Math.max(0, duration - 2))}:d=2[music]`);
+		// amix halves each input; volume=2 restores unity gain
+		lines.push(`${audioLabel}[music]amix=inputs=2:duration=first:dropout_transition=0,volume=2${normalize}[aout]`);
+	} else {
+		lines.push(normalize ? `${audioLabel}${normalize.slice(1)}[aout]` : `${audioLabel}anull[aout]`);
+	}
+
+	return { inputArgs, filterGraph: lines.join(';\n'), duration };
+}
@@ -0,0 +1,117 @@
+/**
+ * Remotion Lambda RenderEngine — CLCVideoProps straight to the CLCVideo composition
+ *
+ * submit() takes props whose clip srcs are URLs Lambda workers can fetch
+ * (S3 or our proxy). submitPlan() is the render task's path: it returns a
+ * pre-registered render ID at once and runs the rest after the response —
+ * Drive → S3 upload, the preprocessor Lambda (deshake + sharpen + trim)
+ * when it is deployed, then the Lambda render. If that run fails on a
+ * Lambda quota the plan is resubmitted to the next engine and the ID
+ * forwards to the replacement.
+ *
+ * A Lambda render can't be stopped once renderMediaOnLambda() has fanned
+ * out, so cancel() only reports that.
+ *
+ * File: src/agent/video-editor/render-engine/remotion-engine.ts
+ */
+
+import type { RenderEngine } from './index';
+import { checkRemotionStatus, submitRemotionRenderProps } from '../remotion/render';
+
+export const remotionEngine: RenderEngine = {
+	id: 'remotion',
+
+	async submit(props, { appUrl, logger }) {
+		if (!appUrl) throw new Error('Remotion renders need appUrl (Lambda fetches clips through our proxy)');
+		return submitRemotionRenderProps(props, appUrl, logger);
+	},
+
+	async submitPlan(request, { platform, appUrl, logger }) {
+		if (!appUrl) throw new Error('Remotion renders need appUrl (Lambda fetches clips through our proxy)');
+		const {
+			preRegisterRender,
+			failRender,
+			submitRemotionRenderWithPreprocessing,
+			submitRemotionRenderDirect,
+		} = await import('../remotion/render');
+		const { isPreprocessorAvailable } = await import('../remotion/preprocessor-invoke');
+		const usePreprocessor = isPreprocessorAvailable();
+
+		// Pre-register so render-status works during the multi-minute pipeline
+		const renderId = `remotion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+		preRegisterRender(renderId);
+		logger?.info('[render-remotion] Pre-registered render %s. Starting %s pipeline (async)...',
+			renderId, usePreprocessor ? 'preprocessed' : 'direct');
+
+		// Request-scoped loggers don't survive the response — see makeAsyncLogger
+		const asyncLogger = request.asyncLogger(renderId);
+
+		void (async () => {
+			let config: Awaited<ReturnType<typeof request.buildConfig>> | undefined;
+			try {
+				config = await request.buildConfig(asyncLogger);
+				if (usePreprocessor) {
+					// Drive → S3 → FFmpeg Lambda → S3 → Remotion Lambda. Records its own failures.
+					await submitRemotionRenderWithPreprocessing(config, renderId, appUrl, asyncLogger);
+				} else {
+					// Drive → S3 → Remotion Lambda (no stabilization)
+					await submitRemotionRenderDirect(config, appUrl, asyncLogger, renderId);
+				}
+			} catch (err) {
+				const msg = err instanceof Error ? err.message : String(err);
+				asyncLogger.error?.('[render-remotion] Pipeline error: %s', msg);
+				failRender(renderId, msg);
+			}
+
+			const result = await checkRemotionStatus(renderId, asyncLogger);
+			if (!config || result.status !== 'failed') return;
+			const { isQuotaError, renderEngineOrder, submitWithFallback, planClipProps, replaceRender } = await import('./index');
+			if (!isQuotaError(result.error)) return;
+
+			// Out of Lambda quota — hand the plan to the next engine. Raw Drive
+			// clips: local downloads them, Shotstack fetches through our proxy.
+			try {
+				const { buildRemotionProps } = await import('../remotion/render');
+				const { buildDriveProxyUrl } = await import('../drive-proxy');
+				const planConfig = config;
+				const replacement = await submitWithFallback(
+					renderEngineOrder('remotion').slice(1),
+					engine => buildRemotionProps(planConfig, planClipProps(planConfig.clips, {
+						platform,
+						clipSrc: clip => engine === 'local' ? `drive:${clip.fileId}` : buildDriveProxyUrl(appUrl, clip.fileId),
+					})),
+					{ platform, appUrl, logger: asyncLogger },
+				);
+				replaceRender(renderId, replacement.renderId);
+				asyncLogger.info('[render-remotion] %s hit the Lambda quota — resubmitted to %s as %s',
+					renderId, replacement.engine, replacement.renderId);
+			} catch (err) {
+				asyncLogger.error?.('[render-remotion] Fallback after quota failure failed for %s: %s',
+					renderId, err instanceof Error ? err.message : String(err));
+			}
+		})();
+
+		return renderId;
+	},
+
+	async status(renderId, logger) {
+		const result = await checkRemotionStatus(renderId, logger);
+		return {
+			id: result.id,
+			engine: 'remotion',
+			status: result.status,
+			url: result.url,
+			error: result.error,
+		};
+	},
+
+	async cancel(renderId, logger) {
+		logger?.warn?.('[render-engine] Remotion Lambda cannot cancel a submitted render (%s)', renderId);
+		return false;
+	},
+
+	async output(renderId, logger) {
+		const result = await checkRemotionStatus(renderId, logger);
+		return result.status === 'done' && result.url ? { url: result.url } : null;
+	},
+};
@@ -0,0 +1,72 @@
+/**
+ * Shotstack RenderEngine — CLCVideoProps → Shotstack timeline
+ *
+ * Shotstack applies its own per-mode transitions, effects and overlay
+ * styling (buildRenderTimeline), so only the clip sources, trims, lengths,
+ * overlays and music carry over from the props — plus the audio mix (clip
+ * gains, music level and ducking envelope) when the props have one. Speed
+ * ramps and crops must already be baked into the sources (the render task
+ * preprocesses them). Shotstack has no cancel endpoint.
+ *
+ * File: src/agent/video-editor/render-engine/shotstack-engine.ts
+ */
+
+import type { CLCVideoProps } from '../remotion/types';
+import type { RenderEngine } from './index';
+import { buildRenderTimeline, checkStatus, submitRenderTimeline, type RenderConfig } from '../shotstack';
+
+/** Frame-based props back to Shotstack's seconds-based RenderConfig. */
+export function propsToRenderConfig(props: CLCVideoProps, platform: string): RenderConfig {
+	return {
+		clips: props.clips.map(clip => ({
+			src: clip.src,
+			trim: clip.trimStart || 0,
+			length: clip.length,
+			volume: clip.volume,
+		})),
+		mode: props.mode,
+		platform,
+		textOverlays: props.textOverlays.map(overlay => ({
+			text: overlay.text,
+			start: overlay.startFrame / props.fps,
+			duration: overlay.durationFrames / props.fps,
+			position: overlay.position,
+		})),
+		musicUrl: props.musicSrc,
+		// Without a mix stage keep Shotstack's per-mode music level
+		musicVolume: props.loudnessTarget !== undefined ? props.musicVolume : undefined,
+		musicEnvelope: props.musicEnvelope?.map(k => ({ at: k.frame / props.fps, volume: k.volume })),
+	};
+}
+
+export const shotstackEngine: RenderEngine = {
+	id: 'shotstack',
+
+	async submit(props, { platform, logger }) {
+		const timeline = buildRenderTimeline(propsToRenderConfig(props, platform));
+		const renderId = await submitRenderTimeline(timeline);
+		logger?.info('[render-engine] Shotstack render submitted: %s (%d clips)', renderId, props.clips.length);
+		return renderId;
+	},
+
+	async status(renderId) {
+		const result = await checkStatus(renderId);
+		return {
+			id: result.id,
+			engine: 'shotstack',
+			status: result.status,
+			url: result.url,
+			error: result.error,
+		};
+	},
+
+	async cancel(renderId, logger) {
+		logger?.warn?.('[render-engine] Shotstack cannot cancel a submitted render (%s)', renderId);
+		return false;
+	},
+
+	async output(renderId) {
+		const result = await checkStatus(renderId);
+		return result.status === 'done' && result.url ? { url: result.url } : null;
+	},
+};
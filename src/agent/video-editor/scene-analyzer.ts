@@ -6,7 +6,7 @@
  * File: src/agent/video-editor/scene-analyzer.ts
  */
 
-import { downloadVideo } from './google-drive';
+import { getCachedMedia } from './media-cache';
 
 export interface SceneChange {
 	timestamp: number;       // seconds into the video
@@ -56,122 +56,99 @@ export interface NamedSegment {
 
 /**
  * Analyze a video for scene changes using FFmpeg.
+ * Runs on the media cache's 480p proxy — scene scores don't need full resolution.
  */
 export async function analyzeVideoScenes(fileId: string, filename: string): Promise<SceneAnalysis> {
-	const fs = await import('fs');
-	const path = await import('path');
 	const { execSync } = await import('child_process');
 
-	const tempDir = path.join(process.cwd(), '.temp-cataloger');
-	if (!fs.existsSync(tempDir)) {
-		fs.mkdirSync(tempDir, { recursive: true });
-	}
-
-	const localPath = path.join(tempDir, `analyze_${fileId}.mp4`);
+	const media = await getCachedMedia(fileId, { include: ['proxy', 'keyframes'] });
+	const localPath = media.proxy || media.original;
+	const duration = media.keyframes?.duration || 0;
 
+	// Detect scene changes (threshold 0.3 = moderate sensitivity)
+	// Use metadata=print to capture actual scene scores instead of hardcoding
+	let sceneOutput = '';
 	try {
-		// Download video
-		await downloadVideo(fileId, localPath);
-
-		// Get video duration
-		const durationOutput = execSync(
-			`ffprobe -v error -show_entries format=duration -of csv=p=0 "${localPath}"`,
-			{ stdio: 'pipe' }
-		).toString().trim();
-		const duration = parseFloat(durationOutput) || 0;
-
-		// Detect scene changes (threshold 0.3 = moderate sensitivity)
-		// Use metadata=print to capture actual scene scores instead of hardcoding
-		let sceneOutput = '';
-		try {
-			sceneOutput = execSync(
-				`ffmpeg -i "${localPath}" -vf "select='gt(scene,0.3)',metadata=print:key=lavfi.scene_score" -f null - 2>&1`,
-				{ stdio: 'pipe', timeout: 120000 }
-			).toString();
-		} catch (err: any) {
-			// FFmpeg outputs to stderr even on success, capture it
-			sceneOutput = err.stderr?.toString() || err.stdout?.toString() || '';
-		}
-
-		const sceneChanges: SceneChange[] = [];
-		// Parse timestamps and scores from FFmpeg output
-		// pts_time lines are followed by lavfi.scene_score lines
-		const ptsRegex = /pts_time:(\d+\.?\d*)/g;
-		const scoreRegex = /lavfi\.scene_score=(\d+\.?\d*)/g;
-		const timestamps: number[] = [];
-		const scores: number[] = [];
-
-		let match;
-		while ((match = ptsRegex.exec(sceneOutput)) !== null) {
-			const ts = parseFloat(match[1]!);
-			if (!isNaN(ts)) timestamps.push(ts);
-		}
-		while ((match = scoreRegex.exec(sceneOutput)) !== null) {
-			const sc = parseFloat(match[1]!);
-			if (!isNaN(sc)) scores.push(sc);
-		}
+		sceneOutput = execSync(
+			`ffmpeg -i "${localPath}" -vf "select='gt(scene,0.3)',metadata=print:key=lavfi.scene_score" -f null - 2>&1`,
+			{ stdio: 'pipe', timeout: 120000 }
+		).toString();
+	} catch (err: any) {
+		// FFmpeg outputs to stderr even on success, capture it
+		sceneOutput = err.stderr?.toString() || err.stdout?.toString() || '';
+	}
 
-		for (let i = 0; i < timestamps.length; i++) {
-			sceneChanges.push({
-				timestamp: Math.round(timestamps[i]! * 10) / 10,
-				score: Math.round((scores[i] ?? 0.5) * 1000) / 1000, // real score or fallback to 0.5
-			});
-		}
+	const sceneChanges: SceneChange[] = [];
+	// Parse timestamps and scores from FFmpeg output
+	// pts_time lines are followed by lavfi.scene_score lines
+	const ptsRegex = /pts_time:(\d+\.?\d*)/g;
+	const scoreRegex = /lavfi\.scene_score=(\d+\.?\d*)/g;
+	const timestamps: number[] = [];
+	const scores: number[] = [];
 
-		// High motion moments: scene changes in the first 80% of the video
-		// (action tends to happen mid-video, not at start/end)
-		const highMotionMoments = sceneChanges
-			.filter(sc => sc.timestamp > 2 && sc.timestamp < duration * 0.8)
-			.map(sc => sc.timestamp);
-
-		// Quiet moments: long gaps between scene changes (>5 seconds = likely static shot or interview)
-		const quietMoments: number[] = [];
-		const sortedScenes = [...sceneChanges].sort((a, b) => a.timestamp - b.timestamp);
-		for (let i = 0; i < sortedScenes.length - 1; i++) {
-			const gap = sortedScenes[i + 1]!.timestamp - sortedScenes[i]!.timestamp;
-			if (gap > 5) {
-				quietMoments.push(
-					Math.round((sortedScenes[i]!.timestamp + gap / 2) * 10) / 10
-				);
-			}
-		}
+	let match;
+	while ((match = ptsRegex.exec(sceneOutput)) !== null) {
+		const ts = parseFloat(match[1]!);
+		if (!isNaN(ts)) timestamps.push(ts);
+	}
+	while ((match = scoreRegex.exec(sceneOutput)) !== null) {
+		const sc = parseFloat(match[1]!);
+		if (!isNaN(sc)) scores.push(sc);
+	}
 
-		// Also check gap from start to first scene change
-		if (sortedScenes.length > 0 && sortedScenes[0]!.timestamp > 5) {
-			quietMoments.unshift(Math.round((sortedScenes[0]!.timestamp / 2) * 10) / 10);
-		}
+	for (let i = 0; i < timestamps.length; i++) {
+		sceneChanges.push({
+			timestamp: Math.round(timestamps[i]! * 10) / 10,
+			score: Math.round((scores[i] ?? 0.5) * 1000) / 1000, // real score or fallback to 0.5
+		});
+	}
 
-		// Recommended hooks: scene changes in the first 30% of the video
-		const recommendedHooks = sceneChanges
-			.filter(sc => sc.timestamp > 0.5 && sc.timestamp < duration * 0.3)
-			.slice(0, 5)
-			.map(sc => sc.timestamp);
-
-		// If no hooks found from scene changes, suggest evenly spaced timestamps in first 30%
-		if (recommendedHooks.length === 0 && duration > 3) {
-			const hookWindow = duration * 0.3;
-			recommendedHooks.push(
-				Math.round(hookWindow * 0.2 * 10) / 10,
-				Math.round(hookWindow * 0.5 * 10) / 10,
-				Math.round(hookWindow * 0.8 * 10) / 10,
+	// High motion moments: scene changes in the first 80% of the video
+	// (action tends to happen mid-video, not at start/end)
+	const highMotionMoments = sceneChanges
+		.filter(sc => sc.timestamp > 2 && sc.timestamp < duration * 0.8)
+		.map(sc => sc.timestamp);
+
+	// Quiet moments: long gaps between scene changes (>5 seconds = likely static shot or interview)
+	const quietMoments: number[] = [];
+	const sortedScenes = [...sceneChanges].sort((a, b) => a.timestamp - b.timestamp);
+	for (let i = 0; i < sortedScenes.length - 1; i++) {
+		const gap = sortedScenes[i + 1]!.timestamp - sortedScenes[i]!.timestamp;
+		if (gap > 5) {
+			quietMoments.push(
+				Math.round((sortedScenes[i]!.timestamp + gap / 2) * 10) / 10
 			);
 		}
+	}
 
-		return {
-			duration,
-			sceneChanges,
-			highMotionMoments,
-			quietMoments,
-			recommendedHooks,
-		};
-	} finally {
-		// Clean up
-		try {
-			if (fs.existsSync(localPath)) {
-				fs.unlinkSync(localPath);
-			}
-		} catch { /* best effort */ }
+	// Also check gap from start to first scene change
+	if (sortedScenes.length > 0 && sortedScenes[0]!.timestamp > 5) {
+		quietMoments.unshift(Math.round((sortedScenes[0]!.timestamp / 2) * 10) / 10);
 	}
+
+	// Recommended hooks: scene changes in the first 30% of the video
+	const recommendedHooks = sceneChanges
+		.filter(sc => sc.timestamp > 0.5 && sc.timestamp < duration * 0.3)
+		.slice(0, 5)
+		.map(sc => sc.timestamp);
+
+	// If no hooks found from scene changes, suggest evenly spaced timestamps in first 30%
+	if (recommendedHooks.length === 0 && duration > 3) {
+		const hookWindow = duration * 0.3;
+		recommendedHooks.push(
+			Math.round(hookWindow * 0.2 * 10) / 10,
+			Math.round(hookWindow * 0.5 * 10) / 10,
+			Math.round(hookWindow * 0.8 * 10) / 10,
+		);
+	}
+
+	return {
+		duration,
+		sceneChanges,
+		highMotionMoments,
+		quietMoments,
+		recommendedHooks,
+	};
 }
 
 // --- Scene Description Prompt ---
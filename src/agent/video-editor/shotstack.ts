@@ -9,6 +9,8 @@
  * File: src/agent/video-editor/shotstack.ts
  */
 
+import type { MusicVolumePoint } from './audio-mix';
+
 // --- Types ---
 
 export interface ShotstackConfig {
@@ -139,6 +141,8 @@ export const PLATFORM_SETTINGS: Record<string, { width: number; height: number;
 	youtube:   { width: 1920, height: 1080, maxDuration: 600, aspectRatio: '16:9' },
 	facebook:  { width: 1920, height: 1080, maxDuration: 240, aspectRatio: '16:9' },
 	linkedin:  { width: 1920, height: 1080, maxDuration: 120, aspectRatio: '16:9' },
+	linkedin_square:   { width: 1080, height: 1080, maxDuration: 120, aspectRatio: '1:1' },
+	'linkedin-square': { width: 1080, height: 1080, maxDuration: 120, aspectRatio: '1:1' },
 };
 
 // --- Mode-specific render pacing ---
@@ -574,11 +578,85 @@ export async function submitRenderTimeline(timeline: object): Promise<string> {
  * Used by the render task to convert edit plans into Shotstack JSON.
  */
 export interface RenderConfig {
-	clips: Array<{ src: string; trim?: number; length?: number }>;
+	clips: Array<{ src: string; trim?: number; length?: number; volume?: number }>;
 	mode: string;
 	platform: string;
 	textOverlays?: Array<{ text: string; start: number; duration: number; position?: string }>;
 	musicUrl?: string | null;
+	musicVolume?: number;                 // flat music level (default per mode)
+	musicEnvelope?: MusicVolumePoint[];   // ducking under speech, timeline seconds — see audio-mix.ts
+}
+
+/** Shotstack asset volume tops out at 1 — louder gains are clamped. */
+const MAX_ASSET_VOLUME = 1;
+/** Each envelope ramp becomes this many constant-volume audio clips. */
+const ENVELOPE_RAMP_STEPS = 3;
+
+/**
+ * Start of each clip on the timeline buildRenderTimeline() builds, plus the
+ * video length. Mirrors its layout: every clip is at least two transitions
+ * plus one second long, and overlaps the previous one by a transition.
+ * Used to place speech for the audio mix on Shotstack's own timeline.
+ */
+export function timelineClipStarts(clips: Array<{ length?: number }>, mode: string): { starts: number[]; duration: number } {
+	const modeSettings = MODE_RENDER_SETTINGS[mode] || MODE_RENDER_SETTINGS['game_day']!;
+	const transitionDuration = (MODE_CONFIGS[mode] || MODE_CONFIGS['game_day']!).transitionDuration;
+	const starts: number[] = [];
+	let cursor = 0;
+	let duration = 0;
+	for (const clip of clips) {
+		const length = Math.max(clip.length || modeSettings.defaultClipLength, transitionDuration * 2 + 1);
+		starts.push(cursor);
+		duration = cursor + length;
+		cursor += length - transitionDuration;
+	}
+	return { starts, duration };
+}
+
+/**
+ * A music volume envelope as audio clips — Shotstack volumes are constant
+ * per clip, so each ramp is split into ENVELOPE_RAMP_STEPS steps. Each clip
+ * trims the track to its own start, so the music plays straight through.
+ */
+function musicEnvelopeClips(src: string, envelope: MusicVolumePoint[], videoDuration: number): Array<Record<string, unknown>> {
+	const steps: Array<{ start: number; end: number; volume: number }> = [];
+	const addStep = (start: number, end: number, volume: number) => {
+		end = Math.min(end, videoDuration);
+		if (end - start < 0.01) return;
+		const last = steps[steps.length - 1];
+		if (last && Math.abs(last.volume - volume) < 0.005) last.end = end;
+		else steps.push({ start, end, volume });
+	};
+	for (let i = 0; i < envelope.length - 1; i++) {
+		const a = envelope[i]!;
+		const b = envelope[i + 1]!;
+		if (a.volume === b.volume) {
+			addStep(a.at, b.at, a.volume);
+			continue;
+		}
+		const stepLength = (b.at - a.at) / ENVELOPE_RAMP_STEPS;
+		for (let k = 0; k < ENVELOPE_RAMP_STEPS; k++) {
+			const mid = (k + 0.5) / ENVELOPE_RAMP_STEPS;
+			addStep(a.at + k * stepLength, a.at + (k + 1) * stepLength, a.volume + (b.volume - a.volume) * mid);
+		}
+	}
+	const lastPoint = envelope[envelope.length - 1]!;
+	if (lastPoint.at < videoDuration) addStep(lastPoint.at, videoDuration, lastPoint.volume);
+
+	return steps.map((step, index) => ({
+		asset: {
+			type: 'audio' as const,
+			src,
+			trim: Number(step.start.toFixed(3)),
+			volume: Number(Math.min(MAX_ASSET_VOLUME, step.volume).toFixed(3)),
+			...(steps.length === 1 ? { effect: 'fadeInFadeOut' }
+				: index === 0 ? { effect: 'fadeIn' }
+				: index === steps.length - 1 ? { effect: 'fadeOut' }
+				: {}),
+		},
+		start: Number(step.start.toFixed(3)),
+		length: Number((step.end - step.start).toFixed(3)),
+	}));
 }
 
 export function buildRenderTimeline(config: RenderConfig): object {
@@ -645,7 +723,10 @@ export function buildRenderTimeline(config: RenderConfig): object {
 		// Audio: lower volume on clips so music can breathe (if music present)
 		// First and last clips get a slight volume dip for clean in/out
 		let clipVolume = modeSettings.volume;
-		if (config.musicUrl) {
+		if (clip.volume !== undefined) {
+			// Normalized gain from the audio mix stage replaces the per-mode guess
+			clipVolume = Math.min(MAX_ASSET_VOLUME, clip.volume);
+		} else if (config.musicUrl) {
 			clipVolume = Math.max(0.15, clipVolume - 0.2); // reduce when music plays
 		}
 
@@ -740,6 +821,13 @@ export function buildRenderTimeline(config: RenderConfig): object {
 	}
 	tracks.push({ clips: videoClips });
 
+	// Ducked music is an audio track of constant-volume steps; flat music
+	// stays on the soundtrack below
+	const duckMusic = !!config.musicUrl && !!config.musicEnvelope && config.musicEnvelope.length >= 2 && videoDuration > 0;
+	if (duckMusic) {
+		tracks.push({ clips: musicEnvelopeClips(config.musicUrl!, config.musicEnvelope!, videoDuration) });
+	}
+
 	// Add a solid background color track as the bottommost layer
 	// This ensures ALL transitions (including the last clip's out-transition)
 	// fade into the mode's background color, not black empty timeline
@@ -778,11 +866,13 @@ export function buildRenderTimeline(config: RenderConfig): object {
 	};
 
 	// Add soundtrack if provided
-	if (config.musicUrl) {
+	if (config.musicUrl && !duckMusic) {
 		timeline.soundtrack = {
 			src: config.musicUrl,
 			effect: 'fadeInFadeOut',
-			volume: config.mode === 'showcase' ? 0.4 : config.mode === 'our_story' ? 0.2 : 0.35,
+			volume: config.musicVolume !== undefined
+				? Math.min(MAX_ASSET_VOLUME, config.musicVolume)
+				: config.mode === 'showcase' ? 0.4 : config.mode === 'our_story' ? 0.2 : 0.35,
 		};
 	}
 
@@ -9,9 +9,14 @@
  * remotion/preprocessor-lambda.ts) so Remotion Lambda receives clips that
  * are already correctly framed for each platform's aspect ratio.
  *
+ * Tracking mode (bottom of file) replaces the single static position with
+ * a smoothed crop path that follows the subject through the clip.
+ *
  * File: src/agent/video-editor/smart-crop.ts
  */
 
+import type { CropKeyframe } from './remotion/types';
+
 export type SubjectPosition =
 	| 'center'
 	| 'left'
@@ -120,6 +125,17 @@ export function computeCrop(
 	targetAspect: TargetAspect,
 	subjectPosition: string | undefined | null,
 	extraZoom: number = 1.0,
+): CropSpec {
+	return computeCropAt(sourceW, sourceH, targetAspect, POSITION_MAP[normalizeSubjectPosition(subjectPosition)], extraZoom);
+}
+
+/** computeCrop() for an explicit normalized subject point instead of a named position. */
+function computeCropAt(
+	sourceW: number,
+	sourceH: number,
+	targetAspect: TargetAspect,
+	pos: { x: number; y: number },
+	extraZoom: number = 1.0,
 ): CropSpec {
 	const target = ASPECT_MAP[targetAspect];
 	const targetW = target.w;
@@ -142,8 +158,6 @@ export function computeCrop(
 		};
 	}
 
-	const pos = POSITION_MAP[normalizeSubjectPosition(subjectPosition)];
-
 	// --- Scale factor K resolves three constraints simultaneously ---
 	// (a) Fill horizontally: K_fillX = targetW / sourceW
 	// (b) Fill vertically:   K_fillY = targetH / sourceH
@@ -217,3 +231,336 @@ export function buildCropFilter(
 
 	return `scale=${spec.scaleW}:${spec.scaleH},crop=${spec.cropW}:${spec.cropH}:${spec.cropX}:${spec.cropY}`;
 }
+
+// --- Subject Tracking ---
+//
+// A static crop can't follow a player who runs across the court: by the end
+// of a wide rally they've walked out of a 9:16 window. Tracking mode samples
+// where the subject is over the clip's trim window, smooths that into a crop
+// path, and emits it two ways:
+//   - buildTrackedCropFilter(): FFmpeg scale + crop with time-varying x/y
+//     expressions — used by preprocess.ts and, precomputed server-side, by
+//     the preprocessor Lambda
+//   - toObjectPositionKeyframes(): per-frame cropX/cropY keyframes for
+//     VideoClip.tsx when Remotion renders raw (un-preprocessed) clips
+//
+// Samples come from the catalog's timestampScores[].subjectPosition, or —
+// for local renders without enough scored timestamps — a frame-difference
+// motion heuristic run on the downloaded clip.
+
+/** Where the subject is at `t` seconds into the clip (source time). x/y normalized 0-1. */
+export interface SubjectSample {
+	t: number;
+	x: number;
+	y: number;
+	/** Confidence; motion samples weigh by how much moved. Default 1. */
+	weight?: number;
+}
+
+/** One point on a smoothed crop path: the subject center to frame at `t`. */
+export interface CropPathKeyframe {
+	t: number;
+	x: number;
+	y: number;
+}
+
+export interface TrackedCropSpec {
+	scaleW: number;
+	scaleH: number;
+	cropW: number;
+	cropH: number;
+	/** Crop window origin within the scaled frame at each path keyframe. */
+	keyframes: Array<{ t: number; cropX: number; cropY: number }>;
+	noCropNeeded: boolean;
+}
+
+// Catalog scores just outside the trim window still say where the subject is heading.
+const SAMPLE_WINDOW_PAD_SEC = 1.0;
+// FFmpeg's expression parser nests one if() per keyframe — keep the chain short.
+const MAX_PATH_KEYFRAMES = 16;
+const MIN_KEYFRAME_INTERVAL_SEC = 0.5;
+// Gaussian kernel width for smoothing samples into the path.
+const SMOOTHING_SIGMA_SEC = 0.75;
+// Fastest the crop may pan, in source-frame widths/heights per second.
+// Faster than this reads as a whip-pan, not a camera operator following play.
+const MAX_PAN_PER_SEC = 0.3;
+// Paths that never stray further than this from their mean are held static.
+const STATIC_DEADZONE = 0.04;
+
+/** Normalized point for a catalog subjectPosition string (unknown → center). */
+export function positionToPoint(subjectPosition: string | undefined | null): { x: number; y: number } {
+	return POSITION_MAP[normalizeSubjectPosition(subjectPosition)];
+}
+
+/**
+ * Subject samples from catalog timestampScores that fall in (or just
+ * around) the clip's trim window. Scores without a subjectPosition are
+ * skipped rather than treated as center.
+ */
+export function samplesFromTimestampScores(
+	scores: Array<{ timestamp: number; subjectPosition?: string }>,
+	trimStart: number,
+	duration: number,
+): SubjectSample[] {
+	return scores
+		.filter(s => s.subjectPosition
+			&& s.timestamp >= trimStart - SAMPLE_WINDOW_PAD_SEC
+			&& s.timestamp <= trimStart + duration + SAMPLE_WINDOW_PAD_SEC)
+		.map(s => ({
+			t: Math.max(0, Math.min(duration, s.timestamp - trimStart)),
+			...positionToPoint(s.subjectPosition),
+		}));
+}
+
+/**
+ * Motion heuristic for clips the catalog didn't score densely enough:
+ * decode the trim window at low resolution and take the centroid of
+ * pixels that changed between frames. Handheld pans move everything, so
+ * frames where most of the picture changed are down-weighted.
+ *
+ * Needs FFmpeg on PATH. Returns [] when decoding fails. Uses async
+ * execFile (not execSync) — see contact-sheet.ts.
+ */
+export async function samplesFromFrameDifference(
+	videoPath: string,
+	trimStart: number,
+	duration: number,
+	options: { fps?: number; width?: number; height?: number; threshold?: number } = {},
+): Promise<SubjectSample[]> {
+	const { execFile } = await import('child_process');
+	const fps = options.fps ?? 4;
+	const w = options.width ?? 64;
+	const h = options.height ?? 36;
+	const threshold = options.threshold ?? 24;
+
+	let raw: Buffer;
+	try {
+		raw = await new Promise<Buffer>((resolve, reject) => {
+			execFile(
+				'ffmpeg',
+				['-v', 'error', '-ss', String(trimStart), '-t', String(duration), '-i', videoPath,
+					'-vf', `fps=${fps},scale=${w}:${h},format=gray`, '-f', 'rawvideo', '-'],
+				{ encoding: 'buffer', timeout: 60000, maxBuffer: 64 * 1024 * 1024 },
+				(error, stdout) => (error ? reject(error) : resolve(stdout)),
+			);
+		});
+	} catch {
+		return [];
+	}
+
+	const frameSize = w * h;
+	const frameCount = Math.floor(raw.length / frameSize);
+	const samples: SubjectSample[] = [];
+
+	for (let f = 1; f < frameCount; f++) {
+		const prev = f - 1;
+		let sumX = 0, sumY = 0, moved = 0;
+		for (let i = 0; i < frameSize; i++) {
+			const diff = Math.abs(raw[f * frameSize + i]! - raw[prev * frameSize + i]!);
+			if (diff > threshold) {
+				sumX += (i % w) + 0.5;
+				sumY += Math.floor(i / w) + 0.5;
+				moved++;
+			}
+		}
+		const movedFraction = moved / frameSize;
+		// Nothing moved, or everything did (camera pan / cut) — no usable signal
+		if (movedFraction < 0.002 || movedFraction > 0.5) continue;
+		samples.push({
+			t: Math.min(duration, f / fps),
+			x: sumX / moved / w,
+			y: sumY / moved / h,
+			weight: Math.min(1, movedFraction * 20) * (1 - movedFraction),
+		});
+	}
+	return samples;
+}
+
+/**
+ * Smooth samples into a keyframed crop path over [0, duration]:
+ *   1. Gaussian-weighted average of samples at evenly spaced keyframes
+ *      (at most MAX_PATH_KEYFRAMES, at least MIN_KEYFRAME_INTERVAL_SEC apart)
+ *   2. Pan speed limited to MAX_PAN_PER_SEC so the frame never jerks
+ *   3. A path that barely moves collapses to one keyframe (a static crop)
+ *
+ * Returns [] with no samples — the caller falls back to the static crop.
+ */
+export function smoothCropPath(samples: SubjectSample[], duration: number): CropPathKeyframe[] {
+	if (samples.length === 0) return [];
+
+	const interval = Math.max(MIN_KEYFRAME_INTERVAL_SEC, duration / (MAX_PATH_KEYFRAMES - 1));
+	const times: number[] = [];
+	for (let t = 0; t < duration; t += interval) times.push(t);
+	times.push(duration);
+
+	// 1. Kernel-weighted average. A keyframe far from every sample holds the previous value.
+	const path: CropPathKeyframe[] = [];
+	for (const t of times) {
+		let sumW = 0, sumX = 0, sumY = 0;
+		for (const s of samples) {
+			const k = (s.weight ?? 1) * Math.exp(-((t - s.t) ** 2) / (2 * SMOOTHING_SIGMA_SEC ** 2));
+			sumW += k;
+			sumX += k * s.x;
+			sumY += k * s.y;
+		}
+		const prev = path[path.length - 1];
+		if (sumW < 1e-6) {
+			const nearest = samples.reduce((a, b) => Math.abs(b.t - t) < Math.abs(a.t - t) ? b : a);
+			path.push(prev ? { t, x: prev.x, y: prev.y } : { t, x: nearest.x, y: nearest.y });
+		} else {
+			path.push({ t, x: sumX / sumW, y: sumY / sumW });
+		}
+	}
+
+	// 2. Pan speed limit
+	for (let i = 1; i < path.length; i++) {
+		const maxStep = MAX_PAN_PER_SEC * (path[i]!.t - path[i - 1]!.t);
+		const clampStep = (from: number, to: number) => from + Math.max(-maxStep, Math.min(maxStep, to - from));
+		path[i]!.x = clampStep(path[i - 1]!.x, path[i]!.x);
+		path[i]!.y = clampStep(path[i - 1]!.y, path[i]!.y);
+	}
+
+	// 3. Dead zone — hold still rather than drift a few pixels
+	const meanX = path.reduce((sum, k) => sum + k.x, 0) / path.length;
+	const meanY = path.reduce((sum, k) => sum + k.y, 0) / path.length;
+	const maxDev = Math.max(...path.map(k => Math.max(Math.abs(k.x - meanX), Math.abs(k.y - meanY))));
+	if (maxDev < STATIC_DEADZONE) return [{ t: 0, x: meanX, y: meanY }];
+
+	return path;
+}
+
+/**
+ * Catalog-driven crop path for a clip's trim window, or undefined when the
+ * catalog has fewer than two scored positions in it (not enough to track).
+ */
+export function trackFromTimestampScores(
+	scores: Array<{ timestamp: number; subjectPosition?: string }> | undefined,
+	trimStart: number,
+	duration: number,
+): CropPathKeyframe[] | undefined {
+	const samples = samplesFromTimestampScores(scores || [], trimStart, duration);
+	if (samples.length < 2) return undefined;
+	return smoothCropPath(samples, duration);
+}
+
+/**
+ * Scale + per-keyframe crop origin for a crop path. The scale is solved
+ * for the path's mean position (same constraints as computeCrop), and the
+ * window slides within it to follow each keyframe.
+ */
+export function computeTrackedCrop(
+	sourceW: number,
+	sourceH: number,
+	targetAspect: TargetAspect,
+	path: CropPathKeyframe[],
+	extraZoom: number = 1.0,
+): TrackedCropSpec {
+	const mean = path.length > 0
+		? { x: path.reduce((s, k) => s + k.x, 0) / path.length, y: path.reduce((s, k) => s + k.y, 0) / path.length }
+		: POSITION_MAP['center'];
+	const base = computeCropAt(sourceW, sourceH, targetAspect, mean, extraZoom);
+	if (base.noCropNeeded || path.length === 0) {
+		return { ...base, keyframes: [{ t: 0, cropX: base.cropX, cropY: base.cropY }] };
+	}
+
+	const keyframes = path.map(k => ({
+		t: k.t,
+		cropX: Math.max(0, Math.min(roundEven(k.x * base.scaleW - base.cropW / 2), base.scaleW - base.cropW)),
+		cropY: Math.max(0, Math.min(roundEven(k.y * base.scaleH - base.cropH / 2), base.scaleH - base.cropH)),
+	}));
+	return {
+		scaleW: base.scaleW,
+		scaleH: base.scaleH,
+		cropW: base.cropW,
+		cropH: base.cropH,
+		keyframes,
+		noCropNeeded: false,
+	};
+}
+
+/**
+ * Piecewise-linear FFmpeg expression of `t` through (t, value) keyframes:
+ *   if(lt(t\,1.5)\,340+(410-340)*(t-0)/1.5\,if(...)\,<last value>)
+ * Commas are escaped for use inside a -vf filtergraph (same as the scale
+ * cap in preprocess.ts).
+ */
+export function buildCropExpression(keyframes: Array<{ t: number; value: number }>): string {
+	if (keyframes.length === 0) return '0';
+	if (keyframes.every(k => k.value === keyframes[0]!.value)) return String(keyframes[0]!.value);
+	const last = keyframes[keyframes.length - 1]!;
+	let expr = String(last.value);
+	for (let i = keyframes.length - 2; i >= 0; i--) {
+		const a = keyframes[i]!;
+		const b = keyframes[i + 1]!;
+		const span = b.t - a.t;
+		const segment = a.value === b.value || span <= 0
+			? String(a.value)
+			: `${a.value}+${b.value - a.value}*(t-${a.t.toFixed(3)})/${span.toFixed(3)}`;
+		expr = `if(lt(t\\,${b.t.toFixed(3)})\\,${segment}\\,${expr})`;
+	}
+	return expr;
+}
+
+/**
+ * FFmpeg filter for a tracked crop: like buildCropFilter(), but the crop
+ * window's x/y follow the path over the clip. A one-keyframe path emits a
+ * plain static crop. Expects the input to start at t=0 (-ss before -i).
+ */
+export function buildTrackedCropFilter(
+	sourceW: number,
+	sourceH: number,
+	targetAspect: TargetAspect,
+	path: CropPathKeyframe[],
+	extraZoom: number = 1.0,
+): string {
+	const spec = computeTrackedCrop(sourceW, sourceH, targetAspect, path, extraZoom);
+	if (spec.noCropNeeded) {
+		return `scale=${spec.scaleW}:${spec.scaleH}`;
+	}
+	if (spec.keyframes.length === 1) {
+		const k = spec.keyframes[0]!;
+		return `scale=${spec.scaleW}:${spec.scaleH},crop=${spec.cropW}:${spec.cropH}:${k.cropX}:${k.cropY}`;
+	}
+	const x = buildCropExpression(spec.keyframes.map(k => ({ t: k.t, value: k.cropX })));
+	const y = buildCropExpression(spec.keyframes.map(k => ({ t: k.t, value: k.cropY })));
+	return `scale=${spec.scaleW}:${spec.scaleH},crop=${spec.cropW}:${spec.cropH}:${x}:${y}`;
+}
+
+/**
+ * Crop path → VideoClip cropX/cropY keyframes (object-position percentages)
+ * at output frames. VideoClip renders with objectFit: 'cover', so with
+ * source dimensions we solve for the percentage that puts the subject at
+ * the frame center; without them the subject coordinate is used directly.
+ *
+ * `speed` converts source time to output time (preprocessed speed ramps).
+ */
+export function toObjectPositionKeyframes(
+	path: CropPathKeyframe[],
+	frame: { sourceW?: number; sourceH?: number; targetW: number; targetH: number; fps: number; speed?: number },
+): CropKeyframe[] {
+	const speed = frame.speed && frame.speed > 0 ? frame.speed : 1;
+	const cover = frame.sourceW && frame.sourceH
+		? Math.max(frame.targetW / frame.sourceW, frame.targetH / frame.sourceH)
+		: 0;
+
+	const percent = (p: number, sourceDim: number | undefined, targetDim: number) => {
+		if (!cover || !sourceDim) return Math.round(p * 100);
+		const displayed = sourceDim * cover;
+		if (displayed - targetDim < 1) return 50; // no slack on this axis
+		const ratio = (p * displayed - targetDim / 2) / (displayed - targetDim);
+		return Math.round(Math.max(0, Math.min(1, ratio)) * 100);
+	};
+
+	// Remotion's interpolate() needs strictly increasing frames
+	const keyframes: CropKeyframe[] = [];
+	for (const k of path) {
+		const at = Math.round((k.t / speed) * frame.fps);
+		if (keyframes.length > 0 && at <= keyframes[keyframes.length - 1]!.frame) continue;
+		keyframes.push({
+			frame: at,
+			cropX: percent(k.x, frame.sourceW, frame.targetW),
+			cropY: percent(k.y, frame.sourceH, frame.targetH),
+		});
+	}
+	return keyframes;
+}
@@ -0,0 +1,103 @@
+/**
+ * Timeline Frames — thumbnails for the timeline editor
+ *
+ * The catalog's visualTimeline describes what happens at each sampled
+ * timestamp but stores no images. The timeline editor draws clips over
+ * those moments, so this extracts one small JPEG per visualTimeline frame,
+ * cut from the media cache's 480p proxy (downloaded and proxied once per
+ * file). Frames stay on disk, so later requests are reads.
+ *
+ * NOTE: Uses async exec (not execSync) — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/timeline-frames.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { getCachedMedia } from './media-cache';
+import { loadExistingCatalog } from './cataloger';
+
+// --- Constants ---
+
+const FRAMES_DIR = path.join(process.cwd(), '.temp-cataloger', 'timeline-frames');
+const FRAME_WIDTH = 160;
+const FRAME_QUALITY = 8;       // JPEG quality 1-31, lower=better
+const MAX_FRAMES_PER_FILE = 60;
+
+/** One extraction per file at a time — concurrent thumbnail requests share it. */
+const inFlight = new Map<string, Promise<void>>();
+/** Frames that failed to extract this process — not retried. */
+const failedFrames = new Set<string>();
+
+// --- Helpers ---
+
+function framePath(fileId: string, timestamp: number): string {
+	return path.join(FRAMES_DIR, fileId, `${timestamp.toFixed(1)}.jpg`);
+}
+
+function extractFrame(videoPath: string, timestamp: number, outPath: string): Promise<void> {
+	return new Promise((resolve) => {
+		exec(
+			`ffmpeg -y -ss ${timestamp} -i "${videoPath}" -frames:v 1 -vf scale=${FRAME_WIDTH}:-2 -q:v ${FRAME_QUALITY} "${outPath}"`,
+			{ timeout: 15000 },
+			() => resolve(),
+		);
+	});
+}
+
+async function extractFrames(fileId: string, timestamps: number[]): Promise<void> {
+	const missing = timestamps.filter(t => !fs.existsSync(framePath(fileId, t)) && !failedFrames.has(framePath(fileId, t)));
+	if (missing.length === 0) return;
+
+	fs.mkdirSync(path.join(FRAMES_DIR, fileId), { recursive: true });
+	try {
+		const media = await getCachedMedia(fileId, { include: ['proxy'] });
+		const videoPath = media.proxy || media.original;
+		for (const timestamp of missing) {
+			await extractFrame(videoPath, timestamp, framePath(fileId, timestamp));
+		}
+	} finally {
+		for (const timestamp of missing) {
+			if (!fs.existsSync(framePath(fileId, timestamp))) failedFrames.add(framePath(fileId, timestamp));
+		}
+	}
+}
+
+// --- Public API ---
+
+/**
+ * Path of the thumbnail for `fileId` at `timestamp`, extracting it (and the
+ * file's other visualTimeline frames) on first request. Null when
+ * `timestamp` is not one of the entry's visualTimeline frames, or when
+ * FFmpeg or the download fails.
+ */
+export async function getTimelineFrame(fileId: string, timestamp: number): Promise<string | null> {
+	const target = framePath(fileId, timestamp);
+	if (fs.existsSync(target)) return target;
+	if (failedFrames.has(target)) return null;
+
+	// Wait out another request's extraction for this file — it usually covers this frame
+	const running = inFlight.get(fileId);
+	if (running) {
+		await running.catch(() => undefined);
+		if (fs.existsSync(target)) return target;
+	}
+
+	const catalog = await loadExistingCatalog();
+	const entry = catalog.find(e => e.fileId === fileId);
+	const timestamps = (entry?.visualTimeline?.frames || [])
+		.map(f => f.timestamp)
+		.slice(0, MAX_FRAMES_PER_FILE);
+	// Only frames the timeline editor can ask for — no arbitrary seeks
+	if (!timestamps.some(t => t.toFixed(1) === timestamp.toFixed(1))) return null;
+
+	const pending = extractFrames(fileId, timestamps).finally(() => inFlight.delete(fileId));
+	inFlight.set(fileId, pending);
+	try {
+		await pending;
+	} catch (err) {
+		console.warn('[timeline-frames] Extraction failed for %s: %s', fileId, err instanceof Error ? err.message : String(err));
+	}
+	return fs.existsSync(target) ? target : null;
+}
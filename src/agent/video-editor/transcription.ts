@@ -0,0 +1,364 @@
+/**
+ * Caption Transcription Stage
+ *
+ * Turns the trimmed clips of an edit plan into word-timed captions for
+ * TikTokCaptions.tsx. Each clip's trim window is transcribed on its own
+ * (so we never pay to transcribe footage that didn't make the cut), then
+ * the words are re-timed for speed changes and placed on the final
+ * Remotion timeline by placeCaptionsOnTimeline().
+ *
+ * Transcribers are pluggable:
+ *   - whisper: Groq (GROQ_API_KEY) or OpenAI Whisper with word timestamps.
+ *     Needs the clip audio, which we extract locally with FFmpeg.
+ *   - fixture: reads pre-made transcripts from disk — no network, no FFmpeg.
+ *     Used for offline testing of the caption pipeline.
+ *
+ * NOTE: Uses async exec (not execSync) for FFmpeg — see contact-sheet.ts.
+ *
+ * File: src/agent/video-editor/transcription.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import OpenAI from 'openai';
+import { downloadVideo } from './google-drive';
+import type { CaptionWord } from './remotion/TikTokCaptions';
+import type { CLCVideoProps } from './remotion/types';
+
+// --- Types ---
+
+/** One clip's trim window, as the transcriber sees it. */
+export interface TranscriptionSource {
+	fileId: string;
+	trimStart: number;        // seconds into the source file
+	duration: number;         // seconds of source footage (before speed change)
+	audioPath?: string;       // extracted mono 16kHz WAV — only set when transcriber.needsAudio
+}
+
+/**
+ * A speech-to-text backend. Returned words are relative to the START of the
+ * trim window (0 = trimStart), in source time (before any speed change).
+ */
+export interface Transcriber {
+	name: string;
+	needsAudio: boolean;
+	transcribe(source: TranscriptionSource): Promise<CaptionWord[]>;
+}
+
+/** Edit plan clip fields the caption stage reads. */
+export interface CaptionClipInput {
+	fileId: string;
+	filename?: string;
+	trimStart?: number;
+	duration?: number;
+	speed?: number;
+	contentType?: string;     // from catalog — 'interview' clips are captioned in every mode
+}
+
+/** Captions for one clip, relative to that clip's first output frame. */
+export interface ClipCaptions {
+	clipIndex: number;
+	words: CaptionWord[];
+}
+
+interface Logger {
+	info: (...args: any[]) => void;
+	warn?: (...args: any[]) => void;
+	error?: (...args: any[]) => void;
+}
+
+// --- Constants ---
+
+const TEMP_DIR = path.join(process.cwd(), '.temp-cataloger');
+
+/** Edit modes where every clip gets burned-in captions. */
+const CAPTIONED_MODES = new Set(['our_story']);
+
+// --- Helpers ---
+
+/**
+ * Run a shell command asynchronously. Returns stdout on success.
+ * Unlike execSync, this does not trigger process.exit() on Bun.
+ */
+function runCmd(cmd: string, timeoutMs: number = 120000): Promise<string> {
+	return new Promise((resolve, reject) => {
+		exec(cmd, { timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) {
+				reject(new Error(stderr || error.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+/**
+ * Decide which clips of an edit plan get captions.
+ * our_story: every clip (it's voice-driven). Other modes: interview clips only —
+ * music-driven game_day/quick_hit cuts don't have speech worth captioning.
+ */
+export function selectCaptionedClips(mode: string, clips: CaptionClipInput[]): number[] {
+	const captionAll = CAPTIONED_MODES.has(mode);
+	const indices: number[] = [];
+	clips.forEach((clip, i) => {
+		if (captionAll || clip.contentType === 'interview') indices.push(i);
+	});
+	return indices;
+}
+
+/**
+ * Extract the audio of one trim window as mono 16kHz WAV — the format
+ * Whisper is trained on, and ~2MB/min so it stays under upload limits.
+ */
+export async function extractClipAudio(
+	fileId: string,
+	trimStart: number,
+	duration: number,
+	outputPath: string,
+	logger?: Logger,
+): Promise<string> {
+	if (!fs.existsSync(TEMP_DIR)) {
+		fs.mkdirSync(TEMP_DIR, { recursive: true });
+	}
+
+	const rawPath = path.join(TEMP_DIR, `caption_src_${fileId}_${Date.now()}.mp4`);
+	try {
+		await downloadVideo(fileId, rawPath);
+		await runCmd(
+			`ffmpeg -y -ss ${trimStart} -t ${duration} -i "${rawPath}" -vn -ac 1 -ar 16000 -c:a pcm_s16le "${outputPath}"`,
+		);
+		logger?.info('[transcription] Extracted audio for %s (%ds @ %ds)', fileId, duration, trimStart);
+		return outputPath;
+	} finally {
+		try { if (fs.existsSync(rawPath)) fs.unlinkSync(rawPath); } catch { /* best effort */ }
+	}
+}
+
+// --- Transcribers ---
+
+/**
+ * Whisper transcriber with word-level timestamps.
+ * Prefers Groq (faster, cheaper, same API shape) and falls back to OpenAI.
+ */
+export function createWhisperTranscriber(options?: {
+	apiKey?: string;
+	baseURL?: string;
+	model?: string;
+	language?: string;
+}): Transcriber {
+	const useGroq = !options?.apiKey && !!process.env.GROQ_API_KEY;
+	const client = new OpenAI({
+		apiKey: options?.apiKey || (useGroq ? process.env.GROQ_API_KEY : process.env.OPENAI_API_KEY),
+		baseURL: options?.baseURL || (useGroq ? 'https://api.groq.com/openai/v1' : undefined),
+	});
+	const model = options?.model || (useGroq ? 'whisper-large-v3-turbo' : 'whisper-1');
+
+	return {
+		name: `whisper:${model}`,
+		needsAudio: true,
+		async transcribe(source) {
+			if (!source.audioPath) {
+				throw new Error(`Whisper transcriber needs audio for ${source.fileId}`);
+			}
+			const result = await client.audio.transcriptions.create({
+				file: fs.createReadStream(source.audioPath),
+				model,
+				language: options?.language || 'en',
+				response_format: 'verbose_json',
+				timestamp_granularities: ['word'],
+			});
+			return (result.words || [])
+				.filter(w => w.word.trim().length > 0)
+				.map(w => ({
+					// Leading space so TikTokCaptions' whitespace:pre spans read as words
+					text: ` ${w.word.trim()}`,
+					fromMs: Math.round(w.start * 1000),
+					toMs: Math.round(w.end * 1000),
+				}));
+		},
+	};
+}
+
+/**
+ * Local stand-in transcriber — reads `<fixtureDir>/<fileId>.json`.
+ *
+ * Fixture format: `{ "words": [{ "text": "hello", "fromMs": 1200, "toMs": 1500 }] }`
+ * with times relative to the START OF THE SOURCE FILE, so one fixture covers
+ * any trim window. A missing fixture means "no speech" rather than an error.
+ */
+export function createFixtureTranscriber(fixtureDir: string): Transcriber {
+	return {
+		name: `fixture:${fixtureDir}`,
+		needsAudio: false,
+		async transcribe(source) {
+			const fixturePath = path.join(fixtureDir, `${source.fileId}.json`);
+			if (!fs.existsSync(fixturePath)) return [];
+
+			const parsed = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as { words?: CaptionWord[] };
+			const windowStartMs = source.trimStart * 1000;
+			const windowEndMs = (source.trimStart + source.duration) * 1000;
+
+			return (parsed.words || [])
+				.filter(w => w.fromMs >= windowStartMs && w.fromMs < windowEndMs)
+				.map(w => ({
+					text: w.text.startsWith(' ') ? w.text : ` ${w.text}`,
+					fromMs: Math.round(w.fromMs - windowStartMs),
+					toMs: Math.round(Math.min(w.toMs, windowEndMs) - windowStartMs),
+				}));
+		},
+	};
+}
+
+/**
+ * Pick the transcriber from env:
+ *   CAPTION_TRANSCRIBER=fixture + CAPTION_FIXTURE_DIR → fixture transcriber
+ *   otherwise Whisper when GROQ_API_KEY or OPENAI_API_KEY is set.
+ * Returns null when nothing is configured — the caption stage is then skipped.
+ */
+export function getDefaultTranscriber(): Transcriber | null {
+	if (process.env.CAPTION_TRANSCRIBER === 'fixture') {
+		const dir = process.env.CAPTION_FIXTURE_DIR;
+		return dir ? createFixtureTranscriber(path.resolve(dir)) : null;
+	}
+	if (process.env.CAPTION_TRANSCRIBER === 'none') return null;
+	if (process.env.GROQ_API_KEY || process.env.OPENAI_API_KEY) {
+		return createWhisperTranscriber();
+	}
+	return null;
+}
+
+// --- Caption Stage ---
+
+/**
+ * Transcribe the captioned clips of an edit plan.
+ *
+ * Returns per-clip captions relative to each clip's first OUTPUT frame —
+ * speed changes are already applied (a 0.5x slow-mo clip stretches its words
+ * 2x). Placement on the final timeline happens in placeCaptionsOnTimeline()
+ * once the render path knows the real clip lengths and transitions.
+ *
+ * Per-clip failures are logged and skipped: a missing caption must never
+ * fail the render.
+ */
+export async function transcribeEditPlanClips(
+	clips: CaptionClipInput[],
+	mode: string,
+	options?: {
+		transcriber?: Transcriber | null;
+		clipIndices?: number[];
+		logger?: Logger;
+	},
+): Promise<ClipCaptions[]> {
+	const logger = options?.logger;
+	const transcriber = options?.transcriber === undefined ? getDefaultTranscriber() : options.transcriber;
+	if (!transcriber) {
+		logger?.info('[transcription] No transcriber configured — skipping captions');
+		return [];
+	}
+
+	const indices = options?.clipIndices ?? selectCaptionedClips(mode, clips);
+	if (indices.length === 0) return [];
+
+	logger?.info('[transcription] Transcribing %d/%d clips with %s', indices.length, clips.length, transcriber.name);
+
+	const results: ClipCaptions[] = [];
+	for (const clipIndex of indices) {
+		const clip = clips[clipIndex];
+		if (!clip) continue;
+
+		const trimStart = clip.trimStart || 0;
+		const duration = clip.duration || 5;
+		const speed = clip.speed && clip.speed > 0 ? clip.speed : 1;
+		let audioPath: string | undefined;
+
+		try {
+			if (transcriber.needsAudio) {
+				if (!fs.existsSync(TEMP_DIR)) fs.mkdirSync(TEMP_DIR, { recursive: true });
+				audioPath = await extractClipAudio(
+					clip.fileId,
+					trimStart,
+					duration,
+					path.join(TEMP_DIR, `caption_${clipIndex}_${Date.now()}.wav`),
+					logger,
+				);
+			}
+
+			const words = await transcriber.transcribe({ fileId: clip.fileId, trimStart, duration, audioPath });
+			const outputLengthMs = (duration / speed) * 1000;
+			const retimed = words
+				.map(w => ({
+					text: w.text,
+					fromMs: Math.round(w.fromMs / speed),
+					toMs: Math.round(Math.min(w.toMs / speed, outputLengthMs)),
+				}))
+				.filter(w => w.fromMs < outputLengthMs && w.toMs > w.fromMs);
+
+			logger?.info('[transcription] Clip %d (%s): %d words', clipIndex, clip.filename || clip.fileId, retimed.length);
+			if (retimed.length > 0) results.push({ clipIndex, words: retimed });
+		} catch (err) {
+			logger?.warn?.('[transcription] Clip %d (%s) failed, no captions for it: %s',
+				clipIndex, clip.filename || clip.fileId, err instanceof Error ? err.message : String(err));
+		} finally {
+			try { if (audioPath && fs.existsSync(audioPath)) fs.unlinkSync(audioPath); } catch { /* best effort */ }
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Compute the first frame of each clip on the CLCVideo timeline.
+ *
+ * Mirrors CLCVideo's TransitionSeries layout: each clip occupies
+ * max(ceil(length*fps), 2*transition + 1s) frames, and a transition
+ * (only when clip.transitionType is set) overlaps the previous clip
+ * by transitionDurationFrames.
+ */
+export function computeClipStartFrames(
+	clips: CLCVideoProps['clips'],
+	fps: number,
+	transitionDurationFrames: number,
+): number[] {
+	const starts: number[] = [];
+	let cursor = 0;
+	clips.forEach((clip, index) => {
+		if (index > 0 && transitionDurationFrames > 0 && clip.transitionType) {
+			cursor -= transitionDurationFrames;
+		}
+		starts.push(Math.max(0, cursor));
+		cursor += Math.max(Math.ceil(clip.length * fps), transitionDurationFrames * 2 + fps);
+	});
+	return starts;
+}
+
+/**
+ * Place per-clip captions on the final timeline (ms from composition start).
+ * Words that would overlap the next clip's captions are dropped so two
+ * speakers never share a caption page across a transition.
+ */
+export function placeCaptionsOnTimeline(
+	clipCaptions: ClipCaptions[] | undefined,
+	clips: CLCVideoProps['clips'],
+	fps: number,
+	transitionDurationFrames: number,
+): CaptionWord[] | undefined {
+	if (!clipCaptions || clipCaptions.length === 0) return undefined;
+
+	const starts = computeClipStartFrames(clips, fps, transitionDurationFrames);
+	const placed: CaptionWord[] = [];
+
+	for (const { clipIndex, words } of [...clipCaptions].sort((a, b) => a.clipIndex - b.clipIndex)) {
+		const startFrame = starts[clipIndex];
+		if (startFrame === undefined) continue;
+		const offsetMs = (startFrame / fps) * 1000;
+		for (const w of words) {
+			const word = { text: w.text, fromMs: Math.round(w.fromMs + offsetMs), toMs: Math.round(w.toMs + offsetMs) };
+			const prev = placed[placed.length - 1];
+			if (prev && word.fromMs < prev.toMs) continue;
+			placed.push(word);
+		}
+	}
+
+	return placed.length > 0 ? placed : undefined;
+}
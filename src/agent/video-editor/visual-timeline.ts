@@ -15,7 +15,7 @@
 import * as fs from 'fs';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
-import type { ContactSheet } from './contact-sheet';
+import { generateContactSheetForDriveFile, cleanupContactSheet, type ContactSheet } from './contact-sheet';
 
 // --- Types ---
 
@@ -180,6 +180,22 @@ export async function analyzeContactSheet(
 	}
 }
 
+/**
+ * Full visual timeline for one Drive video: build the contact sheet from the
+ * media cache's proxy, analyze it, and clean up the sheet.
+ */
+export async function generateVisualTimelineForVideo(
+	fileId: string,
+	catalogDescription?: string,
+): Promise<VisualTimeline> {
+	const contactSheet = await generateContactSheetForDriveFile(fileId);
+	try {
+		return await analyzeContactSheet(contactSheet, catalogDescription);
+	} finally {
+		cleanupContactSheet(contactSheet);
+	}
+}
+
 /**
  * Infer action windows from frame descriptions when the model doesn't provide them.
  * Groups consecutive action frames (with gaps up to 1 interval) into windows.
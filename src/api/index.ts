@@ -13,7 +13,12 @@ import videoEditor from '../agent/video-editor';
 import grantWriter from '../agent/grant-writer';
 import donorResearcher from '../agent/donor-researcher';
 import venueProspector from '../agent/venue-prospector';
-import { sendToMakeWebhook, getConfiguredWebhooks } from '../agent/content-creator/webhooks';
+import { getConfiguredWebhooks } from '../agent/content-creator/webhooks';
+import { publishContent } from '../agent/content-creator/publishers';
+import { getPlatformProfile } from '../agent/content-creator/platform-profiles';
+import type { CalendarItemStatus } from '../agent/content-creator/content-calendar';
+import type { GrantStage } from '../agent/grant-writer/grant-pipeline';
+import type { AnswerStatus } from '../agent/grant-writer/answer-library';
 import { createDriveProxyToken, verifyDriveProxyToken } from '../agent/video-editor/drive-proxy';
 import { uploadVideoFile } from '../agent/video-editor/google-drive';
 import {
@@ -25,6 +30,22 @@ import {
 
 const api = createRouter();
 
+/**
+ * Build the public-facing origin for Shotstack proxy URLs.
+ * The internal req.url uses *.agentuity.run.internal which external services can't resolve.
+ * Priority: x-forwarded-host header > Origin header > Referer header > fallback to req.url
+ */
+function getPublicOrigin(req: { header(name: string): string | undefined; url: string }): string {
+	const fwdHost = req.header('x-forwarded-host');
+	const fwdProto = req.header('x-forwarded-proto') || 'https';
+	if (fwdHost) return `${fwdProto}://${fwdHost}`;
+	const originHeader = req.header('origin');
+	if (originHeader) return originHeader;
+	const referer = req.header('referer');
+	if (referer) return new URL(referer).origin;
+	return new URL(req.url).origin;
+}
+
 // State subset for history endpoints (derived from AgentOutput)
 export const StateSchema = AgentOutput.pick(['history', 'threadId', 'translationCount']);
 
@@ -96,7 +117,42 @@ Write ONLY the question. Nothing else.`,
 // Manager agent
 api.post('/manager', manager.validator(), async (c) => {
 	const data = c.req.valid('json');
-	return c.json(await manager.run(data));
+	// Workflows with a video step need the public origin for render webhooks
+	return c.json(await manager.run({ ...data, appUrl: data.appUrl || getPublicOrigin(c.req) }));
+});
+
+// Manager workflow definitions + recent runs
+api.get('/manager/workflows', async (c) => {
+	const { WORKFLOWS } = await import('../agent/manager/workflows');
+	const { listWorkflowRuns } = await import('../agent/manager/workflow-store');
+	const limit = Number(c.req.query('limit')) || 20;
+	try {
+		const runs = await listWorkflowRuns(limit);
+		return c.json({
+			workflows: WORKFLOWS.map(w => ({
+				id: w.id,
+				name: w.name,
+				description: w.description,
+				requiredInput: w.requiredInput,
+				steps: w.steps.map(step => ({ id: step.id, label: step.label, agent: step.agent })),
+			})),
+			runs,
+		});
+	} catch (err) {
+		return c.json({ error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Single workflow run (poll while a long step such as a render is running)
+api.get('/manager/workflows/runs/:runId', async (c) => {
+	const { getWorkflowRun } = await import('../agent/manager/workflow-store');
+	try {
+		const run = await getWorkflowRun(c.req.param('runId'));
+		if (!run) return c.json({ error: 'Workflow run not found' }, 404);
+		return c.json(run);
+	} catch (err) {
+		return c.json({ error: err instanceof Error ? err.message : String(err) }, 500);
+	}
 });
 
 // Content creator agent
@@ -108,25 +164,7 @@ api.post('/content-creator', contentCreator.validator(), async (c) => {
 // Video editor agent
 api.post('/video-editor', videoEditor.validator(), async (c) => {
 	const data = c.req.valid('json');
-	// Build the public-facing origin for Shotstack proxy URLs.
-	// The internal c.req.url uses *.agentuity.run.internal which external services can't resolve.
-	// Priority: x-forwarded-host header > Origin header > Referer header > fallback to req.url
-	const fwdHost = c.req.header('x-forwarded-host');
-	const fwdProto = c.req.header('x-forwarded-proto') || 'https';
-	let origin: string;
-	if (fwdHost) {
-		origin = `${fwdProto}://${fwdHost}`;
-	} else {
-		const originHeader = c.req.header('origin');
-		const referer = c.req.header('referer');
-		if (originHeader) {
-			origin = originHeader;
-		} else if (referer) {
-			origin = new URL(referer).origin;
-		} else {
-			origin = new URL(c.req.url).origin;
-		}
-	}
+	const origin = getPublicOrigin(c.req);
 	// Load usage summary for freshness-aware edit plan generation.
 	// auto-process needs it too — its planner runs headless and otherwise
 	// re-picks the exact same cuts on every render of the same footage.
@@ -445,6 +483,60 @@ const DRIVE_PROXY_CORS: Record<string, string> = {
 	'Access-Control-Max-Age': '86400',
 };
 
+/**
+ * A Range header resolved against a file size. `partial` is false when
+ * there is no (usable) Range — send the whole file. Null = unsatisfiable (416).
+ */
+function resolveByteRange(rangeHeader: string | undefined, size: number): { start: number; end: number; partial: boolean } | null {
+	const range = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader || '');
+	if (!range || !(range[1] || range[2])) return { start: 0, end: size - 1, partial: false };
+
+	let start: number;
+	let end = size - 1;
+	if (range[1]) {
+		start = parseInt(range[1], 10);
+		if (range[2]) end = Math.min(parseInt(range[2], 10), size - 1);
+	} else {
+		start = Math.max(0, size - parseInt(range[2]!, 10)); // suffix range: last N bytes
+	}
+	return start > end ? null : { start, end, partial: true };
+}
+
+/**
+ * Stream a local file with HEAD and Range support (206 / 416), so players
+ * and renderers can seek without pulling the whole file.
+ */
+async function serveLocalFile(
+	req: { method: string; header(name: string): string | undefined },
+	filePath: string,
+	headers: Record<string, string>,
+): Promise<Response> {
+	const fs = await import('fs');
+	const size = fs.statSync(filePath).size;
+	headers = { ...headers, 'Accept-Ranges': 'bytes' };
+
+	if (req.method === 'HEAD') {
+		return new Response(null, { status: 200, headers: { ...headers, 'Content-Length': String(size) } });
+	}
+
+	const range = resolveByteRange(req.header('range'), size);
+	if (!range) {
+		return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+	}
+
+	const { Readable } = await import('stream');
+	const webStream = Readable.toWeb(fs.createReadStream(filePath, { start: range.start, end: range.end }) as any);
+
+	return new Response(webStream as unknown as ReadableStream, {
+		status: range.partial ? 206 : 200,
+		headers: {
+			...headers,
+			'Content-Length': String(range.end - range.start + 1),
+			...(range.partial ? { 'Content-Range': `bytes ${range.start}-${range.end}/${size}` } : {}),
+		},
+	});
+}
+
 // Google Drive file proxy — streams files for Shotstack & Remotion Lambda to consume
 // Secured with HMAC token so only URLs generated by the render task work
 api.get('/drive-file/:fileId', async (c) => {
@@ -474,7 +566,8 @@ api.get('/drive-file/:fileId', async (c) => {
 
 		const fileSize = meta.data.size ? parseInt(meta.data.size, 10) : 0;
 
-		// Common headers for all responses (CORS + cache)
+		// Common headers for all responses (CORS + cache). Range is honored
+		// when Drive reports the size.
 		const baseHeaders: Record<string, string> = {
 			...DRIVE_PROXY_CORS,
 			'Content-Type': meta.data.mimeType || 'video/mp4',
@@ -491,13 +584,23 @@ api.get('/drive-file/:fileId', async (c) => {
 			return new Response(null, { status: 200, headers: baseHeaders });
 		}
 
-		// Stream the full file content from Google Drive
+		// Forward a Range to Drive when we know the size to answer it against;
+		// otherwise stream the full file content
+		const range = fileSize ? resolveByteRange(c.req.header('range'), fileSize) : null;
+		if (fileSize && !range) {
+			return new Response(null, { status: 416, headers: { ...baseHeaders, 'Content-Range': `bytes */${fileSize}` } });
+		}
+		const partial = !!range?.partial;
+
 		const response = await drive.files.get(
 			{ fileId, alt: 'media' },
-			{ responseType: 'stream' },
+			{ responseType: 'stream', ...(partial ? { headers: { Range: `bytes=${range!.start}-${range!.end}` } } : {}) },
 		);
 
-		if (fileSize) {
+		if (partial) {
+			baseHeaders['Content-Length'] = String(range!.end - range!.start + 1);
+			baseHeaders['Content-Range'] = `bytes ${range!.start}-${range!.end}/${fileSize}`;
+		} else if (fileSize) {
 			baseHeaders['Content-Length'] = String(fileSize);
 		}
 
@@ -507,7 +610,7 @@ api.get('/drive-file/:fileId', async (c) => {
 		const webStream = Readable.toWeb(Readable.from(nodeStream));
 
 		return new Response(webStream as unknown as ReadableStream, {
-			status: 200,
+			status: partial ? 206 : 200,
 			headers: baseHeaders,
 		});
 	} catch (err) {
@@ -548,26 +651,135 @@ api.get('/processed-file/:processedId', async (c) => {
 			return c.text('Processed file not found', 404);
 		}
 
-		const stat = fs.statSync(resolvedPath);
-		const stream = fs.createReadStream(resolvedPath);
-		const { Readable } = await import('stream');
-		const webStream = Readable.toWeb(stream as any);
+		return serveLocalFile(c.req, resolvedPath, {
+			...DRIVE_PROXY_CORS,
+			'Content-Type': 'video/mp4',
+			'Cache-Control': 'public, max-age=3600',
+			'Content-Disposition': `inline; filename="processed_${processedId}.mp4"`,
+		});
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error('[processed-file proxy] Error streaming file %s: %s', processedId, msg);
+		return c.text('Failed to stream processed file: ' + msg, 500);
+	}
+});
 
-		return new Response(webStream as unknown as ReadableStream, {
+// Cached 480p proxy (media-cache.ts) — what in-browser previews play. Honors
+// Range so the Remotion Player can seek without pulling the whole file.
+api.get('/media-proxy/:fileId', async (c) => {
+	const fileId = c.req.param('fileId');
+	const token = c.req.query('token');
+
+	if (!fileId || !token) {
+		return c.text('Missing file ID or token', 400);
+	}
+
+	if (!verifyDriveProxyToken(fileId, token)) {
+		return c.text('Invalid token', 403);
+	}
+
+	try {
+		const { findCachedProxy } = await import('../agent/video-editor/media-cache');
+		const proxyPath = findCachedProxy(fileId);
+		if (!proxyPath) {
+			return c.text('Proxy not cached', 404);
+		}
+
+		return serveLocalFile(c.req, proxyPath, {
+			...DRIVE_PROXY_CORS,
+			'Content-Type': 'video/mp4',
+			'Cache-Control': 'public, max-age=3600',
+		});
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error('[media-proxy] Error streaming proxy %s: %s', fileId, msg);
+		return c.text('Failed to stream proxy: ' + msg, 500);
+	}
+});
+
+// Thumbnail at a visualTimeline timestamp, for the timeline editor's clip strips.
+// Signed like the other proxies; the token comes with the edit plan's timelineSources
+api.get('/timeline-frame/:fileId', async (c) => {
+	const fileId = c.req.param('fileId');
+	const timestamp = parseFloat(c.req.query('t') || '');
+	const token = c.req.query('token');
+
+	if (!fileId || !token) return c.text('Missing file ID or token', 400);
+	if (!verifyDriveProxyToken(fileId, token)) return c.text('Invalid token', 403);
+
+	// Drive ids only — the id becomes a directory name
+	if (!/^[\w-]+$/.test(fileId) || !Number.isFinite(timestamp) || timestamp < 0) {
+		return c.text('Invalid file ID or timestamp', 400);
+	}
+
+	try {
+		const fs = await import('fs');
+		const { getTimelineFrame } = await import('../agent/video-editor/timeline-frames');
+		const framePath = await getTimelineFrame(fileId, timestamp);
+		if (!framePath) return c.text('Frame not available', 404);
+
+		return new Response(fs.readFileSync(framePath), {
 			status: 200,
 			headers: {
-				...DRIVE_PROXY_CORS,
-				'Content-Type': 'video/mp4',
-				'Content-Length': String(stat.size),
-				'Accept-Ranges': 'bytes',
-				'Cache-Control': 'public, max-age=3600',
-				'Content-Disposition': `inline; filename="processed_${processedId}.mp4"`,
+				'Content-Type': 'image/jpeg',
+				'Cache-Control': 'public, max-age=86400',
 			},
 		});
 	} catch (err) {
 		const msg = err instanceof Error ? err.message : String(err);
-		console.error('[processed-file proxy] Error streaming file %s: %s', processedId, msg);
-		return c.text('Failed to stream processed file: ' + msg, 500);
+		console.error('[timeline-frame] Error for %s@%s: %s', fileId, timestamp, msg);
+		return c.text('Failed to extract frame: ' + msg, 500);
+	}
+});
+
+// Uploaded music (music-library.ts file backend) — renderers fetch tracks from here
+// when Supabase Storage isn't configured. Signed like the processed-file proxy.
+const MUSIC_MIME_TYPES: Record<string, string> = {
+	'.mp3': 'audio/mpeg',
+	'.wav': 'audio/wav',
+	'.m4a': 'audio/mp4',
+	'.aac': 'audio/aac',
+	'.ogg': 'audio/ogg',
+	'.flac': 'audio/flac',
+};
+
+api.get('/music-file/:fileName', async (c) => {
+	const fileName = c.req.param('fileName');
+	const token = c.req.query('token');
+
+	if (!fileName || !token) {
+		return c.text('Missing file name or token', 400);
+	}
+
+	if (!verifyDriveProxyToken(fileName, token)) {
+		return c.text('Invalid token', 403);
+	}
+
+	try {
+		const fs = await import('fs');
+		const path = await import('path');
+		const { MUSIC_FILES_DIR } = await import('../agent/video-editor/music-library');
+
+		// Security: only serve from the music-files/ directory
+		const musicDir = path.resolve(MUSIC_FILES_DIR);
+		const resolvedPath = path.resolve(path.join(musicDir, fileName));
+		if (!resolvedPath.startsWith(musicDir + path.sep)) {
+			return c.text('Access denied', 403);
+		}
+
+		if (!fs.existsSync(resolvedPath)) {
+			return c.text('Music file not found', 404);
+		}
+
+		return serveLocalFile(c.req, resolvedPath, {
+			...DRIVE_PROXY_CORS,
+			'Content-Type': MUSIC_MIME_TYPES[path.extname(resolvedPath).toLowerCase()] || 'application/octet-stream',
+			'Cache-Control': 'public, max-age=86400',
+		});
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error('[music-file proxy] Error streaming file %s: %s', fileName, msg);
+		return c.text('Failed to stream music file: ' + msg, 500);
 	}
 });
 
@@ -630,16 +842,411 @@ export const WebhookInput = s.object({
 
 api.post('/webhook/publish', validator({ input: WebhookInput }), async (c) => {
 	const { platform, content, imageUrl, imageStyle, scheduledTime } = c.req.valid('json');
-	const result = await sendToMakeWebhook(platform, content, imageUrl, imageStyle, scheduledTime);
-	return c.json(result);
+	const { success, message } = await publishContent({ platform, content, imageUrl, imageStyle, scheduledTime });
+	return c.json({ success, message });
 });
 
 // Get configured webhooks
 api.get('/webhook/config', async (c) => {
-	const configured = getConfiguredWebhooks();
+	const configured = await getConfiguredWebhooks();
 	return c.json({ configuredPlatforms: configured });
 });
 
+// --- Publishing (adapters, routing, log) ---
+
+// Per-platform publisher routing (secrets are never returned, webhook URLs only redacted)
+api.get('/publish/routing', async (c) => {
+	const { describePublishRouting, PUBLISHER_ADAPTERS } = await import('../agent/content-creator/publishers');
+	try {
+		return c.json({ ...await describePublishRouting(), adapters: PUBLISHER_ADAPTERS });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Replace the routing config. Body: { platforms: { linkedin: { adapter, url, ... } }, default? }
+// A route without a url keeps its stored one.
+api.put('/publish/routing', async (c) => {
+	const { savePublishRouting, describePublishRouting } = await import('../agent/content-creator/publishers');
+	const body = await c.req.json();
+	if (!body || typeof body.platforms !== 'object') {
+		return c.json({ success: false, error: 'platforms object is required' }, 400);
+	}
+	try {
+		const saved = await savePublishRouting({ platforms: body.platforms, default: body.default });
+		return c.json({ success: true, routing: await describePublishRouting(saved) });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// Every publish attempt, newest first. ?platform= filters, ?limit= caps.
+api.get('/publish/log', async (c) => {
+	const { listPublishLog } = await import('../agent/content-creator/publish-log');
+	try {
+		const entries = await listPublishLog({
+			platform: c.req.query('platform') || undefined,
+			limit: parseInt(c.req.query('limit') || '100'),
+		});
+		return c.json({ entries, count: entries.length });
+	} catch (err) {
+		return c.json({ entries: [], count: 0, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// --- Organization Profile (facts the agents' prompts are rendered from) ---
+
+// The current profile, plus metrics whose as-of date is missing or too old
+api.get('/org-profile', async (c) => {
+	const { getOrgProfile, describeStaleMetrics, METRIC_MAX_AGE_DAYS } = await import('../lib/org-profile');
+	try {
+		const profile = await getOrgProfile();
+		return c.json({
+			success: true,
+			profile,
+			staleMetrics: describeStaleMetrics(profile),
+			metricMaxAgeDays: METRIC_MAX_AGE_DAYS,
+		});
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Replace top-level fields (metrics, sites, programs, ...). Send the `version`
+// the edit started from to get a 409 instead of overwriting a newer save.
+api.patch('/org-profile', async (c) => {
+	const { updateOrgProfile } = await import('../lib/org-profile');
+	const body = await c.req.json();
+	const fields = [
+		'name', 'shortName', 'ein', 'taxStatus', 'headquarters', 'mission', 'leadership',
+		'budget', 'programs', 'sites', 'metrics', 'differentiators', 'focusAreas',
+	] as const;
+	const changes = Object.fromEntries(fields.filter(f => body?.[f] !== undefined).map(f => [f, body[f]]));
+	if (Object.keys(changes).length === 0) {
+		return c.json({ success: false, error: `Nothing to update — send any of ${fields.join(', ')}` }, 400);
+	}
+
+	try {
+		const profile = await updateOrgProfile(changes, typeof body.version === 'number' ? body.version : undefined);
+		return profile
+			? c.json({ success: true, profile })
+			: c.json({ success: false, error: 'Profile was changed by someone else — reload and try again' }, 409);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// --- Grant Pipeline (tracked grant opportunities) ---
+
+// Tracked grants, soonest deadline first. ?stage= and ?owner= filter.
+api.get('/grant-pipeline', async (c) => {
+	const { listPipelineGrants } = await import('../agent/grant-writer/grant-pipeline');
+	try {
+		const grants = await listPipelineGrants({
+			stage: (c.req.query('stage') || undefined) as GrantStage | undefined,
+			owner: c.req.query('owner') || undefined,
+		});
+		return c.json({ grants, count: grants.length });
+	} catch (err) {
+		return c.json({ grants: [], count: 0, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+api.get('/grant-pipeline/:id', async (c) => {
+	const { getPipelineGrant } = await import('../agent/grant-writer/grant-pipeline');
+	try {
+		const grant = await getPipelineGrant(c.req.param('id'));
+		return grant
+			? c.json({ success: true, grant })
+			: c.json({ success: false, error: 'Pipeline grant not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Track a grant-writer search result. Body: { opportunity, owner?, stage?, milestones?, notes? }.
+// Returns the existing grant (existing: true) when that funder + program is already tracked.
+api.post('/grant-pipeline', async (c) => {
+	const { trackGrantOpportunity } = await import('../agent/grant-writer/grant-pipeline');
+	const body = await c.req.json();
+
+	if (!body?.opportunity?.funderName || !body.opportunity.grantProgramName) {
+		return c.json({ success: false, error: 'opportunity with funderName and grantProgramName is required' }, 400);
+	}
+
+	try {
+		const { grant, existing } = await trackGrantOpportunity(body.opportunity, {
+			owner: body.owner,
+			stage: body.stage,
+			milestones: Array.isArray(body.milestones) ? body.milestones : undefined,
+			notes: body.notes,
+		});
+		return c.json({ success: true, grant, existing });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// Change stage / owner / notes / deadline
+api.patch('/grant-pipeline/:id', async (c) => {
+	const { updatePipelineGrant } = await import('../agent/grant-writer/grant-pipeline');
+	const body = await c.req.json();
+	try {
+		const grant = await updatePipelineGrant(c.req.param('id'), {
+			stage: body?.stage,
+			owner: body?.owner,
+			notes: body?.notes,
+			deadline: body?.deadline,
+			deadlineType: body?.deadlineType,
+			stageNote: body?.stageNote,
+		});
+		return grant
+			? c.json({ success: true, grant })
+			: c.json({ success: false, error: 'Pipeline grant not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// --- Grant Answer Library (approved boilerplate sections) ---
+
+// Approved first, then by section. ?status=, ?tag=, ?q= (searches titles and text)
+api.get('/grant-answers', async (c) => {
+	const { listLibraryAnswers } = await import('../agent/grant-writer/answer-library');
+	try {
+		const answers = await listLibraryAnswers({
+			status: (c.req.query('status') || undefined) as AnswerStatus | undefined,
+			tag: c.req.query('tag') || undefined,
+			q: c.req.query('q') || undefined,
+		});
+		return c.json({ answers, count: answers.length });
+	} catch (err) {
+		return c.json({ answers: [], count: 0, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+api.get('/grant-answers/:id', async (c) => {
+	const { getLibraryAnswer } = await import('../agent/grant-writer/answer-library');
+	try {
+		const answer = await getLibraryAnswer(c.req.param('id'));
+		return answer
+			? c.json({ success: true, answer })
+			: c.json({ success: false, error: 'Answer not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Body: { section, variants: { 100?, 250?, 500? }, aliases?, tags?, status?, approvedBy?, notes? }
+api.post('/grant-answers', async (c) => {
+	const { createLibraryAnswer } = await import('../agent/grant-writer/answer-library');
+	const body = await c.req.json();
+	try {
+		const answer = await createLibraryAnswer({
+			section: body?.section,
+			variants: body?.variants,
+			aliases: Array.isArray(body?.aliases) ? body.aliases : undefined,
+			tags: Array.isArray(body?.tags) ? body.tags : undefined,
+			status: body?.status,
+			approvedBy: body?.approvedBy,
+			notes: body?.notes,
+		});
+		return c.json({ success: true, answer });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// Edit text / tags / aliases, or approve (status: 'approved', approvedBy) and retire
+api.patch('/grant-answers/:id', async (c) => {
+	const { updateLibraryAnswer } = await import('../agent/grant-writer/answer-library');
+	const body = await c.req.json();
+	try {
+		const answer = await updateLibraryAnswer(c.req.param('id'), {
+			section: body?.section,
+			variants: body?.variants,
+			aliases: Array.isArray(body?.aliases) ? body.aliases : undefined,
+			tags: Array.isArray(body?.tags) ? body.tags : undefined,
+			status: body?.status,
+			approvedBy: body?.approvedBy,
+			notes: body?.notes,
+		});
+		return answer
+			? c.json({ success: true, answer })
+			: c.json({ success: false, error: 'Answer not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// --- Funder RFP Ingestion ---
+
+// Parse an RFP into an application template (questions with limits,
+// eligibility, deadlines, attachments) for grant-writer's applicationTemplate.
+// Body: JSON { text } for pasted text, or multipart with an `rfp` file
+// (PDF, DOCX or text).
+api.post('/grant-rfp', async (c) => {
+	const { parseRfp, MAX_RFP_UPLOAD_BYTES } = await import('../agent/grant-writer/rfp-parser');
+	const tooLarge = `RFP uploads are limited to ${MAX_RFP_UPLOAD_BYTES / 1024 / 1024}MB`;
+	// Refuse oversized bodies before buffering them; text fields add a little on top of the file
+	if (parseInt(c.req.header('content-length') || '0') > MAX_RFP_UPLOAD_BYTES + 1024 * 1024) {
+		return c.json({ success: false, error: tooLarge }, 413);
+	}
+	try {
+		let text: string | undefined;
+		let file: { buffer: Buffer; filename: string; contentType?: string } | undefined;
+		if ((c.req.header('content-type') || '').startsWith('multipart/form-data')) {
+			const formData = await c.req.formData();
+			const upload = formData.get('rfp');
+			if (upload instanceof File && upload.size > MAX_RFP_UPLOAD_BYTES) {
+				return c.json({ success: false, error: tooLarge }, 413);
+			}
+			if (upload instanceof File) {
+				file = {
+					buffer: Buffer.from(await upload.arrayBuffer()),
+					filename: upload.name || 'rfp',
+					contentType: upload.type || undefined,
+				};
+			}
+			text = ((formData.get('text') as string | null) || '').trim() || undefined;
+		} else {
+			const body = await c.req.json();
+			text = typeof body?.text === 'string' ? body.text : undefined;
+		}
+		if (!file && !text?.trim()) {
+			return c.json({ success: false, error: 'Paste the RFP text or upload a PDF or DOCX' }, 400);
+		}
+
+		const template = await parseRfp({ text, file }, console);
+		return c.json({ success: true, template });
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error('[grant-rfp] Error: %s', msg);
+		return c.json({ success: false, error: msg }, 400);
+	}
+});
+
+// --- Grant Budget (line items → budget table) ---
+
+// Preview a budget table before writing its narrative. Shared costs default
+// to equal shares across the active program sites.
+// Body: { budget: { lineItems, years?, escalationRate?, indirectRate?, indirectBase?, indirectCap?, siteAllocations? }, fundingRange? }
+api.post('/grant-budget', async (c) => {
+	const { buildBudget, checkFundingRange, equalSiteAllocations, formatBudgetTable } = await import('../agent/grant-writer/grant-budget');
+	const { loadOrgProfile } = await import('../lib/org-profile');
+	const body = await c.req.json();
+	if (!body?.budget || !Array.isArray(body.budget.lineItems)) {
+		return c.json({ success: false, error: 'budget.lineItems is required' }, 400);
+	}
+	try {
+		const profile = await loadOrgProfile(console);
+		const table = buildBudget({
+			...body.budget,
+			siteAllocations: body.budget.siteAllocations
+				?? equalSiteAllocations(profile.sites.filter(site => site.active).map(site => site.name)),
+		});
+		const range = typeof body.fundingRange === 'string' && body.fundingRange.trim()
+			? checkFundingRange(table, body.fundingRange.trim())
+			: {};
+		return c.json({ success: true, table, markdown: formatBudgetTable(table), ...range });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// --- Content Calendar (scheduled publishing) ---
+
+// Calendar items in publish order. ?from=&to= (ISO) limit the range, ?status= filters.
+api.get('/content-calendar', async (c) => {
+	const { listCalendarItems } = await import('../agent/content-creator/content-calendar');
+	try {
+		const items = await listCalendarItems({
+			from: c.req.query('from') || undefined,
+			to: c.req.query('to') || undefined,
+			status: (c.req.query('status') || undefined) as CalendarItemStatus | undefined,
+		});
+		return c.json({ items, count: items.length });
+	} catch (err) {
+		return c.json({ items: [], count: 0, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Schedule a generated_content or finished_videos row for a platform + time
+api.post('/content-calendar', async (c) => {
+	const { scheduleCalendarItem } = await import('../agent/content-creator/content-calendar');
+	const body = await c.req.json();
+
+	if (!body || !body.sourceType || !body.sourceId || !body.platform || !body.publishAt) {
+		return c.json({ success: false, error: 'sourceType, sourceId, platform and publishAt are required' }, 400);
+	}
+
+	try {
+		const item = await scheduleCalendarItem({
+			sourceType: body.sourceType,
+			sourceId: String(body.sourceId),
+			platform: body.platform,
+			publishAt: body.publishAt,
+			caption: body.caption,
+		});
+		return c.json({ success: true, item });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// Reschedule / edit an item that hasn't been published
+api.patch('/content-calendar/:id', async (c) => {
+	const { updateCalendarItem, getCalendarItem } = await import('../agent/content-creator/content-calendar');
+	const id = c.req.param('id');
+	const body = await c.req.json();
+	try {
+		const item = await updateCalendarItem(id, {
+			publishAt: body?.publishAt,
+			platform: body?.platform,
+			caption: body?.caption,
+		});
+		if (item) return c.json({ success: true, item });
+		const existing = await getCalendarItem(id);
+		return existing
+			? c.json({ success: false, error: `Item is ${existing.status} and can no longer be edited` }, 409)
+			: c.json({ success: false, error: 'Calendar item not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 400);
+	}
+});
+
+// Retry a failed item now
+api.post('/content-calendar/:id/retry', async (c) => {
+	const { retryCalendarItem, getCalendarItem } = await import('../agent/content-creator/content-calendar');
+	const id = c.req.param('id');
+	try {
+		const item = await retryCalendarItem(id);
+		if (item) return c.json({ success: true, item });
+		const existing = await getCalendarItem(id);
+		return existing
+			? c.json({ success: false, error: `Only failed items can be retried (item is ${existing.status})` }, 409)
+			: c.json({ success: false, error: 'Calendar item not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Cancel an item (kept in the calendar as cancelled)
+api.delete('/content-calendar/:id', async (c) => {
+	const { cancelCalendarItem, getCalendarItem } = await import('../agent/content-creator/content-calendar');
+	const id = c.req.param('id');
+	try {
+		const item = await cancelCalendarItem(id);
+		if (item) return c.json({ success: true, item });
+		const existing = await getCalendarItem(id);
+		return existing
+			? c.json({ success: false, error: `Item is ${existing.status} and can't be cancelled` }, 409)
+			: c.json({ success: false, error: 'Calendar item not found' }, 404);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
 // --- Content Library (Supabase-backed) ---
 
 // Get all saved text content
@@ -655,6 +1262,8 @@ api.get('/content-library', async (c) => {
 		.limit(limit);
 
 	if (platform) query = query.eq('platform', platform);
+	const campaignId = c.req.query('campaignId');
+	if (campaignId) query = query.eq('campaign_id', campaignId);
 
 	const { data, error } = await query;
 	if (error) return c.json({ entries: [], count: 0, error: error.message }, 500);
@@ -668,6 +1277,8 @@ api.get('/content-library', async (c) => {
 		topic: row.topic || '',
 		contentType: row.content_type,
 		wordCount: row.word_count,
+		campaignId: row.campaign_id || undefined,
+		campaignRole: row.campaign_role || undefined,
 		images: row.image_urls?.length > 0
 			? row.image_urls.map((url: string, i: number) => ({
 				styleId: row.image_styles?.[i] || `style-${i}`,
@@ -729,7 +1340,8 @@ api.post('/content-feedback', async (c) => {
 			rating: body.rating,
 			notes: body.notes || null,
 			platform: body.platform || null,
-			content_type: body.contentType || null,
+			// Profile content type (post | script | blog | newsletter) so feedback lines up with voice rule scopes
+			content_type: body.contentType || (body.platform ? getPlatformProfile(body.platform).contentType : null),
 			content_snippet: body.contentSnippet || null,
 		})
 		.select('id')
@@ -754,6 +1366,219 @@ api.get('/content-feedback', async (c) => {
 	return c.json({ entries: data || [], count: data?.length || 0 });
 });
 
+// Weekly like/dislike trends per platform and content type
+api.get('/content-feedback/trends', async (c) => {
+	const { getFeedbackTrends } = await import('../agent/content-creator/feedback-analysis');
+	const weeks = Math.min(Math.max(parseInt(c.req.query('weeks') || '12'), 1), 52);
+	try {
+		return c.json(await getFeedbackTrends(weeks));
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Distill feedback into the next voice rules version
+api.post('/content-feedback/analyze', async (c) => {
+	const { analyzeFeedback } = await import('../agent/content-creator/feedback-analysis');
+	const body = await c.req.json().catch(() => ({}));
+	try {
+		const ruleSet = await analyzeFeedback({ limit: body.limit });
+		return c.json({ success: true, ruleSet });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// --- Voice Rules ---
+
+// Active rules + version history
+api.get('/voice-rules', async (c) => {
+	const { getActiveVoiceRules, listVoiceRuleVersions } = await import('../agent/content-creator/voice-rules');
+	try {
+		const [active, versions] = await Promise.all([getActiveVoiceRules(), listVoiceRuleVersions()]);
+		return c.json({ active, versions });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+api.get('/voice-rules/:version', async (c) => {
+	const { getVoiceRuleVersion } = await import('../agent/content-creator/voice-rules');
+	const version = parseInt(c.req.param('version'));
+	if (!Number.isInteger(version) || version < 1) {
+		return c.json({ success: false, error: 'version must be a positive integer' }, 400);
+	}
+	try {
+		const ruleSet = await getVoiceRuleVersion(version);
+		if (!ruleSet) return c.json({ success: false, error: 'Version not found' }, 404);
+		return c.json(ruleSet);
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Make an older version active again (copied forward as a new version)
+api.post('/voice-rules/:version/restore', async (c) => {
+	const { restoreVoiceRuleVersion } = await import('../agent/content-creator/voice-rules');
+	const version = parseInt(c.req.param('version'));
+	if (!Number.isInteger(version) || version < 1) {
+		return c.json({ success: false, error: 'version must be a positive integer' }, 400);
+	}
+	try {
+		const ruleSet = await restoreVoiceRuleVersion(version);
+		if (!ruleSet) return c.json({ success: false, error: 'Version not found' }, 404);
+		return c.json({ success: true, ruleSet });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// --- Edit Plan Versions ---
+
+// Newest version of each recent edit plan lineage
+api.get('/edit-plans', async (c) => {
+	const { listRecentEditPlanLineages } = await import('../agent/video-editor/edit-plan-versions');
+	try {
+		const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+		return c.json({ lineages: await listRecentEditPlanLineages(limit) });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// Structured diff between any two versions: ?from=<versionId>&to=<versionId>
+api.get('/edit-plans/diff', async (c) => {
+	const { getEditPlanVersion, diffEditPlans } = await import('../agent/video-editor/edit-plan-versions');
+	const fromId = c.req.query('from');
+	const toId = c.req.query('to');
+	if (!fromId || !toId) return c.json({ success: false, error: 'from and to version ids are required' }, 400);
+	try {
+		const [from, to] = await Promise.all([getEditPlanVersion(fromId), getEditPlanVersion(toId)]);
+		if (!from || !to) return c.json({ success: false, error: 'Version not found' }, 404);
+		return c.json({ from: from.id, to: to.id, diff: diffEditPlans(from.plan, to.plan) });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+api.get('/edit-plans/versions/:id', async (c) => {
+	const { getEditPlanVersion } = await import('../agent/video-editor/edit-plan-versions');
+	const version = await getEditPlanVersion(c.req.param('id'));
+	if (!version) return c.json({ success: false, error: 'Version not found' }, 404);
+	return c.json(version);
+});
+
+// Re-render an older version. It is copied forward as the newest version of
+// its lineage first (source 'rollback'), so the render links to a version
+// whose parent is the plan it replaced.
+api.post('/edit-plans/versions/:id/render', async (c) => {
+	const { getEditPlanVersion, listEditPlanVersions, restoreEditPlanVersion } = await import('../agent/video-editor/edit-plan-versions');
+	try {
+		const body = await c.req.json().catch(() => ({})) as { platform?: string; editMode?: string; renderEngine?: string; note?: string };
+		const version = await getEditPlanVersion(c.req.param('id'));
+		if (!version) return c.json({ success: false, error: 'Version not found' }, 404);
+
+		const lineage = await listEditPlanVersions(version.lineageId);
+		const isLatest = lineage[lineage.length - 1]?.id === version.id;
+		const target = isLatest ? version : await restoreEditPlanVersion(version.id, body.note, console);
+		if (!target) return c.json({ success: false, error: 'Version not found' }, 404);
+
+		const result = await videoEditor.run({
+			task: 'render',
+			editPlan: target.plan,
+			platform: body.platform || 'tiktok',
+			editMode: body.editMode || (typeof target.plan.mode === 'string' ? target.plan.mode : 'game_day'),
+			renderEngine: body.renderEngine,
+			appUrl: getPublicOrigin(c.req),
+		});
+		return c.json({ ...result, version: target });
+	} catch (err) {
+		return c.json({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+	}
+});
+
+// --- Edit Plan Preview ---
+
+// CLCVideo props for an in-browser Remotion Player preview. Same props
+// builder as the render engines, but clips stream from the media cache's
+// 480p proxies — no preprocessing, transcription or audio-mix pass, and no
+// render. Clips without a proxy yet fall back to the Drive proxy while one
+// is built in the background, so the next preview is light.
+api.post('/edit-plans/preview', async (c) => {
+	try {
+		const body = await c.req.json() as {
+			editPlan?: Record<string, unknown>;
+			platform?: string;
+			editMode?: string;
+			musicUrl?: string;
+			musicDisabled?: boolean;
+		};
+		const plan = body.editPlan;
+		if (!plan || !Array.isArray(plan.clips) || plan.clips.length === 0) {
+			return c.json({ success: false, error: 'editPlan with at least one clip is required' }, 400);
+		}
+
+		const { planClipProps } = await import('../agent/video-editor/render-engine');
+		const { buildRemotionProps } = await import('../agent/video-editor/remotion/render');
+		const { computeClipStartFrames } = await import('../agent/video-editor/transcription');
+		const { trackForPlan } = await import('../agent/video-editor/beat-sync');
+		const { buildDriveProxyUrl, buildMediaProxyUrl } = await import('../agent/video-editor/drive-proxy');
+		const { findCachedProxy, getCachedMedia } = await import('../agent/video-editor/media-cache');
+
+		const platform = body.platform || 'tiktok';
+		const mode = (typeof plan.mode === 'string' && plan.mode) || body.editMode || 'game_day';
+		const musicTrack = body.musicDisabled ? null : await trackForPlan(
+			{ ...plan, musicUrl: body.musicUrl || (plan.musicUrl as string | undefined) },
+			mode,
+			platform,
+		);
+		const appUrl = getPublicOrigin(c.req);
+		const pendingProxies = new Set<string>();
+		const props = buildRemotionProps(
+			{
+				mode,
+				platform,
+				textOverlays: plan.textOverlays as Parameters<typeof buildRemotionProps>[0]['textOverlays'],
+				musicUrl: musicTrack?.url ?? null,
+			},
+			planClipProps(plan.clips as Parameters<typeof planClipProps>[0], {
+				platform,
+				clipSrc: (clip) => {
+					if (findCachedProxy(clip.fileId)) return buildMediaProxyUrl(appUrl, clip.fileId);
+					pendingProxies.add(clip.fileId);
+					return buildDriveProxyUrl(appUrl, clip.fileId);
+				},
+			}),
+		);
+		for (const fileId of pendingProxies) {
+			getCachedMedia(fileId, { include: ['proxy'] }).catch((err) => {
+				console.warn('[edit-plans/preview] Proxy build failed for %s: %s', fileId, err instanceof Error ? err.message : String(err));
+			});
+		}
+
+		// Same layout CLCVideo uses, so clip jumps land on the right frame
+		const clipStartFrames = computeClipStartFrames(props.clips, props.fps, props.transitionDurationFrames);
+		const last = props.clips.length - 1;
+		const durationInFrames = Math.max(
+			props.fps,
+			clipStartFrames[last]! + Math.max(Math.ceil(props.clips[last]!.length * props.fps), props.transitionDurationFrames * 2 + props.fps),
+		);
+
+		return c.json({
+			success: true,
+			props,
+			durationInFrames,
+			clipStartFrames,
+			pendingProxies: pendingProxies.size,
+			musicTrack: musicTrack ? { id: musicTrack.id, title: musicTrack.title } : null,
+		});
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error('[edit-plans/preview] Error: %s', msg);
+		return c.json({ success: false, error: 'Preview failed: ' + msg }, 500);
+	}
+});
+
 // --- Video Library (Supabase-backed) ---
 
 // Get all saved video renders
@@ -761,6 +1586,7 @@ api.get('/video-library', async (c) => {
 	const { supabaseAdmin } = await import('../lib/supabase');
 	const platform = c.req.query('platform');
 	const minScore = c.req.query('minScore');
+	const renderGroupId = c.req.query('renderGroupId');
 	const limit = parseInt(c.req.query('limit') || '100');
 
 	let query = supabaseAdmin
@@ -771,6 +1597,7 @@ api.get('/video-library', async (c) => {
 
 	if (platform) query = query.eq('platform', platform);
 	if (minScore) query = query.gte('score', parseInt(minScore));
+	if (renderGroupId) query = query.eq('render_group_id', renderGroupId);
 
 	const { data, error } = await query;
 	if (error) return c.json({ entries: [], count: 0, error: error.message }, 500);
@@ -808,26 +1635,33 @@ api.post('/video-library', async (c) => {
 		return c.json({ success: false, error: 'title is required' }, 400);
 	}
 
-	const { data, error } = await supabaseAdmin
+	const row = {
+		title: entry.title,
+		platform: entry.platform || 'tiktok',
+		edit_mode: entry.edit_mode || entry.renderMode || 'game_day',
+		storage_path: entry.storage_path || '',
+		public_url: entry.public_url || entry.downloadUrl || '',
+		duration_sec: entry.duration_sec,
+		score: entry.score,
+		review_notes: entry.review_notes,
+		tags: entry.tags || [],
+		source_video_ids: entry.source_video_ids || [],
+		render_id: entry.render_id || entry.renderId,
+	};
+	let { data, error } = await supabaseAdmin
 		.from('finished_videos')
-		.insert({
-			title: entry.title,
-			platform: entry.platform || 'tiktok',
-			edit_mode: entry.edit_mode || entry.renderMode || 'game_day',
-			storage_path: entry.storage_path || '',
-			public_url: entry.public_url || entry.downloadUrl || '',
-			duration_sec: entry.duration_sec,
-			score: entry.score,
-			review_notes: entry.review_notes,
-			tags: entry.tags || [],
-			source_video_ids: entry.source_video_ids || [],
-			render_id: entry.render_id || entry.renderId,
-		})
+		.insert({ ...row, music_track_id: entry.music_track_id || entry.musicTrackId || null })
 		.select('id')
 		.single();
 
+	// music_track_id not migrated yet — keep the video, lose the track link
+	if (error && /music_track_id/.test(error.message)) {
+		console.warn('[video-library] finished_videos has no music_track_id (run docs/music_library_schema.sql) — saving without it');
+		({ data, error } = await supabaseAdmin.from('finished_videos').insert(row).select('id').single());
+	}
+
 	if (error) return c.json({ success: false, error: error.message }, 500);
-	return c.json({ success: true, id: data.id });
+	return c.json({ success: true, id: data!.id });
 });
 
 // Delete a specific video library entry
@@ -856,6 +1690,52 @@ api.delete('/video-library/:id', async (c) => {
 	return c.json({ success: true });
 });
 
+// --- Music Library Upload ---
+
+// Add a track to the music library: stores the audio, measures duration /
+// BPM / loudness, records tags and license. Listing and edits go through the
+// video-editor agent's list-music / update-music-track / remove-music-track tasks.
+api.post('/music-library/upload', async (c) => {
+	try {
+		const formData = await c.req.formData();
+		const file = formData.get('audio');
+		if (!file || !(file instanceof File)) {
+			return c.json({ success: false, error: 'No audio file provided' }, 400);
+		}
+
+		const field = (name: string) => ((formData.get(name) as string | null) || '').trim();
+		const tags = (name: string) => field(name).split(',').map(t => t.trim()).filter(Boolean);
+		const licenseType = field('licenseType');
+		if (!['cc0', 'royalty-free', 'licensed', 'custom'].includes(licenseType)) {
+			return c.json({ success: false, error: 'licenseType must be cc0, royalty-free, licensed or custom' }, 400);
+		}
+
+		const { ingestMusicFile } = await import('../agent/video-editor/music-library');
+		const track = await ingestMusicFile({
+			buffer: Buffer.from(await file.arrayBuffer()),
+			filename: file.name || `track_${Date.now()}.mp3`,
+			contentType: file.type || undefined,
+			title: field('title') || undefined,
+			artist: field('artist') || undefined,
+			mood: tags('mood'),
+			modes: tags('modes'),
+			license: {
+				type: licenseType as 'cc0' | 'royalty-free' | 'licensed' | 'custom',
+				attribution: field('attribution') || undefined,
+				expiresAt: field('expiresAt') || undefined,
+				notes: field('licenseNotes') || undefined,
+			},
+			appUrl: getPublicOrigin(c.req),
+		}, console);
+
+		return c.json({ success: true, track });
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		console.error('[music-library/upload] Error: %s', msg);
+		return c.json({ success: false, error: 'Upload failed: ' + msg }, 500);
+	}
+});
+
 // --- Upload Video (Quick Edit) ---
 
 // Upload a video file directly to Google Drive for instant editing
@@ -0,0 +1,102 @@
+/**
+ * JSON File Store — the on-disk fallback shared by every persisted module
+ *
+ * Stores that use Supabase when it is configured fall back to a JSON file
+ * on the persistent volume otherwise (catalog jobs, content calendar,
+ * grant pipeline, voice rules, ...). This is the one copy of that plumbing:
+ *   - PERSISTENT_DIR: the Railway volume at /data, else cwd for local dev
+ *   - readJsonFile: the parsed file, or a fallback when it is missing or
+ *     unreadable (logged, never thrown — a corrupt file must not take the
+ *     module down)
+ *   - writeFileAtomic / writeJsonFile: write a tmp file and rename it over
+ *     the target, so a crash mid-write never leaves a half-written file
+ *   - createVersionedFileStore: an array of { id, version } records with
+ *     the same optimistic-version write the Supabase backends get from
+ *     `.eq('version', expectedVersion)`
+ *
+ * File: src/lib/json-file-store.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- Types ---
+
+export interface VersionedRecord {
+	id: string;
+	version: number;
+}
+
+export interface VersionedFileStore<T extends VersionedRecord> {
+	read(): T[];
+	get(id: string): T | null;
+	/** Write `record` if the stored version still equals `expectedVersion` (0 = insert). */
+	write(record: T, expectedVersion: number): boolean;
+}
+
+// --- Paths ---
+
+// Use persistent volume (/data) on Railway, fall back to cwd for local dev
+export const PERSISTENT_DIR = fs.existsSync('/data') ? '/data' : process.cwd();
+
+/** A file or directory on the persistent volume. */
+export function persistentPath(name: string): string {
+	return path.join(PERSISTENT_DIR, name);
+}
+
+// --- Read / Write ---
+
+/**
+ * Parse a JSON file. Missing → `fallback`; unreadable → a warning tagged
+ * with `logTag` (e.g. 'grant-pipeline') and `fallback`.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T, logTag: string): T {
+	if (!fs.existsSync(filePath)) return fallback;
+	try {
+		return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+	} catch (err) {
+		console.warn(`[${logTag}] ${path.basename(filePath)} unreadable, ignoring it:`, err);
+		return fallback;
+	}
+}
+
+/** Replace a file's contents via tmp file + rename. Creates the directory. */
+export function writeFileAtomic(filePath: string, contents: string | Buffer): void {
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	const tmpPath = `${filePath}.tmp`;
+	fs.writeFileSync(tmpPath, contents);
+	fs.renameSync(tmpPath, filePath);
+}
+
+/** Serialize `data` and write it atomically. `pretty` for files people read by hand. */
+export function writeJsonFile(filePath: string, data: unknown, options: { pretty?: boolean } = {}): void {
+	writeFileAtomic(filePath, options.pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data));
+}
+
+// --- Versioned Records ---
+
+/**
+ * An array of versioned records in one JSON file. Reads and the
+ * check-then-write are synchronous, so writes within a process can't
+ * interleave.
+ */
+export function createVersionedFileStore<T extends VersionedRecord>(filePath: string, logTag: string): VersionedFileStore<T> {
+	const read = (): T[] => readJsonFile<T[]>(filePath, [], logTag);
+
+	return {
+		read,
+		get(id) {
+			return read().find(record => record.id === id) ?? null;
+		},
+		write(record, expectedVersion) {
+			const records = read();
+			const idx = records.findIndex(r => r.id === record.id);
+			const currentVersion = idx === -1 ? 0 : records[idx]!.version;
+			if (currentVersion !== expectedVersion) return false;
+			if (idx === -1) records.push(record);
+			else records[idx] = record;
+			writeJsonFile(filePath, records);
+			return true;
+		},
+	};
+}
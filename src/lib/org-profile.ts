@@ -0,0 +1,389 @@
+/**
+ * Organization Profile — CLC's facts as data instead of prompt text
+ *
+ * Programs, sites, impact metrics (each with the date it was measured),
+ * leadership, EIN and budget band. grant-writer, donor-researcher,
+ * venue-prospector and content-creator render their prompt context from
+ * this one record, so a new retention figure is an API call rather than
+ * source edits in four agents.
+ *
+ * A single document with an optimistic version. Uses the Supabase
+ * organization_profile table when Supabase is configured (see
+ * docs/organization_profile_schema.sql), else org-profile.json on the
+ * persistent volume. Until the first save it is DEFAULT_ORG_PROFILE.
+ *
+ * File: src/lib/org-profile.ts
+ */
+
+import { persistentPath, readJsonFile, writeJsonFile } from './json-file-store';
+import { supabaseAdmin } from './supabase';
+
+// --- Types ---
+
+export interface OrgProgram {
+	name: string;
+	/** Age range as written in proposals, e.g. "6-19". */
+	ages?: string;
+	description: string;
+}
+
+export interface OrgSite {
+	name: string;
+	/** Grouping for the service-area line, e.g. "Nassau County". */
+	region: string;
+	state: string;
+	active: boolean;
+}
+
+export interface OrgMetric {
+	/** Stable key agents look metrics up by (youth_served, retention_rate, ...). */
+	key: string;
+	label: string;
+	/** As it should be quoted: "400+", "84%". */
+	value: string;
+	/** YYYY-MM-DD the figure was measured. Absent = never confirmed, always stale. */
+	asOf?: string;
+	source?: string;
+}
+
+export interface OrgLeader {
+	name: string;
+	title: string;
+	/** How image prompts should show them, e.g. "a Black woman". */
+	identity?: string;
+}
+
+export interface BudgetBand {
+	/** As it should be quoted: "Under $500K". */
+	label: string;
+	min?: number;
+	max?: number;
+	fiscalYear?: string;
+	/** Stage descriptor funders use, e.g. "emerging nonprofit". */
+	stage?: string;
+}
+
+export interface OrganizationProfile {
+	name: string;
+	shortName: string;
+	/** Absent = "[On file]" in prompts. */
+	ein?: string;
+	taxStatus: string;
+	headquarters: string;
+	mission: string;
+	leadership: OrgLeader[];
+	budget: BudgetBand;
+	programs: OrgProgram[];
+	sites: OrgSite[];
+	metrics: OrgMetric[];
+	differentiators: string[];
+	/** Funder-facing focus areas (youth development, education equity, ...). */
+	focusAreas: string[];
+	updatedAt?: string;
+	/** 0 until the first save. */
+	version: number;
+}
+
+export type OrgProfileChanges = Partial<Omit<OrganizationProfile, 'version' | 'updatedAt'>>;
+
+// --- Config ---
+
+const PROFILE_FILE_PATH = persistentPath('org-profile.json');
+const PROFILE_ROW_ID = 'default';
+
+/** Metrics measured longer ago than this are flagged for an update. */
+export const METRIC_MAX_AGE_DAYS = Number(process.env.ORG_METRIC_MAX_AGE_DAYS) || 365;
+
+/** The facts the agents carried in their prompts before the profile existed. */
+export const DEFAULT_ORG_PROFILE: OrganizationProfile = {
+	name: 'Community Literacy Club',
+	shortName: 'CLC',
+	taxStatus: '501(c)(3)',
+	headquarters: 'Hempstead, Long Island, NY',
+	mission: 'CLC meets kids where they are — bringing tennis, chess, and life skills to underserved youth in unconventional spaces (gyms, community centers, rec rooms, libraries). We prepare young people to handle difficult decisions, weigh consequences, and create real possibilities for themselves.',
+	leadership: [{ name: 'Kimberly Gordon', title: 'Executive Director', identity: 'a Black woman' }],
+	budget: { label: 'Under $500K', max: 500_000, stage: 'emerging nonprofit' },
+	programs: [
+		{ name: 'Youth Program', ages: '6-19', description: 'Tennis instruction, chess, foundational life skills' },
+		{ name: 'Teen Leadership Track', ages: '13-19', description: 'Leadership development, peer mentorship, alumni coaching pipeline' },
+		{ name: 'Young Adult Track', ages: '20-26', description: 'Job readiness, career placement, workforce development' },
+		{ name: 'SAT/ACT/PSAT Prep', description: 'Test preparation access regardless of zip code' },
+		{ name: 'Summer Enrichment', description: 'Summer enrichment programming' },
+	],
+	sites: [
+		{ name: 'Hempstead', region: 'Nassau County', state: 'NY', active: true },
+		{ name: 'Long Beach', region: 'Nassau County', state: 'NY', active: true },
+		{ name: 'Westchester', region: 'Westchester County', state: 'NY', active: true },
+		{ name: 'Brooklyn', region: 'New York City', state: 'NY', active: true },
+		{ name: 'Newark', region: 'Newark, NJ', state: 'NJ', active: true },
+		{ name: 'Connecticut', region: 'Connecticut', state: 'CT', active: true },
+	],
+	metrics: [
+		{ key: 'youth_served', label: 'youth served annually', value: '400+' },
+		{ key: 'retention_rate', label: 'program retention rate', value: '84%' },
+		{ key: 'locations', label: 'locations', value: '5+' },
+	],
+	differentiators: [
+		'Unconventional spaces model (no facility overhead)',
+		'Dual-discipline approach: physical (tennis) + mental (chess) = whole-child development',
+		'Deeply community-embedded — Kimberly knows every kid by name',
+		'Alumni-to-coach pipeline = built-in sustainability',
+		'Serving communities with historically limited access to racquet sports',
+	],
+	focusAreas: [
+		'youth development', 'education equity', 'sports-based youth development', 'STEM (chess = strategic thinking)',
+		'workforce development', 'community development', 'racial equity', 'afterschool programming',
+		'mentorship', 'leadership development', 'social-emotional learning', 'health & wellness',
+		'underserved communities', 'minority-serving', 'out-of-school time', 'college readiness',
+	],
+	version: 0,
+};
+
+// --- Store ---
+
+interface ProfileBackend {
+	read(): Promise<OrganizationProfile | null>;
+	/** Write `profile` if the stored version still equals `expectedVersion` (0 = insert). */
+	write(profile: OrganizationProfile, expectedVersion: number): Promise<boolean>;
+}
+
+function createFileProfileBackend(): ProfileBackend {
+	const read = () => readJsonFile<OrganizationProfile | null>(PROFILE_FILE_PATH, null, 'org-profile');
+
+	return {
+		async read() {
+			return read();
+		},
+		async write(profile, expectedVersion) {
+			if ((read()?.version ?? 0) !== expectedVersion) return false;
+			writeJsonFile(PROFILE_FILE_PATH, profile, { pretty: true });
+			return true;
+		},
+	};
+}
+
+function createSupabaseProfileBackend(): ProfileBackend {
+	const toRow = (profile: OrganizationProfile) => ({
+		id: PROFILE_ROW_ID,
+		profile,
+		version: profile.version,
+		updated_at: profile.updatedAt,
+	});
+
+	return {
+		async read() {
+			const { data, error } = await supabaseAdmin
+				.from('organization_profile')
+				.select('profile')
+				.eq('id', PROFILE_ROW_ID)
+				.maybeSingle();
+			if (error) throw new Error(`organization_profile read failed: ${error.message}`);
+			return (data?.profile as OrganizationProfile | undefined) ?? null;
+		},
+		async write(profile, expectedVersion) {
+			if (expectedVersion === 0) {
+				const { error } = await supabaseAdmin.from('organization_profile').insert(toRow(profile));
+				if (error?.code === '23505') return false;
+				if (error) throw new Error(`organization_profile insert failed: ${error.message}`);
+				return true;
+			}
+			const { data, error } = await supabaseAdmin
+				.from('organization_profile')
+				.update(toRow(profile))
+				.eq('id', PROFILE_ROW_ID)
+				.eq('version', expectedVersion)
+				.select('id');
+			if (error) throw new Error(`organization_profile update failed: ${error.message}`);
+			return (data || []).length > 0;
+		},
+	};
+}
+
+let _backend: ProfileBackend | null = null;
+
+function getProfileBackend(): ProfileBackend {
+	if (!_backend) {
+		_backend = supabaseAdmin ? createSupabaseProfileBackend() : createFileProfileBackend();
+	}
+	return _backend;
+}
+
+/** The saved profile, or DEFAULT_ORG_PROFILE (version 0) before the first save. */
+export async function getOrgProfile(): Promise<OrganizationProfile> {
+	return (await getProfileBackend().read()) ?? structuredClone(DEFAULT_ORG_PROFILE);
+}
+
+/**
+ * For agents: the profile, falling back to the defaults (with a warning)
+ * when the store can't be read, so a Supabase outage doesn't stop a draft.
+ */
+export async function loadOrgProfile(
+	logger: { warn: (msg: string, ...args: unknown[]) => void },
+): Promise<OrganizationProfile> {
+	try {
+		return await getOrgProfile();
+	} catch (err) {
+		logger.warn('Organization profile unavailable, using defaults: %s', err instanceof Error ? err.message : String(err));
+		return structuredClone(DEFAULT_ORG_PROFILE);
+	}
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Problems with a would-be profile, as user-facing messages ([] = valid). */
+export function validateOrgProfile(profile: OrganizationProfile): string[] {
+	const errors: string[] = [];
+	if (!profile.name?.trim()) errors.push('name is required');
+	if (!profile.shortName?.trim()) errors.push('shortName is required');
+	for (const key of ['leadership', 'programs', 'sites', 'metrics', 'differentiators', 'focusAreas'] as const) {
+		if (!Array.isArray(profile[key])) errors.push(`${key} must be an array`);
+	}
+	if (!profile.budget?.label) errors.push('budget.label is required');
+	if (errors.length > 0) return errors;
+
+	const keys = new Set<string>();
+	for (const m of profile.metrics) {
+		if (!m.key || !m.label || !m.value) errors.push('every metric needs key, label and value');
+		else if (keys.has(m.key)) errors.push(`duplicate metric key "${m.key}"`);
+		else keys.add(m.key);
+		if (m.asOf && (!DATE_RE.test(m.asOf) || Number.isNaN(Date.parse(m.asOf)))) {
+			errors.push(`metric "${m.key}" asOf must be YYYY-MM-DD`);
+		}
+	}
+	for (const p of profile.programs) {
+		if (!p.name || !p.description) errors.push('every program needs name and description');
+	}
+	for (const site of profile.sites) {
+		if (!site.name || !site.region || !site.state) errors.push('every site needs name, region and state');
+	}
+	return errors;
+}
+
+/**
+ * Merge top-level `changes` into the profile and save it. Pass the version
+ * the edit was based on to refuse overwriting someone else's save — null
+ * means it no longer matches. Throws with the validation errors when the
+ * result is invalid.
+ */
+export async function updateOrgProfile(
+	changes: OrgProfileChanges,
+	expectedVersion?: number,
+): Promise<OrganizationProfile | null> {
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const current = await getOrgProfile();
+		if (expectedVersion !== undefined && current.version !== expectedVersion) return null;
+
+		const next: OrganizationProfile = {
+			...current,
+			...changes,
+			version: current.version + 1,
+			updatedAt: new Date().toISOString(),
+		};
+		const errors = validateOrgProfile(next);
+		if (errors.length > 0) throw new Error(`Invalid organization profile: ${errors.join('; ')}`);
+
+		if (await getProfileBackend().write(next, current.version)) return next;
+		if (expectedVersion !== undefined) return null;
+	}
+	throw new Error('Organization profile is being updated elsewhere — try again');
+}
+
+// --- Staleness ---
+
+/** Metrics with no as-of date or one older than METRIC_MAX_AGE_DAYS. */
+export function staleMetrics(
+	profile: OrganizationProfile,
+	now: Date = new Date(),
+	maxAgeDays: number = METRIC_MAX_AGE_DAYS,
+): OrgMetric[] {
+	const cutoff = now.getTime() - maxAgeDays * 86_400_000;
+	return profile.metrics.filter(m => !m.asOf || Date.parse(m.asOf) < cutoff);
+}
+
+/** missingInfo lines for stale metrics. */
+export function describeStaleMetrics(profile: OrganizationProfile, now: Date = new Date()): string[] {
+	return staleMetrics(profile, now).map(m => m.asOf
+		? `Current figure for "${m.label}" (${m.value} is as of ${m.asOf}, over ${METRIC_MAX_AGE_DAYS} days old)`
+		: `Confirmed figure and as-of date for "${m.label}" (${m.value} has no as-of date)`);
+}
+
+// --- Rendering ---
+
+export function getMetric(profile: OrganizationProfile, key: string): OrgMetric | undefined {
+	return profile.metrics.find(m => m.key === key);
+}
+
+/** "400+ youth served annually (as of Jun 2026)". */
+export function formatMetric(metric: OrgMetric): string {
+	const asOf = metric.asOf
+		? ` (as of ${new Date(`${metric.asOf}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })})`
+		: '';
+	return `${metric.value} ${metric.label}${asOf}`;
+}
+
+export function executiveDirector(profile: OrganizationProfile): OrgLeader | undefined {
+	return profile.leadership.find(l => /executive director/i.test(l.title)) ?? profile.leadership[0];
+}
+
+/** "Kimberly Gordon, a Black woman" — the name, plus how images should show them when the profile says. */
+export function describeLeader(leader: OrgLeader): string {
+	return leader.identity ? `${leader.name}, ${leader.identity}` : leader.name;
+}
+
+/** "Nassau County (Hempstead, Long Beach), Westchester County, ..." from the active sites. */
+export function formatServiceArea(profile: OrganizationProfile): string {
+	const regions = new Map<string, string[]>();
+	for (const site of profile.sites.filter(s => s.active)) {
+		regions.set(site.region, [...(regions.get(site.region) || []), site.name]);
+	}
+	return [...regions].map(([region, names]) => {
+		const sub = names.filter(n => !region.toLowerCase().startsWith(n.toLowerCase()));
+		return sub.length > 0 ? `${region} (${sub.join(', ')})` : region;
+	}).join(', ');
+}
+
+/** "NY, NJ, CT". */
+export function formatStates(profile: OrganizationProfile): string {
+	return [...new Set(profile.sites.filter(s => s.active).map(s => s.state))].join(', ');
+}
+
+export function formatProgram(program: OrgProgram): string {
+	return `${program.name}${program.ages ? ` (ages ${program.ages})` : ''}: ${program.description}`;
+}
+
+/**
+ * Markdown fact sheet for prompts: identity, leadership, budget, mission,
+ * programs and impact numbers, plus differentiators / focus areas when
+ * asked for. Agents wrap it with their own audience-specific framing.
+ */
+export function formatOrgFacts(
+	profile: OrganizationProfile,
+	options: { differentiators?: boolean; focusAreas?: boolean } = {},
+): string {
+	const ed = executiveDirector(profile);
+	const lines = [
+		`**Organization:** ${profile.name} (${profile.shortName})`,
+		ed && `**${ed.title}:** ${ed.name}`,
+		...profile.leadership.filter(l => l !== ed).map(l => `**${l.title}:** ${l.name}`),
+		`**EIN:** ${profile.ein || '[On file]'}`,
+		`**Tax Status:** ${profile.taxStatus}`,
+		`**Headquarters:** ${profile.headquarters}`,
+		`**Service Area:** ${formatServiceArea(profile)}`,
+		`**Annual Budget:** ${profile.budget.label}${profile.budget.fiscalYear ? ` (FY${profile.budget.fiscalYear})` : ''}${profile.budget.stage ? ` — ${profile.budget.stage}` : ''}`,
+		'',
+		`**Mission:** ${profile.mission}`,
+		'',
+		'**Programs:**',
+		...profile.programs.map(p => `• ${formatProgram(p)}`),
+		'',
+		'**Impact Numbers:**',
+		...profile.metrics.map(m => `• ${formatMetric(m)}`),
+	];
+	if (options.differentiators && profile.differentiators.length > 0) {
+		lines.push('', '**Key Differentiators:**', ...profile.differentiators.map(d => `• ${d}`));
+	}
+	if (options.focusAreas && profile.focusAreas.length > 0) {
+		lines.push('', '**Alignment Keywords:**', profile.focusAreas.join(', '));
+	}
+	return lines.filter((l): l is string => l !== undefined).join('\n');
+}
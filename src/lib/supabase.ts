@@ -37,6 +37,7 @@ export type FinishedVideo = {
   tags: string[];
   source_video_ids: string[];
   render_id: string | null;
+  music_track_id: string | null;
   created_at: string;
   updated_at: string;
 };
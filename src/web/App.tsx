@@ -402,7 +402,6 @@ const OutputCard = ({
 					contentId: contentId || null,
 					rating,
 					platform,
-					contentType: platform.toLowerCase() === 'blog' ? 'blog' : 'post',
 					contentSnippet: content.slice(0, 300),
 				}),
 			});
@@ -424,7 +423,6 @@ const OutputCard = ({
 					rating: feedbackSent || 'negative',
 					notes: feedbackNotes.trim(),
 					platform,
-					contentType: platform.toLowerCase() === 'blog' ? 'blog' : 'post',
 					contentSnippet: content.slice(0, 300),
 				}),
 			});
@@ -1259,6 +1257,31 @@ export function App({ onBack }: AppProps) {
 		const firstImage = generatedImages[0];
 
 		try {
+			// Scheduled posts go on the content calendar; its scheduler fires the
+			// webhook when the time comes. Immediate posts go straight to Make.com.
+			if (scheduledTime && generatedContentId) {
+				const publishAt = new Date(scheduledTime).toISOString();
+				const response = await fetch('/api/content-calendar', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({
+						sourceType: 'generated_content',
+						sourceId: generatedContentId,
+						platform: p?.label || selectedPlatform,
+						publishAt,
+					}),
+				});
+				const result = await response.json();
+				if (result.success) {
+					setPublishStatus('success');
+					setPublishMessage(`Scheduled for ${new Date(publishAt).toLocaleString()} — see the Content Calendar`);
+				} else {
+					setPublishStatus('error');
+					setPublishMessage(result.error || 'Failed to schedule');
+				}
+				return;
+			}
+
 			const response = await fetch('/api/webhook/publish', {
 				method: 'POST',
 				headers: { 'Content-Type': 'application/json' },
@@ -1284,7 +1307,7 @@ export function App({ onBack }: AppProps) {
 			setPublishStatus('error');
 			setPublishMessage(err instanceof Error ? err.message : 'Failed to publish');
 		}
-	}, [generatedContent, selectedPlatform, generatedImages, scheduledTime, track]);
+	}, [generatedContent, generatedContentId, selectedPlatform, generatedImages, scheduledTime, track]);
 
 	const handleReset = useCallback(() => {
 		setStep('platform');
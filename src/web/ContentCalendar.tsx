@@ -0,0 +1,524 @@
+/**
+ * Content Calendar — scheduled posts by day, failed posts, and scheduling
+ * of saved text posts and finished videos
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useIsMobile } from './useMediaQuery';
+
+// --- Types ---
+
+type CalendarItemStatus = 'scheduled' | 'publishing' | 'retrying' | 'published' | 'failed' | 'cancelled';
+type CalendarSourceType = 'generated_content' | 'finished_videos';
+
+interface CalendarItem {
+	id: string;
+	sourceType: CalendarSourceType;
+	sourceId: string;
+	platform: string;
+	publishAt: string;
+	status: CalendarItemStatus;
+	caption?: string;
+	title: string;
+	attempts: number;
+	nextAttemptAt: string;
+	attemptLog: { at: string; success: boolean; message: string }[];
+	lastError?: string;
+	publishedAt?: string;
+}
+
+interface SourceOption {
+	id: string;
+	label: string;
+	platform: string;
+}
+
+// --- Design tokens (matching ContentLibrary) ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	textDim: '#2a3148',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	orange: '#E67E22',
+	red: '#f87171',
+	teal: '#1ABC9C',
+};
+
+const STATUS_COLORS: Record<CalendarItemStatus, string> = {
+	scheduled: S.teal,
+	publishing: S.orange,
+	retrying: S.orange,
+	published: S.accentLight,
+	failed: S.red,
+	cancelled: S.textDim,
+};
+
+const PLATFORMS = ['Instagram', 'TikTok', 'YouTube', 'Facebook', 'LinkedIn', 'Twitter', 'Newsletter'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputStyle = {
+	width: '100%', padding: '8px 10px', borderRadius: 6,
+	border: `1px solid ${S.borderColor}`, background: S.bg,
+	color: S.textPrimary, fontFamily: S.mono, fontSize: 12, outline: 'none',
+} as const;
+
+const labelStyle = {
+	display: 'block', fontFamily: S.mono, fontSize: 9, color: S.textMuted,
+	letterSpacing: 1, textTransform: 'uppercase', marginBottom: 6, marginTop: 12,
+} as const;
+
+function dayKey(d: Date): string {
+	return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+}
+
+/** 6-week grid starting on the Sunday on/before the 1st of the month. */
+function monthGrid(month: Date): Date[] {
+	const first = new Date(month.getFullYear(), month.getMonth(), 1);
+	const start = new Date(first);
+	start.setDate(first.getDate() - first.getDay());
+	return Array.from({ length: 42 }, (_, i) => {
+		const d = new Date(start);
+		d.setDate(start.getDate() + i);
+		return d;
+	});
+}
+
+/** Value for a datetime-local input, in local time. */
+function toLocalInput(iso: string): string {
+	const d = new Date(iso);
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// --- Sub-components ---
+
+function StatusBadge({ status }: { status: CalendarItemStatus }) {
+	return (
+		<span style={{
+			padding: '2px 6px', borderRadius: 3, fontFamily: S.mono, fontSize: 8, letterSpacing: 0.5,
+			textTransform: 'uppercase', color: STATUS_COLORS[status],
+			border: `1px solid ${STATUS_COLORS[status]}55`, background: STATUS_COLORS[status] + '14',
+		}}>
+			{status}
+		</span>
+	);
+}
+
+function ActionButton({ label, color, onClick, disabled }: { label: string; color: string; onClick: () => void; disabled?: boolean }) {
+	return (
+		<button onClick={onClick} disabled={disabled} style={{
+			padding: '6px 12px', borderRadius: 4, border: `1px solid ${color}66`,
+			background: 'transparent', color, fontFamily: S.mono, fontSize: 10,
+			letterSpacing: 0.5, cursor: disabled ? 'default' : 'pointer', opacity: disabled ? 0.5 : 1,
+		}} type="button">
+			{label}
+		</button>
+	);
+}
+
+function ItemDetail({
+	item,
+	onClose,
+	onChanged,
+}: {
+	item: CalendarItem;
+	onClose: () => void;
+	onChanged: () => void;
+}) {
+	const [publishAt, setPublishAt] = useState(toLocalInput(item.publishAt));
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const editable = item.status === 'scheduled' || item.status === 'retrying' || item.status === 'failed';
+
+	const call = useCallback(async (url: string, init: RequestInit) => {
+		setBusy(true);
+		setError(null);
+		try {
+			const resp = await fetch(url, init);
+			const data = await resp.json() as { success: boolean; error?: string };
+			if (!data.success) throw new Error(data.error || 'Request failed');
+			onChanged();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Request failed');
+		} finally {
+			setBusy(false);
+		}
+	}, [onChanged]);
+
+	return (
+		<div style={{
+			background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 10, padding: 16, marginBottom: 16,
+		}}>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 8 }}>
+				<div>
+					<div style={{ fontSize: 15, fontWeight: 600, marginBottom: 6 }}>{item.title}</div>
+					<div style={{ display: 'flex', gap: 8, alignItems: 'center', fontFamily: S.mono, fontSize: 10, color: S.textMuted }}>
+						<StatusBadge status={item.status} />
+						<span>{item.platform}</span>
+						<span>{item.sourceType === 'finished_videos' ? 'Video' : 'Text post'}</span>
+						<span>{new Date(item.publishAt).toLocaleString()}</span>
+					</div>
+				</div>
+				<button onClick={onClose} style={{
+					background: 'none', border: 'none', color: S.textMuted, cursor: 'pointer', fontFamily: S.mono, fontSize: 12,
+				}} type="button">x</button>
+			</div>
+
+			{item.caption && (
+				<p style={{ fontSize: 13, color: S.textSecondary, marginTop: 10, whiteSpace: 'pre-wrap' }}>{item.caption}</p>
+			)}
+
+			{item.lastError && item.status !== 'published' && (
+				<div style={{ marginTop: 10, fontFamily: S.mono, fontSize: 10, color: S.red }}>
+					Last error: {item.lastError}
+					{item.status === 'retrying' && ` — next attempt ${new Date(item.nextAttemptAt).toLocaleTimeString()}`}
+				</div>
+			)}
+
+			{item.attemptLog.length > 0 && (
+				<>
+					<label style={labelStyle}>Attempts ({item.attempts})</label>
+					{item.attemptLog.map((a) => (
+						<div key={a.at} style={{ fontFamily: S.mono, fontSize: 10, color: a.success ? S.accentLight : S.textMuted, marginBottom: 2 }}>
+							{new Date(a.at).toLocaleString()} — {a.message}
+						</div>
+					))}
+				</>
+			)}
+
+			{editable && (
+				<div style={{ display: 'flex', gap: 8, alignItems: 'flex-end', flexWrap: 'wrap', marginTop: 14 }}>
+					<div style={{ flex: '1 1 200px' }}>
+						<label style={labelStyle}>Publish at</label>
+						<input type="datetime-local" value={publishAt} onChange={(e) => setPublishAt(e.target.value)} style={inputStyle} />
+					</div>
+					<ActionButton label="Reschedule" color={S.teal} disabled={busy} onClick={() => call(`/api/content-calendar/${item.id}`, {
+						method: 'PATCH',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify({ publishAt: new Date(publishAt).toISOString() }),
+					})} />
+					{(item.status === 'failed' || item.status === 'retrying') && (
+						<ActionButton label="Retry now" color={S.orange} disabled={busy} onClick={() => call(`/api/content-calendar/${item.id}/retry`, { method: 'POST' })} />
+					)}
+					<ActionButton label="Cancel post" color={S.red} disabled={busy} onClick={() => call(`/api/content-calendar/${item.id}`, { method: 'DELETE' })} />
+				</div>
+			)}
+
+			{error && <div style={{ marginTop: 8, fontFamily: S.mono, fontSize: 10, color: S.red }}>{error}</div>}
+		</div>
+	);
+}
+
+function ScheduleForm({ onScheduled }: { onScheduled: () => void }) {
+	const [sourceType, setSourceType] = useState<CalendarSourceType>('generated_content');
+	const [textOptions, setTextOptions] = useState<SourceOption[]>([]);
+	const [videoOptions, setVideoOptions] = useState<SourceOption[]>([]);
+	const [sourceId, setSourceId] = useState('');
+	const [platform, setPlatform] = useState('Instagram');
+	const [publishAt, setPublishAt] = useState('');
+	const [caption, setCaption] = useState('');
+	const [busy, setBusy] = useState(false);
+	const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+	useEffect(() => {
+		Promise.all([
+			fetch('/api/content-library?limit=50').then(r => r.json()).catch(() => ({ entries: [] })),
+			fetch('/api/video-library?limit=50').then(r => r.json()).catch(() => ({ entries: [] })),
+		]).then(([text, video]) => {
+			setTextOptions((text.entries || []).map((e: any) => ({
+				id: e.id,
+				label: `${e.platform}: ${(e.topic || e.content || '').slice(0, 60)}`,
+				platform: e.platform,
+			})));
+			setVideoOptions((video.entries || []).map((e: any) => ({
+				id: e.id,
+				label: `${e.platform}: ${e.title || 'Untitled'}`,
+				platform: e.platform,
+			})));
+		});
+	}, []);
+
+	const options = sourceType === 'generated_content' ? textOptions : videoOptions;
+
+	const handleSourceChange = (id: string) => {
+		setSourceId(id);
+		const option = options.find(o => o.id === id);
+		const match = option && PLATFORMS.find(p => p.toLowerCase() === option.platform.toLowerCase());
+		if (match) setPlatform(match);
+	};
+
+	const handleSubmit = async () => {
+		if (!sourceId || !publishAt) {
+			setMessage({ ok: false, text: 'Pick content and a publish time' });
+			return;
+		}
+		setBusy(true);
+		setMessage(null);
+		try {
+			const resp = await fetch('/api/content-calendar', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					sourceType,
+					sourceId,
+					platform,
+					publishAt: new Date(publishAt).toISOString(),
+					caption: caption.trim() || undefined,
+				}),
+			});
+			const data = await resp.json() as { success: boolean; error?: string };
+			if (!data.success) throw new Error(data.error || 'Failed to schedule');
+			setMessage({ ok: true, text: 'Scheduled' });
+			setSourceId('');
+			setCaption('');
+			onScheduled();
+		} catch (err) {
+			setMessage({ ok: false, text: err instanceof Error ? err.message : 'Failed to schedule' });
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<div style={{ background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 10, padding: 16, marginBottom: 16 }}>
+			<div style={{ fontFamily: S.mono, fontSize: 11, fontWeight: 700, letterSpacing: 1, color: S.textPrimary }}>
+				SCHEDULE A POST
+			</div>
+
+			<label style={labelStyle}>Content</label>
+			<div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+				{(['generated_content', 'finished_videos'] as const).map((t) => (
+					<button key={t} onClick={() => { setSourceType(t); setSourceId(''); }} style={{
+						padding: '5px 10px', borderRadius: 4, fontFamily: S.mono, fontSize: 10, cursor: 'pointer',
+						border: `1px solid ${sourceType === t ? S.accent + '88' : S.borderColor}`,
+						background: sourceType === t ? S.accent + '18' : 'transparent',
+						color: sourceType === t ? S.accentLight : S.textMuted,
+					}} type="button">
+						{t === 'generated_content' ? 'Text Post' : 'Video'}
+					</button>
+				))}
+			</div>
+			<select value={sourceId} onChange={(e) => handleSourceChange(e.target.value)} style={inputStyle}>
+				<option value="">{options.length ? 'Select...' : 'Nothing saved yet'}</option>
+				{options.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+			</select>
+
+			<label style={labelStyle}>Platform</label>
+			<select value={platform} onChange={(e) => setPlatform(e.target.value)} style={inputStyle}>
+				{PLATFORMS.map((p) => <option key={p} value={p}>{p}</option>)}
+			</select>
+
+			<label style={labelStyle}>Publish at</label>
+			<input type="datetime-local" value={publishAt} onChange={(e) => setPublishAt(e.target.value)} style={inputStyle} />
+
+			<label style={labelStyle}>Caption (optional — replaces the saved text)</label>
+			<textarea value={caption} onChange={(e) => setCaption(e.target.value)} rows={3} style={{ ...inputStyle, resize: 'vertical' }} />
+
+			<div style={{ display: 'flex', alignItems: 'center', gap: 10, marginTop: 14 }}>
+				<ActionButton label={busy ? 'Scheduling...' : 'Schedule'} color={S.accentLight} disabled={busy} onClick={handleSubmit} />
+				{message && (
+					<span style={{ fontFamily: S.mono, fontSize: 10, color: message.ok ? S.accentLight : S.red }}>{message.text}</span>
+				)}
+			</div>
+		</div>
+	);
+}
+
+// --- Main Component ---
+
+export function ContentCalendar({ onBack }: { onBack: () => void }) {
+	const isMobile = useIsMobile();
+	const [month, setMonth] = useState(() => {
+		const now = new Date();
+		return new Date(now.getFullYear(), now.getMonth(), 1);
+	});
+	const [items, setItems] = useState<CalendarItem[]>([]);
+	const [failedItems, setFailedItems] = useState<CalendarItem[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+
+	const grid = useMemo(() => monthGrid(month), [month]);
+
+	const fetchItems = useCallback(async () => {
+		try {
+			setLoading(true);
+			const from = grid[0]!.toISOString();
+			const last = new Date(grid[grid.length - 1]!);
+			last.setHours(23, 59, 59, 999);
+			const [rangeResp, failedResp] = await Promise.all([
+				fetch(`/api/content-calendar?from=${encodeURIComponent(from)}&to=${encodeURIComponent(last.toISOString())}`),
+				fetch('/api/content-calendar?status=failed'),
+			]);
+			const rangeData = await rangeResp.json() as { items: CalendarItem[]; error?: string };
+			const failedData = await failedResp.json() as { items: CalendarItem[] };
+			if (rangeData.error) throw new Error(rangeData.error);
+			setItems(rangeData.items || []);
+			setFailedItems(failedData.items || []);
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to load calendar');
+		} finally {
+			setLoading(false);
+		}
+	}, [grid]);
+
+	useEffect(() => {
+		fetchItems();
+		// Keep statuses fresh while the scheduler works through due posts
+		const timer = setInterval(fetchItems, 60_000);
+		return () => clearInterval(timer);
+	}, [fetchItems]);
+
+	const itemsByDay = useMemo(() => {
+		const map = new Map<string, CalendarItem[]>();
+		for (const item of items) {
+			const key = dayKey(new Date(item.publishAt));
+			map.set(key, [...(map.get(key) || []), item]);
+		}
+		return map;
+	}, [items]);
+
+	const selected = useMemo(
+		() => [...items, ...failedItems].find(i => i.id === selectedId) || null,
+		[items, failedItems, selectedId],
+	);
+
+	const retryingCount = items.filter(i => i.status === 'retrying').length;
+	const todayKey = dayKey(new Date());
+
+	const shiftMonth = (delta: number) => setMonth(m => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+
+	return (
+		<div style={{ minHeight: '100vh', background: S.bg, color: S.textPrimary, fontFamily: S.serif }}>
+			{/* Header */}
+			<header style={{
+				padding: isMobile ? '12px 16px' : '20px 28px', borderBottom: `1px solid ${S.borderColor}`,
+				display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+			}}>
+				<div>
+					<button onClick={onBack} style={{
+						background: 'none', border: 'none', color: S.textMuted, cursor: 'pointer',
+						fontFamily: S.mono, fontSize: 11, marginBottom: 6, letterSpacing: 0.5, padding: 0,
+					}} type="button">
+						{'<-'} Back to Content Studio
+					</button>
+					<h1 style={{ fontSize: 24, fontWeight: 700, letterSpacing: '-0.02em', margin: 0 }}>
+						Content Calendar
+					</h1>
+					<p style={{ fontFamily: S.mono, fontSize: 11, color: S.textMuted, marginTop: 4, letterSpacing: 0.3 }}>
+						Scheduled posts publish automatically through Make.com
+					</p>
+				</div>
+				<div style={{ display: 'flex', gap: 24 }}>
+					{[
+						{ value: items.filter(i => i.status === 'scheduled').length, label: 'Scheduled', color: S.teal },
+						{ value: retryingCount, label: 'Retrying', color: S.orange },
+						{ value: failedItems.length, label: 'Failed', color: S.red },
+					].map((stat) => (
+						<div key={stat.label} style={{ textAlign: 'center' }}>
+							<div style={{ fontFamily: S.mono, fontSize: 20, fontWeight: 700, color: stat.color }}>{stat.value}</div>
+							<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textDim, letterSpacing: 1, textTransform: 'uppercase' }}>
+								{stat.label}
+							</div>
+						</div>
+					))}
+				</div>
+			</header>
+
+			<main style={{
+				padding: isMobile ? '16px 12px' : '24px 28px', maxWidth: 1300, margin: '0 auto',
+				display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 340px', gap: 20,
+			}}>
+				{/* Month grid */}
+				<section>
+					<div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 }}>
+						<ActionButton label="<" color={S.textSecondary} onClick={() => shiftMonth(-1)} />
+						<div style={{ fontFamily: S.mono, fontSize: 13, fontWeight: 700, letterSpacing: 1 }}>
+							{month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+						</div>
+						<ActionButton label=">" color={S.textSecondary} onClick={() => shiftMonth(1)} />
+					</div>
+
+					{error && (
+						<div style={{ padding: 12, fontFamily: S.mono, fontSize: 11, color: S.red }}>{error}</div>
+					)}
+
+					<div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 4, opacity: loading ? 0.6 : 1 }}>
+						{WEEKDAYS.map((d) => (
+							<div key={d} style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, letterSpacing: 1, textAlign: 'center', paddingBottom: 4 }}>
+								{d.toUpperCase()}
+							</div>
+						))}
+						{grid.map((day) => {
+							const key = dayKey(day);
+							const dayItems = itemsByDay.get(key) || [];
+							const inMonth = day.getMonth() === month.getMonth();
+							return (
+								<div key={key} style={{
+									minHeight: isMobile ? 56 : 96, padding: 6, borderRadius: 6,
+									background: inMonth ? S.cardBg : 'transparent',
+									border: `1px solid ${key === todayKey ? S.accent : S.borderColor}`,
+								}}>
+									<div style={{ fontFamily: S.mono, fontSize: 10, color: inMonth ? S.textSecondary : S.textDim, marginBottom: 4 }}>
+										{day.getDate()}
+									</div>
+									{dayItems.map((item) => (
+										<button key={item.id} onClick={() => setSelectedId(item.id)} title={item.title} style={{
+											display: 'block', width: '100%', textAlign: 'left', marginBottom: 3,
+											padding: '2px 4px', borderRadius: 3, cursor: 'pointer',
+											border: `1px solid ${STATUS_COLORS[item.status]}55`,
+											background: STATUS_COLORS[item.status] + (selectedId === item.id ? '33' : '14'),
+											color: item.status === 'cancelled' ? S.textDim : S.textPrimary,
+											fontFamily: S.mono, fontSize: 9, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis',
+											textDecoration: item.status === 'cancelled' ? 'line-through' : 'none',
+										}} type="button">
+											{new Date(item.publishAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} {item.platform}
+										</button>
+									))}
+								</div>
+							);
+						})}
+					</div>
+				</section>
+
+				{/* Side panel */}
+				<aside>
+					{selected && (
+						<ItemDetail key={selected.id} item={selected} onClose={() => setSelectedId(null)} onChanged={fetchItems} />
+					)}
+
+					{failedItems.length > 0 && (
+						<div style={{ background: S.cardBg, border: `1px solid ${S.red}44`, borderRadius: 10, padding: 16, marginBottom: 16 }}>
+							<div style={{ fontFamily: S.mono, fontSize: 11, fontWeight: 700, letterSpacing: 1, color: S.red, marginBottom: 10 }}>
+								FAILED POSTS
+							</div>
+							{failedItems.map((item) => (
+								<button key={item.id} onClick={() => setSelectedId(item.id)} style={{
+									display: 'block', width: '100%', textAlign: 'left', background: 'none', border: 'none',
+									borderBottom: `1px solid ${S.borderColor}`, padding: '6px 0', cursor: 'pointer', color: S.textPrimary,
+								}} type="button">
+									<div style={{ fontSize: 13 }}>{item.title}</div>
+									<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted }}>
+										{item.platform} · {new Date(item.publishAt).toLocaleString()} · {item.lastError}
+									</div>
+								</button>
+							))}
+						</div>
+					)}
+
+					<ScheduleForm onScheduled={fetchItems} />
+				</aside>
+			</main>
+		</div>
+	);
+}
@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { VideoUploader } from './VideoUploader';
+import { FeedbackTrends } from './FeedbackTrends';
 import { BlogRenderer, isBlogWithMarkers } from './BlogRenderer';
 import { useIsMobile } from './useMediaQuery';
 
@@ -24,6 +25,9 @@ interface LibraryEntry {
 	content: string;
 	topic: string;
 	images?: LibraryImage[];
+	/** Set on pieces generated together in campaign mode. */
+	campaignId?: string;
+	campaignRole?: string;
 }
 
 interface VideoLibraryEntry {
@@ -56,7 +60,7 @@ interface GalleryImage extends LibraryImage {
 	parentTopic: string;
 }
 
-type MediaTab = 'text' | 'video' | 'audio' | 'images';
+type MediaTab = 'text' | 'video' | 'audio' | 'images' | 'feedback';
 
 // --- Design tokens (matching VideoEditor / App) ---
 
@@ -126,6 +130,7 @@ const TAB_CONFIG: { id: MediaTab; label: string; color: string }[] = [
 	{ id: 'video', label: 'Videos', color: S.orange },
 	{ id: 'audio', label: 'Audio', color: S.indigo },
 	{ id: 'images', label: 'Images', color: S.teal },
+	{ id: 'feedback', label: 'Feedback', color: S.accentLight },
 ];
 
 // --- Sub-components ---
@@ -138,7 +143,7 @@ function TabBar({
 }: {
 	activeTab: MediaTab;
 	onTabChange: (tab: MediaTab) => void;
-	counts: Record<MediaTab, number>;
+	counts: Partial<Record<MediaTab, number>>;
 	isMobile?: boolean;
 }) {
 	return (
@@ -173,7 +178,7 @@ function TabBar({
 						type="button"
 					>
 						{tab.label}
-						<span style={{
+						{counts[tab.id] !== undefined && <span style={{
 							background: active ? tab.color + '25' : S.borderColor,
 							borderRadius: 3,
 							padding: '1px 6px',
@@ -182,7 +187,7 @@ function TabBar({
 							transition: 'all 0.2s',
 						}}>
 							{counts[tab.id]}
-						</span>
+						</span>}
 					</button>
 				);
 			})}
@@ -369,6 +374,14 @@ function ContentCard({
 						<span style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted, letterSpacing: 0.3 }}>
 							{entry.platform}
 						</span>
+						{entry.campaignId && (
+							<span title={entry.campaignId} style={{
+								fontFamily: S.mono, fontSize: 9, color: S.textDim, letterSpacing: 0.3,
+								border: `1px solid ${S.borderColor}`, padding: '2px 6px', borderRadius: 3,
+							}}>
+								Campaign
+							</span>
+						)}
 					</div>
 					<span style={{ fontFamily: S.mono, fontSize: 9, color: S.textDim, letterSpacing: 0.3 }}>
 						{dateStr} {timeStr}
@@ -1203,7 +1216,7 @@ export function ContentLibrary({ onBack }: { onBack: () => void }) {
 	}, [entries]);
 
 	// Tab counts
-	const tabCounts = useMemo<Record<MediaTab, number>>(() => ({
+	const tabCounts = useMemo<Partial<Record<MediaTab, number>>>(() => ({
 		text: entries.length,
 		video: videoEntries.length,
 		audio: 0,
@@ -1486,6 +1499,11 @@ export function ContentLibrary({ onBack }: { onBack: () => void }) {
 					<EmptyState message="Audio coming soon" submessage="Audio content will appear here when audio generation is added. Stay tuned for voiceovers, music, and sound design." />
 				)}
 
+				{/* ===== FEEDBACK TAB ===== */}
+				{!isLoading && !error && activeTab === 'feedback' && (
+					<FeedbackTrends />
+				)}
+
 				{/* ===== IMAGES TAB ===== */}
 				{!isLoading && !error && activeTab === 'images' && (
 					<>
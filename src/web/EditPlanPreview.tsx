@@ -0,0 +1,269 @@
+/**
+ * EditPlanPreview — Watch an edit plan in the browser before rendering it
+ *
+ * Plays the CLCVideo composition in a Remotion Player with props from
+ * POST /api/edit-plans/preview — the same props builder the render engines
+ * use, with clips streamed from cached 480p proxies (or the Drive proxy
+ * while a clip's proxy is still being built). Nothing is rendered or
+ * billed; editors scrub, jump between clips and toggle overlays, then
+ * render only once the plan looks right.
+ *
+ * Preview differences from the final render: no stabilize/sharpen pass,
+ * no burned-in captions and no music ducking (those need the render's
+ * preprocessing), and clips without a proxy yet stream full-size from Drive.
+ *
+ * File: src/web/EditPlanPreview.tsx
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ComponentType } from 'react';
+import { Player, type PlayerRef } from '@remotion/player';
+import type { AnyZodObject } from 'remotion';
+import { CLCVideo } from '../agent/video-editor/remotion/CLCVideo';
+import type { CLCVideoProps } from '../agent/video-editor/remotion/types';
+
+// --- Types ---
+
+/** The Player wants props indexable as a record; CLCVideoProps is a plain interface. */
+type PlayerInputProps = CLCVideoProps & Record<string, unknown>;
+
+const PreviewComposition = CLCVideo as ComponentType<PlayerInputProps>;
+
+interface PreviewData {
+	props: CLCVideoProps;
+	durationInFrames: number;
+	clipStartFrames: number[];
+	pendingProxies: number;
+	musicTrack: { id: string; title: string } | null;
+}
+
+export interface EditPlanPreviewProps {
+	plan: { clips: Array<{ fileId: string; filename?: string; purpose?: string }>; [key: string]: unknown };
+	platforms: string[];
+	editMode: string;
+	musicUrl?: string;
+	musicDisabled?: boolean;
+	onClose: () => void;
+}
+
+// --- Design tokens ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	red: '#f87171',
+	purple: '#a78bfa',
+};
+
+const label = {
+	fontFamily: S.mono, fontSize: 10, color: S.textMuted, letterSpacing: 1, textTransform: 'uppercase' as const,
+};
+
+const chip = (active: boolean, color: string) => ({
+	padding: '4px 8px', borderRadius: 4, border: `1px solid ${active ? color : S.borderColor}`,
+	background: active ? `${color}20` : 'transparent', color: active ? color : S.textMuted,
+	cursor: 'pointer', fontFamily: S.mono, fontSize: 9,
+});
+
+const PLAYER_MAX_HEIGHT = '62vh';
+
+function formatFrame(frame: number, fps: number): string {
+	const seconds = frame / fps;
+	return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+// --- Main Component ---
+
+export function EditPlanPreview({ plan, platforms, editMode, musicUrl, musicDisabled, onClose }: EditPlanPreviewProps) {
+	const [platform, setPlatform] = useState(platforms[0] || 'tiktok');
+	const [data, setData] = useState<PreviewData | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [hiddenOverlays, setHiddenOverlays] = useState<Set<number>>(new Set());
+	const [musicOn, setMusicOn] = useState(true);
+	const [currentFrame, setCurrentFrame] = useState(0);
+	const playerRef = useRef<PlayerRef>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		setLoading(true);
+		setError(null);
+		fetch('/api/edit-plans/preview', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ editPlan: plan, platform, editMode, musicUrl, musicDisabled }),
+		})
+			.then(r => r.json())
+			.then((result) => {
+				if (cancelled) return;
+				if (!result.success) throw new Error(result.error || 'Preview failed');
+				setData(result);
+			})
+			.catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); })
+			.finally(() => { if (!cancelled) setLoading(false); });
+		return () => { cancelled = true; };
+	}, [plan, platform, editMode, musicUrl, musicDisabled]);
+
+	// Keep the clip list's highlight in step with playback and scrubbing
+	useEffect(() => {
+		const player = playerRef.current;
+		if (!player) return;
+		const onFrame = (e: { detail: { frame: number } }) => setCurrentFrame(e.detail.frame);
+		player.addEventListener('frameupdate', onFrame);
+		return () => player.removeEventListener('frameupdate', onFrame);
+	}, [data]);
+
+	const inputProps = useMemo<PlayerInputProps | null>(() => {
+		if (!data) return null;
+		return {
+			...data.props,
+			textOverlays: data.props.textOverlays.filter((_, index) => !hiddenOverlays.has(index)),
+			musicSrc: musicOn ? data.props.musicSrc : null,
+		};
+	}, [data, hiddenOverlays, musicOn]);
+
+	const currentClip = useMemo(() => {
+		if (!data) return -1;
+		let index = -1;
+		data.clipStartFrames.forEach((start, i) => { if (currentFrame >= start) index = i; });
+		return index;
+	}, [data, currentFrame]);
+
+	const jumpTo = useCallback((frame: number) => {
+		playerRef.current?.seekTo(frame);
+	}, []);
+
+	const toggleOverlay = (index: number) => {
+		setHiddenOverlays(prev => {
+			const next = new Set(prev);
+			if (next.has(index)) next.delete(index);
+			else next.add(index);
+			return next;
+		});
+	};
+
+	const aspect = data ? data.props.width / data.props.height : 9 / 16;
+
+	return (
+		<div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+			{/* Header */}
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+				<div>
+					<div style={{ fontFamily: S.serif, fontSize: 20, color: S.textPrimary }}>Preview</div>
+					<div style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted, marginTop: 4 }}>
+						Free in-browser preview · no stabilization, captions or music ducking — the render adds those
+					</div>
+				</div>
+				<div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap' }}>
+					{platforms.map(p => (
+						<button key={p} onClick={() => setPlatform(p)} style={chip(platform === p, S.accentLight)} type="button">{p}</button>
+					))}
+					<button onClick={onClose} style={{ ...chip(false, S.textMuted), marginLeft: 8 }} type="button">Close</button>
+				</div>
+			</div>
+
+			{data && !loading && data.pendingProxies > 0 && (
+				<div style={{ fontFamily: S.mono, fontSize: 10, color: S.textSecondary }}>
+					{data.pendingProxies} clip{data.pendingProxies === 1 ? '' : 's'} streaming full-size from Drive while low-res proxies build — reopen the preview later for faster scrubbing
+				</div>
+			)}
+
+			{loading && <div style={{ ...label, padding: 40, textAlign: 'center' }}>Building preview…</div>}
+			{error && <div style={{ fontFamily: S.mono, fontSize: 11, color: S.red }}>{error}</div>}
+
+			{data && inputProps && !loading && (
+				<div style={{ display: 'flex', gap: 20, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+					{/* Player */}
+					<div style={{
+						height: PLAYER_MAX_HEIGHT, aspectRatio: String(aspect), maxWidth: '100%',
+						background: '#000', borderRadius: 8, overflow: 'hidden', flexShrink: 0,
+					}}>
+						<Player<AnyZodObject, PlayerInputProps>
+							ref={playerRef}
+							component={PreviewComposition}
+							inputProps={inputProps}
+							durationInFrames={data.durationInFrames}
+							fps={data.props.fps}
+							compositionWidth={data.props.width}
+							compositionHeight={data.props.height}
+							style={{ width: '100%', height: '100%' }}
+							controls
+							clickToPlay
+							doubleClickToFullscreen
+							spaceKeyToPlayOrPause
+						/>
+					</div>
+
+					{/* Clip jumps + toggles */}
+					<div style={{ flex: '1 1 240px', display: 'flex', flexDirection: 'column', gap: 14, minWidth: 220 }}>
+						<div>
+							<div style={{ ...label, marginBottom: 6 }}>Clips</div>
+							<div style={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+								{plan.clips.map((clip, index) => {
+									const start = data.clipStartFrames[index] ?? 0;
+									return (
+										<button
+											key={`${clip.fileId}-${index}`}
+											onClick={() => jumpTo(start)}
+											style={{
+												textAlign: 'left', padding: '5px 8px', borderRadius: 4, cursor: 'pointer',
+												border: `1px solid ${currentClip === index ? S.accentLight : S.borderColor}`,
+												background: currentClip === index ? `${S.accent}30` : 'transparent',
+												color: S.textPrimary, fontFamily: S.mono, fontSize: 10,
+												whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis',
+											}}
+											type="button"
+										>
+											<span style={{ color: S.textMuted }}>{formatFrame(start, data.props.fps)}</span>
+											{' '}{index + 1}. {clip.purpose || clip.filename || clip.fileId}
+										</button>
+									);
+								})}
+							</div>
+						</div>
+
+						{data.props.textOverlays.length > 0 && (
+							<div>
+								<div style={{ ...label, marginBottom: 6 }}>Text overlays</div>
+								<div style={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+									{data.props.textOverlays.map((overlay, index) => (
+										<label key={index} style={{
+											display: 'flex', gap: 6, alignItems: 'center', cursor: 'pointer',
+											fontFamily: S.mono, fontSize: 10, color: hiddenOverlays.has(index) ? S.textMuted : S.textPrimary,
+										}}>
+											<input type="checkbox" checked={!hiddenOverlays.has(index)} onChange={() => toggleOverlay(index)} />
+											<span
+												onClick={(e) => { e.preventDefault(); jumpTo(overlay.startFrame); }}
+												style={{ color: S.purple }}
+											>{formatFrame(overlay.startFrame, data.props.fps)}</span>
+											<span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{overlay.text}</span>
+										</label>
+									))}
+								</div>
+							</div>
+						)}
+
+						<div>
+							<div style={{ ...label, marginBottom: 6 }}>Music</div>
+							{data.props.musicSrc ? (
+								<label style={{ display: 'flex', gap: 6, alignItems: 'center', fontFamily: S.mono, fontSize: 10, color: S.textPrimary, cursor: 'pointer' }}>
+									<input type="checkbox" checked={musicOn} onChange={() => setMusicOn(on => !on)} />
+									{data.musicTrack?.title || 'Custom track'}
+								</label>
+							) : (
+								<div style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted }}>No music for this platform</div>
+							)}
+						</div>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,701 @@
+/**
+ * EditPlanTimeline — Hand-tune an edit plan on a timeline
+ *
+ * Clips are trimmable blocks drawn over thumbnails of the catalog's
+ * visualTimeline frames, text overlays are draggable bars, and the
+ * soundtrack is its own lane. Every edit is re-validated server-side
+ * (validate-edit-plan runs the same validateEditPlan as the edit task) and
+ * issues show inline on the clips they concern. Saving stores the plan as a
+ * new edit plan version the render task accepts as-is.
+ *
+ * Timeline length of a clip is duration / speed (source seconds over speed).
+ *
+ * File: src/web/EditPlanTimeline.tsx
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+// --- Types ---
+
+interface PlanClip {
+	fileId: string;
+	filename?: string;
+	trimStart: number;
+	duration: number;
+	speed?: number;
+	purpose?: string;
+	[key: string]: unknown;
+}
+
+interface PlanOverlay {
+	text: string;
+	start: number;
+	duration: number;
+	position?: string;
+	[key: string]: unknown;
+}
+
+interface EditPlan {
+	clips: PlanClip[];
+	textOverlays?: PlanOverlay[];
+	totalDuration?: number;
+	musicUrl?: string | null;
+	_versionId?: string;
+	[key: string]: unknown;
+}
+
+interface ValidationIssue {
+	severity: 'error' | 'warning';
+	category: string;
+	clipIndex?: number;
+	message: string;
+	autoFixed?: boolean;
+	fixDescription?: string;
+}
+
+interface Validation {
+	valid: boolean;
+	errorCount: number;
+	warningCount: number;
+	autoFixCount: number;
+	errors: ValidationIssue[];
+	warnings: ValidationIssue[];
+}
+
+interface TimelineSource {
+	filename?: string;
+	frameToken?: string;
+	durationSeconds: number | null;
+	frames: Array<{ timestamp: number; description: string; energy: number; isAction: boolean }>;
+	actionWindows: Array<{ start: number; end: number; type: string; peakEnergy: number }>;
+}
+
+interface TimelineMusic {
+	id: string;
+	title: string;
+	durationSeconds: number;
+	bpm?: number;
+	downbeats: number[];
+}
+
+type DragState =
+	| { kind: 'trim-start' | 'trim-end'; index: number; startX: number; clip: PlanClip }
+	| { kind: 'overlay-move' | 'overlay-resize'; index: number; startX: number; overlay: PlanOverlay };
+
+export interface EditPlanTimelineProps {
+	plan: EditPlan;
+	videos: Array<{ id: string; name: string; thumbnail?: string }>;
+	platform: string;
+	editMode: string;
+	musicDisabled?: boolean;
+	onSave: (plan: EditPlan, versionId?: string) => void;
+	onClose: () => void;
+}
+
+// --- Design tokens ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	textDim: '#2a3148',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	red: '#f87171',
+	amber: '#fbbf24',
+	purple: '#a78bfa',
+	teal: '#1ABC9C',
+};
+
+const label = {
+	fontFamily: S.mono, fontSize: 10, color: S.textMuted, letterSpacing: 1, textTransform: 'uppercase' as const,
+};
+
+const input = {
+	background: S.bg, border: `1px solid ${S.borderColor}`, borderRadius: 4, padding: '4px 6px',
+	color: S.textPrimary, fontFamily: S.mono, fontSize: 11, width: '100%', boxSizing: 'border-box' as const,
+};
+
+const button = (color: string, filled = false) => ({
+	padding: '6px 12px', borderRadius: 6, border: `1px solid ${color}`,
+	background: filled ? color : 'transparent', color: filled ? '#ffffff' : color,
+	cursor: 'pointer', fontFamily: S.mono, fontSize: 10,
+});
+
+const LANE_HEIGHT = 56;
+const OVERLAY_LANE_HEIGHT = 26;
+const MIN_CLIP_SECONDS = 0.5;
+const MIN_OVERLAY_SECONDS = 0.5;
+const VALIDATE_DEBOUNCE_MS = 400;
+const FRAME_CELL_WIDTH = 44;
+const POSITIONS = ['top', 'center', 'bottom', 'lower-third'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const clipLength = (clip: PlanClip) => clip.duration / (clip.speed || 1);
+
+function withTotals(plan: EditPlan): EditPlan {
+	return { ...plan, totalDuration: round2(plan.clips.reduce((sum, clip) => sum + clipLength(clip), 0)) };
+}
+
+async function callTimelineTask(body: Record<string, unknown>): Promise<any> {
+	const resp = await fetch('/api/video-editor', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+	return resp.json();
+}
+
+// --- Sub-components ---
+
+/** Thumbnails of the source's visualTimeline frames inside the clip's trim window. */
+function FrameStrip({ fileId, clip, source, width, fallback }: {
+	fileId: string;
+	clip: PlanClip;
+	source?: TimelineSource;
+	width: number;
+	fallback?: string;
+}) {
+	const inWindow = (source?.frameToken ? source.frames : []).filter(
+		f => f.timestamp >= clip.trimStart - 0.5 && f.timestamp <= clip.trimStart + clip.duration + 0.5,
+	);
+	const cells = Math.max(1, Math.floor(width / FRAME_CELL_WIDTH));
+	const step = Math.max(1, Math.ceil(inWindow.length / cells));
+	const shown = inWindow.filter((_, i) => i % step === 0).slice(0, cells);
+
+	if (shown.length === 0) {
+		return fallback
+			? <img src={fallback} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover', opacity: 0.5 }} />
+			: null;
+	}
+	return (
+		<div style={{ display: 'flex', width: '100%', height: '100%' }}>
+			{shown.map(frame => (
+				<img
+					key={frame.timestamp}
+					src={`/api/timeline-frame/${encodeURIComponent(fileId)}?t=${frame.timestamp}&token=${source!.frameToken}`}
+					alt=""
+					title={`${frame.timestamp.toFixed(1)}s — ${frame.description} (energy ${frame.energy}/5)`}
+					loading="lazy"
+					style={{
+						flex: 1, minWidth: 0, height: '100%', objectFit: 'cover',
+						opacity: frame.isAction ? 0.8 : 0.45,
+						borderRight: `1px solid ${S.bg}`,
+					}}
+				/>
+			))}
+		</div>
+	);
+}
+
+function IssueList({ issues, onSelectClip }: { issues: ValidationIssue[]; onSelectClip: (index: number) => void }) {
+	if (issues.length === 0) {
+		return <div style={{ fontFamily: S.mono, fontSize: 10, color: S.accentLight }}>No issues</div>;
+	}
+	return (
+		<div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+			{issues.map((issue, i) => (
+				<div
+					key={i}
+					onClick={() => issue.clipIndex !== undefined && onSelectClip(issue.clipIndex)}
+					style={{
+						fontFamily: S.mono, fontSize: 10, lineHeight: 1.5,
+						color: issue.severity === 'error' ? S.red : S.amber,
+						cursor: issue.clipIndex !== undefined ? 'pointer' : 'default',
+					}}
+				>
+					{issue.severity === 'error' ? '✕' : '!'} {issue.message}
+					{issue.autoFixed && issue.fixDescription && (
+						<span style={{ color: S.textMuted }}> — fix: {issue.fixDescription}</span>
+					)}
+				</div>
+			))}
+		</div>
+	);
+}
+
+// --- Main Component ---
+
+export function EditPlanTimeline({ plan, videos, platform, editMode, musicDisabled, onSave, onClose }: EditPlanTimelineProps) {
+	const [draft, setDraft] = useState<EditPlan>(() => withTotals(structuredClone(plan)));
+	const [validation, setValidation] = useState<Validation | null>(null);
+	const [fixedPlan, setFixedPlan] = useState<EditPlan | null>(null);
+	const [sources, setSources] = useState<Record<string, TimelineSource>>({});
+	const [music, setMusic] = useState<TimelineMusic | null>(null);
+	const [validating, setValidating] = useState(false);
+	const [selectedClip, setSelectedClip] = useState<number | null>(null);
+	const [selectedOverlay, setSelectedOverlay] = useState<number | null>(null);
+	const [drag, setDrag] = useState<DragState | null>(null);
+	const [saving, setSaving] = useState(false);
+	const [saveError, setSaveError] = useState<string | null>(null);
+	const [dirty, setDirty] = useState(false);
+	const [pxPerSecond, setPxPerSecond] = useState(24);
+	const requestRef = useRef(0);
+
+	const thumbnails = useMemo(() => new Map(videos.map(v => [v.id, v.thumbnail])), [videos]);
+	const clipStarts = useMemo(() => {
+		let cursor = 0;
+		return draft.clips.map((clip) => {
+			const start = cursor;
+			cursor += clipLength(clip);
+			return start;
+		});
+	}, [draft.clips]);
+	const total = draft.totalDuration || 0;
+	const trackWidth = Math.max(total * pxPerSecond, 200);
+
+	const issues = useMemo(
+		() => validation ? [...validation.errors, ...validation.warnings] : [],
+		[validation],
+	);
+	const issuesForClip = useCallback(
+		(index: number) => issues.filter(issue => issue.clipIndex === index),
+		[issues],
+	);
+
+	// --- Live validation ---
+
+	useEffect(() => {
+		const requestId = ++requestRef.current;
+		setValidating(true);
+		const timer = setTimeout(async () => {
+			try {
+				const data = await callTimelineTask({
+					task: 'validate-edit-plan', editPlan: draft, platform, editMode, musicDisabled,
+				});
+				// A newer edit superseded this request
+				if (requestId !== requestRef.current) return;
+				if (data.success) {
+					setValidation(data.validation);
+					setFixedPlan(data.editPlanData);
+					setSources(prev => ({ ...prev, ...data.timelineSources }));
+					setMusic(data.musicTrack || null);
+				}
+			} catch { /* keep the last result — validation is advisory until save */ }
+			finally {
+				if (requestId === requestRef.current) setValidating(false);
+			}
+		}, VALIDATE_DEBOUNCE_MS);
+		return () => clearTimeout(timer);
+	}, [draft, platform, editMode, musicDisabled]);
+
+	const update = useCallback((mutate: (plan: EditPlan) => void) => {
+		setDraft(prev => {
+			const next = structuredClone(prev);
+			mutate(next);
+			return withTotals(next);
+		});
+		setDirty(true);
+		setSaveError(null);
+	}, []);
+
+	// --- Dragging ---
+
+	useEffect(() => {
+		if (!drag) return;
+		const current = drag;
+		const onMove = (e: MouseEvent) => {
+			const deltaSeconds = (e.clientX - current.startX) / pxPerSecond;
+			update((next) => {
+				if ('clip' in current) {
+					const clip = next.clips[current.index];
+					if (!clip) return;
+					const speed = current.clip.speed || 1;
+					const sourceMax = sources[clip.fileId]?.durationSeconds ?? Infinity;
+					const deltaSource = deltaSeconds * speed;
+					if (current.kind === 'trim-start') {
+						// Move the in-point, keeping the out-point fixed
+						const end = current.clip.trimStart + current.clip.duration;
+						const trimStart = Math.min(Math.max(0, current.clip.trimStart + deltaSource), end - MIN_CLIP_SECONDS);
+						clip.trimStart = round2(trimStart);
+						clip.duration = round2(end - trimStart);
+					} else {
+						const maxDuration = sourceMax - current.clip.trimStart;
+						clip.duration = round2(Math.min(Math.max(MIN_CLIP_SECONDS, current.clip.duration + deltaSource), maxDuration));
+					}
+				} else {
+					const overlay = next.textOverlays?.[current.index];
+					if (!overlay) return;
+					const planTotal = next.clips.reduce((sum, c) => sum + clipLength(c), 0);
+					if (current.kind === 'overlay-move') {
+						overlay.start = round2(Math.min(Math.max(0, current.overlay.start + deltaSeconds), Math.max(0, planTotal - overlay.duration)));
+					} else {
+						overlay.duration = round2(Math.min(
+							Math.max(MIN_OVERLAY_SECONDS, current.overlay.duration + deltaSeconds),
+							Math.max(MIN_OVERLAY_SECONDS, planTotal - overlay.start),
+						));
+					}
+				}
+			});
+		};
+		const onUp = () => setDrag(null);
+		window.addEventListener('mousemove', onMove);
+		window.addEventListener('mouseup', onUp);
+		return () => {
+			window.removeEventListener('mousemove', onMove);
+			window.removeEventListener('mouseup', onUp);
+		};
+	}, [drag, pxPerSecond, sources, update]);
+
+	const startClipDrag = (e: React.MouseEvent, index: number, kind: 'trim-start' | 'trim-end') => {
+		e.preventDefault();
+		e.stopPropagation();
+		setSelectedClip(index);
+		setSelectedOverlay(null);
+		setDrag({ kind, index, startX: e.clientX, clip: { ...draft.clips[index]! } });
+	};
+
+	const startOverlayDrag = (e: React.MouseEvent, index: number, kind: 'overlay-move' | 'overlay-resize') => {
+		e.preventDefault();
+		e.stopPropagation();
+		setSelectedOverlay(index);
+		setSelectedClip(null);
+		setDrag({ kind, index, startX: e.clientX, overlay: { ...draft.textOverlays![index]! } });
+	};
+
+	// --- Clip / overlay edits ---
+
+	const moveClip = (index: number, direction: -1 | 1) => {
+		const target = index + direction;
+		if (target < 0 || target >= draft.clips.length) return;
+		update((next) => {
+			const [clip] = next.clips.splice(index, 1);
+			next.clips.splice(target, 0, clip!);
+		});
+		setSelectedClip(target);
+	};
+
+	const removeClip = (index: number) => {
+		if (draft.clips.length <= 1) return;
+		update((next) => { next.clips.splice(index, 1); });
+		setSelectedClip(null);
+	};
+
+	const setClipField = (index: number, field: 'trimStart' | 'duration' | 'speed', value: number) => {
+		if (!Number.isFinite(value)) return;
+		update((next) => {
+			const clip = next.clips[index];
+			if (clip) clip[field] = field === 'speed' ? Math.min(Math.max(value, 0.25), 4) : Math.max(0, value);
+		});
+	};
+
+	const setOverlayField = (index: number, field: keyof PlanOverlay, value: string | number) => {
+		update((next) => {
+			const overlay = next.textOverlays?.[index];
+			if (overlay) overlay[field] = value;
+		});
+	};
+
+	const addOverlay = () => {
+		update((next) => {
+			next.textOverlays = [...(next.textOverlays || []), { text: 'New text', start: 0, duration: 2, position: 'center' }];
+		});
+		setSelectedOverlay(draft.textOverlays?.length ?? 0);
+		setSelectedClip(null);
+	};
+
+	const removeOverlay = (index: number) => {
+		update((next) => { next.textOverlays?.splice(index, 1); });
+		setSelectedOverlay(null);
+	};
+
+	const applyFixes = () => {
+		if (!fixedPlan) return;
+		setDraft(withTotals(structuredClone(fixedPlan)));
+		setDirty(true);
+	};
+
+	const save = async () => {
+		setSaving(true);
+		setSaveError(null);
+		try {
+			const data = await callTimelineTask({
+				task: 'save-edit-plan', editPlan: draft, platform, editMode, musicDisabled,
+			});
+			if (data.validation) setValidation(data.validation);
+			if (!data.success) {
+				setSaveError(data.error || 'Save failed');
+				return;
+			}
+			setDirty(false);
+			onSave(data.editPlanData, data.editPlanVersionId);
+		} catch (err) {
+			setSaveError(err instanceof Error ? err.message : 'Save failed');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const clip = selectedClip !== null ? draft.clips[selectedClip] : undefined;
+	const overlay = selectedOverlay !== null ? draft.textOverlays?.[selectedOverlay] : undefined;
+	const clipSource = clip ? sources[clip.fileId] : undefined;
+
+	// --- Render ---
+
+	return (
+		<div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+			{/* Header */}
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+				<div>
+					<div style={{ fontFamily: S.serif, fontSize: 20, color: S.textPrimary }}>Timeline</div>
+					<div style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted, marginTop: 4 }}>
+						{draft.clips.length} clips · {total.toFixed(1)}s · {(draft.textOverlays || []).length} overlays
+						{' · '}
+						{validating
+							? <span>checking…</span>
+							: validation
+								? <span style={{ color: validation.valid ? S.accentLight : S.red }}>
+									{validation.valid ? 'valid' : `${validation.errorCount} errors`}, {validation.warningCount} warnings
+								</span>
+								: null}
+					</div>
+				</div>
+				<div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+					<span style={label}>Zoom</span>
+					<input
+						type="range" min={8} max={80} value={pxPerSecond}
+						onChange={(e) => setPxPerSecond(Number(e.target.value))}
+						style={{ width: 90 }}
+					/>
+					{validation && validation.autoFixCount > 0 && (
+						<button onClick={applyFixes} disabled={validating} style={button(S.amber)} type="button">
+							Apply {validation.autoFixCount} fix{validation.autoFixCount === 1 ? '' : 'es'}
+						</button>
+					)}
+					<button
+						onClick={save}
+						disabled={saving || !dirty}
+						style={{ ...button(S.accent, true), opacity: saving || !dirty ? 0.5 : 1 }}
+						type="button"
+					>
+						{saving ? 'Saving…' : 'Save as new version'}
+					</button>
+					<button onClick={onClose} style={button(S.textMuted)} type="button">Close</button>
+				</div>
+			</div>
+
+			{saveError && (
+				<div style={{ fontFamily: S.mono, fontSize: 11, color: S.red }}>{saveError}</div>
+			)}
+
+			{/* Lanes */}
+			<div style={{ overflowX: 'auto', border: `1px solid ${S.borderColor}`, borderRadius: 8, background: S.cardBg, padding: '8px 0' }}>
+				<div style={{ position: 'relative', width: trackWidth + 16, padding: '0 8px' }}>
+					{/* Ruler */}
+					<div style={{ position: 'relative', height: 18 }}>
+						{Array.from({ length: Math.floor(total) + 1 }, (_, second) => second)
+							.filter(second => second % (pxPerSecond < 16 ? 5 : pxPerSecond < 40 ? 2 : 1) === 0)
+							.map(second => (
+								<span key={second} style={{
+									position: 'absolute', left: second * pxPerSecond, top: 0,
+									fontFamily: S.mono, fontSize: 8, color: S.textMuted,
+									borderLeft: `1px solid ${S.textDim}`, paddingLeft: 2,
+								}}>{second}s</span>
+							))}
+					</div>
+
+					{/* Video lane */}
+					<div style={{ position: 'relative', height: LANE_HEIGHT, marginTop: 4 }}>
+						{draft.clips.map((c, index) => {
+							const width = Math.max(clipLength(c) * pxPerSecond, 6);
+							const clipIssues = issuesForClip(index);
+							const hasError = clipIssues.some(issue => issue.severity === 'error');
+							const outline = hasError ? S.red : clipIssues.length > 0 ? S.amber : selectedClip === index ? S.accentLight : S.borderColor;
+							return (
+								<div
+									key={`${c.fileId}-${index}`}
+									onClick={() => { setSelectedClip(index); setSelectedOverlay(null); }}
+									title={clipIssues.map(issue => issue.message).join('\n') || c.filename || c.fileId}
+									style={{
+										position: 'absolute', left: clipStarts[index]! * pxPerSecond, width, top: 0, bottom: 0,
+										border: `${selectedClip === index ? 2 : 1}px solid ${outline}`, borderRadius: 4,
+										overflow: 'hidden', background: S.bg, cursor: 'pointer', boxSizing: 'border-box',
+									}}
+								>
+									<FrameStrip
+										fileId={c.fileId}
+										clip={c}
+										source={sources[c.fileId]}
+										width={width}
+										fallback={thumbnails.get(c.fileId)}
+									/>
+									<div style={{
+										position: 'absolute', left: 4, bottom: 2, right: 4,
+										fontFamily: S.mono, fontSize: 8, color: S.textPrimary,
+										textShadow: '0 1px 2px #000', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis',
+									}}>
+										{index + 1}. {c.filename || c.fileId}{(c.speed || 1) !== 1 ? ` · ${c.speed}x` : ''}
+									</div>
+									{clipIssues.length > 0 && (
+										<div style={{
+											position: 'absolute', top: 2, right: 10, fontFamily: S.mono, fontSize: 9, fontWeight: 700,
+											color: hasError ? S.red : S.amber, textShadow: '0 1px 2px #000',
+										}}>{hasError ? '✕' : '!'}{clipIssues.length}</div>
+									)}
+									{/* Trim handles */}
+									<div
+										onMouseDown={(e) => startClipDrag(e, index, 'trim-start')}
+										style={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize', background: `${S.accentLight}80` }}
+									/>
+									<div
+										onMouseDown={(e) => startClipDrag(e, index, 'trim-end')}
+										style={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize', background: `${S.accentLight}80` }}
+									/>
+								</div>
+							);
+						})}
+					</div>
+
+					{/* Text overlay lane */}
+					<div style={{ position: 'relative', height: OVERLAY_LANE_HEIGHT, marginTop: 6 }}>
+						{(draft.textOverlays || []).map((o, index) => (
+							<div
+								key={index}
+								onMouseDown={(e) => startOverlayDrag(e, index, 'overlay-move')}
+								title={`${o.text} (${o.start}s–${round2(o.start + o.duration)}s)`}
+								style={{
+									position: 'absolute', left: o.start * pxPerSecond, width: Math.max(o.duration * pxPerSecond, 6),
+									top: 0, bottom: 0, borderRadius: 4, boxSizing: 'border-box',
+									background: `${S.purple}30`, border: `${selectedOverlay === index ? 2 : 1}px solid ${S.purple}`,
+									fontFamily: S.mono, fontSize: 9, color: S.textPrimary, padding: '5px 8px 0 6px',
+									whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', cursor: 'grab',
+								}}
+							>
+								{o.text}
+								<div
+									onMouseDown={(e) => startOverlayDrag(e, index, 'overlay-resize')}
+									style={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize', background: `${S.purple}80` }}
+								/>
+							</div>
+						))}
+					</div>
+
+					{/* Music lane */}
+					<div style={{ position: 'relative', height: OVERLAY_LANE_HEIGHT, marginTop: 6 }}>
+						{music ? (
+							<div style={{
+								position: 'absolute', left: 0, width: Math.min(music.durationSeconds || total, total) * pxPerSecond,
+								top: 0, bottom: 0, borderRadius: 4, background: `${S.teal}20`, border: `1px solid ${S.teal}60`,
+								overflow: 'hidden',
+							}}>
+								{music.downbeats.filter(beat => beat <= total).map(beat => (
+									<div key={beat} style={{
+										position: 'absolute', left: beat * pxPerSecond, top: 0, bottom: 0,
+										borderLeft: `1px solid ${S.teal}50`,
+									}} />
+								))}
+								<span style={{ position: 'absolute', left: 6, top: 5, fontFamily: S.mono, fontSize: 9, color: S.teal }}>
+									♪ {music.title}{music.bpm ? ` · ${Math.round(music.bpm)} BPM` : ''}
+								</span>
+							</div>
+						) : (
+							<span style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, lineHeight: `${OVERLAY_LANE_HEIGHT}px` }}>
+								No music
+							</span>
+						)}
+					</div>
+				</div>
+			</div>
+
+			<div style={{ display: 'flex', gap: 16, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+				{/* Inspector */}
+				<div style={{ flex: '1 1 280px', display: 'flex', flexDirection: 'column', gap: 8 }}>
+					{clip && selectedClip !== null && (
+						<>
+							<div style={label}>Clip {selectedClip + 1} — {clip.filename || clip.fileId}</div>
+							<div style={{ display: 'flex', gap: 8 }}>
+								{(['trimStart', 'duration', 'speed'] as const).map(field => (
+									<label key={field} style={{ flex: 1 }}>
+										<div style={{ ...label, fontSize: 8, marginBottom: 2 }}>{field}</div>
+										<input
+											type="number"
+											step={field === 'speed' ? 0.05 : 0.1}
+											value={field === 'speed' ? (clip.speed || 1) : clip[field]}
+											onChange={(e) => setClipField(selectedClip, field, parseFloat(e.target.value))}
+											style={input}
+										/>
+									</label>
+								))}
+							</div>
+							<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted }}>
+								Source {clipSource?.durationSeconds ? `${clipSource.durationSeconds}s` : 'length unknown'}
+								{clip.purpose ? ` · ${clip.purpose}` : ''}
+								{clipSource && clipSource.actionWindows.length > 0 && (
+									<> · action at {clipSource.actionWindows.map(w => `${w.start}–${w.end}s`).join(', ')}</>
+								)}
+							</div>
+							<div style={{ display: 'flex', gap: 8 }}>
+								<button onClick={() => moveClip(selectedClip, -1)} disabled={selectedClip === 0} style={button(S.textSecondary)} type="button">← Earlier</button>
+								<button onClick={() => moveClip(selectedClip, 1)} disabled={selectedClip === draft.clips.length - 1} style={button(S.textSecondary)} type="button">Later →</button>
+								<button onClick={() => removeClip(selectedClip)} disabled={draft.clips.length <= 1} style={button(S.red)} type="button">Remove</button>
+							</div>
+						</>
+					)}
+
+					{overlay && selectedOverlay !== null && (
+						<>
+							<div style={label}>Text overlay {selectedOverlay + 1}</div>
+							<input
+								value={overlay.text}
+								onChange={(e) => setOverlayField(selectedOverlay, 'text', e.target.value)}
+								style={input}
+							/>
+							<div style={{ display: 'flex', gap: 8 }}>
+								{(['start', 'duration'] as const).map(field => (
+									<label key={field} style={{ flex: 1 }}>
+										<div style={{ ...label, fontSize: 8, marginBottom: 2 }}>{field}</div>
+										<input
+											type="number"
+											step={0.1}
+											value={overlay[field]}
+											onChange={(e) => {
+												const value = parseFloat(e.target.value);
+												if (Number.isFinite(value)) setOverlayField(selectedOverlay, field, Math.max(0, value));
+											}}
+											style={input}
+										/>
+									</label>
+								))}
+								<label style={{ flex: 1 }}>
+									<div style={{ ...label, fontSize: 8, marginBottom: 2 }}>position</div>
+									<select
+										value={overlay.position || 'center'}
+										onChange={(e) => setOverlayField(selectedOverlay, 'position', e.target.value)}
+										style={input}
+									>
+										{POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+									</select>
+								</label>
+							</div>
+							<div>
+								<button onClick={() => removeOverlay(selectedOverlay)} style={button(S.red)} type="button">Remove overlay</button>
+							</div>
+						</>
+					)}
+
+					{!clip && !overlay && (
+						<div style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted, lineHeight: 1.6 }}>
+							Drag a clip's edges to trim it, drag text bars to move them, or select one to edit exact values.
+						</div>
+					)}
+					<div>
+						<button onClick={addOverlay} style={button(S.purple)} type="button">+ Text overlay</button>
+					</div>
+				</div>
+
+				{/* Issues */}
+				<div style={{ flex: '1 1 280px' }}>
+					<div style={{ ...label, marginBottom: 6 }}>Validation</div>
+					{validation
+						? <IssueList issues={issues} onSelectClip={(index) => { setSelectedClip(index); setSelectedOverlay(null); }} />
+						: <div style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted }}>Checking…</div>}
+				</div>
+			</div>
+		</div>
+	);
+}
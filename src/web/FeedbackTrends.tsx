@@ -0,0 +1,281 @@
+/**
+ * FeedbackTrends — Like/dislike trends per platform + the learned voice rules
+ * File: src/web/FeedbackTrends.tsx
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+// --- Types ---
+
+interface TrendGroup {
+	platform?: string;
+	contentType?: string;
+	positive: number;
+	negative: number;
+	approvalRate: number | null;
+	weekly: { weekStart: string; positive: number; negative: number }[];
+}
+
+interface Trends {
+	weeks: string[];
+	overall: TrendGroup;
+	groups: TrendGroup[];
+}
+
+interface VoiceRule {
+	id: string;
+	scope: { platform?: string; contentType?: string };
+	polarity: 'do' | 'avoid';
+	rule: string;
+	evidence: { positive: number; negative: number; notes: number };
+	examples: string[];
+}
+
+interface VoiceRuleSet {
+	version: number;
+	createdAt: string;
+	feedbackCount: number;
+	rules: VoiceRule[];
+	restoredFrom?: number;
+}
+
+interface VersionSummary {
+	version: number;
+	createdAt: string;
+	ruleCount: number;
+	feedbackCount: number;
+	restoredFrom?: number;
+}
+
+// --- Design tokens ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	textDim: '#2a3148',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	red: '#f87171',
+	teal: '#1ABC9C',
+};
+
+const card = {
+	background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 8, padding: 16,
+};
+
+const label = {
+	fontFamily: S.mono, fontSize: 10, color: S.textMuted, letterSpacing: 1, textTransform: 'uppercase' as const,
+};
+
+function scopeLabel(scope: { platform?: string; contentType?: string }): string {
+	return [scope.platform, scope.contentType].filter(Boolean).join(' · ') || 'All content';
+}
+
+function pct(rate: number | null): string {
+	return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+// --- Sub-components ---
+
+/** Stacked weekly bars: likes above the line, dislikes below. */
+function WeeklyBars({ weekly }: { weekly: TrendGroup['weekly'] }) {
+	const max = Math.max(1, ...weekly.map(w => Math.max(w.positive, w.negative)));
+	return (
+		<div style={{ display: 'flex', alignItems: 'center', gap: 2, height: 48 }}>
+			{weekly.map((w) => (
+				<div key={w.weekStart} title={`Week of ${w.weekStart}: ${w.positive} liked, ${w.negative} disliked`}
+					style={{ flex: 1, display: 'flex', flexDirection: 'column', height: '100%' }}>
+					<div style={{ flex: 1, display: 'flex', alignItems: 'flex-end' }}>
+						<div style={{ width: '100%', height: `${(w.positive / max) * 100}%`, background: S.accentLight, borderRadius: '2px 2px 0 0' }} />
+					</div>
+					<div style={{ height: 1, background: S.borderColor }} />
+					<div style={{ flex: 1 }}>
+						<div style={{ width: '100%', height: `${(w.negative / max) * 100}%`, background: S.red, borderRadius: '0 0 2px 2px' }} />
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
+
+function TrendCard({ group, title }: { group: TrendGroup; title: string }) {
+	return (
+		<div style={card}>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 10 }}>
+				<span style={{ fontFamily: S.mono, fontSize: 11, color: S.textPrimary }}>{title}</span>
+				<span style={{ fontFamily: S.mono, fontSize: 16, fontWeight: 700, color: S.accentLight }}>{pct(group.approvalRate)}</span>
+			</div>
+			<WeeklyBars weekly={group.weekly} />
+			<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 8, letterSpacing: 0.3 }}>
+				{group.positive} liked · {group.negative} disliked
+			</div>
+		</div>
+	);
+}
+
+function RuleRow({ rule }: { rule: VoiceRule }) {
+	const color = rule.polarity === 'do' ? S.accentLight : S.red;
+	return (
+		<div style={{ padding: '10px 0', borderBottom: `1px solid ${S.borderColor}` }}>
+			<div style={{ display: 'flex', gap: 8, alignItems: 'baseline' }}>
+				<span style={{ fontFamily: S.mono, fontSize: 9, fontWeight: 700, color, minWidth: 44, textTransform: 'uppercase' }}>
+					{rule.polarity}
+				</span>
+				<span style={{ fontFamily: S.serif, fontSize: 13, color: S.textPrimary, flex: 1 }}>{rule.rule}</span>
+			</div>
+			<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 4, marginLeft: 52, letterSpacing: 0.3 }}>
+				{scopeLabel(rule.scope)} · {rule.evidence.positive + rule.evidence.negative} ratings · {rule.evidence.notes} notes
+			</div>
+			{rule.examples.length > 0 && (
+				<div style={{ fontFamily: S.serif, fontSize: 11, fontStyle: 'italic', color: S.textSecondary, marginTop: 4, marginLeft: 52 }}>
+					"{rule.examples[0]}"
+				</div>
+			)}
+		</div>
+	);
+}
+
+// --- Component ---
+
+export function FeedbackTrends() {
+	const [trends, setTrends] = useState<Trends | null>(null);
+	const [active, setActive] = useState<VoiceRuleSet | null>(null);
+	const [versions, setVersions] = useState<VersionSummary[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [analyzing, setAnalyzing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const load = useCallback(async () => {
+		try {
+			setLoading(true);
+			const [trendResp, rulesResp] = await Promise.all([
+				fetch('/api/content-feedback/trends?weeks=12'),
+				fetch('/api/voice-rules'),
+			]);
+			const trendData = await trendResp.json();
+			if (!trendResp.ok) throw new Error(trendData.error || 'Failed to load trends');
+			setTrends(trendData as Trends);
+			if (rulesResp.ok) {
+				const rulesData = await rulesResp.json() as { active: VoiceRuleSet | null; versions: VersionSummary[] };
+				setActive(rulesData.active);
+				setVersions(rulesData.versions || []);
+			}
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to load feedback');
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const runAnalysis = async () => {
+		setAnalyzing(true);
+		try {
+			const resp = await fetch('/api/content-feedback/analyze', { method: 'POST' });
+			const data = await resp.json();
+			if (!data.success) throw new Error(data.error || 'Analysis failed');
+			await load();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Analysis failed');
+		} finally {
+			setAnalyzing(false);
+		}
+	};
+
+	const restore = async (version: number) => {
+		const resp = await fetch(`/api/voice-rules/${version}/restore`, { method: 'POST' });
+		const data = await resp.json();
+		if (!data.success) {
+			setError(data.error || 'Restore failed');
+			return;
+		}
+		await load();
+	};
+
+	if (loading) {
+		return (
+			<div style={{ padding: 60, textAlign: 'center', fontFamily: S.mono, fontSize: 12, color: S.textMuted, letterSpacing: 1 }}>
+				Loading feedback...
+			</div>
+		);
+	}
+
+	return (
+		<div>
+			{error && (
+				<div style={{ fontFamily: S.mono, fontSize: 11, color: S.red, marginBottom: 16 }}>{error}</div>
+			)}
+
+			{/* Trends */}
+			<div style={{ ...label, marginBottom: 12 }}>Approval — last 12 weeks</div>
+			{trends && (
+				<div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: 12, marginBottom: 28 }}>
+					<TrendCard group={trends.overall} title="All feedback" />
+					{trends.groups.map((g) => (
+						<TrendCard key={scopeLabel(g)} group={g} title={scopeLabel(g)} />
+					))}
+				</div>
+			)}
+
+			{/* Voice rules */}
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+				<div style={label}>
+					Voice rules {active ? `v${active.version} · ${active.rules.length} rules from ${active.feedbackCount} ratings` : '— none yet'}
+				</div>
+				<button onClick={runAnalysis} disabled={analyzing} style={{
+					padding: '6px 12px', borderRadius: 4, border: `1px solid ${S.accent}`,
+					background: analyzing ? 'transparent' : S.accent + '25', color: S.accentLight,
+					fontFamily: S.mono, fontSize: 10, letterSpacing: 0.5, cursor: analyzing ? 'wait' : 'pointer',
+				}} type="button">
+					{analyzing ? 'Analyzing...' : 'Re-analyze feedback'}
+				</button>
+			</div>
+
+			<div style={{ ...card, marginBottom: 20 }}>
+				{active && active.rules.length > 0 ? (
+					active.rules.map((r) => <RuleRow key={r.id} rule={r} />)
+				) : (
+					<div style={{ fontFamily: S.serif, fontSize: 13, color: S.textSecondary }}>
+						No voice rules yet. Until feedback is analyzed, the Content Creator reads Kimberly's most recent notes directly.
+					</div>
+				)}
+			</div>
+
+			{versions.length > 1 && (
+				<>
+					<div style={{ ...label, marginBottom: 8 }}>History</div>
+					{versions.map((v) => (
+						<div key={v.version} style={{
+							display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+							fontFamily: S.mono, fontSize: 10, color: S.textSecondary, padding: '6px 0',
+							borderBottom: `1px solid ${S.borderColor}`,
+						}}>
+							<span>
+								v{v.version} · {new Date(v.createdAt).toLocaleDateString()} · {v.ruleCount} rules
+								{v.restoredFrom ? ` · restored from v${v.restoredFrom}` : ''}
+							</span>
+							{v.version !== active?.version && (
+								<button onClick={() => restore(v.version)} style={{
+									background: 'none', border: 'none', color: S.teal, cursor: 'pointer',
+									fontFamily: S.mono, fontSize: 10, padding: 0,
+								}} type="button">
+									Restore
+								</button>
+							)}
+						</div>
+					))}
+				</>
+			)}
+		</div>
+	);
+}
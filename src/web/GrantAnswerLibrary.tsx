@@ -0,0 +1,358 @@
+/**
+ * Grant Answer Library — approved boilerplate for recurring application
+ * sections, in 100 / 250 / 500-word variants, with tags and approval
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useIsMobile } from './useMediaQuery';
+
+// --- Types ---
+
+type AnswerStatus = 'draft' | 'approved' | 'retired';
+
+interface LibraryAnswer {
+	id: string;
+	section: string;
+	aliases: string[];
+	tags: string[];
+	variants: Partial<Record<'100' | '250' | '500', string>>;
+	status: AnswerStatus;
+	approvedBy?: string;
+	approvedAt?: string;
+	notes?: string;
+	usageCount: number;
+	lastUsedAt?: string;
+	updatedAt: string;
+}
+
+// --- Design tokens (matching ContentCalendar) ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	textDim: '#2a3148',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	orange: '#E67E22',
+	red: '#f87171',
+	teal: '#1ABC9C',
+};
+
+const STATUS_COLORS: Record<AnswerStatus, string> = {
+	approved: S.accentLight,
+	draft: S.orange,
+	retired: S.textDim,
+};
+
+const LENGTHS = ['100', '250', '500'] as const;
+
+const inputStyle = {
+	width: '100%', padding: '8px 10px', borderRadius: 6,
+	border: `1px solid ${S.borderColor}`, background: S.bg,
+	color: S.textPrimary, fontFamily: S.mono, fontSize: 12, outline: 'none',
+} as const;
+
+const labelStyle = {
+	display: 'block', fontFamily: S.mono, fontSize: 9, color: S.textMuted,
+	letterSpacing: 1, textTransform: 'uppercase', marginBottom: 6, marginTop: 12,
+} as const;
+
+function countWords(text: string): number {
+	return text.split(/\s+/).filter(Boolean).length;
+}
+
+function splitList(value: string): string[] {
+	return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// --- Sub-components ---
+
+function StatusBadge({ status }: { status: AnswerStatus }) {
+	return (
+		<span style={{
+			padding: '2px 6px', borderRadius: 3, fontFamily: S.mono, fontSize: 8, letterSpacing: 0.5,
+			textTransform: 'uppercase', color: STATUS_COLORS[status],
+			border: `1px solid ${STATUS_COLORS[status]}55`, background: STATUS_COLORS[status] + '14',
+		}}>
+			{status}
+		</span>
+	);
+}
+
+function ActionButton({ label, color, onClick, disabled }: { label: string; color: string; onClick: () => void; disabled?: boolean }) {
+	return (
+		<button onClick={onClick} disabled={disabled} style={{
+			padding: '6px 12px', borderRadius: 4, border: `1px solid ${color}66`,
+			background: 'transparent', color, fontFamily: S.mono, fontSize: 10,
+			letterSpacing: 0.5, cursor: disabled ? 'default' : 'pointer', opacity: disabled ? 0.5 : 1,
+		}} type="button">
+			{label}
+		</button>
+	);
+}
+
+/** Create (answer = null) or edit an answer; approve and retire existing ones. */
+function AnswerEditor({
+	answer,
+	onClose,
+	onSaved,
+}: {
+	answer: LibraryAnswer | null;
+	onClose: () => void;
+	onSaved: (id: string) => void;
+}) {
+	const [section, setSection] = useState(answer?.section || '');
+	const [aliases, setAliases] = useState(answer?.aliases.join(', ') || '');
+	const [tags, setTags] = useState(answer?.tags.join(', ') || '');
+	const [variants, setVariants] = useState<Record<string, string>>({
+		100: answer?.variants['100'] || '',
+		250: answer?.variants['250'] || '',
+		500: answer?.variants['500'] || '',
+	});
+	const [notes, setNotes] = useState(answer?.notes || '');
+	const [approvedBy, setApprovedBy] = useState('');
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const save = useCallback(async (extra: Record<string, unknown> = {}) => {
+		setBusy(true);
+		setError(null);
+		try {
+			const resp = await fetch(answer ? `/api/grant-answers/${answer.id}` : '/api/grant-answers', {
+				method: answer ? 'PATCH' : 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					section,
+					aliases: splitList(aliases),
+					tags: splitList(tags),
+					variants,
+					notes,
+					...extra,
+				}),
+			});
+			const data = await resp.json() as { success: boolean; answer?: LibraryAnswer; error?: string };
+			if (!data.success || !data.answer) throw new Error(data.error || 'Save failed');
+			onSaved(data.answer.id);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Save failed');
+		} finally {
+			setBusy(false);
+		}
+	}, [answer, section, aliases, tags, variants, notes, onSaved]);
+
+	return (
+		<div style={{ background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 10, padding: 16, marginBottom: 16 }}>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+				<div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+					<span style={{ fontFamily: S.mono, fontSize: 11, fontWeight: 700, letterSpacing: 1 }}>
+						{answer ? 'EDIT ANSWER' : 'NEW ANSWER'}
+					</span>
+					{answer && <StatusBadge status={answer.status} />}
+				</div>
+				<button onClick={onClose} style={{
+					background: 'none', border: 'none', color: S.textMuted, cursor: 'pointer', fontFamily: S.mono, fontSize: 12,
+				}} type="button">x</button>
+			</div>
+
+			{answer?.approvedAt && (
+				<div style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted, marginTop: 6 }}>
+					Approved {new Date(answer.approvedAt).toLocaleDateString()}{answer.approvedBy ? ` by ${answer.approvedBy}` : ''}
+					{' · '}used {answer.usageCount}x
+				</div>
+			)}
+
+			<label style={labelStyle}>Section title</label>
+			<input value={section} onChange={(e) => setSection(e.target.value)} placeholder="Evaluation Plan" style={inputStyle} />
+
+			<label style={labelStyle}>Other titles funders use (comma-separated)</label>
+			<input value={aliases} onChange={(e) => setAliases(e.target.value)} placeholder="Outcomes Measurement, How will you measure success" style={inputStyle} />
+
+			<label style={labelStyle}>Tags (comma-separated)</label>
+			<input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="evaluation, outcomes" style={inputStyle} />
+
+			{LENGTHS.map((len) => {
+				const words = countWords(variants[len] || '');
+				const off = words > 0 && Math.abs(words - Number(len)) / Number(len) > 0.25;
+				return (
+					<div key={len}>
+						<label style={labelStyle}>
+							{len}-word version{' '}
+							<span style={{ color: off ? S.orange : S.textDim }}>({words} words)</span>
+						</label>
+						<textarea
+							value={variants[len]}
+							onChange={(e) => setVariants(v => ({ ...v, [len]: e.target.value }))}
+							rows={len === '100' ? 4 : len === '250' ? 7 : 12}
+							style={{ ...inputStyle, fontFamily: S.serif, fontSize: 13, resize: 'vertical' }}
+						/>
+					</div>
+				);
+			})}
+
+			<label style={labelStyle}>Notes</label>
+			<input value={notes} onChange={(e) => setNotes(e.target.value)} style={inputStyle} />
+
+			<div style={{ display: 'flex', gap: 8, alignItems: 'flex-end', flexWrap: 'wrap', marginTop: 14 }}>
+				<ActionButton label={busy ? 'Saving...' : 'Save'} color={S.teal} disabled={busy} onClick={() => save()} />
+				{answer && answer.status !== 'approved' && (
+					<>
+						<input
+							value={approvedBy}
+							onChange={(e) => setApprovedBy(e.target.value)}
+							placeholder="Approved by"
+							style={{ ...inputStyle, width: 140 }}
+						/>
+						<ActionButton label="Save & approve" color={S.accentLight} disabled={busy} onClick={() => save({ status: 'approved', approvedBy: approvedBy || undefined })} />
+					</>
+				)}
+				{answer && answer.status !== 'retired' && (
+					<ActionButton label="Retire" color={S.red} disabled={busy} onClick={() => save({ status: 'retired' })} />
+				)}
+			</div>
+			{answer?.status === 'approved' && (
+				<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 8 }}>
+					Changing the text sends this answer back to draft until it is approved again.
+				</div>
+			)}
+
+			{error && <div style={{ marginTop: 8, fontFamily: S.mono, fontSize: 10, color: S.red }}>{error}</div>}
+		</div>
+	);
+}
+
+// --- Main Component ---
+
+export function GrantAnswerLibrary({ onBack }: { onBack: () => void }) {
+	const isMobile = useIsMobile();
+	const [answers, setAnswers] = useState<LibraryAnswer[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [statusFilter, setStatusFilter] = useState<AnswerStatus | ''>('');
+	const [query, setQuery] = useState('');
+	const [editing, setEditing] = useState<string | 'new' | null>(null);
+
+	const fetchAnswers = useCallback(async () => {
+		try {
+			setLoading(true);
+			const params = new URLSearchParams();
+			if (statusFilter) params.set('status', statusFilter);
+			if (query.trim()) params.set('q', query.trim());
+			const resp = await fetch(`/api/grant-answers?${params}`);
+			const data = await resp.json() as { answers: LibraryAnswer[]; error?: string };
+			if (data.error) throw new Error(data.error);
+			setAnswers(data.answers || []);
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to load the library');
+		} finally {
+			setLoading(false);
+		}
+	}, [statusFilter, query]);
+
+	useEffect(() => {
+		fetchAnswers();
+	}, [fetchAnswers]);
+
+	const selected = editing && editing !== 'new' ? answers.find(a => a.id === editing) || null : null;
+
+	const handleSaved = (id: string) => {
+		setEditing(id);
+		fetchAnswers();
+	};
+
+	return (
+		<div style={{ minHeight: '100vh', background: S.bg, color: S.textPrimary, fontFamily: S.serif }}>
+			{/* Header */}
+			<header style={{
+				padding: isMobile ? '12px 16px' : '20px 28px', borderBottom: `1px solid ${S.borderColor}`,
+				display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+			}}>
+				<div>
+					<button onClick={onBack} style={{
+						background: 'none', border: 'none', color: S.textMuted, cursor: 'pointer',
+						fontFamily: S.mono, fontSize: 11, marginBottom: 6, letterSpacing: 0.5, padding: 0,
+					}} type="button">
+						{'<-'} Back to Content Studio
+					</button>
+					<h1 style={{ fontSize: 24, fontWeight: 700, letterSpacing: '-0.02em', margin: 0 }}>
+						Grant Answer Library
+					</h1>
+					<p style={{ fontFamily: S.mono, fontSize: 11, color: S.textMuted, marginTop: 4, letterSpacing: 0.3 }}>
+						Approved answers are reused by the Grant Writer for matching sections
+					</p>
+				</div>
+				<ActionButton label="+ New answer" color={S.accentLight} onClick={() => setEditing('new')} />
+			</header>
+
+			<main style={{
+				padding: isMobile ? '16px 12px' : '24px 28px', maxWidth: 1300, margin: '0 auto',
+				display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr', gap: 20,
+			}}>
+				<section style={{ opacity: loading ? 0.6 : 1 }}>
+					<div style={{ display: 'flex', gap: 6, marginBottom: 12, flexWrap: 'wrap' }}>
+						{(['', 'approved', 'draft', 'retired'] as const).map((st) => (
+							<button key={st || 'all'} onClick={() => setStatusFilter(st)} style={{
+								padding: '5px 10px', borderRadius: 4, fontFamily: S.mono, fontSize: 10, cursor: 'pointer',
+								border: `1px solid ${statusFilter === st ? S.accent + '88' : S.borderColor}`,
+								background: statusFilter === st ? S.accent + '18' : 'transparent',
+								color: statusFilter === st ? S.accentLight : S.textMuted,
+							}} type="button">
+								{st || 'All'}
+							</button>
+						))}
+						<input
+							value={query}
+							onChange={(e) => setQuery(e.target.value)}
+							placeholder="Search titles and text..."
+							style={{ ...inputStyle, flex: '1 1 160px', width: 'auto' }}
+						/>
+					</div>
+
+					{error && <div style={{ padding: 12, fontFamily: S.mono, fontSize: 11, color: S.red }}>{error}</div>}
+
+					{!loading && answers.length === 0 && !error && (
+						<div style={{ padding: 12, fontFamily: S.mono, fontSize: 11, color: S.textMuted }}>
+							No answers yet — add one, or save a section from a Grant Writer draft.
+						</div>
+					)}
+
+					{answers.map((a) => (
+						<button key={a.id} onClick={() => setEditing(a.id)} style={{
+							display: 'block', width: '100%', textAlign: 'left', marginBottom: 6,
+							padding: '10px 12px', borderRadius: 6, cursor: 'pointer', color: S.textPrimary,
+							background: editing === a.id ? S.accent + '14' : S.cardBg,
+							border: `1px solid ${editing === a.id ? S.accent + '88' : S.borderColor}`,
+						}} type="button">
+							<div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+								<span style={{ fontSize: 13, fontWeight: 600 }}>{a.section}</span>
+								<StatusBadge status={a.status} />
+							</div>
+							<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 3 }}>
+								{LENGTHS.filter(len => a.variants[len]).map(len => `${len}w`).join(' / ')}
+								{a.tags.length > 0 && ` · ${a.tags.join(', ')}`}
+								{` · used ${a.usageCount}x`}
+							</div>
+						</button>
+					))}
+				</section>
+
+				<aside>
+					{editing && (
+						<AnswerEditor
+							key={editing === 'new' ? 'new' : `${editing}-${selected?.updatedAt}`}
+							answer={selected}
+							onClose={() => setEditing(null)}
+							onSaved={handleSaved}
+						/>
+					)}
+				</aside>
+			</main>
+		</div>
+	);
+}
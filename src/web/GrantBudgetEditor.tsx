@@ -0,0 +1,358 @@
+/**
+ * Grant Budget Editor — line items, program-site shares, indirect rate and
+ * years for the Grant Writer's `budget`, with a table preview from
+ * POST /api/grant-budget
+ */
+
+import { useEffect, useState } from 'react';
+
+// --- Types ---
+
+export interface BudgetLineDraft {
+	category: string;
+	description: string;
+	quantity: string;
+	unit: string;
+	unitCost: string;
+	site: string;             // '' = shared across sites
+	oneTime: boolean;
+}
+
+export interface BudgetDraft {
+	lines: BudgetLineDraft[];
+	years: string;
+	escalationPct: string;
+	indirectPct: string;
+	indirectBase: 'direct' | 'mtdc';
+	indirectCapPct: string;
+	siteShares: Record<string, string>;
+	fundingRange: string;
+}
+
+interface BudgetPreview {
+	markdown: string;
+	table: { grandTotal: { total: number }; years: number };
+	withinRange?: boolean;
+	issue?: string;
+}
+
+export const EMPTY_BUDGET: BudgetDraft = {
+	lines: [],
+	years: '1',
+	escalationPct: '3',
+	indirectPct: '',
+	indirectBase: 'direct',
+	indirectCapPct: '',
+	siteShares: {},
+	fundingRange: '',
+};
+
+const CATEGORIES = [
+	{ id: 'personnel', label: 'Personnel' },
+	{ id: 'coaches', label: 'Coaches' },
+	{ id: 'equipment', label: 'Equipment' },
+	{ id: 'venue', label: 'Venue rental' },
+	{ id: 'transportation', label: 'Transportation' },
+	{ id: 'supplies', label: 'Supplies' },
+	{ id: 'other', label: 'Other' },
+];
+
+const EMPTY_LINE: BudgetLineDraft = {
+	category: 'coaches',
+	description: '',
+	quantity: '',
+	unit: 'hours',
+	unitCost: '',
+	site: '',
+	oneTime: false,
+};
+
+const fieldStyle = {
+	width: '100%',
+	padding: '8px 10px',
+	borderRadius: 6,
+	border: '1px solid #1e2538',
+	background: '#0a0d14',
+	color: '#e2e8f0',
+	fontSize: 12,
+	outline: 'none',
+} as const;
+
+const smallLabelStyle = {
+	display: 'block',
+	fontFamily: "'Space Mono', monospace",
+	fontSize: 9,
+	color: '#4a5578',
+	marginBottom: 4,
+} as const;
+
+function percent(value: string): number | undefined {
+	return value.trim() ? Number(value) / 100 : undefined;
+}
+
+/**
+ * The `budget` request field for a draft — undefined until at least one
+ * line has a description, quantity and cost.
+ */
+export function budgetRequest(draft: BudgetDraft) {
+	const lineItems = draft.lines
+		.filter((line) => line.description.trim() && line.quantity && line.unitCost)
+		.map((line) => ({
+			category: line.category,
+			description: line.description.trim(),
+			quantity: Number(line.quantity),
+			unit: line.unit.trim() || undefined,
+			unitCost: Number(line.unitCost),
+			site: line.site || undefined,
+			oneTime: line.oneTime,
+		}));
+	if (lineItems.length === 0) return undefined;
+
+	const shares = Object.entries(draft.siteShares).filter(([, share]) => share.trim() !== '');
+	return {
+		lineItems,
+		years: Number(draft.years) || 1,
+		escalationRate: percent(draft.escalationPct),
+		indirectRate: percent(draft.indirectPct),
+		indirectBase: draft.indirectBase,
+		indirectCap: percent(draft.indirectCapPct),
+		siteAllocations: shares.length > 0
+			? shares.map(([site, share]) => ({ site, share: Number(share) }))
+			: undefined,
+	};
+}
+
+// --- Component ---
+
+export function GrantBudgetEditor({
+	value,
+	onChange,
+}: {
+	value: BudgetDraft;
+	onChange: (draft: BudgetDraft) => void;
+}) {
+	const [sites, setSites] = useState<string[]>([]);
+	const [preview, setPreview] = useState<BudgetPreview | null>(null);
+	const [previewing, setPreviewing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Active program sites from the organization profile
+	useEffect(() => {
+		fetch('/api/org-profile')
+			.then((resp) => resp.json())
+			.then((data: { profile?: { sites: { name: string; active: boolean }[] } }) => {
+				setSites((data.profile?.sites || []).filter((site) => site.active).map((site) => site.name));
+			})
+			.catch(() => setSites([]));
+	}, []);
+
+	const update = (changes: Partial<BudgetDraft>) => {
+		setPreview(null);
+		onChange({ ...value, ...changes });
+	};
+	const updateLine = (index: number, changes: Partial<BudgetLineDraft>) => {
+		update({ lines: value.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+	};
+
+	const request = budgetRequest(value);
+
+	const handlePreview = async () => {
+		if (!request) return;
+		setPreviewing(true);
+		setError(null);
+		try {
+			const resp = await fetch('/api/grant-budget', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ budget: request, fundingRange: value.fundingRange || undefined }),
+			});
+			const data = await resp.json() as BudgetPreview & { success: boolean; error?: string };
+			if (!data.success) throw new Error(data.error || 'Could not build the budget');
+			setPreview(data);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Could not build the budget');
+		} finally {
+			setPreviewing(false);
+		}
+	};
+
+	return (
+		<div>
+			{value.lines.map((line, i) => (
+				<div key={i} style={{
+					display: 'grid',
+					gridTemplateColumns: '1.1fr 2fr 0.7fr 0.8fr 0.8fr 1.1fr auto auto',
+					gap: 6,
+					alignItems: 'end',
+					marginBottom: 8,
+				}}>
+					<div>
+						{i === 0 && <label style={smallLabelStyle}>Category</label>}
+						<select
+							value={line.category}
+							onChange={(e) => updateLine(i, { category: e.target.value, oneTime: e.target.value === 'equipment' })}
+							style={fieldStyle}
+						>
+							{CATEGORIES.map((cat) => <option key={cat.id} value={cat.id}>{cat.label}</option>)}
+						</select>
+					</div>
+					<div>
+						{i === 0 && <label style={smallLabelStyle}>Description</label>}
+						<input value={line.description} onChange={(e) => updateLine(i, { description: e.target.value })} placeholder="Tennis coaches" style={fieldStyle} />
+					</div>
+					<div>
+						{i === 0 && <label style={smallLabelStyle}>Qty / yr</label>}
+						<input type="number" value={line.quantity} onChange={(e) => updateLine(i, { quantity: e.target.value })} style={fieldStyle} />
+					</div>
+					<div>
+						{i === 0 && <label style={smallLabelStyle}>Unit</label>}
+						<input value={line.unit} onChange={(e) => updateLine(i, { unit: e.target.value })} placeholder="hours" style={fieldStyle} />
+					</div>
+					<div>
+						{i === 0 && <label style={smallLabelStyle}>Unit cost $</label>}
+						<input type="number" value={line.unitCost} onChange={(e) => updateLine(i, { unitCost: e.target.value })} style={fieldStyle} />
+					</div>
+					<div>
+						{i === 0 && <label style={smallLabelStyle}>Site</label>}
+						<select value={line.site} onChange={(e) => updateLine(i, { site: e.target.value })} style={fieldStyle}>
+							<option value="">Shared</option>
+							{sites.map((site) => <option key={site} value={site}>{site}</option>)}
+						</select>
+					</div>
+					<label title="Year 1 only" style={{ ...smallLabelStyle, display: 'flex', alignItems: 'center', gap: 4, marginBottom: 8 }}>
+						<input type="checkbox" checked={line.oneTime} onChange={(e) => updateLine(i, { oneTime: e.target.checked })} />
+						1x
+					</label>
+					<button
+						onClick={() => update({ lines: value.lines.filter((_, j) => j !== i) })}
+						style={{ background: 'none', border: 'none', color: '#4a5578', cursor: 'pointer', fontSize: 12, marginBottom: 8 }}
+						type="button"
+					>
+						x
+					</button>
+				</div>
+			))}
+
+			<button
+				onClick={() => update({ lines: [...value.lines, { ...EMPTY_LINE }] })}
+				style={{
+					background: 'none',
+					border: '1px dashed #1e2538',
+					borderRadius: 6,
+					color: '#8892b0',
+					cursor: 'pointer',
+					fontFamily: "'Space Mono', monospace",
+					fontSize: 10,
+					padding: '6px 12px',
+				}}
+				type="button"
+			>
+				+ Add line item
+			</button>
+
+			<div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 8, marginTop: 14 }}>
+				<div>
+					<label style={smallLabelStyle}>Years</label>
+					<select value={value.years} onChange={(e) => update({ years: e.target.value })} style={fieldStyle}>
+						{[1, 2, 3, 4, 5].map((y) => <option key={y} value={y}>{y}</option>)}
+					</select>
+				</div>
+				<div>
+					<label style={smallLabelStyle}>Yearly increase %</label>
+					<input type="number" value={value.escalationPct} onChange={(e) => update({ escalationPct: e.target.value })} style={fieldStyle} />
+				</div>
+				<div>
+					<label style={smallLabelStyle}>Indirect rate %</label>
+					<input type="number" value={value.indirectPct} onChange={(e) => update({ indirectPct: e.target.value })} placeholder="10" style={fieldStyle} />
+				</div>
+				<div>
+					<label style={smallLabelStyle}>Indirect base</label>
+					<select value={value.indirectBase} onChange={(e) => update({ indirectBase: e.target.value as 'direct' | 'mtdc' })} style={fieldStyle}>
+						<option value="direct">Total direct</option>
+						<option value="mtdc">MTDC (no equipment)</option>
+					</select>
+				</div>
+				<div>
+					<label style={smallLabelStyle}>Funder cap %</label>
+					<input type="number" value={value.indirectCapPct} onChange={(e) => update({ indirectCapPct: e.target.value })} style={fieldStyle} />
+				</div>
+			</div>
+
+			{sites.length > 0 && (
+				<div style={{ marginTop: 12 }}>
+					<label style={smallLabelStyle}>Share of shared costs by site (relative weights, equal by default)</label>
+					<div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+						{sites.map((site) => (
+							<label key={site} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#8892b0' }}>
+								{site}
+								<input
+									type="number"
+									value={value.siteShares[site] ?? ''}
+									onChange={(e) => update({
+										siteShares: { ...Object.fromEntries(sites.map((name) => [name, '1'])), ...value.siteShares, [site]: e.target.value },
+									})}
+									placeholder="1"
+									style={{ ...fieldStyle, width: 60 }}
+								/>
+							</label>
+						))}
+					</div>
+				</div>
+			)}
+
+			<div style={{ display: 'flex', gap: 8, alignItems: 'flex-end', marginTop: 12 }}>
+				<div style={{ flex: 1 }}>
+					<label style={smallLabelStyle}>Funder's funding range</label>
+					<input value={value.fundingRange} onChange={(e) => update({ fundingRange: e.target.value })} placeholder="$10,000 - $25,000" style={fieldStyle} />
+				</div>
+				<button
+					onClick={handlePreview}
+					disabled={!request || previewing}
+					style={{
+						padding: '8px 14px',
+						borderRadius: 6,
+						border: '1px solid #F39C1266',
+						background: 'transparent',
+						color: '#F39C12',
+						cursor: request && !previewing ? 'pointer' : 'not-allowed',
+						fontFamily: "'Space Mono', monospace",
+						fontSize: 11,
+					}}
+					type="button"
+				>
+					{previewing ? 'Pricing...' : 'Preview budget'}
+				</button>
+			</div>
+
+			{error && <div style={{ marginTop: 8, fontSize: 12, color: '#f87171' }}>{error}</div>}
+
+			{preview && (
+				<div style={{ marginTop: 12 }}>
+					<div style={{
+						fontFamily: "'Space Mono', monospace",
+						fontSize: 11,
+						color: preview.withinRange === false ? '#f87171' : '#4a9e7a',
+						marginBottom: 8,
+					}}>
+						Total request ${preview.table.grandTotal.total.toLocaleString()}
+						{preview.table.years > 1 ? ` over ${preview.table.years} years` : ''}
+						{preview.withinRange === true ? ' · within the funding range' : ''}
+					</div>
+					{preview.issue && <div style={{ fontSize: 12, color: '#f87171', marginBottom: 8 }}>{preview.issue}</div>}
+					<pre style={{
+						margin: 0,
+						padding: 12,
+						borderRadius: 6,
+						background: '#0a0d14',
+						border: '1px solid #1e2538',
+						color: '#8892b0',
+						fontSize: 11,
+						overflowX: 'auto',
+					}}>
+						{preview.markdown}
+					</pre>
+				</div>
+			)}
+		</div>
+	);
+}
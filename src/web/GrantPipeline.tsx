@@ -0,0 +1,595 @@
+/**
+ * Grant Pipeline — tracked grant opportunities by stage, with owners,
+ * deadlines and linked drafts, plus a search that flags already-tracked grants
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useIsMobile } from './useMediaQuery';
+
+// --- Types ---
+
+type GrantStage = 'prospect' | 'researching' | 'loi_drafted' | 'submitted' | 'awarded' | 'declined';
+
+interface GrantOpportunity {
+	funderName: string;
+	grantProgramName: string;
+	description: string;
+	eligibility: string;
+	fundingRange: string;
+	deadline: string;
+	deadlineType: string;
+	alignmentScore: number;
+	alignmentReason: string;
+	category: string;
+	website?: string;
+	applicationUrl?: string;
+	contactInfo?: string;
+	tips: string;
+	priority: string;
+	pipeline?: { id: string; stage: GrantStage; match: 'tracked' | 'known-funder' };
+}
+
+interface CalendarEntry {
+	date: string;
+	action: string;
+	grant: string;
+}
+
+interface PipelineGrant {
+	id: string;
+	opportunity: GrantOpportunity;
+	stage: GrantStage;
+	owner?: string;
+	deadline: string;
+	deadlineType: string;
+	deadlineDate?: string;
+	milestones: { date: string; action: string }[];
+	drafts: { id: string; grantType: string; content: string; wordCount: number; createdAt: string }[];
+	notes?: string;
+	stageHistory: { stage: GrantStage; at: string; note?: string }[];
+	updatedAt: string;
+}
+
+// --- Design tokens (matching ContentCalendar) ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	textDim: '#2a3148',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	orange: '#E67E22',
+	red: '#f87171',
+	teal: '#1ABC9C',
+	purple: '#9B59B6',
+};
+
+const STAGES: GrantStage[] = ['prospect', 'researching', 'loi_drafted', 'submitted', 'awarded', 'declined'];
+
+const STAGE_LABELS: Record<GrantStage, string> = {
+	prospect: 'Prospect',
+	researching: 'Researching',
+	loi_drafted: 'LOI Drafted',
+	submitted: 'Submitted',
+	awarded: 'Awarded',
+	declined: 'Declined',
+};
+
+const STAGE_COLORS: Record<GrantStage, string> = {
+	prospect: S.textSecondary,
+	researching: S.teal,
+	loi_drafted: S.purple,
+	submitted: S.orange,
+	awarded: S.accentLight,
+	declined: S.textDim,
+};
+
+const DRAFT_TYPES = [
+	{ id: 'loi', label: 'LOI' },
+	{ id: 'executive-summary', label: 'Executive Summary' },
+	{ id: 'full-proposal', label: 'Full Proposal' },
+	{ id: 'budget-narrative', label: 'Budget Narrative' },
+];
+
+const inputStyle = {
+	width: '100%', padding: '8px 10px', borderRadius: 6,
+	border: `1px solid ${S.borderColor}`, background: S.bg,
+	color: S.textPrimary, fontFamily: S.mono, fontSize: 12, outline: 'none',
+} as const;
+
+const labelStyle = {
+	display: 'block', fontFamily: S.mono, fontSize: 9, color: S.textMuted,
+	letterSpacing: 1, textTransform: 'uppercase', marginBottom: 6, marginTop: 12,
+} as const;
+
+/** Days until a YYYY-MM-DD deadline, negative once it has passed. */
+function daysUntil(date: string): number {
+	const [y, m, d] = date.split('-').map(Number);
+	const target = new Date(y!, m! - 1, d!);
+	const today = new Date();
+	today.setHours(0, 0, 0, 0);
+	return Math.round((target.getTime() - today.getTime()) / 86_400_000);
+}
+
+// --- Sub-components ---
+
+function StageBadge({ stage }: { stage: GrantStage }) {
+	return (
+		<span style={{
+			padding: '2px 6px', borderRadius: 3, fontFamily: S.mono, fontSize: 8, letterSpacing: 0.5,
+			textTransform: 'uppercase', color: STAGE_COLORS[stage],
+			border: `1px solid ${STAGE_COLORS[stage]}55`, background: STAGE_COLORS[stage] + '14',
+		}}>
+			{STAGE_LABELS[stage]}
+		</span>
+	);
+}
+
+function ActionButton({ label, color, onClick, disabled }: { label: string; color: string; onClick: () => void; disabled?: boolean }) {
+	return (
+		<button onClick={onClick} disabled={disabled} style={{
+			padding: '6px 12px', borderRadius: 4, border: `1px solid ${color}66`,
+			background: 'transparent', color, fontFamily: S.mono, fontSize: 10,
+			letterSpacing: 0.5, cursor: disabled ? 'default' : 'pointer', opacity: disabled ? 0.5 : 1,
+		}} type="button">
+			{label}
+		</button>
+	);
+}
+
+function DeadlineLabel({ grant }: { grant: PipelineGrant }) {
+	if (!grant.deadlineDate) {
+		return <span style={{ color: S.textMuted }}>{grant.deadline || grant.deadlineType}</span>;
+	}
+	const days = daysUntil(grant.deadlineDate);
+	const open = grant.stage !== 'submitted' && grant.stage !== 'awarded' && grant.stage !== 'declined';
+	const color = !open ? S.textMuted : days < 0 ? S.red : days <= 14 ? S.orange : S.textSecondary;
+	return (
+		<span style={{ color }}>
+			{grant.deadlineDate}
+			{open && (days < 0 ? ` · ${-days}d past` : ` · ${days}d left`)}
+		</span>
+	);
+}
+
+function GrantDetail({
+	grant,
+	onClose,
+	onChanged,
+}: {
+	grant: PipelineGrant;
+	onClose: () => void;
+	onChanged: () => void;
+}) {
+	const [owner, setOwner] = useState(grant.owner || '');
+	const [notes, setNotes] = useState(grant.notes || '');
+	const [draftType, setDraftType] = useState('loi');
+	const [busy, setBusy] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [openDraftId, setOpenDraftId] = useState<string | null>(null);
+
+	const patch = useCallback(async (body: Record<string, unknown>) => {
+		setBusy('save');
+		setError(null);
+		try {
+			const resp = await fetch(`/api/grant-pipeline/${grant.id}`, {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(body),
+			});
+			const data = await resp.json() as { success: boolean; error?: string };
+			if (!data.success) throw new Error(data.error || 'Update failed');
+			onChanged();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Update failed');
+		} finally {
+			setBusy(null);
+		}
+	}, [grant.id, onChanged]);
+
+	const handleDraft = async () => {
+		setBusy('draft');
+		setError(null);
+		try {
+			const resp = await fetch('/api/grant-writer', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'write', grantType: draftType, pipelineId: grant.id }),
+			});
+			const data = await resp.json() as { content?: string; pipelineId?: string; error?: string };
+			if (!data.content) throw new Error(data.error || 'Draft failed');
+			onChanged();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Draft failed');
+		} finally {
+			setBusy(null);
+		}
+	};
+
+	const o = grant.opportunity;
+
+	return (
+		<div style={{
+			background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 10, padding: 16, marginBottom: 16,
+		}}>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 8 }}>
+				<div>
+					<div style={{ fontSize: 15, fontWeight: 600 }}>{o.grantProgramName}</div>
+					<div style={{ fontSize: 13, color: S.textSecondary, marginBottom: 6 }}>{o.funderName}</div>
+					<div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', fontFamily: S.mono, fontSize: 10, color: S.textMuted }}>
+						<StageBadge stage={grant.stage} />
+						<span>{o.fundingRange}</span>
+						<DeadlineLabel grant={grant} />
+					</div>
+				</div>
+				<button onClick={onClose} style={{
+					background: 'none', border: 'none', color: S.textMuted, cursor: 'pointer', fontFamily: S.mono, fontSize: 12,
+				}} type="button">x</button>
+			</div>
+
+			{o.description && (
+				<p style={{ fontSize: 13, color: S.textSecondary, marginTop: 10 }}>{o.description}</p>
+			)}
+			{o.applicationUrl && (
+				<a href={o.applicationUrl} target="_blank" rel="noreferrer" style={{ fontFamily: S.mono, fontSize: 10, color: S.teal }}>
+					Application page
+				</a>
+			)}
+
+			<label style={labelStyle}>Stage</label>
+			<select value={grant.stage} disabled={!!busy} onChange={(e) => patch({ stage: e.target.value })} style={inputStyle}>
+				{STAGES.map((s) => <option key={s} value={s}>{STAGE_LABELS[s]}</option>)}
+			</select>
+
+			<label style={labelStyle}>Owner</label>
+			<input
+				value={owner}
+				onChange={(e) => setOwner(e.target.value)}
+				onBlur={() => { if (owner !== (grant.owner || '')) patch({ owner }); }}
+				placeholder="Who is driving this one?"
+				style={inputStyle}
+			/>
+
+			<label style={labelStyle}>Notes</label>
+			<textarea
+				value={notes}
+				onChange={(e) => setNotes(e.target.value)}
+				onBlur={() => { if (notes !== (grant.notes || '')) patch({ notes }); }}
+				rows={3}
+				style={{ ...inputStyle, resize: 'vertical' }}
+			/>
+
+			{grant.milestones.length > 0 && (
+				<>
+					<label style={labelStyle}>Milestones</label>
+					{grant.milestones.map((m) => (
+						<div key={`${m.date}-${m.action}`} style={{ fontFamily: S.mono, fontSize: 10, color: S.textSecondary, marginBottom: 2 }}>
+							{m.date} — {m.action}
+						</div>
+					))}
+				</>
+			)}
+
+			<label style={labelStyle}>Drafts ({grant.drafts.length})</label>
+			{grant.drafts.map((d) => (
+				<div key={d.id} style={{ borderBottom: `1px solid ${S.borderColor}`, padding: '4px 0' }}>
+					<button onClick={() => setOpenDraftId(openDraftId === d.id ? null : d.id)} style={{
+						background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: S.textPrimary,
+						fontFamily: S.mono, fontSize: 10, textAlign: 'left', width: '100%',
+					}} type="button">
+						{d.grantType} · {d.wordCount} words · {new Date(d.createdAt).toLocaleDateString()}
+					</button>
+					{openDraftId === d.id && (
+						<p style={{ fontSize: 12, color: S.textSecondary, whiteSpace: 'pre-wrap', marginTop: 6 }}>{d.content}</p>
+					)}
+				</div>
+			))}
+			<div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 10 }}>
+				<select value={draftType} onChange={(e) => setDraftType(e.target.value)} style={{ ...inputStyle, width: 'auto' }}>
+					{DRAFT_TYPES.map((t) => <option key={t.id} value={t.id}>{t.label}</option>)}
+				</select>
+				<ActionButton
+					label={busy === 'draft' ? 'Drafting...' : 'Draft'}
+					color={S.purple}
+					disabled={!!busy}
+					onClick={handleDraft}
+				/>
+			</div>
+
+			{grant.stageHistory.length > 1 && (
+				<>
+					<label style={labelStyle}>History</label>
+					{grant.stageHistory.map((h) => (
+						<div key={h.at} style={{ fontFamily: S.mono, fontSize: 10, color: S.textMuted, marginBottom: 2 }}>
+							{new Date(h.at).toLocaleString()} — {STAGE_LABELS[h.stage]}{h.note ? ` (${h.note})` : ''}
+						</div>
+					))}
+				</>
+			)}
+
+			{error && <div style={{ marginTop: 8, fontFamily: S.mono, fontSize: 10, color: S.red }}>{error}</div>}
+		</div>
+	);
+}
+
+function SearchPanel({ onTracked }: { onTracked: (id: string) => void }) {
+	const [focus, setFocus] = useState('');
+	const [results, setResults] = useState<GrantOpportunity[]>([]);
+	const [calendar, setCalendar] = useState<CalendarEntry[]>([]);
+	const [summary, setSummary] = useState('');
+	const [busy, setBusy] = useState(false);
+	const [trackingKey, setTrackingKey] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleSearch = async () => {
+		setBusy(true);
+		setError(null);
+		try {
+			const resp = await fetch('/api/grant-writer', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'search', searchFocus: focus.trim() || undefined }),
+			});
+			const data = await resp.json() as {
+				opportunities?: GrantOpportunity[];
+				calendarItems?: CalendarEntry[];
+				searchSummary?: string;
+				error?: string;
+			};
+			if (!data.opportunities) throw new Error(data.error || 'Search failed');
+			setResults(data.opportunities);
+			setCalendar(data.calendarItems || []);
+			setSummary(data.searchSummary || '');
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Search failed');
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const handleTrack = async (opportunity: GrantOpportunity) => {
+		const key = `${opportunity.funderName}|${opportunity.grantProgramName}`;
+		setTrackingKey(key);
+		setError(null);
+		try {
+			const names = [opportunity.grantProgramName, opportunity.funderName].map(n => n.toLowerCase());
+			const milestones = calendar
+				.filter(c => names.some(n => c.grant.toLowerCase().includes(n) || n.includes(c.grant.toLowerCase())))
+				.map(c => ({ date: c.date, action: c.action }));
+			const { pipeline: _pipeline, ...rest } = opportunity;
+			const resp = await fetch('/api/grant-pipeline', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ opportunity: rest, milestones }),
+			});
+			const data = await resp.json() as { success: boolean; grant?: PipelineGrant; error?: string };
+			if (!data.success || !data.grant) throw new Error(data.error || 'Failed to track');
+			const tracked = data.grant;
+			setResults(prev => prev.map(r => r === opportunity
+				? { ...r, pipeline: { id: tracked.id, stage: tracked.stage, match: 'tracked' } }
+				: r));
+			onTracked(tracked.id);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to track');
+		} finally {
+			setTrackingKey(null);
+		}
+	};
+
+	return (
+		<div style={{ background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 10, padding: 16, marginBottom: 16 }}>
+			<div style={{ fontFamily: S.mono, fontSize: 11, fontWeight: 700, letterSpacing: 1, color: S.textPrimary }}>
+				FIND GRANTS
+			</div>
+
+			<label style={labelStyle}>Focus (optional)</label>
+			<input
+				value={focus}
+				onChange={(e) => setFocus(e.target.value)}
+				placeholder="youth development, education equity..."
+				style={inputStyle}
+			/>
+			<div style={{ marginTop: 10 }}>
+				<ActionButton label={busy ? 'Searching...' : 'Search'} color={S.accentLight} disabled={busy} onClick={handleSearch} />
+			</div>
+
+			{error && <div style={{ marginTop: 8, fontFamily: S.mono, fontSize: 10, color: S.red }}>{error}</div>}
+			{summary && <p style={{ fontSize: 12, color: S.textSecondary, marginTop: 12 }}>{summary}</p>}
+
+			{results.map((r) => {
+				const key = `${r.funderName}|${r.grantProgramName}`;
+				const tracked = r.pipeline?.match === 'tracked';
+				return (
+					<div key={key} style={{ borderTop: `1px solid ${S.borderColor}`, padding: '10px 0', opacity: tracked ? 0.6 : 1 }}>
+						<div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, alignItems: 'flex-start' }}>
+							<div>
+								<div style={{ fontSize: 13, fontWeight: 600 }}>{r.grantProgramName}</div>
+								<div style={{ fontSize: 12, color: S.textSecondary }}>{r.funderName}</div>
+							</div>
+							{tracked ? (
+								<StageBadge stage={r.pipeline!.stage} />
+							) : (
+								<ActionButton
+									label={trackingKey === key ? 'Tracking...' : 'Track'}
+									color={S.teal}
+									disabled={!!trackingKey}
+									onClick={() => handleTrack(r)}
+								/>
+							)}
+						</div>
+						<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 4 }}>
+							{r.fundingRange} · {r.deadline} · fit {r.alignmentScore}/10
+							{r.pipeline?.match === 'known-funder' && (
+								<span style={{ color: S.orange }}> · funder already in pipeline</span>
+							)}
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
+
+// --- Main Component ---
+
+export function GrantPipeline({ onBack }: { onBack: () => void }) {
+	const isMobile = useIsMobile();
+	const [grants, setGrants] = useState<PipelineGrant[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [ownerFilter, setOwnerFilter] = useState('');
+
+	const fetchGrants = useCallback(async () => {
+		try {
+			setLoading(true);
+			const resp = await fetch('/api/grant-pipeline');
+			const data = await resp.json() as { grants: PipelineGrant[]; error?: string };
+			if (data.error) throw new Error(data.error);
+			setGrants(data.grants || []);
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to load pipeline');
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		fetchGrants();
+	}, [fetchGrants]);
+
+	const owners = useMemo(
+		() => [...new Set(grants.map(g => g.owner).filter((o): o is string => !!o))].sort(),
+		[grants],
+	);
+
+	const visible = ownerFilter ? grants.filter(g => g.owner === ownerFilter) : grants;
+	const selected = grants.find(g => g.id === selectedId) || null;
+	const dueSoon = grants.filter(g =>
+		g.deadlineDate && (g.stage === 'prospect' || g.stage === 'researching' || g.stage === 'loi_drafted')
+		&& daysUntil(g.deadlineDate) >= 0 && daysUntil(g.deadlineDate) <= 14,
+	).length;
+
+	const handleTracked = (id: string) => {
+		setSelectedId(id);
+		fetchGrants();
+	};
+
+	return (
+		<div style={{ minHeight: '100vh', background: S.bg, color: S.textPrimary, fontFamily: S.serif }}>
+			{/* Header */}
+			<header style={{
+				padding: isMobile ? '12px 16px' : '20px 28px', borderBottom: `1px solid ${S.borderColor}`,
+				display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+			}}>
+				<div>
+					<button onClick={onBack} style={{
+						background: 'none', border: 'none', color: S.textMuted, cursor: 'pointer',
+						fontFamily: S.mono, fontSize: 11, marginBottom: 6, letterSpacing: 0.5, padding: 0,
+					}} type="button">
+						{'<-'} Back to Content Studio
+					</button>
+					<h1 style={{ fontSize: 24, fontWeight: 700, letterSpacing: '-0.02em', margin: 0 }}>
+						Grant Pipeline
+					</h1>
+					<p style={{ fontFamily: S.mono, fontSize: 11, color: S.textMuted, marginTop: 4, letterSpacing: 0.3 }}>
+						Every grant from first look to award
+					</p>
+				</div>
+				<div style={{ display: 'flex', gap: 24 }}>
+					{[
+						{ value: grants.filter(g => g.stage !== 'awarded' && g.stage !== 'declined').length, label: 'Active', color: S.teal },
+						{ value: dueSoon, label: 'Due in 14d', color: S.orange },
+						{ value: grants.filter(g => g.stage === 'awarded').length, label: 'Awarded', color: S.accentLight },
+					].map((stat) => (
+						<div key={stat.label} style={{ textAlign: 'center' }}>
+							<div style={{ fontFamily: S.mono, fontSize: 20, fontWeight: 700, color: stat.color }}>{stat.value}</div>
+							<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textDim, letterSpacing: 1, textTransform: 'uppercase' }}>
+								{stat.label}
+							</div>
+						</div>
+					))}
+				</div>
+			</header>
+
+			<main style={{
+				padding: isMobile ? '16px 12px' : '24px 28px', maxWidth: 1300, margin: '0 auto',
+				display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 380px', gap: 20,
+			}}>
+				{/* Pipeline by stage */}
+				<section style={{ opacity: loading ? 0.6 : 1 }}>
+					{owners.length > 0 && (
+						<div style={{ display: 'flex', gap: 6, marginBottom: 12, flexWrap: 'wrap' }}>
+							{['', ...owners].map((o) => (
+								<button key={o || 'all'} onClick={() => setOwnerFilter(o)} style={{
+									padding: '5px 10px', borderRadius: 4, fontFamily: S.mono, fontSize: 10, cursor: 'pointer',
+									border: `1px solid ${ownerFilter === o ? S.accent + '88' : S.borderColor}`,
+									background: ownerFilter === o ? S.accent + '18' : 'transparent',
+									color: ownerFilter === o ? S.accentLight : S.textMuted,
+								}} type="button">
+									{o || 'Everyone'}
+								</button>
+							))}
+						</div>
+					)}
+
+					{error && (
+						<div style={{ padding: 12, fontFamily: S.mono, fontSize: 11, color: S.red }}>{error}</div>
+					)}
+
+					{!loading && grants.length === 0 && !error && (
+						<div style={{ padding: 12, fontFamily: S.mono, fontSize: 11, color: S.textMuted }}>
+							Nothing tracked yet — search for grants and track the ones worth pursuing.
+						</div>
+					)}
+
+					{STAGES.map((stage) => {
+						const stageGrants = visible.filter(g => g.stage === stage);
+						if (stageGrants.length === 0) return null;
+						return (
+							<div key={stage} style={{ marginBottom: 18 }}>
+								<div style={{
+									fontFamily: S.mono, fontSize: 10, fontWeight: 700, letterSpacing: 1, marginBottom: 8,
+									color: STAGE_COLORS[stage], textTransform: 'uppercase',
+								}}>
+									{STAGE_LABELS[stage]} ({stageGrants.length})
+								</div>
+								{stageGrants.map((g) => (
+									<button key={g.id} onClick={() => setSelectedId(g.id)} style={{
+										display: 'block', width: '100%', textAlign: 'left', marginBottom: 6,
+										padding: '10px 12px', borderRadius: 6, cursor: 'pointer', color: S.textPrimary,
+										background: selectedId === g.id ? STAGE_COLORS[stage] + '14' : S.cardBg,
+										border: `1px solid ${selectedId === g.id ? STAGE_COLORS[stage] + '88' : S.borderColor}`,
+									}} type="button">
+										<div style={{ fontSize: 13, fontWeight: 600 }}>{g.opportunity.grantProgramName}</div>
+										<div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 3 }}>
+											<span>{g.opportunity.funderName}</span>
+											<DeadlineLabel grant={g} />
+											{g.owner && <span>{g.owner}</span>}
+											{g.drafts.length > 0 && <span>{g.drafts.length} draft{g.drafts.length === 1 ? '' : 's'}</span>}
+										</div>
+									</button>
+								))}
+							</div>
+						);
+					})}
+				</section>
+
+				{/* Side panel */}
+				<aside>
+					{selected && (
+						<GrantDetail key={selected.id} grant={selected} onClose={() => setSelectedId(null)} onChanged={fetchGrants} />
+					)}
+					<SearchPanel onTracked={handleTracked} />
+				</aside>
+			</main>
+		</div>
+	);
+}
@@ -1,5 +1,6 @@
 import { useCallback, useState, type ChangeEvent } from 'react';
 import { useIsMobile } from './useMediaQuery';
+import { GrantBudgetEditor, budgetRequest, EMPTY_BUDGET, type BudgetDraft } from './GrantBudgetEditor';
 
 interface GrantResult {
 	content: string;
@@ -8,9 +9,42 @@ interface GrantResult {
 	estimatedReadTime: string;
 	suggestions?: string[];
 	missingInfo?: string[];
-	sections?: { title: string; content: string }[];
+	sections?: { title: string; content: string; limit?: ResponseLimit; length?: number }[];
+	sectionSources?: SectionSource[];
+	budget?: { table: string; total: number; yearlyTotals: number[] };
+	budgetCheck?: { fundingRange?: string; withinRange?: boolean; figuresMatch: boolean; issues: string[] };
 }
 
+interface ResponseLimit {
+	value: number;
+	unit: 'words' | 'characters';
+}
+
+// Parsed from the funder's RFP by POST /api/grant-rfp
+interface ApplicationTemplate {
+	funderName?: string;
+	programName?: string;
+	summary?: string;
+	awardRange?: string;
+	questions: { title: string; prompt: string; limit?: ResponseLimit; required: boolean }[];
+	eligibility: string[];
+	deadlines: { label: string; date: string; time?: string }[];
+	attachments: string[];
+	overallLimit?: ResponseLimit;
+	source: { kind: string; filename?: string };
+	parsedAt: string;
+}
+
+interface SectionSource {
+	section: string;
+	source: 'library' | 'generated';
+	answerId?: string;
+	variant?: number;
+	adapted?: boolean;
+}
+
+const ANSWER_LENGTHS = [100, 250, 500];
+
 const GRANT_TYPES = [
 	{ id: 'loi', label: 'Letter of Intent', description: '1-2 page introduction to your proposal', icon: '✉️' },
 	{ id: 'executive-summary', label: 'Executive Summary', description: 'Stand-alone 1-page overview', icon: '📄' },
@@ -56,11 +90,23 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 	// Requirements
 	const [wordLimit, setWordLimit] = useState<string>('');
 	const [specificQuestions, setSpecificQuestions] = useState('');
+	const [requiredSections, setRequiredSections] = useState('');
+
+	// Funder RFP
+	const [rfpText, setRfpText] = useState('');
+	const [rfpFile, setRfpFile] = useState<File | null>(null);
+	const [rfpParsing, setRfpParsing] = useState(false);
+	const [rfpError, setRfpError] = useState<string | null>(null);
+	const [template, setTemplate] = useState<ApplicationTemplate | null>(null);
+
+	// Budget
+	const [budget, setBudget] = useState<BudgetDraft>(EMPTY_BUDGET);
 
 	// Result
 	const [result, setResult] = useState<GrantResult | null>(null);
 	const [error, setError] = useState<string | null>(null);
 	const [copied, setCopied] = useState(false);
+	const [savedSections, setSavedSections] = useState<Record<string, 'saving' | 'saved' | 'failed'>>({});
 
 	const handleGenerate = useCallback(async () => {
 		setStep('generating');
@@ -83,6 +129,12 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 					specificQuestions: specificQuestions
 						? specificQuestions.split('\n').filter((q) => q.trim())
 						: undefined,
+					requiredSections: requiredSections
+						? requiredSections.split('\n').map((sec) => sec.trim()).filter(Boolean)
+						: undefined,
+					applicationTemplate: template || undefined,
+					budget: budgetRequest(budget),
+					fundingRange: budget.fundingRange || undefined,
 				}),
 			});
 
@@ -97,7 +149,36 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 			setError(err instanceof Error ? err.message : 'Something went wrong');
 			setStep('details');
 		}
-	}, [grantType, funderName, funderFocus, askAmount, projectName, projectDescription, targetPopulation, timeline, wordLimit, specificQuestions]);
+	}, [grantType, funderName, funderFocus, askAmount, projectName, projectDescription, targetPopulation, timeline, wordLimit, specificQuestions, requiredSections, template, budget]);
+
+	// Turn a pasted or uploaded RFP into an application template; each of its
+	// questions becomes a section held to the funder's limit
+	const handleParseRfp = useCallback(async () => {
+		setRfpParsing(true);
+		setRfpError(null);
+		try {
+			let response: Response;
+			if (rfpFile) {
+				const formData = new FormData();
+				formData.append('rfp', rfpFile);
+				response = await fetch('/api/grant-rfp', { method: 'POST', body: formData });
+			} else {
+				response = await fetch('/api/grant-rfp', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ text: rfpText }),
+				});
+			}
+			const data = await response.json() as { success: boolean; template?: ApplicationTemplate; error?: string };
+			if (!data.success || !data.template) throw new Error(data.error || 'Could not read the RFP');
+			setTemplate(data.template);
+			if (!funderName && data.template.funderName) setFunderName(data.template.funderName);
+		} catch (err) {
+			setRfpError(err instanceof Error ? err.message : 'Could not read the RFP');
+		} finally {
+			setRfpParsing(false);
+		}
+	}, [rfpFile, rfpText, funderName]);
 
 	const handleCopy = useCallback(() => {
 		if (!result) return;
@@ -106,6 +187,27 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 		setTimeout(() => setCopied(false), 2000);
 	}, [result]);
 
+	// Save a newly written section to the answer library as a draft, filed
+	// under the variant length closest to its word count
+	const handleSaveSection = useCallback(async (title: string) => {
+		const text = result?.sections?.find((sec) => sec.title === title)?.content;
+		if (!text) return;
+		const words = text.split(/\s+/).filter(Boolean).length;
+		const length = ANSWER_LENGTHS.reduce((best, len) => Math.abs(len - words) < Math.abs(best - words) ? len : best);
+		setSavedSections((prev) => ({ ...prev, [title]: 'saving' }));
+		try {
+			const resp = await fetch('/api/grant-answers', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ section: title, variants: { [length]: text } }),
+			});
+			const data = await resp.json() as { success: boolean };
+			setSavedSections((prev) => ({ ...prev, [title]: data.success ? 'saved' : 'failed' }));
+		} catch {
+			setSavedSections((prev) => ({ ...prev, [title]: 'failed' }));
+		}
+	}, [result]);
+
 	const handleReset = useCallback(() => {
 		setStep('type');
 		setGrantType('');
@@ -118,9 +220,26 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 		setTimeline('');
 		setWordLimit('');
 		setSpecificQuestions('');
+		setRequiredSections('');
+		setRfpText('');
+		setRfpFile(null);
+		setRfpError(null);
+		setTemplate(null);
+		setBudget(EMPTY_BUDGET);
 		setResult(null);
+		setSavedSections({});
 	}, []);
 
+	// "212/250 words" for each section the RFP set a limit on
+	const limitedSections: Record<string, { label: string; over: boolean }> = {};
+	for (const sec of result?.sections ?? []) {
+		if (!sec.limit || sec.length === undefined) continue;
+		limitedSections[sec.title] = {
+			label: `${sec.length.toLocaleString()}/${sec.limit.value.toLocaleString()} ${sec.limit.unit === 'characters' ? 'chars' : 'words'}`,
+			over: sec.length > sec.limit.value,
+		};
+	}
+
 	return (
 		<div style={{
 			minHeight: '100vh',
@@ -518,6 +637,188 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 							</div>
 						</div>
 
+						{/* Funder RFP Section */}
+						<div style={{
+							background: '#111520',
+							border: '1px solid #1e2538',
+							borderRadius: 10,
+							padding: 20,
+							marginBottom: 16,
+						}}>
+							<div style={{
+								fontFamily: "'Space Mono', monospace",
+								fontSize: 10,
+								letterSpacing: 2,
+								textTransform: 'uppercase' as const,
+								color: '#3498DB',
+								marginBottom: 16,
+							}}>
+								FUNDER RFP (OPTIONAL)
+							</div>
+
+							{rfpError && (
+								<div style={{ marginBottom: 12, fontSize: 12, color: '#f87171' }}>
+									{rfpError}
+								</div>
+							)}
+
+							{template ? (
+								<div style={{ fontSize: 13, color: '#8892b0', lineHeight: 1.6 }}>
+									<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 8, marginBottom: 10 }}>
+										<div>
+											<div style={{ color: '#e2e8f0', fontWeight: 600 }}>
+												{template.programName || template.funderName || 'Application template'}
+											</div>
+											<div style={{ fontFamily: "'Space Mono', monospace", fontSize: 10, color: '#4a5578' }}>
+												{template.questions.length} questions
+												{template.awardRange ? ` · ${template.awardRange}` : ''}
+												{template.source.filename ? ` · ${template.source.filename}` : ''}
+											</div>
+										</div>
+										<button
+											onClick={() => setTemplate(null)}
+											style={{
+												background: 'none',
+												border: '1px solid #1e2538',
+												borderRadius: 4,
+												color: '#8892b0',
+												cursor: 'pointer',
+												fontFamily: "'Space Mono', monospace",
+												fontSize: 9,
+												padding: '4px 8px',
+											}}
+											type="button"
+										>
+											Clear
+										</button>
+									</div>
+
+									{template.deadlines.length > 0 && (
+										<div style={{ marginBottom: 10 }}>
+											{template.deadlines.map((d) => (
+												<div key={`${d.label}-${d.date}`} style={{ fontFamily: "'Space Mono', monospace", fontSize: 11, color: '#E67E22' }}>
+													{d.label}: {d.date}{d.time ? ` ${d.time}` : ''}
+												</div>
+											))}
+										</div>
+									)}
+
+									<ol style={{ margin: '0 0 10px', paddingLeft: 20 }}>
+										{template.questions.map((q) => (
+											<li key={q.title} style={{ marginBottom: 4 }}>
+												<span style={{ color: '#e2e8f0' }}>{q.title}</span>
+												{q.limit && (
+													<span style={{ fontFamily: "'Space Mono', monospace", fontSize: 10, color: '#3498DB' }}>
+														{' '}· max {q.limit.value.toLocaleString()} {q.limit.unit}
+													</span>
+												)}
+												<div style={{ fontSize: 12, color: '#4a5578' }}>{q.prompt}</div>
+											</li>
+										))}
+									</ol>
+
+									{template.eligibility.length > 0 && (
+										<div style={{ marginBottom: 8 }}>
+											<span style={{ fontFamily: "'Space Mono', monospace", fontSize: 10, color: '#4a5578' }}>ELIGIBILITY: </span>
+											{template.eligibility.join(' · ')}
+										</div>
+									)}
+									{template.attachments.length > 0 && (
+										<div>
+											<span style={{ fontFamily: "'Space Mono', monospace", fontSize: 10, color: '#4a5578' }}>ATTACHMENTS: </span>
+											{template.attachments.join(' · ')}
+										</div>
+									)}
+								</div>
+							) : (
+								<>
+									<textarea
+										value={rfpText}
+										onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setRfpText(e.target.value)}
+										placeholder="Paste the RFP or application guidelines..."
+										rows={4}
+										disabled={!!rfpFile}
+										style={{
+											width: '100%',
+											padding: '10px 12px',
+											borderRadius: 6,
+											border: '1px solid #1e2538',
+											background: '#0a0d14',
+											color: '#e2e8f0',
+											fontSize: 13,
+											outline: 'none',
+											resize: 'vertical',
+											opacity: rfpFile ? 0.5 : 1,
+										}}
+									/>
+									<div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 10, flexWrap: 'wrap' }}>
+										<label style={{
+											fontFamily: "'Space Mono', monospace",
+											fontSize: 10,
+											color: '#8892b0',
+											cursor: 'pointer',
+										}}>
+											{rfpFile ? rfpFile.name : 'or upload PDF / DOCX'}
+											<input
+												type="file"
+												accept=".pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain"
+												onChange={(e: ChangeEvent<HTMLInputElement>) => setRfpFile(e.target.files?.[0] ?? null)}
+												style={{ display: 'none' }}
+											/>
+										</label>
+										{rfpFile && (
+											<button
+												onClick={() => setRfpFile(null)}
+												style={{ background: 'none', border: 'none', color: '#4a5578', cursor: 'pointer', fontSize: 11, padding: 0 }}
+												type="button"
+											>
+												remove
+											</button>
+										)}
+										<button
+											onClick={handleParseRfp}
+											disabled={rfpParsing || (!rfpFile && !rfpText.trim())}
+											style={{
+												marginLeft: 'auto',
+												padding: '8px 14px',
+												borderRadius: 6,
+												border: '1px solid #3498DB66',
+												background: 'transparent',
+												color: '#3498DB',
+												cursor: rfpParsing || (!rfpFile && !rfpText.trim()) ? 'not-allowed' : 'pointer',
+												fontFamily: "'Space Mono', monospace",
+												fontSize: 11,
+											}}
+											type="button"
+										>
+											{rfpParsing ? 'Reading RFP...' : 'Extract questions'}
+										</button>
+									</div>
+								</>
+							)}
+						</div>
+
+						{/* Budget Section */}
+						<div style={{
+							background: '#111520',
+							border: '1px solid #1e2538',
+							borderRadius: 10,
+							padding: 20,
+							marginBottom: 16,
+						}}>
+							<div style={{
+								fontFamily: "'Space Mono', monospace",
+								fontSize: 10,
+								letterSpacing: 2,
+								textTransform: 'uppercase' as const,
+								color: '#F39C12',
+								marginBottom: 16,
+							}}>
+								BUDGET {grantType === 'budget-narrative' ? '' : '(OPTIONAL)'}
+							</div>
+							<GrantBudgetEditor value={budget} onChange={setBudget} />
+						</div>
+
 						{/* Requirements Section */}
 						<div style={{
 							background: '#111520',
@@ -595,6 +896,35 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 									}}
 								/>
 							</div>
+
+							<div style={{ marginTop: 12 }}>
+								<label style={{
+									display: 'block',
+									fontFamily: "'Space Mono', monospace",
+									fontSize: 10,
+									color: '#4a5578',
+									marginBottom: 6,
+								}}>
+									Required Sections (one per line — approved answer library text is reused)
+								</label>
+								<textarea
+									value={requiredSections}
+									onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setRequiredSections(e.target.value)}
+									placeholder={'Mission Statement\nDEI Statement\nEvaluation Plan'}
+									rows={3}
+									style={{
+										width: '100%',
+										padding: '10px 12px',
+										borderRadius: 6,
+										border: '1px solid #1e2538',
+										background: '#0a0d14',
+										color: '#e2e8f0',
+										fontSize: 13,
+										outline: 'none',
+										resize: 'vertical',
+									}}
+								/>
+							</div>
 						</div>
 
 						<button
@@ -714,6 +1044,121 @@ export function GrantWriter({ onBack }: GrantWriterProps) {
 							</div>
 						)}
 
+						{/* Budget check */}
+						{result.budget && (
+							<div style={{
+								background: '#111520',
+								border: `1px solid ${result.budgetCheck?.issues.length ? '#E67E2240' : '#1e2538'}`,
+								borderRadius: 10,
+								padding: 16,
+								marginBottom: 16,
+							}}>
+								<div style={{
+									fontFamily: "'Space Mono', monospace",
+									fontSize: 10,
+									letterSpacing: 1,
+									color: '#F39C12',
+									marginBottom: 10,
+								}}>
+									💵 BUDGET — ${result.budget.total.toLocaleString()} TOTAL
+									{result.budgetCheck?.withinRange === true ? ' · WITHIN FUNDING RANGE' : ''}
+									{result.budgetCheck?.figuresMatch ? ' · NARRATIVE MATCHES TABLE' : ''}
+								</div>
+								{result.budgetCheck && result.budgetCheck.issues.length > 0 && (
+									<ul style={{ margin: '0 0 10px', paddingLeft: 20, color: '#E67E22', fontSize: 13, lineHeight: 1.6 }}>
+										{result.budgetCheck.issues.map((issue, i) => (
+											<li key={i}>{issue}</li>
+										))}
+									</ul>
+								)}
+								{grantType !== 'budget-narrative' && (
+									<pre style={{
+										margin: 0,
+										padding: 12,
+										borderRadius: 6,
+										background: '#0a0d14',
+										color: '#8892b0',
+										fontSize: 11,
+										overflowX: 'auto',
+									}}>
+										{result.budget.table}
+									</pre>
+								)}
+							</div>
+						)}
+
+						{/* Section sources */}
+						{result.sectionSources && result.sectionSources.length > 0 && (
+							<div style={{
+								background: '#111520',
+								border: '1px solid #1e2538',
+								borderRadius: 10,
+								padding: 16,
+								marginBottom: 16,
+							}}>
+								<div style={{
+									fontFamily: "'Space Mono', monospace",
+									fontSize: 10,
+									letterSpacing: 1,
+									color: '#8892b0',
+									marginBottom: 10,
+								}}>
+									📚 SECTIONS — {result.sectionSources.filter((src) => src.source === 'library').length} FROM THE ANSWER LIBRARY
+								</div>
+								{result.sectionSources.map((src) => (
+									<div key={src.section} style={{
+										display: 'flex',
+										alignItems: 'center',
+										justifyContent: 'space-between',
+										gap: 8,
+										padding: '4px 0',
+										fontSize: 13,
+										color: '#8892b0',
+									}}>
+										<span>{src.section}</span>
+										<span style={{ display: 'flex', alignItems: 'center', gap: 8, fontFamily: "'Space Mono', monospace", fontSize: 9 }}>
+											{limitedSections[src.section] && (
+												<span style={{ color: limitedSections[src.section]!.over ? '#f87171' : '#4a5578' }}>
+													{limitedSections[src.section]!.label}
+												</span>
+											)}
+											{src.source === 'library' ? (
+												<span style={{ color: '#4a9e7a' }}>
+													LIBRARY · {src.variant}w{src.adapted ? ' · ADAPTED' : ''}
+												</span>
+											) : (
+												<>
+													<span style={{ color: '#E67E22' }}>NEW</span>
+													{result.sections?.some((sec) => sec.title === src.section && sec.content) && (
+														<button
+															onClick={() => handleSaveSection(src.section)}
+															disabled={!!savedSections[src.section] && savedSections[src.section] !== 'failed'}
+															style={{
+																background: 'none',
+																border: '1px solid #1e2538',
+																borderRadius: 4,
+																color: '#8892b0',
+																cursor: 'pointer',
+																fontFamily: "'Space Mono', monospace",
+																fontSize: 9,
+																padding: '2px 6px',
+															}}
+															type="button"
+														>
+															{savedSections[src.section] === 'saved' ? 'Saved as draft'
+																: savedSections[src.section] === 'saving' ? 'Saving...'
+																: savedSections[src.section] === 'failed' ? 'Retry save'
+																: 'Save to library'}
+														</button>
+													)}
+												</>
+											)}
+										</span>
+									</div>
+								))}
+							</div>
+						)}
+
 						{/* Content */}
 						<div style={{
 							background: '#111520',
@@ -0,0 +1,407 @@
+/**
+ * MusicLibrary — Browse, upload, tag and license the soundtrack library
+ * File: src/web/MusicLibrary.tsx
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+// --- Types ---
+
+type LicenseType = 'cc0' | 'royalty-free' | 'licensed' | 'custom';
+
+interface MusicLicense {
+	type: LicenseType;
+	attribution?: string;
+	expiresAt?: string;
+	notes?: string;
+}
+
+interface MusicTrack {
+	id: string;
+	title: string;
+	artist: string;
+	url: string;
+	durationSeconds: number;
+	bpm?: number;
+	mood: string[];
+	modes: string[];
+	source: string;
+	loudnessLufs?: number;
+	license?: MusicLicense;
+	archived?: boolean;
+	createdAt?: string;
+}
+
+interface MusicUsage {
+	trackId: string;
+	uses: number;
+	lastUsedAt: string;
+}
+
+interface TrackDraft {
+	mood: string;
+	modes: string;
+	licenseType: LicenseType;
+	attribution: string;
+	expiresAt: string;
+}
+
+// --- Design tokens ---
+
+const S = {
+	mono: "'Space Mono', monospace" as string,
+	serif: "'Source Serif 4', Georgia, serif" as string,
+	bg: '#0a0d14',
+	cardBg: '#111520',
+	borderColor: '#1e2538',
+	textPrimary: '#e2e8f0',
+	textSecondary: '#8892b0',
+	textMuted: '#4a5578',
+	textDim: '#2a3148',
+	accent: '#2D6A4F',
+	accentLight: '#4a9e7a',
+	red: '#f87171',
+	amber: '#fbbf24',
+	teal: '#1ABC9C',
+};
+
+const card = {
+	background: S.cardBg, border: `1px solid ${S.borderColor}`, borderRadius: 8, padding: 16,
+};
+
+const label = {
+	fontFamily: S.mono, fontSize: 10, color: S.textMuted, letterSpacing: 1, textTransform: 'uppercase' as const,
+};
+
+const input = {
+	background: S.bg, border: `1px solid ${S.borderColor}`, borderRadius: 4, padding: '6px 8px',
+	color: S.textPrimary, fontFamily: S.mono, fontSize: 11, width: '100%', boxSizing: 'border-box' as const,
+};
+
+const linkButton = {
+	background: 'none', border: 'none', color: S.teal, cursor: 'pointer',
+	fontFamily: S.mono, fontSize: 10, padding: 0,
+};
+
+const LICENSE_TYPES: LicenseType[] = ['royalty-free', 'cc0', 'licensed', 'custom'];
+const EXPIRY_WARNING_DAYS = 30;
+
+function formatDuration(seconds: number): string {
+	const s = Math.round(seconds);
+	return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function splitTags(value: string): string[] {
+	return value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+}
+
+/** 'expired' | 'expiring' (within 30 days) | null */
+function expiryState(license?: MusicLicense): 'expired' | 'expiring' | null {
+	if (!license?.expiresAt) return null;
+	const days = (new Date(license.expiresAt).getTime() - Date.now()) / 86_400_000;
+	if (days < 0) return 'expired';
+	return days <= EXPIRY_WARNING_DAYS ? 'expiring' : null;
+}
+
+function draftFor(track: MusicTrack): TrackDraft {
+	return {
+		mood: track.mood.join(', '),
+		modes: track.modes.join(', '),
+		licenseType: track.license?.type || 'royalty-free',
+		attribution: track.license?.attribution || '',
+		expiresAt: track.license?.expiresAt?.slice(0, 10) || '',
+	};
+}
+
+async function callMusicTask(body: Record<string, unknown>): Promise<any> {
+	const resp = await fetch('/api/video-editor', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+	const data = await resp.json();
+	if (!data.success) throw new Error(data.error || data.message || 'Request failed');
+	return data;
+}
+
+// --- Sub-components ---
+
+function Tags({ values, color }: { values: string[]; color: string }) {
+	return (
+		<>
+			{values.map(v => (
+				<span key={v} style={{
+					fontFamily: S.mono, fontSize: 9, color, border: `1px solid ${color}40`,
+					borderRadius: 3, padding: '1px 5px', letterSpacing: 0.3,
+				}}>{v}</span>
+			))}
+		</>
+	);
+}
+
+function TrackRow({ track, usage, onSave, onRemove }: {
+	track: MusicTrack;
+	usage?: MusicUsage;
+	onSave: (patch: Record<string, unknown>) => Promise<void>;
+	onRemove: () => Promise<void>;
+}) {
+	const [draft, setDraft] = useState<TrackDraft | null>(null);
+	const [saving, setSaving] = useState(false);
+	const expiry = expiryState(track.license);
+
+	const save = async () => {
+		if (!draft) return;
+		setSaving(true);
+		try {
+			await onSave({
+				mood: splitTags(draft.mood),
+				modes: splitTags(draft.modes),
+				license: {
+					...track.license,
+					type: draft.licenseType,
+					attribution: draft.attribution.trim() || undefined,
+					expiresAt: draft.expiresAt || undefined,
+				},
+			});
+			setDraft(null);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div style={{ padding: '12px 0', borderBottom: `1px solid ${S.borderColor}`, opacity: track.archived ? 0.5 : 1 }}>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 12 }}>
+				<div style={{ flex: 1, minWidth: 0 }}>
+					<span style={{ fontFamily: S.serif, fontSize: 14, color: S.textPrimary }}>{track.title}</span>
+					<span style={{ fontFamily: S.serif, fontSize: 12, color: S.textSecondary }}> — {track.artist}</span>
+					{track.archived && <span style={{ ...label, marginLeft: 8 }}>archived</span>}
+				</div>
+				<div style={{ display: 'flex', gap: 12 }}>
+					{!draft && <button onClick={() => setDraft(draftFor(track))} style={linkButton} type="button">Edit</button>}
+					{!track.archived && (
+						<button onClick={onRemove} style={{ ...linkButton, color: S.red }} type="button">
+							{track.source === 'upload' ? 'Remove' : 'Archive'}
+						</button>
+					)}
+				</div>
+			</div>
+
+			<div style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, marginTop: 4, letterSpacing: 0.3 }}>
+				{formatDuration(track.durationSeconds)}
+				{track.bpm ? ` · ${Math.round(track.bpm)} BPM` : ''}
+				{track.loudnessLufs !== undefined ? ` · ${track.loudnessLufs.toFixed(1)} LUFS` : ''}
+				{' · '}{track.license?.type || 'unlicensed'}
+				{track.license?.expiresAt ? ` · expires ${new Date(track.license.expiresAt).toLocaleDateString()}` : ''}
+				{' · '}{usage ? `${usage.uses} use${usage.uses === 1 ? '' : 's'} in 30 days, last ${new Date(usage.lastUsedAt).toLocaleDateString()}` : 'unused in 30 days'}
+			</div>
+			{expiry && (
+				<div style={{ fontFamily: S.mono, fontSize: 9, color: expiry === 'expired' ? S.red : S.amber, marginTop: 4 }}>
+					{expiry === 'expired' ? 'License expired — excluded from auto-selection' : `License expires within ${EXPIRY_WARNING_DAYS} days`}
+				</div>
+			)}
+			{track.license?.attribution && (
+				<div style={{ fontFamily: S.serif, fontSize: 11, fontStyle: 'italic', color: S.textSecondary, marginTop: 4 }}>
+					{track.license.attribution}
+				</div>
+			)}
+
+			{draft ? (
+				<div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 10 }}>
+					<div>
+						<div style={{ ...label, marginBottom: 4 }}>Mood</div>
+						<input value={draft.mood} onChange={e => setDraft({ ...draft, mood: e.target.value })} style={input} />
+					</div>
+					<div>
+						<div style={{ ...label, marginBottom: 4 }}>Modes</div>
+						<input value={draft.modes} onChange={e => setDraft({ ...draft, modes: e.target.value })} style={input} />
+					</div>
+					<div>
+						<div style={{ ...label, marginBottom: 4 }}>License</div>
+						<select value={draft.licenseType} onChange={e => setDraft({ ...draft, licenseType: e.target.value as LicenseType })} style={input}>
+							{LICENSE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+						</select>
+					</div>
+					<div>
+						<div style={{ ...label, marginBottom: 4 }}>Expires</div>
+						<input type="date" value={draft.expiresAt} onChange={e => setDraft({ ...draft, expiresAt: e.target.value })} style={input} />
+					</div>
+					<div style={{ gridColumn: '1 / -1' }}>
+						<div style={{ ...label, marginBottom: 4 }}>Attribution</div>
+						<input value={draft.attribution} onChange={e => setDraft({ ...draft, attribution: e.target.value })} style={input} />
+					</div>
+					<div style={{ gridColumn: '1 / -1', display: 'flex', gap: 12 }}>
+						<button onClick={save} disabled={saving} style={linkButton} type="button">{saving ? 'Saving...' : 'Save'}</button>
+						<button onClick={() => setDraft(null)} style={{ ...linkButton, color: S.textMuted }} type="button">Cancel</button>
+					</div>
+				</div>
+			) : (
+				<div style={{ display: 'flex', gap: 4, flexWrap: 'wrap', marginTop: 6 }}>
+					<Tags values={track.mood} color={S.accentLight} />
+					<Tags values={track.modes} color={S.teal} />
+				</div>
+			)}
+		</div>
+	);
+}
+
+function UploadForm({ onUploaded }: { onUploaded: () => Promise<void> }) {
+	const [file, setFile] = useState<File | null>(null);
+	const [fields, setFields] = useState({
+		title: '', artist: '', mood: '', modes: '',
+		licenseType: 'royalty-free' as LicenseType, attribution: '', expiresAt: '', licenseNotes: '',
+	});
+	const [uploading, setUploading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const set = (key: keyof typeof fields) => (e: { target: { value: string } }) =>
+		setFields({ ...fields, [key]: e.target.value });
+
+	const upload = async () => {
+		if (!file) return;
+		setUploading(true);
+		setError(null);
+		try {
+			const form = new FormData();
+			form.append('audio', file);
+			for (const [key, value] of Object.entries(fields)) {
+				if (value) form.append(key, value);
+			}
+			const resp = await fetch('/api/music-library/upload', { method: 'POST', body: form });
+			const data = await resp.json();
+			if (!data.success) throw new Error(data.error || 'Upload failed');
+			setFile(null);
+			setFields({ ...fields, title: '', artist: '', attribution: '', expiresAt: '', licenseNotes: '' });
+			await onUploaded();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Upload failed');
+		} finally {
+			setUploading(false);
+		}
+	};
+
+	return (
+		<div style={{ ...card, marginBottom: 20 }}>
+			<div style={{ ...label, marginBottom: 10 }}>Upload a track</div>
+			<input type="file" accept="audio/*,.mp3,.wav,.m4a,.aac,.ogg,.flac"
+				onChange={e => setFile(e.target.files?.[0] || null)}
+				style={{ fontFamily: S.mono, fontSize: 11, color: S.textSecondary, marginBottom: 10 }} />
+			<div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+				<input placeholder="Title" value={fields.title} onChange={set('title')} style={input} />
+				<input placeholder="Artist" value={fields.artist} onChange={set('artist')} style={input} />
+				<input placeholder="Mood (upbeat, warm, ...)" value={fields.mood} onChange={set('mood')} style={input} />
+				<input placeholder="Modes (game_day, our_story, ...)" value={fields.modes} onChange={set('modes')} style={input} />
+				<select value={fields.licenseType} onChange={set('licenseType')} style={input}>
+					{LICENSE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+				</select>
+				<input type="date" value={fields.expiresAt} onChange={set('expiresAt')} style={input} title="License expiry (optional)" />
+				<input placeholder="Attribution text" value={fields.attribution} onChange={set('attribution')} style={{ ...input, gridColumn: '1 / -1' }} />
+				<input placeholder="License notes" value={fields.licenseNotes} onChange={set('licenseNotes')} style={{ ...input, gridColumn: '1 / -1' }} />
+			</div>
+			<div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 10 }}>
+				<button onClick={upload} disabled={!file || uploading} style={{
+					padding: '6px 12px', borderRadius: 4, border: `1px solid ${S.accent}`,
+					background: uploading ? 'transparent' : S.accent + '25', color: S.accentLight,
+					fontFamily: S.mono, fontSize: 10, letterSpacing: 0.5, cursor: !file ? 'not-allowed' : uploading ? 'wait' : 'pointer',
+				}} type="button">
+					{uploading ? 'Measuring...' : 'Upload'}
+				</button>
+				<span style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted }}>
+					Duration, BPM and loudness are measured on upload.
+				</span>
+			</div>
+			{error && <div style={{ fontFamily: S.mono, fontSize: 11, color: S.red, marginTop: 8 }}>{error}</div>}
+		</div>
+	);
+}
+
+// --- Component ---
+
+export function MusicLibrary({ onClose }: { onClose?: () => void }) {
+	const [tracks, setTracks] = useState<MusicTrack[]>([]);
+	const [usage, setUsage] = useState<Record<string, MusicUsage>>({});
+	const [showArchived, setShowArchived] = useState(false);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+
+	const load = useCallback(async () => {
+		try {
+			setLoading(true);
+			const data = await callMusicTask({ task: 'list-music', includeArchived: true });
+			setTracks((data.videos || []) as MusicTrack[]);
+			setUsage((data.musicUsage || {}) as Record<string, MusicUsage>);
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to load music');
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const update = async (id: string, patch: Record<string, unknown>) => {
+		try {
+			await callMusicTask({ task: 'update-music-track', musicTrackId: id, musicTrackPatch: patch });
+			await load();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Update failed');
+		}
+	};
+
+	const remove = async (id: string) => {
+		try {
+			await callMusicTask({ task: 'remove-music-track', musicTrackId: id });
+			await load();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Remove failed');
+		}
+	};
+
+	const visible = tracks.filter(t => showArchived || !t.archived);
+	const archivedCount = tracks.length - tracks.filter(t => !t.archived).length;
+
+	return (
+		<div>
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+				<div style={{ fontFamily: S.serif, fontSize: 16, color: S.textPrimary }}>Music Library</div>
+				{onClose && <button onClick={onClose} style={{ ...linkButton, color: S.textMuted, fontSize: 12 }} type="button">Close</button>}
+			</div>
+
+			{error && (
+				<div style={{ fontFamily: S.mono, fontSize: 11, color: S.red, marginBottom: 16 }}>{error}</div>
+			)}
+
+			<UploadForm onUploaded={load} />
+
+			<div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+				<div style={label}>{visible.length} tracks</div>
+				{archivedCount > 0 && (
+					<button onClick={() => setShowArchived(!showArchived)} style={linkButton} type="button">
+						{showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+					</button>
+				)}
+			</div>
+
+			{loading ? (
+				<div style={{ padding: 40, textAlign: 'center', fontFamily: S.mono, fontSize: 12, color: S.textMuted, letterSpacing: 1 }}>
+					Loading music...
+				</div>
+			) : (
+				<div style={card}>
+					{visible.map(t => (
+						<TrackRow
+							key={t.id}
+							track={t}
+							usage={usage[t.id]}
+							onSave={(patch) => update(t.id, patch)}
+							onRemove={() => remove(t.id)}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
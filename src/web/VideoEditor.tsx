@@ -1,6 +1,9 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useIsMobile } from './useMediaQuery';
+import { MusicLibrary } from './MusicLibrary';
+import { EditPlanTimeline } from './EditPlanTimeline';
+import { EditPlanPreview } from './EditPlanPreview';
 
 // --- Types ---
 
@@ -117,6 +120,7 @@ const PLATFORM_LABELS: Record<string, string> = {
 	youtube: 'YouTube (16:9)',
 	facebook: 'Facebook (16:9)',
 	linkedin: 'LinkedIn (16:9)',
+	'linkedin-square': 'LinkedIn (1:1)',
 };
 
 // --- Constants ---
@@ -136,6 +140,7 @@ const PLATFORMS = [
 	{ id: 'youtube', label: 'YouTube' },
 	{ id: 'facebook', label: 'Facebook' },
 	{ id: 'linkedin', label: 'LinkedIn' },
+	{ id: 'linkedin-square', label: 'LinkedIn Square' },
 ];
 
 const LOCATION_COLORS: Record<string, { bg: string; text: string; border: string }> = {
@@ -715,6 +720,9 @@ export function VideoEditor({ onBack }: VideoEditorProps) {
 	// Music state
 	const [customMusicUrl, setCustomMusicUrl] = useState('');
 	const [musicEnabled, setMusicEnabled] = useState(true); // auto-add music for Tier 2+ platforms
+	const [showMusicLibrary, setShowMusicLibrary] = useState(false);
+	const [showTimeline, setShowTimeline] = useState(false);
+	const [showPreview, setShowPreview] = useState(false);
 
 	// Render state
 	const [renderJobs, setRenderJobs] = useState<RenderJob[]>([]);
@@ -3779,6 +3787,24 @@ export function VideoEditor({ onBack }: VideoEditorProps) {
 									Regenerate
 								</button>
 							</div>
+							{Array.isArray(editPlanData?.clips) && editPlanData.clips.length > 0 && (
+								<button
+									onClick={() => setShowTimeline(true)}
+									style={{
+										padding: '10px',
+										borderRadius: 8,
+										border: `1px solid ${S.accentLight}`,
+										background: 'transparent',
+										color: S.accentLight,
+										cursor: 'pointer',
+										fontFamily: S.mono,
+										fontSize: 10,
+									}}
+									type="button"
+								>
+									Edit Timeline
+								</button>
+							)}
 
 							{/* --- Render Video Section --- */}
 							<div style={{
@@ -3862,27 +3888,45 @@ export function VideoEditor({ onBack }: VideoEditorProps) {
 										<span style={{ fontFamily: S.mono, fontSize: 9, color: S.textMuted, letterSpacing: 1, textTransform: 'uppercase' as const }}>
 											Music
 										</span>
-										<button
-											onClick={() => setMusicEnabled(!musicEnabled)}
-											style={{
-												padding: '2px 8px',
-												borderRadius: 4,
-												border: `1px solid ${musicEnabled ? S.accent : S.borderColor}`,
-												background: musicEnabled ? S.accent + '22' : 'transparent',
-												color: musicEnabled ? S.accentLight : S.textMuted,
-												cursor: 'pointer',
-												fontFamily: S.mono,
-												fontSize: 8,
-											}}
-											type="button"
-										>
-											{musicEnabled ? 'AUTO' : 'OFF'}
-										</button>
+										<div style={{ display: 'flex', gap: 6 }}>
+											<button
+												onClick={() => setShowMusicLibrary(true)}
+												style={{
+													padding: '2px 8px',
+													borderRadius: 4,
+													border: `1px solid ${S.borderColor}`,
+													background: 'transparent',
+													color: S.textMuted,
+													cursor: 'pointer',
+													fontFamily: S.mono,
+													fontSize: 8,
+												}}
+												type="button"
+											>
+												LIBRARY
+											</button>
+											<button
+												onClick={() => setMusicEnabled(!musicEnabled)}
+												style={{
+													padding: '2px 8px',
+													borderRadius: 4,
+													border: `1px solid ${musicEnabled ? S.accent : S.borderColor}`,
+													background: musicEnabled ? S.accent + '22' : 'transparent',
+													color: musicEnabled ? S.accentLight : S.textMuted,
+													cursor: 'pointer',
+													fontFamily: S.mono,
+													fontSize: 8,
+												}}
+												type="button"
+											>
+												{musicEnabled ? 'AUTO' : 'OFF'}
+											</button>
+										</div>
 									</div>
 									{musicEnabled && (
 										<>
 											<div style={{ fontFamily: S.mono, fontSize: 8, color: S.textMuted, marginBottom: 6 }}>
-												Auto-selects royalty-free music for Tier 2 platforms (YouTube, FB, LinkedIn, IG Feed). TikTok/Reels export without music.
+												Auto-selects library music for Tier 2 platforms (YouTube, FB, LinkedIn, IG Feed), skipping tracks used in the last 30 days. TikTok/Reels export without music.
 											</div>
 											<input
 												type="text"
@@ -3910,6 +3954,31 @@ export function VideoEditor({ onBack }: VideoEditorProps) {
 									)}
 								</div>
 
+								{/* Free in-browser preview — check the plan before paying for a render */}
+								{Array.isArray(editPlanData?.clips) && editPlanData.clips.length > 0 && (
+									<button
+										onClick={() => setShowPreview(true)}
+										disabled={enabledPlatforms.size === 0}
+										style={{
+											width: '100%',
+											marginBottom: 10,
+											padding: '8px',
+											borderRadius: 6,
+											border: `1px solid ${S.accentLight}`,
+											background: 'transparent',
+											color: S.accentLight,
+											cursor: enabledPlatforms.size === 0 ? 'not-allowed' : 'pointer',
+											fontFamily: S.mono,
+											fontSize: 10,
+											fontWeight: 700,
+											letterSpacing: 0.5,
+										}}
+										type="button"
+									>
+										Preview in Browser (free)
+									</button>
+								)}
+
 								{/* Per-platform render buttons */}
 								<div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 10 }}>
 									{Array.from(enabledPlatforms).map(platformId => {
@@ -4862,6 +4931,129 @@ export function VideoEditor({ onBack }: VideoEditorProps) {
 				</div>}
 			</div>
 
+			{/* Music library modal */}
+			{showMusicLibrary && createPortal(
+				<div
+					onClick={() => setShowMusicLibrary(false)}
+					style={{
+						position: 'fixed',
+						inset: 0,
+						zIndex: 20000,
+						background: 'rgba(0,0,0,0.8)',
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'center',
+						padding: 24,
+					}}
+				>
+					<div
+						onClick={(e) => e.stopPropagation()}
+						style={{
+							background: '#0d1017',
+							borderRadius: 12,
+							border: `1px solid ${S.borderColor}`,
+							boxShadow: '0 24px 80px rgba(0,0,0,0.6)',
+							width: isMobile ? '95vw' : '80vw',
+							maxWidth: 900,
+							maxHeight: '90vh',
+							overflowY: 'auto',
+							padding: 20,
+						}}
+					>
+						<MusicLibrary onClose={() => setShowMusicLibrary(false)} />
+					</div>
+				</div>,
+				document.body
+			)}
+
+			{/* Timeline editor modal */}
+			{showTimeline && editPlanData && createPortal(
+				<div
+					style={{
+						position: 'fixed',
+						inset: 0,
+						zIndex: 20000,
+						background: 'rgba(0,0,0,0.8)',
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'center',
+						padding: 24,
+					}}
+				>
+					<div
+						style={{
+							background: '#0d1017',
+							borderRadius: 12,
+							border: `1px solid ${S.borderColor}`,
+							boxShadow: '0 24px 80px rgba(0,0,0,0.6)',
+							width: '95vw',
+							maxWidth: 1400,
+							maxHeight: '90vh',
+							overflowY: 'auto',
+							padding: 20,
+						}}
+					>
+						<EditPlanTimeline
+							plan={editPlanData}
+							videos={videos}
+							platform={Array.from(enabledPlatforms)[0] || 'tiktok'}
+							editMode={selectedMode}
+							musicDisabled={!musicEnabled}
+							onSave={(plan) => {
+								// The saved plan replaces the AI's: renders and reviews now use it
+								setEditPlanData(plan);
+								setEditPlan('```json\n' + JSON.stringify(plan, null, 2) + '\n```');
+								setShowTimeline(false);
+							}}
+							onClose={() => setShowTimeline(false)}
+						/>
+					</div>
+				</div>,
+				document.body
+			)}
+
+			{/* Edit plan preview modal (Remotion Player) */}
+			{showPreview && editPlanData && createPortal(
+				<div
+					onClick={() => setShowPreview(false)}
+					style={{
+						position: 'fixed',
+						inset: 0,
+						zIndex: 20000,
+						background: 'rgba(0,0,0,0.8)',
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'center',
+						padding: 24,
+					}}
+				>
+					<div
+						onClick={(e) => e.stopPropagation()}
+						style={{
+							background: '#0d1017',
+							borderRadius: 12,
+							border: `1px solid ${S.borderColor}`,
+							boxShadow: '0 24px 80px rgba(0,0,0,0.6)',
+							width: isMobile ? '95vw' : '85vw',
+							maxWidth: 1200,
+							maxHeight: '92vh',
+							overflowY: 'auto',
+							padding: 20,
+						}}
+					>
+						<EditPlanPreview
+							plan={editPlanData}
+							platforms={Array.from(enabledPlatforms)}
+							editMode={selectedMode}
+							musicUrl={customMusicUrl.trim() || undefined}
+							musicDisabled={!musicEnabled}
+							onClose={() => setShowPreview(false)}
+						/>
+					</div>
+				</div>,
+				document.body
+			)}
+
 			{/* Inline video preview modal */}
 			{previewVideo && createPortal(
 				<div
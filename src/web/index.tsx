@@ -10,15 +10,21 @@ import { GrantWriter } from './GrantWriter';
 import { DonorResearcher } from './DonorResearcher';
 import { VenueProspector } from './VenueProspector';
 import { ContentLibrary } from './ContentLibrary';
+import { ContentCalendar } from './ContentCalendar';
+import { GrantPipeline } from './GrantPipeline';
+import { GrantAnswerLibrary } from './GrantAnswerLibrary';
 import { useIsMobile } from './useMediaQuery';
 
-type ActiveTool = 'home' | 'content' | 'video' | 'grants' | 'donors' | 'venues' | 'library';
+type ActiveTool = 'home' | 'content' | 'video' | 'grants' | 'donors' | 'venues' | 'library' | 'calendar' | 'pipeline' | 'answers';
 
 const TOOLS = [
 	{ id: 'content' as const, label: 'Content Creator', icon: '✍️', description: 'Social media posts with AI images', color: '#2D6A4F' },
 	{ id: 'video' as const, label: 'Video Editor', icon: '🎬', description: 'Video scripts & FFmpeg commands', color: '#E67E22' },
 	{ id: 'library' as const, label: 'Media Library', icon: '📚', description: 'All content, videos & images', color: '#1ABC9C' },
+	{ id: 'calendar' as const, label: 'Content Calendar', icon: '🗓️', description: 'Schedule & track posts', color: '#16A085' },
 	{ id: 'grants' as const, label: 'Grant Writer', icon: '📋', description: 'Proposals & funding narratives', color: '#9B59B6' },
+	{ id: 'pipeline' as const, label: 'Grant Pipeline', icon: '🗂️', description: 'Track grants from prospect to award', color: '#8E44AD' },
+	{ id: 'answers' as const, label: 'Answer Library', icon: '📚', description: 'Approved grant section answers', color: '#7D3C98' },
 	{ id: 'donors' as const, label: 'Donor Researcher', icon: '🔍', description: 'Find & research prospects', color: '#3498DB' },
 	{ id: 'venues' as const, label: 'Venue Prospector', icon: '📍', description: 'Find program locations', color: '#E74C3C' },
 ];
@@ -50,6 +56,18 @@ export function ContentStudio() {
 		return <ContentLibrary onBack={handleBackToHome} />;
 	}
 
+	if (activeTool === 'calendar') {
+		return <ContentCalendar onBack={handleBackToHome} />;
+	}
+
+	if (activeTool === 'pipeline') {
+		return <GrantPipeline onBack={handleBackToHome} />;
+	}
+
+	if (activeTool === 'answers') {
+		return <GrantAnswerLibrary onBack={handleBackToHome} />;
+	}
+
 	if (activeTool === 'venues') {
 		return <VenueProspector onBack={handleBackToHome} />;
 	}